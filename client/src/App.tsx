@@ -1,4 +1,7 @@
 import NewsListPage from "@/pages/news-intelligence/list";
+import NewsFeedsPage from "@/pages/news-intelligence/feeds";
+import PipelinePage from "@/pages/news-intelligence/pipeline";
+import NewsBackfillsPage from "@/pages/news-intelligence/backfills";
 
 import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
@@ -28,11 +31,14 @@ import FirmsPage from "@/pages/data/firms";
 import ContactsPage from "@/pages/data/contacts";
 import FundsPage from "@/pages/data/funds";
 import DealsPage from "@/pages/data/deals";
+import DealDraftsPage from "@/pages/data/deal-drafts";
 import ExtractionPage from "@/pages/extraction";
 import IntelligencePage from "@/pages/intelligence";
 import SettingsPage from "@/pages/settings";
 import AdminUsersPage from "@/pages/admin/users";
 import AdminOrganizationsPage from "@/pages/admin/organizations";
+import AdminPermissionsPage from "@/pages/admin/permissions";
+import AdminApiKeysPage from "@/pages/admin/api-keys";
 import DataNestDashboard from "@/pages/crm/index";
 import PublicCompaniesPage from "@/pages/crm/public-companies";
 import RelationshipsPage from "@/pages/crm/relationships";
@@ -45,6 +51,7 @@ import NestAnnotatePage from "@/pages/nest-annotate";
 import NestAnnotateProjectsPage from "@/pages/annotate/projects";
 import NestAnnotateProjectDetailPage from "@/pages/annotate/project-detail";
 import ShellProfilesPage from "@/pages/annotate/shell-profiles";
+import EntityLinkReviewPage from "@/pages/annotate/entity-link-review";
 import NewsIntelligencePage from "@/pages/news-intelligence";
 import NewsItemDetailPage from "@/pages/news-item-detail";
 import ProjectViewPage from "@/pages/project-view";
@@ -125,15 +132,23 @@ function AppRoutes() {
         <Route path="/annotate" component={AnnotatePage} />
         <Route path="/annotate/text/:taskId" component={TextLabelPage} />
         <Route path="/annotate/image" component={ImageLabelPage} />
+        <Route path="/annotate/image/:taskId" component={ImageLabelPage} />
         <Route path="/annotate/video" component={VideoLabelPage} />
+        <Route path="/annotate/video/:taskId" component={VideoLabelPage} />
         <Route path="/annotate/transcription" component={TranscriptionPage} />
+        <Route path="/annotate/transcription/:taskId" component={TranscriptionPage} />
         <Route path="/annotate/translation" component={TranslationPage} />
+        <Route path="/annotate/translation/:taskId" component={TranslationPage} />
         <Route path="/nest-annotate" component={NestAnnotatePage} />
         <Route path="/annotate/projects" component={() => <Redirect to="/nest-annotate" />} />
         <Route path="/annotate/projects/:id" component={NestAnnotateProjectDetailPage} />
         <Route path="/annotate/shell-profiles" component={ShellProfilesPage} />
+        <Route path="/annotate/entity-links" component={EntityLinkReviewPage} />
         <Route path="/news-intelligence" component={NewsIntelligencePage} />
 		<Route path="/news-intelligence/list" component={NewsListPage} />
+        <Route path="/news-intelligence/feeds" component={NewsFeedsPage} />
+        <Route path="/news-intelligence/pipeline" component={PipelinePage} />
+        <Route path="/news-intelligence/backfills" component={NewsBackfillsPage} />
 
         <Route path="/news/:taskId" component={NewsItemDetailPage} />
         <Route path="/projects/:projectId" component={ProjectViewPage} />
@@ -154,6 +169,7 @@ function AppRoutes() {
         <Route path="/data/service-providers" component={() => <FirmsPage defaultTab="service-provider" />} />
         <Route path="/data/contacts" component={ContactsPage} />
         <Route path="/data/deals" component={DealsPage} />
+        <Route path="/data/deal-drafts" component={DealDraftsPage} />
         <Route path="/gp" component={() => <FirmsPage defaultTab="gp" />} />
         <Route path="/lp" component={() => <FirmsPage defaultTab="lp" />} />
         <Route path="/fund" component={FundsPage} />
@@ -168,6 +184,8 @@ function AppRoutes() {
         <Route path="/data/public-market" component={PublicMarketPage} />
         <Route path="/admin/users" component={AdminUsersPage} />
         <Route path="/admin/organizations" component={AdminOrganizationsPage} />
+        <Route path="/admin/permissions" component={AdminPermissionsPage} />
+        <Route path="/admin/api-keys" component={AdminApiKeysPage} />
         <Route path="/settings" component={SettingsPage} />
         <Route path="/settings/locations" component={LocationManagementPage} />
         <Route path="/entity/:entityType/new" component={NewEntityPage} />
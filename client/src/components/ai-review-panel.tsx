@@ -0,0 +1,327 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { authFetch } from "@/lib/session";
+import { Brain, CheckCircle, XCircle, Play } from "lucide-react";
+import {
+  aiReviewFields,
+  dealTypes,
+  type AiFieldReviewAction,
+  type AiReviewField,
+  type NewsAIOutput,
+} from "@shared/schema";
+
+interface AiOutputRow {
+  id: string;
+  status: string;
+  review_status: string;
+  output_json: Partial<NewsAIOutput> | null;
+  reviewed_output: NewsAIOutput | null;
+  validation_errors: string[] | null;
+  prompt_version: string | null;
+  llm_model: string | null;
+  created_at: string;
+}
+
+interface FieldDraft {
+  action: AiFieldReviewAction;
+  draft: string;
+}
+
+interface AiReviewPanelProps {
+  taskId: string;
+  newsId?: string;
+  // Creates the news row for the task when it does not exist yet
+  ensureNewsId: () => Promise<string>;
+}
+
+const fieldLabels: Record<AiReviewField, string> = {
+  deal_detected: "Deal Detected",
+  deal_type: "Deal Type",
+  "amounts.value": "Amount",
+  "amounts.currency": "Currency",
+  "geography.country": "Country",
+  "geography.city": "City",
+  "dates.announcement_date": "Announcement Date",
+  "entities.general_partners": "General Partners",
+  "entities.funds": "Funds",
+  "entities.portfolio_companies": "Portfolio Companies",
+  "entities.limited_partners": "Limited Partners",
+  "entities.service_providers": "Service Providers",
+};
+
+const getField = (output: any, field: AiReviewField): unknown =>
+  field.split(".").reduce((value, key) => (value == null ? undefined : value[key]), output);
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+// Turns the text a reviewer typed back into the field's JSON type
+function parseDraft(field: AiReviewField, draft: string): unknown {
+  const text = draft.trim();
+  if (field.startsWith("entities.")) {
+    return text ? text.split(",").map((s) => s.trim()).filter(Boolean) : [];
+  }
+  if (field === "deal_detected") return text === "true";
+  if (!text) return null;
+  if (field === "amounts.value") return Number(text.replace(/,/g, ""));
+  if (field === "amounts.currency") return text.toUpperCase();
+  return text;
+}
+
+const reviewStatusClass: Record<string, string> = {
+  pending: "bg-slate-500/10 text-slate-600 dark:text-slate-400",
+  accepted: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400",
+  rejected: "bg-red-500/10 text-red-600 dark:text-red-400",
+};
+
+export function AiReviewPanel({ taskId, newsId, ensureNewsId }: AiReviewPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, FieldDraft>>({});
+  const [notes, setNotes] = useState("");
+
+  const { data: outputs = [], isLoading } = useQuery<AiOutputRow[]>({
+    queryKey: ["ai-outputs", newsId],
+    queryFn: async () => {
+      const res = await authFetch(`/api/ai-outputs?source_type=news&source_id=${newsId}`);
+      if (!res.ok) throw new Error("Failed to load AI outputs");
+      return res.json();
+    },
+    enabled: !!newsId,
+  });
+
+  const latest = outputs[0];
+  const aiOutput = latest?.output_json ?? {};
+
+  useEffect(() => {
+    if (!latest) return;
+    const base = latest.reviewed_output ?? latest.output_json ?? {};
+    setDrafts(
+      Object.fromEntries(
+        aiReviewFields.map((field) => [field, { action: "accept", draft: formatValue(getField(base, field)) }])
+      )
+    );
+    setNotes("");
+  }, [latest?.id, latest?.reviewed_output]);
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const id = newsId ?? (await ensureNewsId());
+      return apiRequest("POST", `/api/news/${id}/process`);
+    },
+    onSuccess: () => {
+      toast({ title: "AI queued", description: "The article was queued for AI processing." });
+      queryClient.invalidateQueries({ queryKey: ["news-item", taskId] });
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: ["ai-outputs"] }), 3000);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to run AI", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: "accept" | "reject") => {
+      const fields = Object.fromEntries(
+        Object.entries(drafts)
+          .filter(([, d]) => d.action !== "accept")
+          .map(([field, d]) => [
+            field,
+            d.action === "edit" ? { action: "edit", value: parseDraft(field as AiReviewField, d.draft) } : { action: "reject" },
+          ])
+      );
+      const res = await apiRequest("POST", `/api/ai-outputs/${latest!.id}/review`, {
+        decision,
+        fields,
+        task_id: taskId,
+        notes: notes || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["ai-outputs"] });
+      queryClient.invalidateQueries({ queryKey: ["news-item", taskId] });
+      if (result.review_status === "rejected") {
+        toast({ title: "AI output rejected" });
+        return;
+      }
+      const unresolved: { name: string }[] = result.unresolved_entities || [];
+      toast({
+        title: "AI output accepted",
+        description: unresolved.length
+          ? `Tags saved. Not found in DataNest: ${unresolved.map((u) => u.name).join(", ")}`
+          : result.deal_draft_id
+            ? "Tags saved. The deal draft was sent for analyst approval."
+            : "Tags were updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setAction = (field: AiReviewField, action: AiFieldReviewAction) => {
+    if (!action) return;
+    setDrafts((prev) => ({ ...prev, [field]: { ...prev[field], action } }));
+  };
+
+  const setDraft = (field: AiReviewField, draft: string) => {
+    setDrafts((prev) => ({ ...prev, [field]: { ...prev[field], draft } }));
+  };
+
+  const renderEditor = (field: AiReviewField) => {
+    const draft = drafts[field]?.draft ?? "";
+    if (field === "deal_detected" || field === "deal_type") {
+      const options = field === "deal_detected" ? ["true", "false"] : ["none", ...dealTypes];
+      return (
+        <Select
+          value={draft || (field === "deal_type" ? "none" : "false")}
+          onValueChange={(v) => setDraft(field, v === "none" ? "" : v)}
+        >
+          <SelectTrigger className="h-8" data-testid={`select-review-${field}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        className="h-8"
+        value={draft}
+        onChange={(e) => setDraft(field, e.target.value)}
+        placeholder={field.startsWith("entities.") ? "Comma-separated names" : ""}
+        data-testid={`input-review-${field}`}
+      />
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Brain className="h-4 w-4" />
+          AI Intelligence
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Accept, edit or reject each field the model extracted. Accepted values update this task's tags and the deal draft awaiting analyst approval.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {latest ? (
+            <>
+              <Badge variant="secondary" data-testid="badge-ai-status">{latest.status}</Badge>
+              <Badge className={reviewStatusClass[latest.review_status] || reviewStatusClass.pending}>
+                Review: {latest.review_status}
+              </Badge>
+              {latest.prompt_version && <span className="text-muted-foreground">{latest.prompt_version}</span>}
+              {latest.llm_model && <span className="text-muted-foreground">· {latest.llm_model}</span>}
+            </>
+          ) : (
+            <span className="text-muted-foreground">{isLoading ? "Loading..." : "No AI output yet"}</span>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto"
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            data-testid="button-run-ai"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {runMutation.isPending ? "Queueing..." : "Run AI"}
+          </Button>
+        </div>
+
+        {latest?.validation_errors && latest.validation_errors.length > 0 && (
+          <div className="rounded border border-destructive/40 p-3 text-sm">
+            <p className="font-medium text-destructive mb-1">Failed validation</p>
+            <ul className="list-disc pl-5 text-muted-foreground">
+              {latest.validation_errors.map((e) => (
+                <li key={e}>{e}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {latest && (
+          <div className="divide-y border rounded-md">
+            {aiReviewFields.map((field) => {
+              const decision = drafts[field]?.action ?? "accept";
+              return (
+                <div key={field} className="grid grid-cols-12 gap-3 items-center px-3 py-2 text-sm" data-testid={`review-row-${field}`}>
+                  <div className="col-span-3 font-medium">{fieldLabels[field]}</div>
+                  <div className="col-span-4 text-muted-foreground truncate" title={formatValue(getField(aiOutput, field))}>
+                    {formatValue(getField(aiOutput, field)) || "—"}
+                  </div>
+                  <div className="col-span-3">
+                    {decision === "edit" ? renderEditor(field) : decision === "reject" ? (
+                      <span className="text-destructive line-through">{formatValue(getField(aiOutput, field)) || "—"}</span>
+                    ) : null}
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    className="col-span-2 justify-end"
+                    value={decision}
+                    onValueChange={(v) => setAction(field, v as AiFieldReviewAction)}
+                  >
+                    <ToggleGroupItem value="accept" title="Accept" data-testid={`review-accept-${field}`}>✓</ToggleGroupItem>
+                    <ToggleGroupItem value="edit" title="Edit" data-testid={`review-edit-${field}`}>✎</ToggleGroupItem>
+                    <ToggleGroupItem value="reject" title="Reject" data-testid={`review-reject-${field}`}>✕</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {latest && (
+          <>
+            <Textarea
+              placeholder="Review notes (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="input-review-notes"
+            />
+            <div className="flex justify-end gap-3">
+              <Button
+                variant="outline"
+                onClick={() => reviewMutation.mutate("reject")}
+                disabled={reviewMutation.isPending}
+                data-testid="button-reject-ai"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Reject Output
+              </Button>
+              <Button
+                onClick={() => reviewMutation.mutate("accept")}
+                disabled={reviewMutation.isPending}
+                data-testid="button-accept-ai"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Accept Review
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
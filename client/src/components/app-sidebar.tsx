@@ -40,6 +40,8 @@ import {
   TrendingUp,
   Globe,
   Newspaper,
+  KeyRound,
+  KeySquare,
 } from "lucide-react";
 import type { UserRole } from "@shared/schema";
 
@@ -94,6 +96,7 @@ const modules = [
       { id: "service-providers", title: "Service Providers", icon: Handshake, path: "/data/service-providers" },
       { id: "contacts", title: "Contacts", icon: Users, path: "/data/contacts" },
       { id: "deals", title: "Deals", icon: Briefcase, path: "/data/deals" },
+      { id: "deal-drafts", title: "Deal Drafts", icon: FileText, path: "/data/deal-drafts" },
       { id: "relationships", title: "Relationships", icon: LinkIcon, path: "/data/relationships" },
       { id: "agritech", title: "Agritech", icon: Factory, path: "/data/agritech" },
       { id: "blockchain", title: "Blockchain", icon: Factory, path: "/data/blockchain" },
@@ -207,6 +210,26 @@ export function AppSidebar() {
                   </SidebarMenuButton>
                 </SidebarMenuItem>
               )}
+              {hasModuleAccess("admin_panel") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild isActive={location === "/admin/permissions"}>
+                    <Link href="/admin/permissions" data-testid="nav-admin-permissions">
+                      <KeyRound className="h-4 w-4" />
+                      <span>Permissions</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
+              {hasModuleAccess("admin_panel") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild isActive={location === "/admin/api-keys"}>
+                    <Link href="/admin/api-keys" data-testid="nav-admin-api-keys">
+                      <KeySquare className="h-4 w-4" />
+                      <span>API Keys</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
               {(user?.role === "super_admin" || user?.role === "admin" || user?.role === "manager") && (
                 <SidebarMenuItem>
                   <SidebarMenuButton asChild isActive={location === "/settings/locations"}>
@@ -0,0 +1,317 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import type { TranscriptSegment } from "@shared/schema";
+import { Loader2, ZoomIn, ZoomOut } from "lucide-react";
+
+interface AudioWaveformProps {
+  url: string | null;
+  duration: number;
+  currentTime: number;
+  segments: TranscriptSegment[];
+  selectedId: string | null;
+  colorOf: (speaker: string) => string;
+  onSeek: (time: number) => void;
+  onSelect: (id: string) => void;
+  // commit is false while dragging and true once the edit is finished
+  onRetime: (id: string, start: number, end: number, commit: boolean) => void;
+  onCreate: (start: number, end: number) => void;
+}
+
+type Drag =
+  | { kind: "create"; from: number; to: number; startX: number }
+  | { kind: "edge"; segment: TranscriptSegment; edge: "start" | "end" };
+
+// Peaks are decoded at this rate; enough for a waveform and keeps an hour-long call in memory
+const DECODE_SAMPLE_RATE = 3000;
+const PEAKS_PER_SECOND = 100;
+const MIN_SPAN = 2;
+const DEFAULT_SPAN = 30;
+// Pointer travel under which a press on the waveform is a click (seek), not a new segment
+const CLICK_TOLERANCE = 4;
+const EDGE_WIDTH = 6;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Min and max sample per 1/PEAKS_PER_SECOND of the first channel
+async function decodePeaks(url: string, signal: AbortSignal) {
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Download failed (${res.status})`);
+  const encoded = await res.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const audio = await context.decodeAudioData(encoded);
+  const samples = audio.getChannelData(0);
+  const size = Math.ceil(audio.sampleRate / PEAKS_PER_SECOND);
+  const count = Math.ceil(samples.length / size);
+  const peaks = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    let min = 0;
+    let max = 0;
+    const end = Math.min((i + 1) * size, samples.length);
+    for (let j = i * size; j < end; j++) {
+      if (samples[j] < min) min = samples[j];
+      if (samples[j] > max) max = samples[j];
+    }
+    peaks[i * 2] = min;
+    peaks[i * 2 + 1] = max;
+  }
+  return peaks;
+}
+
+/**
+ * Scrollable waveform of a task's media with its transcript segments laid
+ * over it. Click seeks, dragging on empty space marks a new segment and the
+ * selected segment's edges can be dragged. Scroll pans; Ctrl+scroll zooms.
+ * The waveform needs the file to be fetchable (CORS); segments and seeking
+ * work without it.
+ */
+export function AudioWaveform({
+  url,
+  duration,
+  currentTime,
+  segments,
+  selectedId,
+  colorOf,
+  onSeek,
+  onSelect,
+  onRetime,
+  onCreate,
+}: AudioWaveformProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [peaksState, setPeaksState] = useState<"idle" | "loading" | "ready" | "failed">("idle");
+  const [width, setWidth] = useState(0);
+  const [span, setSpan] = useState(DEFAULT_SPAN);
+  const [viewStart, setViewStart] = useState(0);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const visible = Math.min(span, Math.max(duration, MIN_SPAN));
+  const maxStart = Math.max(duration - visible, 0);
+
+  useEffect(() => {
+    setPeaks(null);
+    if (!url) {
+      setPeaksState("idle");
+      return;
+    }
+    const controller = new AbortController();
+    setPeaksState("loading");
+    decodePeaks(url, controller.signal)
+      .then((result) => {
+        setPeaks(result);
+        setPeaksState("ready");
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setPeaksState("failed");
+      });
+    return () => controller.abort();
+  }, [url]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setWidth(container.clientWidth));
+    observer.observe(container);
+    setWidth(container.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the playhead in view
+  useEffect(() => {
+    if (currentTime < viewStart || currentTime > viewStart + visible) {
+      setViewStart(clamp(currentTime - visible * 0.1, 0, maxStart));
+    }
+  }, [currentTime, viewStart, visible, maxStart]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const height = canvas.clientHeight;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, height);
+    const mid = height / 2;
+    ctx.fillStyle = getComputedStyle(canvas).color;
+    if (!peaks) {
+      ctx.fillRect(0, mid, width, 1);
+      return;
+    }
+    const count = peaks.length / 2;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((viewStart + (x / width) * visible) * PEAKS_PER_SECOND);
+      const to = Math.max(Math.floor((viewStart + ((x + 1) / width) * visible) * PEAKS_PER_SECOND), from + 1);
+      let min = 0;
+      let max = 0;
+      for (let i = from; i < to && i < count; i++) {
+        if (peaks[i * 2] < min) min = peaks[i * 2];
+        if (peaks[i * 2 + 1] > max) max = peaks[i * 2 + 1];
+      }
+      ctx.fillRect(x, mid - max * mid, 1, Math.max((max - min) * mid, 1));
+    }
+  }, [peaks, width, viewStart, visible]);
+
+  const zoom = useCallback(
+    (factor: number, anchor = currentTime) => {
+      const next = clamp(span * factor, MIN_SPAN, Math.max(duration, MIN_SPAN));
+      setSpan(next);
+      setViewStart(clamp(anchor - ((anchor - viewStart) / visible) * Math.min(next, duration), 0, Math.max(duration - next, 0)));
+    },
+    [span, duration, currentTime, viewStart, visible]
+  );
+
+  // Wheel listener is added by hand so it can preventDefault (React's is passive)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      if (event.ctrlKey || event.metaKey) {
+        const rect = container.getBoundingClientRect();
+        zoom(event.deltaY < 0 ? 1 / 1.25 : 1.25, viewStart + ((event.clientX - rect.left) / rect.width) * visible);
+      } else {
+        const delta = Math.abs(event.deltaX) > Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
+        setViewStart((start) => clamp(start + (delta / Math.max(width, 1)) * visible, 0, maxStart));
+      }
+    };
+    container.addEventListener("wheel", onWheel, { passive: false });
+    return () => container.removeEventListener("wheel", onWheel);
+  }, [zoom, viewStart, visible, width, maxStart]);
+
+  const timeAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return clamp(viewStart + ((clientX - rect.left) / rect.width) * visible, 0, duration);
+  };
+
+  const onPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || duration <= 0) return;
+    containerRef.current?.setPointerCapture(event.pointerId);
+    const time = timeAt(event.clientX);
+    setDrag({ kind: "create", from: time, to: time, startX: event.clientX });
+  };
+
+  const onEdgePointerDown = (event: ReactPointerEvent, segment: TranscriptSegment, edge: "start" | "end") => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    containerRef.current?.setPointerCapture(event.pointerId);
+    setDrag({ kind: "edge", segment, edge });
+  };
+
+  const onPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const time = timeAt(event.clientX);
+    if (drag.kind === "create") {
+      setDrag({ ...drag, to: time });
+    } else if (drag.edge === "start") {
+      onRetime(drag.segment.id, Math.min(time, drag.segment.end), drag.segment.end, false);
+    } else {
+      onRetime(drag.segment.id, drag.segment.start, Math.max(time, drag.segment.start), false);
+    }
+  };
+
+  const onPointerUp = (event: ReactPointerEvent<HTMLDivElement>) => {
+    containerRef.current?.releasePointerCapture(event.pointerId);
+    if (!drag) return;
+    setDrag(null);
+    if (drag.kind === "edge") {
+      const current = segments.find((s) => s.id === drag.segment.id);
+      if (current) onRetime(current.id, current.start, current.end, true);
+      return;
+    }
+    if (Math.abs(event.clientX - drag.startX) < CLICK_TOLERANCE) {
+      // A click on a segment selects it as well
+      const hit = segments.find((s) => s.start <= drag.from && drag.from < s.end);
+      if (hit) onSelect(hit.id);
+      onSeek(drag.from);
+    } else {
+      onCreate(Math.min(drag.from, drag.to), Math.max(drag.from, drag.to));
+    }
+  };
+
+  const left = (time: number) => ((time - viewStart) / visible) * 100;
+  const draft = drag?.kind === "create" && Math.abs(drag.to - drag.from) > 0 ? drag : null;
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={containerRef}
+        className="relative h-28 rounded-lg border border-border bg-muted/30 overflow-hidden select-none touch-none cursor-text text-primary/60"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        data-testid="waveform"
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+        {segments
+          .filter((s) => s.end >= viewStart && s.start <= viewStart + visible)
+          .map((s) => {
+            const selected = s.id === selectedId;
+            return (
+              <div
+                key={s.id}
+                className={`absolute top-0 bottom-0 border-x ${selected ? "border-foreground" : "border-transparent"}`}
+                style={{
+                  left: `${left(s.start)}%`,
+                  width: `${((s.end - s.start) / visible) * 100}%`,
+                  backgroundColor: colorOf(s.speaker),
+                  opacity: selected ? 0.35 : 0.18,
+                }}
+              >
+                {selected && (
+                  <>
+                    <div
+                      className="absolute top-0 bottom-0 -left-1 cursor-ew-resize"
+                      style={{ width: EDGE_WIDTH }}
+                      onPointerDown={(event) => onEdgePointerDown(event, s, "start")}
+                    />
+                    <div
+                      className="absolute top-0 bottom-0 -right-1 cursor-ew-resize"
+                      style={{ width: EDGE_WIDTH }}
+                      onPointerDown={(event) => onEdgePointerDown(event, s, "end")}
+                    />
+                  </>
+                )}
+              </div>
+            );
+          })}
+        {draft && (
+          <div
+            className="absolute top-0 bottom-0 bg-primary/20 border-x border-primary"
+            style={{
+              left: `${left(Math.min(draft.from, draft.to))}%`,
+              width: `${(Math.abs(draft.to - draft.from) / visible) * 100}%`,
+            }}
+          />
+        )}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-destructive" style={{ left: `${left(currentTime)}%` }} />
+        {peaksState === "loading" && (
+          <div className="absolute right-2 top-2 flex items-center gap-1 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading waveform
+          </div>
+        )}
+        {peaksState === "failed" && (
+          <div className="absolute right-2 top-2 text-xs text-muted-foreground">
+            Waveform unavailable for this file
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Drag to mark a segment, click to seek. Scroll pans, Ctrl+scroll zooms.</span>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => zoom(1.5)} title="Zoom out" data-testid="button-waveform-zoom-out">
+            <ZoomOut className="h-3 w-3" />
+          </Button>
+          <span className="w-12 text-center">{Math.round(visible)}s</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => zoom(1 / 1.5)} title="Zoom in" data-testid="button-waveform-zoom-in">
+            <ZoomIn className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
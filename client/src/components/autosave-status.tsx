@@ -0,0 +1,49 @@
+import { AlertCircle, Check, Cloud, Loader2 } from "lucide-react";
+import type { SaveState } from "@/hooks/use-task-annotation";
+
+interface AutosaveStatusProps {
+  state: SaveState;
+  lastSavedAt: Date | null;
+  error?: string | null;
+}
+
+export function AutosaveStatus({ state, lastSavedAt, error }: AutosaveStatusProps) {
+  const saved = lastSavedAt
+    ? `Saved ${lastSavedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" })}`
+    : "All changes saved";
+
+  return (
+    <span className="flex items-center gap-1 text-sm text-muted-foreground" data-testid="text-autosave-status">
+      {state === "saving" && (
+        <>
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Saving...
+        </>
+      )}
+      {state === "pending" && (
+        <>
+          <Cloud className="h-3 w-3" />
+          Unsaved changes
+        </>
+      )}
+      {(state === "saved" || state === "idle") && (
+        <>
+          <Check className="h-3 w-3" />
+          {saved}
+        </>
+      )}
+      {state === "error" && (
+        <span className="flex items-center gap-1 text-destructive" title={error ?? undefined}>
+          <AlertCircle className="h-3 w-3" />
+          Not saved
+        </span>
+      )}
+      {state === "conflict" && (
+        <span className="flex items-center gap-1 text-destructive">
+          <AlertCircle className="h-3 w-3" />
+          Changed elsewhere
+        </span>
+      )}
+    </span>
+  );
+}
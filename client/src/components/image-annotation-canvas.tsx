@@ -0,0 +1,442 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import type { ImageShape } from "@shared/schema";
+import { Image as ImageIcon, Maximize, ZoomIn, ZoomOut } from "lucide-react";
+
+export type ImageTool = "select" | "rectangle" | "polygon";
+
+type Point = [number, number];
+
+interface ImageAnnotationCanvasProps {
+  imageUrl: string | null;
+  shapes: ImageShape[];
+  selectedId: string | null;
+  tool: ImageTool;
+  activeLabel: string;
+  colorOf: (label: string) => string;
+  // commit is false while dragging and true once the edit is finished
+  onChange: (shapes: ImageShape[], commit: boolean) => void;
+  onSelect: (id: string | null) => void;
+  onImageLoad: (size: { width: number; height: number }) => void;
+}
+
+type Drag =
+  | { kind: "pan"; startX: number; startY: number; startPan: Point }
+  | { kind: "draw"; start: Point; current: Point }
+  | { kind: "move"; id: string; start: Point; original: ImageShape; moved: boolean }
+  | { kind: "handle"; id: string; handle: number; original: ImageShape };
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 20;
+const MIN_RECT_SIZE = 3;
+// Screen pixels within which a click closes the polygon on its first point
+const CLOSE_DISTANCE = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const newShapeId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+// Corners clockwise from top-left
+const rectCorners = (shape: Extract<ImageShape, { type: "rectangle" }>): Point[] => [
+  [shape.x, shape.y],
+  [shape.x + shape.width, shape.y],
+  [shape.x + shape.width, shape.y + shape.height],
+  [shape.x, shape.y + shape.height],
+];
+
+const rectFromPoints = (a: Point, b: Point) => ({
+  x: Math.min(a[0], b[0]),
+  y: Math.min(a[1], b[1]),
+  width: Math.abs(a[0] - b[0]),
+  height: Math.abs(a[1] - b[1]),
+});
+
+export const translateShape = (shape: ImageShape, dx: number, dy: number): ImageShape =>
+  shape.type === "rectangle"
+    ? { ...shape, x: shape.x + dx, y: shape.y + dy }
+    : { ...shape, points: shape.points.map(([x, y]) => [x + dx, y + dy] as Point) };
+
+export function ImageAnnotationCanvas({
+  imageUrl,
+  shapes,
+  selectedId,
+  tool,
+  activeLabel,
+  colorOf,
+  onChange,
+  onSelect,
+  onImageLoad,
+}: ImageAnnotationCanvasProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [imageError, setImageError] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState<Point>([0, 0]);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [polygonDraft, setPolygonDraft] = useState<Point[]>([]);
+  const [hover, setHover] = useState<Point | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+
+  const fit = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !imageSize) return;
+    const scale = Math.min(viewport.clientWidth / imageSize.width, viewport.clientHeight / imageSize.height, 1);
+    setZoom(scale);
+    setPan([
+      (viewport.clientWidth - imageSize.width * scale) / 2,
+      (viewport.clientHeight - imageSize.height * scale) / 2,
+    ]);
+  }, [imageSize]);
+
+  useEffect(() => {
+    fit();
+  }, [fit]);
+
+  useEffect(() => {
+    setImageSize(null);
+    setImageError(false);
+  }, [imageUrl]);
+
+  // Zoom keeping the point under (screenX, screenY) in place
+  const zoomAt = useCallback(
+    (factor: number, screenX?: number, screenY?: number) => {
+      const viewport = viewportRef.current;
+      if (!viewport) return;
+      const sx = screenX ?? viewport.clientWidth / 2;
+      const sy = screenY ?? viewport.clientHeight / 2;
+      setZoom((current) => {
+        const next = clamp(current * factor, MIN_ZOOM, MAX_ZOOM);
+        setPan(([px, py]) => [sx - ((sx - px) / current) * next, sy - ((sy - py) / current) * next]);
+        return next;
+      });
+    },
+    []
+  );
+
+  // Wheel listener is added by hand so it can preventDefault (React's is passive)
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? 1.1 : 1 / 1.1, event.clientX - rect.left, event.clientY - rect.top);
+    };
+    viewport.addEventListener("wheel", onWheel, { passive: false });
+    return () => viewport.removeEventListener("wheel", onWheel);
+  }, [zoomAt]);
+
+  const finishPolygon = useCallback(() => {
+    if (polygonDraft.length >= 3) {
+      const shape: ImageShape = { id: newShapeId(), type: "polygon", label: activeLabel, points: polygonDraft };
+      onChange([...shapes, shape], true);
+      onSelect(shape.id);
+    }
+    setPolygonDraft([]);
+  }, [polygonDraft, activeLabel, shapes, onChange, onSelect]);
+
+  // View and drawing keys; editing keys are handled by the page
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isTyping(event.target)) return;
+      if (event.code === "Space") {
+        setSpaceHeld(true);
+        event.preventDefault();
+      } else if (event.key === "+" || event.key === "=") {
+        zoomAt(1.25);
+      } else if (event.key === "-") {
+        zoomAt(1 / 1.25);
+      } else if (event.key === "0") {
+        fit();
+      } else if (event.key === "Enter" && polygonDraft.length > 0) {
+        finishPolygon();
+      } else if (event.key === "Escape" && polygonDraft.length > 0) {
+        setPolygonDraft([]);
+        event.stopImmediatePropagation();
+      }
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.code === "Space") setSpaceHeld(false);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+    };
+  }, [zoomAt, fit, polygonDraft, finishPolygon]);
+
+  useEffect(() => {
+    if (tool !== "polygon") setPolygonDraft([]);
+  }, [tool]);
+
+  const toImage = (event: { clientX: number; clientY: number }): Point => {
+    const rect = viewportRef.current!.getBoundingClientRect();
+    const x = (event.clientX - rect.left - pan[0]) / zoom;
+    const y = (event.clientY - rect.top - pan[1]) / zoom;
+    return imageSize ? [clamp(x, 0, imageSize.width), clamp(y, 0, imageSize.height)] : [x, y];
+  };
+
+  const replaceShape = (next: ImageShape, commit: boolean) =>
+    onChange(shapes.map((shape) => (shape.id === next.id ? next : shape)), commit);
+
+  const onViewportPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!imageSize) return;
+    viewportRef.current?.setPointerCapture(event.pointerId);
+
+    if (event.button === 1 || spaceHeld || (tool === "select" && event.button === 0)) {
+      if (tool === "select" && event.button === 0 && !spaceHeld) onSelect(null);
+      setDrag({ kind: "pan", startX: event.clientX, startY: event.clientY, startPan: pan });
+      return;
+    }
+    if (event.button !== 0) return;
+
+    const point = toImage(event);
+    if (tool === "rectangle") {
+      setDrag({ kind: "draw", start: point, current: point });
+    } else if (tool === "polygon") {
+      const first = polygonDraft[0];
+      if (
+        first &&
+        polygonDraft.length >= 3 &&
+        Math.hypot(first[0] - point[0], first[1] - point[1]) * zoom <= CLOSE_DISTANCE
+      ) {
+        finishPolygon();
+      } else {
+        setPolygonDraft([...polygonDraft, point]);
+      }
+    }
+  };
+
+  const onShapePointerDown = (event: ReactPointerEvent, shape: ImageShape) => {
+    if (tool !== "select" || event.button !== 0 || spaceHeld) return;
+    event.stopPropagation();
+    viewportRef.current?.setPointerCapture(event.pointerId);
+    onSelect(shape.id);
+    setDrag({ kind: "move", id: shape.id, start: toImage(event), original: shape, moved: false });
+  };
+
+  const onHandlePointerDown = (event: ReactPointerEvent, shape: ImageShape, handle: number) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    viewportRef.current?.setPointerCapture(event.pointerId);
+    setDrag({ kind: "handle", id: shape.id, handle, original: shape });
+  };
+
+  const onPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!imageSize) return;
+    const point = toImage(event);
+    setHover(point);
+    if (!drag) return;
+
+    if (drag.kind === "pan") {
+      setPan([drag.startPan[0] + event.clientX - drag.startX, drag.startPan[1] + event.clientY - drag.startY]);
+    } else if (drag.kind === "draw") {
+      setDrag({ ...drag, current: point });
+    } else if (drag.kind === "move") {
+      const moved = translateShape(drag.original, point[0] - drag.start[0], point[1] - drag.start[1]);
+      setDrag({ ...drag, moved: true });
+      replaceShape(moved, false);
+    } else if (drag.kind === "handle") {
+      const original = drag.original;
+      if (original.type === "rectangle") {
+        // The opposite corner stays put
+        const opposite = rectCorners(original)[(drag.handle + 2) % 4];
+        replaceShape({ ...original, ...rectFromPoints(opposite, point) }, false);
+      } else {
+        const points = original.points.map((p, i) => (i === drag.handle ? point : p));
+        replaceShape({ ...original, points }, false);
+      }
+    }
+  };
+
+  const onPointerUp = (event: ReactPointerEvent<HTMLDivElement>) => {
+    viewportRef.current?.releasePointerCapture(event.pointerId);
+    if (!drag) return;
+    setDrag(null);
+
+    if (drag.kind === "draw") {
+      const rect = rectFromPoints(drag.start, drag.current);
+      if (rect.width >= MIN_RECT_SIZE && rect.height >= MIN_RECT_SIZE) {
+        const shape: ImageShape = { id: newShapeId(), type: "rectangle", label: activeLabel, ...rect };
+        onChange([...shapes, shape], true);
+        onSelect(shape.id);
+      }
+    } else if ((drag.kind === "move" && drag.moved) || drag.kind === "handle") {
+      onChange(shapes, true);
+    }
+  };
+
+  const handleRadius = 5 / zoom;
+  const draftRect = drag?.kind === "draw" ? rectFromPoints(drag.start, drag.current) : null;
+  const cursor =
+    drag?.kind === "pan" ? "grabbing" : spaceHeld || tool === "select" ? "grab" : "crosshair";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-end gap-1">
+        <Button variant="ghost" size="icon" onClick={() => zoomAt(1 / 1.25)} title="Zoom out (-)" data-testid="button-zoom-out">
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <span className="w-14 text-center text-sm text-muted-foreground" data-testid="text-zoom">
+          {Math.round(zoom * 100)}%
+        </span>
+        <Button variant="ghost" size="icon" onClick={() => zoomAt(1.25)} title="Zoom in (+)" data-testid="button-zoom-in">
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={fit} title="Fit to view (0)" data-testid="button-zoom-fit">
+          <Maximize className="h-4 w-4" />
+        </Button>
+      </div>
+      <div
+        ref={viewportRef}
+        className="relative h-[600px] overflow-hidden rounded-lg border border-border bg-muted/30 select-none touch-none"
+        style={{ cursor }}
+        onPointerDown={onViewportPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={() => setHover(null)}
+        onDoubleClick={() => tool === "polygon" && finishPolygon()}
+        data-testid="image-canvas"
+      >
+        {(!imageUrl || imageError) && (
+          <div className="absolute inset-0 flex items-center justify-center text-center">
+            <div>
+              <ImageIcon className="h-16 w-16 mx-auto text-muted-foreground/50" />
+              <p className="mt-2 text-muted-foreground">
+                {imageError ? "The image could not be loaded." : "This task has no image."}
+              </p>
+            </div>
+          </div>
+        )}
+        {imageUrl && (
+          <div
+            className="absolute left-0 top-0 origin-top-left"
+            style={{ transform: `translate(${pan[0]}px, ${pan[1]}px) scale(${zoom})` }}
+          >
+            <img
+              src={imageUrl}
+              alt=""
+              draggable={false}
+              className="block max-w-none"
+              onLoad={(event) => {
+                const size = { width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight };
+                setImageSize(size);
+                onImageLoad(size);
+              }}
+              onError={() => setImageError(true)}
+            />
+            {imageSize && (
+              <svg
+                className="absolute left-0 top-0 overflow-visible"
+                width={imageSize.width}
+                height={imageSize.height}
+                viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+              >
+                {shapes.map((shape) => {
+                  const color = colorOf(shape.label);
+                  const selected = shape.id === selectedId;
+                  const common = {
+                    stroke: color,
+                    strokeWidth: selected ? 3 : 2,
+                    fill: color,
+                    fillOpacity: selected ? 0.25 : 0.12,
+                    vectorEffect: "non-scaling-stroke" as const,
+                    style: { pointerEvents: tool === "select" ? ("all" as const) : ("none" as const), cursor: "move" },
+                    onPointerDown: (event: ReactPointerEvent) => onShapePointerDown(event, shape),
+                  };
+                  return shape.type === "rectangle" ? (
+                    <rect key={shape.id} x={shape.x} y={shape.y} width={shape.width} height={shape.height} {...common} />
+                  ) : (
+                    <polygon key={shape.id} points={shape.points.map((p) => p.join(",")).join(" ")} {...common} />
+                  );
+                })}
+                {shapes.map((shape) => {
+                  const anchor = shape.type === "rectangle" ? [shape.x, shape.y] : shape.points[0];
+                  return (
+                    <text
+                      key={`label-${shape.id}`}
+                      x={anchor[0]}
+                      y={anchor[1] - 4 / zoom}
+                      fontSize={12 / zoom}
+                      fill={colorOf(shape.label)}
+                      style={{ pointerEvents: "none", fontWeight: 600 }}
+                    >
+                      {shape.label}
+                    </text>
+                  );
+                })}
+                {tool === "select" &&
+                  shapes
+                    .filter((shape) => shape.id === selectedId)
+                    .map((shape) =>
+                      (shape.type === "rectangle" ? rectCorners(shape) : shape.points).map((point, i) => (
+                        <circle
+                          key={`${shape.id}-handle-${i}`}
+                          cx={point[0]}
+                          cy={point[1]}
+                          r={handleRadius}
+                          fill="white"
+                          stroke={colorOf(shape.label)}
+                          strokeWidth={2}
+                          vectorEffect="non-scaling-stroke"
+                          style={{ cursor: "pointer" }}
+                          onPointerDown={(event) => onHandlePointerDown(event, shape, i)}
+                        />
+                      ))
+                    )}
+                {draftRect && (
+                  <rect
+                    {...draftRect}
+                    fill="none"
+                    stroke={colorOf(activeLabel)}
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+                {polygonDraft.length > 0 && (
+                  <>
+                    <polyline
+                      points={[...polygonDraft, ...(hover ? [hover] : [])].map((p) => p.join(",")).join(" ")}
+                      fill="none"
+                      stroke={colorOf(activeLabel)}
+                      strokeWidth={2}
+                      strokeDasharray="6 4"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                    {polygonDraft.map((point, i) => (
+                      <circle
+                        key={`draft-${i}`}
+                        cx={point[0]}
+                        cy={point[1]}
+                        r={handleRadius}
+                        fill={i === 0 ? colorOf(activeLabel) : "white"}
+                        stroke={colorOf(activeLabel)}
+                        strokeWidth={2}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    ))}
+                  </>
+                )}
+              </svg>
+            )}
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {tool === "polygon"
+          ? "Click to add points; click the first point, double-click or press Enter to close. Esc cancels."
+          : tool === "rectangle"
+            ? "Drag to draw a box. Hold Space and drag to pan; scroll to zoom."
+            : "Click a shape to select it, drag to move, drag its handles to resize. Drag the background to pan."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useRef } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { LabelAttribute, LabelAttributeValues } from "@shared/schema";
+
+interface LabelAttributesFormProps {
+  attributes: LabelAttribute[];
+  values: LabelAttributeValues | undefined;
+  // commit is false while typing and true once a value is settled (blur, pick, toggle)
+  onChange: (values: LabelAttributeValues, commit: boolean) => void;
+}
+
+const UNSET = "__unset__";
+
+/**
+ * Inputs for the attribute values of one labeled item, as its class in the
+ * project's label schema defines them.
+ */
+export function LabelAttributesForm({ attributes, values = {}, onChange }: LabelAttributesFormProps) {
+  // Typed since the field was focused; leaving it then commits
+  const typedRef = useRef(false);
+  const set = (id: string, value: string | number | boolean | undefined, commit: boolean) => {
+    const next = { ...values };
+    if (value === undefined || value === "") delete next[id];
+    else next[id] = value;
+    onChange(next, commit);
+  };
+
+  return (
+    <div className="space-y-3">
+      {attributes.map((attribute) => {
+        const value = values[attribute.id];
+        const inputId = `attribute-${attribute.id}`;
+        const label = (
+          <Label htmlFor={inputId} className="text-xs">
+            {attribute.name}
+            {attribute.required && <span className="text-destructive"> *</span>}
+          </Label>
+        );
+
+        if (attribute.type === "boolean") {
+          return (
+            <div key={attribute.id} className="flex items-center justify-between">
+              {label}
+              <Switch
+                id={inputId}
+                checked={value === true}
+                onCheckedChange={(checked) => set(attribute.id, checked, true)}
+                data-testid={`switch-${inputId}`}
+              />
+            </div>
+          );
+        }
+
+        if (attribute.type === "enum") {
+          return (
+            <div key={attribute.id} className="space-y-1">
+              {label}
+              <Select
+                value={typeof value === "string" ? value : UNSET}
+                onValueChange={(next) => set(attribute.id, next === UNSET ? undefined : next, true)}
+              >
+                <SelectTrigger id={inputId} className="h-8" data-testid={`select-${inputId}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNSET}>—</SelectItem>
+                  {(attribute.options ?? []).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                  {typeof value === "string" && !(attribute.options ?? []).includes(value) && (
+                    <SelectItem value={value} disabled>
+                      {value} (removed)
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        }
+
+        return (
+          <div key={attribute.id} className="space-y-1">
+            {label}
+            <Input
+              id={inputId}
+              type={attribute.type === "number" ? "number" : "text"}
+              className="h-8"
+              value={value === undefined ? "" : String(value)}
+              onChange={(event) => {
+                typedRef.current = true;
+                const raw = event.target.value;
+                set(attribute.id, attribute.type === "number" && raw !== "" ? Number(raw) : raw, false);
+              }}
+              onBlur={() => {
+                if (!typedRef.current) return;
+                typedRef.current = false;
+                onChange(values, true);
+              }}
+              data-testid={`input-${inputId}`}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
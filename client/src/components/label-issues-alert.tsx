@@ -0,0 +1,29 @@
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+
+interface LabelIssuesAlertProps {
+  issues: string[];
+  version?: number;
+}
+
+// Labels left outside the project's label schema, e.g. after a manager changed it
+export function LabelIssuesAlert({ issues, version }: LabelIssuesAlertProps) {
+  if (issues.length === 0) return null;
+
+  return (
+    <Alert data-testid="alert-label-issues">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription>
+        <p className="font-medium">
+          Some labels do not fit the project's label schema{version ? ` (version ${version})` : ""}:
+        </p>
+        <ul className="mt-1 list-disc pl-5 text-sm">
+          {issues.slice(0, 8).map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+          {issues.length > 8 && <li>and {issues.length - 8} more</li>}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
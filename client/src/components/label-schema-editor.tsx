@@ -0,0 +1,599 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { labelOptionsOf, useLabelSchema } from "@/hooks/use-label-schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { authFetch } from "@/lib/session";
+import {
+  labelAttributeTypes,
+  labelSchemaSchema,
+  type LabelAttributeType,
+  type LabelSchema,
+} from "@shared/schema";
+import { History, Loader2, Pencil, Plus, Tags, Trash2 } from "lucide-react";
+
+interface LabelSchemaVersionRow {
+  version: number;
+  remap: Record<string, string>;
+  class_count: number;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+interface SaveResult {
+  version: number;
+  migration: { checked: number; migrated: number; flagged: number };
+}
+
+// Classes and attributes are edited by a local key; ids are fixed on save
+interface DraftAttribute {
+  key: string;
+  id: string | null;
+  name: string;
+  type: LabelAttributeType;
+  options: string;
+  required: boolean;
+}
+
+interface DraftClass {
+  key: string;
+  id: string | null;
+  name: string;
+  color: string;
+  hotkey: string | null;
+  parentKey: string | null;
+  attributes: DraftAttribute[];
+}
+
+const NONE = "__none__";
+const FLAG_ONLY = "__flag__";
+const hotkeys = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "0"];
+const palette = ["#3b82f6", "#a855f7", "#10b981", "#f59e0b", "#ec4899", "#06b6d4", "#84cc16", "#f97316", "#6366f1", "#14b8a6"];
+
+let draftCounter = 0;
+const draftKey = () => `draft_${++draftCounter}`;
+
+const slugOf = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 56) || "label";
+
+const uniqueId = (base: string, taken: Set<string>) => {
+  let id = base;
+  for (let i = 2; taken.has(id); i++) id = `${base}_${i}`;
+  taken.add(id);
+  return id;
+};
+
+const toDraft = (schema: LabelSchema): DraftClass[] =>
+  schema.classes.map((labelClass) => ({
+    key: labelClass.id,
+    id: labelClass.id,
+    name: labelClass.name,
+    color: labelClass.color,
+    hotkey: labelClass.hotkey ?? null,
+    parentKey: labelClass.parent_id ?? null,
+    attributes: labelClass.attributes.map((attribute) => ({
+      key: draftKey(),
+      id: attribute.id,
+      name: attribute.name,
+      type: attribute.type,
+      options: (attribute.options ?? []).join(", "),
+      required: !!attribute.required,
+    })),
+  }));
+
+const fromDraft = (draft: DraftClass[]): LabelSchema => {
+  const taken = new Set(draft.map((c) => c.id).filter((id): id is string => !!id));
+  const idByKey = new Map(draft.map((c) => [c.key, c.id ?? uniqueId(slugOf(c.name), taken)]));
+  return {
+    classes: draft.map((c) => {
+      const attributeIds = new Set(c.attributes.map((a) => a.id).filter((id): id is string => !!id));
+      return {
+        id: idByKey.get(c.key)!,
+        name: c.name.trim(),
+        color: c.color,
+        hotkey: c.hotkey,
+        parent_id: c.parentKey ? idByKey.get(c.parentKey) ?? null : null,
+        attributes: c.attributes.map((a) => ({
+          id: a.id ?? uniqueId(slugOf(a.name), attributeIds),
+          name: a.name.trim(),
+          type: a.type,
+          ...(a.type === "enum"
+            ? { options: a.options.split(",").map((option) => option.trim()).filter(Boolean) }
+            : {}),
+          ...(a.required ? { required: true } : {}),
+        })),
+      };
+    }),
+  };
+};
+
+// Tree order with depth, as the labeling pages list classes
+const orderDraft = (draft: DraftClass[]) => {
+  const walk = (parentKey: string | null, depth: number): Array<{ item: DraftClass; depth: number }> =>
+    draft
+      .filter((c) => c.parentKey === parentKey)
+      .flatMap((item) => [{ item, depth }, ...walk(item.key, depth + 1)]);
+  return walk(null, 0);
+};
+
+const descendantKeys = (draft: DraftClass[], key: string): string[] =>
+  draft.filter((c) => c.parentKey === key).flatMap((c) => [c.key, ...descendantKeys(draft, c.key)]);
+
+interface LabelSchemaCardProps {
+  projectId: string;
+  canEdit: boolean;
+}
+
+/**
+ * The project's label schema: a summary for everyone, and for managers an
+ * editor for classes, sub-labels, attributes, colours and hotkeys. Saving
+ * creates a new version; classes that were removed can be remapped so
+ * existing annotations move with them, anything else is flagged for review.
+ */
+export function LabelSchemaCard({ projectId, canEdit }: LabelSchemaCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { labelSchema, isLoading, options } = useLabelSchema(projectId);
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [draft, setDraft] = useState<DraftClass[]>([]);
+  const [remap, setRemap] = useState<Record<string, string>>({});
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  const { data: versions } = useQuery<LabelSchemaVersionRow[]>({
+    queryKey: ["/api/label-projects", projectId, "label-schema", "versions"],
+    queryFn: async () => {
+      const res = await authFetch(`/api/label-projects/${projectId}/label-schema/versions`);
+      if (!res.ok) throw new Error("Failed to load schema versions");
+      return res.json();
+    },
+    enabled: historyOpen,
+  });
+
+  const isNews = labelSchema?.project_category === "news";
+  const originalClasses = labelSchema?.schema.classes ?? [];
+  const removedClasses = originalClasses.filter((c) => !draft.some((d) => d.id === c.id));
+  const ordered = orderDraft(draft);
+
+  const openEditor = () => {
+    if (!labelSchema) return;
+    setDraft(toDraft(labelSchema.schema));
+    setRemap({});
+    setExpandedKey(null);
+    setEditorOpen(true);
+  };
+
+  const updateClass = (key: string, changes: Partial<DraftClass>) =>
+    setDraft(draft.map((c) => (c.key === key ? { ...c, ...changes } : c)));
+
+  const addClass = (parentKey: string | null) => {
+    const parent = draft.find((c) => c.key === parentKey);
+    const key = draftKey();
+    setDraft([
+      ...draft,
+      {
+        key,
+        id: null,
+        name: "",
+        color: parent?.color ?? palette[draft.filter((c) => !c.parentKey).length % palette.length],
+        hotkey: null,
+        parentKey,
+        attributes: [],
+      },
+    ]);
+    setExpandedKey(key);
+  };
+
+  // Sub-labels go with their class
+  const removeClass = (key: string) => {
+    const removed = new Set([key, ...descendantKeys(draft, key)]);
+    setDraft(draft.filter((c) => !removed.has(c.key)));
+  };
+
+  const updateAttribute = (classKey: string, attributeKey: string, changes: Partial<DraftAttribute>) =>
+    updateClass(classKey, {
+      attributes: draft
+        .find((c) => c.key === classKey)!
+        .attributes.map((a) => (a.key === attributeKey ? { ...a, ...changes } : a)),
+    });
+
+  const addAttribute = (classKey: string) =>
+    updateClass(classKey, {
+      attributes: [
+        ...draft.find((c) => c.key === classKey)!.attributes,
+        { key: draftKey(), id: null, name: "", type: "enum", options: "", required: false },
+      ],
+    });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (draft.some((c) => !c.name.trim() || c.attributes.some((a) => !a.name.trim()))) {
+        throw new Error("Every class and attribute needs a name");
+      }
+      const parsed = labelSchemaSchema.safeParse(fromDraft(draft));
+      if (!parsed.success) {
+        throw new Error(parsed.error.errors[0].message);
+      }
+      const activeRemap = Object.fromEntries(
+        Object.entries(remap).filter(([from, to]) => to !== FLAG_ONLY && removedClasses.some((c) => c.id === from))
+      );
+      const res = await apiRequest("PUT", `/api/label-projects/${projectId}/label-schema`, {
+        schema: parsed.data,
+        base_version: labelSchema!.version,
+        remap: activeRemap,
+      });
+      return res.json() as Promise<SaveResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/label-projects", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nest-annotate/projects", projectId] });
+      setEditorOpen(false);
+      const { checked, migrated, flagged } = result.migration;
+      toast({
+        title: `Label schema version ${result.version} saved`,
+        description: `${checked} ${isNews ? "tasks" : "annotations"} checked, ${migrated} migrated, ${flagged} tasks flagged for review.`,
+      });
+    },
+    onError: (error: Error) => {
+      const conflict = error.message.startsWith("409");
+      toast({
+        title: conflict ? "Schema changed elsewhere" : "Failed to save the label schema",
+        description: conflict
+          ? "Another manager saved a newer version. Close the editor and open it again to continue from it."
+          : error.message,
+        variant: "destructive",
+      });
+      if (conflict) queryClient.invalidateQueries({ queryKey: ["/api/label-projects", projectId] });
+    },
+  });
+
+  const topLevel = options.filter((option) => option.depth === 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-4 w-4" />
+            Label Schema
+          </CardTitle>
+          {labelSchema && (
+            <p className="text-sm text-muted-foreground mt-1">
+              {labelSchema.is_default ? "Default schema" : `Version ${labelSchema.version}`} · {options.length} classes
+              {isNews && " · top-level classes are tag groups, their sub-labels the tags"}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setHistoryOpen(!historyOpen)} data-testid="button-schema-history">
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={openEditor} disabled={!labelSchema} data-testid="button-edit-schema">
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit Schema
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : options.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No classes defined yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {topLevel.map((group) => {
+              const children = options.filter((option) => option.path.startsWith(`${group.path} / `));
+              return (
+                <div key={group.id} className="flex flex-wrap items-center gap-2">
+                  <Badge style={{ backgroundColor: group.color }} className="text-white">
+                    {group.name}
+                    {group.hotkey && <span className="ml-1 opacity-75">[{group.hotkey}]</span>}
+                  </Badge>
+                  {children.map((child) => (
+                    <Badge key={child.id} variant="outline" className="gap-1">
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: child.color }} />
+                      {child.name}
+                      {child.hotkey && <span className="text-muted-foreground">[{child.hotkey}]</span>}
+                    </Badge>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {historyOpen && (
+          <div className="border rounded-lg p-3 space-y-1" data-testid="schema-history">
+            {!versions ? (
+              <Skeleton className="h-6 w-full" />
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The project still uses the default schema.</p>
+            ) : (
+              versions.map((version) => (
+                <div key={version.version} className="flex items-center justify-between text-sm">
+                  <span>
+                    Version {version.version} · {version.class_count} classes
+                    {Object.keys(version.remap).length > 0 && ` · ${Object.keys(version.remap).length} remapped`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {version.created_by_name ?? "Unknown"}, {new Date(version.created_at).toLocaleString()}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Label Schema</DialogTitle>
+            <DialogDescription>
+              {isNews
+                ? "Top-level classes are the tag groups of the article form; their sub-labels are the tags."
+                : "Classes, sub-labels and the attributes annotators fill in for each labeled item. Hotkeys pick a class on the labeling pages."}{" "}
+              Saving creates version {(labelSchema?.version ?? 0) + 1} and checks existing annotations against it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {ordered.map(({ item, depth }) => {
+              const blockedParents = new Set([item.key, ...descendantKeys(draft, item.key)]);
+              const expanded = expandedKey === item.key;
+              return (
+                <div
+                  key={item.key}
+                  className="border rounded-lg p-2 space-y-2"
+                  style={{ marginLeft: `${depth * 1.5}rem` }}
+                  data-testid={`schema-class-${item.key}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={item.color}
+                      onChange={(e) => updateClass(item.key, { color: e.target.value })}
+                      className="h-8 w-8 shrink-0 cursor-pointer rounded border bg-transparent"
+                      title="Colour"
+                      data-testid={`input-class-color-${item.key}`}
+                    />
+                    <Input
+                      value={item.name}
+                      onChange={(e) => updateClass(item.key, { name: e.target.value })}
+                      placeholder="Class name"
+                      className="h-8"
+                      data-testid={`input-class-name-${item.key}`}
+                    />
+                    {item.id && <span className="text-xs text-muted-foreground font-mono shrink-0">{item.id}</span>}
+                    <Select
+                      value={item.hotkey ?? NONE}
+                      onValueChange={(value) => updateClass(item.key, { hotkey: value === NONE ? null : value })}
+                    >
+                      <SelectTrigger className="h-8 w-20 shrink-0" title="Hotkey" data-testid={`select-class-hotkey-${item.key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Key</SelectItem>
+                        {hotkeys.map((key) => (
+                          <SelectItem
+                            key={key}
+                            value={key}
+                            disabled={draft.some((c) => c.key !== item.key && c.hotkey === key)}
+                          >
+                            {key}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={item.parentKey ?? NONE}
+                      onValueChange={(value) => updateClass(item.key, { parentKey: value === NONE ? null : value })}
+                    >
+                      <SelectTrigger className="h-8 w-36 shrink-0" title="Parent class" data-testid={`select-class-parent-${item.key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Top level</SelectItem>
+                        {draft
+                          .filter((c) => !blockedParents.has(c.key))
+                          .map((c) => (
+                            <SelectItem key={c.key} value={c.key}>
+                              Under {c.name || "(unnamed)"}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 shrink-0"
+                      onClick={() => setExpandedKey(expanded ? null : item.key)}
+                      data-testid={`button-class-attributes-${item.key}`}
+                    >
+                      {item.attributes.length} attr.
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => addClass(item.key)}
+                      title="Add sub-label"
+                      data-testid={`button-add-sublabel-${item.key}`}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => removeClass(item.key)}
+                      title="Remove with its sub-labels"
+                      data-testid={`button-remove-class-${item.key}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+
+                  {expanded && (
+                    <div className="pl-10 space-y-2">
+                      {item.attributes.map((attribute) => (
+                        <div key={attribute.key} className="flex items-center gap-2">
+                          <Input
+                            value={attribute.name}
+                            onChange={(e) => updateAttribute(item.key, attribute.key, { name: e.target.value })}
+                            placeholder="Attribute name"
+                            className="h-8 w-40"
+                            data-testid={`input-attribute-name-${attribute.key}`}
+                          />
+                          <Select
+                            value={attribute.type}
+                            onValueChange={(value) =>
+                              updateAttribute(item.key, attribute.key, { type: value as LabelAttributeType })
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-28" data-testid={`select-attribute-type-${attribute.key}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {labelAttributeTypes.map((type) => (
+                                <SelectItem key={type} value={type} className="capitalize">
+                                  {type}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {attribute.type === "enum" && (
+                            <Input
+                              value={attribute.options}
+                              onChange={(e) => updateAttribute(item.key, attribute.key, { options: e.target.value })}
+                              placeholder="Options, comma separated"
+                              className="h-8 flex-1"
+                              data-testid={`input-attribute-options-${attribute.key}`}
+                            />
+                          )}
+                          <label className="flex items-center gap-1 text-xs whitespace-nowrap ml-auto">
+                            <Checkbox
+                              checked={attribute.required}
+                              onCheckedChange={(checked) =>
+                                updateAttribute(item.key, attribute.key, { required: checked === true })
+                              }
+                            />
+                            Required
+                          </label>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() =>
+                              updateClass(item.key, {
+                                attributes: item.attributes.filter((a) => a.key !== attribute.key),
+                              })
+                            }
+                            data-testid={`button-remove-attribute-${attribute.key}`}
+                          >
+                            <Trash2 className="h-3 w-3 text-destructive" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => addAttribute(item.key)}
+                        data-testid={`button-add-attribute-${item.key}`}
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add Attribute
+                      </Button>
+                      {depth > 0 && (
+                        <p className="text-xs text-muted-foreground">Attributes of parent classes apply here too.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <Button variant="outline" size="sm" onClick={() => addClass(null)} data-testid="button-add-class">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Class
+            </Button>
+          </div>
+
+          {removedClasses.length > 0 && (
+            <div className="border rounded-lg p-4 bg-muted/30 space-y-3">
+              <div>
+                <h4 className="font-medium text-sm">Removed classes</h4>
+                <p className="text-xs text-muted-foreground">
+                  Existing labels of a removed class can move to another class. Otherwise their tasks are flagged
+                  for review.
+                </p>
+              </div>
+              {removedClasses.map((removed) => (
+                <div key={removed.id} className="flex items-center gap-3">
+                  <span className="text-sm w-40 truncate">{removed.name}</span>
+                  <Select
+                    value={remap[removed.id] ?? FLAG_ONLY}
+                    onValueChange={(value) => setRemap({ ...remap, [removed.id]: value })}
+                  >
+                    <SelectTrigger className="h-8 flex-1" data-testid={`select-remap-${removed.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={FLAG_ONLY}>Keep and flag for review</SelectItem>
+                      {labelOptionsOf(fromDraft(draft))
+                        .filter((option) => draft.some((c) => c.id === option.id))
+                        .map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            Move to {option.path}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-schema">
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Version {(labelSchema?.version ?? 0) + 1}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+import type { ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { authFetch } from "@/lib/session";
+import type { NewsTranslationSegment } from "@shared/schema";
+import { Languages, RefreshCw } from "lucide-react";
+
+interface TextAnnotation {
+  id: string;
+  entity_type: string;
+  start_offset: number;
+  end_offset: number;
+  text_span: string;
+}
+
+interface NewsText {
+  news_id: string;
+  language: string | null;
+  target_language: string;
+  original: { headline: string | null; text: string };
+  translation: {
+    headline: string | null;
+    text: string;
+    segments: NewsTranslationSegment[];
+    translated_by: string | null;
+    translated_at: string | null;
+  } | null;
+  annotations: TextAnnotation[];
+}
+
+interface NewsTranslationPanelProps {
+  newsId?: string;
+}
+
+// Original text between start and end, with annotations (original offsets) highlighted
+function highlightAnnotations(text: string, start: number, end: number, annotations: TextAnnotation[]) {
+  const parts: ReactNode[] = [];
+  let cursor = start;
+  for (const annotation of annotations) {
+    const from = Math.max(annotation.start_offset, cursor);
+    const to = Math.min(annotation.end_offset, end);
+    if (to <= from) continue;
+    if (from > cursor) parts.push(text.slice(cursor, from));
+    parts.push(
+      <mark
+        key={annotation.id}
+        className="rounded bg-primary/15 px-0.5 text-foreground"
+        title={annotation.entity_type.replace(/_/g, " ")}
+      >
+        {text.slice(from, to)}
+      </mark>
+    );
+    cursor = to;
+  }
+  if (cursor < end) parts.push(text.slice(cursor, end));
+  return parts;
+}
+
+export function NewsTranslationPanel({ newsId }: NewsTranslationPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<NewsText>({
+    queryKey: ["news-text", newsId],
+    queryFn: async () => {
+      const res = await authFetch(`/api/news/${newsId}/text`);
+      if (!res.ok) throw new Error("Failed to load article text");
+      return res.json();
+    },
+    enabled: !!newsId,
+  });
+
+  const translateMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/news/${newsId}/translate`, { force: true }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["news-text", newsId] });
+      toast({ title: "Article translated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Translation failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!data?.language || data.language === data.target_language) return null;
+
+  const { original, translation, annotations } = data;
+
+  return (
+    <Card data-testid="card-news-translation">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Languages className="h-4 w-4" />
+            Translation
+            <Badge variant="secondary" className="uppercase">
+              {data.language} → {data.target_language}
+            </Badge>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={translateMutation.isPending}
+            onClick={() => translateMutation.mutate()}
+            data-testid="button-retranslate"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${translateMutation.isPending ? "animate-spin" : ""}`} />
+            {translation ? "Retranslate" : "Translate"}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Tags are placed on the original text; the English version is for reading only.
+          {translation?.translated_by && ` Translated by ${translation.translated_by}.`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {!translation ? (
+          <p className="text-sm text-muted-foreground">This article has not been translated yet.</p>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <div className="grid grid-cols-2 gap-4 border-b pb-3 font-medium">
+              <p lang={data.language}>{original.headline}</p>
+              <p>{translation.headline}</p>
+            </div>
+            {translation.segments.map(([sourceStart, sourceEnd, targetStart, targetEnd], i) => (
+              <div key={i} className="grid grid-cols-2 gap-4" data-testid={`row-translation-segment-${i}`}>
+                <p lang={data.language!} className="whitespace-pre-wrap">
+                  {highlightAnnotations(original.text, sourceStart, sourceEnd, annotations)}
+                </p>
+                <p className="whitespace-pre-wrap text-muted-foreground">
+                  {translation.text.slice(targetStart, targetEnd)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
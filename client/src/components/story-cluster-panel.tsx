@@ -0,0 +1,139 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { authFetch } from "@/lib/session";
+import { Copy, ExternalLink } from "lucide-react";
+
+interface StoryClusterArticle {
+  id: string;
+  headline: string | null;
+  sourceName: string | null;
+  url: string | null;
+  publishDate: string | null;
+  similarity: number | null;
+  isCanonical: boolean;
+  taskStatus: string | null;
+}
+
+interface StoryCluster {
+  id: string;
+  canonicalNewsId: string;
+  articles: StoryClusterArticle[];
+}
+
+interface StoryClusterPanelProps {
+  newsId?: string;
+}
+
+export function StoryClusterPanel({ newsId }: StoryClusterPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: cluster } = useQuery<StoryCluster | null>({
+    queryKey: ["story-cluster", newsId],
+    queryFn: async () => {
+      const res = await authFetch(`/api/story-clusters/by-news/${newsId}`);
+      if (!res.ok) throw new Error("Failed to load story cluster");
+      return res.json();
+    },
+    enabled: !!newsId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ action, articleId }: { action: "canonical" | "detach"; articleId: string }) =>
+      apiRequest("POST", `/api/story-clusters/${cluster!.id}/${action}`, { news_id: articleId }),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["story-cluster"] });
+      queryClient.invalidateQueries({ queryKey: ["news-intelligence"] });
+      toast({
+        title: action === "canonical" ? "Canonical article changed" : "Article removed from cluster",
+        description:
+          action === "canonical"
+            ? "Annotators now work on the selected article."
+            : "Its tasks are back in the annotation queue.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!cluster || cluster.articles.length < 2) return null;
+
+  const isCanonical = cluster.canonicalNewsId === newsId;
+
+  return (
+    <Card data-testid="card-story-cluster">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Copy className="h-4 w-4" />
+          Syndicated Coverage
+          <Badge variant="secondary">{cluster.articles.length} articles</Badge>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {isCanonical
+            ? "Tags on this article are copied to its duplicates when it is completed."
+            : "This article duplicates the canonical article; its tags are copied from there."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {cluster.articles.map((article) => (
+          <div
+            key={article.id}
+            className="flex items-center justify-between gap-3 rounded-md border p-2 text-sm"
+            data-testid={`row-cluster-article-${article.id}`}
+          >
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{article.sourceName || "Unknown source"}</span>
+                {article.isCanonical && <Badge>Canonical</Badge>}
+                {article.id === newsId && <Badge variant="outline">This article</Badge>}
+                {article.taskStatus && (
+                  <Badge variant="outline" className="capitalize">
+                    {article.taskStatus.replace("_", " ")}
+                  </Badge>
+                )}
+                {!article.isCanonical && article.similarity !== null && (
+                  <span className="text-xs text-muted-foreground">{article.similarity}% overlap</span>
+                )}
+              </div>
+              <p className="truncate text-muted-foreground">{article.headline}</p>
+            </div>
+            <div className="flex items-center gap-1">
+              {article.url && (
+                <Button variant="ghost" size="icon" asChild>
+                  <a href={article.url} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+              )}
+              {!article.isCanonical && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={updateMutation.isPending}
+                  onClick={() => updateMutation.mutate({ action: "canonical", articleId: article.id })}
+                  data-testid={`button-make-canonical-${article.id}`}
+                >
+                  Make canonical
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={updateMutation.isPending}
+                onClick={() => updateMutation.mutate({ action: "detach", articleId: article.id })}
+                data-testid={`button-detach-${article.id}`}
+              >
+                Not a duplicate
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
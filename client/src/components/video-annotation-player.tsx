@@ -0,0 +1,313 @@
+import { useEffect, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent, RefObject } from "react";
+import { newShapeId } from "@/components/image-annotation-canvas";
+import { boxAt, frameAt, setKeyframe } from "@/lib/video-timeline";
+import type { VideoTrack } from "@shared/schema";
+import { Video } from "lucide-react";
+
+export type VideoTool = "select" | "box";
+
+type Point = [number, number];
+type Box = { x: number; y: number; width: number; height: number };
+
+interface VideoAnnotationPlayerProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  url: string | null;
+  frameRate: number;
+  frame: number;
+  tracks: VideoTrack[];
+  selectedTrackId: string | null;
+  tool: VideoTool;
+  activeLabel: string;
+  colorOf: (label: string) => string;
+  // commit is false while dragging and true once the edit is finished
+  onTracksChange: (tracks: VideoTrack[], commit: boolean) => void;
+  onSelectTrack: (id: string | null) => void;
+  onFrame: (frame: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onMetadata: (meta: { duration: number; width: number; height: number }) => void;
+}
+
+type Drag =
+  | { kind: "draw"; start: Point; current: Point }
+  | { kind: "move"; track: VideoTrack; box: Box; start: Point; moved: boolean }
+  | { kind: "handle"; track: VideoTrack; box: Box; handle: number };
+
+const MIN_BOX_SIZE = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Corners clockwise from top-left
+const boxCorners = (box: Box): Point[] => [
+  [box.x, box.y],
+  [box.x + box.width, box.y],
+  [box.x + box.width, box.y + box.height],
+  [box.x, box.y + box.height],
+];
+
+const boxFromPoints = (a: Point, b: Point): Box => ({
+  x: Math.min(a[0], b[0]),
+  y: Math.min(a[1], b[1]),
+  width: Math.abs(a[0] - b[0]),
+  height: Math.abs(a[1] - b[1]),
+});
+
+/**
+ * HTML5 video with an SVG overlay for keyframed bounding boxes. Boxes are in
+ * natural video pixels; drawing or editing one while paused writes a
+ * keyframe at the current frame. Playback position is reported per frame
+ * (requestVideoFrameCallback where supported).
+ */
+export function VideoAnnotationPlayer({
+  videoRef,
+  url,
+  frameRate,
+  frame,
+  tracks,
+  selectedTrackId,
+  tool,
+  activeLabel,
+  colorOf,
+  onTracksChange,
+  onSelectTrack,
+  onFrame,
+  onPlayingChange,
+  onMetadata,
+}: VideoAnnotationPlayerProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  useEffect(() => {
+    setSize(null);
+    setLoadError(false);
+  }, [url]);
+
+  // Follow the playhead: every presented frame while playing, and after seeks
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const report = () => onFrame(frameAt(video.currentTime, frameRate));
+    let handle = 0;
+    const withFrameCallback = video as HTMLVideoElement & {
+      requestVideoFrameCallback?: (cb: (now: number, meta: { mediaTime: number }) => void) => number;
+      cancelVideoFrameCallback?: (handle: number) => void;
+    };
+    const tick = () => {
+      report();
+      if (video.paused) return;
+      handle = withFrameCallback.requestVideoFrameCallback
+        ? withFrameCallback.requestVideoFrameCallback((_now, meta) => {
+            onFrame(frameAt(meta.mediaTime, frameRate));
+            tick();
+          })
+        : requestAnimationFrame(tick);
+    };
+    const onPlay = () => {
+      onPlayingChange(true);
+      tick();
+    };
+    const onPause = () => {
+      onPlayingChange(false);
+      report();
+    };
+    video.addEventListener("play", onPlay);
+    video.addEventListener("pause", onPause);
+    video.addEventListener("seeked", report);
+    if (!video.paused) tick();
+    return () => {
+      video.removeEventListener("play", onPlay);
+      video.removeEventListener("pause", onPause);
+      video.removeEventListener("seeked", report);
+      if (withFrameCallback.cancelVideoFrameCallback) withFrameCallback.cancelVideoFrameCallback(handle);
+      else cancelAnimationFrame(handle);
+    };
+  }, [videoRef, frameRate, onFrame, onPlayingChange, url]);
+
+  const toVideo = (event: { clientX: number; clientY: number }): Point => {
+    const svg = svgRef.current!;
+    const matrix = svg.getScreenCTM();
+    if (!matrix || !size) return [0, 0];
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const local = point.matrixTransform(matrix.inverse());
+    return [clamp(local.x, 0, size.width), clamp(local.y, 0, size.height)];
+  };
+
+  const withBox = (track: VideoTrack, box: Box) => setKeyframe(track, { frame, ...box });
+
+  const replaceTrack = (next: VideoTrack, commit: boolean) =>
+    onTracksChange(tracks.map((track) => (track.id === next.id ? next : track)), commit);
+
+  const startEdit = (event: ReactPointerEvent) => {
+    event.stopPropagation();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    videoRef.current?.pause();
+  };
+
+  const onBackgroundPointerDown = (event: ReactPointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0 || !size) return;
+    if (tool !== "box") {
+      onSelectTrack(null);
+      return;
+    }
+    startEdit(event);
+    const point = toVideo(event);
+    setDrag({ kind: "draw", start: point, current: point });
+  };
+
+  const onBoxPointerDown = (event: ReactPointerEvent, track: VideoTrack, box: Box) => {
+    if (tool !== "select" || event.button !== 0) return;
+    startEdit(event);
+    onSelectTrack(track.id);
+    setDrag({ kind: "move", track, box, start: toVideo(event), moved: false });
+  };
+
+  const onHandlePointerDown = (event: ReactPointerEvent, track: VideoTrack, box: Box, handle: number) => {
+    if (event.button !== 0) return;
+    startEdit(event);
+    setDrag({ kind: "handle", track, box, handle });
+  };
+
+  const onPointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const point = toVideo(event);
+    if (drag.kind === "draw") {
+      setDrag({ ...drag, current: point });
+    } else if (drag.kind === "move") {
+      const box = { ...drag.box, x: drag.box.x + point[0] - drag.start[0], y: drag.box.y + point[1] - drag.start[1] };
+      setDrag({ ...drag, moved: true });
+      replaceTrack(withBox(drag.track, box), false);
+    } else {
+      // The opposite corner stays put
+      const opposite = boxCorners(drag.box)[(drag.handle + 2) % 4];
+      replaceTrack(withBox(drag.track, boxFromPoints(opposite, point)), false);
+    }
+  };
+
+  const onPointerUp = (event: ReactPointerEvent<SVGSVGElement>) => {
+    svgRef.current?.releasePointerCapture(event.pointerId);
+    if (!drag) return;
+    setDrag(null);
+
+    if (drag.kind === "draw") {
+      const box = boxFromPoints(drag.start, drag.current);
+      if (box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) {
+        const track: VideoTrack = { id: newShapeId(), label: activeLabel, keyframes: [{ frame, ...box }] };
+        onTracksChange([...tracks, track], true);
+        onSelectTrack(track.id);
+      }
+    } else if ((drag.kind === "move" && drag.moved) || drag.kind === "handle") {
+      onTracksChange(tracks, true);
+    }
+  };
+
+  const draftBox = drag?.kind === "draw" ? boxFromPoints(drag.start, drag.current) : null;
+  // Overlay strokes are in video pixels; keep them readable on large videos
+  const unit = size ? Math.max(size.width, size.height) / 640 : 1;
+
+  return (
+    <div className="relative rounded-lg bg-black aspect-video overflow-hidden select-none touch-none" data-testid="video-player">
+      {(!url || loadError) && (
+        <div className="absolute inset-0 flex items-center justify-center text-center">
+          <div>
+            <Video className="h-16 w-16 mx-auto text-white/30" />
+            <p className="mt-2 text-white/60">
+              {loadError ? "The video could not be loaded." : "This task has no video."}
+            </p>
+          </div>
+        </div>
+      )}
+      {url && (
+        <video
+          ref={videoRef}
+          src={url}
+          className="absolute inset-0 h-full w-full object-contain"
+          preload="auto"
+          playsInline
+          onLoadedMetadata={(event) => {
+            const video = event.currentTarget;
+            const meta = { duration: video.duration, width: video.videoWidth, height: video.videoHeight };
+            setSize({ width: meta.width, height: meta.height });
+            onMetadata(meta);
+          }}
+          onError={() => setLoadError(true)}
+        />
+      )}
+      {size && (
+        <svg
+          ref={svgRef}
+          className="absolute inset-0 h-full w-full"
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          style={{ cursor: tool === "box" ? "crosshair" : "default" }}
+          onPointerDown={onBackgroundPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        >
+          {tracks.map((track) => {
+            const shown = boxAt(track, frame);
+            if (!shown) return null;
+            const box = { x: shown.x, y: shown.y, width: shown.width, height: shown.height };
+            const color = colorOf(track.label);
+            const selected = track.id === selectedTrackId;
+            return (
+              <g key={track.id}>
+                <rect
+                  x={box.x}
+                  y={box.y}
+                  width={box.width}
+                  height={box.height}
+                  stroke={color}
+                  strokeWidth={(selected ? 3 : 2) * unit}
+                  // Dashed between keyframes, solid on one
+                  strokeDasharray={shown.keyframe ? undefined : `${6 * unit} ${4 * unit}`}
+                  fill={color}
+                  fillOpacity={selected ? 0.25 : 0.1}
+                  style={{ pointerEvents: tool === "select" ? "all" : "none", cursor: "move" }}
+                  onPointerDown={(event) => onBoxPointerDown(event, track, box)}
+                  data-testid={`track-box-${track.id}`}
+                />
+                <text
+                  x={box.x}
+                  y={box.y - 4 * unit}
+                  fontSize={12 * unit}
+                  fill={color}
+                  style={{ pointerEvents: "none", fontWeight: 600 }}
+                >
+                  {track.label}
+                </text>
+                {selected &&
+                  tool === "select" &&
+                  boxCorners(box).map((corner, i) => (
+                    <circle
+                      key={i}
+                      cx={corner[0]}
+                      cy={corner[1]}
+                      r={5 * unit}
+                      fill="white"
+                      stroke={color}
+                      strokeWidth={2 * unit}
+                      style={{ cursor: "pointer" }}
+                      onPointerDown={(event) => onHandlePointerDown(event, track, box, i)}
+                    />
+                  ))}
+              </g>
+            );
+          })}
+          {draftBox && (
+            <rect
+              {...draftBox}
+              fill="none"
+              stroke={colorOf(activeLabel)}
+              strokeWidth={2 * unit}
+              strokeDasharray={`${6 * unit} ${4 * unit}`}
+            />
+          )}
+        </svg>
+      )}
+    </div>
+  );
+}
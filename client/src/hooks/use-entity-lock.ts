@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { apiRequest } from "@/lib/queryClient";
+import { getAccessToken } from "@/lib/session";
 import type { EntityType, EntityEditLock } from "@shared/schema";
 
 interface LockStatus {
@@ -160,7 +161,8 @@ export function useEntityLock({
   useEffect(() => {
     const handleBeforeUnload = () => {
       if (isOwnLockRef.current && entityId) {
-        const payload = JSON.stringify({ entityType, entityId });
+        // sendBeacon cannot set an Authorization header, so the token rides in the body
+        const payload = JSON.stringify({ entityType, entityId, accessToken: getAccessToken() });
         const blob = new Blob([payload], { type: "application/json" });
         navigator.sendBeacon(`/api/locks/release-beacon`, blob);
       }
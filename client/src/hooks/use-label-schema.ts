@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { authFetch } from "@/lib/session";
+import { attributesOfClass, type LabelClass, type LabelSchema } from "@shared/schema";
+
+export interface ProjectLabelSchema {
+  project_id: string;
+  label_type: string;
+  project_category: string;
+  version: number;
+  schema: LabelSchema;
+  is_default: boolean;
+}
+
+// A class as listed in pickers: tree order, with its depth and "Parent / Child" path
+export interface LabelOption extends LabelClass {
+  depth: number;
+  path: string;
+}
+
+// Shapes and segments whose class is no longer in the schema
+export const UNKNOWN_LABEL_COLOR = "#ef4444";
+
+export const labelOptionsOf = (schema: LabelSchema | undefined): LabelOption[] => {
+  const classes = schema?.classes ?? [];
+  const walk = (parentId: string | null, depth: number, prefix: string): LabelOption[] =>
+    classes
+      .filter((labelClass) => (labelClass.parent_id ?? null) === parentId)
+      .flatMap((labelClass) => {
+        const path = prefix ? `${prefix} / ${labelClass.name}` : labelClass.name;
+        return [{ ...labelClass, depth, path }, ...walk(labelClass.id, depth + 1, path)];
+      });
+  return walk(null, 0, "");
+};
+
+/**
+ * Loads a label project's schema and derives what labeling pages render
+ * from it: the classes in tree order and lookups by id and hotkey.
+ */
+export function useLabelSchema(projectId?: string) {
+  const query = useQuery<ProjectLabelSchema>({
+    queryKey: ["/api/label-projects", projectId, "label-schema"],
+    queryFn: async () => {
+      const res = await authFetch(`/api/label-projects/${projectId}/label-schema`);
+      if (!res.ok) throw new Error("Failed to load the label schema");
+      return res.json();
+    },
+    enabled: !!projectId,
+  });
+
+  const schema = query.data?.schema;
+  const lookups = useMemo(() => {
+    const options = labelOptionsOf(schema);
+    const byId = new Map(options.map((option) => [option.id, option]));
+    return {
+      options,
+      colorOf: (id: string) => byId.get(id)?.color ?? UNKNOWN_LABEL_COLOR,
+      nameOf: (id: string) => byId.get(id)?.path ?? id,
+      optionOfHotkey: (key: string) => options.find((option) => option.hotkey === key),
+      attributesOf: (id: string) => (schema ? attributesOfClass(schema, id) : []),
+    };
+  }, [schema]);
+
+  return {
+    labelSchema: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+    ...lookups,
+  };
+}
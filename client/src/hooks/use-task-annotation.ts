@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { authFetch } from "@/lib/session";
+import type { AnnotationType, MediaTaskMetadata } from "@shared/schema";
+
+export interface AnnotationTaskInfo {
+  id: string;
+  project_id: string;
+  project_name: string;
+  label_type: string;
+  status: string;
+  assigned_to: string | null;
+  metadata: MediaTaskMetadata & Record<string, unknown>;
+}
+
+export interface TaskAnnotation<T> {
+  id: string;
+  type: AnnotationType;
+  data: T;
+  labels: string[];
+  confidence_score: number | null;
+  updated_at: string;
+}
+
+export type SaveState = "idle" | "pending" | "saving" | "saved" | "error" | "conflict";
+
+interface UseTaskAnnotationOptions {
+  taskId?: string;
+  type: AnnotationType;
+  autosaveDelayMs?: number;
+}
+
+/**
+ * Loads a label task with its annotation of one type and autosaves edits.
+ * scheduleSave debounces; flush saves right away. Each save sends the
+ * updated_at it is based on, so a concurrent edit elsewhere surfaces as the
+ * "conflict" state instead of being overwritten. The draft is kept and held
+ * back until the user picks a side: reload() drops it for the stored version,
+ * overwrite() saves it over that version.
+ */
+export function useTaskAnnotation<T>({ taskId, type, autosaveDelayMs = 1500 }: UseTaskAnnotationOptions) {
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const baseRef = useRef<string | null | undefined>(undefined);
+  const pendingRef = useRef<{ data: T; confidenceScore?: number | null } | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savingRef = useRef<Promise<boolean> | null>(null);
+  const conflictRef = useRef(false);
+
+  const query = useQuery<{ task: AnnotationTaskInfo; annotation: TaskAnnotation<T> | null }>({
+    queryKey: ["/api/annotation-tasks", taskId, "annotation", type],
+    queryFn: async () => {
+      const res = await authFetch(`/api/annotation-tasks/${taskId}/annotation?type=${type}`);
+      if (res.status === 404) throw new Error("Task not found");
+      if (!res.ok) throw new Error("Failed to load task");
+      return res.json();
+    },
+    enabled: !!taskId,
+  });
+
+  // The version the next save is based on follows whatever was loaded last
+  useEffect(() => {
+    if (query.data) baseRef.current = query.data.annotation?.updated_at ?? null;
+  }, [query.data]);
+
+  // Resolves to false when the edit could not be stored
+  const runSave = useCallback(async (): Promise<boolean> => {
+    if (savingRef.current) await savingRef.current;
+    if (conflictRef.current) return false;
+    const pending = pendingRef.current;
+    if (!pending || !taskId) return true;
+    pendingRef.current = null;
+
+    setSaveState("saving");
+    const save = (async () => {
+      try {
+        const res = await authFetch(`/api/annotation-tasks/${taskId}/annotation`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            type,
+            data: pending.data,
+            confidence_score: pending.confidenceScore,
+            base_updated_at: baseRef.current,
+          }),
+        });
+        if (res.status === 409) {
+          // Newer edits made meanwhile win over the rejected draft
+          pendingRef.current = pendingRef.current ?? pending;
+          conflictRef.current = true;
+          setSaveState("conflict");
+          return false;
+        }
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body.error || `Save failed (${res.status})`);
+        }
+        const saved: TaskAnnotation<T> = await res.json();
+        baseRef.current = saved.updated_at;
+        setLastSavedAt(new Date());
+        setSaveError(null);
+        setSaveState(pendingRef.current ? "pending" : "saved");
+        return true;
+      } catch (err) {
+        // Keep the edit so the next change or flush retries it
+        pendingRef.current = pendingRef.current ?? pending;
+        setSaveError(err instanceof Error ? err.message : "Save failed");
+        setSaveState("error");
+        return false;
+      }
+    })();
+    savingRef.current = save;
+    const saved = await save;
+    savingRef.current = null;
+    return saved;
+  }, [taskId, type]);
+
+  const scheduleSave = useCallback(
+    (data: T, confidenceScore?: number | null) => {
+      pendingRef.current = { data, confidenceScore };
+      if (conflictRef.current) return;
+      setSaveState("pending");
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        runSave();
+      }, autosaveDelayMs);
+    },
+    [autosaveDelayMs, runSave]
+  );
+
+  const flush = useCallback(async () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    return runSave();
+  }, [runSave]);
+
+  const reload = useCallback(async () => {
+    pendingRef.current = null;
+    conflictRef.current = false;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setSaveState("idle");
+    await query.refetch();
+  }, [query]);
+
+  // Rebases the kept draft on the stored version and saves it
+  const overwrite = useCallback(async (): Promise<boolean> => {
+    if (!taskId) return false;
+    try {
+      const res = await authFetch(`/api/annotation-tasks/${taskId}/annotation?type=${type}`);
+      if (!res.ok) throw new Error("Failed to load the stored version");
+      const latest: { annotation: TaskAnnotation<T> | null } = await res.json();
+      baseRef.current = latest.annotation?.updated_at ?? null;
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Failed to load the stored version");
+      return false;
+    }
+    conflictRef.current = false;
+    return runSave();
+  }, [taskId, type, runSave]);
+
+  // Save what is left when the page is left
+  useEffect(() => {
+    const onBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (!pendingRef.current) return;
+      runSave();
+      event.preventDefault();
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => {
+      window.removeEventListener("beforeunload", onBeforeUnload);
+      if (timerRef.current) clearTimeout(timerRef.current);
+      if (pendingRef.current) runSave();
+    };
+  }, [runSave]);
+
+  return {
+    task: query.data?.task ?? null,
+    annotation: query.data?.annotation ?? null,
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+    saveState,
+    saveError,
+    lastSavedAt,
+    scheduleSave,
+    flush,
+    reload,
+    overwrite,
+  };
+}
+
+// Submits a label task for review (assignee only)
+export async function submitAnnotationTask(taskId: string) {
+  await apiRequest("PATCH", `/api/nest-annotate/tasks/${taskId}/submit`, {});
+}
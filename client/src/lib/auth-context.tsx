@@ -1,6 +1,13 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
 import type { User, UserRole } from "@shared/schema";
 import { moduleAccessByRole } from "@shared/schema";
+import {
+  authFetch,
+  clearSessionTokens,
+  getAccessToken,
+  setSessionTokens,
+  type SessionTokens,
+} from "./session";
 
 interface TrialStatus {
   isTrialExpired: boolean;
@@ -10,7 +17,7 @@ interface TrialStatus {
 
 interface AuthContextType {
   user: User | null;
-  login: (user: User, trialStatus?: TrialStatus | null) => void;
+  login: (user: User, trialStatus?: TrialStatus | null, tokens?: SessionTokens) => void;
   logout: () => void;
   isAuthenticated: boolean;
   isLoading: boolean;
@@ -29,11 +36,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     const storedUser = localStorage.getItem("annonest_user");
     const storedTrial = localStorage.getItem("annonest_trial_status");
-    if (storedUser) {
+    // Legacy "userId" logins have no session token and must sign in again
+    localStorage.removeItem("userId");
+    if (storedUser && !getAccessToken()) {
+      localStorage.removeItem("annonest_user");
+      localStorage.removeItem("annonest_trial_status");
+    } else if (storedUser) {
       try {
         const parsed = JSON.parse(storedUser);
         setUser(parsed);
-        localStorage.setItem("userId", parsed.id);
         if (storedTrial) {
           const trialParsed = JSON.parse(storedTrial);
           setTrialStatus({
@@ -44,16 +55,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       } catch {
         localStorage.removeItem("annonest_user");
         localStorage.removeItem("annonest_trial_status");
-        localStorage.removeItem("userId");
+        clearSessionTokens();
       }
     }
     setIsLoading(false);
   }, []);
 
-  const login = (userData: User, trialStatusData?: TrialStatus | null) => {
+  const login = (userData: User, trialStatusData?: TrialStatus | null, tokens?: SessionTokens) => {
+    if (tokens) {
+      setSessionTokens(tokens);
+    }
     setUser(userData);
     localStorage.setItem("annonest_user", JSON.stringify(userData));
-    localStorage.setItem("userId", userData.id);
     if (trialStatusData !== undefined) {
       setTrialStatus(trialStatusData);
       if (trialStatusData) {
@@ -65,11 +78,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = () => {
+    if (getAccessToken()) {
+      // Revoke the server-side session; local state is cleared regardless
+      authFetch(`${import.meta.env.VITE_API_BASE_URL || ""}/api/auth/logout`, { method: "POST" })
+        .catch(() => undefined)
+        .finally(clearSessionTokens);
+    }
     setUser(null);
     setTrialStatus(null);
     localStorage.removeItem("annonest_user");
     localStorage.removeItem("annonest_trial_status");
-    localStorage.removeItem("userId");
   };
 
   const hasModuleAccess = (moduleId: string): boolean => {
@@ -1,8 +1,9 @@
 import { supabase } from "@/lib/supabase";
+import { apiRequest } from "@/lib/queryClient";
 import type { 
   LabelType, WorkContext, AnnotationTaskStatus, UserRole,
-  NewsItemMetadata, RelevanceStatus, NewsFirmType, NewsEventType, 
-  NewsAssetClass, NewsActionType, TaggedEntity
+  NewsItemMetadata, RelevanceStatus, NewsActionType, TaggedEntity,
+  EntityLinkSource, EntityLinkStatus
 } from "@shared/schema";
 
 export interface NewsItem {
@@ -872,6 +873,9 @@ export interface NewsEntityLinkRecord {
   newsId: string;
   entityType: string;
   entityId: string;
+  linkSource: EntityLinkSource;
+  status: EntityLinkStatus;
+  confidenceScore: number | null;
   createdBy: string | null;
   createdAt: string | null;
 }
@@ -986,83 +990,66 @@ export async function fetchNewsById(
   };
 }
 
+// News tags live in entity_links, next to the AI linker's links; see /api/entity-links
+const toNewsEntityLinkRecord = (link: {
+  id: string;
+  sourceId: string;
+  entityType: string;
+  entityId: string;
+  linkSource: EntityLinkSource;
+  status: EntityLinkStatus;
+  confidenceScore: number | null;
+  createdBy: string | null;
+  createdAt: string | null;
+}): NewsEntityLinkRecord => ({
+  id: link.id,
+  newsId: link.sourceId,
+  entityType: link.entityType,
+  entityId: link.entityId,
+  linkSource: link.linkSource,
+  status: link.status,
+  confidenceScore: link.confidenceScore,
+  createdBy: link.createdBy,
+  createdAt: link.createdAt,
+});
+
 export async function fetchNewsEntityLinks(
   newsId: string
 ): Promise<NewsEntityLinkRecord[]> {
-  const { data: links, error } = await supabase
-    .from("news_entity_links")
-    .select("*")
-    .eq("news_id", newsId);
-
-  if (error) {
+  try {
+    const res = await apiRequest("GET", `/api/entity-links?source_type=news&source_id=${encodeURIComponent(newsId)}`);
+    const links = await res.json();
+    return links.map(toNewsEntityLinkRecord);
+  } catch (error) {
     console.error("Error fetching entity links:", error);
     throw new Error("Failed to fetch entity links");
   }
-
-  return (links || []).map((link: {
-    id: string;
-    news_id: string;
-    entity_type: string;
-    entity_id: string;
-    created_by: string | null;
-    created_at: string | null;
-  }) => ({
-    id: link.id,
-    newsId: link.news_id,
-    entityType: link.entity_type,
-    entityId: link.entity_id,
-    createdBy: link.created_by,
-    createdAt: link.created_at,
-  }));
 }
 
 export async function addNewsEntityLink(
   newsId: string,
   entityType: string,
-  entityId: string,
-  createdBy: string,
-  orgId: string
+  entityId: string
 ): Promise<NewsEntityLinkRecord> {
-  // First verify the entity belongs to the same org (security check)
-  const entityCheck = await fetchEntityDetails(orgId, entityType, entityId);
-  if (!entityCheck) {
-    throw new Error("Entity not found or access denied");
-  }
-
-  const { data, error } = await supabase
-    .from("news_entity_links")
-    .insert({
-      news_id: newsId,
+  // The server checks that the entity belongs to the caller's org
+  try {
+    const res = await apiRequest("POST", "/api/entity-links", {
+      source_type: "news",
+      source_id: newsId,
       entity_type: entityType,
       entity_id: entityId,
-      created_by: createdBy,
-      org_id: orgId,
-    })
-    .select()
-    .single();
-
-  if (error) {
+    });
+    return toNewsEntityLinkRecord(await res.json());
+  } catch (error) {
     console.error("Error adding entity link:", error);
     throw new Error("Failed to add entity link");
   }
-
-  return {
-    id: data.id,
-    newsId: data.news_id,
-    entityType: data.entity_type,
-    entityId: data.entity_id,
-    createdBy: data.created_by,
-    createdAt: data.created_at,
-  };
 }
 
 export async function removeNewsEntityLink(linkId: string): Promise<void> {
-  const { error } = await supabase
-    .from("news_entity_links")
-    .delete()
-    .eq("id", linkId);
-
-  if (error) {
+  try {
+    await apiRequest("DELETE", `/api/entity-links/${linkId}`);
+  } catch (error) {
     console.error("Error removing entity link:", error);
     throw new Error("Failed to remove entity link");
   }
@@ -1280,7 +1267,8 @@ export async function createEntity(
   const name = data.gp_name || data.lp_name || data.fund_name || data.company_name || 
     data.provider_name || `${data.first_name || ""} ${data.last_name || ""}`.trim() || entityName;
   
-  return { id: data.id, name, type: entityType };
+  // "company" rows live in entities_portfolio_company
+  return { id: data.id, name, type: entityType === "company" ? "portfolio_company" : entityType };
 }
 
 // ========================================
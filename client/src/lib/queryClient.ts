@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { authFetch } from "./session";
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL || "";
 
@@ -15,16 +16,12 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const userId = localStorage.getItem("userId");
   const headers: Record<string, string> = {};
   if (data) {
     headers["Content-Type"] = "application/json";
   }
-  if (userId) {
-    headers["x-user-id"] = userId;
-  }
   
-  const res = await fetch(`${API_BASE}${url}`, {
+  const res = await authFetch(`${API_BASE}${url}`, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
@@ -41,15 +38,8 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const userId = localStorage.getItem("userId");
-    const headers: Record<string, string> = {};
-    if (userId) {
-      headers["x-user-id"] = userId;
-    }
-    
-    const res = await fetch(`${API_BASE}${queryKey.join("/")}`, {
+    const res = await authFetch(`${API_BASE}${queryKey.join("/")}`, {
       credentials: "include",
-      headers,
     });
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
@@ -0,0 +1,80 @@
+const API_BASE = import.meta.env.VITE_API_BASE_URL || "";
+
+const ACCESS_TOKEN_KEY = "annonest_access_token";
+const REFRESH_TOKEN_KEY = "annonest_refresh_token";
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export function getAccessToken(): string | null {
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+export function setSessionTokens(tokens: SessionTokens) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+}
+
+export function clearSessionTokens() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+export function getAuthHeaders(): Record<string, string> {
+  const token = getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Concurrent 401s share a single refresh request so the rotated token is not raced
+let refreshInFlight: Promise<boolean> | null = null;
+
+async function refreshAccessToken(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const res = await fetch(`${API_BASE}/api/auth/refresh`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+        });
+        if (!res.ok) {
+          clearSessionTokens();
+          return false;
+        }
+        const { tokens } = await res.json();
+        setSessionTokens(tokens);
+        return true;
+      } catch {
+        return false;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+  return refreshInFlight;
+}
+
+/**
+ * fetch() with the session access token attached. On a 401 the access token
+ * is refreshed once and the request retried.
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const withAuth = (): RequestInit => ({
+    ...init,
+    headers: { ...(init.headers as Record<string, string> | undefined), ...getAuthHeaders() },
+  });
+
+  const res = await fetch(input, withAuth());
+  if (res.status !== 401 || !getAccessToken()) {
+    return res;
+  }
+
+  const refreshed = await refreshAccessToken();
+  return refreshed ? fetch(input, withAuth()) : res;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { formatTimestamp, parseSrt, parseTimestamp, parseTranscript, parseVtt, toSrt, toVtt } from "./transcript-formats";
+
+describe("timestamps", () => {
+  it("parses SRT and WebVTT forms", () => {
+    expect(parseTimestamp("01:02:03,456")).toBe(3723.456);
+    expect(parseTimestamp("01:02:03.456")).toBe(3723.456);
+    expect(parseTimestamp("02:03.5")).toBe(123.5);
+    expect(parseTimestamp("7")).toBe(7);
+  });
+
+  it("rejects malformed timestamps", () => {
+    expect(parseTimestamp("00:61:00,000")).toBeNull();
+    expect(parseTimestamp("00:00:75,000")).toBeNull();
+    expect(parseTimestamp("1:2:3:4")).toBeNull();
+    expect(parseTimestamp("00:00:01,2345")).toBeNull();
+    expect(parseTimestamp("ab:cd")).toBeNull();
+    expect(parseTimestamp("")).toBeNull();
+  });
+
+  it("formats with the separator of each format", () => {
+    expect(formatTimestamp(3723.456, ",")).toBe("01:02:03,456");
+    expect(formatTimestamp(-1)).toBe("00:00:00.000");
+  });
+});
+
+describe("parseSrt", () => {
+  it("reads multi-line cues and speaker prefixes", () => {
+    const srt = [
+      "1",
+      "00:00:01,000 --> 00:00:04,500",
+      "Anchor: Welcome back to the show.",
+      "Today: fund flows.",
+      "",
+      "2",
+      "00:00:05,000 --> 00:00:07,250",
+      "<i>Markets closed higher.</i>",
+      "",
+    ].join("\r\n");
+
+    expect(parseSrt(srt)).toEqual({
+      speakers: ["Anchor"],
+      segments: [
+        { start: 1, end: 4.5, speaker: "Anchor", text: "Welcome back to the show.\nToday: fund flows." },
+        { start: 5, end: 7.25, speaker: "", text: "Markets closed higher." },
+      ],
+    });
+  });
+
+  it("skips cues with malformed timings and keeps the rest", () => {
+    const srt = [
+      "1",
+      "00:00:01,000 --> 00:00:02,000",
+      "First.",
+      "",
+      "2",
+      "00:00:99,000 --> 00:01:00,000",
+      "Bad seconds.",
+      "",
+      "3",
+      "00:00:03 -> 00:00:04",
+      "Bad arrow.",
+      "",
+      "4",
+      "00:00:05,000 --> 00:00:04,000",
+      "Ends before it starts.",
+    ].join("\n");
+
+    const { segments } = parseSrt(srt);
+    expect(segments.map((s) => s.text)).toEqual(["First.", "Ends before it starts."]);
+    expect(segments[1]).toMatchObject({ start: 5, end: 5 });
+  });
+});
+
+describe("parseVtt", () => {
+  it("requires the WEBVTT header", () => {
+    expect(() => parseVtt("00:00:01.000 --> 00:00:02.000\nHello")).toThrow("missing WEBVTT header");
+    expect(() => parseVtt("WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello")).not.toThrow();
+    expect(() => parseVtt("﻿WEBVTT - Earnings call\n\n00:01.000 --> 00:02.000\nHello")).not.toThrow();
+  });
+
+  it("reads cue identifiers, settings, voice spans and multi-line text", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "NOTE exported by the recorder",
+      "",
+      "intro",
+      "00:00:01.000 --> 00:00:03.000 align:start position:10%",
+      "<v.loud Chair Person>Good morning,",
+      "and welcome.</v>",
+      "",
+      "00:03.500 --> 00:05.000",
+      "Q&amp;A starts &lt;now&gt;",
+    ].join("\n");
+
+    expect(parseVtt(vtt)).toEqual({
+      speakers: ["Chair Person"],
+      segments: [
+        { start: 1, end: 3, speaker: "Chair Person", text: "Good morning,\nand welcome." },
+        { start: 3.5, end: 5, speaker: "", text: "Q&A starts <now>" },
+      ],
+    });
+  });
+});
+
+describe("export round trip", () => {
+  const segments = [
+    { id: "s2", start: 65.25, end: 70, speaker: "", text: "Rates & spreads\n\nwidened." },
+    { id: "s1", start: 1.5, end: 4, speaker: "Analyst", text: "Two lines\nof text." },
+  ];
+  // Sorted by start; blank lines inside a cue would end it, so they are dropped
+  const expected = [
+    { start: 1.5, end: 4, speaker: "Analyst", text: "Two lines\nof text." },
+    { start: 65.25, end: 70, speaker: "", text: "Rates & spreads\nwidened." },
+  ];
+
+  it("reads back its own SRT", () => {
+    expect(parseTranscript("srt", toSrt(segments)).segments).toEqual(expected);
+  });
+
+  it("reads back its own WebVTT, escaping markup characters", () => {
+    const withMarkup = [{ ...segments[0], text: "Q&A on <b> notes" }];
+    expect(toVtt(withMarkup)).toContain("Q&amp;A on &lt;b&gt; notes");
+    expect(parseTranscript("vtt", toVtt(withMarkup)).segments[0].text).toBe("Q&A on <b> notes");
+    expect(parseTranscript("vtt", toVtt(segments)).segments).toEqual(expected);
+  });
+});
@@ -0,0 +1,200 @@
+import type { TranscriptionAnnotationData, TranscriptSegment } from "@shared/schema";
+
+export type TranscriptFormat = "srt" | "vtt" | "json";
+
+export const transcriptFormats: Array<{ id: TranscriptFormat; label: string; extension: string; mime: string }> = [
+  { id: "srt", label: "SRT", extension: "srt", mime: "application/x-subrip" },
+  { id: "vtt", label: "WebVTT", extension: "vtt", mime: "text/vtt" },
+  { id: "json", label: "JSON", extension: "json", mime: "application/json" },
+];
+
+type ImportedSegment = Omit<TranscriptSegment, "id">;
+
+export interface ImportedTranscript {
+  speakers: string[];
+  segments: ImportedSegment[];
+}
+
+/* ===============================
+   TIMESTAMPS
+================================ */
+
+const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+
+// 01:02:03.456 (SRT uses a comma before the milliseconds)
+export const formatTimestamp = (seconds: number, separator: "." | "," = ".") => {
+  const ms = Math.round(Math.max(seconds, 0) * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// Editor display: hours only when needed
+export const formatClock = (seconds: number) => {
+  const full = formatTimestamp(seconds);
+  return full.startsWith("00:") ? full.slice(3) : full;
+};
+
+// Accepts [[HH:]MM:]SS[.mmm] with . or , before the fraction; null when unreadable
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(?:(\d{1,2}):)?(\d{1,2}(?:[.,]\d{1,3})?)$/);
+  if (!match) return null;
+  const [, first, second, rest] = match;
+  const hours = second !== undefined ? Number(first) : 0;
+  const minutes = second !== undefined ? Number(second) : Number(first ?? 0);
+  const seconds = Number(rest.replace(",", "."));
+  if (minutes >= 60 || seconds >= 60) return null;
+  return Math.round((hours * 3600 + minutes * 60 + seconds) * 1000) / 1000;
+};
+
+/* ===============================
+   SRT AND WEBVTT
+================================ */
+
+const CUE_TIMING = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+
+// SRT has no speaker field; "Name: text" on the first line is the usual convention
+const SRT_SPEAKER = /^([A-Z][\w.'-]*(?: [\w.'-]+){0,3}):\s+/;
+
+const blocksOf = (text: string) =>
+  text
+    .replace(/^﻿/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .map((block) => block.split("\n").filter((line) => line.trim() !== ""))
+    .filter((lines) => lines.length > 0);
+
+const cuesOf = (text: string) =>
+  blocksOf(text).flatMap((lines) => {
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex < 0) return [];
+    const [, from, to] = lines[timingIndex].match(CUE_TIMING)!;
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(to);
+    if (start === null || end === null) return [];
+    return [{ start, end: Math.max(end, start), lines: lines.slice(timingIndex + 1) }];
+  });
+
+const withSpeakers = (segments: ImportedSegment[]): ImportedTranscript => ({
+  speakers: Array.from(new Set(segments.map((s) => s.speaker).filter((speaker) => speaker !== ""))),
+  segments,
+});
+
+export const parseSrt = (text: string): ImportedTranscript =>
+  withSpeakers(
+    cuesOf(text).map(({ start, end, lines }) => {
+      const body = lines.join("\n").replace(/<\/?[a-z][^>]*>/gi, "");
+      const speaker = body.match(SRT_SPEAKER);
+      return {
+        start,
+        end,
+        speaker: speaker ? speaker[1] : "",
+        text: speaker ? body.slice(speaker[0].length) : body,
+      };
+    })
+  );
+
+export const parseVtt = (text: string): ImportedTranscript => {
+  if (!/^(﻿)?WEBVTT/.test(text)) {
+    throw new Error("Not a WebVTT file (missing WEBVTT header)");
+  }
+  return withSpeakers(
+    cuesOf(text).map(({ start, end, lines }) => {
+      const body = lines.join("\n");
+      // <v Name> voice span; a closing </v> is optional
+      const voice = body.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/);
+      return {
+        start,
+        end,
+        speaker: voice ? voice[1].trim() : "",
+        text: body
+          .replace(/<[^>]+>/g, "")
+          .replace(/&lt;/g, "<")
+          .replace(/&gt;/g, ">")
+          .replace(/&amp;/g, "&"),
+      };
+    })
+  );
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Cue text may not contain blank lines; they would end the cue
+const cueText = (text: string) => text.replace(/\n{2,}/g, "\n").trim();
+
+export const toSrt = (segments: TranscriptSegment[]) =>
+  segments
+    .map((s, i) =>
+      [
+        String(i + 1),
+        `${formatTimestamp(s.start, ",")} --> ${formatTimestamp(s.end, ",")}`,
+        `${s.speaker ? `${s.speaker}: ` : ""}${cueText(s.text)}`,
+      ].join("\n")
+    )
+    .join("\n\n") + "\n";
+
+export const toVtt = (segments: TranscriptSegment[]) =>
+  [
+    "WEBVTT",
+    ...segments.map((s) =>
+      [
+        `${formatTimestamp(s.start)} --> ${formatTimestamp(s.end)}`,
+        `${s.speaker ? `<v ${s.speaker}>` : ""}${escapeVtt(cueText(s.text))}`,
+      ].join("\n")
+    ),
+  ].join("\n\n") + "\n";
+
+/* ===============================
+   JSON
+================================ */
+
+export const toTranscriptJson = (
+  task: { id: string; metadata: { title?: string } },
+  data: TranscriptionAnnotationData
+) =>
+  JSON.stringify(
+    {
+      format: "transcript",
+      version: 1,
+      task_id: task.id,
+      title: task.metadata.title ?? null,
+      media: data.media,
+      speakers: data.speakers,
+      segments: data.segments.map(({ start, end, speaker, text }) => ({ start, end, speaker, text })),
+    },
+    null,
+    2
+  );
+
+// Our export, or a bare array of { start, end, text, speaker? }
+export const parseTranscriptJson = (text: string): ImportedTranscript => {
+  const parsed = JSON.parse(text);
+  const items: unknown = Array.isArray(parsed) ? parsed : parsed?.segments;
+  if (!Array.isArray(items)) {
+    throw new Error("Expected a segments array");
+  }
+  const segments = items.map((item, i) => {
+    const start = Number(item?.start);
+    const end = Number(item?.end);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || typeof item?.text !== "string") {
+      throw new Error(`Segment ${i + 1} needs numeric start and end and a text`);
+    }
+    return { start, end: Math.max(end, start), speaker: typeof item.speaker === "string" ? item.speaker : "", text: item.text };
+  });
+  const imported = withSpeakers(segments);
+  const speakers = Array.isArray(parsed?.speakers)
+    ? parsed.speakers.filter((speaker: unknown): speaker is string => typeof speaker === "string" && speaker !== "")
+    : [];
+  return { ...imported, speakers: Array.from(new Set([...speakers, ...imported.speakers])) };
+};
+
+export const parseTranscript = (format: TranscriptFormat, text: string): ImportedTranscript => {
+  const imported = format === "srt" ? parseSrt(text) : format === "vtt" ? parseVtt(text) : parseTranscriptJson(text);
+  return { ...imported, segments: imported.segments.slice().sort((a, b) => a.start - b.start) };
+};
+
+export const formatOfFile = (name: string): TranscriptFormat | null => {
+  const extension = name.split(".").pop()?.toLowerCase();
+  return transcriptFormats.find((f) => f.extension === extension)?.id ?? null;
+};
@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import type { TranslationAnnotationData } from "@shared/schema";
+import { parseTmx, parseXliff, toTmx, toXliff } from "./translation-formats";
+
+const task = { id: "task-1", metadata: { title: "Q3 \"results\" & <outlook>" } };
+
+// Markup characters, quotes, entity lookalikes, accents, CJK and an emoji
+const data: TranslationAnnotationData = {
+  source_language: "en-US",
+  target_language: "ja",
+  segments: [
+    {
+      id: "seg-1",
+      source: 'Revenue rose 12% to $4.5bn & margins held at <20%> ("record").',
+      target: "売上高は12%増の45億ドル、利益率は<20%>を維持（「過去最高」）。",
+      state: "reviewed",
+      note: "Keep \"bn\" & '<' as written",
+    },
+    { id: "seg-2", source: "Café owner said: it's &amp; not &.", target: "カフェのオーナー：&amp; ではなく & 🚀", state: "translated" },
+    { id: "seg-3", source: "Line one\nline two", target: "", state: "initial" },
+  ],
+};
+
+describe("XLIFF round trip", () => {
+  it("reads back ids, text, states and notes", () => {
+    const xliff = toXliff(task, data);
+    expect(xliff).toContain('original="Q3 &quot;results&quot; &amp; &lt;outlook&gt;"');
+
+    expect(parseXliff(xliff)).toEqual({
+      source_language: "en-US",
+      target_language: "ja",
+      segments: [
+        data.segments[0],
+        data.segments[1],
+        { id: "seg-3", source: "Line one\nline two", target: "", state: "initial" },
+      ],
+    });
+  });
+
+  it("rejects files that are not XLIFF 2", () => {
+    expect(() => parseXliff("<xliff version=\"1.2\"><file/></xliff>")).toThrow("Only XLIFF 2.x is supported");
+    expect(() => parseXliff("<tmx version=\"1.4\"/>")).toThrow("Not an XLIFF file");
+    expect(() => parseXliff("<xliff version=\"2.0\"><unit>& broken</unit></xliff>")).toThrow("not well-formed XML");
+  });
+});
+
+describe("TMX round trip", () => {
+  it("reads back the translated segments", () => {
+    const tmx = toTmx(data);
+
+    expect(parseTmx(tmx, { source: "en", target: "ja" })).toEqual({
+      source_language: "en-US",
+      target_language: "ja",
+      segments: [
+        { source: data.segments[0].source, target: data.segments[0].target, state: "translated" },
+        { source: data.segments[1].source, target: data.segments[1].target, state: "translated" },
+      ],
+    });
+  });
+
+  it("rejects files that are not TMX", () => {
+    expect(() => parseTmx(toXliff(task, data), { source: "en", target: "ja" })).toThrow("Not a TMX file");
+  });
+});
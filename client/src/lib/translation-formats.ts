@@ -0,0 +1,219 @@
+import {
+  translationSegmentStates,
+  type TranslationAnnotationData,
+  type TranslationSegment,
+  type TranslationSegmentState,
+} from "@shared/schema";
+
+export type TranslationFormat = "xliff" | "tmx";
+
+export const translationFormats: Array<{ id: TranslationFormat; label: string; extension: string; mime: string }> = [
+  { id: "xliff", label: "XLIFF 2.0", extension: "xlf", mime: "application/xliff+xml" },
+  { id: "tmx", label: "TMX", extension: "tmx", mime: "application/x-tmx+xml" },
+];
+
+type ImportedSegment = Omit<TranslationSegment, "id"> & { id?: string };
+
+export interface ImportedTranslation {
+  source_language: string | null;
+  target_language: string | null;
+  segments: ImportedSegment[];
+}
+
+/* ===============================
+   SENTENCE SEGMENTATION
+================================ */
+
+// Words that end in a period without ending the sentence
+const ABBREVIATIONS = new Set([
+  "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "mt", "no", "vs", "etc", "approx", "est", "dept",
+  "inc", "ltd", "corp", "co", "plc", "llc", "bros", "e.g", "i.e", "u.s", "u.k", "a.m", "p.m",
+  "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+]);
+
+// A sentence ends at . ! ? (with closing quotes or brackets) before whitespace and a capital or digit
+const LATIN_BOUNDARY = /[.!?]+["'”’)\]]*\s+(?=["'“‘(\[]?[A-Z0-9À-Þ])/g;
+// CJK full stops need no space after them
+const CJK_SENTENCE = /[^。！？]+[。！？]*/g;
+
+const splitLatin = (paragraph: string) => {
+  const sentences: string[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+  LATIN_BOUNDARY.lastIndex = 0;
+  while ((match = LATIN_BOUNDARY.exec(paragraph))) {
+    const before = paragraph.slice(start, match.index + 1);
+    const word = (before.match(/(\S+)$/)?.[1] ?? "").replace(/[.!?]+$/, "").toLowerCase();
+    // Abbreviations and initials ("J. Smith") do not end a sentence
+    if (match[0][0] === "." && (ABBREVIATIONS.has(word) || /^[a-z]$/.test(word))) continue;
+    const end = match.index + match[0].length;
+    sentences.push(paragraph.slice(start, end).trim());
+    start = end;
+  }
+  sentences.push(paragraph.slice(start).trim());
+  return sentences;
+};
+
+// Paragraphs (blank lines) and then sentences; whitespace inside a sentence is collapsed
+export const splitSentences = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => splitLatin(paragraph))
+    .flatMap((sentence) => sentence.match(CJK_SENTENCE) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+/* ===============================
+   XML HELPERS
+================================ */
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not well-formed XML");
+  }
+  return doc;
+};
+
+// Namespace-agnostic lookups: XLIFF elements live in the XLIFF namespace
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS("*", name));
+
+const childElement = (parent: Element, name: string) =>
+  Array.from(parent.children).find((child) => child.localName === name) ?? null;
+
+const langOf = (element: Element) =>
+  element.getAttributeNS("http://www.w3.org/XML/1998/namespace", "lang") ?? element.getAttribute("xml:lang") ?? element.getAttribute("lang");
+
+const sameLanguage = (a: string | null, b: string | null) =>
+  !!a && !!b && a.toLowerCase().split(/[-_]/)[0] === b.toLowerCase().split(/[-_]/)[0];
+
+/* ===============================
+   XLIFF 2.0
+================================ */
+
+// One unit per segment; the segment id is kept as the unit id so a round trip maps back
+export const toXliff = (task: { id: string; metadata: { title?: string } }, data: TranslationAnnotationData) => {
+  const units = data.segments.map((segment) => {
+    const note = segment.note ? `\n      <notes>\n        <note>${escapeXml(segment.note)}</note>\n      </notes>` : "";
+    const target = segment.target ? `\n        <target>${escapeXml(segment.target)}</target>` : "";
+    return `    <unit id="${escapeXml(segment.id)}">${note}
+      <segment state="${segment.state}">
+        <source>${escapeXml(segment.source)}</source>${target}
+      </segment>
+    </unit>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(data.source_language)}" trgLang="${escapeXml(data.target_language)}">
+  <file id="${escapeXml(task.id)}"${task.metadata.title ? ` original="${escapeXml(task.metadata.title)}"` : ""}>
+${units.join("\n")}
+  </file>
+</xliff>
+`;
+};
+
+export const parseXliff = (text: string): ImportedTranslation => {
+  const doc = parseXml(text);
+  const root = doc.documentElement;
+  if (root.localName !== "xliff") {
+    throw new Error("Not an XLIFF file");
+  }
+  if (!(root.getAttribute("version") ?? "").startsWith("2")) {
+    throw new Error("Only XLIFF 2.x is supported");
+  }
+  const usedIds = new Set<string>();
+  const segments = elements(doc, "unit").flatMap((unit) => {
+    const parts = elements(unit, "segment");
+    const note = elements(unit, "note")
+      .map((n) => n.textContent ?? "")
+      .join("\n")
+      .trim();
+    return parts.map((segment, i) => {
+      const unitId = unit.getAttribute("id");
+      // Units with several segments get one of ours each
+      const id = unitId && parts.length === 1 && !usedIds.has(unitId) ? unitId : undefined;
+      if (id) usedIds.add(id);
+      const state = segment.getAttribute("state") as TranslationSegmentState | null;
+      const target = childElement(segment, "target")?.textContent ?? "";
+      return {
+        id,
+        source: childElement(segment, "source")?.textContent ?? "",
+        target,
+        state: state && translationSegmentStates.includes(state) ? state : target ? "translated" : "initial",
+        ...(note && i === 0 ? { note } : {}),
+      };
+    });
+  });
+  return {
+    source_language: root.getAttribute("srcLang"),
+    target_language: root.getAttribute("trgLang"),
+    segments,
+  };
+};
+
+/* ===============================
+   TMX 1.4
+================================ */
+
+// Translation memory of the segments that have a target
+export const toTmx = (data: TranslationAnnotationData) => {
+  const units = data.segments
+    .filter((segment) => segment.target.trim() !== "")
+    .map(
+      (segment) => `    <tu tuid="${escapeXml(segment.id)}">
+      <tuv xml:lang="${escapeXml(data.source_language)}"><seg>${escapeXml(segment.source)}</seg></tuv>
+      <tuv xml:lang="${escapeXml(data.target_language)}"><seg>${escapeXml(segment.target)}</seg></tuv>
+    </tu>`
+    );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="DataNest Annotate" creationtoolversion="1" segtype="sentence" o-tmf="datanest" adminlang="en" srclang="${escapeXml(data.source_language)}" datatype="plaintext"/>
+  <body>
+${units.join("\n")}
+  </body>
+</tmx>
+`;
+};
+
+// Pairs each translation unit's source-language variant with the target-language one
+export const parseTmx = (text: string, languages: { source: string; target: string }): ImportedTranslation => {
+  const doc = parseXml(text);
+  if (doc.documentElement.localName !== "tmx") {
+    throw new Error("Not a TMX file");
+  }
+  const header = elements(doc, "header")[0];
+  const headerSource = header?.getAttribute("srclang");
+  const source = headerSource && headerSource !== "*all*" ? headerSource : languages.source;
+
+  const segments = elements(doc, "tu").flatMap((tu) => {
+    const variants = elements(tu, "tuv").map((tuv) => ({
+      lang: langOf(tuv),
+      text: elements(tuv, "seg")[0]?.textContent ?? "",
+    }));
+    const from = variants.find((v) => sameLanguage(v.lang, source));
+    const to =
+      variants.find((v) => v !== from && sameLanguage(v.lang, languages.target)) ?? variants.find((v) => v !== from);
+    if (!from) return [];
+    return [{ source: from.text, target: to?.text ?? "", state: (to?.text ? "translated" : "initial") as TranslationSegmentState }];
+  });
+  const targetLanguage = elements(doc, "tuv")
+    .map(langOf)
+    .find((lang) => lang && !sameLanguage(lang, source));
+  return { source_language: source, target_language: targetLanguage ?? null, segments };
+};
+
+export const formatOfFile = (name: string): TranslationFormat | null => {
+  const extension = name.split(".").pop()?.toLowerCase();
+  if (extension === "xlf" || extension === "xliff") return "xliff";
+  if (extension === "tmx") return "tmx";
+  return null;
+};
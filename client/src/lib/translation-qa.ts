@@ -0,0 +1,188 @@
+import type { TranslationSegment } from "@shared/schema";
+
+export type QaCheck = "untranslated" | "numbers" | "currency" | "entities";
+
+export interface QaIssue {
+  segmentId: string;
+  check: QaCheck;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export const qaChecks: Array<{ id: QaCheck; label: string }> = [
+  { id: "untranslated", label: "Untranslated" },
+  { id: "numbers", label: "Numbers" },
+  { id: "currency", label: "Currency amounts" },
+  { id: "entities", label: "Names" },
+];
+
+/* ===============================
+   NUMBERS AND AMOUNTS
+================================ */
+
+const NUMBER = "\\d[\\d.,\\u00a0\\u202f]*\\d|\\d";
+const NUMBER_PATTERN = new RegExp(NUMBER, "g");
+
+// Longer symbols first so "US$" is not read as "$"
+const currencySymbols: Array<[string, string]> = [
+  ["US$", "USD"], ["A$", "AUD"], ["C$", "CAD"], ["HK$", "HKD"], ["S$", "SGD"], ["R$", "BRL"],
+  ["$", "USD"], ["€", "EUR"], ["£", "GBP"], ["¥", "JPY"], ["₹", "INR"], ["₩", "KRW"], ["元", "CNY"],
+];
+const currencyCodes = ["USD", "EUR", "GBP", "JPY", "INR", "CNY", "RMB", "CHF", "AUD", "CAD", "HKD", "SGD", "BRL", "KRW"];
+const currencyWords: Array<[string, string]> = [["[Dd](?:ollars?|ólar(?:es)?)", "USD"], ["[Ee]uros?", "EUR"]];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const CURRENCY = [
+  ...currencySymbols.map(([symbol]) => escapeRegExp(symbol)),
+  ...currencyCodes.map((code) => `\\b${code}\\b`),
+  ...currencyWords.map(([word]) => `\\b${word}\\b`),
+].join("|");
+// A currency after the number may follow scale words: "2,3 mil millones de $", "2.3 billion dollars"
+const AMOUNT_PATTERN = new RegExp(
+  `(${CURRENCY})\\s?(${NUMBER})|(${NUMBER})(?:\\s+[A-Za-zÀ-ÿ.]+){0,3}?\\s*(${CURRENCY})`,
+  "g"
+);
+
+const codeOf = (currency: string) =>
+  currencySymbols.find(([symbol]) => symbol === currency)?.[1] ??
+  currencyWords.find(([word]) => new RegExp(`^${word}$`).test(currency))?.[1] ??
+  (currency === "RMB" ? "CNY" : currency);
+
+/**
+ * 1,234.5, 1.234,5 and 1 234,5 (non-breaking space) all read as 1234.5. With a single separator
+ * followed by exactly three digits ("1,000", "1.000") it is taken as a
+ * thousands separator, which keeps English and continental notation equal.
+ */
+export const normalizeNumber = (token: string) => {
+  const compact = token.replace(/[\u00a0\u202f]/g, "");
+  const separators = compact.replace(/\d/g, "");
+  let plain = compact;
+  if (separators.length > 0) {
+    const last = separators[separators.length - 1];
+    const decimalAt = compact.lastIndexOf(last);
+    const mixed = separators.includes(".") && separators.includes(",");
+    const single = separators.length === 1;
+    const isDecimal = mixed || (single && compact.length - decimalAt - 1 !== 3);
+    plain = isDecimal
+      ? `${compact.slice(0, decimalAt).replace(/[.,]/g, "")}.${compact.slice(decimalAt + 1)}`
+      : compact.replace(/[.,]/g, "");
+  }
+  const value = Number(plain);
+  return Number.isFinite(value) ? String(value) : plain;
+};
+
+const numbersIn = (text: string) => (text.match(NUMBER_PATTERN) ?? []).map(normalizeNumber);
+
+const amountsIn = (text: string) => {
+  const amounts: string[] = [];
+  let match: RegExpExecArray | null;
+  AMOUNT_PATTERN.lastIndex = 0;
+  while ((match = AMOUNT_PATTERN.exec(text))) {
+    const currency = match[1] ?? match[4];
+    const number = match[2] ?? match[3];
+    amounts.push(`${codeOf(currency)} ${normalizeNumber(number)}`);
+  }
+  return amounts;
+};
+
+// Items of a not in b, counting repeats
+const missingFrom = (a: string[], b: string[]) => {
+  const remaining = b.slice();
+  return a.filter((item) => {
+    const index = remaining.indexOf(item);
+    if (index < 0) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+};
+
+const differenceMessage = (what: string, missing: string[], extra: string[]) =>
+  [
+    missing.length > 0 ? `${what} missing from the target: ${missing.join(", ")}` : null,
+    extra.length > 0 ? `not in the source: ${extra.join(", ")}` : null,
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+/* ===============================
+   NAMES
+================================ */
+
+// Capitalised runs ("Acme Corporation", "John Smith") and acronyms ("IBM")
+const NAME_PATTERN = /[A-ZÀ-Þ][A-Za-zÀ-ÖØ-öø-ÿ0-9&'’-]*(?:\s+(?:&\s+|of\s+|de\s+)?[A-ZÀ-Þ][A-Za-zÀ-ÖØ-öø-ÿ0-9&'’-]*)*/g;
+
+// Capitalised words that are usually translated rather than kept
+const NOT_NAMES = new Set([
+  "I", "The", "A", "An", "This", "That", "These", "Those", "It", "We", "He", "She", "They", "Our", "Its",
+  "CEO", "CFO", "COO", "CTO", "AI", "IPO", "Q1", "Q2", "Q3", "Q4", "H1", "H2", "FY",
+  "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday",
+  "January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December",
+]);
+
+const foldCase = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+// Names in the source; a single capitalised word that starts a sentence is not taken as one
+const namesIn = (text: string) => {
+  const names: string[] = [];
+  let match: RegExpExecArray | null;
+  NAME_PATTERN.lastIndex = 0;
+  while ((match = NAME_PATTERN.exec(text))) {
+    const name = match[0].replace(/['’]s$/, "");
+    const words = name.split(/\s+/);
+    const sentenceStart = /(^|[.!?:]["'”’)]*\s+|^["'“‘(]+)$/.test(text.slice(0, match.index));
+    const acronym = /^[A-Z0-9&]{2,}$/.test(name) && /[A-Z]/.test(name);
+    if (NOT_NAMES.has(name) || currencyCodes.includes(name) || (words.length === 1 && !acronym && sentenceStart)) continue;
+    names.push(words[0] && NOT_NAMES.has(words[0]) && words.length > 1 ? words.slice(1).join(" ") : name);
+  }
+  return Array.from(new Set(names));
+};
+
+/* ===============================
+   CHECKS
+================================ */
+
+export const checkSegment = (segment: TranslationSegment): QaIssue[] => {
+  const issues: QaIssue[] = [];
+  const issue = (check: QaCheck, severity: QaIssue["severity"], message: string) =>
+    issues.push({ segmentId: segment.id, check, severity, message });
+  const source = segment.source.trim();
+  const target = segment.target.trim();
+
+  if (!target) {
+    if (source) issue("untranslated", "error", "No translation yet");
+    return issues;
+  }
+  if (target === source && /[A-Za-zÀ-ÿ]{2}/.test(source) && source.split(/\s+/).length > 2) {
+    issue("untranslated", "error", "Target is the same as the source");
+  }
+
+  const sourceNumbers = numbersIn(source);
+  const targetNumbers = numbersIn(target);
+  const missingNumbers = missingFrom(sourceNumbers, targetNumbers);
+  const extraNumbers = missingFrom(targetNumbers, sourceNumbers);
+  if (missingNumbers.length > 0 || extraNumbers.length > 0) {
+    issue("numbers", "error", differenceMessage("Numbers", missingNumbers, extraNumbers));
+  }
+
+  const sourceAmounts = amountsIn(source);
+  const targetAmounts = amountsIn(target);
+  const missingAmounts = missingFrom(sourceAmounts, targetAmounts);
+  const extraAmounts = missingFrom(targetAmounts, sourceAmounts);
+  if (missingAmounts.length > 0 || extraAmounts.length > 0) {
+    issue("currency", "error", differenceMessage("Amounts", missingAmounts, extraAmounts));
+  }
+
+  const folded = foldCase(target);
+  const missingNames = namesIn(source).filter((name) => !folded.includes(foldCase(name)));
+  if (missingNames.length > 0) {
+    issue("entities", "warning", `Names not found in the target: ${missingNames.join(", ")}`);
+  }
+
+  return issues;
+};
+
+export const checkSegments = (segments: TranslationSegment[]) => segments.flatMap(checkSegment);
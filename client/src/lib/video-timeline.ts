@@ -0,0 +1,164 @@
+import type { VideoAnnotationData, VideoKeyframe, VideoSegment, VideoTrack } from "@shared/schema";
+
+// Browsers do not expose a video's frame rate, so it is chosen per task
+export const frameRates = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+export const DEFAULT_FRAME_RATE = 30;
+
+type Box = Omit<VideoKeyframe, "frame">;
+
+export const frameAt = (time: number, frameRate: number) => Math.floor(time * frameRate + 1e-6);
+
+// Seek to the middle of a frame; seeking to its exact start can land on the one before
+export const seekTimeOf = (frame: number, frameRate: number) => (frame + 0.5) / frameRate;
+
+export const frameCountOf = (duration: number, frameRate: number) => Math.max(1, Math.round(duration * frameRate));
+
+// HH:MM:SS:FF, hours only when needed
+export const formatTimecode = (frame: number, frameRate: number) => {
+  const fps = Math.round(frameRate);
+  const totalSeconds = Math.floor(frame / frameRate);
+  const ff = Math.min(frame - Math.round(totalSeconds * frameRate), fps - 1);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mm = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, "0");
+  const ss = String(totalSeconds % 60).padStart(2, "0");
+  const tail = `${mm}:${ss}:${String(Math.max(ff, 0)).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${tail}` : tail;
+};
+
+export const sortSegments = (segments: VideoSegment[]) =>
+  segments.slice().sort((a, b) => a.start_frame - b.start_frame || a.end_frame - b.end_frame);
+
+/* ===============================
+   SEGMENTS
+================================ */
+
+// Segment under the frame, preferring the preferred one when several overlap
+export const segmentAt = (segments: VideoSegment[], frame: number, preferredId?: string | null) => {
+  const hits = segments.filter((segment) => segment.start_frame <= frame && frame < segment.end_frame);
+  return hits.find((segment) => segment.id === preferredId) ?? hits[0] ?? null;
+};
+
+// Splits the segment at frame; the second half gets newId. Null when frame is not inside it
+export const splitSegment = (segments: VideoSegment[], id: string, frame: number, newId: string) => {
+  const segment = segments.find((s) => s.id === id);
+  if (!segment || frame <= segment.start_frame || frame >= segment.end_frame) return null;
+  return segments.flatMap((s) =>
+    s.id === id
+      ? [
+          { ...s, end_frame: frame },
+          { ...s, id: newId, start_frame: frame },
+        ]
+      : [s]
+  );
+};
+
+// Merges the segment with the next one in time; the merged segment keeps its id and label
+export const mergeWithNext = (segments: VideoSegment[], id: string) => {
+  const ordered = sortSegments(segments);
+  const index = ordered.findIndex((s) => s.id === id);
+  const next = index >= 0 ? ordered[index + 1] : undefined;
+  if (!next) return null;
+  const merged: VideoSegment = {
+    ...ordered[index],
+    start_frame: Math.min(ordered[index].start_frame, next.start_frame),
+    end_frame: Math.max(ordered[index].end_frame, next.end_frame),
+  };
+  return segments.filter((s) => s.id !== next.id).map((s) => (s.id === id ? merged : s));
+};
+
+/* ===============================
+   TRACKS
+================================ */
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Box of the track at frame: a keyframe, linear between two, null outside the first..last range
+export const boxAt = (track: VideoTrack, frame: number): (Box & { keyframe: boolean }) | null => {
+  const keyframes = track.keyframes;
+  if (keyframes.length === 0 || frame < keyframes[0].frame || frame > keyframes[keyframes.length - 1].frame) {
+    return null;
+  }
+  const nextIndex = keyframes.findIndex((k) => k.frame >= frame);
+  const next = keyframes[nextIndex];
+  if (next.frame === frame) {
+    return { x: next.x, y: next.y, width: next.width, height: next.height, keyframe: true };
+  }
+  const prev = keyframes[nextIndex - 1];
+  const t = (frame - prev.frame) / (next.frame - prev.frame);
+  return {
+    x: lerp(prev.x, next.x, t),
+    y: lerp(prev.y, next.y, t),
+    width: lerp(prev.width, next.width, t),
+    height: lerp(prev.height, next.height, t),
+    keyframe: false,
+  };
+};
+
+// Adds or replaces the keyframe at keyframe.frame, keeping keyframes in frame order
+export const setKeyframe = (track: VideoTrack, keyframe: VideoKeyframe): VideoTrack => ({
+  ...track,
+  keyframes: [...track.keyframes.filter((k) => k.frame !== keyframe.frame), keyframe].sort((a, b) => a.frame - b.frame),
+});
+
+// Null when the track would be left without keyframes
+export const removeKeyframe = (track: VideoTrack, frame: number): VideoTrack | null => {
+  const keyframes = track.keyframes.filter((k) => k.frame !== frame);
+  return keyframes.length > 0 ? { ...track, keyframes } : null;
+};
+
+/* ===============================
+   FRAME RATE CHANGES AND EXPORT
+================================ */
+
+// Moves every frame position so it keeps its time under the new frame rate
+export const rescaleFrames = (
+  data: Pick<VideoAnnotationData, "segments" | "tracks">,
+  from: number,
+  to: number
+): Pick<VideoAnnotationData, "segments" | "tracks"> => {
+  const scale = (frame: number) => Math.round((frame / from) * to);
+  return {
+    segments: data.segments.map((s) => ({
+      ...s,
+      start_frame: scale(s.start_frame),
+      end_frame: Math.max(scale(s.end_frame), scale(s.start_frame) + 1),
+    })),
+    tracks: data.tracks.map((t) => {
+      const byFrame = new Map<number, VideoKeyframe>();
+      t.keyframes.forEach((k) => byFrame.set(scale(k.frame), { ...k, frame: scale(k.frame) }));
+      return { ...t, keyframes: Array.from(byFrame.values()).sort((a, b) => a.frame - b.frame) };
+    }),
+  };
+};
+
+const seconds = (frame: number, frameRate: number) => Math.round((frame / frameRate) * 1000) / 1000;
+
+// Timeline JSON for downstream tools: frames plus the matching times in seconds
+export const buildTimeline = (
+  task: { id: string; project_id: string; metadata: { title?: string; input_url?: string } },
+  data: VideoAnnotationData
+) => {
+  const frameRate = data.video?.frame_rate ?? DEFAULT_FRAME_RATE;
+  return {
+    format: "video-timeline",
+    version: 1,
+    task_id: task.id,
+    project_id: task.project_id,
+    title: task.metadata.title ?? null,
+    video: data.video ?? { url: task.metadata.input_url ?? null, frame_rate: frameRate },
+    segments: sortSegments(data.segments).map((s) => ({
+      id: s.id,
+      label: s.label,
+      start_frame: s.start_frame,
+      end_frame: s.end_frame,
+      start_time: seconds(s.start_frame, frameRate),
+      end_time: seconds(s.end_frame, frameRate),
+    })),
+    tracks: data.tracks.map((t) => ({
+      id: t.id,
+      label: t.label,
+      interpolation: "linear",
+      keyframes: t.keyframes.map((k) => ({ ...k, time: seconds(k.frame, frameRate) })),
+    })),
+  };
+};
@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { authFetch } from "@/lib/session";
 
 type NewsItem = {
   id: string;
@@ -20,12 +21,7 @@ export default function News() {
   function fetchNews() {
     setLoading(true);
 
-    fetch("https://annonest-backend.onrender.com/api/news", {
-      headers: {
-        "x-org-id": "demo-org",
-        "x-user-id": "demo-user",
-      },
-    })
+    authFetch("https://annonest-backend.onrender.com/api/news")
       .then((res) => res.json())
       .then((data) => {
         setNews(data);
@@ -40,14 +36,12 @@ export default function News() {
   function retryNews(id: string) {
     setRetryingId(id);
 
-    fetch(
+    authFetch(
       `https://annonest-backend.onrender.com/api/news/${id}/retry`,
       {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "x-org-id": "demo-org",
-          "x-user-id": "demo-user",
         },
       }
     )
@@ -0,0 +1,327 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth-context";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, KeySquare, RotateCw, Ban, Copy } from "lucide-react";
+import {
+  hasPermission,
+  moduleAccessByRole,
+  permissionActions,
+  type ApiKey,
+  type Permission,
+  type UserRole,
+} from "@shared/schema";
+
+type PublicApiKey = Omit<ApiKey, "keyHash">;
+
+interface CreatedApiKey {
+  apiKey: PublicApiKey;
+  key: string;
+}
+
+function formatLastUsed(lastUsedAt: Date | string | null): string {
+  return lastUsedAt ? new Date(lastUsedAt).toLocaleString() : "Never";
+}
+
+export default function ApiKeysPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [rateLimit, setRateLimit] = useState("60");
+  const [revealedKey, setRevealedKey] = useState<CreatedApiKey | null>(null);
+
+  const role = user?.role as UserRole | undefined;
+  const canView = !!role && hasPermission(role, "admin_panel:read");
+  const canManage = !!role && hasPermission(role, "admin_panel:manage");
+
+  // Keys may only be granted permissions the creating admin holds
+  const scopeOptions = useMemo(() => {
+    if (!role) return [];
+    const modules = Array.from(new Set(Object.values(moduleAccessByRole).flat()));
+    return modules.flatMap((moduleId) =>
+      permissionActions
+        .map((action) => `${moduleId}:${action}` as Permission)
+        .filter((permission) => hasPermission(role, permission))
+    );
+  }, [role]);
+
+  const { data: apiKeys = [], isLoading } = useQuery<PublicApiKey[]>({
+    queryKey: ["/api/admin/api-keys"],
+    enabled: canView,
+  });
+
+  const resetForm = () => {
+    setName("");
+    setScopes([]);
+    setRateLimit("60");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/api-keys", {
+        name,
+        scopes,
+        rateLimitPerMinute: Number(rateLimit) || 60,
+      });
+      return (await res.json()) as CreatedApiKey;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/api-keys"] });
+      setIsCreateOpen(false);
+      resetForm();
+      setRevealedKey(created);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to create API key", variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/api-keys/${id}/rotate`);
+      return (await res.json()) as CreatedApiKey;
+    },
+    onSuccess: (rotated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/api-keys"] });
+      setRevealedKey(rotated);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to rotate API key", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/api-keys/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/api-keys"] });
+      toast({ title: "API key revoked", description: "Requests using this key will now be rejected." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke API key", variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const copyKey = async () => {
+    if (!revealedKey) return;
+    await navigator.clipboard.writeText(revealedKey.key);
+    toast({ title: "Copied", description: "API key copied to clipboard." });
+  };
+
+  if (!canView) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground">You don't have permission to view this page.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">API Keys</h1>
+          <p className="text-muted-foreground">
+            Keys for scripts and integrations. Send as <code>Authorization: Bearer &lt;key&gt;</code>.
+          </p>
+        </div>
+        {canManage && (
+          <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) resetForm(); }}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-api-key">
+                <Plus className="h-4 w-4 mr-2" />
+                Create API Key
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create API Key</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="api-key-name">Name</Label>
+                  <Input
+                    id="api-key-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. News ingestion script"
+                    data-testid="input-api-key-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Scopes</Label>
+                  <div className="grid grid-cols-2 gap-2 max-h-56 overflow-auto rounded-md border p-3">
+                    {scopeOptions.map((scope) => (
+                      <label key={scope} className="flex items-center gap-2 text-sm font-mono">
+                        <Checkbox
+                          checked={scopes.includes(scope)}
+                          onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                          data-testid={`checkbox-scope-${scope}`}
+                        />
+                        {scope}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="api-key-rate-limit">Rate limit (requests per minute)</Label>
+                  <Input
+                    id="api-key-rate-limit"
+                    type="number"
+                    min={1}
+                    value={rateLimit}
+                    onChange={(e) => setRateLimit(e.target.value)}
+                    data-testid="input-api-key-rate-limit"
+                  />
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => createMutation.mutate()}
+                  disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                  data-testid="button-create-api-key"
+                >
+                  {createMutation.isPending ? "Creating..." : "Create Key"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      <Dialog open={!!revealedKey} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy your API key</DialogTitle>
+            <DialogDescription>
+              This is the only time the key for "{revealedKey?.apiKey.name}" is shown. Store it somewhere safe.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealedKey?.key ?? ""} className="font-mono text-xs" data-testid="input-revealed-api-key" />
+            <Button variant="outline" size="icon" onClick={copyKey} data-testid="button-copy-api-key">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeySquare className="h-5 w-5" />
+            Organization API Keys
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : apiKeys.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No API keys yet. Create one to let scripts call the API without a user login.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Rate limit</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apiKeys.map((apiKey) => (
+                  <TableRow key={apiKey.id} data-testid={`row-api-key-${apiKey.id}`}>
+                    <TableCell className="font-medium">{apiKey.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{apiKey.keyPrefix}…</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{apiKey.rateLimitPerMinute}/min</TableCell>
+                    <TableCell className="text-muted-foreground">{formatLastUsed(apiKey.lastUsedAt)}</TableCell>
+                    <TableCell>
+                      {apiKey.revokedAt
+                        ? <Badge variant="secondary">Revoked</Badge>
+                        : <Badge className="bg-emerald-500/10 text-emerald-600 border-emerald-500/20">Active</Badge>}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {!apiKey.revokedAt && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Rotate"
+                              onClick={() => rotateMutation.mutate(apiKey.id)}
+                              disabled={rotateMutation.isPending}
+                              data-testid={`button-rotate-api-key-${apiKey.id}`}
+                            >
+                              <RotateCw className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Revoke"
+                              onClick={() => revokeMutation.mutate(apiKey.id)}
+                              disabled={revokeMutation.isPending}
+                              data-testid={`button-revoke-api-key-${apiKey.id}`}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -31,7 +31,7 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Building2, Users, Pencil } from "lucide-react";
-import type { Organization } from "@shared/schema";
+import { llmProviderNames, type LlmProviderName, type Organization } from "@shared/schema";
 
 export default function OrganizationsPage() {
   const { user } = useAuth();
@@ -39,6 +39,7 @@ export default function OrganizationsPage() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingOrg, setEditingOrg] = useState<Organization | null>(null);
+  const [editingSectors, setEditingSectors] = useState("");
   const [newOrgName, setNewOrgName] = useState("");
   const [newOrgType, setNewOrgType] = useState<"internal" | "client">("client");
   const [newOrgStatus, setNewOrgStatus] = useState<"active" | "inactive" | "pending">("active");
@@ -70,8 +71,21 @@ export default function OrganizationsPage() {
   });
 
   const updateOrgMutation = useMutation({
-    mutationFn: async (data: { id: string; name: string; orgType: string; status: string }) => {
-      return apiRequest("PATCH", `/api/organizations/${data.id}`, { name: data.name, orgType: data.orgType, status: data.status });
+    mutationFn: async (data: {
+      id: string;
+      name: string;
+      orgType: string;
+      status: string;
+      aiProvider: LlmProviderName | null;
+      sectorTaxonomy: string[];
+    }) => {
+      return apiRequest("PATCH", `/api/organizations/${data.id}`, {
+        name: data.name,
+        orgType: data.orgType,
+        status: data.status,
+        aiProvider: data.aiProvider,
+        sectorTaxonomy: data.sectorTaxonomy,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
@@ -99,11 +113,14 @@ export default function OrganizationsPage() {
       name: editingOrg.name,
       orgType: editingOrg.orgType || "client",
       status: editingOrg.status || "active",
+      aiProvider: editingOrg.aiProvider ?? null,
+      sectorTaxonomy: editingSectors.split(",").map((s) => s.trim()).filter(Boolean),
     });
   };
 
   const openEditDialog = (org: Organization) => {
     setEditingOrg({ ...org });
+    setEditingSectors((org.sectorTaxonomy ?? []).join(", "));
     setIsEditDialogOpen(true);
   };
 
@@ -318,6 +335,36 @@ export default function OrganizationsPage() {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-org-ai-provider">AI Provider</Label>
+                <Select
+                  value={editingOrg.aiProvider || "default"}
+                  onValueChange={(v) =>
+                    setEditingOrg({ ...editingOrg, aiProvider: v === "default" ? null : (v as LlmProviderName) })
+                  }
+                >
+                  <SelectTrigger data-testid="select-edit-org-ai-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Deployment default</SelectItem>
+                    {llmProviderNames.map((name) => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-org-sectors">Sector Taxonomy</Label>
+                <Input
+                  id="edit-org-sectors"
+                  value={editingSectors}
+                  onChange={(e) => setEditingSectors(e.target.value)}
+                  placeholder="FinTech, Healthcare, Infrastructure"
+                  data-testid="input-edit-org-sectors"
+                />
+                <p className="text-xs text-muted-foreground">Comma-separated; available to prompt templates as {"{{sector_taxonomy}}"}</p>
+              </div>
               <Button
                 onClick={handleUpdateOrg}
                 disabled={updateOrgMutation.isPending}
@@ -0,0 +1,174 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Check, Minus, KeyRound, Layers } from "lucide-react";
+import { hasPermission, type PermissionMatrixEntry, type RoutePolicy, type UserRole } from "@shared/schema";
+
+interface PermissionMatrixResponse {
+  roles: UserRole[];
+  moduleAccessByRole: Record<UserRole, string[]>;
+  routes: PermissionMatrixEntry[];
+}
+
+function PolicyBadge({ policy }: { policy: RoutePolicy }) {
+  switch (policy.type) {
+    case "public":
+      return <Badge variant="outline">public</Badge>;
+    case "authenticated":
+      return <Badge variant="secondary">signed in</Badge>;
+    default:
+      return <Badge className="bg-blue-500/10 text-blue-600 border-blue-500/20 font-mono">{policy.permission}</Badge>;
+  }
+}
+
+function Allowed({ allowed }: { allowed: boolean }) {
+  return allowed
+    ? <Check className="h-4 w-4 text-emerald-600 mx-auto" />
+    : <Minus className="h-4 w-4 text-muted-foreground/50 mx-auto" />;
+}
+
+export default function PermissionsPage() {
+  const { user } = useAuth();
+  const [filter, setFilter] = useState("");
+
+  const canView = !!user && hasPermission(user.role as UserRole, "admin_panel:read");
+
+  const { data, isLoading } = useQuery<PermissionMatrixResponse>({
+    queryKey: ["/api/admin/permissions"],
+    enabled: canView,
+  });
+
+  const modules = useMemo(() => {
+    if (!data) return [];
+    return Array.from(new Set(Object.values(data.moduleAccessByRole).flat()));
+  }, [data]);
+
+  const routes = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!data || !needle) return data?.routes ?? [];
+    return data.routes.filter((r) =>
+      r.path.toLowerCase().includes(needle) ||
+      r.method.toLowerCase().includes(needle) ||
+      (r.policy.type === "permission" && r.policy.permission.includes(needle))
+    );
+  }, [data, filter]);
+
+  if (!canView) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground">You don't have permission to view this page.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Permissions</h1>
+        <p className="text-muted-foreground">
+          Which roles can reach each API route, generated from the policies the server enforces
+        </p>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                Module Access
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Module</TableHead>
+                    {data.roles.map((role) => (
+                      <TableHead key={role} className="text-center">{role}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {modules.map((moduleId) => (
+                    <TableRow key={moduleId} data-testid={`row-module-${moduleId}`}>
+                      <TableCell className="font-mono text-sm">{moduleId}</TableCell>
+                      {data.roles.map((role) => (
+                        <TableCell key={role}>
+                          <Allowed allowed={data.moduleAccessByRole[role]?.includes(moduleId) ?? false} />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                API Routes ({routes.length})
+              </CardTitle>
+              <Input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter by path or permission"
+                className="max-w-xs"
+                data-testid="input-permission-filter"
+              />
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Path</TableHead>
+                    <TableHead>Policy</TableHead>
+                    {data.roles.map((role) => (
+                      <TableHead key={role} className="text-center">{role}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {routes.map((route) => (
+                    <TableRow key={`${route.method} ${route.path}`}>
+                      <TableCell className="font-mono text-xs">{route.method}</TableCell>
+                      <TableCell className="font-mono text-xs">{route.path}</TableCell>
+                      <TableCell><PolicyBadge policy={route.policy} /></TableCell>
+                      {data.roles.map((role) => (
+                        <TableCell key={role}>
+                          <Allowed allowed={route.roles[role]} />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
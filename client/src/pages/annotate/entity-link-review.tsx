@@ -0,0 +1,417 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/lib/auth-context";
+import { authFetch } from "@/lib/session";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Check, X, Search, UserPlus, Link2, Clock, ExternalLink } from "lucide-react";
+import { linkableEntityTypes, type EntityCandidate, type LinkableEntityType } from "@shared/schema";
+
+interface ReviewQueueItem {
+  id: string;
+  sourceType: string;
+  sourceId: string;
+  entityType: LinkableEntityType;
+  entityId: string;
+  entityName: string | null;
+  mention: string | null;
+  confidenceScore: number | null;
+  candidates: EntityCandidate[];
+  createdAt: string;
+  headline: string | null;
+  url: string | null;
+  publishDate: string | null;
+  snippet: { before: string; mention: string; after: string; found: boolean } | null;
+}
+
+interface ShellProfileDraft {
+  linkId: string;
+  entityType: LinkableEntityType;
+  entityName: string;
+  textSpan: string;
+}
+
+const PAGE_SIZE = 25;
+
+const entityTypeLabels: Record<LinkableEntityType, string> = {
+  gp: "GP",
+  lp: "LP",
+  fund: "Fund",
+  portfolio_company: "Portfolio Company",
+  service_provider: "Service Provider",
+  contact: "Contact",
+};
+
+const signalLabels: Record<string, string> = {
+  exact: "exact name",
+  alias: "alias",
+  confirmed_alias: "confirmed alias",
+  country_match: "country ✓",
+  country_mismatch: "country ✕",
+  asset_class_match: "asset class ✓",
+  asset_class_mismatch: "asset class ✕",
+};
+
+// The sentence(s) around the mention, used as the shell profile's text span
+const snippetText = (item: ReviewQueueItem) =>
+  item.snippet ? `${item.snippet.before}${item.snippet.mention}${item.snippet.after}`.replace(/…/g, "").trim() : "";
+
+export default function EntityLinkReviewPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [entityType, setEntityType] = useState<string>("all");
+  const [page, setPage] = useState(0);
+  const [searchTerms, setSearchTerms] = useState<Record<string, string>>({});
+  const [searchResults, setSearchResults] = useState<Record<string, EntityCandidate[]>>({});
+  const [shellDraft, setShellDraft] = useState<ShellProfileDraft | null>(null);
+
+  const isManager = user?.role === "admin" || user?.role === "manager" || user?.role === "super_admin";
+
+  const { data, isLoading } = useQuery<{ items: ReviewQueueItem[]; total: number }>({
+    queryKey: ["/api/entity-links/review-queue", entityType, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+      if (entityType !== "all") params.set("entity_type", entityType);
+      const res = await authFetch(`/api/entity-links/review-queue?${params}`);
+      if (!res.ok) throw new Error("Failed to load review queue");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const items = data?.items ?? [];
+  const total = data?.total ?? 0;
+
+  const onDecided = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/entity-links/review-queue"] });
+    toast({ title });
+  };
+
+  const onFailed = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const confirmMutation = useMutation({
+    mutationFn: (linkId: string) => apiRequest("PATCH", `/api/entity-links/${linkId}`, { status: "LINKED" }),
+    onSuccess: () => onDecided("Link confirmed"),
+    onError: onFailed,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (linkId: string) => apiRequest("PATCH", `/api/entity-links/${linkId}`, { status: "REJECTED" }),
+    onSuccess: () => onDecided("Link rejected"),
+    onError: onFailed,
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: ({ linkId, entityId }: { linkId: string; entityId: string }) =>
+      apiRequest("POST", `/api/entity-links/${linkId}/reassign`, { entity_id: entityId }),
+    onSuccess: () => onDecided("Link reassigned"),
+    onError: onFailed,
+  });
+
+  const shellProfileMutation = useMutation({
+    mutationFn: (draft: ShellProfileDraft) =>
+      apiRequest("POST", `/api/entity-links/${draft.linkId}/shell-profile`, {
+        entity_name: draft.entityName,
+        text_span: draft.textSpan,
+      }),
+    onSuccess: () => {
+      setShellDraft(null);
+      onDecided("Shell profile queued");
+    },
+    onError: onFailed,
+  });
+
+  const isDeciding =
+    confirmMutation.isPending || rejectMutation.isPending || reassignMutation.isPending || shellProfileMutation.isPending;
+
+  const searchEntities = async (item: ReviewQueueItem) => {
+    const term = (searchTerms[item.id] ?? "").trim();
+    if (!term) return;
+    const params = new URLSearchParams({ entity_type: item.entityType, name: term });
+    const res = await authFetch(`/api/entity-links/candidates?${params}`);
+    if (!res.ok) {
+      toast({ title: "Search failed", variant: "destructive" });
+      return;
+    }
+    const results: EntityCandidate[] = await res.json();
+    setSearchResults((prev) => ({ ...prev, [item.id]: results }));
+  };
+
+  const renderCandidate = (item: ReviewQueueItem, candidate: EntityCandidate) => {
+    const isCurrent = candidate.entity_id === item.entityId;
+    return (
+      <div
+        key={candidate.entity_id}
+        className={`flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm ${isCurrent ? "border-primary" : ""}`}
+        data-testid={`candidate-${item.id}-${candidate.entity_id}`}
+      >
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium truncate">{candidate.name}</span>
+            <Badge variant="secondary">{Math.round(candidate.score * 100)}%</Badge>
+            {isCurrent && <Badge variant="outline">suggested</Badge>}
+          </div>
+          <div className="flex flex-wrap gap-1 mt-1 text-xs text-muted-foreground">
+            {candidate.matched_on !== candidate.name && <span>matched "{candidate.matched_on}"</span>}
+            {candidate.signals.map((signal) => (
+              <span key={signal}>· {signalLabels[signal] ?? signal}</span>
+            ))}
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant={isCurrent ? "default" : "outline"}
+          disabled={isDeciding}
+          onClick={() =>
+            isCurrent
+              ? confirmMutation.mutate(item.id)
+              : reassignMutation.mutate({ linkId: item.id, entityId: candidate.entity_id })
+          }
+          data-testid={`button-choose-${item.id}-${candidate.entity_id}`}
+        >
+          {isCurrent ? <Check className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}
+          {isCurrent ? "Confirm" : "Link this"}
+        </Button>
+      </div>
+    );
+  };
+
+  if (!isManager) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6 text-center">
+            <p className="text-muted-foreground">You don't have permission to view this page.</p>
+            <Link href="/nest-annotate">
+              <Button className="mt-4" data-testid="button-back">Back to NestAnnotate</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/nest-annotate">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-semibold">Entity Link Review</h1>
+            <p className="text-sm text-muted-foreground">
+              {total} ambiguous {total === 1 ? "match" : "matches"} from the AI linker. Decisions are remembered as aliases.
+            </p>
+          </div>
+        </div>
+        <Select
+          value={entityType}
+          onValueChange={(v) => {
+            setEntityType(v);
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="w-48" data-testid="select-entity-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All entity types</SelectItem>
+            {linkableEntityTypes.map((type) => (
+              <SelectItem key={type} value={type}>{entityTypeLabels[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-40" />
+          ))}
+        </div>
+      ) : items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Clock className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No links waiting for review.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {items.map((item) => {
+            const candidates = item.candidates.length
+              ? item.candidates
+              : [{ entity_id: item.entityId, name: item.entityName ?? item.entityId, score: (item.confidenceScore ?? 0) / 100, matched_on: item.entityName ?? "", signals: [] }];
+            const extra = (searchResults[item.id] ?? []).filter(
+              (r) => !candidates.some((c) => c.entity_id === r.entity_id)
+            );
+
+            return (
+              <Card key={item.id} data-testid={`card-review-${item.id}`}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+                    <span>"{item.mention ?? item.entityName}"</span>
+                    <Badge variant="outline">{entityTypeLabels[item.entityType] ?? item.entityType}</Badge>
+                  </CardTitle>
+                  {item.headline && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      {item.headline}
+                      {item.publishDate && <span>· {item.publishDate}</span>}
+                      {item.url && (
+                        <a href={item.url} target="_blank" rel="noreferrer" className="inline-flex">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </p>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {item.snippet && (
+                    <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground" data-testid={`snippet-${item.id}`}>
+                      {item.snippet.before}
+                      {item.snippet.found && <mark className="bg-yellow-200 dark:bg-yellow-800 px-0.5">{item.snippet.mention}</mark>}
+                      {item.snippet.after}
+                    </blockquote>
+                  )}
+
+                  <div className="space-y-2">
+                    {candidates.map((candidate) => renderCandidate(item, candidate))}
+                    {extra.map((candidate) => renderCandidate(item, candidate))}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      className="h-8 max-w-xs"
+                      placeholder={`Find another ${entityTypeLabels[item.entityType] ?? "entity"}`}
+                      value={searchTerms[item.id] ?? ""}
+                      onChange={(e) => setSearchTerms((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                      onKeyDown={(e) => e.key === "Enter" && searchEntities(item)}
+                      data-testid={`input-search-${item.id}`}
+                    />
+                    <Button size="sm" variant="outline" onClick={() => searchEntities(item)} data-testid={`button-search-${item.id}`}>
+                      <Search className="h-4 w-4" />
+                    </Button>
+                    <div className="ml-auto flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isDeciding}
+                        onClick={() =>
+                          setShellDraft({
+                            linkId: item.id,
+                            entityType: item.entityType,
+                            entityName: item.mention ?? "",
+                            textSpan: snippetText(item),
+                          })
+                        }
+                        data-testid={`button-shell-profile-${item.id}`}
+                      >
+                        <UserPlus className="h-4 w-4 mr-1" />
+                        New shell profile
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isDeciding}
+                        onClick={() => rejectMutation.mutate(item.id)}
+                        data-testid={`button-reject-${item.id}`}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-end gap-2 text-sm">
+              <Button size="sm" variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span className="text-muted-foreground">
+                Page {page + 1} of {Math.ceil(total / PAGE_SIZE)}
+              </span>
+              <Button size="sm" variant="outline" disabled={(page + 1) * PAGE_SIZE >= total} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Dialog open={!!shellDraft} onOpenChange={(open) => !open && setShellDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New shell profile</DialogTitle>
+            <DialogDescription>
+              Rejects this link and adds the entity to the Shell Profile Queue for a manager to approve.
+            </DialogDescription>
+          </DialogHeader>
+          {shellDraft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Entity type</Label>
+                <Input value={entityTypeLabels[shellDraft.entityType] ?? shellDraft.entityType} disabled />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shell-entity-name">Name</Label>
+                <Input
+                  id="shell-entity-name"
+                  value={shellDraft.entityName}
+                  onChange={(e) => setShellDraft({ ...shellDraft, entityName: e.target.value })}
+                  data-testid="input-shell-entity-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shell-text-span">Source text</Label>
+                <Textarea
+                  id="shell-text-span"
+                  rows={4}
+                  value={shellDraft.textSpan}
+                  onChange={(e) => setShellDraft({ ...shellDraft, textSpan: e.target.value })}
+                  data-testid="input-shell-text-span"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShellDraft(null)}>Cancel</Button>
+            <Button
+              disabled={!shellDraft?.entityName.trim() || shellProfileMutation.isPending}
+              onClick={() => shellDraft && shellProfileMutation.mutate(shellDraft)}
+              data-testid="button-create-shell-profile"
+            >
+              Create shell profile
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,150 +1,335 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useLocation, Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Slider } from "@/components/ui/slider";
-import { WorkflowProgress } from "@/components/workflow-progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AutosaveStatus } from "@/components/autosave-status";
+import { LabelAttributesForm } from "@/components/label-attributes-form";
+import { LabelIssuesAlert } from "@/components/label-issues-alert";
 import {
-  Link as LinkIcon,
-  Upload,
-  Globe,
-  Square,
-  Circle,
+  ImageAnnotationCanvas,
+  translateShape,
+  type ImageTool,
+} from "@/components/image-annotation-canvas";
+import { useLabelSchema } from "@/hooks/use-label-schema";
+import { useToast } from "@/hooks/use-toast";
+import { submitAnnotationTask, useTaskAnnotation } from "@/hooks/use-task-annotation";
+import { labelIssuesOf, type ImageAnnotationData, type ImageShape, type LabelAttributeValues } from "@shared/schema";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  Hexagon,
   MousePointer,
-  Trash2,
+  Redo2,
   Save,
-  CheckCircle2,
-  ZoomIn,
-  ZoomOut,
-  RotateCw,
-  Image as ImageIcon,
+  Square,
+  Trash2,
+  Undo2,
 } from "lucide-react";
 
-const labelCategories = [
-  { id: "product", label: "Product", color: "bg-blue-500" },
-  { id: "logo", label: "Logo", color: "bg-purple-500" },
-  { id: "text", label: "Text", color: "bg-emerald-500" },
-  { id: "face", label: "Face", color: "bg-amber-500" },
-  { id: "background", label: "Background", color: "bg-gray-500" },
+const MAX_HISTORY = 100;
+
+const tools: Array<{ id: ImageTool; label: string; key: string; icon: typeof Square }> = [
+  { id: "select", label: "Select", key: "V", icon: MousePointer },
+  { id: "rectangle", label: "Rectangle", key: "R", icon: Square },
+  { id: "polygon", label: "Polygon", key: "P", icon: Hexagon },
 ];
 
 export default function ImageLabelPage() {
-  const [inputType, setInputType] = useState<"url" | "upload">("url");
-  const [imageUrl, setImageUrl] = useState("/api/placeholder/800/600");
-  const [selectedTool, setSelectedTool] = useState<"select" | "rectangle" | "polygon">("rectangle");
-  const [confidence, setConfidence] = useState([88]);
-  const [currentStep, setCurrentStep] = useState("action");
-  const [annotations, setAnnotations] = useState([
-    { id: 1, type: "rectangle", label: "product", x: 10, y: 10, width: 30, height: 40 },
-    { id: 2, type: "rectangle", label: "logo", x: 60, y: 5, width: 15, height: 15 },
-  ]);
+  const { taskId } = useParams<{ taskId?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const {
+    task,
+    annotation,
+    isLoading,
+    error,
+    saveState,
+    saveError,
+    lastSavedAt,
+    scheduleSave,
+    flush,
+    reload,
+    overwrite,
+  } = useTaskAnnotation<ImageAnnotationData>({ taskId, type: "image" });
+  const { labelSchema, options: labelOptions, colorOf, nameOf, optionOfHotkey, attributesOf } = useLabelSchema(
+    task?.project_id
+  );
+
+  const [shapes, setShapes] = useState<ImageShape[]>([]);
+  const [past, setPast] = useState<ImageShape[][]>([]);
+  const [future, setFuture] = useState<ImageShape[][]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [tool, setTool] = useState<ImageTool>("rectangle");
+  const [activeLabel, setActiveLabel] = useState("");
+  const [confidence, setConfidence] = useState([85]);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  // Shapes before the drag in progress, pushed to history when it ends
+  const dragBaseRef = useRef<ImageShape[] | null>(null);
+
+  const imageUrl = task?.metadata.input_url ?? null;
+  const selectedShape = shapes.find((shape) => shape.id === selectedId) ?? null;
+  const labelIssues = useMemo(() => (labelSchema ? labelIssuesOf(labelSchema.schema, shapes) : []), [labelSchema, shapes]);
+
+  // New shapes take the first class until another is chosen
+  useEffect(() => {
+    if (!labelOptions.some((option) => option.id === activeLabel)) setActiveLabel(labelOptions[0]?.id ?? "");
+  }, [labelOptions, activeLabel]);
+
+  // Start from the stored version whenever one is (re)loaded
+  useEffect(() => {
+    setShapes(annotation?.data.shapes ?? []);
+    setConfidence([annotation?.confidence_score ?? 85]);
+    setPast([]);
+    setFuture([]);
+    setSelectedId(null);
+  }, [annotation]);
+
+  const persist = useCallback(
+    (next: ImageShape[], score = confidence[0]) => {
+      const image = imageSize && imageUrl ? { url: imageUrl, ...imageSize } : annotation?.data.image ?? null;
+      scheduleSave({ image, shapes: next }, score);
+    },
+    [confidence, imageSize, imageUrl, annotation, scheduleSave]
+  );
+
+  const applyShapes = useCallback(
+    (next: ImageShape[], commit: boolean) => {
+      if (!commit) {
+        if (!dragBaseRef.current) dragBaseRef.current = shapes;
+        setShapes(next);
+        return;
+      }
+      const base = dragBaseRef.current ?? shapes;
+      dragBaseRef.current = null;
+      setPast((p) => [...p.slice(-(MAX_HISTORY - 1)), base]);
+      setFuture([]);
+      setShapes(next);
+      persist(next);
+    },
+    [shapes, persist]
+  );
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture([shapes, ...future]);
+    setShapes(previous);
+    persist(previous);
+  }, [past, future, shapes, persist]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    const [next, ...rest] = future;
+    setFuture(rest);
+    setPast([...past, shapes]);
+    setShapes(next);
+    persist(next);
+  }, [past, future, shapes, persist]);
+
+  const removeShape = useCallback(
+    (id: string) => {
+      applyShapes(shapes.filter((shape) => shape.id !== id), true);
+      if (selectedId === id) setSelectedId(null);
+    },
+    [shapes, selectedId, applyShapes]
+  );
+
+  const relabel = useCallback(
+    (id: string, label: string) => {
+      applyShapes(shapes.map((shape) => (shape.id === id ? { ...shape, label } : shape)), true);
+    },
+    [shapes, applyShapes]
+  );
+
+  const setAttributes = useCallback(
+    (id: string, attributes: LabelAttributeValues, commit: boolean) => {
+      applyShapes(shapes.map((shape) => (shape.id === id ? { ...shape, attributes } : shape)), commit);
+    },
+    [shapes, applyShapes]
+  );
+
+  const chooseLabel = useCallback(
+    (label: string) => {
+      setActiveLabel(label);
+      if (selectedId) relabel(selectedId, label);
+    },
+    [selectedId, relabel]
+  );
+
+  // Editing shortcuts; zoom, pan and polygon keys live in the canvas
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const mod = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+
+      if (mod && key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) redo();
+        else undo();
+      } else if (mod && key === "y") {
+        event.preventDefault();
+        redo();
+      } else if (mod && key === "s") {
+        event.preventDefault();
+        flush();
+      } else if (mod) {
+        return;
+      } else if (key === "v" || key === "r" || key === "p") {
+        setTool(key === "v" ? "select" : key === "r" ? "rectangle" : "polygon");
+      } else if (/^[0-9]$/.test(key) && optionOfHotkey(key)) {
+        chooseLabel(optionOfHotkey(key)!.id);
+      } else if ((key === "delete" || key === "backspace") && selectedId) {
+        event.preventDefault();
+        removeShape(selectedId);
+      } else if (key === "escape") {
+        setSelectedId(null);
+      } else if (key.startsWith("arrow") && selectedId) {
+        event.preventDefault();
+        const step = event.shiftKey ? 10 : 1;
+        const dx = key === "arrowleft" ? -step : key === "arrowright" ? step : 0;
+        const dy = key === "arrowup" ? -step : key === "arrowdown" ? step : 0;
+        applyShapes(shapes.map((shape) => (shape.id === selectedId ? translateShape(shape, dx, dy) : shape)), true);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo, flush, chooseLabel, optionOfHotkey, removeShape, applyShapes, shapes, selectedId]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!(await flush())) throw new Error("Save your annotations before submitting.");
+      await submitAnnotationTask(taskId!);
+    },
+    onSuccess: () => {
+      toast({ title: "Submitted", description: "Task submitted for review." });
+      setLocation(task ? `/annotate/projects/${task.project_id}` : "/nest-annotate");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Submit failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (!taskId) {
+    return (
+      <div className="p-6 flex items-center justify-center h-full">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Open an Image Task</h2>
+            <p className="text-muted-foreground mb-4">
+              Image labeling works on tasks of an image project. Open one from its project page.
+            </p>
+            <Button onClick={() => setLocation("/nest-annotate")} data-testid="button-back">
+              Go to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-10 w-64" />
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Skeleton className="h-[600px] lg:col-span-3" />
+          <Skeleton className="h-96" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !task) {
+    return (
+      <div className="p-6 flex items-center justify-center h-full">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Task Not Found</h2>
+            <p className="text-muted-foreground mb-4">
+              The task you're looking for doesn't exist or you don't have access.
+            </p>
+            <Button onClick={() => setLocation("/nest-annotate")} data-testid="button-back">
+              Back to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
   return (
     <div className="p-6 space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <div>
-          <h1 className="text-2xl font-bold">Image Labeling</h1>
-          <p className="text-muted-foreground">
-            Bounding box and polygon annotation for images
-          </p>
+        <div className="flex items-center gap-4">
+          <Link href={`/annotate/projects/${task.project_id}`}>
+            <Button variant="ghost" size="icon" data-testid="button-back-project">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">{task.metadata.title || "Image Labeling"}</h1>
+            <p className="text-muted-foreground">{task.project_name}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Badge variant="outline" className="capitalize">
+            {task.status.replace("_", " ")}
+          </Badge>
+          <AutosaveStatus state={saveState} lastSavedAt={lastSavedAt} error={saveError} />
         </div>
-        <WorkflowProgress currentStep={currentStep} />
       </div>
 
+      {saveState === "conflict" && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            These annotations were saved from another session. Your edits are still here: reload to take that version, or keep
+            yours to save over it.
+            <div className="flex shrink-0 gap-2">
+              <Button size="sm" variant="outline" onClick={() => reload()} data-testid="button-reload">
+                Reload
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => overwrite()} data-testid="button-keep-mine">
+                Keep mine
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <LabelIssuesAlert issues={labelIssues} version={labelSchema?.version} />
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-        <div className="lg:col-span-3 space-y-6">
+        <div className="lg:col-span-3">
           <Card>
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+            <CardHeader className="pb-2">
               <CardTitle>Image Canvas</CardTitle>
-              <div className="flex items-center gap-1">
-                <Button variant="ghost" size="icon">
-                  <ZoomOut className="h-4 w-4" />
-                </Button>
-                <span className="text-sm text-muted-foreground px-2">100%</span>
-                <Button variant="ghost" size="icon">
-                  <ZoomIn className="h-4 w-4" />
-                </Button>
-                <Button variant="ghost" size="icon">
-                  <RotateCw className="h-4 w-4" />
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="relative rounded-lg border border-border bg-muted/30 aspect-video flex items-center justify-center overflow-hidden">
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <div className="text-center">
-                    <ImageIcon className="h-16 w-16 mx-auto text-muted-foreground/50" />
-                    <p className="mt-2 text-muted-foreground">
-                      Image canvas - annotations would appear here
-                    </p>
-                  </div>
-                </div>
-                {annotations.map((ann) => (
-                  <div
-                    key={ann.id}
-                    className={`absolute border-2 ${
-                      labelCategories.find((c) => c.id === ann.label)?.color.replace("bg-", "border-") || "border-blue-500"
-                    } rounded`}
-                    style={{
-                      left: `${ann.x}%`,
-                      top: `${ann.y}%`,
-                      width: `${ann.width}%`,
-                      height: `${ann.height}%`,
-                    }}
-                    data-testid={`annotation-${ann.id}`}
-                  >
-                    <Badge
-                      className={`absolute -top-6 left-0 text-xs ${
-                        labelCategories.find((c) => c.id === ann.label)?.color
-                      } text-white`}
-                    >
-                      {ann.label}
-                    </Badge>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle>Image Source</CardTitle>
             </CardHeader>
             <CardContent>
-              <Tabs value={inputType} onValueChange={(v) => setInputType(v as typeof inputType)}>
-                <TabsList className="mb-4">
-                  <TabsTrigger value="url">
-                    <LinkIcon className="h-4 w-4 mr-2" />
-                    URL
-                  </TabsTrigger>
-                  <TabsTrigger value="upload">
-                    <Upload className="h-4 w-4 mr-2" />
-                    Upload
-                  </TabsTrigger>
-                </TabsList>
-                <TabsContent value="url">
-                  <div className="flex gap-2">
-                    <Input
-                      placeholder="https://example.com/image.jpg"
-                      value={imageUrl}
-                      onChange={(e) => setImageUrl(e.target.value)}
-                      data-testid="input-image-url"
-                    />
-                    <Button variant="outline">Load</Button>
-                  </div>
-                </TabsContent>
-                <TabsContent value="upload">
-                  <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
-                    <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                    <p className="text-sm text-muted-foreground">
-                      Drag & drop or click to upload
-                    </p>
-                  </div>
-                </TabsContent>
-              </Tabs>
+              <ImageAnnotationCanvas
+                imageUrl={imageUrl}
+                shapes={shapes}
+                selectedId={selectedId}
+                tool={activeLabel ? tool : "select"}
+                activeLabel={activeLabel}
+                colorOf={colorOf}
+                onChange={applyShapes}
+                onSelect={setSelectedId}
+                onImageLoad={setImageSize}
+              />
             </CardContent>
           </Card>
         </div>
@@ -156,75 +341,122 @@ export default function ImageLabelPage() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-3 gap-2">
-                <Button
-                  variant={selectedTool === "select" ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedTool("select")}
-                  data-testid="tool-select"
-                >
-                  <MousePointer className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant={selectedTool === "rectangle" ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedTool("rectangle")}
-                  data-testid="tool-rectangle"
-                >
-                  <Square className="h-4 w-4" />
+                {tools.map(({ id, label, key, icon: Icon }) => (
+                  <Button
+                    key={id}
+                    variant={tool === id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setTool(id)}
+                    disabled={id !== "select" && !activeLabel}
+                    title={`${label} (${key})`}
+                    data-testid={`tool-${id}`}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </Button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" size="sm" onClick={undo} disabled={past.length === 0} title="Undo (Ctrl+Z)" data-testid="button-undo">
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Undo
                 </Button>
-                <Button
-                  variant={selectedTool === "polygon" ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedTool("polygon")}
-                  data-testid="tool-polygon"
-                >
-                  <Circle className="h-4 w-4" />
+                <Button variant="outline" size="sm" onClick={redo} disabled={future.length === 0} title="Redo (Ctrl+Shift+Z)" data-testid="button-redo">
+                  <Redo2 className="h-4 w-4 mr-2" />
+                  Redo
                 </Button>
               </div>
               <div className="space-y-2">
-                <Label className="text-xs text-muted-foreground">Label Categories</Label>
+                <Label className="text-xs text-muted-foreground">Labels</Label>
                 <div className="space-y-1">
-                  {labelCategories.map((cat) => (
+                  {labelOptions.map((option) => (
                     <Button
-                      key={cat.id}
-                      variant="outline"
+                      key={option.id}
+                      variant={activeLabel === option.id ? "secondary" : "outline"}
                       size="sm"
                       className="w-full justify-start"
-                      data-testid={`category-${cat.id}`}
+                      style={{ paddingLeft: `${0.75 + option.depth}rem` }}
+                      onClick={() => chooseLabel(option.id)}
+                      data-testid={`category-${option.id}`}
                     >
-                      <div className={`h-3 w-3 rounded-full ${cat.color} mr-2`} />
-                      {cat.label}
+                      <div className="h-3 w-3 rounded-full mr-2" style={{ backgroundColor: option.color }} />
+                      {option.name}
+                      {option.hotkey && <span className="ml-auto text-xs text-muted-foreground">{option.hotkey}</span>}
                     </Button>
                   ))}
+                  {labelOptions.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      This project's label schema has no classes yet. A manager can add them on the project page.
+                    </p>
+                  )}
                 </div>
               </div>
+              <p className="text-xs text-muted-foreground">
+                Del removes the selected shape, arrows nudge it (Shift: 10px), Ctrl+S saves now.
+              </p>
             </CardContent>
           </Card>
 
+          {selectedShape && attributesOf(selectedShape.label).length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Attributes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LabelAttributesForm
+                  attributes={attributesOf(selectedShape.label)}
+                  values={selectedShape.attributes}
+                  onChange={(values, commit) => setAttributes(selectedShape.id, values, commit)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
-              <CardTitle>Annotations ({annotations.length})</CardTitle>
+              <CardTitle>Annotations ({shapes.length})</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                {annotations.map((ann) => {
-                  const category = labelCategories.find((c) => c.id === ann.label);
-                  return (
+              {shapes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No shapes yet.</p>
+              ) : (
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                  {shapes.map((shape) => (
                     <div
-                      key={ann.id}
-                      className="flex items-center justify-between p-2 rounded-lg border border-border"
+                      key={shape.id}
+                      className={`flex items-center justify-between p-2 rounded-lg border cursor-pointer ${
+                        shape.id === selectedId ? "border-primary bg-primary/5" : "border-border"
+                      }`}
+                      onClick={() => {
+                        setSelectedId(shape.id);
+                        setTool("select");
+                      }}
+                      data-testid={`annotation-${shape.id}`}
                     >
                       <div className="flex items-center gap-2">
-                        <div className={`h-3 w-3 rounded ${category?.color}`} />
-                        <span className="text-sm capitalize">{ann.label}</span>
+                        <div className="h-3 w-3 rounded" style={{ backgroundColor: colorOf(shape.label) }} />
+                        <span className="text-sm">{nameOf(shape.label)}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {shape.type === "rectangle"
+                            ? `${Math.round(shape.width)}×${Math.round(shape.height)}`
+                            : `${shape.points.length} pts`}
+                        </span>
                       </div>
-                      <Button variant="ghost" size="icon" className="h-6 w-6">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          removeShape(shape.id);
+                        }}
+                        data-testid={`button-delete-${shape.id}`}
+                      >
                         <Trash2 className="h-3 w-3 text-destructive" />
                       </Button>
                     </div>
-                  );
-                })}
-              </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -237,6 +469,7 @@ export default function ImageLabelPage() {
                 <Slider
                   value={confidence}
                   onValueChange={setConfidence}
+                  onValueCommit={(value) => persist(shapes, value[0])}
                   max={100}
                   step={1}
                   data-testid="slider-confidence"
@@ -250,11 +483,22 @@ export default function ImageLabelPage() {
           </Card>
 
           <div className="flex flex-col gap-2">
-            <Button className="w-full" variant="outline" data-testid="button-save-draft">
+            <Button
+              className="w-full"
+              variant="outline"
+              onClick={() => flush()}
+              disabled={saveState === "saving" || saveState === "conflict"}
+              data-testid="button-save-draft"
+            >
               <Save className="h-4 w-4 mr-2" />
-              Save Draft
+              Save Now
             </Button>
-            <Button className="w-full" data-testid="button-submit">
+            <Button
+              className="w-full"
+              onClick={() => submitMutation.mutate()}
+              disabled={submitMutation.isPending || saveState === "conflict"}
+              data-testid="button-submit"
+            >
               <CheckCircle2 className="h-4 w-4 mr-2" />
               Submit for Review
             </Button>
@@ -44,11 +44,13 @@ import {
   Users,
   Plus,
   Download,
+  AlertTriangle,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
+import { LabelSchemaCard } from "@/components/label-schema-editor";
 import { useAuth } from "@/lib/auth-context";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -64,6 +66,11 @@ interface AnnotationTask {
     source_name?: string;
     publish_date?: string;
     news_id?: string;
+    // Media tasks (image, video, audio and transcription projects)
+    title?: string;
+    input_url?: string;
+    // Labels outside the project's label schema, set when the schema changes
+    label_issues?: string[];
   };
   createdAt: string;
 }
@@ -85,6 +92,60 @@ interface OrgUser {
   role: string;
 }
 
+// Labeling page per project label type; others open in the text labeler
+const annotatePaths: Record<string, string> = {
+  text: "/annotate/text",
+  image: "/annotate/image",
+  video: "/annotate/video",
+  audio: "/annotate/transcription",
+  transcription: "/annotate/transcription",
+  translation: "/annotate/translation",
+};
+
+// Label types whose tasks are created from media URLs
+const mediaLabelTypes: Record<string, { noun: string; example: string }> = {
+  image: { noun: "Image", example: "https://example.com/deck-page-1.png\nAcme logo https://example.com/acme.svg" },
+  video: { noun: "Video", example: "https://example.com/earnings-call.mp4\nFactory tour https://example.com/tour.webm" },
+  audio: { noun: "Recording", example: "https://example.com/q3-earnings-call.mp3\nAcme Q3 call https://example.com/acme-q3.m4a" },
+  transcription: { noun: "Recording", example: "https://example.com/q3-earnings-call.mp3\nAcme Q3 call https://example.com/acme-q3.mp4" },
+};
+
+// "Title https://..." or just the URL, one item per line
+const parseMediaLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = line.match(/^(.*?)\s*(https?:\/\/\S+)$/);
+      return match ? { input_url: match[2], title: match[1] || undefined } : { input_url: line };
+    });
+
+const translationLanguages = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "zh", name: "Chinese" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "pt", name: "Portuguese" },
+];
+
+// Documents separated by a "---" line, each optionally headed by "# Title"
+const parseDocuments = (text: string) =>
+  text
+    .split(/^\s*---+\s*$/m)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => {
+      const heading = block.match(/^#\s+(.+)\n?/);
+      const source_text = heading ? block.slice(heading[0].length).trim() : block;
+      const title = heading ? heading[1].trim() : source_text.replace(/\s+/g, " ").slice(0, 60);
+      return { source_text, title };
+    })
+    .filter((doc) => doc.source_text);
+
 const statusIcons: Record<string, typeof Clock> = {
   pending: Clock,
   in_progress: Loader2,
@@ -112,6 +173,12 @@ export default function NestAnnotateProjectDetailPage() {
   const userId = user?.id;
 
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  const [mediaDialogOpen, setMediaDialogOpen] = useState(false);
+  const [mediaUrls, setMediaUrls] = useState("");
+  const [documentsDialogOpen, setDocumentsDialogOpen] = useState(false);
+  const [documentsText, setDocumentsText] = useState("");
+  const [sourceLanguage, setSourceLanguage] = useState("en");
+  const [targetLanguage, setTargetLanguage] = useState("es");
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [selectedAssignee, setSelectedAssignee] = useState("");
@@ -389,6 +456,64 @@ export default function NestAnnotateProjectDetailPage() {
     uploadNewsMutation.mutate({ articles: [article], assignees: selectedAssignees });
   };
 
+  const addMediaMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/annotation-tasks", {
+        project_id: projectId,
+        items: parseMediaLines(mediaUrls),
+        assignees: selectedAssignees,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { items: number; tasks: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nest-annotate/projects", projectId] });
+      setMediaDialogOpen(false);
+      setMediaUrls("");
+      setSelectedAssignees([]);
+      toast({
+        title: "Items Added",
+        description: `Added ${data.items} items, created ${data.tasks} tasks`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add items",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addDocumentsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/annotation-tasks", {
+        project_id: projectId,
+        items: parseDocuments(documentsText),
+        source_language: sourceLanguage,
+        target_language: targetLanguage,
+        assignees: selectedAssignees,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { items: number; tasks: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nest-annotate/projects", projectId] });
+      setDocumentsDialogOpen(false);
+      setDocumentsText("");
+      setSelectedAssignees([]);
+      toast({
+        title: "Documents Added",
+        description: `Added ${data.items} documents, created ${data.tasks} tasks`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add documents",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
   const toggleAssignee = (userId: string) => {
     setSelectedAssignees((prev) =>
       prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
@@ -416,12 +541,72 @@ export default function NestAnnotateProjectDetailPage() {
   };
 
   const isNewsProject = project?.projectCategory === "news";
+  const mediaType = isNewsProject ? undefined : mediaLabelTypes[project?.labelType ?? ""];
+  const isMediaProject = !!mediaType;
+  const isTranslationProject = !isNewsProject && project?.labelType === "translation";
+  const taskPath = (taskId: string) => `${annotatePaths[project?.labelType ?? ""] ?? "/annotate/text"}/${taskId}`;
   const tasks = project?.tasks || [];
   const pendingTasks = tasks.filter(t => t.status === "pending");
   const inProgressTasks = tasks.filter(t => t.status === "in_progress");
   const reviewTasks = tasks.filter(t => t.status === "review");
   const completedTasks = tasks.filter(t => t.status === "completed");
 
+  // Team assignment section shared by the upload dialogs
+  const assigneePicker = orgUsers && orgUsers.length > 0 && (
+    <div className="border rounded-lg p-4 bg-muted/30">
+      <div className="flex items-center gap-2 mb-3">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        <h4 className="font-medium text-sm">Assign To Team Members</h4>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Select users to assign tasks. Multiple users = one task per user.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {orgUsers.map((u) => (
+          <div
+            key={u.id}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-md border cursor-pointer transition-colors ${
+              selectedAssignees.includes(u.id)
+                ? "bg-primary/10 border-primary"
+                : "bg-background hover:bg-muted"
+            }`}
+            onClick={() => toggleAssignee(u.id)}
+            data-testid={`checkbox-assignee-${u.id}`}
+          >
+            <Checkbox
+              checked={selectedAssignees.includes(u.id)}
+              className="pointer-events-none"
+            />
+            <span className="text-sm">{u.displayName}</span>
+          </div>
+        ))}
+      </div>
+      {selectedAssignees.length === 0 && (
+        <p className="text-xs text-muted-foreground mt-2">
+          No selection = tasks remain unassigned
+        </p>
+      )}
+    </div>
+  );
+
+  const languagePicker = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} data-testid={`select-${id}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {translationLanguages.map((lang) => (
+            <SelectItem key={lang.code} value={lang.code}>
+              {lang.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="p-6 space-y-6">
@@ -475,6 +660,18 @@ export default function NestAnnotateProjectDetailPage() {
               Manage Team
             </Button>
           )}
+          {isManager && isMediaProject && (
+            <Button onClick={() => setMediaDialogOpen(true)} data-testid="button-add-media">
+              <Plus className="h-4 w-4 mr-2" />
+              Add {mediaType?.noun}s
+            </Button>
+          )}
+          {isManager && isTranslationProject && (
+            <Button onClick={() => setDocumentsDialogOpen(true)} data-testid="button-add-documents">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Documents
+            </Button>
+          )}
           {isManager && isNewsProject && (
             <Button onClick={() => setUploadDialogOpen(true)} data-testid="button-upload-news">
               <Upload className="h-4 w-4 mr-2" />
@@ -542,6 +739,8 @@ export default function NestAnnotateProjectDetailPage() {
         </Card>
       </div>
 
+      <LabelSchemaCard projectId={projectId} canEdit={isManager} />
+
       <Card>
         <CardHeader className="flex flex-row items-center justify-between gap-2">
           <CardTitle>Tasks</CardTitle>
@@ -554,7 +753,11 @@ export default function NestAnnotateProjectDetailPage() {
               <p className="text-muted-foreground mb-4">
                 {isManager && isNewsProject
                   ? "Upload a CSV or Excel file with news articles to create tasks."
-                  : "No tasks have been created for this project."}
+                  : isManager && isMediaProject
+                    ? `Add ${mediaType?.noun.toLowerCase()} URLs to create tasks.`
+                    : isManager && isTranslationProject
+                      ? "Add documents to translate to create tasks."
+                      : "No tasks have been created for this project."}
               </p>
               {isManager && isNewsProject && (
                 <Button onClick={() => setUploadDialogOpen(true)}>
@@ -567,7 +770,7 @@ export default function NestAnnotateProjectDetailPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Article</TableHead>
+                  <TableHead>{isNewsProject ? "Article" : "Item"}</TableHead>
                   <TableHead>Source</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Assigned To</TableHead>
@@ -586,7 +789,7 @@ export default function NestAnnotateProjectDetailPage() {
                       <TableCell>
                         <div>
                           <p className="font-medium text-sm line-clamp-1">
-                            {task.metadata?.headline || "Untitled"}
+                            {task.metadata?.headline || task.metadata?.title || task.metadata?.input_url || "Untitled"}
                           </p>
                           {task.metadata?.publish_date && (
                             <p className="text-xs text-muted-foreground">
@@ -605,6 +808,17 @@ export default function NestAnnotateProjectDetailPage() {
                           <StatusIcon className={`h-3 w-3 mr-1 ${task.status === "in_progress" ? "animate-spin" : ""}`} />
                           {task.status.replace("_", " ")}
                         </Badge>
+                        {task.metadata?.label_issues && task.metadata.label_issues.length > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2 border-amber-500 text-amber-600"
+                            title={task.metadata.label_issues.join("\n")}
+                            data-testid={`badge-label-issues-${task.id}`}
+                          >
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Needs review
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         <span className="text-sm">
@@ -626,7 +840,7 @@ export default function NestAnnotateProjectDetailPage() {
                             </Button>
                           )}
                           {canWorkOn && (
-                            <Link href={`/annotate/text/${task.id}`}>
+                            <Link href={taskPath(task.id)}>
                               <Button size="sm" data-testid={`button-work-task-${task.id}`}>
                                 <Eye className="h-3 w-3 mr-1" />
                                 Open
@@ -659,7 +873,7 @@ export default function NestAnnotateProjectDetailPage() {
                             </Button>
                           )}
                           {task.status !== "pending" && task.assignedTo === userId && (
-                            <Link href={`/annotate/text/${task.id}`}>
+                            <Link href={taskPath(task.id)}>
                               <Button size="sm" variant="outline" data-testid={`button-view-task-${task.id}`}>
                                 <Eye className="h-3 w-3 mr-1" />
                                 View
@@ -686,43 +900,7 @@ export default function NestAnnotateProjectDetailPage() {
             </DialogDescription>
           </DialogHeader>
           
-          {/* Team Assignment Section */}
-          {orgUsers && orgUsers.length > 0 && (
-            <div className="border rounded-lg p-4 bg-muted/30">
-              <div className="flex items-center gap-2 mb-3">
-                <Users className="h-4 w-4 text-muted-foreground" />
-                <h4 className="font-medium text-sm">Assign To Team Members</h4>
-              </div>
-              <p className="text-xs text-muted-foreground mb-3">
-                Select users to assign tasks. Multiple users = one task per user.
-              </p>
-              <div className="flex flex-wrap gap-2">
-                {orgUsers.map((u) => (
-                  <div
-                    key={u.id}
-                    className={`flex items-center gap-2 px-3 py-1.5 rounded-md border cursor-pointer transition-colors ${
-                      selectedAssignees.includes(u.id)
-                        ? "bg-primary/10 border-primary"
-                        : "bg-background hover:bg-muted"
-                    }`}
-                    onClick={() => toggleAssignee(u.id)}
-                    data-testid={`checkbox-assignee-${u.id}`}
-                  >
-                    <Checkbox
-                      checked={selectedAssignees.includes(u.id)}
-                      className="pointer-events-none"
-                    />
-                    <span className="text-sm">{u.displayName}</span>
-                  </div>
-                ))}
-              </div>
-              {selectedAssignees.length === 0 && (
-                <p className="text-xs text-muted-foreground mt-2">
-                  No selection = tasks remain unassigned
-                </p>
-              )}
-            </div>
-          )}
+          {assigneePicker}
 
           <Tabs defaultValue="csv" className="w-full">
             <TabsList className="grid w-full grid-cols-2">
@@ -991,6 +1169,93 @@ export default function NestAnnotateProjectDetailPage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={mediaDialogOpen} onOpenChange={setMediaDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add {mediaType?.noun}s</DialogTitle>
+            <DialogDescription>
+              One {mediaType?.noun.toLowerCase()} URL per line, optionally preceded by a title.
+            </DialogDescription>
+          </DialogHeader>
+
+          {assigneePicker}
+
+          <div className="space-y-2">
+            <Label htmlFor="media-urls">{mediaType?.noun} URLs</Label>
+            <Textarea
+              id="media-urls"
+              value={mediaUrls}
+              onChange={(e) => setMediaUrls(e.target.value)}
+              placeholder={mediaType?.example}
+              rows={8}
+              data-testid="input-media-urls"
+            />
+            <p className="text-xs text-muted-foreground">
+              {parseMediaLines(mediaUrls).length} items
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => addMediaMutation.mutate()}
+              disabled={addMediaMutation.isPending || parseMediaLines(mediaUrls).length === 0}
+              data-testid="button-submit-media"
+            >
+              {addMediaMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Tasks
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+      <Dialog open={documentsDialogOpen} onOpenChange={setDocumentsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Documents</DialogTitle>
+            <DialogDescription>
+              Paste the text to translate. Separate documents with a line of "---" and optionally start each with
+              "# Title". Each document becomes a task, split into sentences.
+            </DialogDescription>
+          </DialogHeader>
+
+          {assigneePicker}
+
+          <div className="grid grid-cols-2 gap-4">
+            {languagePicker("source-language", "Source Language", sourceLanguage, setSourceLanguage)}
+            {languagePicker("target-language", "Target Language", targetLanguage, setTargetLanguage)}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="documents-text">Source Text</Label>
+            <Textarea
+              id="documents-text"
+              value={documentsText}
+              onChange={(e) => setDocumentsText(e.target.value)}
+              placeholder={"# Acme Q3 results\nAcme Corp. reported revenue of $2.3 billion.\n---\n# Guidance\nThe company expects growth of 5% in 2025."}
+              rows={10}
+              data-testid="input-documents-text"
+            />
+            <p className="text-xs text-muted-foreground">
+              {parseDocuments(documentsText).length} documents
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => addDocumentsMutation.mutate()}
+              disabled={
+                addDocumentsMutation.isPending ||
+                parseDocuments(documentsText).length === 0 ||
+                sourceLanguage === targetLanguage
+              }
+              data-testid="button-submit-documents"
+            >
+              {addDocumentsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Tasks
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth-context";
+import { authFetch } from "@/lib/session";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -44,6 +45,12 @@ const entityTypeConfig: Record<string, { icon: typeof Building2; color: string;
   topic: { icon: Tag, color: "bg-amber-500", label: "Topic" },
   fund: { icon: Briefcase, color: "bg-indigo-500", label: "Fund" },
   deal: { icon: DollarSign, color: "bg-pink-500", label: "Deal" },
+  // Raised from the entity link review queue
+  gp: { icon: Building2, color: "bg-purple-500", label: "GP" },
+  lp: { icon: Building2, color: "bg-teal-500", label: "LP" },
+  portfolio_company: { icon: Building2, color: "bg-sky-500", label: "Portfolio Company" },
+  service_provider: { icon: Briefcase, color: "bg-orange-500", label: "Service Provider" },
+  contact: { icon: User, color: "bg-blue-500", label: "Contact" },
 };
 
 export default function ShellProfilesPage() {
@@ -57,9 +64,8 @@ export default function ShellProfilesPage() {
   const { data: profiles, isLoading } = useQuery<ShellProfile[]>({
     queryKey: ["/api/nest-annotate/shell-profiles", statusFilter],
     queryFn: async () => {
-      const res = await fetch(`/api/nest-annotate/shell-profiles?status=${statusFilter}`, {
+      const res = await authFetch(`/api/nest-annotate/shell-profiles?status=${statusFilter}`, {
         credentials: "include",
-        headers: { "x-user-id": user?.id || "" },
       });
       if (!res.ok) throw new Error("Failed to fetch shell profiles");
       return res.json();
@@ -69,9 +75,9 @@ export default function ShellProfilesPage() {
 
   const approveMutation = useMutation({
     mutationFn: async (profileId: string) => {
-      const res = await fetch(`/api/nest-annotate/shell-profiles/${profileId}/approve`, {
+      const res = await authFetch(`/api/nest-annotate/shell-profiles/${profileId}/approve`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json", "x-user-id": user?.id || "" },
+        headers: { "Content-Type": "application/json" },
         credentials: "include",
       });
       if (!res.ok) throw new Error("Failed to approve");
@@ -88,9 +94,9 @@ export default function ShellProfilesPage() {
 
   const rejectMutation = useMutation({
     mutationFn: async (profileId: string) => {
-      const res = await fetch(`/api/nest-annotate/shell-profiles/${profileId}/reject`, {
+      const res = await authFetch(`/api/nest-annotate/shell-profiles/${profileId}/reject`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json", "x-user-id": user?.id || "" },
+        headers: { "Content-Type": "application/json" },
         credentials: "include",
       });
       if (!res.ok) throw new Error("Failed to reject");
@@ -10,6 +10,7 @@ import { Slider } from "@/components/ui/slider";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
+import { authFetch } from "@/lib/session";
 import {
   ArrowLeft,
   AlertCircle,
@@ -308,9 +309,9 @@ export default function TextLabelPage() {
 
   const submitMutation = useMutation({
     mutationFn: async () => {
-      const res = await fetch(`/api/nest-annotate/tasks/${taskId}/submit`, {
+      const res = await authFetch(`/api/nest-annotate/tasks/${taskId}/submit`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json", "x-user-id": userId },
+        headers: { "Content-Type": "application/json" },
         credentials: "include",
       });
       if (!res.ok) {
@@ -1,155 +1,693 @@
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ChangeEvent, RefObject } from "react";
+import { useParams, useLocation, Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Slider } from "@/components/ui/slider";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { WorkflowProgress } from "@/components/workflow-progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
-  Play,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AudioWaveform } from "@/components/audio-waveform";
+import { AutosaveStatus } from "@/components/autosave-status";
+import { newShapeId } from "@/components/image-annotation-canvas";
+import { useToast } from "@/hooks/use-toast";
+import { submitAnnotationTask, useTaskAnnotation } from "@/hooks/use-task-annotation";
+import {
+  formatClock,
+  formatOfFile,
+  parseTimestamp,
+  parseTranscript,
+  toSrt,
+  toTranscriptJson,
+  toVtt,
+  transcriptFormats,
+  type TranscriptFormat,
+} from "@/lib/transcript-formats";
+import type { TranscriptionAnnotationData, TranscriptSegment } from "@shared/schema";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  Download,
+  Merge,
   Pause,
-  Upload,
-  Link as LinkIcon,
-  User,
-  Clock,
-  Edit,
+  Play,
+  PlayCircle,
+  Plus,
+  Redo2,
+  Rewind,
   Save,
-  CheckCircle2,
-  Mic,
-  Volume2,
+  Scissors,
+  FastForward,
+  Trash2,
+  Undo2,
+  Upload,
 } from "lucide-react";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
-const mockTranscript = [
-  { id: 1, speaker: "Speaker 1", start: 0, end: 8, text: "Good morning everyone. Welcome to our Q3 earnings call. I'm John Smith, CEO of Acme Corporation." },
-  { id: 2, speaker: "Speaker 1", start: 8, end: 18, text: "Today we'll be discussing our financial results and strategic initiatives for the upcoming quarter." },
-  { id: 3, speaker: "Speaker 2", start: 18, end: 30, text: "Thank you John. I'm Jane Doe, CFO. Let me start by highlighting our key financial metrics." },
-  { id: 4, speaker: "Speaker 2", start: 30, end: 42, text: "Revenue for Q3 came in at $2.3 billion, representing a 15% year-over-year increase." },
-  { id: 5, speaker: "Speaker 1", start: 42, end: 55, text: "These results demonstrate the strength of our core business and the success of our expansion strategy." },
-];
+const speakerColors = ["#3b82f6", "#a855f7", "#10b981", "#f59e0b", "#ec4899", "#06b6d4", "#84cc16", "#f97316"];
+const UNASSIGNED_COLOR = "#6b7280";
+const MAX_HISTORY = 100;
+const SKIP_SECONDS = 2;
+const NEW_SEGMENT_SECONDS = 5;
+const playbackRates = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+type Work = Pick<TranscriptionAnnotationData, "speakers" | "segments">;
+
+const emptyWork: Work = { speakers: [], segments: [] };
+
+const isVideoUrl = (url: string) => /\.(mp4|m4v|mov|webm|ogv)(\?|#|$)/i.test(url);
+
+const sortByStart = (segments: TranscriptSegment[]) =>
+  segments.slice().sort((a, b) => a.start - b.start || a.end - b.end);
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
 
 export default function TranscriptionPage() {
-  const [inputType, setInputType] = useState<"url" | "upload">("url");
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState([0]);
+  const { taskId } = useParams<{ taskId?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const {
+    task,
+    annotation,
+    isLoading,
+    error,
+    saveState,
+    saveError,
+    lastSavedAt,
+    scheduleSave,
+    flush,
+    reload,
+    overwrite,
+  } = useTaskAnnotation<TranscriptionAnnotationData>({ taskId, type: "transcription" });
+
+  const mediaRef = useRef<HTMLMediaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const textRefs = useRef(new Map<string, HTMLTextAreaElement>());
+  // Play-segment stops here
+  const stopAtRef = useRef<number | null>(null);
+  // Work before the edit in progress (typing, dragging), pushed to history when it ends
+  const editBaseRef = useRef<Work | null>(null);
+  const focusIdRef = useRef<string | null>(null);
+
+  const [work, setWork] = useState<Work>(emptyWork);
+  const [past, setPast] = useState<Work[]>([]);
+  const [future, setFuture] = useState<Work[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [confidence, setConfidence] = useState([90]);
-  const [currentStep, setCurrentStep] = useState("action");
-  const [editingId, setEditingId] = useState<number | null>(null);
-  const [transcript, setTranscript] = useState(mockTranscript);
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  const mediaUrl = task?.metadata.input_url ?? null;
+  const mediaKind: "audio" | "video" = mediaUrl && isVideoUrl(mediaUrl) ? "video" : "audio";
+  const selected = work.segments.find((s) => s.id === selectedId) ?? null;
+  const activeSegment = work.segments.find((s) => s.start <= currentTime && currentTime < s.end) ?? null;
+
+  // Start from the stored version whenever one is (re)loaded
+  useEffect(() => {
+    setWork(annotation ? { speakers: annotation.data.speakers, segments: annotation.data.segments } : emptyWork);
+    setConfidence([annotation?.confidence_score ?? 90]);
+    setPast([]);
+    setFuture([]);
+    setSelectedId(null);
+  }, [annotation]);
+
+  useEffect(() => {
+    if (mediaRef.current) mediaRef.current.playbackRate = playbackRate;
+  }, [playbackRate, duration]);
+
+  // Smooth playhead while playing; timeupdate fires only a few times a second
+  useEffect(() => {
+    if (!playing) return;
+    let handle = 0;
+    const tick = () => {
+      const media = mediaRef.current;
+      if (!media) return;
+      if (stopAtRef.current !== null && media.currentTime >= stopAtRef.current) {
+        media.pause();
+        stopAtRef.current = null;
+      }
+      setCurrentTime(media.currentTime);
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [playing]);
+
+  // Follow the spoken segment in the list
+  useEffect(() => {
+    if (playing && activeSegment) {
+      rowRefs.current.get(activeSegment.id)?.scrollIntoView({ block: "nearest" });
+    }
+  }, [playing, activeSegment]);
+
+  useEffect(() => {
+    if (focusIdRef.current) {
+      textRefs.current.get(focusIdRef.current)?.focus();
+      focusIdRef.current = null;
+    }
+  }, [work]);
+
+  const persist = useCallback(
+    (next: Work, score = confidence[0]) => {
+      const media = mediaUrl ? { url: mediaUrl, kind: mediaKind, duration } : annotation?.data.media ?? null;
+      scheduleSave({ media, ...next }, score);
+    },
+    [confidence, mediaUrl, mediaKind, duration, annotation, scheduleSave]
+  );
+
+  // Every change is saved; only finished edits become undo steps
+  const applyWork = useCallback(
+    (next: Work, commit: boolean) => {
+      if (!commit) {
+        if (!editBaseRef.current) editBaseRef.current = work;
+      } else {
+        const base = editBaseRef.current ?? work;
+        editBaseRef.current = null;
+        if (base !== next) {
+          setPast((p) => [...p.slice(-(MAX_HISTORY - 1)), base]);
+          setFuture([]);
+        }
+      }
+      setWork(next);
+      persist(next);
+    },
+    [work, persist]
+  );
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture([work, ...future]);
+    setWork(previous);
+    persist(previous);
+  }, [past, future, work, persist]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    const [next, ...rest] = future;
+    setFuture(rest);
+    setPast([...past, work]);
+    setWork(next);
+    persist(next);
+  }, [past, future, work, persist]);
+
+  const setSegments = useCallback(
+    (segments: TranscriptSegment[], commit = true) => applyWork({ ...work, segments }, commit),
+    [work, applyWork]
+  );
+
+  const updateSegment = useCallback(
+    (id: string, changes: Partial<TranscriptSegment>, commit = true) =>
+      setSegments(work.segments.map((s) => (s.id === id ? { ...s, ...changes } : s)), commit),
+    [work, setSegments]
+  );
+
+  /* ===============================
+     PLAYBACK
+  ================================ */
+
+  const seek = useCallback(
+    (time: number) => {
+      const media = mediaRef.current;
+      const next = Math.min(Math.max(time, 0), duration || time);
+      stopAtRef.current = null;
+      if (media) media.currentTime = next;
+      setCurrentTime(next);
+    },
+    [duration]
+  );
+
+  const togglePlay = useCallback(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+    stopAtRef.current = null;
+    if (media.paused) media.play().catch(() => undefined);
+    else media.pause();
+  }, []);
+
+  const playSegment = useCallback((segment: TranscriptSegment | null) => {
+    const media = mediaRef.current;
+    if (!media || !segment) return;
+    setSelectedId(segment.id);
+    media.currentTime = segment.start;
+    stopAtRef.current = segment.end;
+    media.play().catch(() => undefined);
+  }, []);
+
+  const stepRate = useCallback((direction: 1 | -1) => {
+    setPlaybackRate((rate) => {
+      const index = playbackRates.indexOf(rate) + direction;
+      return playbackRates[Math.min(Math.max(index, 0), playbackRates.length - 1)];
+    });
+  }, []);
+
+  /* ===============================
+     SEGMENT EDITING
+  ================================ */
+
+  const createSegment = useCallback(
+    (start: number, end: number) => {
+      const previous = sortByStart(work.segments).filter((s) => s.start <= start).pop();
+      const segment: TranscriptSegment = {
+        id: newShapeId(),
+        start,
+        end,
+        speaker: previous?.speaker ?? work.speakers[0] ?? "",
+        text: "",
+      };
+      focusIdRef.current = segment.id;
+      setSelectedId(segment.id);
+      setSegments(sortByStart([...work.segments, segment]));
+    },
+    [work, setSegments]
+  );
+
+  // New segment from the playhead up to the next one (or a few seconds)
+  const insertAtPlayhead = useCallback(() => {
+    const next = sortByStart(work.segments).find((s) => s.start > currentTime);
+    let end = currentTime + NEW_SEGMENT_SECONDS;
+    if (next) end = Math.min(end, next.start);
+    if (duration) end = Math.min(end, duration);
+    createSegment(currentTime, Math.max(end, currentTime));
+  }, [work, currentTime, duration, createSegment]);
+
+  const retime = useCallback(
+    (id: string, start: number, end: number, commit: boolean) => {
+      const segments = work.segments.map((s) => (s.id === id ? { ...s, start, end: Math.max(end, start) } : s));
+      setSegments(commit ? sortByStart(segments) : segments, commit);
+    },
+    [work, setSegments]
+  );
+
+  // Splits at the playhead; when the segment's text has the cursor, the text is split there too
+  const splitAtPlayhead = useCallback(() => {
+    const target =
+      (selected && selected.start < currentTime && currentTime < selected.end ? selected : null) ??
+      work.segments.find((s) => s.start < currentTime && currentTime < s.end);
+    if (!target) return;
+    const textarea = textRefs.current.get(target.id);
+    const cursor = textarea && document.activeElement === textarea ? textarea.selectionStart : target.text.length;
+    const second: TranscriptSegment = {
+      ...target,
+      id: newShapeId(),
+      start: currentTime,
+      text: target.text.slice(cursor).trim(),
+    };
+    setSegments(
+      sortByStart([
+        ...work.segments.map((s) => (s.id === target.id ? { ...s, end: currentTime, text: s.text.slice(0, cursor).trim() } : s)),
+        second,
+      ])
+    );
+    setSelectedId(second.id);
+  }, [selected, currentTime, work, setSegments]);
+
+  const mergeWithNext = useCallback(() => {
+    if (!selected) return;
+    const ordered = sortByStart(work.segments);
+    const next = ordered[ordered.findIndex((s) => s.id === selected.id) + 1];
+    if (!next) return;
+    const merged = {
+      ...selected,
+      end: Math.max(selected.end, next.end),
+      text: [selected.text.trim(), next.text.trim()].filter(Boolean).join(" "),
+    };
+    setSegments(work.segments.filter((s) => s.id !== next.id).map((s) => (s.id === selected.id ? merged : s)));
+  }, [selected, work, setSegments]);
+
+  const removeSegment = useCallback(
+    (id: string) => {
+      setSegments(work.segments.filter((s) => s.id !== id));
+      if (selectedId === id) setSelectedId(null);
+    },
+    [work, selectedId, setSegments]
+  );
+
+  /* ===============================
+     SPEAKERS
+  ================================ */
+
+  const colorOf = useCallback(
+    (speaker: string) => {
+      const index = work.speakers.indexOf(speaker);
+      return index < 0 ? UNASSIGNED_COLOR : speakerColors[index % speakerColors.length];
+    },
+    [work.speakers]
+  );
+
+  const addSpeaker = () => {
+    let n = work.speakers.length + 1;
+    while (work.speakers.includes(`Speaker ${n}`)) n++;
+    applyWork({ ...work, speakers: [...work.speakers, `Speaker ${n}`] }, true);
+  };
+
+  // Renaming carries the segments along; an existing name merges the two speakers
+  const renameSpeaker = (from: string, to: string) => {
+    const name = to.trim();
+    if (!name || name === from) return;
+    applyWork(
+      {
+        speakers: Array.from(new Set(work.speakers.map((s) => (s === from ? name : s)))),
+        segments: work.segments.map((s) => (s.speaker === from ? { ...s, speaker: name } : s)),
+      },
+      true
+    );
   };
 
-  const getCurrentSegment = () => {
-    return transcript.find(
-      (seg) => currentTime[0] >= seg.start && currentTime[0] < seg.end
+  const removeSpeaker = (speaker: string) => {
+    applyWork(
+      {
+        speakers: work.speakers.filter((s) => s !== speaker),
+        segments: work.segments.map((s) => (s.speaker === speaker ? { ...s, speaker: "" } : s)),
+      },
+      true
     );
   };
 
-  const currentSegment = getCurrentSegment();
+  /* ===============================
+     IMPORT AND EXPORT
+  ================================ */
+
+  const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const format = formatOfFile(file.name);
+    if (!format) {
+      toast({ title: "Unsupported file", description: "Import .srt, .vtt or .json files.", variant: "destructive" });
+      return;
+    }
+    try {
+      const imported = parseTranscript(format, await file.text());
+      applyWork(
+        {
+          speakers: Array.from(new Set([...work.speakers, ...imported.speakers])),
+          segments: imported.segments.map((s) => ({ ...s, id: newShapeId() })),
+        },
+        true
+      );
+      setSelectedId(null);
+      toast({
+        title: "Transcript imported",
+        description: `${imported.segments.length} segments from ${file.name} replaced the transcript (Ctrl+Z to undo).`,
+      });
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "The file could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportAs = (format: TranscriptFormat) => {
+    if (!task) return;
+    const segments = sortByStart(work.segments);
+    const media = mediaUrl ? { url: mediaUrl, kind: mediaKind, duration } : annotation?.data.media ?? null;
+    const body =
+      format === "srt"
+        ? toSrt(segments)
+        : format === "vtt"
+          ? toVtt(segments)
+          : toTranscriptJson(task, { media, speakers: work.speakers, segments });
+    const { extension, mime } = transcriptFormats.find((f) => f.id === format)!;
+    const blob = new Blob([body], { type: mime });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${task.id}-transcript.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Transport and segment shortcuts work while typing, so they all take a modifier (or Esc)
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const mod = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+
+      if (key === "escape") {
+        event.preventDefault();
+        togglePlay();
+      } else if (mod && key === "enter") {
+        event.preventDefault();
+        playSegment(selected ?? activeSegment);
+      } else if (mod && (key === "[" || key === "]")) {
+        event.preventDefault();
+        seek(currentTime + (key === "]" ? SKIP_SECONDS : -SKIP_SECONDS));
+      } else if (mod && (key === "arrowup" || key === "arrowdown")) {
+        event.preventDefault();
+        stepRate(key === "arrowup" ? 1 : -1);
+      } else if (mod && key === "i") {
+        event.preventDefault();
+        insertAtPlayhead();
+      } else if (mod && key === "b") {
+        event.preventDefault();
+        splitAtPlayhead();
+      } else if (mod && key === "m") {
+        event.preventDefault();
+        mergeWithNext();
+      } else if (mod && key === "s") {
+        event.preventDefault();
+        flush();
+      } else if (event.altKey && /^digit[1-9]$/.test(event.code) && selected) {
+        const speaker = work.speakers[Number(event.code.slice(5)) - 1];
+        if (speaker) {
+          event.preventDefault();
+          updateSegment(selected.id, { speaker });
+        }
+      } else if (mod && !isTyping(event.target) && (key === "z" || key === "y")) {
+        // Inside a text field the browser's own undo applies
+        event.preventDefault();
+        if (key === "y" || event.shiftKey) redo();
+        else undo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [
+    togglePlay,
+    playSegment,
+    selected,
+    activeSegment,
+    seek,
+    currentTime,
+    stepRate,
+    insertAtPlayhead,
+    splitAtPlayhead,
+    mergeWithNext,
+    flush,
+    work.speakers,
+    updateSegment,
+    undo,
+    redo,
+  ]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!(await flush())) throw new Error("Save the transcript before submitting.");
+      await submitAnnotationTask(taskId!);
+    },
+    onSuccess: () => {
+      toast({ title: "Submitted", description: "Task submitted for review." });
+      setLocation(task ? `/annotate/projects/${task.project_id}` : "/nest-annotate");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Submit failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (!taskId) {
+    return (
+      <div className="p-6 flex items-center justify-center h-full">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Open a Transcription Task</h2>
+            <p className="text-muted-foreground mb-4">
+              Transcription works on tasks of an audio or transcription project. Open one from its project page.
+            </p>
+            <Button onClick={() => setLocation("/nest-annotate")} data-testid="button-back">
+              Go to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-10 w-64" />
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Skeleton className="h-[600px] lg:col-span-2" />
+          <Skeleton className="h-96" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !task) {
+    return (
+      <div className="p-6 flex items-center justify-center h-full">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Task Not Found</h2>
+            <p className="text-muted-foreground mb-4">
+              The task you're looking for doesn't exist or you don't have access.
+            </p>
+            <Button onClick={() => setLocation("/nest-annotate")} data-testid="button-back">
+              Back to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const mediaProps = {
+    src: mediaUrl ?? undefined,
+    preload: "auto",
+    onLoadedMetadata: (event: { currentTarget: HTMLMediaElement }) => {
+      const value = event.currentTarget.duration;
+      setDuration(Number.isFinite(value) ? value : 0);
+    },
+    onPlay: () => setPlaying(true),
+    onPause: () => setPlaying(false),
+    onSeeked: (event: { currentTarget: HTMLMediaElement }) => setCurrentTime(event.currentTarget.currentTime),
+    onTimeUpdate: (event: { currentTarget: HTMLMediaElement }) => {
+      if (!playing) setCurrentTime(event.currentTarget.currentTime);
+    },
+  };
+  const segments = sortByStart(work.segments);
 
   return (
     <div className="p-6 space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <div>
-          <h1 className="text-2xl font-bold">Transcription</h1>
-          <p className="text-muted-foreground">
-            Audio transcription with speaker identification
-          </p>
+        <div className="flex items-center gap-4">
+          <Link href={`/annotate/projects/${task.project_id}`}>
+            <Button variant="ghost" size="icon" data-testid="button-back-project">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">{task.metadata.title || "Transcription"}</h1>
+            <p className="text-muted-foreground">{task.project_name}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Badge variant="outline" className="capitalize">
+            {task.status.replace("_", " ")}
+          </Badge>
+          <AutosaveStatus state={saveState} lastSavedAt={lastSavedAt} error={saveError} />
         </div>
-        <WorkflowProgress currentStep={currentStep} />
       </div>
 
+      {saveState === "conflict" && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            This transcript was saved from another session. Your edits are still here: reload to take that version, or keep
+            yours to save over it.
+            <div className="flex shrink-0 gap-2">
+              <Button size="sm" variant="outline" onClick={() => reload()} data-testid="button-reload">
+                Reload
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => overwrite()} data-testid="button-keep-mine">
+                Keep mine
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 space-y-6">
           <Card>
-            <CardHeader>
-              <CardTitle>Audio Source</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <Tabs value={inputType} onValueChange={(v) => setInputType(v as typeof inputType)}>
-                <TabsList className="mb-4">
-                  <TabsTrigger value="url">
-                    <LinkIcon className="h-4 w-4 mr-2" />
-                    URL
-                  </TabsTrigger>
-                  <TabsTrigger value="upload">
-                    <Upload className="h-4 w-4 mr-2" />
-                    Upload
-                  </TabsTrigger>
-                </TabsList>
-                <TabsContent value="url">
-                  <div className="flex gap-2">
-                    <Input
-                      placeholder="https://example.com/audio.mp3"
-                      data-testid="input-audio-url"
-                    />
-                    <Button variant="outline">Load</Button>
-                  </div>
-                </TabsContent>
-                <TabsContent value="upload">
-                  <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
-                    <Mic className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                    <p className="text-sm text-muted-foreground">
-                      Drag & drop audio file or click to upload
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Supports MP3, WAV, M4A
-                    </p>
-                  </div>
-                </TabsContent>
-              </Tabs>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-              <CardTitle>Audio Player</CardTitle>
-              <Badge variant="secondary">
-                <Volume2 className="h-3 w-3 mr-1" />
-                Audio Ready
-              </Badge>
+            <CardHeader className="pb-2">
+              <CardTitle>{mediaKind === "video" ? "Video" : "Audio"}</CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <div className="flex items-center gap-4">
+            <CardContent className="space-y-4">
+              {!mediaUrl && <p className="text-sm text-muted-foreground">This task has no media file.</p>}
+              {mediaUrl && mediaKind === "video" && (
+                <video
+                  ref={mediaRef as RefObject<HTMLVideoElement>}
+                  className="w-full max-h-72 rounded-lg bg-black"
+                  playsInline
+                  {...mediaProps}
+                />
+              )}
+              {mediaUrl && mediaKind === "audio" && <audio ref={mediaRef as RefObject<HTMLAudioElement>} {...mediaProps} />}
+              <AudioWaveform
+                url={mediaUrl}
+                duration={duration}
+                currentTime={currentTime}
+                segments={work.segments}
+                selectedId={selectedId}
+                colorOf={colorOf}
+                onSeek={seek}
+                onSelect={setSelectedId}
+                onRetime={retime}
+                onCreate={createSegment}
+              />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => seek(currentTime - SKIP_SECONDS)} title="Back 2s (Ctrl+[)" data-testid="button-rewind">
+                    <Rewind className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" onClick={togglePlay} title="Play / pause (Esc)" data-testid="button-play-pause">
+                    {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => seek(currentTime + SKIP_SECONDS)} title="Forward 2s (Ctrl+])" data-testid="button-forward">
+                    <FastForward className="h-4 w-4" />
+                  </Button>
+                  <span className="ml-2 font-mono text-sm" data-testid="text-current-time">
+                    {formatClock(currentTime)} / {formatClock(duration)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
                   <Button
-                    size="icon"
-                    onClick={() => setIsPlaying(!isPlaying)}
-                    data-testid="button-play-pause"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => playSegment(selected)}
+                    disabled={!selected}
+                    title="Play selected segment (Ctrl+Enter)"
+                    data-testid="button-play-segment"
                   >
-                    {isPlaying ? (
-                      <Pause className="h-4 w-4" />
-                    ) : (
-                      <Play className="h-4 w-4" />
-                    )}
+                    <PlayCircle className="h-4 w-4 mr-2" />
+                    Play Segment
                   </Button>
-                  <div className="flex-1">
-                    <Slider
-                      value={currentTime}
-                      onValueChange={setCurrentTime}
-                      max={60}
-                      step={1}
-                    />
-                  </div>
-                  <span className="text-sm text-muted-foreground min-w-[60px]">
-                    {formatTime(currentTime[0])} / 1:00
-                  </span>
+                  <Select value={String(playbackRate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+                    <SelectTrigger className="h-8 w-20" title="Speed (Ctrl+↑/↓)" data-testid="select-playback-rate">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {playbackRates.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>
+                          {rate}×
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-                {currentSegment && (
-                  <div className="p-3 rounded-lg bg-primary/5 border border-primary/20">
-                    <div className="flex items-center gap-2 mb-1">
-                      <User className="h-4 w-4 text-primary" />
-                      <span className="font-medium text-sm">{currentSegment.speaker}</span>
-                    </div>
-                    <p className="text-sm">{currentSegment.text}</p>
-                  </div>
-                )}
               </div>
             </CardContent>
           </Card>
@@ -157,87 +695,225 @@ export default function TranscriptionPage() {
           <Card>
             <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
               <CardTitle>Transcript</CardTitle>
-              <Badge>{transcript.length} segments</Badge>
+              <div className="flex items-center gap-2">
+                <Badge>{segments.length} segments</Badge>
+                <Button variant="outline" size="sm" onClick={insertAtPlayhead} title="Ctrl+I" data-testid="button-add-segment">
+                  <Plus className="h-4 w-4 mr-1" />
+                  At Playhead
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
-              <ScrollArea className="h-[400px]">
-                <div className="space-y-3">
-                  {transcript.map((seg) => (
+              {segments.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  Drag on the waveform, press Ctrl+I at the playhead or import a subtitle file to start.
+                </p>
+              ) : (
+                <div className="space-y-3 max-h-[560px] overflow-y-auto pr-1">
+                  {segments.map((segment) => (
                     <div
-                      key={seg.id}
+                      key={segment.id}
+                      ref={(el) => {
+                        if (el) rowRefs.current.set(segment.id, el);
+                        else rowRefs.current.delete(segment.id);
+                      }}
                       className={`p-3 rounded-lg border transition-colors ${
-                        currentSegment?.id === seg.id
+                        segment.id === selectedId
                           ? "border-primary bg-primary/5"
-                          : "border-border hover:bg-muted/50"
+                          : segment.id === activeSegment?.id
+                            ? "border-primary/40"
+                            : "border-border"
                       }`}
-                      data-testid={`transcript-segment-${seg.id}`}
+                      onClick={() => setSelectedId(segment.id)}
+                      data-testid={`transcript-segment-${segment.id}`}
                     >
-                      <div className="flex items-center justify-between mb-2">
-                        <div className="flex items-center gap-2">
-                          <Badge variant="secondary" className="text-xs">
-                            <User className="h-3 w-3 mr-1" />
-                            {seg.speaker}
-                          </Badge>
-                          <span className="text-xs text-muted-foreground">
-                            <Clock className="h-3 w-3 inline mr-1" />
-                            {formatTime(seg.start)} - {formatTime(seg.end)}
-                          </span>
-                        </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6"
-                          onClick={() => setEditingId(editingId === seg.id ? null : seg.id)}
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <div className="h-3 w-3 rounded-full" style={{ backgroundColor: colorOf(segment.speaker) }} />
+                        <Select
+                          value={segment.speaker || "__none"}
+                          onValueChange={(value) => updateSegment(segment.id, { speaker: value === "__none" ? "" : value })}
                         >
-                          <Edit className="h-3 w-3" />
-                        </Button>
+                          <SelectTrigger className="h-7 w-36 text-xs" data-testid={`select-speaker-${segment.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="__none">No speaker</SelectItem>
+                            {work.speakers.map((speaker, i) => (
+                              <SelectItem key={speaker} value={speaker}>
+                                {speaker}
+                                {i < 9 && <span className="ml-2 text-muted-foreground">Alt+{i + 1}</span>}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {(["start", "end"] as const).map((edge) => (
+                          <Input
+                            key={`${segment.id}-${edge}-${segment[edge]}`}
+                            defaultValue={formatClock(segment[edge])}
+                            className="h-7 w-28 font-mono text-xs"
+                            onBlur={(event) => {
+                              const time = parseTimestamp(event.target.value);
+                              if (time === null) {
+                                event.target.value = formatClock(segment[edge]);
+                                return;
+                              }
+                              if (edge === "start") retime(segment.id, time, Math.max(segment.end, time), true);
+                              else retime(segment.id, Math.min(segment.start, time), time, true);
+                            }}
+                            onKeyDown={(event) => {
+                              if (event.key === "Enter") event.currentTarget.blur();
+                            }}
+                            data-testid={`input-${edge}-${segment.id}`}
+                          />
+                        ))}
+                        <div className="ml-auto flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => playSegment(segment)}
+                            title="Play segment"
+                            data-testid={`button-play-${segment.id}`}
+                          >
+                            <PlayCircle className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={mergeWithNext}
+                            disabled={segment.id !== selectedId}
+                            title="Merge with next (Ctrl+M)"
+                            data-testid={`button-merge-${segment.id}`}
+                          >
+                            <Merge className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => removeSegment(segment.id)}
+                            title="Delete segment"
+                            data-testid={`button-delete-${segment.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
                       </div>
-                      {editingId === seg.id ? (
-                        <Textarea
-                          defaultValue={seg.text}
-                          className="min-h-[60px]"
-                          data-testid={`textarea-edit-${seg.id}`}
-                        />
-                      ) : (
-                        <p className="text-sm">{seg.text}</p>
-                      )}
+                      <Textarea
+                        ref={(el) => {
+                          if (el) textRefs.current.set(segment.id, el);
+                          else textRefs.current.delete(segment.id);
+                        }}
+                        value={segment.text}
+                        onChange={(event) => updateSegment(segment.id, { text: event.target.value }, false)}
+                        onFocus={() => setSelectedId(segment.id)}
+                        onBlur={() => editBaseRef.current && applyWork(work, true)}
+                        className="min-h-[60px] text-sm"
+                        data-testid={`textarea-${segment.id}`}
+                      />
                     </div>
                   ))}
                 </div>
-              </ScrollArea>
+              )}
+              <p className="mt-3 text-xs text-muted-foreground">
+                Esc plays or pauses, Ctrl+Enter plays the selected segment, Ctrl+[ / Ctrl+] skip 2s, Ctrl+↑/↓ change speed.
+                Ctrl+I inserts a segment at the playhead, Ctrl+B splits there (at the text cursor too), Ctrl+M merges
+                with the next, Alt+1–9 set the speaker.
+              </p>
             </CardContent>
           </Card>
         </div>
 
         <div className="space-y-6">
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
               <CardTitle>Speakers</CardTitle>
+              <Button variant="outline" size="sm" onClick={addSpeaker} data-testid="button-add-speaker">
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
             </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                {["Speaker 1", "Speaker 2"].map((speaker, i) => (
-                  <div
-                    key={speaker}
-                    className="flex items-center gap-3 p-3 rounded-lg border border-border"
+            <CardContent className="space-y-2">
+              {work.speakers.length === 0 && <p className="text-sm text-muted-foreground">No speakers yet.</p>}
+              {work.speakers.map((speaker) => (
+                <div key={speaker} className="flex items-center gap-2">
+                  <div className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: colorOf(speaker) }} />
+                  <Input
+                    defaultValue={speaker}
+                    className="h-8"
+                    onBlur={(event) => renameSpeaker(speaker, event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter") event.currentTarget.blur();
+                    }}
+                    data-testid={`input-speaker-${speaker}`}
+                  />
+                  <span className="text-xs text-muted-foreground w-8 text-right">
+                    {work.segments.filter((s) => s.speaker === speaker).length}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeSpeaker(speaker)}>
+                    <Trash2 className="h-3 w-3 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Edit</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 gap-2">
+              <Button variant="outline" size="sm" onClick={undo} disabled={past.length === 0} title="Undo (Ctrl+Z)" data-testid="button-undo">
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo
+              </Button>
+              <Button variant="outline" size="sm" onClick={redo} disabled={future.length === 0} title="Redo (Ctrl+Shift+Z)" data-testid="button-redo">
+                <Redo2 className="h-4 w-4 mr-2" />
+                Redo
+              </Button>
+              <Button variant="outline" size="sm" onClick={splitAtPlayhead} title="Split at playhead (Ctrl+B)" data-testid="button-split">
+                <Scissors className="h-4 w-4 mr-2" />
+                Split
+              </Button>
+              <Button variant="outline" size="sm" onClick={mergeWithNext} disabled={!selected} title="Merge with next (Ctrl+M)" data-testid="button-merge">
+                <Merge className="h-4 w-4 mr-2" />
+                Merge
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Import / Export</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".srt,.vtt,.json"
+                className="hidden"
+                onChange={importFile}
+                data-testid="input-import-transcript"
+              />
+              <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()} data-testid="button-import">
+                <Upload className="h-4 w-4 mr-2" />
+                Import SRT, WebVTT or JSON
+              </Button>
+              <div className="grid grid-cols-3 gap-2">
+                {transcriptFormats.map((format) => (
+                  <Button
+                    key={format.id}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportAs(format.id)}
+                    disabled={segments.length === 0}
+                    data-testid={`button-export-${format.id}`}
                   >
-                    <div className={`h-8 w-8 rounded-full flex items-center justify-center ${
-                      i === 0 ? "bg-blue-100 text-blue-600" : "bg-purple-100 text-purple-600"
-                    }`}>
-                      <User className="h-4 w-4" />
-                    </div>
-                    <div className="flex-1">
-                      <Input
-                        defaultValue={speaker}
-                        className="h-8 text-sm"
-                        data-testid={`input-speaker-${i + 1}`}
-                      />
-                    </div>
-                  </div>
+                    <Download className="h-3 w-3 mr-1" />
+                    {format.label}
+                  </Button>
                 ))}
-                <Button variant="outline" className="w-full" size="sm">
-                  Add Speaker
-                </Button>
               </div>
             </CardContent>
           </Card>
@@ -251,8 +927,10 @@ export default function TranscriptionPage() {
                 <Slider
                   value={confidence}
                   onValueChange={setConfidence}
+                  onValueCommit={(value) => persist(work, value[0])}
                   max={100}
                   step={1}
+                  data-testid="slider-confidence"
                 />
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Score</span>
@@ -263,11 +941,22 @@ export default function TranscriptionPage() {
           </Card>
 
           <div className="flex flex-col gap-2">
-            <Button className="w-full" variant="outline">
+            <Button
+              className="w-full"
+              variant="outline"
+              onClick={() => flush()}
+              disabled={saveState === "saving" || saveState === "conflict"}
+              data-testid="button-save-draft"
+            >
               <Save className="h-4 w-4 mr-2" />
-              Save Draft
+              Save Now
             </Button>
-            <Button className="w-full">
+            <Button
+              className="w-full"
+              onClick={() => submitMutation.mutate()}
+              disabled={submitMutation.isPending || saveState === "conflict"}
+              data-testid="button-submit"
+            >
               <CheckCircle2 className="h-4 w-4 mr-2" />
               Submit for Review
             </Button>
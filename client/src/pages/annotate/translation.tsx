@@ -1,10 +1,15 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import { useParams, useLocation, Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Slider } from "@/components/ui/slider";
-import { WorkflowProgress } from "@/components/workflow-progress";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Select,
   SelectContent,
@@ -12,14 +17,41 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { AutosaveStatus } from "@/components/autosave-status";
+import { newShapeId } from "@/components/image-annotation-canvas";
+import { useToast } from "@/hooks/use-toast";
+import { submitAnnotationTask, useTaskAnnotation } from "@/hooks/use-task-annotation";
 import {
+  formatOfFile,
+  parseTmx,
+  parseXliff,
+  splitSentences,
+  toTmx,
+  toXliff,
+  translationFormats,
+  type TranslationFormat,
+} from "@/lib/translation-formats";
+import { checkSegments, qaChecks, type QaCheck, type QaIssue } from "@/lib/translation-qa";
+import {
+  translationSegmentStates,
+  type TranslationAnnotationData,
+  type TranslationSegment,
+  type TranslationSegmentState,
+} from "@shared/schema";
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
   ArrowRight,
+  Check,
+  CheckCircle2,
   Copy,
-  RotateCcw,
+  Download,
+  Merge,
+  Redo2,
   Save,
-  CheckCircle2,
-  Languages,
-  Sparkles,
+  Undo2,
+  Upload,
 } from "lucide-react";
 
 const languages = [
@@ -33,195 +65,654 @@ const languages = [
   { code: "pt", name: "Portuguese" },
 ];
 
+const stateStyles: Record<TranslationSegmentState, string> = {
+  initial: "bg-muted text-muted-foreground",
+  translated: "bg-blue-500/15 text-blue-700 dark:text-blue-300",
+  reviewed: "bg-emerald-500/15 text-emerald-700 dark:text-emerald-300",
+  final: "bg-purple-500/15 text-purple-700 dark:text-purple-300",
+};
+
+const MAX_HISTORY = 100;
+
+type Filter = "all" | "issues" | TranslationSegmentState;
+
+const normalizeSource = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// A task's first load: its source text split into sentences
+const initialWork = (metadata: { source_text?: string; source_language?: string; target_language?: string }) => ({
+  source_language: metadata.source_language ?? "en",
+  target_language: metadata.target_language ?? "es",
+  segments: splitSentences(metadata.source_text ?? "").map(
+    (source): TranslationSegment => ({ id: newShapeId(), source, target: "", state: "initial" })
+  ),
+});
+
 export default function TranslationPage() {
-  const [sourceLanguage, setSourceLanguage] = useState("en");
-  const [targetLanguage, setTargetLanguage] = useState("es");
-  const [sourceText, setSourceText] = useState(
-    "Acme Corporation announced today that its quarterly revenue exceeded expectations, reaching $2.3 billion. The company's CEO, John Smith, attributed the success to strong product demand and strategic market expansion. Shareholders will receive an increased dividend starting next quarter."
+  const { taskId } = useParams<{ taskId?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const {
+    task,
+    annotation,
+    isLoading,
+    error,
+    saveState,
+    saveError,
+    lastSavedAt,
+    scheduleSave,
+    flush,
+    reload,
+    overwrite,
+  } = useTaskAnnotation<TranslationAnnotationData>({ taskId, type: "translation" });
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const targetRefs = useRef(new Map<string, HTMLTextAreaElement>());
+  // Work before the typing in progress, pushed to history when the field is left
+  const editBaseRef = useRef<TranslationAnnotationData | null>(null);
+
+  const [work, setWork] = useState<TranslationAnnotationData | null>(null);
+  const [past, setPast] = useState<TranslationAnnotationData[]>([]);
+  const [future, setFuture] = useState<TranslationAnnotationData[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<Filter>("all");
+  const [confidence, setConfidence] = useState([92]);
+
+  // Start from the stored version whenever one is (re)loaded
+  useEffect(() => {
+    if (!task) return;
+    setWork(annotation ? annotation.data : initialWork(task.metadata));
+    setConfidence([annotation?.confidence_score ?? 92]);
+    setPast([]);
+    setFuture([]);
+    setActiveId(null);
+  }, [annotation, task]);
+
+  const issues = useMemo(() => checkSegments(work?.segments ?? []), [work]);
+  const issuesBySegment = useMemo(() => {
+    const map = new Map<string, QaIssue[]>();
+    issues.forEach((issue) => map.set(issue.segmentId, [...(map.get(issue.segmentId) ?? []), issue]));
+    return map;
+  }, [issues]);
+
+  const persist = useCallback(
+    (next: TranslationAnnotationData, score = confidence[0]) => scheduleSave(next, score),
+    [confidence, scheduleSave]
   );
-  const [translatedText, setTranslatedText] = useState(
-    "Acme Corporation anunció hoy que sus ingresos trimestrales superaron las expectativas, alcanzando $2.3 mil millones. El CEO de la empresa, John Smith, atribuyó el éxito a la fuerte demanda de productos y la expansión estratégica del mercado. Los accionistas recibirán un dividendo aumentado a partir del próximo trimestre."
+
+  // Every change is saved; only finished edits become undo steps
+  const applyWork = useCallback(
+    (next: TranslationAnnotationData, commit: boolean) => {
+      if (!work) return;
+      if (!commit) {
+        if (!editBaseRef.current) editBaseRef.current = work;
+      } else {
+        const base = editBaseRef.current ?? work;
+        editBaseRef.current = null;
+        if (base !== next) {
+          setPast((p) => [...p.slice(-(MAX_HISTORY - 1)), base]);
+          setFuture([]);
+        }
+      }
+      setWork(next);
+      persist(next);
+    },
+    [work, persist]
   );
-  const [confidence, setConfidence] = useState([92]);
-  const [currentStep, setCurrentStep] = useState("confidence");
-
-  const swapLanguages = () => {
-    const temp = sourceLanguage;
-    setSourceLanguage(targetLanguage);
-    setTargetLanguage(temp);
-    const tempText = sourceText;
-    setSourceText(translatedText);
-    setTranslatedText(tempText);
+
+  const undo = useCallback(() => {
+    if (!work || past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture([work, ...future]);
+    setWork(previous);
+    persist(previous);
+  }, [past, future, work, persist]);
+
+  const redo = useCallback(() => {
+    if (!work || future.length === 0) return;
+    const [next, ...rest] = future;
+    setFuture(rest);
+    setPast([...past, work]);
+    setWork(next);
+    persist(next);
+  }, [past, future, work, persist]);
+
+  const updateSegment = useCallback(
+    (id: string, changes: Partial<TranslationSegment>, commit = true) => {
+      if (!work) return;
+      applyWork({ ...work, segments: work.segments.map((s) => (s.id === id ? { ...s, ...changes } : s)) }, commit);
+    },
+    [work, applyWork]
+  );
+
+  const focusSegment = useCallback((id: string | undefined) => {
+    if (!id) return;
+    setActiveId(id);
+    const textarea = targetRefs.current.get(id);
+    textarea?.focus();
+    textarea?.scrollIntoView({ block: "nearest" });
+  }, []);
+
+  const visibleSegments = useMemo(() => {
+    const segments = work?.segments ?? [];
+    if (filter === "all") return segments;
+    if (filter === "issues") return segments.filter((s) => issuesBySegment.has(s.id));
+    return segments.filter((s) => s.state === filter);
+  }, [work, filter, issuesBySegment]);
+
+  const moveFocus = useCallback(
+    (direction: 1 | -1) => {
+      const index = visibleSegments.findIndex((s) => s.id === activeId);
+      focusSegment(visibleSegments[index + direction]?.id ?? (index < 0 ? visibleSegments[0]?.id : undefined));
+    },
+    [visibleSegments, activeId, focusSegment]
+  );
+
+  // Confirms the active segment and moves on to the next one still to translate
+  const confirmAndNext = useCallback(() => {
+    if (!work || !activeId) return;
+    const segment = work.segments.find((s) => s.id === activeId);
+    if (!segment || !segment.target.trim()) return;
+    if (segment.state === "initial") updateSegment(segment.id, { state: "translated" });
+    const index = work.segments.findIndex((s) => s.id === activeId);
+    const next = work.segments.slice(index + 1).find((s) => s.state === "initial") ?? work.segments[index + 1];
+    focusSegment(next?.id);
+  }, [work, activeId, updateSegment, focusSegment]);
+
+  const copySource = useCallback(
+    (id: string | null) => {
+      const segment = work?.segments.find((s) => s.id === id);
+      if (segment) updateSegment(segment.id, { target: segment.source });
+    },
+    [work, updateSegment]
+  );
+
+  const mergeWithNext = (id: string) => {
+    if (!work) return;
+    const index = work.segments.findIndex((s) => s.id === id);
+    const next = work.segments[index + 1];
+    if (!next) return;
+    const joined = (a: string, b: string) => [a.trim(), b.trim()].filter(Boolean).join(" ");
+    const merged: TranslationSegment = {
+      ...work.segments[index],
+      source: joined(work.segments[index].source, next.source),
+      target: joined(work.segments[index].target, next.target),
+      state: "initial",
+    };
+    applyWork(
+      { ...work, segments: work.segments.filter((s) => s.id !== next.id).map((s) => (s.id === id ? merged : s)) },
+      true
+    );
+  };
+
+  const editTarget = (segment: TranslationSegment, target: string) => {
+    // Changing a checked translation sends it back for review
+    const state = segment.state === "reviewed" || segment.state === "final" ? "translated" : segment.state;
+    updateSegment(segment.id, { target, state }, false);
   };
 
+  /* ===============================
+     IMPORT AND EXPORT
+  ================================ */
+
+  const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !work) return;
+    const format = formatOfFile(file.name);
+    if (!format) {
+      toast({ title: "Unsupported file", description: "Import .xlf, .xliff or .tmx files.", variant: "destructive" });
+      return;
+    }
+    try {
+      const text = await file.text();
+      if (format === "xliff") {
+        const imported = parseXliff(text);
+        applyWork(
+          {
+            source_language: imported.source_language ?? work.source_language,
+            target_language: imported.target_language ?? work.target_language,
+            segments: imported.segments.map((s) => ({ ...s, id: s.id ?? newShapeId() })),
+          },
+          true
+        );
+        toast({
+          title: "XLIFF imported",
+          description: `${imported.segments.length} segments from ${file.name} replaced the task's segments (Ctrl+Z to undo).`,
+        });
+        return;
+      }
+
+      // TMX is a memory: it fills empty targets whose source matches, or seeds an empty task
+      const memory = parseTmx(text, { source: work.source_language, target: work.target_language });
+      if (work.segments.length === 0) {
+        applyWork(
+          {
+            ...work,
+            target_language: memory.target_language ?? work.target_language,
+            segments: memory.segments.map((s) => ({ ...s, id: newShapeId() })),
+          },
+          true
+        );
+        toast({ title: "TMX imported", description: `${memory.segments.length} segments created.` });
+        return;
+      }
+      const translations = new Map(
+        memory.segments.filter((s) => s.target).map((s) => [normalizeSource(s.source), s.target] as const)
+      );
+      let filled = 0;
+      const segments = work.segments.map((s) => {
+        const target = translations.get(normalizeSource(s.source));
+        if (!target || s.target.trim()) return s;
+        filled++;
+        return { ...s, target, state: "translated" as const };
+      });
+      if (filled > 0) applyWork({ ...work, segments }, true);
+      toast({
+        title: "TMX applied",
+        description: `${filled} empty segments filled from ${memory.segments.length} memory entries.`,
+      });
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "The file could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportAs = (format: TranslationFormat) => {
+    if (!task || !work) return;
+    const body = format === "xliff" ? toXliff(task, work) : toTmx(work);
+    const { extension, mime } = translationFormats.find((f) => f.id === format)!;
+    const blob = new Blob([body], { type: mime });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${task.id}.${work.source_language}-${work.target_language}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const mod = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+      if (!mod) return;
+
+      if (key === "enter") {
+        event.preventDefault();
+        confirmAndNext();
+      } else if (key === "arrowdown" || key === "arrowup") {
+        event.preventDefault();
+        moveFocus(key === "arrowdown" ? 1 : -1);
+      } else if (key === "insert") {
+        event.preventDefault();
+        copySource(activeId);
+      } else if (key === "s") {
+        event.preventDefault();
+        flush();
+      } else if (!isTyping(event.target) && (key === "z" || key === "y")) {
+        // Inside a text field the browser's own undo applies
+        event.preventDefault();
+        if (key === "y" || event.shiftKey) redo();
+        else undo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [confirmAndNext, moveFocus, copySource, activeId, flush, undo, redo]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!(await flush())) throw new Error("Save the translation before submitting.");
+      await submitAnnotationTask(taskId!);
+    },
+    onSuccess: () => {
+      toast({ title: "Submitted", description: "Task submitted for review." });
+      setLocation(task ? `/annotate/projects/${task.project_id}` : "/nest-annotate");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Submit failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (!taskId) {
+    return (
+      <div className="p-6 flex items-center justify-center h-full">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Open a Translation Task</h2>
+            <p className="text-muted-foreground mb-4">
+              Translation works on tasks of a translation project. Open one from its project page.
+            </p>
+            <Button onClick={() => setLocation("/nest-annotate")} data-testid="button-back">
+              Go to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || (task && !work)) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-10 w-64" />
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Skeleton className="h-[600px] lg:col-span-3" />
+          <Skeleton className="h-96" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !task || !work) {
+    return (
+      <div className="p-6 flex items-center justify-center h-full">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Task Not Found</h2>
+            <p className="text-muted-foreground mb-4">
+              The task you're looking for doesn't exist or you don't have access.
+            </p>
+            <Button onClick={() => setLocation("/nest-annotate")} data-testid="button-back">
+              Back to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const done = work.segments.filter((s) => s.state !== "initial").length;
+  const issueCount = (check: QaCheck) => issues.filter((issue) => issue.check === check).length;
+  const languageOptions = (current: string) =>
+    languages.some((lang) => lang.code === current) ? languages : [...languages, { code: current, name: current }];
+
+  const languageSelect = (field: "source_language" | "target_language") => (
+    <Select value={work[field]} onValueChange={(value) => applyWork({ ...work, [field]: value }, true)}>
+      <SelectTrigger className="w-[140px]" data-testid={`select-${field.replace("_", "-")}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {languageOptions(work[field]).map((lang) => (
+          <SelectItem key={lang.code} value={lang.code}>
+            {lang.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <div>
-          <h1 className="text-2xl font-bold">Translation</h1>
-          <p className="text-muted-foreground">
-            Document and content translation with quality review
-          </p>
+        <div className="flex items-center gap-4">
+          <Link href={`/annotate/projects/${task.project_id}`}>
+            <Button variant="ghost" size="icon" data-testid="button-back-project">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">{task.metadata.title || "Translation"}</h1>
+            <p className="text-muted-foreground">{task.project_name}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Badge variant="outline" className="capitalize">
+            {task.status.replace("_", " ")}
+          </Badge>
+          <AutosaveStatus state={saveState} lastSavedAt={lastSavedAt} error={saveError} />
         </div>
-        <WorkflowProgress currentStep={currentStep} />
       </div>
 
+      {saveState === "conflict" && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            This translation was saved from another session. Your edits are still here: reload to take that version, or keep
+            yours to save over it.
+            <div className="flex shrink-0 gap-2">
+              <Button size="sm" variant="outline" onClick={() => reload()} data-testid="button-reload">
+                Reload
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => overwrite()} data-testid="button-keep-mine">
+                Keep mine
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-        <div className="lg:col-span-3 space-y-6">
+        <div className="lg:col-span-3">
           <Card>
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
-              <CardTitle className="flex items-center gap-2">
-                <Languages className="h-5 w-5" />
-                Translation Editor
-              </CardTitle>
-              <div className="flex items-center gap-2">
-                <Select value={sourceLanguage} onValueChange={setSourceLanguage}>
-                  <SelectTrigger className="w-[140px]" data-testid="select-source-language">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {languages.map((lang) => (
-                      <SelectItem key={lang.code} value={lang.code}>
-                        {lang.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={swapLanguages}
-                  data-testid="button-swap-languages"
-                >
-                  <RotateCcw className="h-4 w-4" />
-                </Button>
-                <ArrowRight className="h-4 w-4 text-muted-foreground" />
-                <Select value={targetLanguage} onValueChange={setTargetLanguage}>
-                  <SelectTrigger className="w-[140px]" data-testid="select-target-language">
+            <CardHeader className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  {languageSelect("source_language")}
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  {languageSelect("target_language")}
+                </div>
+                <Select value={filter} onValueChange={(value) => setFilter(value as Filter)}>
+                  <SelectTrigger className="w-[180px]" data-testid="select-filter">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {languages.map((lang) => (
-                      <SelectItem key={lang.code} value={lang.code}>
-                        {lang.name}
+                    <SelectItem value="all">All segments</SelectItem>
+                    <SelectItem value="issues">With QA issues</SelectItem>
+                    {translationSegmentStates.map((state) => (
+                      <SelectItem key={state} value={state} className="capitalize">
+                        {state}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
+              <div className="flex items-center gap-3">
+                <Progress value={work.segments.length ? (done / work.segments.length) * 100 : 0} className="h-2" />
+                <span className="text-sm text-muted-foreground whitespace-nowrap" data-testid="text-progress">
+                  {done} / {work.segments.length} translated
+                </span>
+              </div>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <label className="text-sm font-medium">
-                      Source ({languages.find((l) => l.code === sourceLanguage)?.name})
-                    </label>
-                    <span className="text-xs text-muted-foreground">
-                      {sourceText.split(" ").length} words
-                    </span>
-                  </div>
-                  <Textarea
-                    value={sourceText}
-                    onChange={(e) => setSourceText(e.target.value)}
-                    className="min-h-[300px] resize-none"
-                    placeholder="Enter source text..."
-                    data-testid="textarea-source"
-                  />
+              {work.segments.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  This task has no source text. Import an XLIFF or TMX file to start.
+                </p>
+              ) : (
+                <div className="divide-y divide-border border rounded-lg">
+                  {visibleSegments.map((segment) => {
+                    const number = work.segments.indexOf(segment) + 1;
+                    const segmentIssues = issuesBySegment.get(segment.id) ?? [];
+                    return (
+                      <div
+                        key={segment.id}
+                        className={`grid grid-cols-[2.5rem_1fr_1fr] gap-3 p-3 ${segment.id === activeId ? "bg-primary/5" : ""}`}
+                        data-testid={`segment-${segment.id}`}
+                      >
+                        <div className="pt-1 text-xs text-muted-foreground text-right">{number}</div>
+                        <p className="text-sm leading-relaxed pt-1" lang={work.source_language}>
+                          {segment.source}
+                        </p>
+                        <div className="space-y-2">
+                          <Textarea
+                            ref={(el) => {
+                              if (el) targetRefs.current.set(segment.id, el);
+                              else targetRefs.current.delete(segment.id);
+                            }}
+                            value={segment.target}
+                            lang={work.target_language}
+                            onChange={(event) => editTarget(segment, event.target.value)}
+                            onFocus={() => setActiveId(segment.id)}
+                            onBlur={() => editBaseRef.current && applyWork(work, true)}
+                            className="min-h-[72px] text-sm"
+                            data-testid={`textarea-target-${segment.id}`}
+                          />
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Select
+                              value={segment.state}
+                              onValueChange={(value) => updateSegment(segment.id, { state: value as TranslationSegmentState })}
+                            >
+                              <SelectTrigger
+                                className={`h-7 w-32 text-xs capitalize border-0 ${stateStyles[segment.state]}`}
+                                data-testid={`select-state-${segment.id}`}
+                              >
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {translationSegmentStates.map((state) => (
+                                  <SelectItem key={state} value={state} className="capitalize">
+                                    {state}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => copySource(segment.id)}
+                              title="Copy source to target (Ctrl+Insert)"
+                              data-testid={`button-copy-source-${segment.id}`}
+                            >
+                              <Copy className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => mergeWithNext(segment.id)}
+                              disabled={number === work.segments.length}
+                              title="Merge with the next segment"
+                              data-testid={`button-merge-${segment.id}`}
+                            >
+                              <Merge className="h-3 w-3" />
+                            </Button>
+                            {segmentIssues.length === 0 && segment.target.trim() && (
+                              <span className="flex items-center gap-1 text-xs text-emerald-600">
+                                <Check className="h-3 w-3" />
+                                QA passed
+                              </span>
+                            )}
+                          </div>
+                          {segmentIssues
+                            .filter((issue) => issue.check !== "untranslated" || segment.target.trim())
+                            .map((issue) => (
+                              <p
+                                key={issue.check}
+                                className={`flex items-start gap-1 text-xs ${
+                                  issue.severity === "error" ? "text-destructive" : "text-amber-600"
+                                }`}
+                              >
+                                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                {issue.message}
+                              </p>
+                            ))}
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <label className="text-sm font-medium">
-                      Translation ({languages.find((l) => l.code === targetLanguage)?.name})
-                    </label>
-                    <Button variant="ghost" size="sm" className="h-6">
-                      <Copy className="h-3 w-3 mr-1" />
-                      Copy
-                    </Button>
-                  </div>
-                  <Textarea
-                    value={translatedText}
-                    onChange={(e) => setTranslatedText(e.target.value)}
-                    className="min-h-[300px] resize-none"
-                    placeholder="Translation will appear here..."
-                    data-testid="textarea-translation"
-                  />
-                </div>
-              </div>
-              <div className="mt-4 flex items-center justify-between">
-                <Button variant="outline" data-testid="button-auto-translate">
-                  <Sparkles className="h-4 w-4 mr-2" />
-                  Auto-Translate
-                </Button>
-                <div className="text-sm text-muted-foreground">
-                  Character count: {translatedText.length}
-                </div>
-              </div>
+              )}
+              <p className="mt-3 text-xs text-muted-foreground">
+                Ctrl+Enter confirms a segment and moves to the next untranslated one, Ctrl+↑/↓ move between
+                segments, Ctrl+Insert copies the source.
+              </p>
             </CardContent>
           </Card>
+        </div>
 
+        <div className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Quality Indicators</CardTitle>
+              <CardTitle>QA Checks</CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                {[
-                  { label: "Accuracy", value: 94, color: "text-emerald-600" },
-                  { label: "Fluency", value: 91, color: "text-blue-600" },
-                  { label: "Terminology", value: 88, color: "text-purple-600" },
-                  { label: "Style Match", value: 85, color: "text-amber-600" },
-                ].map((metric) => (
-                  <div
-                    key={metric.label}
-                    className="p-4 rounded-lg border border-border text-center"
-                  >
-                    <p className={`text-2xl font-bold ${metric.color}`}>
-                      {metric.value}%
-                    </p>
-                    <p className="text-sm text-muted-foreground">{metric.label}</p>
+            <CardContent className="space-y-2">
+              {qaChecks.map((check) => {
+                const count = issueCount(check.id);
+                return (
+                  <div key={check.id} className="flex items-center justify-between text-sm" data-testid={`qa-${check.id}`}>
+                    <span>{check.label}</span>
+                    <Badge variant={count > 0 ? "destructive" : "secondary"}>{count}</Badge>
                   </div>
-                ))}
-              </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full mt-2"
+                onClick={() => {
+                  setFilter("issues");
+                  focusSegment(issues[0]?.segmentId);
+                }}
+                disabled={issues.length === 0}
+                data-testid="button-show-issues"
+              >
+                Show Segments with Issues
+              </Button>
             </CardContent>
           </Card>
-        </div>
 
-        <div className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Translation Notes</CardTitle>
+              <CardTitle>Edit</CardTitle>
             </CardHeader>
-            <CardContent>
-              <Textarea
-                placeholder="Add notes about translation choices, terminology decisions..."
-                className="min-h-[120px]"
-                data-testid="textarea-notes"
-              />
+            <CardContent className="grid grid-cols-2 gap-2">
+              <Button variant="outline" size="sm" onClick={undo} disabled={past.length === 0} title="Undo (Ctrl+Z)" data-testid="button-undo">
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo
+              </Button>
+              <Button variant="outline" size="sm" onClick={redo} disabled={future.length === 0} title="Redo (Ctrl+Shift+Z)" data-testid="button-redo">
+                <Redo2 className="h-4 w-4 mr-2" />
+                Redo
+              </Button>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader>
-              <CardTitle>Glossary Terms</CardTitle>
+              <CardTitle>Import / Export</CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                {[
-                  { source: "revenue", target: "ingresos" },
-                  { source: "shareholders", target: "accionistas" },
-                  { source: "dividend", target: "dividendo" },
-                ].map((term, i) => (
-                  <div
-                    key={i}
-                    className="flex items-center gap-2 p-2 rounded border border-border text-sm"
+            <CardContent className="space-y-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlf,.xliff,.tmx"
+                className="hidden"
+                onChange={importFile}
+                data-testid="input-import-translation"
+              />
+              <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()} data-testid="button-import">
+                <Upload className="h-4 w-4 mr-2" />
+                Import XLIFF or TMX
+              </Button>
+              <div className="grid grid-cols-2 gap-2">
+                {translationFormats.map((format) => (
+                  <Button
+                    key={format.id}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportAs(format.id)}
+                    disabled={work.segments.length === 0}
+                    data-testid={`button-export-${format.id}`}
                   >
-                    <span className="font-medium">{term.source}</span>
-                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
-                    <span className="text-muted-foreground">{term.target}</span>
-                  </div>
+                    <Download className="h-3 w-3 mr-1" />
+                    {format.label}
+                  </Button>
                 ))}
               </div>
+              <p className="text-xs text-muted-foreground">
+                XLIFF replaces the segments; TMX fills empty targets whose source matches.
+              </p>
             </CardContent>
           </Card>
 
@@ -234,8 +725,10 @@ export default function TranslationPage() {
                 <Slider
                   value={confidence}
                   onValueChange={setConfidence}
+                  onValueCommit={(value) => persist(work, value[0])}
                   max={100}
                   step={1}
+                  data-testid="slider-confidence"
                 />
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Score</span>
@@ -246,11 +739,22 @@ export default function TranslationPage() {
           </Card>
 
           <div className="flex flex-col gap-2">
-            <Button className="w-full" variant="outline">
+            <Button
+              className="w-full"
+              variant="outline"
+              onClick={() => flush()}
+              disabled={saveState === "saving" || saveState === "conflict"}
+              data-testid="button-save-draft"
+            >
               <Save className="h-4 w-4 mr-2" />
-              Save Draft
+              Save Now
             </Button>
-            <Button className="w-full">
+            <Button
+              className="w-full"
+              onClick={() => submitMutation.mutate()}
+              disabled={submitMutation.isPending || saveState === "conflict"}
+              data-testid="button-submit"
+            >
               <CheckCircle2 className="h-4 w-4 mr-2" />
               Submit for Review
             </Button>
@@ -1,209 +1,868 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useLocation, Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Slider } from "@/components/ui/slider";
-import { WorkflowProgress } from "@/components/workflow-progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
-  Play,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AutosaveStatus } from "@/components/autosave-status";
+import { LabelAttributesForm } from "@/components/label-attributes-form";
+import { LabelIssuesAlert } from "@/components/label-issues-alert";
+import { newShapeId } from "@/components/image-annotation-canvas";
+import { VideoAnnotationPlayer, type VideoTool } from "@/components/video-annotation-player";
+import { useLabelSchema } from "@/hooks/use-label-schema";
+import { useToast } from "@/hooks/use-toast";
+import { submitAnnotationTask, useTaskAnnotation } from "@/hooks/use-task-annotation";
+import {
+  DEFAULT_FRAME_RATE,
+  boxAt,
+  buildTimeline,
+  formatTimecode,
+  frameCountOf,
+  frameRates,
+  mergeWithNext,
+  removeKeyframe,
+  rescaleFrames,
+  seekTimeOf,
+  segmentAt,
+  setKeyframe,
+  sortSegments,
+  splitSegment,
+} from "@/lib/video-timeline";
+import {
+  labelIssuesOf,
+  type LabelAttributeValues,
+  type VideoAnnotationData,
+  type VideoSegment,
+  type VideoTrack,
+} from "@shared/schema";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  MousePointer,
   Pause,
-  SkipBack,
-  SkipForward,
+  Play,
+  Redo2,
+  Save,
   Square,
-  Tag,
   Trash2,
-  Save,
-  CheckCircle2,
-  Video,
-  Clock,
+  Undo2,
 } from "lucide-react";
 
+const MAX_HISTORY = 100;
+const playbackRates = [0.25, 0.5, 1, 1.5, 2];
+
+type Work = Pick<VideoAnnotationData, "segments" | "tracks">;
+type Selection = { kind: "segment" | "track"; id: string } | null;
+
+const emptyWork: Work = { segments: [], tracks: [] };
+
+
 export default function VideoLabelPage() {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState([0]);
-  const [confidence, setConfidence] = useState([82]);
-  const [currentStep, setCurrentStep] = useState("relevancy");
-  const [segments, setSegments] = useState([
-    { id: 1, start: 0, end: 15, label: "Introduction", color: "bg-blue-500" },
-    { id: 2, start: 15, end: 45, label: "Product Demo", color: "bg-purple-500" },
-    { id: 3, start: 45, end: 60, label: "Q&A", color: "bg-emerald-500" },
-  ]);
+  const { taskId } = useParams<{ taskId?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const {
+    task,
+    annotation,
+    isLoading,
+    error,
+    saveState,
+    saveError,
+    lastSavedAt,
+    scheduleSave,
+    flush,
+    reload,
+    overwrite,
+  } = useTaskAnnotation<VideoAnnotationData>({ taskId, type: "video" });
+  const { labelSchema, options: labelOptions, colorOf, nameOf, optionOfHotkey, attributesOf } = useLabelSchema(
+    task?.project_id
+  );
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [work, setWork] = useState<Work>(emptyWork);
+  const [past, setPast] = useState<Work[]>([]);
+  const [future, setFuture] = useState<Work[]>([]);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [tool, setTool] = useState<VideoTool>("select");
+  const [activeLabel, setActiveLabel] = useState("");
+  const [confidence, setConfidence] = useState([85]);
+  const [frameRate, setFrameRate] = useState(DEFAULT_FRAME_RATE);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [markIn, setMarkIn] = useState<number | null>(null);
+  const [meta, setMeta] = useState<{ duration: number; width: number; height: number } | null>(null);
+  // Work before the drag in progress, pushed to history when it ends
+  const dragBaseRef = useRef<Work | null>(null);
+
+  const videoUrl = task?.metadata.input_url ?? null;
+  const duration = meta?.duration ?? annotation?.data.video?.duration ?? 0;
+  const frameCount = frameCountOf(Number.isFinite(duration) ? duration : 0, frameRate);
+  const lastFrame = frameCount - 1;
+  const selectedSegmentId = selection?.kind === "segment" ? selection.id : null;
+  const selectedTrackId = selection?.kind === "track" ? selection.id : null;
+  const selectedTrack = work.tracks.find((track) => track.id === selectedTrackId) ?? null;
+  const selectedItem: VideoSegment | VideoTrack | null =
+    work.segments.find((segment) => segment.id === selectedSegmentId) ?? selectedTrack;
+  const labelIssues = useMemo(
+    () => (labelSchema ? labelIssuesOf(labelSchema.schema, [...work.segments, ...work.tracks]) : []),
+    [labelSchema, work]
+  );
+
+  // New segments and boxes take the first class until another is chosen
+  useEffect(() => {
+    if (!labelOptions.some((option) => option.id === activeLabel)) setActiveLabel(labelOptions[0]?.id ?? "");
+  }, [labelOptions, activeLabel]);
+
+  // Start from the stored version whenever one is (re)loaded
+  useEffect(() => {
+    setWork(annotation ? { segments: annotation.data.segments, tracks: annotation.data.tracks } : emptyWork);
+    setFrameRate(annotation?.data.video?.frame_rate ?? DEFAULT_FRAME_RATE);
+    setConfidence([annotation?.confidence_score ?? 85]);
+    setPast([]);
+    setFuture([]);
+    setSelection(null);
+    setMarkIn(null);
+  }, [annotation]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.playbackRate = playbackRate;
+  }, [playbackRate, meta]);
+
+  const persist = useCallback(
+    (next: Work, score = confidence[0], rate = frameRate) => {
+      const stored = annotation?.data.video ?? null;
+      const video =
+        meta && videoUrl && Number.isFinite(meta.duration)
+          ? { url: videoUrl, frame_rate: rate, ...meta }
+          : stored && { ...stored, frame_rate: rate };
+      scheduleSave({ video, ...next }, score);
+    },
+    [confidence, frameRate, annotation, meta, videoUrl, scheduleSave]
+  );
+
+  const applyWork = useCallback(
+    (next: Work, commit: boolean) => {
+      if (!commit) {
+        if (!dragBaseRef.current) dragBaseRef.current = work;
+        setWork(next);
+        return;
+      }
+      const base = dragBaseRef.current ?? work;
+      dragBaseRef.current = null;
+      setPast((p) => [...p.slice(-(MAX_HISTORY - 1)), base]);
+      setFuture([]);
+      setWork(next);
+      persist(next);
+    },
+    [work, persist]
+  );
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture([work, ...future]);
+    setWork(previous);
+    persist(previous);
+  }, [past, future, work, persist]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    const [next, ...rest] = future;
+    setFuture(rest);
+    setPast([...past, work]);
+    setWork(next);
+    persist(next);
+  }, [past, future, work, persist]);
+
+  const seek = useCallback(
+    (target: number) => {
+      const next = Math.min(Math.max(Math.round(target), 0), lastFrame);
+      setFrame(next);
+      const video = videoRef.current;
+      if (video) {
+        video.pause();
+        video.currentTime = seekTimeOf(next, frameRate);
+      }
+    },
+    [lastFrame, frameRate]
+  );
+
+  const togglePlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(() => undefined);
+    else video.pause();
+  }, []);
+
+  const setSegments = useCallback(
+    (segments: VideoSegment[]) => applyWork({ ...work, segments }, true),
+    [work, applyWork]
+  );
+
+  const setTracks = useCallback(
+    (tracks: VideoTrack[], commit: boolean) => applyWork({ ...work, tracks }, commit),
+    [work, applyWork]
+  );
+
+  // I then O: the segment covers both marked frames
+  const markOut = useCallback(() => {
+    if (markIn === null) {
+      toast({ title: "No in-point", description: "Press I at the first frame of the segment." });
+      return;
+    }
+    if (!activeLabel) {
+      toast({ title: "No label", description: "The project's label schema has no classes yet." });
+      return;
+    }
+    const segment: VideoSegment = {
+      id: newShapeId(),
+      label: activeLabel,
+      start_frame: Math.min(markIn, frame),
+      end_frame: Math.max(markIn, frame) + 1,
+    };
+    setSegments([...work.segments, segment]);
+    setSelection({ kind: "segment", id: segment.id });
+    setMarkIn(null);
+  }, [markIn, frame, activeLabel, work, setSegments, toast]);
+
+  const split = useCallback(() => {
+    const segment = segmentAt(work.segments, frame, selectedSegmentId);
+    const next = segment && splitSegment(work.segments, segment.id, frame, newShapeId());
+    if (next) setSegments(next);
+  }, [work, frame, selectedSegmentId, setSegments]);
+
+  const merge = useCallback(() => {
+    const next = selectedSegmentId && mergeWithNext(work.segments, selectedSegmentId);
+    if (next) setSegments(next);
+  }, [work, selectedSegmentId, setSegments]);
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  // Pins the selected track's current (possibly interpolated) box as a keyframe
+  const addKeyframe = useCallback(() => {
+    const box = selectedTrack && boxAt(selectedTrack, frame);
+    if (!selectedTrack || !box) return;
+    const keyframe = { frame, x: box.x, y: box.y, width: box.width, height: box.height };
+    setTracks(work.tracks.map((t) => (t.id === selectedTrack.id ? setKeyframe(t, keyframe) : t)), true);
+  }, [selectedTrack, frame, work, setTracks]);
+
+  const deleteKeyframe = useCallback(() => {
+    const next = selectedTrack && removeKeyframe(selectedTrack, frame);
+    if (!next) return;
+    setTracks(work.tracks.map((t) => (t.id === next.id ? next : t)), true);
+  }, [selectedTrack, frame, work, setTracks]);
+
+  const jumpToKeyframe = useCallback(
+    (direction: 1 | -1) => {
+      if (!selectedTrack) return;
+      const frames = selectedTrack.keyframes.map((k) => k.frame);
+      const target = direction > 0 ? frames.find((f) => f > frame) : frames.reverse().find((f) => f < frame);
+      if (target !== undefined) seek(target);
+    },
+    [selectedTrack, frame, seek]
+  );
+
+  const removeSelected = useCallback(() => {
+    if (!selection) return;
+    applyWork(
+      {
+        segments: work.segments.filter((s) => s.id !== selection.id),
+        tracks: work.tracks.filter((t) => t.id !== selection.id),
+      },
+      true
+    );
+    setSelection(null);
+  }, [selection, work, applyWork]);
+
+  const chooseLabel = useCallback(
+    (label: string) => {
+      setActiveLabel(label);
+      if (!selection) return;
+      applyWork(
+        {
+          segments: work.segments.map((s) => (s.id === selection.id ? { ...s, label } : s)),
+          tracks: work.tracks.map((t) => (t.id === selection.id ? { ...t, label } : t)),
+        },
+        true
+      );
+    },
+    [selection, work, applyWork]
+  );
+
+  const setAttributes = useCallback(
+    (id: string, attributes: LabelAttributeValues, commit: boolean) => {
+      applyWork(
+        {
+          segments: work.segments.map((s) => (s.id === id ? { ...s, attributes } : s)),
+          tracks: work.tracks.map((t) => (t.id === id ? { ...t, attributes } : t)),
+        },
+        commit
+      );
+    },
+    [work, applyWork]
+  );
+
+  // Frame positions keep their time when the frame rate is corrected
+  const changeFrameRate = (value: string) => {
+    const rate = Number(value);
+    if (rate === frameRate) return;
+    const next = rescaleFrames(work, frameRate, rate);
+    setPast((p) => [...p.slice(-(MAX_HISTORY - 1)), work]);
+    setFuture([]);
+    setWork(next);
+    setFrameRate(rate);
+    setFrame((f) => Math.round((f / frameRate) * rate));
+    persist(next, confidence[0], rate);
   };
 
+  const exportTimeline = () => {
+    if (!task) return;
+    const video = meta && videoUrl ? { url: videoUrl, frame_rate: frameRate, ...meta } : annotation?.data.video ?? null;
+    const timeline = buildTimeline(task, { video, ...work });
+    const blob = new Blob([JSON.stringify(timeline, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${task.id}-timeline.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      // Sliders and buttons keep their own arrow and space handling
+      if (target && target.getAttribute("role") === "slider") return;
+      const mod = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+
+      if (mod && key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) redo();
+        else undo();
+      } else if (mod && key === "y") {
+        event.preventDefault();
+        redo();
+      } else if (mod && key === "s") {
+        event.preventDefault();
+        flush();
+      } else if (mod) {
+        return;
+      } else if (event.code === "Space") {
+        event.preventDefault();
+        togglePlay();
+      } else if (key === "arrowleft" || key === "arrowright") {
+        event.preventDefault();
+        const step = event.shiftKey ? Math.round(frameRate) : 1;
+        seek(frame + (key === "arrowleft" ? -step : step));
+      } else if (key === "home") {
+        seek(0);
+      } else if (key === "end") {
+        seek(lastFrame);
+      } else if (key === "i") {
+        setMarkIn(frame);
+      } else if (key === "o") {
+        markOut();
+      } else if (key === "s") {
+        split();
+      } else if (key === "m") {
+        merge();
+      } else if (key === "k") {
+        if (event.shiftKey) deleteKeyframe();
+        else addKeyframe();
+      } else if (key === "[" || key === "]") {
+        jumpToKeyframe(key === "]" ? 1 : -1);
+      } else if (key === "v" || key === "b") {
+        setTool(key === "v" ? "select" : "box");
+      } else if (/^[0-9]$/.test(key) && optionOfHotkey(key)) {
+        chooseLabel(optionOfHotkey(key)!.id);
+      } else if ((key === "delete" || key === "backspace") && selection) {
+        event.preventDefault();
+        removeSelected();
+      } else if (key === "escape") {
+        setMarkIn(null);
+        setSelection(null);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [
+    undo,
+    redo,
+    flush,
+    togglePlay,
+    seek,
+    frame,
+    frameRate,
+    lastFrame,
+    markOut,
+    split,
+    merge,
+    addKeyframe,
+    deleteKeyframe,
+    jumpToKeyframe,
+    chooseLabel,
+    optionOfHotkey,
+    removeSelected,
+    selection,
+  ]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!(await flush())) throw new Error("Save your annotations before submitting.");
+      await submitAnnotationTask(taskId!);
+    },
+    onSuccess: () => {
+      toast({ title: "Submitted", description: "Task submitted for review." });
+      setLocation(task ? `/annotate/projects/${task.project_id}` : "/nest-annotate");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Submit failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (!taskId) {
+    return (
+      <div className="p-6 flex items-center justify-center h-full">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Open a Video Task</h2>
+            <p className="text-muted-foreground mb-4">
+              Video labeling works on tasks of a video project. Open one from its project page.
+            </p>
+            <Button onClick={() => setLocation("/nest-annotate")} data-testid="button-back">
+              Go to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-10 w-64" />
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Skeleton className="h-[600px] lg:col-span-3" />
+          <Skeleton className="h-96" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !task) {
+    return (
+      <div className="p-6 flex items-center justify-center h-full">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Task Not Found</h2>
+            <p className="text-muted-foreground mb-4">
+              The task you're looking for doesn't exist or you don't have access.
+            </p>
+            <Button onClick={() => setLocation("/nest-annotate")} data-testid="button-back">
+              Back to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const position = (f: number) => `${(f / frameCount) * 100}%`;
+  const segments = sortSegments(work.segments);
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <div>
-          <h1 className="text-2xl font-bold">Video Labeling</h1>
-          <p className="text-muted-foreground">
-            Temporal segmentation and video annotation
-          </p>
+        <div className="flex items-center gap-4">
+          <Link href={`/annotate/projects/${task.project_id}`}>
+            <Button variant="ghost" size="icon" data-testid="button-back-project">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">{task.metadata.title || "Video Labeling"}</h1>
+            <p className="text-muted-foreground">{task.project_name}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Badge variant="outline" className="capitalize">
+            {task.status.replace("_", " ")}
+          </Badge>
+          <AutosaveStatus state={saveState} lastSavedAt={lastSavedAt} error={saveError} />
         </div>
-        <WorkflowProgress currentStep={currentStep} />
       </div>
 
+      {saveState === "conflict" && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            These annotations were saved from another session. Your edits are still here: reload to take that version, or keep
+            yours to save over it.
+            <div className="flex shrink-0 gap-2">
+              <Button size="sm" variant="outline" onClick={() => reload()} data-testid="button-reload">
+                Reload
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => overwrite()} data-testid="button-keep-mine">
+                Keep mine
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <LabelIssuesAlert issues={labelIssues} version={labelSchema?.version} />
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         <div className="lg:col-span-3 space-y-6">
           <Card>
-            <CardHeader>
+            <CardHeader className="pb-2">
               <CardTitle>Video Player</CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="relative rounded-lg bg-black aspect-video flex items-center justify-center">
-                <Video className="h-16 w-16 text-white/30" />
-                <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent">
-                  <div className="space-y-3">
-                    <div className="relative h-2 rounded-full bg-white/20 overflow-hidden">
-                      <div className="absolute inset-0">
-                        {segments.map((seg) => (
-                          <div
-                            key={seg.id}
-                            className={`absolute h-full ${seg.color} opacity-70`}
-                            style={{
-                              left: `${(seg.start / 120) * 100}%`,
-                              width: `${((seg.end - seg.start) / 120) * 100}%`,
-                            }}
-                          />
-                        ))}
-                      </div>
-                      <div
-                        className="absolute h-full bg-white"
-                        style={{ width: `${(currentTime[0] / 120) * 100}%` }}
-                      />
-                    </div>
-                    <div className="flex items-center justify-between text-white">
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="text-white hover:text-white hover:bg-white/20"
-                        >
-                          <SkipBack className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="text-white hover:text-white hover:bg-white/20"
-                          onClick={() => setIsPlaying(!isPlaying)}
-                          data-testid="button-play-pause"
-                        >
-                          {isPlaying ? (
-                            <Pause className="h-5 w-5" />
-                          ) : (
-                            <Play className="h-5 w-5" />
-                          )}
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="text-white hover:text-white hover:bg-white/20"
-                        >
-                          <SkipForward className="h-4 w-4" />
-                        </Button>
-                        <span className="text-sm ml-2">
-                          {formatTime(currentTime[0])} / 2:00
-                        </span>
-                      </div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="text-white border-white/50 hover:bg-white/20"
-                      >
-                        <Tag className="h-3 w-3 mr-1" />
-                        Mark Segment
-                      </Button>
-                    </div>
-                  </div>
+            <CardContent className="space-y-4">
+              <VideoAnnotationPlayer
+                videoRef={videoRef}
+                url={videoUrl}
+                frameRate={frameRate}
+                frame={frame}
+                tracks={work.tracks}
+                selectedTrackId={selectedTrackId}
+                tool={activeLabel ? tool : "select"}
+                activeLabel={activeLabel}
+                colorOf={colorOf}
+                onTracksChange={setTracks}
+                onSelectTrack={(id) => setSelection(id ? { kind: "track", id } : null)}
+                onFrame={setFrame}
+                onPlayingChange={setPlaying}
+                onMetadata={setMeta}
+              />
+              <Slider
+                value={[frame]}
+                onValueChange={([value]) => seek(value)}
+                max={lastFrame}
+                step={1}
+                data-testid="slider-timeline"
+              />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => seek(frame - 1)} title="Previous frame (←)" data-testid="button-prev-frame">
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={togglePlay} title="Play / pause (Space)" data-testid="button-play-pause">
+                    {playing ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => seek(frame + 1)} title="Next frame (→)" data-testid="button-next-frame">
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <span className="ml-2 font-mono text-sm" data-testid="text-timecode">
+                    {formatTimecode(frame, frameRate)} / {formatTimecode(lastFrame, frameRate)}
+                  </span>
+                  <span className="ml-2 text-xs text-muted-foreground">frame {frame}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={String(playbackRate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+                    <SelectTrigger className="h-8 w-20" data-testid="select-playback-rate">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {playbackRates.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>
+                          {rate}×
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={String(frameRate)} onValueChange={changeFrameRate}>
+                    <SelectTrigger className="h-8 w-28" data-testid="select-frame-rate">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {frameRates.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>
+                          {rate} fps
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
-              <div className="mt-4">
-                <Slider
-                  value={currentTime}
-                  onValueChange={setCurrentTime}
-                  max={120}
-                  step={1}
-                  data-testid="slider-timeline"
-                />
               </div>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader>
-              <CardTitle>Timeline Segments</CardTitle>
+              <CardTitle>Timeline</CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="relative h-16 rounded-lg border border-border bg-muted/30 overflow-hidden">
-                {segments.map((seg) => (
+            <CardContent className="space-y-2">
+              <div
+                className="relative h-12 rounded-lg border border-border bg-muted/30 overflow-hidden"
+                data-testid="timeline-segments"
+              >
+                {segments.map((segment) => (
                   <div
-                    key={seg.id}
-                    className={`absolute top-2 bottom-2 ${seg.color} rounded cursor-pointer hover:opacity-80 transition-opacity flex items-center justify-center`}
+                    key={segment.id}
+                    className={`absolute top-1 bottom-1 rounded cursor-pointer flex items-center justify-center opacity-80 hover:opacity-100 ${
+                      segment.id === selectedSegmentId ? "ring-2 ring-primary" : ""
+                    }`}
                     style={{
-                      left: `${(seg.start / 120) * 100}%`,
-                      width: `${((seg.end - seg.start) / 120) * 100}%`,
+                      left: position(segment.start_frame),
+                      width: position(segment.end_frame - segment.start_frame),
+                      backgroundColor: colorOf(segment.label),
                     }}
-                    data-testid={`segment-${seg.id}`}
+                    onClick={() => {
+                      setSelection({ kind: "segment", id: segment.id });
+                      seek(segment.start_frame);
+                    }}
+                    data-testid={`segment-${segment.id}`}
                   >
-                    <span className="text-xs text-white font-medium truncate px-2">
-                      {seg.label}
-                    </span>
+                    <span className="text-xs text-white font-medium truncate px-2">{nameOf(segment.label)}</span>
                   </div>
                 ))}
+                {markIn !== null && (
+                  <div
+                    className="absolute top-0 bottom-0 w-0.5 bg-emerald-500"
+                    style={{ left: position(markIn) }}
+                    title={`In: ${formatTimecode(markIn, frameRate)}`}
+                  />
+                )}
+                <div className="absolute top-0 bottom-0 w-0.5 bg-foreground" style={{ left: position(frame) }} />
               </div>
-              <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                <span>0:00</span>
-                <span>0:30</span>
-                <span>1:00</span>
-                <span>1:30</span>
-                <span>2:00</span>
-              </div>
+              {work.tracks.map((track) => (
+                <div
+                  key={track.id}
+                  className={`relative h-6 rounded border bg-muted/30 cursor-pointer ${
+                    track.id === selectedTrackId ? "border-primary" : "border-border"
+                  }`}
+                  onClick={() => setSelection({ kind: "track", id: track.id })}
+                  data-testid={`timeline-track-${track.id}`}
+                >
+                  <div
+                    className="absolute top-2 bottom-2 rounded opacity-40"
+                    style={{
+                      left: position(track.keyframes[0].frame),
+                      width: position(track.keyframes[track.keyframes.length - 1].frame - track.keyframes[0].frame + 1),
+                      backgroundColor: colorOf(track.label),
+                    }}
+                  />
+                  {track.keyframes.map((keyframe) => (
+                    <button
+                      key={keyframe.frame}
+                      className="absolute top-1 h-4 w-2 -ml-1 rounded-sm border border-background"
+                      style={{ left: position(keyframe.frame), backgroundColor: colorOf(track.label) }}
+                      title={`Keyframe ${formatTimecode(keyframe.frame, frameRate)}`}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setSelection({ kind: "track", id: track.id });
+                        seek(keyframe.frame);
+                      }}
+                    />
+                  ))}
+                  <div className="absolute top-0 bottom-0 w-0.5 bg-foreground" style={{ left: position(frame) }} />
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Space plays, ←/→ step a frame (Shift: a second). I and O mark a segment, S splits the segment at
+                the playhead, M merges the selected one with the next. Draw boxes with B; K keys the selected
+                box at this frame (Shift+K removes the key), [ and ] jump between its keys.
+              </p>
             </CardContent>
           </Card>
         </div>
 
         <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tools</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant={tool === "select" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setTool("select")}
+                  title="Select (V)"
+                  data-testid="tool-select"
+                >
+                  <MousePointer className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={tool === "box" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setTool("box")}
+                  disabled={!activeLabel}
+                  title="Bounding box (B)"
+                  data-testid="tool-box"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" size="sm" onClick={undo} disabled={past.length === 0} title="Undo (Ctrl+Z)" data-testid="button-undo">
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Undo
+                </Button>
+                <Button variant="outline" size="sm" onClick={redo} disabled={future.length === 0} title="Redo (Ctrl+Shift+Z)" data-testid="button-redo">
+                  <Redo2 className="h-4 w-4 mr-2" />
+                  Redo
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Labels</Label>
+                <div className="space-y-1">
+                  {labelOptions.map((option) => (
+                    <Button
+                      key={option.id}
+                      variant={activeLabel === option.id ? "secondary" : "outline"}
+                      size="sm"
+                      className="w-full justify-start"
+                      style={{ paddingLeft: `${0.75 + option.depth}rem` }}
+                      onClick={() => chooseLabel(option.id)}
+                      data-testid={`category-${option.id}`}
+                    >
+                      <div className="h-3 w-3 rounded-full mr-2" style={{ backgroundColor: option.color }} />
+                      {option.name}
+                      {option.hotkey && <span className="ml-auto text-xs text-muted-foreground">{option.hotkey}</span>}
+                    </Button>
+                  ))}
+                  {labelOptions.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      This project's label schema has no classes yet. A manager can add them on the project page.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {selectedItem && attributesOf(selectedItem.label).length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Attributes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LabelAttributesForm
+                  attributes={attributesOf(selectedItem.label)}
+                  values={selectedItem.attributes}
+                  onChange={(values, commit) => setAttributes(selectedItem.id, values, commit)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Segments ({segments.length})</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                {segments.map((seg) => (
-                  <div
-                    key={seg.id}
-                    className="p-3 rounded-lg border border-border hover-elevate cursor-pointer"
-                  >
-                    <div className="flex items-center justify-between mb-2">
+              {segments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Press I and O to mark a segment.</p>
+              ) : (
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {segments.map((segment) => (
+                    <div
+                      key={segment.id}
+                      className={`p-2 rounded-lg border cursor-pointer ${
+                        segment.id === selectedSegmentId ? "border-primary bg-primary/5" : "border-border"
+                      }`}
+                      onClick={() => {
+                        setSelection({ kind: "segment", id: segment.id });
+                        seek(segment.start_frame);
+                      }}
+                      data-testid={`segment-item-${segment.id}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <div className="h-3 w-3 rounded" style={{ backgroundColor: colorOf(segment.label) }} />
+                          <span className="font-medium text-sm">{nameOf(segment.label)}</span>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            setSegments(work.segments.filter((s) => s.id !== segment.id));
+                          }}
+                          data-testid={`button-delete-segment-${segment.id}`}
+                        >
+                          <Trash2 className="h-3 w-3 text-destructive" />
+                        </Button>
+                      </div>
+                      <div className="mt-1 flex items-center gap-2 font-mono text-xs text-muted-foreground">
+                        {formatTimecode(segment.start_frame, frameRate)} – {formatTimecode(segment.end_frame - 1, frameRate)}
+                        <Badge variant="secondary" className="font-sans text-xs">
+                          {segment.end_frame - segment.start_frame} fr
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Boxes ({work.tracks.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {work.tracks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Pause and draw with the box tool (B).</p>
+              ) : (
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {work.tracks.map((track) => (
+                    <div
+                      key={track.id}
+                      className={`flex items-center justify-between p-2 rounded-lg border cursor-pointer ${
+                        track.id === selectedTrackId ? "border-primary bg-primary/5" : "border-border"
+                      }`}
+                      onClick={() => {
+                        setSelection({ kind: "track", id: track.id });
+                        if (!boxAt(track, frame)) seek(track.keyframes[0].frame);
+                      }}
+                      data-testid={`track-item-${track.id}`}
+                    >
                       <div className="flex items-center gap-2">
-                        <div className={`h-3 w-3 rounded ${seg.color}`} />
-                        <span className="font-medium text-sm">{seg.label}</span>
+                        <div className="h-3 w-3 rounded" style={{ backgroundColor: colorOf(track.label) }} />
+                        <span className="text-sm">{nameOf(track.label)}</span>
+                        <span className="text-xs text-muted-foreground">{track.keyframes.length} keys</span>
                       </div>
-                      <Button variant="ghost" size="icon" className="h-6 w-6">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          setTracks(work.tracks.filter((t) => t.id !== track.id), true);
+                        }}
+                        data-testid={`button-delete-track-${track.id}`}
+                      >
                         <Trash2 className="h-3 w-3 text-destructive" />
                       </Button>
                     </div>
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      <Clock className="h-3 w-3" />
-                      <span>
-                        {formatTime(seg.start)} - {formatTime(seg.end)}
-                      </span>
-                      <Badge variant="secondary" className="text-xs">
-                        {seg.end - seg.start}s
-                      </Badge>
-                    </div>
-                  </div>
-                ))}
-                <Button variant="outline" className="w-full mt-4" data-testid="button-add-segment">
-                  <Tag className="h-4 w-4 mr-2" />
-                  Add Segment
-                </Button>
-              </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -216,8 +875,10 @@ export default function VideoLabelPage() {
                 <Slider
                   value={confidence}
                   onValueChange={setConfidence}
+                  onValueCommit={(value) => persist(work, value[0])}
                   max={100}
                   step={1}
+                  data-testid="slider-confidence"
                 />
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Score</span>
@@ -228,11 +889,26 @@ export default function VideoLabelPage() {
           </Card>
 
           <div className="flex flex-col gap-2">
-            <Button className="w-full" variant="outline">
+            <Button
+              className="w-full"
+              variant="outline"
+              onClick={() => flush()}
+              disabled={saveState === "saving" || saveState === "conflict"}
+              data-testid="button-save-draft"
+            >
               <Save className="h-4 w-4 mr-2" />
-              Save Draft
+              Save Now
+            </Button>
+            <Button className="w-full" variant="outline" onClick={exportTimeline} data-testid="button-export-timeline">
+              <Download className="h-4 w-4 mr-2" />
+              Export Timeline JSON
             </Button>
-            <Button className="w-full">
+            <Button
+              className="w-full"
+              onClick={() => submitMutation.mutate()}
+              disabled={submitMutation.isPending || saveState === "conflict"}
+              data-testid="button-submit"
+            >
               <CheckCircle2 className="h-4 w-4 mr-2" />
               Submit for Review
             </Button>
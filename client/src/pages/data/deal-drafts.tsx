@@ -0,0 +1,348 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { authFetch } from "@/lib/session";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Check, X, Clock, ExternalLink, GitMerge } from "lucide-react";
+import { dealTypes, type DealDraft, type DealDraftStatus } from "@shared/schema";
+
+type DealDraftItem = DealDraft & {
+  headline: string | null;
+  url: string | null;
+  publishDate: string | null;
+};
+
+type EditableField = "deal_name" | "deal_type" | "deal_size" | "deal_currency" | "deal_country" | "announcement_date";
+
+const PAGE_SIZE = 25;
+
+const statusLabels: Record<DealDraftStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  merged: "Merged",
+  rejected: "Rejected",
+};
+
+const signalLabels: Record<string, string> = {
+  portfolio_company: "same company",
+  gp: "same GP",
+  fund: "same fund",
+  type_match: "type ✓",
+  type_mismatch: "type ✕",
+  date_close: "within 30 days",
+  date_near: "within 6 months",
+  date_far: "over a year apart",
+  size_close: "size ✓",
+  size_mismatch: "size ✕",
+};
+
+const draftValue = (draft: DealDraftItem, field: EditableField): string => {
+  const values: Record<EditableField, unknown> = {
+    deal_name: draft.dealName,
+    deal_type: draft.dealType,
+    deal_size: draft.dealSize,
+    deal_currency: draft.dealCurrency,
+    deal_country: draft.dealCountry,
+    announcement_date: draft.announcementDate,
+  };
+  return values[field] === null || values[field] === undefined ? "" : String(values[field]);
+};
+
+// Only the fields the analyst changed are sent; blank clears the value
+const changedFields = (draft: DealDraftItem, edits: Partial<Record<EditableField, string>>) => {
+  const fields: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(edits) as [EditableField, string][]) {
+    if (value === draftValue(draft, field)) continue;
+    const trimmed = value.trim();
+    if (field === "deal_name") fields[field] = trimmed;
+    else if (field === "deal_size") fields[field] = trimmed ? Number(trimmed) : null;
+    else if (field === "deal_currency") fields[field] = trimmed ? trimmed.toUpperCase() : null;
+    else fields[field] = trimmed || null;
+  }
+  return fields;
+};
+
+export default function DealDraftsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<string>("pending");
+  const [page, setPage] = useState(0);
+  const [edits, setEdits] = useState<Record<string, Partial<Record<EditableField, string>>>>({});
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<{ items: DealDraftItem[]; total: number }>({
+    queryKey: ["/api/deal-drafts", status, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status, limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+      const res = await authFetch(`/api/deal-drafts?${params}`);
+      if (!res.ok) throw new Error("Failed to load deal drafts");
+      return res.json();
+    },
+  });
+
+  const items = data?.items ?? [];
+  const total = data?.total ?? 0;
+
+  const onDecided = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/deal-drafts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/entities/deals"] });
+    toast({ title });
+  };
+
+  const onFailed = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: ({ draft, target }: { draft: DealDraftItem; target: string }) =>
+      apiRequest("POST", `/api/deal-drafts/${draft.id}/approve`, {
+        fields: changedFields(draft, edits[draft.id] ?? {}),
+        merge_into_deal_id: target === "new" ? undefined : target,
+      }),
+    onSuccess: (_, { target }) => onDecided(target === "new" ? "Deal created" : "Merged into existing deal"),
+    onError: onFailed,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (draftId: string) => apiRequest("POST", `/api/deal-drafts/${draftId}/reject`, {}),
+    onSuccess: () => onDecided("Draft rejected"),
+    onError: onFailed,
+  });
+
+  const isDeciding = approveMutation.isPending || rejectMutation.isPending;
+
+  const setEdit = (draftId: string, field: EditableField, value: string) =>
+    setEdits((prev) => ({ ...prev, [draftId]: { ...prev[draftId], [field]: value } }));
+
+  const editValue = (draft: DealDraftItem, field: EditableField) => edits[draft.id]?.[field] ?? draftValue(draft, field);
+
+  const renderField = (draft: DealDraftItem, field: EditableField, label: string, readOnly: boolean) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        className="h-8"
+        value={editValue(draft, field)}
+        disabled={readOnly}
+        type={field === "announcement_date" ? "date" : field === "deal_size" ? "number" : "text"}
+        onChange={(e) => setEdit(draft.id, field, e.target.value)}
+        data-testid={`input-${field}-${draft.id}`}
+      />
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/data/deals">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">Deal Drafts</h1>
+            <p className="text-sm text-muted-foreground">
+              Deals detected in news articles. Approve to add them to DataNest or merge them into a deal it already has.
+            </p>
+          </div>
+        </div>
+        <Select
+          value={status}
+          onValueChange={(v) => {
+            setStatus(v);
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="w-40" data-testid="select-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(statusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-48" />
+          ))}
+        </div>
+      ) : items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Clock className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No deal drafts here.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {items.map((draft) => {
+            const readOnly = draft.status !== "pending";
+            const candidates = draft.matchCandidates ?? [];
+            const target = targets[draft.id] ?? draft.matchedDealId ?? "new";
+
+            return (
+              <Card key={draft.id} data-testid={`card-deal-draft-${draft.id}`}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+                    <span>{draft.dealName}</span>
+                    {draft.dealType && <Badge variant="outline" className="capitalize">{draft.dealType}</Badge>}
+                    {draft.confidenceScore !== null && <Badge variant="secondary">{draft.confidenceScore}% confidence</Badge>}
+                    {readOnly && <Badge>{statusLabels[draft.status]}</Badge>}
+                    {draft.matchedDealId && !readOnly && (
+                      <Badge className="bg-amber-500/10 text-amber-600 dark:text-amber-400">Possible duplicate</Badge>
+                    )}
+                  </CardTitle>
+                  {draft.headline && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      {draft.headline}
+                      {draft.publishDate && <span>· {draft.publishDate}</span>}
+                      {draft.url && (
+                        <a href={draft.url} target="_blank" rel="noreferrer" className="inline-flex">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </p>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                    {[
+                      { label: "GP", name: draft.gpName, linked: !!draft.gpId },
+                      { label: "Fund", name: draft.fundName, linked: !!draft.fundId },
+                      { label: "Portfolio Company", name: draft.portfolioCompanyName, linked: !!draft.portfolioCompanyId },
+                    ].map((party) => (
+                      <div key={party.label}>
+                        <span className="text-xs text-muted-foreground">{party.label}</span>
+                        <p className="font-medium flex items-center gap-2">
+                          {party.name || "-"}
+                          {party.name && !party.linked && <Badge variant="outline">not in DataNest</Badge>}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {renderField(draft, "deal_name", "Deal name", readOnly)}
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Deal type</Label>
+                      <Select
+                        value={editValue(draft, "deal_type") || "none"}
+                        disabled={readOnly}
+                        onValueChange={(v) => setEdit(draft.id, "deal_type", v === "none" ? "" : v)}
+                      >
+                        <SelectTrigger className="h-8" data-testid={`select-deal-type-${draft.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          {dealTypes.map((type) => (
+                            <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {renderField(draft, "announcement_date", "Announced", readOnly)}
+                    {renderField(draft, "deal_size", "Deal size", readOnly)}
+                    {renderField(draft, "deal_currency", "Currency", readOnly)}
+                    {renderField(draft, "deal_country", "Country", readOnly)}
+                  </div>
+
+                  {candidates.length > 0 && (
+                    <div className="space-y-2">
+                      <Label className="text-xs text-muted-foreground">Similar deals in DataNest</Label>
+                      {candidates.map((candidate) => (
+                        <div
+                          key={candidate.deal_id}
+                          className={`flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm ${candidate.deal_id === draft.matchedDealId ? "border-amber-500" : ""}`}
+                          data-testid={`candidate-${draft.id}-${candidate.deal_id}`}
+                        >
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium truncate">{candidate.deal_name}</span>
+                              <Badge variant="secondary">{Math.round(candidate.score * 100)}%</Badge>
+                            </div>
+                            <div className="flex flex-wrap gap-1 mt-1 text-xs text-muted-foreground">
+                              {candidate.signals.map((signal) => (
+                                <span key={signal}>· {signalLabels[signal] ?? signal}</span>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {!readOnly && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Select value={target} onValueChange={(v) => setTargets((prev) => ({ ...prev, [draft.id]: v }))}>
+                        <SelectTrigger className="h-8 w-72" data-testid={`select-target-${draft.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="new">Create a new deal</SelectItem>
+                          {candidates.map((candidate) => (
+                            <SelectItem key={candidate.deal_id} value={candidate.deal_id}>
+                              Merge into {candidate.deal_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="ml-auto flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isDeciding}
+                          onClick={() => rejectMutation.mutate(draft.id)}
+                          data-testid={`button-reject-${draft.id}`}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={isDeciding || !editValue(draft, "deal_name").trim()}
+                          onClick={() => approveMutation.mutate({ draft, target })}
+                          data-testid={`button-approve-${draft.id}`}
+                        >
+                          {target === "new" ? <Check className="h-4 w-4 mr-1" /> : <GitMerge className="h-4 w-4 mr-1" />}
+                          {target === "new" ? "Approve" : "Approve & merge"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-end gap-2 text-sm">
+              <Button size="sm" variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span className="text-muted-foreground">
+                Page {page + 1} of {Math.ceil(total / PAGE_SIZE)}
+              </span>
+              <Button size="sm" variant="outline" disabled={(page + 1) * PAGE_SIZE >= total} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
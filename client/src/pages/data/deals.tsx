@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { SourceTrackingSection } from "@/components/source-tracking-section";
 import { EntityUrlsSection } from "@/components/entity-urls-section";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -35,7 +36,7 @@ import { useForm } from "react-hook-form";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Search, Plus, Briefcase, Building2, Calendar, DollarSign, TrendingUp, Loader2, Shield, Percent, Link2 } from "lucide-react";
+import { Search, Plus, Briefcase, Building2, Calendar, DollarSign, TrendingUp, Loader2, Shield, Percent, Link2, FileText } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
 import type { EntityDeal } from "@shared/schema";
@@ -187,13 +188,21 @@ export default function DealsPage() {
           <h1 className="text-2xl font-bold" data-testid="text-page-title">Deals</h1>
           <p className="text-muted-foreground">Track investment transactions and exits</p>
         </div>
-        <Button 
-          data-testid="button-add-deal"
-          onClick={() => window.open("/entity/deal/new", "_blank")}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Deal
-        </Button>
+        <div className="flex gap-2">
+          <Link href="/data/deal-drafts">
+            <Button variant="outline" data-testid="button-deal-drafts">
+              <FileText className="h-4 w-4 mr-2" />
+              Deal Drafts
+            </Button>
+          </Link>
+          <Button 
+            data-testid="button-add-deal"
+            onClick={() => window.open("/entity/deal/new", "_blank")}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Deal
+          </Button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -23,6 +23,7 @@ import { useAuth } from "@/lib/auth-context";
 import { signIn as supabaseSignIn } from "@/lib/auth";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { loginSchema, type LoginInput } from "@shared/schema";
+import type { SessionTokens } from "@/lib/session";
 import { Loader2, Lock, Mail, ChevronRight } from "lucide-react";
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
@@ -35,6 +36,7 @@ interface LoginResponse {
     isApproved: boolean;
     trialEndsAt: string | null;
   } | null;
+  tokens?: SessionTokens;
   message?: string;
 }
 
@@ -89,7 +91,7 @@ console.log("backend login result", result);
   throw new Error(result?.message || "Could not sync with backend");
 }
 
-      const { user, trialStatus } = result;
+      const { user, trialStatus, tokens } = result;
 
       /** 3️⃣ Final login */
       login(
@@ -123,7 +125,8 @@ console.log("backend login result", result);
                 ? new Date(trialStatus.trialEndsAt)
                 : null,
             }
-          : null
+          : null,
+        tokens
       );
 
       setLocation("/dashboard");
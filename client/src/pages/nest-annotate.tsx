@@ -45,6 +45,7 @@ import {
   Plus,
   Loader2,
   ClipboardList,
+  Link2,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -416,6 +417,12 @@ export default function NestAnnotatePage() {
                 Shell Profiles
               </Button>
             </Link>
+            <Link href="/annotate/entity-links">
+              <Button variant="outline" data-testid="button-entity-link-review">
+                <Link2 className="h-4 w-4 mr-2" />
+                Link Review
+              </Button>
+            </Link>
             <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
               <DialogTrigger asChild>
                 <Button data-testid="button-create-project">
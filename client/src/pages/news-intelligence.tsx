@@ -11,8 +11,9 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useLocation } from "wouter";
-import { Newspaper, AlertCircle, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Link, useLocation } from "wouter";
+import { Newspaper, AlertCircle, User, Rss, Activity, History } from "lucide-react";
 import { fetchNewsItems, type NewsItem } from "@/lib/nest-annotate-service";
 import type { UserRole, AnnotationTaskStatus } from "@shared/schema";
 
@@ -22,6 +23,7 @@ function StatusBadge({ status }: { status: AnnotationTaskStatus }) {
     in_progress: { label: "In Progress", className: "bg-amber-500/10 text-amber-600 dark:text-amber-400" },
     review: { label: "In Review", className: "bg-blue-500/10 text-blue-600 dark:text-blue-400" },
     completed: { label: "Completed", className: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400" },
+    duplicate: { label: "Duplicate", className: "bg-violet-500/10 text-violet-600 dark:text-violet-400" },
   };
   const config = statusConfig[status] || statusConfig.pending;
   return <Badge className={config.className}>{config.label}</Badge>;
@@ -165,14 +167,38 @@ export default function NewsIntelligencePage() {
 
   return (
     <div className="p-6 space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold" data-testid="text-page-title">News Intelligence</h1>
-        <p className="text-muted-foreground">
-          {isAnnotator 
-            ? "Your assigned news articles for annotation" 
-            : "Manage news annotation tasks across your organization"
-          }
-        </p>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">News Intelligence</h1>
+          <p className="text-muted-foreground">
+            {isAnnotator 
+              ? "Your assigned news articles for annotation" 
+              : "Manage news annotation tasks across your organization"
+            }
+          </p>
+        </div>
+        {!isAnnotator && (
+          <div className="flex items-center gap-2">
+            <Link href="/news-intelligence/pipeline">
+              <Button variant="outline" data-testid="button-news-pipeline">
+                <Activity className="h-4 w-4 mr-2" />
+                Pipeline
+              </Button>
+            </Link>
+            <Link href="/news-intelligence/backfills">
+              <Button variant="outline" data-testid="button-news-backfills">
+                <History className="h-4 w-4 mr-2" />
+                Reprocess
+              </Button>
+            </Link>
+            <Link href="/news-intelligence/feeds">
+              <Button variant="outline" data-testid="button-news-feeds">
+                <Rss className="h-4 w-4 mr-2" />
+                Feeds
+              </Button>
+            </Link>
+          </div>
+        )}
       </div>
 
       {error && (
@@ -0,0 +1,489 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/lib/auth-context";
+import { authFetch } from "@/lib/session";
+import { apiRequest } from "@/lib/queryClient";
+import { fetchProjectsWithStats } from "@/lib/nest-annotate-service";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ChevronDown, ChevronRight, History, Play, Search, XCircle } from "lucide-react";
+import type {
+  NewsBackfill,
+  NewsBackfillFilters,
+  NewsBackfillItem,
+  NewsBackfillItemStatus,
+  UserRole,
+} from "@shared/schema";
+
+interface BackfillProgress extends NewsBackfill {
+  counts: Record<NewsBackfillItemStatus, number>;
+}
+
+interface BackfillItemView extends NewsBackfillItem {
+  headline: string | null;
+}
+
+interface PreviewResponse {
+  total: number;
+  max: number;
+  sample: Array<{
+    news_id: string;
+    headline: string | null;
+    publish_date: string | null;
+    ai_status: string;
+    llm_model: string | null;
+    prompt_version: string | null;
+  }>;
+}
+
+interface FilterForm {
+  from: string;
+  to: string;
+  sourceName: string;
+  projectId: string;
+  aiStatus: string;
+  llmModel: string;
+  promptVersion: string;
+}
+
+const emptyFilters: FilterForm = {
+  from: "",
+  to: "",
+  sourceName: "",
+  projectId: "any",
+  aiStatus: "any",
+  llmModel: "",
+  promptVersion: "",
+};
+
+const aiStatusLabels: Record<string, string> = {
+  none: "Never processed",
+  AI_DONE: "AI done",
+  LINKED: "Linked",
+  FAILED_VALIDATION: "Failed validation",
+};
+
+const toFilters = (form: FilterForm): NewsBackfillFilters => ({
+  from: form.from || undefined,
+  to: form.to || undefined,
+  source_name: form.sourceName.trim() || undefined,
+  project_id: form.projectId === "any" ? undefined : form.projectId,
+  ai_status: form.aiStatus === "any" ? undefined : (form.aiStatus as NewsBackfillFilters["ai_status"]),
+  llm_model: form.llmModel.trim() || undefined,
+  prompt_version: form.promptVersion.trim() || undefined,
+});
+
+function describeFilters(filters: NewsBackfillFilters) {
+  const parts: string[] = [];
+  if (filters.from || filters.to) parts.push(`${filters.from ?? "…"} – ${filters.to ?? "…"}`);
+  if (filters.source_name) parts.push(filters.source_name);
+  if (filters.ai_status) parts.push(aiStatusLabels[filters.ai_status] ?? filters.ai_status);
+  if (filters.llm_model) parts.push(filters.llm_model);
+  if (filters.prompt_version) parts.push(`prompt ${filters.prompt_version}`);
+  if (filters.project_id) parts.push("one project");
+  return parts.length ? parts.join(" · ") : "All articles";
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function BackfillItems({ backfill }: { backfill: BackfillProgress }) {
+  const { data: items = [], isLoading } = useQuery<BackfillItemView[]>({
+    queryKey: ["/api/news-backfills", backfill.id, "items"],
+    queryFn: async () => {
+      const res = await authFetch(`/api/news-backfills/${backfill.id}/items?limit=100`);
+      if (!res.ok) throw new Error("Failed to load backfill items");
+      return res.json();
+    },
+    refetchInterval: backfill.status === "running" ? 15_000 : false,
+  });
+
+  if (isLoading) return <Skeleton className="h-20 w-full" />;
+  if (items.length === 0) return <p className="text-sm text-muted-foreground">No items.</p>;
+
+  return (
+    <div className="space-y-3">
+      {items.map((item) => (
+        <div key={item.id} className="border rounded-md p-3 space-y-2" data-testid={`backfill-item-${item.id}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium truncate">{item.headline ?? item.newsId}</span>
+            <Badge variant={item.status === "failed" ? "destructive" : item.status === "completed" ? "default" : "secondary"}>
+              {item.status}
+            </Badge>
+          </div>
+          {item.error && <p className="text-xs font-mono text-destructive whitespace-pre-wrap">{item.error}</p>}
+          {item.diff && (
+            <div className="space-y-2 text-sm">
+              <p className="text-xs text-muted-foreground">
+                {item.diff.old_llm_model ?? "no output"} / {item.diff.old_prompt_version ?? "—"} → {item.diff.new_llm_model} /{" "}
+                {item.diff.new_prompt_version ?? "—"}
+              </p>
+              {item.diff.validation_errors ? (
+                <p className="text-xs text-destructive">
+                  New output would fail validation: {item.diff.validation_errors.join("; ")}
+                </p>
+              ) : item.diff.output_changes.length === 0 && item.diff.link_changes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No changes.</p>
+              ) : (
+                <>
+                  {item.diff.output_changes.map((change) => (
+                    <div key={change.path} className="grid grid-cols-[12rem_1fr_1fr] gap-2 text-xs">
+                      <span className="font-mono">{change.path}</span>
+                      <span className="line-through text-muted-foreground break-words">{formatValue(change.old)}</span>
+                      <span className="break-words">{formatValue(change.new)}</span>
+                    </div>
+                  ))}
+                  {item.diff.link_changes.map((change) => (
+                    <div key={`${change.entity_type}:${change.entity_id}`} className="flex items-center gap-2 text-xs">
+                      <Badge variant="outline">{change.entity_type}</Badge>
+                      <span>{change.name ?? change.mention ?? change.entity_id}</span>
+                      <span className="text-muted-foreground">
+                        {change.old_status ?? "not linked"} → {change.new_status ?? "no longer proposed"}
+                      </span>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function NewsBackfillsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<FilterForm>(emptyFilters);
+  const [dryRun, setDryRun] = useState(true);
+  const [rate, setRate] = useState("10");
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const orgId = user?.orgId || "";
+  const userId = user?.id || "";
+  const userRole = (user?.role || "annotator") as UserRole;
+  const isManager = user?.role === "admin" || user?.role === "manager" || user?.role === "super_admin";
+
+  const { data: backfills = [], isLoading } = useQuery<BackfillProgress[]>({
+    queryKey: ["/api/news-backfills"],
+    queryFn: async () => {
+      const res = await authFetch("/api/news-backfills");
+      if (!res.ok) throw new Error("Failed to load backfills");
+      return res.json();
+    },
+    enabled: !!user,
+    refetchInterval: (query) =>
+      (query.state.data as BackfillProgress[] | undefined)?.some((b) => b.status === "running") ? 15_000 : false,
+  });
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ["nest-annotate-projects", orgId, userId, userRole],
+    queryFn: () => fetchProjectsWithStats(orgId, userId, userRole),
+    enabled: !!orgId && !!userId,
+  });
+  const newsProjects = projects.filter((p) => p.projectCategory === "news");
+
+  const onFailed = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const updateForm = (patch: Partial<FilterForm>) => {
+    setForm({ ...form, ...patch });
+    setPreview(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/news-backfills/preview", { filters: toFilters(form) });
+      return res.json() as Promise<PreviewResponse>;
+    },
+    onSuccess: setPreview,
+    onError: onFailed,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/news-backfills", {
+        filters: toFilters(form),
+        dry_run: dryRun,
+        rate_per_minute: Number(rate),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/news-backfills"] });
+      setPreview(null);
+      toast({
+        title: dryRun ? "Dry run started" : "Backfill started",
+        description: "Articles are released to the queue every minute.",
+      });
+    },
+    onError: onFailed,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/news-backfills/${id}/cancel`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/news-backfills"] }),
+    onError: onFailed,
+  });
+
+  if (!isManager) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6 text-center">
+            <p className="text-muted-foreground">You don't have permission to view this page.</p>
+            <Link href="/news-intelligence">
+              <Button className="mt-4" data-testid="button-back">Back to News Intelligence</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/news-intelligence">
+          <Button variant="ghost" size="icon" data-testid="button-back">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">Reprocessing</h1>
+          <p className="text-muted-foreground">Rerun the pipeline over existing articles, or dry-run it to see what would change</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Select articles</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backfill-from">Published from</Label>
+              <Input id="backfill-from" type="date" value={form.from} onChange={(e) => updateForm({ from: e.target.value })} data-testid="input-backfill-from" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backfill-to">Published to</Label>
+              <Input id="backfill-to" type="date" value={form.to} onChange={(e) => updateForm({ to: e.target.value })} data-testid="input-backfill-to" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backfill-source">Source</Label>
+              <Input
+                id="backfill-source"
+                value={form.sourceName}
+                onChange={(e) => updateForm({ sourceName: e.target.value })}
+                placeholder="e.g. VCCircle"
+                data-testid="input-backfill-source"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={form.projectId} onValueChange={(v) => updateForm({ projectId: v })}>
+                <SelectTrigger data-testid="select-backfill-project">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any project</SelectItem>
+                  {newsProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>AI status</Label>
+              <Select value={form.aiStatus} onValueChange={(v) => updateForm({ aiStatus: v })}>
+                <SelectTrigger data-testid="select-backfill-ai-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  {Object.entries(aiStatusLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backfill-model">Model</Label>
+              <Input
+                id="backfill-model"
+                value={form.llmModel}
+                onChange={(e) => updateForm({ llmModel: e.target.value })}
+                placeholder="e.g. gemini-1.5-flash"
+                data-testid="input-backfill-model"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backfill-prompt-version">Prompt version</Label>
+              <Input
+                id="backfill-prompt-version"
+                value={form.promptVersion}
+                onChange={(e) => updateForm({ promptVersion: e.target.value })}
+                placeholder="e.g. v3"
+                data-testid="input-backfill-prompt-version"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backfill-rate">Articles per minute</Label>
+              <Input
+                id="backfill-rate"
+                type="number"
+                min={1}
+                max={120}
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                data-testid="input-backfill-rate"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="backfill-dry-run" checked={dryRun} onCheckedChange={setDryRun} data-testid="switch-backfill-dry-run" />
+              <Label htmlFor="backfill-dry-run">Dry run (diff only, nothing is written)</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending} data-testid="button-backfill-preview">
+                <Search className="h-4 w-4 mr-2" />
+                Preview
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!preview || preview.total === 0 || preview.total > preview.max || createMutation.isPending}
+                data-testid="button-backfill-start"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {dryRun ? "Start dry run" : "Start backfill"}
+              </Button>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-2" data-testid="backfill-preview">
+              <p className="text-sm">
+                <span className="font-medium">{preview.total}</span> matching articles
+                {preview.total > preview.max && (
+                  <span className="text-destructive"> — narrow the filters to at most {preview.max}</span>
+                )}
+              </p>
+              {preview.sample.map((item) => (
+                <div key={item.news_id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="w-24">{item.publish_date ?? "—"}</span>
+                  <Badge variant="outline">{aiStatusLabels[item.ai_status] ?? item.ai_status}</Badge>
+                  <span className="truncate">{item.headline ?? item.news_id}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : backfills.length === 0 ? (
+            <div className="py-12 text-center">
+              <History className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No backfills yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Selection</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {backfills.map((backfill) => {
+                  const done = backfill.counts.completed + backfill.counts.failed;
+                  const isOpen = expanded === backfill.id;
+                  return [
+                    <TableRow key={backfill.id} data-testid={`row-backfill-${backfill.id}`}>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => setExpanded(isOpen ? null : backfill.id)}>
+                          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{describeFilters(backfill.filters)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {backfill.createdAt ? new Date(backfill.createdAt).toLocaleString() : ""} · {backfill.ratePerMinute}/min
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={backfill.dryRun ? "secondary" : "default"}>{backfill.dryRun ? "Dry run" : "Reprocess"}</Badge>
+                      </TableCell>
+                      <TableCell className="w-64">
+                        <Progress value={backfill.total ? (done / backfill.total) * 100 : 0} />
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {done}/{backfill.total} · {backfill.counts.failed} failed · {backfill.counts.queued} queued
+                        </div>
+                      </TableCell>
+                      <TableCell>{backfill.status}</TableCell>
+                      <TableCell className="text-right">
+                        {backfill.status === "running" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => cancelMutation.mutate(backfill.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-backfill-${backfill.id}`}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>,
+                    isOpen && (
+                      <TableRow key={`${backfill.id}-items`}>
+                        <TableCell colSpan={6}>
+                          <BackfillItems backfill={backfill} />
+                        </TableCell>
+                      </TableRow>
+                    ),
+                  ];
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
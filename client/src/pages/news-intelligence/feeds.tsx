@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/lib/auth-context";
+import { authFetch } from "@/lib/session";
+import { apiRequest } from "@/lib/queryClient";
+import { fetchProjectsWithStats } from "@/lib/nest-annotate-service";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Plus, RefreshCw, Rss, Trash2 } from "lucide-react";
+import { newsFeedTypes, type NewsFeed, type NewsFeedType, type UserRole } from "@shared/schema";
+
+interface FeedForm {
+  sourceName: string;
+  feedType: NewsFeedType;
+  url: string;
+  pollIntervalMinutes: string;
+  targetProjectId: string;
+}
+
+const emptyForm: FeedForm = {
+  sourceName: "",
+  feedType: "rss",
+  url: "",
+  pollIntervalMinutes: "60",
+  targetProjectId: "none",
+};
+
+const feedTypeLabels: Record<NewsFeedType, string> = {
+  rss: "RSS",
+  atom: "Atom",
+  sitemap: "News sitemap",
+};
+
+function formatPolledAt(value: string | Date | null) {
+  if (!value) return "Never";
+  return new Date(value).toLocaleString();
+}
+
+export default function NewsFeedsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<FeedForm>(emptyForm);
+  const [pollingId, setPollingId] = useState<string | null>(null);
+
+  const orgId = user?.orgId || "";
+  const userId = user?.id || "";
+  const userRole = (user?.role || "annotator") as UserRole;
+  const isManager = user?.role === "admin" || user?.role === "manager" || user?.role === "super_admin";
+
+  const { data: feeds = [], isLoading } = useQuery<NewsFeed[]>({
+    queryKey: ["/api/news-feeds"],
+    queryFn: async () => {
+      const res = await authFetch("/api/news-feeds");
+      if (!res.ok) throw new Error("Failed to load feeds");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ["nest-annotate-projects", orgId, userId, userRole],
+    queryFn: () => fetchProjectsWithStats(orgId, userId, userRole),
+    enabled: !!orgId && !!userId,
+  });
+  const newsProjects = projects.filter((p) => p.projectCategory === "news");
+  const projectName = (id: string | null) => newsProjects.find((p) => p.id === id)?.name ?? "—";
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/news-feeds"] });
+  const onFailed = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/news-feeds", {
+        source_name: form.sourceName.trim(),
+        feed_type: form.feedType,
+        url: form.url.trim(),
+        poll_interval_minutes: Number(form.pollIntervalMinutes),
+        target_project_id: form.targetProjectId === "none" ? null : form.targetProjectId,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      setForm(emptyForm);
+      toast({ title: "Feed added", description: "It will be polled within a minute." });
+    },
+    onError: onFailed,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/news-feeds/${id}`, { is_active: isActive }),
+    onSuccess: invalidate,
+    onError: onFailed,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/news-feeds/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Feed removed" });
+    },
+    onError: onFailed,
+  });
+
+  const pollMutation = useMutation({
+    mutationFn: async (id: string) => {
+      setPollingId(id);
+      const res = await apiRequest("POST", `/api/news-feeds/${id}/poll`);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({
+        title: result.deduplicated ? "A poll is already queued" : "Poll queued",
+        description: "The feed's last poll updates once the poll has run.",
+      });
+    },
+    onError: onFailed,
+    onSettled: () => setPollingId(null),
+  });
+
+  if (!isManager) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6 text-center">
+            <p className="text-muted-foreground">You don't have permission to view this page.</p>
+            <Link href="/news-intelligence">
+              <Button className="mt-4" data-testid="button-back">Back to News Intelligence</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/news-intelligence">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">News Feeds</h1>
+            <p className="text-muted-foreground">RSS, Atom and news sitemap sources polled for new articles</p>
+          </div>
+        </div>
+        <Button onClick={() => setDialogOpen(true)} data-testid="button-add-feed">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Feed
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : feeds.length === 0 ? (
+            <div className="py-12 text-center">
+              <Rss className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No feeds yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Every</TableHead>
+                  <TableHead>Target Project</TableHead>
+                  <TableHead>Last Poll</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {feeds.map((feed) => (
+                  <TableRow key={feed.id} data-testid={`row-feed-${feed.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{feed.sourceName}</div>
+                      <div className="text-xs text-muted-foreground truncate max-w-xs" title={feed.url}>{feed.url}</div>
+                    </TableCell>
+                    <TableCell>{feedTypeLabels[feed.feedType] ?? feed.feedType}</TableCell>
+                    <TableCell>{feed.pollIntervalMinutes} min</TableCell>
+                    <TableCell>{projectName(feed.targetProjectId)}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{formatPolledAt(feed.lastPolledAt)}</div>
+                      {feed.lastPollStatus && (
+                        <Badge
+                          variant={feed.lastPollStatus === "error" ? "destructive" : "secondary"}
+                          title={feed.lastPollError ?? undefined}
+                        >
+                          {feed.lastPollStatus === "error" ? "error" : `${feed.lastPollCreated ?? 0} new`}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={feed.isActive}
+                        onCheckedChange={(checked) => toggleMutation.mutate({ id: feed.id, isActive: checked })}
+                        data-testid={`switch-feed-active-${feed.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => pollMutation.mutate(feed.id)}
+                        disabled={pollingId === feed.id}
+                        data-testid={`button-poll-feed-${feed.id}`}
+                      >
+                        <RefreshCw className={`h-4 w-4 mr-1 ${pollingId === feed.id ? "animate-spin" : ""}`} />
+                        Poll now
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(feed.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-feed-${feed.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add feed</DialogTitle>
+            <DialogDescription>
+              New articles are cleaned, deduplicated by URL and content, and added as news. With a target project, each one also becomes an annotation task.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="feed-source-name">Source name</Label>
+              <Input
+                id="feed-source-name"
+                value={form.sourceName}
+                onChange={(e) => setForm({ ...form, sourceName: e.target.value })}
+                placeholder="e.g. VCCircle"
+                data-testid="input-feed-source-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feed-url">Feed URL</Label>
+              <Input
+                id="feed-url"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://example.com/feed.xml"
+                data-testid="input-feed-url"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={form.feedType} onValueChange={(v) => setForm({ ...form, feedType: v as NewsFeedType })}>
+                  <SelectTrigger data-testid="select-feed-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {newsFeedTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{feedTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="feed-interval">Poll every (minutes)</Label>
+                <Input
+                  id="feed-interval"
+                  type="number"
+                  min={5}
+                  value={form.pollIntervalMinutes}
+                  onChange={(e) => setForm({ ...form, pollIntervalMinutes: e.target.value })}
+                  data-testid="input-feed-interval"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Target project</Label>
+              <Select value={form.targetProjectId} onValueChange={(v) => setForm({ ...form, targetProjectId: v })}>
+                <SelectTrigger data-testid="select-feed-project">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No tasks (news only)</SelectItem>
+                  {newsProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!form.sourceName.trim() || !form.url.trim() || createMutation.isPending}
+              data-testid="button-save-feed"
+            >
+              Add Feed
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { authFetch } from "@/lib/session";
 
 type NewsItem = {
   id: string;
@@ -20,12 +21,7 @@ export default function NewsListPage() {
   function loadNews() {
     setLoading(true);
 
-    fetch("/api/news", {
-      headers: {
-        "x-org-id": "demo-org",
-        "x-user-id": "demo-user",
-      },
-    })
+    authFetch("/api/news")
       .then((res) => res.json())
       .then((data) => {
         setNews(data);
@@ -40,12 +36,10 @@ export default function NewsListPage() {
   function retryNews(id: string) {
     setRetryingId(id);
 
-    fetch(`/api/news/${id}/retry`, {
+    authFetch(`/api/news/${id}/retry`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "x-org-id": "demo-org",
-        "x-user-id": "demo-user",
       },
     })
       .then(() => {
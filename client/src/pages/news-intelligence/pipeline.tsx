@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/lib/auth-context";
+import { authFetch } from "@/lib/session";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Activity, ArrowLeft, ChevronDown, ChevronRight, RotateCcw } from "lucide-react";
+import type { PipelineRun, PipelineStage } from "@shared/schema";
+
+interface StageLatency {
+  stage: PipelineStage;
+  p50_ms: number | null;
+  p90_ms: number | null;
+}
+
+interface BacklogResponse {
+  backlog: {
+    new_count: number;
+    processing_count: number;
+    failed_count: number;
+    completed_count: number;
+  };
+  latency: {
+    window_days: number;
+    runs: number;
+    p50_ms: number | null;
+    p90_ms: number | null;
+    by_stage: StageLatency[];
+  };
+}
+
+interface PipelineFailure extends PipelineRun {
+  headline: string | null;
+}
+
+interface FailureGroup {
+  errorClass: string;
+  count: number;
+  lastFailedAt: string;
+  stages: Partial<Record<PipelineStage, number>>;
+  failures: PipelineFailure[];
+}
+
+interface FailuresResponse {
+  since_hours: number;
+  total: number;
+  groups: FailureGroup[];
+}
+
+const stageLabels: Record<PipelineStage, string> = {
+  fetch: "Fetch",
+  ai: "AI",
+  validate: "Validate",
+  persist: "Persist",
+  link: "Link",
+  draft: "Draft",
+};
+
+const windows = [
+  { value: "24", label: "Last 24 hours" },
+  { value: "72", label: "Last 3 days" },
+  { value: "168", label: "Last 7 days" },
+];
+
+function formatMs(value: number | null) {
+  if (value == null) return "—";
+  return value >= 1000 ? `${(value / 1000).toFixed(1)} s` : `${value} ms`;
+}
+
+export default function PipelinePage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sinceHours, setSinceHours] = useState("24");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const isManager = user?.role === "admin" || user?.role === "manager" || user?.role === "super_admin";
+
+  const { data: backlog, isLoading: backlogLoading } = useQuery<BacklogResponse>({
+    queryKey: ["/api/dashboard/backlog"],
+    queryFn: async () => {
+      const res = await authFetch("/api/dashboard/backlog");
+      if (!res.ok) throw new Error("Failed to load pipeline metrics");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const { data: failures, isLoading: failuresLoading } = useQuery<FailuresResponse>({
+    queryKey: ["/api/dashboard/pipeline-failures", sinceHours],
+    queryFn: async () => {
+      const res = await authFetch(`/api/dashboard/pipeline-failures?since_hours=${sinceHours}`);
+      if (!res.ok) throw new Error("Failed to load pipeline failures");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (body: { error_class?: string; news_ids?: string[] }) => {
+      const res = await apiRequest("POST", "/api/dashboard/pipeline-failures/retry", body);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      setSelected(new Set());
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/pipeline-failures"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/backlog"] });
+      toast({
+        title: "Retry queued",
+        description: `${result.enqueued} of ${result.matched} articles queued for processing`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleSelected = (newsId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(newsId);
+    else next.delete(newsId);
+    setSelected(next);
+  };
+
+  if (!isManager) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6 text-center">
+            <p className="text-muted-foreground">You don't have permission to view this page.</p>
+            <Link href="/news-intelligence">
+              <Button className="mt-4" data-testid="button-back">Back to News Intelligence</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/news-intelligence">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold" data-testid="text-page-title">Processing Pipeline</h1>
+            <p className="text-muted-foreground">Stage latency and failed runs of the news pipeline</p>
+          </div>
+        </div>
+        <Button
+          onClick={() => retryMutation.mutate({ news_ids: Array.from(selected) })}
+          disabled={selected.size === 0 || retryMutation.isPending}
+          data-testid="button-retry-selected"
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Retry selected ({selected.size})
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            Latency
+            {backlog && (
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                {backlog.latency.runs} completed runs, last {backlog.latency.window_days} days
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {backlogLoading || !backlog ? (
+            <div className="p-6">
+              <Skeleton className="h-20 w-full" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>p50</TableHead>
+                  <TableHead>p90</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {backlog.latency.by_stage.map((row) => (
+                  <TableRow key={row.stage} data-testid={`row-stage-${row.stage}`}>
+                    <TableCell>{stageLabels[row.stage] ?? row.stage}</TableCell>
+                    <TableCell>{formatMs(row.p50_ms)}</TableCell>
+                    <TableCell>{formatMs(row.p90_ms)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell>Whole run</TableCell>
+                  <TableCell>{formatMs(backlog.latency.p50_ms)}</TableCell>
+                  <TableCell>{formatMs(backlog.latency.p90_ms)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold">
+          Failures
+          {failures && <span className="ml-2 text-sm font-normal text-muted-foreground">{failures.total} articles</span>}
+        </h2>
+        <Select value={sinceHours} onValueChange={setSinceHours}>
+          <SelectTrigger className="w-44" data-testid="select-failure-window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {windows.map((w) => (
+              <SelectItem key={w.value} value={w.value}>{w.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {failuresLoading ? (
+        <div className="space-y-4">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : !failures || failures.groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Activity className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No failed runs in this window.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        failures.groups.map((group) => {
+          const isOpen = expanded === group.errorClass;
+          return (
+            <Card key={group.errorClass} data-testid={`card-failure-group-${group.errorClass}`}>
+              <CardContent className="p-4 space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <button
+                    type="button"
+                    className="flex items-center gap-2 text-left"
+                    onClick={() => setExpanded(isOpen ? null : group.errorClass)}
+                    data-testid={`button-toggle-group-${group.errorClass}`}
+                  >
+                    {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    <span className="font-mono font-medium">{group.errorClass}</span>
+                    <Badge variant="destructive">{group.count}</Badge>
+                    {Object.entries(group.stages).map(([stage, count]) => (
+                      <Badge key={stage} variant="outline">
+                        {stageLabels[stage as PipelineStage] ?? stage}: {count}
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-muted-foreground">
+                      last {new Date(group.lastFailedAt).toLocaleString()}
+                    </span>
+                  </button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => retryMutation.mutate({ error_class: group.errorClass })}
+                    disabled={retryMutation.isPending}
+                    data-testid={`button-retry-group-${group.errorClass}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Retry all
+                  </Button>
+                </div>
+
+                {isOpen && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8" />
+                        <TableHead>Article</TableHead>
+                        <TableHead>Attempt</TableHead>
+                        <TableHead>Stages</TableHead>
+                        <TableHead>Error</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.failures.map((run) => (
+                        <TableRow key={run.id} data-testid={`row-failed-run-${run.id}`}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(run.newsId)}
+                              onCheckedChange={(checked) => toggleSelected(run.newsId, checked === true)}
+                              data-testid={`checkbox-run-${run.id}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium truncate max-w-xs" title={run.headline ?? undefined}>
+                              {run.headline ?? run.newsId}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {run.finishedAt ? new Date(run.finishedAt).toLocaleString() : "—"}
+                              {run.llmModel && ` · ${run.llmModel}`}
+                            </div>
+                          </TableCell>
+                          <TableCell>{run.attempt}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {run.stages.map((timing, i) => (
+                                <Badge
+                                  key={`${timing.stage}-${i}`}
+                                  variant={timing.status === "failed" ? "destructive" : "secondary"}
+                                >
+                                  {stageLabels[timing.stage] ?? timing.stage} {formatMs(timing.duration_ms)}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-xs font-mono whitespace-pre-wrap break-words max-w-md">
+                              {run.errorMessage ?? "—"}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                {isOpen && group.count > group.failures.length && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the latest {group.failures.length} of {group.count}; "Retry all" covers every one.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
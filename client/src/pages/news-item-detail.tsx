@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
 import { useAuth } from "@/lib/auth-context";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -10,6 +10,11 @@ import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useLabelSchema } from "@/hooks/use-label-schema";
+import { LabelIssuesAlert } from "@/components/label-issues-alert";
+import { AiReviewPanel } from "@/components/ai-review-panel";
+import { StoryClusterPanel } from "@/components/story-cluster-panel";
+import { NewsTranslationPanel } from "@/components/news-translation-panel";
 import {
   ArrowLeft,
   AlertCircle,
@@ -53,56 +58,11 @@ import type {
   UserRole,
   AnnotationTaskStatus,
   RelevanceStatus,
-  NewsFirmType,
-  NewsEventType,
-  NewsAssetClass,
   NewsActionType,
   NewsItemMetadata,
   TaggedEntity,
 } from "@shared/schema";
-import {
-  newsFirmTypes,
-  newsEventTypes,
-  newsAssetClasses,
-  newsActionTypes,
-} from "@shared/schema";
-
-const firmTypeLabels: Record<NewsFirmType, string> = {
-  gp_pe: "GP (PE)",
-  gp_vc: "GP (VC)",
-  lp: "LP",
-  fund: "Fund",
-  portfolio_company: "Portfolio Company",
-  service_provider: "Service Provider",
-  bank_trustee: "Bank/Trustee",
-  regulator: "Regulator",
-  startup: "Startup",
-  corporate: "Corporate",
-};
-
-const eventTypeLabels: Record<NewsEventType, string> = {
-  fundraise: "Fundraise",
-  investment: "Investment",
-  exit: "Exit",
-  mna: "M&A",
-  leadership_change: "Leadership Change",
-  regulatory_update: "Regulatory Update",
-  product_launch: "Product Launch",
-  partnership: "Partnership",
-  financial_results: "Financial Results",
-  litigation: "Litigation",
-};
-
-const assetClassLabels: Record<NewsAssetClass, string> = {
-  private_equity: "Private Equity",
-  venture_capital: "Venture Capital",
-  private_debt: "Private Debt",
-  infrastructure: "Infrastructure",
-  real_assets: "Real Assets",
-  hedge_funds: "Hedge Funds",
-  public_markets: "Public Markets",
-  esg: "ESG",
-};
+import { descendantsOf, newsActionTypes, tagIssuesOf } from "@shared/schema";
 
 const actionTypeLabels: Record<NewsActionType, string> = {
   add_new_profile: "Add New Profile",
@@ -127,6 +87,7 @@ function StatusBadge({ status }: { status: AnnotationTaskStatus }) {
     in_progress: { label: "In Progress", className: "bg-amber-500/10 text-amber-600 dark:text-amber-400" },
     review: { label: "In Review", className: "bg-blue-500/10 text-blue-600 dark:text-blue-400" },
     completed: { label: "Completed", className: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400" },
+    duplicate: { label: "Duplicate", className: "bg-violet-500/10 text-violet-600 dark:text-violet-400" },
   };
   const config = statusConfig[status] || statusConfig.pending;
   return <Badge className={config.className}>{config.label}</Badge>;
@@ -191,10 +152,6 @@ function MultiSelectTags({ options, labels, selected, onChange, disabled }: Mult
 
 export default function NewsItemDetailPage() {
   const { taskId } = useParams<{ taskId: string }>();
-  const [aiOutput, setAiOutput] = useState<any>(null);
-const [aiStatus, setAiStatus] = useState<string>("NONE");
-const [aiLoading, setAiLoading] = useState(false);
-
   const [, setLocation] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
@@ -206,9 +163,8 @@ const [aiLoading, setAiLoading] = useState(false);
 
   const [relevanceStatus, setRelevanceStatus] = useState<RelevanceStatus | undefined>();
   const [relevanceNotes, setRelevanceNotes] = useState<string>("");
-  const [firmTypes, setFirmTypes] = useState<NewsFirmType[]>([]);
-  const [eventTypes, setEventTypes] = useState<NewsEventType[]>([]);
-  const [assetClasses, setAssetClasses] = useState<NewsAssetClass[]>([]);
+  // Selected tags per tag group (top-level class of the project's label schema)
+  const [tags, setTags] = useState<Record<string, string[]>>({});
   const [actionTypes, setActionTypes] = useState<NewsActionType[]>([]);
   const [taggedEntities, setTaggedEntities] = useState<TaggedEntity[]>([]);
   const [entityLinks, setEntityLinks] = useState<NewsEntityLinkRecord[]>([]);
@@ -232,53 +188,30 @@ const [aiLoading, setAiLoading] = useState(false);
     queryFn: () => fetchNewsItemById(taskId!, orgId),
     enabled: !!taskId && isAuthReady,
   });
+  const { labelSchema, options: labelOptions } = useLabelSchema(newsItem?.projectId);
+  const tagGroups = labelOptions.filter((option) => option.depth === 0);
+  const groupTags = Object.fromEntries(tagGroups.map((group) => [group.id, tags[group.id] ?? []]));
+  const tagIssues = labelSchema ? tagIssuesOf(labelSchema.schema, groupTags) : [];
 
   useEffect(() => {
     if (newsItem?.metadata) {
       const meta = newsItem.metadata;
       setRelevanceStatus(meta.relevance_status);
       setRelevanceNotes(meta.relevance_notes || "");
-      setFirmTypes(meta.firm_type || []);
-      setEventTypes(meta.event_type || []);
-      setAssetClasses(meta.asset_class || []);
+      setTags(
+        Object.fromEntries(
+          Object.entries(meta).filter(
+            (entry): entry is [string, string[]] =>
+              Array.isArray(entry[1]) && entry[1].every((value: unknown) => typeof value === "string")
+          )
+        )
+      );
       setActionTypes(meta.action_type || []);
       setCreatedEntities(meta.created_entities || []);
     }
   }, [newsItem]);
   
-  useEffect(() => {
-  async function loadAi() {
-    if (!taskId || !orgId) return;
-
-    try {
-      const res = await fetch(
-        `/api/ai-outputs?source_type=news&source_id=${taskId}`,
-        {
-          headers: {
-            "x-org-id": orgId,
-            "x-user-id": userId,
-          },
-        }
-      );
-
-      const data = await res.json();
-
-      if (Array.isArray(data) && data.length > 0) {
-        setAiOutput(data[0].output_json);
-        setAiStatus(data[0].status);
-      } else {
-        setAiStatus("NONE");
-      }
-    } catch (e) {
-      console.error("AI load failed", e);
-    }
-  }
-
-  loadAi();
-}, [taskId, orgId]);
-
-
-  // Load entity links from news_entity_links table using newsId from metadata
+  // Load entity links for the news record referenced in metadata
   useEffect(() => {
     async function loadEntityLinks() {
       if (!orgId || !newsItem?.metadata?.news_id) return;
@@ -373,47 +306,19 @@ const [aiLoading, setAiLoading] = useState(false);
   });
 
   const handleSaveTags = () => {
-    // Note: tagged_entities are now persisted to news_entity_links table separately
-    const tags: Partial<NewsItemMetadata> = {
+    // Note: tagged_entities are now persisted to entity_links separately
+    const tagUpdates: Partial<NewsItemMetadata> & Record<string, unknown> = {
+      ...Object.fromEntries(tagGroups.map((group) => [group.id, isRelevant ? groupTags[group.id] : undefined])),
       relevance_status: relevanceStatus,
       relevance_notes: relevanceNotes || undefined,
-      firm_type: isRelevant ? firmTypes : undefined,
-      event_type: isRelevant ? eventTypes : undefined,
-      asset_class: isRelevant ? assetClasses : undefined,
       action_type: isRelevant ? actionTypes : undefined,
       created_entities: isRelevant ? createdEntities : undefined,
+      label_schema_version: labelSchema?.version,
+      label_issues: isRelevant && tagIssues.length > 0 ? tagIssues : undefined,
     };
-    saveTagsMutation.mutate(tags);
+    saveTagsMutation.mutate(tagUpdates);
   };
   
-  async function runAi() {
-  if (!taskId) return;
-
-  setAiLoading(true);
-
-  try {
-    await fetch(`/api/news/${taskId}/process`, {
-      method: "POST",
-      headers: {
-        "x-org-id": orgId,
-        "x-user-id": userId,
-      },
-    });
-
-    setAiStatus("PROCESSING");
-
-    setTimeout(() => {
-  queryClient.invalidateQueries({ queryKey: ["news-item", taskId] });
-  queryClient.invalidateQueries({ queryKey: ["ai-outputs"] });
-}, 3000);
-  } catch (e) {
-    console.error("AI run failed", e);
-  }
-
-  setAiLoading(false);
-}
-
-
   const handleMarkCompleted = () => {
     handleSaveTags();
     updateStatusMutation.mutate("completed");
@@ -424,45 +329,11 @@ const [aiLoading, setAiLoading] = useState(false);
     
     setIsAddingLink(true);
     try {
-		
-		async function applyAi() {
-  if (!aiOutput || !taskId) return;
-
-  try {
-    const tags: Partial<NewsItemMetadata> = {
-      relevance_status: aiOutput.relevance_status,
-      firm_type: aiOutput.firm_type || [],
-      event_type: aiOutput.event_type || [],
-      asset_class: aiOutput.asset_class || [],
-      action_type: aiOutput.action_type || [],
-      relevance_notes: "Auto-filled from AI",
-    };
-
-    await updateNewsItemTags(taskId, tags);
-
-    toast({
-      title: "AI applied",
-      description: "AI suggestions were applied to this task.",
-    });
-
-    queryClient.invalidateQueries({ queryKey: ["news-item", taskId] });
-    queryClient.invalidateQueries({ queryKey: ["news-intelligence"] });
-
-  } catch (e) {
-    console.error("Apply AI failed", e);
-    toast({
-      title: "Failed",
-      description: "Could not apply AI suggestions.",
-      variant: "destructive",
-    });
-  }
-}
-
       // Ensure news record exists and get its ID for entity linking
       const newsId = await ensureNewsRecord(taskId, orgId, userId);
       
-      // Persist to news_entity_links table with org_id verification
-      const newLink = await addNewsEntityLink(newsId, entity.type, entity.id, userId, orgId);
+      // Persist to entity_links (the server verifies the entity's org)
+      const newLink = await addNewsEntityLink(newsId, entity.type, entity.id);
       setEntityLinks([...entityLinks, newLink]);
       
       const newEntity: TaggedEntity = {
@@ -531,7 +402,7 @@ const [aiLoading, setAiLoading] = useState(false);
       const newsId = await ensureNewsRecord(taskId, orgId, userId);
       
       // Link the new entity to this news item
-      const newLink = await addNewsEntityLink(newsId, newEntity.type, newEntity.id, userId, orgId);
+      const newLink = await addNewsEntityLink(newsId, newEntity.type, newEntity.id);
       setEntityLinks([...entityLinks, newLink]);
       
       // Add to tagged entities display
@@ -684,6 +555,10 @@ const [aiLoading, setAiLoading] = useState(false);
         </CardContent>
       </Card>
 
+      <NewsTranslationPanel newsId={newsItem.metadata?.news_id} />
+
+      <StoryClusterPanel newsId={newsItem.metadata?.news_id} />
+
       <Card>
         <CardHeader className="pb-3">
           <CardTitle className="text-base">1. Relevance Status</CardTitle>
@@ -732,46 +607,38 @@ const [aiLoading, setAiLoading] = useState(false);
         <CardHeader className="pb-3">
           <CardTitle className="text-base">2. Core Classification</CardTitle>
           <p className="text-sm text-muted-foreground">
-            Classify the article by firm type, event type, and asset class.
+            Classify the article with the project's tag groups.
           </p>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="space-y-2">
-            <Label>Firm Type</Label>
-            <MultiSelectTags
-              options={newsFirmTypes}
-              labels={firmTypeLabels}
-              selected={firmTypes}
-              onChange={(selected) => setFirmTypes(selected as NewsFirmType[])}
-              disabled={!isRelevant}
-            />
-          </div>
-
-          <Separator />
-
-          <div className="space-y-2">
-            <Label>Event Type</Label>
-            <MultiSelectTags
-              options={newsEventTypes}
-              labels={eventTypeLabels}
-              selected={eventTypes}
-              onChange={(selected) => setEventTypes(selected as NewsEventType[])}
-              disabled={!isRelevant}
-            />
-          </div>
-
-          <Separator />
-
-          <div className="space-y-2">
-            <Label>Asset Class</Label>
-            <MultiSelectTags
-              options={newsAssetClasses}
-              labels={assetClassLabels}
-              selected={assetClasses}
-              onChange={(selected) => setAssetClasses(selected as NewsAssetClass[])}
-              disabled={!isRelevant}
-            />
-          </div>
+          {isRelevant && <LabelIssuesAlert issues={tagIssues} version={labelSchema?.version} />}
+          {tagGroups.map((group, i) => {
+            const options = labelSchema ? descendantsOf(labelSchema.schema, group.id) : [];
+            const selected = groupTags[group.id];
+            // Tags removed from the schema stay visible so they can be cleared
+            const removed = selected.filter((tag) => !options.includes(tag));
+            return (
+              <Fragment key={group.id}>
+                {i > 0 && <Separator />}
+                <div className="space-y-2">
+                  <Label>{group.name}</Label>
+                  <MultiSelectTags
+                    options={[...options, ...removed]}
+                    labels={Object.fromEntries([
+                      ...labelOptions.map((option): [string, string] => [option.id, option.name]),
+                      ...removed.map((tag): [string, string] => [tag, `${tag} (removed)`]),
+                    ])}
+                    selected={selected}
+                    onChange={(next) => setTags({ ...tags, [group.id]: next })}
+                    disabled={!isRelevant}
+                  />
+                </div>
+              </Fragment>
+            );
+          })}
+          {labelSchema && tagGroups.length === 0 && (
+            <p className="text-sm text-muted-foreground">This project's label schema has no tag groups.</p>
+          )}
         </CardContent>
       </Card>
 
@@ -938,72 +805,11 @@ const [aiLoading, setAiLoading] = useState(false);
           </CardContent>
         </Card>
       )}
-<Card>
-  <CardHeader>
-    <CardTitle>🧠 AI Intelligence</CardTitle>
-  </CardHeader>
-
-  <CardContent className="space-y-4">
-    <div>
-      <strong>Status:</strong> {aiStatus}
-    </div>
-
-   <div className="flex gap-3">
-  <Button onClick={runAi} disabled={aiLoading}>
-    {aiLoading ? "Running AI..." : "Run AI"}
-  </Button>
-
-  {aiOutput && (
-    <Button variant="secondary" onClick={applyAi}>
-      Apply AI
-    </Button>
-  )}
-</div>
-
-
-   {aiOutput && (
-  <div className="space-y-4 text-sm">
-
-    {aiOutput.summary && (
-      <div>
-        <p className="font-medium mb-1">Summary</p>
-        <div className="p-3 rounded bg-background border">
-          {aiOutput.summary}
-        </div>
-      </div>
-    )}
-
-    {Array.isArray(aiOutput.entities) && aiOutput.entities.length > 0 && (
-      <div>
-        <p className="font-medium mb-1">Entities detected</p>
-        <div className="flex flex-wrap gap-2">
-          {aiOutput.entities.map((e: any, idx: number) => (
-            <Badge key={idx} variant="secondary">
-              {e.name} ({e.type})
-            </Badge>
-          ))}
-        </div>
-      </div>
-    )}
-
-    {aiOutput.suggested_tags && (
-      <div>
-        <p className="font-medium mb-1">Suggested classification</p>
-        <div className="grid grid-cols-2 gap-2">
-          {Object.entries(aiOutput.suggested_tags).map(([k, v]) => (
-            <div key={k} className="p-2 border rounded bg-background">
-              <strong>{k}</strong>: {String(v)}
-            </div>
-          ))}
-        </div>
-      </div>
-    )}
-
-  </div>
-)}
-
-  </CardContent>
-</Card>
+      <AiReviewPanel
+        taskId={taskId!}
+        newsId={newsItem.metadata?.news_id}
+        ensureNewsId={() => ensureNewsRecord(taskId!, orgId, userId)}
+      />
 
       <div className="flex items-center justify-between gap-4 pt-4">
         <Button
@@ -2,6 +2,7 @@ import { useState, useMemo, useRef } from "react";
 import { useAuth } from "@/lib/auth-context";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
+import { authFetch } from "@/lib/session";
 import { useRoute, useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -63,6 +64,7 @@ const statusLabels: Record<AnnotationTaskStatus, string> = {
   in_progress: "In Progress",
   review: "Review",
   completed: "Completed",
+  duplicate: "Duplicate",
 };
 
 const statusColors: Record<AnnotationTaskStatus, string> = {
@@ -70,6 +72,7 @@ const statusColors: Record<AnnotationTaskStatus, string> = {
   in_progress: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
   review: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
   completed: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400",
+  duplicate: "bg-violet-500/10 text-violet-600 dark:text-violet-400",
 };
 
 function StatusBadge({ status }: { status: AnnotationTaskStatus }) {
@@ -236,9 +239,8 @@ export default function ProjectViewPage() {
   const { data: projectMembers = [], isLoading: membersLoading } = useQuery<ProjectMember[]>({
     queryKey: ["project-members", projectId],
     queryFn: async () => {
-      const res = await fetch(`/api/datanest/projects/${projectId}`, { 
+      const res = await authFetch(`/api/datanest/projects/${projectId}`, { 
         credentials: "include",
-        headers: { "x-user-id": userId || "" }
       });
       if (!res.ok) return [];
       const data = await res.json();
@@ -249,9 +251,9 @@ export default function ProjectViewPage() {
 
   const addMemberMutation = useMutation({
     mutationFn: async (memberUserId: string) => {
-      const res = await fetch(`/api/datanest/projects/${projectId}/members`, {
+      const res = await authFetch(`/api/datanest/projects/${projectId}/members`, {
         method: "POST",
-        headers: { "Content-Type": "application/json", "x-user-id": userId || "" },
+        headers: { "Content-Type": "application/json" },
         credentials: "include",
         body: JSON.stringify({ userId: memberUserId, role: "member" }),
       });
@@ -277,10 +279,9 @@ export default function ProjectViewPage() {
 
   const removeMemberMutation = useMutation({
     mutationFn: async (memberId: string) => {
-      const res = await fetch(`/api/datanest/projects/${projectId}/members/${memberId}`, {
+      const res = await authFetch(`/api/datanest/projects/${projectId}/members/${memberId}`, {
         method: "DELETE",
         credentials: "include",
-        headers: { "x-user-id": userId || "" },
       });
       if (!res.ok) {
         const error = await res.json();
@@ -335,9 +336,9 @@ export default function ProjectViewPage() {
 
   const uploadNewsMutation = useMutation({
     mutationFn: async (articles: { headline: string; url?: string; source_name?: string; publish_date?: string; raw_text?: string }[]) => {
-      const res = await fetch(`/api/nest-annotate/projects/${projectId}/upload-news`, {
+      const res = await authFetch(`/api/nest-annotate/projects/${projectId}/upload-news`, {
         method: "POST",
-        headers: { "Content-Type": "application/json", "x-user-id": userId || "" },
+        headers: { "Content-Type": "application/json" },
         credentials: "include",
         body: JSON.stringify({ articles }),
       });
@@ -606,6 +607,7 @@ export default function ProjectViewPage() {
                   <SelectItem value="in_progress">In Progress</SelectItem>
                   <SelectItem value="review">Review</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="duplicate">Duplicate</SelectItem>
                 </SelectContent>
               </Select>
 
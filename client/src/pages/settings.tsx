@@ -14,10 +14,12 @@ import { useTheme } from "@/lib/theme-context";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { User as UserIcon, Bell, Shield, Palette, Save, Moon, Sun, Users, Check, X, Clock } from "lucide-react";
-import type { UserRole, User } from "@shared/schema";
+import { Link } from "wouter";
+import { User as UserIcon, Bell, Shield, Palette, Save, Moon, Sun, Users, Check, X, Clock, KeySquare } from "lucide-react";
+import { hasPermission, type UserRole, type User, type ApiKey } from "@shared/schema";
 
 type PendingGuest = Omit<User, "password">;
+type OrgApiKey = Omit<ApiKey, "keyHash">;
 
 export default function SettingsPage() {
   const { user } = useAuth();
@@ -29,6 +31,12 @@ export default function SettingsPage() {
     enabled: user?.role === "super_admin" || user?.role === "admin" || user?.role === "manager",
   });
 
+  const canViewApiKeys = !!user && hasPermission(user.role as UserRole, "admin_panel:read");
+  const { data: apiKeys = [] } = useQuery<OrgApiKey[]>({
+    queryKey: ["/api/admin/api-keys"],
+    enabled: canViewApiKeys,
+  });
+
   const approveMutation = useMutation({
     mutationFn: async ({ userId, newRole }: { userId: string; newRole?: string }) => {
       const res = await apiRequest("POST", `/api/admin/users/${userId}/approve`, { newRole });
@@ -312,6 +320,43 @@ export default function SettingsPage() {
         </Card>
       )}
 
+      {canViewApiKeys && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeySquare className="h-5 w-5" />
+              API Keys
+            </CardTitle>
+            <CardDescription>Organization keys used by scripts and integrations</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {apiKeys.filter((k) => !k.revokedAt).length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active API keys</p>
+            ) : (
+              apiKeys.filter((k) => !k.revokedAt).map((apiKey) => (
+                <div
+                  key={apiKey.id}
+                  className="flex items-center justify-between p-3 rounded-lg border"
+                  data-testid={`settings-api-key-${apiKey.id}`}
+                >
+                  <div>
+                    <div className="font-medium">{apiKey.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{apiKey.keyPrefix}…</div>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Clock className="h-3 w-3" />
+                    {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : "Never used"}
+                  </div>
+                </div>
+              ))
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/admin/api-keys" data-testid="link-manage-api-keys">Manage API keys</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="flex justify-end">
         <Button data-testid="button-save-settings">
           <Save className="h-4 w-4 mr-2" />
@@ -17,6 +17,7 @@ import { useAuth } from "@/lib/auth-context";
 import { signUp as supabaseSignUp } from "@/lib/auth";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { signupSchema, type SignupInput } from "@shared/schema";
+import type { SessionTokens } from "@/lib/session";
 import { Loader2, Lock, Mail, ChevronRight, User } from "lucide-react";
 
 interface SignupResponse {
@@ -40,6 +41,7 @@ interface SignupResponse {
     isApproved: boolean;
     trialEndsAt: string | null;
   } | null;
+  tokens?: SessionTokens;
 }
 
 async function signUpWithBackend(data: SignupInput, accessToken?: string): Promise<SignupResponse> {
@@ -105,7 +107,7 @@ backendResponse = await signUpWithBackend(
 );
 
       
-      const { user, trialStatus } = backendResponse;
+      const { user, trialStatus, tokens } = backendResponse;
       
       login({
         id: user.id,
@@ -128,7 +130,7 @@ backendResponse = await signUpWithBackend(
         isTrialExpired: trialStatus.isTrialExpired,
         isApproved: trialStatus.isApproved,
         trialEndsAt: trialStatus.trialEndsAt ? new Date(trialStatus.trialEndsAt) : null,
-      } : null);
+      } : null, tokens);
       
       setLocation("/dashboard");
     } catch (error) {
@@ -0,0 +1,99 @@
+import "dotenv/config";
+import { createNewsBackfillSchema } from "@shared/schema";
+import { pool } from "../server/db";
+import { createNewsBackfill, getNewsBackfill, previewNewsBackfill } from "../server/services/newsBackfills";
+
+/**
+ * Reprocess existing news in bulk.
+ *
+ *   npx tsx scripts/backfill-news.ts --org=<org id> [filters] [--dry-run] [--rate=10] [--preview]
+ *
+ * Filters: --from=YYYY-MM-DD --to=YYYY-MM-DD --source=<source name>
+ * --project=<label project id> --ai-status=none|AI_DONE|LINKED|FAILED_VALIDATION
+ * --model=<llm model> --prompt-version=<prompt label>
+ *
+ * --preview only prints how many articles match. Otherwise a backfill is
+ * created (the same as POST /api/news-backfills) and its progress is printed
+ * until it finishes; the items are run by the server's job worker, so the
+ * server must be running. Ctrl+C stops following, not the backfill.
+ */
+
+const POLL_INTERVAL_MS = 10_000;
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string | true> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) {
+      console.error(`Unknown argument: ${arg}`);
+      process.exit(1);
+    }
+    args[match[1]] = match[2] ?? true;
+  }
+  return args;
+};
+
+const value = (arg: string | true | undefined) => (typeof arg === "string" && arg ? arg : undefined);
+
+async function backfillNews() {
+  const args = parseArgs(process.argv.slice(2));
+  const orgId = value(args.org);
+  if (!orgId) {
+    console.error("--org=<org id> is required");
+    process.exit(1);
+  }
+
+  const parsed = createNewsBackfillSchema.safeParse({
+    filters: {
+      from: value(args.from),
+      to: value(args.to),
+      source_name: value(args.source),
+      project_id: value(args.project),
+      ai_status: value(args["ai-status"]),
+      llm_model: value(args.model),
+      prompt_version: value(args["prompt-version"]),
+    },
+    dry_run: args["dry-run"] === true,
+    rate_per_minute: args.rate === undefined ? undefined : Number(args.rate),
+  });
+  if (!parsed.success) {
+    console.error("Invalid arguments:", parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", "));
+    process.exit(1);
+  }
+  const { filters, dry_run, rate_per_minute } = parsed.data;
+
+  const preview = await previewNewsBackfill(pool, orgId, filters);
+  console.log(`${preview.total} matching articles (max ${preview.max} per backfill)`);
+  for (const item of preview.sample) {
+    console.log(`  ${item.publish_date ?? "—"}  ${item.ai_status.padEnd(17)}  ${item.headline ?? item.news_id}`);
+  }
+  if (args.preview || preview.total === 0) return;
+
+  const backfill = await createNewsBackfill(pool, {
+    orgId,
+    filters,
+    dryRun: dry_run,
+    ratePerMinute: rate_per_minute,
+  });
+  console.log(`Backfill ${backfill.id} created${backfill.dryRun ? " (dry run)" : ""}: ${backfill.total} articles at ${backfill.ratePerMinute}/min`);
+
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    const progress = await getNewsBackfill(pool, orgId, backfill.id);
+    if (!progress) break;
+
+    const { pending, queued, completed, failed } = progress.counts;
+    console.log(`  ${completed + failed}/${progress.total} done (${completed} ok, ${failed} failed), ${queued} queued, ${pending} pending`);
+    if (progress.status !== "running") {
+      console.log(`Backfill ${progress.status}`);
+      break;
+    }
+  }
+}
+
+backfillNews()
+  .catch((err) => {
+    console.error(err?.message ?? err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
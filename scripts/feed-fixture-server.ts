@@ -0,0 +1,161 @@
+import http from "http";
+
+/**
+ * Local fixture server for the news feed connectors.
+ *
+ *   npx tsx scripts/feed-fixture-server.ts            # http://localhost:4010
+ *
+ * Serves an RSS feed, an Atom feed, a news sitemap and a sitemap index over
+ * the same three articles. /rss.xml carries full bodies; the Atom feed and the
+ * sitemaps only link to the article pages, so the poller has to fetch them.
+ * /articles/blackstone-india-fund?utm_source=x is the same story under a
+ * tracking URL, and /syndicated/blackstone-india-fund is the same text under
+ * another path, to exercise URL and content-hash dedupe.
+ */
+
+const PORT = Number(process.env.FEED_FIXTURE_PORT || 4010);
+
+interface FixtureArticle {
+  slug: string;
+  title: string;
+  date: string;
+  paragraphs: string[];
+}
+
+const ARTICLES: FixtureArticle[] = [
+  {
+    slug: "blackstone-india-fund",
+    title: "Blackstone closes $1.2bn India real estate fund",
+    date: "2026-03-02T08:30:00Z",
+    paragraphs: [
+      "Blackstone Group L.P. has closed its latest India-focused real estate fund at $1.2 billion, the firm said on Monday.",
+      "The fund drew commitments from Canada Pension Plan Investment Board and GIC, alongside a number of family offices.",
+      "Kirkland & Ellis LLP acted as legal counsel to the fund. Blackstone said it expects to deploy the capital over three years across office parks and logistics assets.",
+    ],
+  },
+  {
+    slug: "sequoia-leads-series-b",
+    title: "Sequoia Capital India leads $40m Series B in Acme Pvt Ltd",
+    date: "2026-03-03T11:00:00Z",
+    paragraphs: [
+      "Acme Pvt. Ltd., a Bengaluru-based logistics software company, has raised $40 million in a Series B round led by Sequoia Capital India.",
+      "Existing investor Accel also participated. The company plans to use the proceeds to expand into South-East Asia.",
+    ],
+  },
+  {
+    slug: "kkr-exits-healthco",
+    title: "KKR exits HealthCo in secondary sale",
+    date: "2026-03-04T06:15:00Z",
+    paragraphs: [
+      "KKR & Co. Inc. has sold its remaining stake in HealthCo Limited to a consortium led by Temasek, according to people familiar with the matter.",
+      "The deal values HealthCo at roughly $900 million. KKR first invested in the hospital chain in 2019.",
+    ],
+  },
+];
+
+const BASE = `http://localhost:${PORT}`;
+const articleUrl = (a: FixtureArticle) => `${BASE}/articles/${a.slug}`;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const articleBodyHtml = (a: FixtureArticle) => a.paragraphs.map((p) => `<p>${escapeXml(p)}</p>`).join("\n");
+
+const articlePage = (a: FixtureArticle) => `<!doctype html>
+<html>
+<head>
+  <title>${escapeXml(a.title)} | Fixture News</title>
+  <link rel="canonical" href="${articleUrl(a)}">
+  <script>window.analytics = {};</script>
+</head>
+<body>
+  <nav><a href="/">Home</a> | <a href="/deals">Deals</a></nav>
+  <article>
+    <h1>${escapeXml(a.title)}</h1>
+    ${articleBodyHtml(a)}
+  </article>
+  <footer>© Fixture News</footer>
+</body>
+</html>`;
+
+const rss = () => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Fixture News</title>
+    <link>${BASE}/</link>
+    ${ARTICLES.map(
+      (a) => `<item>
+      <title>${escapeXml(a.title)}</title>
+      <link>${articleUrl(a)}?utm_source=rss&amp;utm_medium=feed</link>
+      <guid isPermaLink="false">${a.slug}</guid>
+      <pubDate>${new Date(a.date).toUTCString()}</pubDate>
+      <description>${escapeXml(a.paragraphs[0])}</description>
+      <content:encoded><![CDATA[${articleBodyHtml(a)}]]></content:encoded>
+    </item>`
+    ).join("\n    ")}
+  </channel>
+</rss>`;
+
+const atom = () => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Fixture News</title>
+  <id>${BASE}/</id>
+  <updated>${ARTICLES[ARTICLES.length - 1].date}</updated>
+  ${ARTICLES.map(
+    (a) => `<entry>
+    <title type="html">${escapeXml(a.title)}</title>
+    <link rel="alternate" type="text/html" href="${articleUrl(a)}"/>
+    <id>urn:fixture:${a.slug}</id>
+    <published>${a.date}</published>
+    <updated>${a.date}</updated>
+    <summary>${escapeXml(a.paragraphs[0])}</summary>
+  </entry>`
+  ).join("\n  ")}
+</feed>`;
+
+const sitemap = () => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+  ${[...ARTICLES.map((a) => ({ a, loc: articleUrl(a) })), { a: ARTICLES[0], loc: `${BASE}/syndicated/${ARTICLES[0].slug}` }]
+    .map(
+      ({ a, loc }) => `<url>
+    <loc>${loc}</loc>
+    <news:news>
+      <news:publication><news:name>Fixture News</news:name><news:language>en</news:language></news:publication>
+      <news:publication_date>${a.date}</news:publication_date>
+      <news:title>${escapeXml(a.title)}</news:title>
+    </news:news>
+  </url>`
+    )
+    .join("\n  ")}
+</urlset>`;
+
+const sitemapIndex = () => `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>${BASE}/sitemap.xml</loc></sitemap>
+</sitemapindex>`;
+
+export const createFeedFixtureServer = () =>
+  http.createServer((req, res) => {
+    const path = new URL(req.url || "/", BASE).pathname;
+    const send = (status: number, type: string, body: string) => {
+      res.writeHead(status, { "Content-Type": `${type}; charset=utf-8` });
+      res.end(body);
+    };
+
+    if (path === "/rss.xml") return send(200, "application/rss+xml", rss());
+    if (path === "/atom.xml") return send(200, "application/atom+xml", atom());
+    if (path === "/sitemap.xml") return send(200, "application/xml", sitemap());
+    if (path === "/sitemap-index.xml") return send(200, "application/xml", sitemapIndex());
+
+    const match = path.match(/^\/(articles|syndicated)\/([a-z0-9-]+)$/);
+    const article = match && ARTICLES.find((a) => a.slug === match[2]);
+    if (article) return send(200, "text/html", articlePage(article));
+
+    send(404, "text/plain", "not found");
+  });
+
+if (process.argv[1]?.endsWith("feed-fixture-server.ts")) {
+  createFeedFixtureServer().listen(PORT, () => {
+    console.log(`Feed fixtures on ${BASE}: /rss.xml /atom.xml /sitemap.xml /sitemap-index.xml`);
+  });
+}
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { drizzle } from "drizzle-orm/node-postgres";
 import pg from "pg";
 import * as schema from "@shared/schema";
@@ -121,5 +122,118 @@ const pool = new Pool({
   ssl: isSupabase ? { rejectUnauthorized: false } : undefined,
 });
 
+/* -------------------------------
+   Per-request org transactions
+-------------------------------- */
+// Roles created by supabase_migrations/enable_org_rls.sql
+export const ORG_APP_ROLE = "annonest_app";
+export const ORG_SUPER_ADMIN_ROLE = "annonest_super_admin";
+
+interface OrgTransaction {
+  client: pg.PoolClient | null;
+  // Statements run one at a time; finishing waits for the last one
+  queue: Promise<unknown>;
+}
+
+const orgTransactions = new AsyncLocalStorage<OrgTransaction>();
+const poolQuery = pool.query.bind(pool) as (...args: any[]) => Promise<any>;
+
+// Every query on the pool (raw or through drizzle) joins the current request's
+// transaction when there is one, so RLS policies see app.current_org. A failed
+// statement aborts that transaction, even when the handler catches the error.
+pool.query = ((...args: any[]) => {
+  const tx = orgTransactions.getStore();
+  if (!tx?.client) {
+    return poolQuery(...args);
+  }
+  const client = tx.client;
+  const run = tx.queue.then(() => (client.query as (...a: any[]) => Promise<any>)(...args));
+  tx.queue = run.catch(() => {});
+  return run;
+}) as typeof pool.query;
+
+/**
+ * Runs fn inside a transaction bound to orgId. Regular users run as
+ * ORG_APP_ROLE, so RLS limits every statement to their org; super admins run
+ * as ORG_SUPER_ADMIN_ROLE, which bypasses RLS. fn receives a finish callback
+ * that commits (or rolls back) and releases the connection, and rejects when
+ * the commit did not happen; anything still running afterwards, such as
+ * background jobs, falls back to the plain pool.
+ */
+export async function runInOrgTransaction(
+  context: { orgId: string; isSuperAdmin: boolean },
+  fn: (finish: (commit: boolean) => Promise<void>) => void,
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`SET LOCAL ROLE ${context.isSuperAdmin ? ORG_SUPER_ADMIN_ROLE : ORG_APP_ROLE}`);
+    await client.query("SELECT set_config('app.current_org', $1, true)", [context.orgId]);
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    client.release();
+    throw error;
+  }
+
+  const tx: OrgTransaction = { client, queue: Promise.resolve() };
+  let finished: Promise<void> | null = null;
+
+  const finish = (commit: boolean) => {
+    if (!finished) {
+      // Statements issued from here on no longer join this transaction
+      tx.client = null;
+      finished = tx.queue
+        .then(() => client.query(commit ? "COMMIT" : "ROLLBACK"))
+        .then(
+          (result) => {
+            client.release();
+            // Postgres answers COMMIT of an aborted transaction with a ROLLBACK
+            if (commit && result.command !== "COMMIT") {
+              throw new Error("ORG_TRANSACTION_ABORTED");
+            }
+          },
+          (error) => {
+            client.release(error);
+            throw error;
+          },
+        );
+    }
+    return finished;
+  };
+
+  orgTransactions.run(tx, () => fn(finish));
+}
+
+/**
+ * Runs fn on one connection of db (a pool) inside BEGIN/COMMIT, rolling back
+ * when it throws. Inside a request's org transaction every statement already
+ * shares one transaction, so fn simply gets db.
+ */
+export async function runInTransaction<T>(db: any, fn: (tx: any) => Promise<T>): Promise<T> {
+  if (orgTransactions.getStore()?.client) {
+    return fn(db);
+  }
+  const client: pg.PoolClient = await db.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function orgRolesInstalled(): Promise<boolean> {
+  const result = await poolQuery(
+    "select count(*)::int as count from pg_roles where rolname = any($1)",
+    [[ORG_APP_ROLE, ORG_SUPER_ADMIN_ROLE]],
+  );
+  return result.rows[0]?.count === 2;
+}
+
 export const db = drizzle(pool, { schema });
 export { pool };
@@ -4,11 +4,17 @@ console.log("DATABASE_URL =", process.env.DATABASE_URL);
 
 import cors from "cors";
 
-import { Pool } from "pg";
+import { pool, orgRolesInstalled } from "./db";
 import { startNewsScheduler } from "./jobs/newsScheduler";
+import { startFeedScheduler } from "./jobs/feedScheduler";
+import { startNewsBackfillScheduler } from "./jobs/newsBackfill";
+import { startStoryClusterScheduler } from "./jobs/storyClusterPropagation";
+import { startJobWorker } from "./jobs/queue";
 
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { assertRoutePolicies, publicRoute } from "./middleware/authorize";
+import { log, requestLogger } from "./middleware/requestLogger";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -31,8 +37,7 @@ app.use(
     allowedHeaders: [
       "Content-Type",
       "Authorization",
-      "x-org-id",
-      "x-user-id"
+      "x-org-id"
     ],
     credentials: true,
   })
@@ -41,22 +46,24 @@ app.use(
 app.options("*", cors());
 
 
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: {
-    rejectUnauthorized: false,
-    ca: undefined,
-  },
-});
-
+// Shared with drizzle so raw queries also join the per-request org transaction
 app.locals.db = pool;
 
 pool.query("select 1")
-  .then(() => {
+  .then(async () => {
     console.log("🟢 DB health check passed");
 
+    if (!(await orgRolesInstalled())) {
+      console.error("❌ Row-level security roles missing; run supabase_migrations/enable_org_rls.sql");
+      process.exit(1);
+    }
+
     // Scheduler will start when server runs
+    startJobWorker(app.locals.db);
     startNewsScheduler(app.locals.db);
+    startFeedScheduler(app.locals.db);
+    startNewsBackfillScheduler(app.locals.db);
+    startStoryClusterScheduler(app.locals.db);
   })
   .catch((err) => {
     console.error("❌ DB health check failed", err);
@@ -91,7 +98,7 @@ app.use(
 app.use(express.urlencoded({ extended: false }));
 
 // 🔍 Supabase debug health check
-app.get("/api/_debug/supabase", (_req, res) => {
+app.get("/api/_debug/supabase", publicRoute, (_req, res) => {
   res.json({
     hasSupabaseUrl: !!process.env.SUPABASE_URL,
     hasServiceRoleKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY,
@@ -99,45 +106,11 @@ app.get("/api/_debug/supabase", (_req, res) => {
   });
 });
 
-export function log(message: string, source = "express") {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-
-  console.log(`${formattedTime} [${source}] ${message}`);
-}
-
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      log(logLine);
-    }
-  });
-
-  next();
-});
+app.use(requestLogger);
 
 (async () => {
   await registerRoutes(httpServer, app);
+  assertRoutePolicies(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,42 @@
+import { getNewsFeed, listDueNewsFeeds, pollNewsFeed } from "../services/newsFeeds";
+import { enqueueJob, registerJobHandler } from "./queue";
+
+registerJobHandler("feed.poll", async (job, db) => {
+  const feed = await getNewsFeed(db, job.orgId, job.payload.feedId as string);
+  // Deleted, or paused since the scheduler queued it
+  if (!feed || (!feed.isActive && !job.payload.manual)) return;
+
+  const result = await pollNewsFeed(db, feed);
+  console.log(`[feeds] ${feed.sourceName}: ${result.created} new, ${result.duplicates} duplicate, ${result.failed} failed`);
+});
+
+// One pending poll per feed; manual polls (POST /api/news-feeds/:id/poll) run for paused feeds too
+export const enqueueFeedPoll = (
+  db: any,
+  { orgId, feedId, manual = false }: { orgId: string; feedId: string; manual?: boolean }
+) =>
+  enqueueJob(db, {
+    orgId,
+    type: "feed.poll",
+    payload: { feedId, manual },
+    dedupeKey: feedId,
+    // A failed poll is retried at the next interval anyway
+    maxAttempts: 2,
+  });
+
+export const startFeedScheduler = (db: any) => {
+  console.log("🕒 Feed scheduler started");
+
+  /* --------------------------------
+     Enqueue feeds whose interval has passed
+  --------------------------------- */
+  setInterval(async () => {
+    try {
+      for (const feed of await listDueNewsFeeds(db)) {
+        await enqueueFeedPoll(db, { orgId: feed.orgId, feedId: feed.id });
+      }
+    } catch (err) {
+      console.error("Scheduler feeds failed:", err);
+    }
+  }, 60_000); // every 1 minute
+};
@@ -0,0 +1,76 @@
+import { runInTransaction } from "../db";
+import {
+  completeFinishedBackfills,
+  computeReprocessingDiff,
+  releaseBackfillItems,
+  setBackfillItemResult,
+} from "../services/newsBackfills";
+import { processNewsJob } from "./processNewsJob";
+import { enqueueJob, registerJobHandler } from "./queue";
+
+const BACKFILL_MAX_ATTEMPTS = 3;
+
+registerJobHandler("news.backfill", async (job, db) => {
+  const backfillId = job.payload.backfillId as string;
+  const newsId = job.payload.newsId as string;
+
+  try {
+    if (job.payload.dryRun) {
+      const diff = await computeReprocessingDiff(db, { orgId: job.orgId, newsId });
+      await setBackfillItemResult(db, { backfillId, newsId, status: "completed", diff });
+    } else {
+      await processNewsJob({
+        db,
+        orgId: job.orgId,
+        newsId,
+        userId: (job.payload.userId as string | undefined) ?? undefined,
+        jobId: job.id,
+        attempt: job.attempts,
+      });
+      await setBackfillItemResult(db, { backfillId, newsId, status: "completed" });
+    }
+  } catch (err) {
+    // The item stays queued while the job still has attempts left
+    await setBackfillItemResult(db, {
+      backfillId,
+      newsId,
+      status: job.attempts >= job.maxAttempts ? "failed" : "queued",
+      error: err,
+    });
+    throw err;
+  }
+});
+
+export const startNewsBackfillScheduler = (db: any) => {
+  console.log("🕒 Backfill scheduler started");
+
+  /* --------------------------------
+     Release the next batch of every
+     running backfill, then close the
+     ones with nothing left to run
+  --------------------------------- */
+  setInterval(async () => {
+    try {
+      // Items only count as queued once their jobs exist
+      await runInTransaction(db, async (tx) => {
+        for (const item of await releaseBackfillItems(tx)) {
+          await enqueueJob(tx, {
+            orgId: item.orgId,
+            type: "news.backfill",
+            payload: {
+              backfillId: item.backfillId,
+              newsId: item.newsId,
+              dryRun: item.dryRun,
+              userId: item.userId ?? undefined,
+            },
+            dedupeKey: `${item.backfillId}:${item.newsId}`,
+            maxAttempts: BACKFILL_MAX_ATTEMPTS,
+          });
+        }
+      });
+      await completeFinishedBackfills(db);
+    } catch (err) {
+      console.error("Scheduler backfill failed:", err);
+    }
+  }, 60_000); // every 1 minute
+};
@@ -1,10 +1,35 @@
+import { closeAbandonedRuns } from "../services/pipelineRuns";
 import { processNewsJob } from "./processNewsJob";
+import { enqueueJob, registerJobHandler } from "./queue";
+
+registerJobHandler("news.process", async (job, db) => {
+  await processNewsJob({
+    db,
+    orgId: job.orgId,
+    newsId: job.payload.newsId as string,
+    userId: (job.payload.userId as string | undefined) ?? undefined,
+    jobId: job.id,
+    attempt: job.attempts,
+  });
+});
+
+// One pending pipeline run per article; enqueueing again while it is pending is a no-op
+export const enqueueNewsProcessing = (
+  db: any,
+  { orgId, newsId, userId }: { orgId: string; newsId: string; userId?: string }
+) =>
+  enqueueJob(db, {
+    orgId,
+    type: "news.process",
+    payload: { newsId, userId },
+    dedupeKey: newsId,
+  });
 
 export const startNewsScheduler = (db: any) => {
   console.log("🕒 News scheduler started");
 
   /* --------------------------------
-     Process NEW news
+     Enqueue NEW news
   --------------------------------- */
   setInterval(async () => {
     try {
@@ -14,18 +39,12 @@ export const startNewsScheduler = (db: any) => {
         from news
         where processing_status = 'NEW'
         order by created_at asc
-        limit 5
+        limit 50
         `
       );
 
       for (const row of result.rows) {
-        processNewsJob({
-          db,
-          orgId: row.org_id,
-          newsId: row.id,
-        }).catch((err) => {
-          console.error("Scheduled job failed:", err);
-        });
+        await enqueueNewsProcessing(db, { orgId: row.org_id, newsId: row.id });
       }
     } catch (err) {
       console.error("Scheduler NEW failed:", err);
@@ -33,31 +52,42 @@ export const startNewsScheduler = (db: any) => {
   }, 60_000); // every 1 minute
 
   /* --------------------------------
-     Retry FAILED news (controlled)
+     Recover news stuck in PROCESSING
+     (no queued or running job left for it, e.g. after a crash).
+     Backfill jobs rerun the pipeline under their own dedupe key,
+     so they count too. Articles whose job was dead-lettered
+     become FAILED.
   --------------------------------- */
   setInterval(async () => {
     try {
-      const result = await db.query(
+      await db.query(
         `
-        select id, org_id
-        from news
-        where processing_status = 'FAILED'
-        order by updated_at asc
-        limit 3
+        update news n
+        set processing_status = case
+          when exists (
+            select 1
+            from jobs d
+            where d.type = 'news.process'
+              and d.dedupe_key = n.id::text
+              and d.status = 'dead'
+          ) then 'FAILED'
+          else 'NEW'
+        end
+        where n.processing_status = 'PROCESSING'
+          and not exists (
+            select 1
+            from jobs j
+            where j.status in ('queued', 'running')
+              and (
+                (j.type = 'news.process' and j.dedupe_key = n.id::text)
+                or (j.type = 'news.backfill' and j.payload->>'newsId' = n.id::text)
+              )
+          )
         `
       );
-
-      for (const row of result.rows) {
-        processNewsJob({
-          db,
-          orgId: row.org_id,
-          newsId: row.id,
-        }).catch((err) => {
-          console.error("Retry scheduler failed:", err);
-        });
-      }
+      await closeAbandonedRuns(db);
     } catch (err) {
-      console.error("Scheduler FAILED failed:", err);
+      console.error("Scheduler PROCESSING recovery failed:", err);
     }
   }, 10 * 60_000); // every 10 minutes
 };
@@ -1,16 +1,25 @@
 import { generateAi } from "../services/aiGeneration";
-import { linkEntitiesFromAi } from "../services/entityLinker";
+import { draftDealFromAiOutput } from "../services/dealDrafts";
+import { linkEntitiesFromAiOutput } from "../services/entityLinks";
+import { cleanNewsText } from "../services/newsCleaning";
+import { startPipelineRun } from "../services/pipelineRuns";
+import { assignStoryCluster } from "../services/storyClusters";
+import { translateNews } from "../services/translation";
 
 export const processNewsJob = async ({
   db,
   orgId,
   newsId,
   userId,
+  jobId,
+  attempt,
 }: {
   db: any;
   orgId: string;
   newsId: string;
   userId?: string;
+  jobId?: string;
+  attempt?: number;
 }) => {
   /* --------------------------------
      Mark as PROCESSING
@@ -25,7 +34,48 @@ export const processNewsJob = async ({
     [newsId, orgId]
   );
 
+  /* --------------------------------
+     Record the run (pipeline_runs)
+  --------------------------------- */
+  const run = await startPipelineRun(db, { orgId, newsId, jobId, attempt });
+
   try {
+    await run.stage("fetch", async () => {
+      /* --------------------------------
+         0️⃣ Clean text (first run only)
+         Extraction is deterministic, so a
+         failure here would fail every retry;
+         the prompt falls back to raw_text.
+      --------------------------------- */
+      try {
+        await cleanNewsText(db, { orgId, newsId });
+      } catch (err) {
+        console.error(`[news] cleaning failed for ${newsId}:`, err);
+      }
+
+      /* --------------------------------
+         0️⃣ Translate non-English articles
+         The prompt uses the English version
+         when there is one, else the original.
+      --------------------------------- */
+      try {
+        await translateNews(db, { orgId, newsId });
+      } catch (err) {
+        console.error(`[news] translation failed for ${newsId}:`, err);
+      }
+
+      /* --------------------------------
+         0️⃣ Near-duplicate clustering
+         Siblings of an existing story get
+         their annotation tasks put on hold.
+      --------------------------------- */
+      try {
+        await assignStoryCluster(db, { orgId, newsId });
+      } catch (err) {
+        console.error(`[news] clustering failed for ${newsId}:`, err);
+      }
+    });
+
     /* --------------------------------
        1️⃣ Generate AI
     --------------------------------- */
@@ -34,15 +84,34 @@ export const processNewsJob = async ({
       orgId,
       newsId,
       userId,
+      run,
     });
 
     /* --------------------------------
        2️⃣ Link entities
     --------------------------------- */
-    await linkEntitiesFromAi({
-      db,
-      aiOutputId,
-    });
+    await run.stage("link", () =>
+      linkEntitiesFromAiOutput({
+        db,
+        aiOutputId,
+      })
+    );
+
+    /* --------------------------------
+       3️⃣ Draft deal for analyst approval
+       The output and links are already
+       stored, so a failure is only logged.
+    --------------------------------- */
+    try {
+      await run.stage("draft", () =>
+        draftDealFromAiOutput({
+          db,
+          aiOutputId,
+        })
+      );
+    } catch (err) {
+      console.error(`[news] deal drafting failed for ${newsId}:`, err);
+    }
 
     /* --------------------------------
        Mark as COMPLETED
@@ -56,6 +125,7 @@ export const processNewsJob = async ({
       `,
       [newsId, orgId]
     );
+    await run.complete();
 
     return { status: "COMPLETED" };
   } catch (err) {
@@ -71,6 +141,9 @@ export const processNewsJob = async ({
       `,
       [newsId, orgId]
     );
+    await run.fail(err).catch((recordErr) =>
+      console.error(`[news] could not record failed run for ${newsId}:`, recordErr)
+    );
 
     throw err;
   }
@@ -0,0 +1,100 @@
+import pg from "pg";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+/**
+ * Job claiming against a real Postgres. Set TEST_DATABASE_URL as for
+ * middleware/tenancy.test.ts; the suite creates and drops its own jobs table.
+ */
+const databaseUrl = process.env.TEST_DATABASE_URL;
+
+const ORG_A = "00000000-0000-0000-0000-00000000000a";
+const ORG_B = "00000000-0000-0000-0000-00000000000b";
+
+describe.skipIf(!databaseUrl)("job queue", () => {
+  let admin: pg.Client;
+  let pool: pg.Pool;
+  let queue: typeof import("./queue");
+
+  const options = { pollIntervalMs: 5_000, concurrency: 8, perOrgConcurrency: 2, leaseMs: 60_000 };
+
+  const runningPerOrg = async () =>
+    Object.fromEntries(
+      (
+        await admin.query("select org_id, count(*)::int as count from jobs where status = 'running' group by org_id")
+      ).rows.map((row) => [row.org_id, row.count]),
+    );
+
+  beforeAll(async () => {
+    admin = new pg.Client({ connectionString: databaseUrl });
+    await admin.connect();
+    // The columns of supabase_migrations/create_jobs.sql, without the organizations reference
+    await admin.query(`
+      drop table if exists jobs;
+      create table jobs (
+        id uuid primary key default gen_random_uuid(),
+        org_id uuid not null,
+        type text not null,
+        payload jsonb not null default '{}'::jsonb,
+        dedupe_key text,
+        status text not null default 'queued',
+        attempts integer not null default 0,
+        max_attempts integer not null default 5,
+        run_at timestamp not null default now(),
+        locked_by text,
+        locked_until timestamp,
+        last_error text,
+        created_at timestamp default now(),
+        updated_at timestamp default now(),
+        completed_at timestamp
+      );
+      create unique index jobs_active_dedupe_idx on jobs(type, dedupe_key)
+        where dedupe_key is not null and status in ('queued', 'running');
+    `);
+
+    pool = (await import("../db")).pool;
+    queue = await import("./queue");
+    queue.registerJobHandler("news.process", async () => {});
+  });
+
+  beforeEach(async () => {
+    await admin.query("truncate jobs");
+  });
+
+  afterAll(async () => {
+    await pool?.end();
+    await admin?.query("drop table if exists jobs");
+    await admin?.end();
+  });
+
+  it("keeps concurrent claims within the per-org limit", async () => {
+    for (let i = 0; i < 6; i++) {
+      await queue.enqueueJob(pool, { orgId: ORG_A, type: "news.process", payload: { i } });
+    }
+    await queue.enqueueJob(pool, { orgId: ORG_B, type: "news.process" });
+
+    // Workers that find an org busy skip it until their next poll, so claim in rounds
+    let claimed = 0;
+    for (let round = 0; round < 5; round++) {
+      const jobs = await Promise.all(Array.from({ length: 8 }, () => queue.claimJob(pool, options)));
+      claimed += jobs.filter(Boolean).length;
+      const running = await runningPerOrg();
+      expect(running[ORG_A] ?? 0).toBeLessThanOrEqual(2);
+      expect(running[ORG_B] ?? 0).toBeLessThanOrEqual(2);
+    }
+
+    expect(await runningPerOrg()).toEqual({ [ORG_A]: 2, [ORG_B]: 1 });
+    expect(claimed).toBe(3);
+  });
+
+  it("claims for an org again once a running job finishes", async () => {
+    for (let i = 0; i < 3; i++) {
+      await queue.enqueueJob(pool, { orgId: ORG_A, type: "news.process", payload: { i } });
+    }
+    expect(await queue.claimJob(pool, options)).not.toBeNull();
+    expect(await queue.claimJob(pool, options)).not.toBeNull();
+    expect(await queue.claimJob(pool, options)).toBeNull();
+
+    await admin.query("update jobs set status = 'completed' where id = (select id from jobs where status = 'running' limit 1)");
+    expect(await queue.claimJob(pool, options)).toMatchObject({ orgId: ORG_A, status: "running", attempts: 1 });
+  });
+});
@@ -0,0 +1,332 @@
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import type { Job, JobType } from "@shared/schema";
+import { runInTransaction } from "../db";
+
+/**
+ * Postgres-backed job queue.
+ *
+ * Jobs live in the jobs table. A worker claims a due job by moving it from
+ * queued to running under a per-org advisory lock (see claimJob), so several
+ * server instances can poll the same table without processing a job twice or
+ * exceeding an org's concurrency, and holds each one under a lease that it
+ * extends while the handler runs. A job whose lease expires (the instance
+ * crashed) is picked up again. Failures are retried with exponential backoff
+ * until maxAttempts, after which the job is dead-lettered (status 'dead').
+ */
+
+export type JobHandler = (job: Job, db: any) => Promise<void>;
+
+export interface EnqueueJobInput {
+  orgId: string;
+  type: JobType;
+  payload?: Record<string, unknown>;
+  dedupeKey?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface JobWorkerOptions {
+  pollIntervalMs?: number;
+  // Jobs run at once by this instance
+  concurrency?: number;
+  // Jobs running at once for a single org, across all instances
+  perOrgConcurrency?: number;
+  leaseMs?: number;
+}
+
+const DEFAULT_WORKER_OPTIONS: Required<JobWorkerOptions> = {
+  pollIntervalMs: 5_000,
+  concurrency: 4,
+  perOrgConcurrency: 2,
+  leaseMs: 5 * 60_000,
+};
+
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60_000;
+
+const WORKER_ID = `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+
+const handlers = new Map<JobType, JobHandler>();
+
+export const registerJobHandler = (type: JobType, handler: JobHandler) => {
+  handlers.set(type, handler);
+};
+
+const toJob = (row: any): Job => ({
+  id: row.id,
+  orgId: row.org_id,
+  type: row.type,
+  payload: row.payload,
+  dedupeKey: row.dedupe_key,
+  status: row.status,
+  attempts: row.attempts,
+  maxAttempts: row.max_attempts,
+  runAt: row.run_at,
+  lockedBy: row.locked_by,
+  lockedUntil: row.locked_until,
+  lastError: row.last_error,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at,
+});
+
+export const backoffMs = (attempts: number) =>
+  Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+
+/* --------------------------------
+   Producing
+--------------------------------- */
+// Returns null when a job with the same dedupeKey is already queued or running
+export const enqueueJob = async (db: any, input: EnqueueJobInput): Promise<Job | null> => {
+  const result = await db.query(
+    `
+    insert into jobs (org_id, type, payload, dedupe_key, run_at, max_attempts)
+    values ($1, $2, $3, $4, coalesce($5, now()), coalesce($6, 5))
+    on conflict (type, dedupe_key)
+      where dedupe_key is not null and status in ('queued', 'running')
+      do nothing
+    returning *
+    `,
+    [
+      input.orgId,
+      input.type,
+      JSON.stringify(input.payload ?? {}),
+      input.dedupeKey ?? null,
+      input.runAt ?? null,
+      input.maxAttempts ?? null,
+    ]
+  );
+  return result.rows[0] ? toJob(result.rows[0]) : null;
+};
+
+// Puts a dead-lettered job back on the queue with a fresh attempt budget
+export const requeueDeadJob = async (db: any, id: string, orgId: string | null): Promise<Job | null> => {
+  const result = await db.query(
+    `
+    update jobs
+    set status = 'queued',
+        attempts = 0,
+        run_at = now(),
+        last_error = null,
+        updated_at = now()
+    where id = $1
+      and status = 'dead'
+      and ($2::text is null or org_id::text = $2)
+    returning *
+    `,
+    [id, orgId]
+  );
+  return result.rows[0] ? toJob(result.rows[0]) : null;
+};
+
+export const listJobs = async (
+  db: any,
+  { orgId, status, limit = 100 }: { orgId: string | null; status?: string; limit?: number }
+): Promise<Job[]> => {
+  const result = await db.query(
+    `
+    select *
+    from jobs
+    where ($1::text is null or org_id::text = $1)
+      and ($2::text is null or status = $2)
+    order by created_at desc
+    limit $3
+    `,
+    [orgId, status ?? null, limit]
+  );
+  return result.rows.map(toJob);
+};
+
+/* --------------------------------
+   Consuming
+--------------------------------- */
+// Claims one due job, skipping rows other workers hold and orgs already at their cap
+// Queued jobs looked at per claim, so an org at its limit does not hold up the others
+const CLAIM_CANDIDATES = 20;
+
+/**
+ * Claims the oldest due job whose org is below perOrgConcurrency. Claims for
+ * one org are serialised with a transaction-scoped advisory lock, so two
+ * workers cannot both count the same running jobs and overshoot the limit;
+ * an org another worker is claiming for right now is skipped this round.
+ */
+export const claimJob = async (db: any, options: Required<JobWorkerOptions>): Promise<Job | null> =>
+  runInTransaction(db, async (tx) => {
+    const candidates = await tx.query(
+      `
+      select id, org_id
+      from jobs
+      where status = 'queued'
+        and run_at <= now()
+        and type = any($1)
+      order by run_at asc
+      limit $2
+      `,
+      [Array.from(handlers.keys()), CLAIM_CANDIDATES]
+    );
+
+    const skippedOrgs = new Set<string>();
+    for (const candidate of candidates.rows) {
+      const orgId = String(candidate.org_id);
+      if (skippedOrgs.has(orgId)) continue;
+
+      const locked = await tx.query(`select pg_try_advisory_xact_lock(hashtext('jobs:' || $1)) as locked`, [orgId]);
+      const running = locked.rows[0].locked
+        ? await tx.query(
+            `
+            select count(*)::int as count
+            from jobs
+            where org_id = $1
+              and status = 'running'
+              and locked_until > now()
+            `,
+            [candidate.org_id]
+          )
+        : null;
+      if (!running || running.rows[0].count >= options.perOrgConcurrency) {
+        skippedOrgs.add(orgId);
+        continue;
+      }
+
+      const claimed = await tx.query(
+        `
+        update jobs
+        set status = 'running',
+            locked_by = $2,
+            locked_until = now() + ($3::int * interval '1 millisecond'),
+            attempts = attempts + 1,
+            updated_at = now()
+        where id = $1
+          and status = 'queued'
+        returning *
+        `,
+        [candidate.id, WORKER_ID, options.leaseMs]
+      );
+      // Otherwise another worker claimed it since the candidates were read
+      if (claimed.rows[0]) return toJob(claimed.rows[0]);
+    }
+    return null;
+  });
+
+const extendLease = async (db: any, job: Job, leaseMs: number) => {
+  await db.query(
+    `
+    update jobs
+    set locked_until = now() + ($3::int * interval '1 millisecond'),
+        updated_at = now()
+    where id = $1
+      and locked_by = $2
+      and status = 'running'
+    `,
+    [job.id, WORKER_ID, leaseMs]
+  );
+};
+
+const completeJob = async (db: any, job: Job) => {
+  await db.query(
+    `
+    update jobs
+    set status = 'completed',
+        locked_by = null,
+        locked_until = null,
+        completed_at = now(),
+        updated_at = now()
+    where id = $1
+      and locked_by = $2
+    `,
+    [job.id, WORKER_ID]
+  );
+};
+
+const failJob = async (db: any, job: Job, error: unknown) => {
+  const dead = job.attempts >= job.maxAttempts;
+  await db.query(
+    `
+    update jobs
+    set status = $3,
+        run_at = now() + ($4::int * interval '1 millisecond'),
+        last_error = $5,
+        locked_by = null,
+        locked_until = null,
+        updated_at = now()
+    where id = $1
+      and locked_by = $2
+    `,
+    [job.id, WORKER_ID, dead ? "dead" : "queued", dead ? 0 : backoffMs(job.attempts), String(error)]
+  );
+  if (dead) {
+    console.error(`[jobs] ${job.type} ${job.id} dead-lettered after ${job.attempts} attempts:`, error);
+  }
+};
+
+// Jobs whose worker stopped renewing the lease (crash, deploy) go back on the queue
+export const recoverExpiredLeases = async (db: any): Promise<number> => {
+  const result = await db.query(
+    `
+    update jobs
+    set status = case when attempts >= max_attempts then 'dead' else 'queued' end,
+        last_error = coalesce(last_error, 'lease expired'),
+        locked_by = null,
+        locked_until = null,
+        updated_at = now()
+    where status = 'running'
+      and locked_until < now()
+    returning id
+    `
+  );
+  return result.rows.length;
+};
+
+const runJob = async (db: any, job: Job, leaseMs: number) => {
+  const handler = handlers.get(job.type);
+  const heartbeat = setInterval(() => {
+    extendLease(db, job, leaseMs).catch((err) => {
+      console.error(`[jobs] Failed to extend lease for ${job.id}:`, err);
+    });
+  }, Math.floor(leaseMs / 2));
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`);
+    }
+    await handler(job, db);
+    await completeJob(db, job);
+  } catch (err) {
+    await failJob(db, job, err);
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+export const startJobWorker = (db: any, opts: JobWorkerOptions = {}) => {
+  const options = { ...DEFAULT_WORKER_OPTIONS, ...opts };
+  let active = 0;
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      await recoverExpiredLeases(db);
+      while (active < options.concurrency) {
+        const job = await claimJob(db, options);
+        if (!job) break;
+        active++;
+        runJob(db, job, options.leaseMs)
+          .catch((err) => console.error(`[jobs] ${job.type} ${job.id} crashed:`, err))
+          .finally(() => {
+            active--;
+          });
+      }
+    } catch (err) {
+      console.error("[jobs] Poll failed:", err);
+    } finally {
+      polling = false;
+    }
+  };
+
+  console.log(`🕒 Job worker ${WORKER_ID} started`);
+  setInterval(poll, options.pollIntervalMs);
+  poll();
+};
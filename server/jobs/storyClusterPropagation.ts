@@ -0,0 +1,35 @@
+import { listClustersDueForPropagation, propagateFromNews } from "../services/storyClusters";
+import { enqueueJob, registerJobHandler } from "./queue";
+
+registerJobHandler("story_cluster.propagate", async (job, db) => {
+  // A no-op when the article is no longer the canonical one of a cluster
+  await propagateFromNews(db, { orgId: job.orgId, newsId: job.payload.newsId as string });
+});
+
+// Copies a canonical article's finished work to its siblings; one pending run per article
+export const enqueueClusterPropagation = (db: any, { orgId, newsId }: { orgId: string; newsId: string }) =>
+  enqueueJob(db, {
+    orgId,
+    type: "story_cluster.propagate",
+    payload: { newsId },
+    dedupeKey: newsId,
+  });
+
+export const startStoryClusterScheduler = (db: any) => {
+  console.log("🕒 Story cluster scheduler started");
+
+  /* --------------------------------
+     Propagate completed canonical tasks
+     (tasks completed outside the API, e.g.
+     from the article page, are only seen here)
+  --------------------------------- */
+  setInterval(async () => {
+    try {
+      for (const cluster of await listClustersDueForPropagation(db)) {
+        await enqueueClusterPropagation(db, cluster);
+      }
+    } catch (err) {
+      console.error("Scheduler story clusters failed:", err);
+    }
+  }, 60_000); // every 1 minute
+};
@@ -0,0 +1,73 @@
+import type { Request, Response, NextFunction } from "express";
+import { resolveAccessToken, type AuthenticatedUser } from "../services/session";
+import { consumeRateLimit, isApiKeyToken, resolveApiKey } from "../services/apiKeys";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+// These endpoints receive either no token or a Supabase token in the
+// Authorization header, so they must not be verified as session tokens.
+const UNAUTHENTICATED_PATHS = new Set([
+  "/auth/login",
+  "/auth/supabase-login",
+  "/auth/signup",
+  "/auth/refresh",
+]);
+
+// navigator.sendBeacon cannot set headers, so the lock release beacon
+// carries its access token in the body instead.
+const BODY_TOKEN_PATHS = new Set(["/locks/release-beacon"]);
+
+function extractToken(req: Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.slice(7);
+  }
+  if (BODY_TOKEN_PATHS.has(req.path) && typeof req.body?.accessToken === "string") {
+    return req.body.accessToken;
+  }
+  return null;
+}
+
+/**
+ * Verifies the session access token or org API key (if any) and sets req.user.
+ * Requests without a token pass through unauthenticated; each route's policy
+ * decides whether it requires a user. A present but invalid token is a 401.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (UNAUTHENTICATED_PATHS.has(req.path)) {
+    return next();
+  }
+
+  const token = extractToken(req);
+  if (!token) {
+    return next();
+  }
+
+  try {
+    if (isApiKeyToken(token)) {
+      const { principal, apiKey } = await resolveApiKey(token);
+      const rate = consumeRateLimit(apiKey);
+      res.setHeader("X-RateLimit-Limit", String(rate.limit));
+      res.setHeader("X-RateLimit-Remaining", String(rate.remaining));
+      res.setHeader("X-RateLimit-Reset", String(Math.ceil(rate.resetAt / 1000)));
+      if (!rate.allowed) {
+        res.setHeader("Retry-After", String(Math.max(1, Math.ceil((rate.resetAt - Date.now()) / 1000))));
+        return res.status(429).json({ message: "Rate limit exceeded", error: "rate_limited" });
+      }
+      req.user = principal;
+      return next();
+    }
+
+    req.user = await resolveAccessToken(token);
+    return next();
+  } catch (error: any) {
+    const code = error?.message === "TOKEN_EXPIRED" ? "token_expired" : "invalid_session";
+    return res.status(401).json({ message: "Authentication required", error: code });
+  }
+}
@@ -0,0 +1,40 @@
+import express, { Router } from "express";
+import { createServer } from "http";
+import { describe, expect, it } from "vitest";
+import { registerRoutes } from "../routes";
+import {
+  assertRoutePolicies,
+  getRegisteredApiRoutes,
+  publicRoute,
+  requireAuth,
+  requirePermission,
+} from "./authorize";
+
+describe("route policies", () => {
+  it("attaches a policy to every registered /api route", async () => {
+    const app = express();
+    await registerRoutes(createServer(app), app);
+
+    const routes = getRegisteredApiRoutes(app);
+    expect(routes.length).toBeGreaterThan(0);
+    expect(routes.filter((route) => !route.policy).map((route) => `${route.method} ${route.path}`)).toEqual([]);
+  });
+
+  it("finds routes without a policy, including in nested routers", () => {
+    const app = express();
+    const router = Router();
+    router.get("/covered", requirePermission("nest_annotate:read"), (_req, res) => res.end());
+    router.post("/uncovered", (_req, res) => res.end());
+    app.use("/api/things", router);
+    app.get("/api/open", publicRoute, (_req, res) => res.end());
+    app.get("/api/me", requireAuth, (_req, res) => res.end());
+    app.delete("/api/bare", (_req, res) => res.end());
+
+    const missing = getRegisteredApiRoutes(app).filter((route) => !route.policy);
+    expect(missing.map((route) => `${route.method} ${route.path}`).sort()).toEqual([
+      "DELETE /api/bare",
+      "POST /api/things/uncovered",
+    ]);
+    expect(() => assertRoutePolicies(app)).toThrow(/POST \/api\/things\/uncovered/);
+  });
+});
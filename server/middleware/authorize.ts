@@ -0,0 +1,122 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import {
+  hasPermission,
+  userRoles,
+  type Permission,
+  type PermissionMatrixEntry,
+  type RoutePolicy,
+  type UserRole,
+} from "@shared/schema";
+
+/**
+ * Route-level access policies.
+ *
+ * Every /api route declares exactly one of publicRoute, requireAuth or
+ * requirePermission("<module>:<action>") as its first handler. The policy is
+ * attached to the handler so registered routes can be inspected at startup
+ * (assertRoutePolicies) and rendered as the admin permission matrix.
+ */
+
+type PolicyHandler = RequestHandler & { policy: RoutePolicy };
+
+function withPolicy(policy: RoutePolicy, handler: RequestHandler): PolicyHandler {
+  return Object.assign(handler, { policy });
+}
+
+export const publicRoute = withPolicy({ type: "public" }, (_req, _res, next) => next());
+
+export const requireAuth = withPolicy({ type: "authenticated" }, (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  return next();
+});
+
+export function requirePermission(permission: Permission): PolicyHandler {
+  return withPolicy({ type: "permission", permission }, (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    // API keys carry explicit scopes instead of a role
+    const allowed = req.user.scopes
+      ? req.user.scopes.includes(permission)
+      : hasPermission(req.user.role as UserRole, permission);
+    if (!allowed) {
+      return res.status(403).json({ message: "Insufficient permissions", required: permission });
+    }
+    return next();
+  });
+}
+
+export function policyAllows(policy: RoutePolicy, role: UserRole): boolean {
+  if (policy.type === "permission") {
+    return hasPermission(role, policy.permission);
+  }
+  return true;
+}
+
+/* -------------------------------
+   Registered route inspection
+-------------------------------- */
+export interface RegisteredRoute {
+  method: string;
+  path: string;
+  policy: RoutePolicy | null;
+}
+
+// Express 4 keeps the mount path of a nested router only as a regexp, e.g. /^\/api\/news\/?(?=\/|$)/i
+function mountPathFromLayer(layer: any): string {
+  const source: string = layer.regexp?.source ?? "";
+  if (layer.regexp?.fast_slash || source === "^\\/?(?=\\/|$)") return "";
+  return source
+    .replace(/^\^/, "")
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, "")
+    .replace(/\\\//g, "/");
+}
+
+function collectRoutes(stack: any[], prefix: string, out: RegisteredRoute[]) {
+  for (const layer of stack) {
+    if (layer.route) {
+      const handlers: any[] = layer.route.stack.map((l: any) => l.handle);
+      const policy = handlers.find((h) => h?.policy)?.policy ?? null;
+      const paths: string[] = Array.isArray(layer.route.path) ? layer.route.path : [layer.route.path];
+      for (const method of Object.keys(layer.route.methods)) {
+        for (const path of paths) {
+          out.push({ method: method.toUpperCase(), path: `${prefix}${path}`, policy });
+        }
+      }
+    } else if (layer.name === "router" && layer.handle?.stack) {
+      collectRoutes(layer.handle.stack, `${prefix}${mountPathFromLayer(layer)}`, out);
+    }
+  }
+}
+
+export function getRegisteredApiRoutes(app: Express): RegisteredRoute[] {
+  const routes: RegisteredRoute[] = [];
+  collectRoutes((app as any)._router?.stack ?? [], "", routes);
+  return routes.filter((r) => r.path.startsWith("/api"));
+}
+
+/**
+ * Fails startup when an /api route was registered without a policy, so a new
+ * endpoint can never silently ship as unauthenticated.
+ */
+export function assertRoutePolicies(app: Express) {
+  const missing = getRegisteredApiRoutes(app).filter((r) => !r.policy);
+  if (missing.length > 0) {
+    const list = missing.map((r) => `  ${r.method} ${r.path}`).join("\n");
+    throw new Error(`Routes registered without an access policy:\n${list}`);
+  }
+}
+
+export function buildPermissionMatrix(app: Express): PermissionMatrixEntry[] {
+  return getRegisteredApiRoutes(app)
+    .filter((r): r is RegisteredRoute & { policy: RoutePolicy } => r.policy !== null)
+    .map((r) => ({
+      method: r.method,
+      path: r.path,
+      policy: r.policy,
+      roles: Object.fromEntries(userRoles.map((role) => [role, policyAllows(r.policy, role)])) as Record<UserRole, boolean>,
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+}
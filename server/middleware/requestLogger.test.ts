@@ -0,0 +1,57 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { requestLogger } from "./requestLogger";
+
+const PLAINTEXT_KEY = "ank_0123456789abcdef0123456789abcdef";
+
+describe("request logger", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const logged = async (method: string, url: string) => {
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const res = await fetch(`${baseUrl}${url}`, { method });
+    await res.text();
+    // The line is written on "finish", which can land just after the client has the body
+    await new Promise((resolve) => setImmediate(resolve));
+    return spy.mock.calls.map((args) => args.join(" ")).join("\n");
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(requestLogger);
+    app.post("/api/admin/api-keys", (_req, res) => res.status(201).json({ id: "key-1", key: PLAINTEXT_KEY }));
+    app.post("/api/admin/api-keys/:id/rotate", (_req, res) => res.json({ id: "key-1", key: PLAINTEXT_KEY }));
+    app.post("/api/auth/login", (_req, res) => res.json({ accessToken: "session-token" }));
+    app.get("/api/projects", (_req, res) => res.json([{ id: "project-1" }]));
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("keeps plaintext API keys out of the log", async () => {
+    for (const url of ["/api/admin/api-keys", "/api/admin/api-keys/key-1/rotate"]) {
+      const output = await logged("POST", url);
+      expect(output).toContain(`POST ${url}`);
+      expect(output).not.toContain(PLAINTEXT_KEY);
+    }
+  });
+
+  it("keeps session tokens out of the log", async () => {
+    expect(await logged("POST", "/api/auth/login")).not.toContain("session-token");
+  });
+
+  it("logs other response bodies", async () => {
+    expect(await logged("GET", "/api/projects")).toContain(`GET /api/projects 200 in`);
+    expect(await logged("GET", "/api/projects")).toContain(`:: [{"id":"project-1"}]`);
+  });
+});
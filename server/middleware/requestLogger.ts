@@ -0,0 +1,45 @@
+import type { Request, Response, NextFunction } from "express";
+
+// Responses under these paths carry secrets: session tokens, plaintext API keys
+const SECRET_RESPONSE_PATHS = ["/api/auth/", "/api/admin/api-keys"];
+
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
+
+/**
+ * Logs every /api request with its status and duration, followed by the JSON
+ * response body except where that body may hold a secret.
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const start = Date.now();
+  const path = req.path;
+  let capturedJsonResponse: Record<string, any> | undefined = undefined;
+
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    capturedJsonResponse = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  res.on("finish", () => {
+    const duration = Date.now() - start;
+    if (path.startsWith("/api")) {
+      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+      if (capturedJsonResponse && !SECRET_RESPONSE_PATHS.some((prefix) => path.startsWith(prefix))) {
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      }
+
+      log(logLine);
+    }
+  });
+
+  next();
+}
@@ -0,0 +1,199 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import { readFileSync } from "fs";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import path from "path";
+import pg from "pg";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+/**
+ * Org isolation against a real Postgres: the tables below get the policies of
+ * supabase_migrations/enable_org_rls.sql, and requests run through
+ * orgTransaction exactly as the API routes do.
+ *
+ * Set TEST_DATABASE_URL to a throwaway database (add ?sslmode=disable for a
+ * local server); the suite creates and drops its own tables there.
+ */
+const databaseUrl = process.env.TEST_DATABASE_URL;
+
+describe.skipIf(!databaseUrl)("org row-level security", () => {
+  let admin: pg.Client;
+  let pool: pg.Pool;
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (
+    method: string,
+    url: string,
+    { orgId, superAdmin = false, body }: { orgId: string; superAdmin?: boolean; body?: unknown },
+  ) => {
+    const res = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: {
+        "content-type": "application/json",
+        "x-test-org": orgId,
+        ...(superAdmin ? { "x-test-super-admin": "1" } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  const notesOf = async (orgId: string) =>
+    (await admin.query("select body from rls_test_notes where org_id = $1 order by id", [orgId])).rows.map(
+      (row) => row.body,
+    );
+
+  beforeAll(async () => {
+    admin = new pg.Client({ connectionString: databaseUrl });
+    await admin.connect();
+    await admin.query(`
+      drop table if exists rls_test_notes, rls_test_slots;
+      create table rls_test_notes (
+        id serial primary key,
+        org_id varchar not null,
+        body text not null
+      );
+      -- Checked at COMMIT, so a duplicate only fails once the handler is done
+      create table rls_test_slots (
+        id serial primary key,
+        org_id varchar not null,
+        slot text not null,
+        constraint rls_test_slots_unique unique (org_id, slot) deferrable initially deferred
+      );
+    `);
+    // Other suites apply the same migration; one at a time
+    await admin.query("select pg_advisory_lock(hashtext('enable_org_rls'))");
+    await admin.query(readFileSync(path.resolve(import.meta.dirname, "../../supabase_migrations/enable_org_rls.sql"), "utf8"));
+    await admin.query("select pg_advisory_unlock(hashtext('enable_org_rls'))");
+
+    const db = await import("../db");
+    const { orgTransaction, releaseOrgTransaction } = await import("./tenancy");
+    pool = db.pool;
+    expect(await db.orgRolesInstalled()).toBe(true);
+
+    const app = express();
+    app.use(express.json());
+    // Stands in for authenticate: the org and role come from test headers
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      req.user = {
+        userId: "user-1",
+        orgId: req.headers["x-test-org"] as string,
+        role: req.headers["x-test-super-admin"] ? "super_admin" : "admin",
+        isSuperAdmin: !!req.headers["x-test-super-admin"],
+      };
+      next();
+    });
+    app.use(orgTransaction);
+
+    // No org_id filters anywhere below: RLS alone has to keep orgs apart
+    app.get("/notes", async (_req, res) => {
+      const result = await pool.query("select org_id, body from rls_test_notes order by id");
+      res.json(result.rows);
+    });
+    app.post("/notes", async (req, res) => {
+      try {
+        await pool.query("insert into rls_test_notes (org_id, body) values ($1, $2)", [req.body.org_id, req.body.body]);
+        res.status(201).json({ ok: true });
+      } catch (error: any) {
+        res.status(403).json({ error: error.code });
+      }
+    });
+    app.patch("/notes", async (req, res) => {
+      const result = await pool.query("update rls_test_notes set body = $1", [req.body.body]);
+      res.json({ updated: result.rowCount });
+    });
+    app.delete("/notes", async (_req, res) => {
+      const result = await pool.query("delete from rls_test_notes");
+      res.json({ deleted: result.rowCount });
+    });
+    app.post("/slots", async (req, res) => {
+      await pool.query("insert into rls_test_slots (org_id, slot) values ($1, 'a'), ($1, 'a')", [req.orgId]);
+      res.status(201).json({ ok: true });
+    });
+    // Swallows a failed statement and reports success anyway
+    app.post("/notes/partial", async (req, res) => {
+      await pool.query("insert into rls_test_notes (org_id, body) values ($1, 'partial')", [req.orgId]);
+      await pool.query("select * from rls_test_missing_table").catch(() => null);
+      res.json({ ok: true });
+    });
+
+    // Stands in for a handler waiting on an LLM or a remote fetch
+    app.post("/notes/slow", releaseOrgTransaction, async (req, res) => {
+      const connection = await pool.query("select current_user as role, current_setting('app.current_org', true) as org");
+      await pool.query("insert into rls_test_notes (org_id, body) values ($1, 'slow')", [req.orgId]);
+      res.status(202).json({ ...connection.rows[0], idle: pool.idleCount });
+    });
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(async () => {
+    await admin.query(`
+      truncate rls_test_notes, rls_test_slots;
+      insert into rls_test_notes (org_id, body) values ('org_a', 'a1'), ('org_a', 'a2'), ('org_b', 'b1');
+    `);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    await pool?.end();
+    await admin?.query("drop table if exists rls_test_notes, rls_test_slots");
+    await admin?.end();
+  });
+
+  it("reads only the caller's org", async () => {
+    const res = await request("GET", "/notes", { orgId: "org_a" });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([
+      { org_id: "org_a", body: "a1" },
+      { org_id: "org_a", body: "a2" },
+    ]);
+  });
+
+  it("rejects inserts into another org", async () => {
+    const res = await request("POST", "/notes", { orgId: "org_a", body: { org_id: "org_b", body: "intruder" } });
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe("42501");
+    expect(await notesOf("org_b")).toEqual(["b1"]);
+  });
+
+  it("leaves another org's rows out of updates and deletes", async () => {
+    expect((await request("PATCH", "/notes", { orgId: "org_a", body: { body: "changed" } })).body).toEqual({ updated: 2 });
+    expect((await request("DELETE", "/notes", { orgId: "org_a" })).body).toEqual({ deleted: 2 });
+    expect(await notesOf("org_b")).toEqual(["b1"]);
+  });
+
+  it("lets super admins reach every org", async () => {
+    const res = await request("GET", "/notes", { orgId: "org_a", superAdmin: true });
+    expect(res.body).toHaveLength(3);
+  });
+
+  it("commits writes in the caller's org", async () => {
+    const res = await request("POST", "/notes", { orgId: "org_a", body: { org_id: "org_a", body: "a3" } });
+    expect(res.status).toBe(201);
+    expect(await notesOf("org_a")).toEqual(["a1", "a2", "a3"]);
+  });
+
+  it("answers 500 when the commit fails", async () => {
+    const res = await request("POST", "/slots", { orgId: "org_a" });
+    expect(res.status).toBe(500);
+    expect((await admin.query("select count(*)::int as count from rls_test_slots")).rows[0].count).toBe(0);
+  });
+
+  it("gives the connection back before a released handler runs", async () => {
+    const res = await request("POST", "/notes/slow", { orgId: "org_a" });
+    expect(res.status).toBe(202);
+    expect(res.body.role).not.toBe("annonest_app");
+    expect(res.body.org ?? "").toBe("");
+    expect(res.body.idle).toBeGreaterThan(0);
+    expect(await notesOf("org_a")).toEqual(["a1", "a2", "slow"]);
+  });
+
+  it("does not commit after a failed statement the handler swallowed", async () => {
+    const res = await request("POST", "/notes/partial", { orgId: "org_a" });
+    expect(res.status).toBe(500);
+    expect(await notesOf("org_a")).toEqual(["a1", "a2"]);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Request, Response, NextFunction } from "express";
+import { runInOrgTransaction } from "../db";
+
+declare global {
+  namespace Express {
+    interface Request {
+      orgId?: string;
+    }
+  }
+}
+
+/**
+ * Resolves the org a request operates on. This is always the authenticated
+ * principal's org; only a super_admin may target another org, by sending its
+ * id in the x-org-id header.
+ */
+export function resolveOrgScope(req: Request): string {
+  if (!req.user) {
+    throw new Error("UNAUTHORIZED");
+  }
+  const requested = req.headers["x-org-id"];
+  if (typeof requested === "string" && requested && requested !== req.user.orgId) {
+    if (!req.user.isSuperAdmin) {
+      throw new Error("FORBIDDEN_ORG");
+    }
+    return requested;
+  }
+  return req.user.orgId;
+}
+
+// Mounted in front of the v1 routers so their handlers can read req.orgId
+export function orgScope(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.orgId = resolveOrgScope(req);
+    return next();
+  } catch (error: any) {
+    if (error?.message === "FORBIDDEN_ORG") {
+      return res.status(403).json({ message: "Cannot access another organization" });
+    }
+    return res.status(401).json({ message: "Authentication required" });
+  }
+}
+
+// finish callbacks of requests whose org transaction is still open
+const openOrgTransactions = new WeakMap<Request, (commit: boolean) => Promise<void>>();
+
+/**
+ * Runs the rest of an authenticated request inside an org transaction (see
+ * runInOrgTransaction), so Postgres RLS enforces the org scope even where a
+ * query forgets its org_id filter. The response is held back until the
+ * transaction has finished: a 2xx/3xx response commits, and a commit that
+ * fails (or finds the transaction aborted by a failed statement) turns it
+ * into a 500; error responses roll back.
+ *
+ * Each such request holds one pooled connection (pg's default pool of 10)
+ * until its response goes out, so handlers that wait on LLM calls or remote
+ * fetches either enqueue a job or use releaseOrgTransaction.
+ */
+export function orgTransaction(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return next();
+  }
+
+  let orgId: string;
+  try {
+    orgId = resolveOrgScope(req);
+  } catch {
+    return res.status(403).json({ message: "Cannot access another organization" });
+  }
+  req.orgId = orgId;
+
+  runInOrgTransaction({ orgId, isSuperAdmin: req.user.isSuperAdmin }, (finish) => {
+    openOrgTransactions.set(req, finish);
+    const end = res.end;
+    res.end = function (this: Response, ...args: any[]) {
+      const commit = res.statusCode < 400;
+      finish(commit).then(
+        () => end.apply(this, args as any),
+        (err) => {
+          console.error("[tenancy] Failed to finish request transaction:", err);
+          if (!commit) {
+            end.apply(this, args as any);
+          } else if (res.headersSent) {
+            // Part of a streamed body is already out; cut it off rather than let it look complete
+            res.destroy(err);
+          } else {
+            const body = JSON.stringify({ message: "Failed to save changes" });
+            res.statusCode = 500;
+            res.removeHeader("ETag");
+            res.setHeader("Content-Type", "application/json; charset=utf-8");
+            res.setHeader("Content-Length", Buffer.byteLength(body));
+            end.apply(this, [body] as any);
+          }
+        },
+      );
+      return this;
+    } as typeof res.end;
+    // Client went away before a response was sent
+    res.on("close", () => {
+      finish(false).catch(() => {});
+    });
+    next();
+  }).catch(next);
+}
+
+/**
+ * Route middleware, placed after the policy, for handlers that spend most of
+ * their time waiting on outside work. It commits the request's org
+ * transaction before the handler runs and gives its connection back to the
+ * pool; the handler's queries then run on the plain pool without RLS, so
+ * every one of them must filter by req.orgId itself.
+ */
+export function releaseOrgTransaction(req: Request, _res: Response, next: NextFunction) {
+  const finish = openOrgTransactions.get(req);
+  if (!finish) {
+    return next();
+  }
+  openOrgTransactions.delete(req);
+  finish(true).then(() => next(), next);
+}
@@ -0,0 +1,110 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import { readFileSync } from "fs";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+import pg from "pg";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Stands in for session tokens: the org comes from a test header
+vi.mock("./middleware/authenticate", () => ({
+  authenticate: (req: Request, _res: Response, next: NextFunction) => {
+    const orgId = req.headers["x-test-org"];
+    if (typeof orgId === "string") {
+      req.user = { userId: "user-1", orgId, role: "admin", isSuperAdmin: false };
+    }
+    next();
+  },
+}));
+
+/**
+ * CRM routes against a real Postgres with the org RLS policies applied. Set
+ * TEST_DATABASE_URL as for middleware/tenancy.test.ts.
+ */
+const databaseUrl = process.env.TEST_DATABASE_URL;
+
+const orgTables = [
+  "entities_gp",
+  "entities_fund",
+  "entities_lp",
+  "entities_service_provider",
+  "entities_deal",
+  "entities_contacts",
+  "entities_portfolio_company",
+  "relationships",
+];
+const sharedTables = [
+  "ext_agritech_portfolio_company",
+  "ext_blockchain_portfolio_company",
+  "ext_healthcare_portfolio_company",
+  "entities_public_market",
+];
+
+describe.skipIf(!databaseUrl)("CRM routes", () => {
+  let admin: pg.Client;
+  let pool: pg.Pool;
+  let server: Server;
+  let baseUrl: string;
+
+  const get = async (url: string, orgId: string) => {
+    const res = await fetch(`${baseUrl}${url}`, { headers: { "x-test-org": orgId } });
+    return { status: res.status, body: await res.json() };
+  };
+
+  beforeAll(async () => {
+    admin = new pg.Client({ connectionString: databaseUrl });
+    await admin.connect();
+    await admin.query(`drop table if exists ${[...orgTables, ...sharedTables, "public_company_snapshot"].join(", ")}`);
+    for (const table of orgTables) {
+      await admin.query(`create table ${table} (id serial primary key, org_id varchar not null, created_at timestamp default now())`);
+    }
+    for (const table of sharedTables) {
+      await admin.query(`create table ${table} (id serial primary key)`);
+    }
+    // As scripts/create-crm-tables.ts creates it: shared, without org_id
+    await admin.query(`
+      create table public_company_snapshot (
+        id serial primary key,
+        ticker text,
+        company_name text not null,
+        created_at timestamp default now()
+      );
+      insert into public_company_snapshot (ticker, company_name) values ('INFY', 'Infosys'), ('TCS', 'Tata Consultancy');
+      insert into entities_gp (org_id) values ('org_a'), ('org_a'), ('org_b');
+    `);
+    await admin.query("select pg_advisory_lock(hashtext('enable_org_rls'))");
+    await admin.query(readFileSync(path.resolve(import.meta.dirname, "../supabase_migrations/enable_org_rls.sql"), "utf8"));
+    await admin.query("select pg_advisory_unlock(hashtext('enable_org_rls'))");
+
+    pool = (await import("./db")).pool;
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    app.use(express.json());
+    server = createServer(app);
+    await registerRoutes(server, app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    await pool?.end();
+    await admin?.query(`drop table if exists ${[...orgTables, ...sharedTables, "public_company_snapshot"].join(", ")}`);
+    await admin?.end();
+  });
+
+  it("counts org rows and the shared public company snapshots", async () => {
+    const res = await get("/api/crm/counts", "org_a");
+    expect(res.status).toBe(200);
+    const counts = Object.fromEntries(res.body.map((row: { entity: string; count: number }) => [row.entity, row.count]));
+    expect(counts).toMatchObject({ entities_gp: 2, public_company_snapshot: 2 });
+  });
+
+  it("lists public company snapshots to every org", async () => {
+    for (const orgId of ["org_a", "org_b"]) {
+      const res = await get("/api/crm/public-companies", orgId);
+      expect(res.status).toBe(200);
+      expect(res.body.map((row: { ticker: string }) => row.ticker).sort()).toEqual(["INFY", "TCS"]);
+    }
+  });
+});
@@ -3,9 +3,20 @@ import { createServer, type Server } from "http";
 import bcrypt from "bcrypt";
 import { createClient } from "@supabase/supabase-js";
 import { storage } from "./storage";
+import { authenticate } from "./middleware/authenticate";
+import { publicRoute, requireAuth, requirePermission, buildPermissionMatrix } from "./middleware/authorize";
+import { issueSession, refreshSession, revokeSession, revokeUserSessions } from "./services/session";
+import { createApiKey, rotateApiKey, revokeApiKey, toPublicApiKey } from "./services/apiKeys";
+import { detectNewsLanguage } from "./services/newsCleaning";
+import { orgTransaction, resolveOrgScope } from "./middleware/tenancy";
+import { registerV1Routes } from "./routes/index";
+import { listJobs, requeueDeadJob } from "./jobs/queue";
+import { enqueueClusterPropagation } from "./jobs/storyClusterPropagation";
 import {
   loginSchema,
   signupSchema,
+  createApiKeySchema,
+  hasPermission,
   insertOrganizationSchema,
   insertFirmSchema,
   insertContactSchema,
@@ -23,7 +34,9 @@ import {
   insertEntityContactSchema,
   insertEntityDealSchema,
   moduleAccessByRole,
+  userRoles,
   type UserRole,
+  type Permission,
   type Firm,
 } from "@shared/schema";
 import { z } from "zod";
@@ -60,9 +73,14 @@ export async function registerRoutes(
     next();
   });
 
+  // Verify the session access token and populate req.user for every API route
+  app.use("/api", authenticate);
+  // Bind authenticated requests to their org so Postgres RLS applies to every query
+  app.use("/api", orgTransaction);
+
 
   // Health check endpoint for debugging
-  app.get("/api/health", async (req: Request, res: Response) => {
+  app.get("/api/health", publicRoute, async (req: Request, res: Response) => {
     try {
 
       const dbCheck = await storage.getUserByUsername("admin");
@@ -102,15 +120,10 @@ export async function registerRoutes(
   }
 
   async function getUserOrgId(req: Request): Promise<string> {
-    const userId = req.headers["x-user-id"] as string;
-    if (!userId) {
-      throw new Error("UNAUTHORIZED");
-    }
-    const user = await storage.getUser(userId);
-    if (!user) {
+    if (!req.user) {
       throw new Error("UNAUTHORIZED");
     }
-    return user.orgId;
+    return req.user.orgId;
   }
   
   async function getUserOrgIdSafe(req: Request, res: Response): Promise<string | null> {
@@ -124,23 +137,12 @@ export async function registerRoutes(
 
   // Get user with role info - super_admin gets special access
   async function getUserWithRole(req: Request): Promise<{ userId: string; orgId: string; role: string; isSuperAdmin: boolean } | null> {
-    const userId = req.headers["x-user-id"] as string;
-    if (!userId) {
-      console.log("[auth] No x-user-id header found");
-      return null;
-    }
-    const user = await storage.getUser(userId);
-    if (!user) {
-      console.log(`[auth] User not found in database for id: ${userId}`);
+    if (!req.user) {
+      console.log("[auth] No authenticated session on request");
       return null;
     }
-    console.log(`[auth] User found: ${user.displayName}, role: ${user.role}, orgId: ${user.orgId}`);
-    return {
-      userId: user.id,
-      orgId: user.orgId,
-      role: user.role,
-      isSuperAdmin: user.role === "super_admin"
-    };
+    const { userId, orgId, role, isSuperAdmin } = req.user;
+    return { userId, orgId, role, isSuperAdmin };
   }
 
   // Get org filter for queries - super_admin can see all orgs, others see only their org
@@ -157,7 +159,7 @@ export async function registerRoutes(
   }
 
   function getUserIdFromRequest(req: Request): string | null {
-    return (req.headers["x-user-id"] as string) || null;
+    return req.user?.userId ?? null;
   }
 
   function addSourceTrackingFields(data: any, userId: string | null): any {
@@ -169,7 +171,7 @@ export async function registerRoutes(
   }
 
   // Auth routes
-  app.post("/api/auth/login", async (req: Request, res: Response) => {
+  app.post("/api/auth/login", publicRoute, async (req: Request, res: Response) => {
     try {
       const parsed = loginSchema.parse(req.body);
       const user = await storage.getUserByUsername(parsed.username);
@@ -226,10 +228,12 @@ if (user.role === "guest" && isTrialExpired && !isApproved) {
       }
 
       const { password, ...userWithoutPassword } = user;
+      const tokens = await issueSession(user, req.headers["user-agent"]);
       return res.json({ 
         user: userWithoutPassword,
         modules: moduleAccessByRole[user.role as UserRole] || [],
-        trialStatus: user.role === "guest" ? { isTrialExpired, isApproved, trialEndsAt: user.trialEndsAt } : null
+        trialStatus: user.role === "guest" ? { isTrialExpired, isApproved, trialEndsAt: user.trialEndsAt } : null,
+        tokens,
       });
     } catch (error) {
       console.error("[LOGIN ERROR]", error);
@@ -242,7 +246,7 @@ if (user.role === "guest" && isTrialExpired && !isApproved) {
   });
 
   // Supabase login - authenticates via Supabase token and syncs/creates local user
-app.post("/api/auth/supabase-login", async (req: Request, res: Response) => {
+app.post("/api/auth/supabase-login", publicRoute, async (req: Request, res: Response) => {
   try {
    
     const authHeader = req.headers.authorization;
@@ -333,7 +337,8 @@ await supabaseAdmin!.auth.getUser(token);
       return res.status(403).json(payload);
     }
 
-    return res.status(200).json(payload);
+    const tokens = await issueSession(user, req.headers["user-agent"]);
+    return res.status(200).json({ ...payload, tokens });
 
   } catch (err) {
     console.error("Supabase login error:", err);
@@ -344,7 +349,7 @@ await supabaseAdmin!.auth.getUser(token);
   }
 });
 
-  app.post("/api/auth/signup", async (req: Request, res: Response) => {
+  app.post("/api/auth/signup", publicRoute, async (req: Request, res: Response) => {
     try {
       const parsed = signupSchema.parse(req.body);
       
@@ -413,11 +418,13 @@ await supabaseAdmin!.auth.getUser(token);
 
       const { password, ...userWithoutPassword } = newUser;
       const { isTrialExpired, isApproved } = checkTrialStatus(newUser);
+      const tokens = await issueSession(newUser, req.headers["user-agent"]);
       
       return res.status(201).json({ 
         user: userWithoutPassword,
         modules: moduleAccessByRole[newUser.role as UserRole] || [],
-        trialStatus: newUser.role === "guest" ? { isTrialExpired, isApproved, trialEndsAt: newUser.trialEndsAt } : null
+        trialStatus: newUser.role === "guest" ? { isTrialExpired, isApproved, trialEndsAt: newUser.trialEndsAt } : null,
+        tokens,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -428,8 +435,34 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.get("/api/auth/me", async (req: Request, res: Response) => {
-    const userId = req.headers["x-user-id"] as string;
+  // Exchange a refresh token for a new access/refresh pair (the refresh token is rotated)
+  app.post("/api/auth/refresh", publicRoute, async (req: Request, res: Response) => {
+    const { refreshToken } = req.body ?? {};
+    if (!refreshToken || typeof refreshToken !== "string") {
+      return res.status(400).json({ message: "refreshToken is required" });
+    }
+
+    try {
+      const tokens = await refreshSession(refreshToken);
+      return res.json({ tokens });
+    } catch (error: any) {
+      if (["TOKEN_INVALID", "TOKEN_EXPIRED", "SESSION_REVOKED"].includes(error?.message)) {
+        return res.status(401).json({ message: "Session expired, please sign in again" });
+      }
+      console.error("Token refresh error:", error);
+      return res.status(500).json({ message: "Could not refresh session" });
+    }
+  });
+
+  app.post("/api/auth/logout", requireAuth, async (req: Request, res: Response) => {
+    if (req.user?.sessionId) {
+      await revokeSession(req.user.sessionId, "logout");
+    }
+    return res.status(204).send();
+  });
+
+  app.get("/api/auth/me", requireAuth, async (req: Request, res: Response) => {
+    const userId = getUserIdFromRequest(req);
     if (!userId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
@@ -460,8 +493,8 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // Users routes
-  app.get("/api/users", async (req: Request, res: Response) => {
-    const requesterId = req.headers["x-user-id"] as string;
+  app.get("/api/users", requirePermission("user_management:read"), async (req: Request, res: Response) => {
+    const requesterId = getUserIdFromRequest(req);
     if (!requesterId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
@@ -484,7 +517,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(usersWithoutPasswords);
   });
 
-  app.get("/api/users/:id", async (req: Request, res: Response) => {
+  app.get("/api/users/:id", requirePermission("user_management:read"), async (req: Request, res: Response) => {
     const user = await storage.getUser(req.params.id);
     if (!user) {
       return res.status(404).json({ message: "User not found" });
@@ -493,8 +526,8 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(userWithoutPassword);
   });
 
-  app.patch("/api/users/:id", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
+  app.patch("/api/users/:id", requirePermission("user_management:manage"), async (req: Request, res: Response) => {
+    const adminId = getUserIdFromRequest(req);
     if (!adminId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
@@ -531,20 +564,23 @@ await supabaseAdmin!.auth.getUser(token);
     if (!updated) {
       return res.status(404).json({ message: "User not found" });
     }
+    if (req.body.isActive === false) {
+      await revokeUserSessions(updated.id, "deactivated");
+    }
     const { password, ...userWithoutPassword } = updated;
     return res.json(userWithoutPassword);
   });
 
   // Admin routes for guest management
-  app.post("/api/admin/users/:id/approve", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
+  app.post("/api/admin/users/:id/approve", requirePermission("user_management:manage"), async (req: Request, res: Response) => {
+    const adminId = getUserIdFromRequest(req);
     if (!adminId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
     
     const admin = await storage.getUser(adminId);
-    if (!admin || !["super_admin", "admin", "manager"].includes(admin.role)) {
-      return res.status(403).json({ message: "Only super admins, admins and managers can approve users" });
+    if (!admin) {
+      return res.status(403).json({ message: "Admin user not found" });
     }
 
     const targetUser = await storage.getUser(req.params.id);
@@ -567,15 +603,15 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(userWithoutPassword);
   });
 
-  app.post("/api/admin/users/:id/reject", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
+  app.post("/api/admin/users/:id/reject", requirePermission("user_management:manage"), async (req: Request, res: Response) => {
+    const adminId = getUserIdFromRequest(req);
     if (!adminId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
     
     const admin = await storage.getUser(adminId);
-    if (!admin || !["super_admin", "admin", "manager"].includes(admin.role)) {
-      return res.status(403).json({ message: "Only super admins, admins and managers can reject users" });
+    if (!admin) {
+      return res.status(403).json({ message: "Admin user not found" });
     }
 
     const targetUser = await storage.getUser(req.params.id);
@@ -592,20 +628,21 @@ await supabaseAdmin!.auth.getUser(token);
     if (!rejected) {
       return res.status(404).json({ message: "User not found" });
     }
+    await revokeUserSessions(rejected.id, "rejected");
     
     const { password, ...userWithoutPassword } = rejected;
     return res.json(userWithoutPassword);
   });
 
-  app.post("/api/admin/users/invite", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
+  app.post("/api/admin/users/invite", requirePermission("user_management:manage"), async (req: Request, res: Response) => {
+    const adminId = getUserIdFromRequest(req);
     if (!adminId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
     
     const admin = await storage.getUser(adminId);
-    if (!admin || !["super_admin", "admin", "manager"].includes(admin.role)) {
-      return res.status(403).json({ message: "Only super admins, admins and managers can invite users" });
+    if (!admin) {
+      return res.status(403).json({ message: "Admin user not found" });
     }
 
     if (!supabaseAdmin) {
@@ -669,15 +706,15 @@ await supabaseAdmin!.auth.getUser(token);
     });
   });
 
-  app.post("/api/admin/users/invite/:id/resend", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
+  app.post("/api/admin/users/invite/:id/resend", requirePermission("user_management:manage"), async (req: Request, res: Response) => {
+    const adminId = getUserIdFromRequest(req);
     if (!adminId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
     
     const admin = await storage.getUser(adminId);
-    if (!admin || !["super_admin", "admin", "manager"].includes(admin.role)) {
-      return res.status(403).json({ message: "Only super admins, admins and managers can resend invites" });
+    if (!admin) {
+      return res.status(403).json({ message: "Admin user not found" });
     }
 
     if (!supabaseAdmin) {
@@ -719,15 +756,15 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json({ message: `Invitation resent to ${targetUser.email}` });
   });
 
-  app.post("/api/admin/users/bulk", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
+  app.post("/api/admin/users/bulk", requirePermission("user_management:manage"), async (req: Request, res: Response) => {
+    const adminId = getUserIdFromRequest(req);
     if (!adminId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
     
     const admin = await storage.getUser(adminId);
-    if (!admin || !["super_admin", "admin", "manager"].includes(admin.role)) {
-      return res.status(403).json({ message: "Only super admins, admins and managers can add users" });
+    if (!admin) {
+      return res.status(403).json({ message: "Admin user not found" });
     }
 
     if (!supabaseAdmin) {
@@ -821,8 +858,8 @@ await supabaseAdmin!.auth.getUser(token);
     });
   });
 
-  app.get("/api/admin/pending-guests", async (req: Request, res: Response) => {
-    const requesterId = req.headers["x-user-id"] as string;
+  app.get("/api/admin/pending-guests", requirePermission("user_management:read"), async (req: Request, res: Response) => {
+    const requesterId = getUserIdFromRequest(req);
     if (!requesterId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
@@ -845,16 +882,111 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(guestsWithoutPasswords);
   });
 
+  // Role x route permission matrix, generated from the policies attached to each registered route
+  app.get("/api/admin/permissions", requirePermission("admin_panel:read"), async (_req: Request, res: Response) => {
+    return res.json({
+      roles: userRoles,
+      moduleAccessByRole,
+      routes: buildPermissionMatrix(app),
+    });
+  });
+
+  // Org API keys for machine clients. Key management itself is limited to interactive sessions.
+  app.get("/api/admin/api-keys", requirePermission("admin_panel:read"), async (req: Request, res: Response) => {
+    const keys = await storage.getApiKeys(req.user!.orgId);
+    return res.json(keys.map(toPublicApiKey));
+  });
+
+  app.post("/api/admin/api-keys", requirePermission("admin_panel:manage"), async (req: Request, res: Response) => {
+    if (req.user!.apiKeyId) {
+      return res.status(403).json({ message: "API keys cannot manage API keys" });
+    }
+    try {
+      const parsed = createApiKeySchema.parse(req.body);
+      const scopes = parsed.scopes as Permission[];
+
+      // A key can never hold more than its creator
+      const notHeld = scopes.filter((scope) => !hasPermission(req.user!.role as UserRole, scope));
+      if (notHeld.length > 0) {
+        return res.status(403).json({ message: "Cannot grant scopes you do not hold", scopes: notHeld });
+      }
+
+      const created = await createApiKey({
+        orgId: req.user!.orgId,
+        name: parsed.name,
+        scopes,
+        rateLimitPerMinute: parsed.rateLimitPerMinute,
+        createdBy: req.user!.userId,
+      });
+      return res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating API key:", error);
+      return res.status(500).json({ message: "Failed to create API key" });
+    }
+  });
+
+  app.post("/api/admin/api-keys/:id/rotate", requirePermission("admin_panel:manage"), async (req: Request, res: Response) => {
+    if (req.user!.apiKeyId) {
+      return res.status(403).json({ message: "API keys cannot manage API keys" });
+    }
+    const rotated = await rotateApiKey(req.params.id, req.user!.orgId);
+    if (!rotated) {
+      return res.status(404).json({ message: "API key not found or revoked" });
+    }
+    return res.json(rotated);
+  });
+
+  app.delete("/api/admin/api-keys/:id", requirePermission("admin_panel:manage"), async (req: Request, res: Response) => {
+    if (req.user!.apiKeyId) {
+      return res.status(403).json({ message: "API keys cannot manage API keys" });
+    }
+    const revoked = await revokeApiKey(req.params.id, req.user!.orgId);
+    if (!revoked) {
+      return res.status(404).json({ message: "API key not found" });
+    }
+    return res.json(revoked);
+  });
+
+  // Background job queue - dead-lettered jobs can be inspected and requeued
+  app.get("/api/admin/jobs", requirePermission("admin_panel:read"), async (req: Request, res: Response) => {
+    try {
+      const { orgId } = await getOrgFilter(req);
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const jobs = await listJobs(app.locals.db, { orgId, status });
+      return res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      return res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:id/requeue", requirePermission("admin_panel:manage"), async (req: Request, res: Response) => {
+    try {
+      const { orgId } = await getOrgFilter(req);
+      const job = await requeueDeadJob(app.locals.db, req.params.id, orgId);
+      if (!job) {
+        return res.status(404).json({ message: "Dead-lettered job not found" });
+      }
+      return res.json(job);
+    } catch (error) {
+      console.error("Error requeueing job:", error);
+      return res.status(500).json({ message: "Failed to requeue job" });
+    }
+  });
+
   // Organizations routes - admin only, returns orgs user can see
-  app.get("/api/organizations", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
+  app.get("/api/organizations", requirePermission("user_management:read"), async (req: Request, res: Response) => {
+    const adminId = getUserIdFromRequest(req);
     if (!adminId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
     
     const admin = await storage.getUser(adminId);
-    if (!admin || !["super_admin", "admin", "manager"].includes(admin.role)) {
-      return res.status(403).json({ message: "Only super admins, admins and managers can view organizations" });
+    if (!admin) {
+      return res.status(403).json({ message: "Admin user not found" });
     }
     
     if (admin.role === "super_admin") {
@@ -866,17 +998,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.get("/api/organizations/user-counts", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
-    if (!adminId) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-    
-    const admin = await storage.getUser(adminId);
-    if (!admin || admin.role !== "super_admin") {
-      return res.status(403).json({ message: "Only super admins can view organization user counts" });
-    }
-    
+  app.get("/api/organizations/user-counts", requirePermission("org_management:read"), async (_req: Request, res: Response) => {
     const organizations = await storage.getOrganizations();
     const userCounts: Record<string, number> = {};
     
@@ -888,17 +1010,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(userCounts);
   });
 
-  app.get("/api/organizations/:id", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
-    if (!adminId) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-    
-    const admin = await storage.getUser(adminId);
-    if (!admin || (admin.role !== "admin" && admin.role !== "manager")) {
-      return res.status(403).json({ message: "Only admins and managers can view organizations" });
-    }
-    
+  app.get("/api/organizations/:id", requirePermission("user_management:read"), async (req: Request, res: Response) => {
     const org = await storage.getOrganization(req.params.id);
     if (!org) {
       return res.status(404).json({ message: "Organization not found" });
@@ -906,18 +1018,8 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(org);
   });
 
-  app.post("/api/organizations", async (req: Request, res: Response) => {
+  app.post("/api/organizations", requirePermission("admin_panel:manage"), async (req: Request, res: Response) => {
     try {
-      const adminId = req.headers["x-user-id"] as string;
-      if (!adminId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
-      const admin = await storage.getUser(adminId);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ message: "Only admins can create organizations" });
-      }
-      
       const name = req.body.name;
       if (!name || typeof name !== "string" || name.trim().length === 0) {
         return res.status(400).json({ message: "Organization name is required" });
@@ -934,17 +1036,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.patch("/api/organizations/:id", async (req: Request, res: Response) => {
-    const adminId = req.headers["x-user-id"] as string;
-    if (!adminId) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-    
-    const admin = await storage.getUser(adminId);
-    if (!admin || admin.role !== "admin") {
-      return res.status(403).json({ message: "Only admins can update organizations" });
-    }
-    
+  app.patch("/api/organizations/:id", requirePermission("admin_panel:manage"), async (req: Request, res: Response) => {
     const updated = await storage.updateOrganization(req.params.id, req.body);
     if (!updated) {
       return res.status(404).json({ message: "Organization not found" });
@@ -953,13 +1045,13 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // Firms routes - using in-memory storage with org scoping
-  app.get("/api/firms", async (req: Request, res: Response) => {
+  app.get("/api/firms", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const firms = await storage.getFirms(orgId);
     return res.json(firms);
   });
 
-  app.get("/api/firms/:id", async (req: Request, res: Response) => {
+  app.get("/api/firms/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const firm = await storage.getFirm(req.params.id, orgId);
     if (!firm) {
@@ -968,7 +1060,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(firm);
   });
 
-  app.post("/api/firms", async (req: Request, res: Response) => {
+  app.post("/api/firms", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const parsed = insertFirmSchema.parse(req.body);
@@ -986,7 +1078,7 @@ await supabaseAdmin!.auth.getUser(token);
       
       await storage.createAuditLog({
         orgId,
-        userId: req.headers["x-user-id"] as string || null,
+        userId: getUserIdFromRequest(req),
         action: "create",
         entityType: "firm",
         entityId: firm.id,
@@ -1007,7 +1099,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.post("/api/firms/force", async (req: Request, res: Response) => {
+  app.post("/api/firms/force", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const parsed = insertFirmSchema.parse(req.body);
@@ -1015,7 +1107,7 @@ await supabaseAdmin!.auth.getUser(token);
       
       await storage.createAuditLog({
         orgId,
-        userId: req.headers["x-user-id"] as string || null,
+        userId: getUserIdFromRequest(req),
         action: "create",
         entityType: "firm",
         entityId: firm.id,
@@ -1036,7 +1128,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.patch("/api/firms/:id", async (req: Request, res: Response) => {
+  app.patch("/api/firms/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const updated = await storage.updateFirm(req.params.id, orgId, req.body);
     if (!updated) {
@@ -1045,7 +1137,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(updated);
   });
 
-  app.delete("/api/firms/:id", async (req: Request, res: Response) => {
+  app.delete("/api/firms/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const deleted = await storage.deleteFirm(req.params.id, orgId);
     if (!deleted) {
@@ -1054,7 +1146,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.status(204).send();
   });
 
-  app.get("/api/firms/:id/duplicates", async (req: Request, res: Response) => {
+  app.get("/api/firms/:id/duplicates", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const firm = await storage.getFirm(req.params.id, orgId);
     if (!firm) {
@@ -1067,14 +1159,14 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // Contacts routes with org scoping
-  app.get("/api/contacts", async (req: Request, res: Response) => {
+  app.get("/api/contacts", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const firmId = req.query.firmId as string | undefined;
     const contacts = await storage.getContacts(orgId, firmId);
     return res.json(contacts);
   });
 
-  app.get("/api/contacts/:id", async (req: Request, res: Response) => {
+  app.get("/api/contacts/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const contact = await storage.getContact(req.params.id, orgId);
     if (!contact) {
@@ -1083,7 +1175,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(contact);
   });
 
-  app.post("/api/contacts", async (req: Request, res: Response) => {
+  app.post("/api/contacts", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const parsed = insertContactSchema.parse(req.body);
@@ -1091,7 +1183,7 @@ await supabaseAdmin!.auth.getUser(token);
       
       await storage.createAuditLog({
         orgId,
-        userId: req.headers["x-user-id"] as string || null,
+        userId: getUserIdFromRequest(req),
         action: "create",
         entityType: "contact",
         entityId: contact.id,
@@ -1107,7 +1199,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.patch("/api/contacts/:id", async (req: Request, res: Response) => {
+  app.patch("/api/contacts/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const updated = await storage.updateContact(req.params.id, orgId, req.body);
     if (!updated) {
@@ -1116,7 +1208,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(updated);
   });
 
-  app.delete("/api/contacts/:id", async (req: Request, res: Response) => {
+  app.delete("/api/contacts/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const deleted = await storage.deleteContact(req.params.id, orgId);
     if (!deleted) {
@@ -1127,7 +1219,7 @@ await supabaseAdmin!.auth.getUser(token);
 
 
   // Deals routes with org scoping
-  app.get("/api/deals", async (req: Request, res: Response) => {
+  app.get("/api/deals", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const firmId = req.query.firmId as string | undefined;
     const fundId = req.query.fundId as string | undefined;
@@ -1135,7 +1227,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(deals);
   });
 
-  app.get("/api/deals/:id", async (req: Request, res: Response) => {
+  app.get("/api/deals/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const deal = await storage.getDeal(req.params.id, orgId);
     if (!deal) {
@@ -1144,7 +1236,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(deal);
   });
 
-  app.post("/api/deals", async (req: Request, res: Response) => {
+  app.post("/api/deals", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const parsed = insertDealSchema.parse(req.body);
@@ -1152,7 +1244,7 @@ await supabaseAdmin!.auth.getUser(token);
       
       await storage.createAuditLog({
         orgId,
-        userId: req.headers["x-user-id"] as string || null,
+        userId: getUserIdFromRequest(req),
         action: "create",
         entityType: "deal",
         entityId: deal.id,
@@ -1168,7 +1260,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.patch("/api/deals/:id", async (req: Request, res: Response) => {
+  app.patch("/api/deals/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const updated = await storage.updateDeal(req.params.id, orgId, req.body);
     if (!updated) {
@@ -1177,7 +1269,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(updated);
   });
 
-  app.delete("/api/deals/:id", async (req: Request, res: Response) => {
+  app.delete("/api/deals/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const deleted = await storage.deleteDeal(req.params.id, orgId);
     if (!deleted) {
@@ -1187,7 +1279,7 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // Projects routes with org scoping (super_admin sees all)
-  app.get("/api/projects", async (req: Request, res: Response) => {
+  app.get("/api/projects", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const { orgId, isSuperAdmin } = await getOrgFilter(req);
     // Super admin sees all projects
     if (isSuperAdmin) {
@@ -1198,7 +1290,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(projects);
   });
 
-  app.get("/api/projects/:id", async (req: Request, res: Response) => {
+  app.get("/api/projects/:id", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const { orgId, isSuperAdmin } = await getOrgFilter(req);
     // Super admin can access any project
     if (isSuperAdmin) {
@@ -1215,7 +1307,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(project);
   });
 
-  app.post("/api/projects", async (req: Request, res: Response) => {
+  app.post("/api/projects", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const parsed = insertProjectSchema.parse(req.body);
@@ -1229,7 +1321,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.patch("/api/projects/:id", async (req: Request, res: Response) => {
+  app.patch("/api/projects/:id", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const updated = await storage.updateProject(req.params.id, orgId, req.body);
     if (!updated) {
@@ -1238,7 +1330,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(updated);
   });
 
-  app.delete("/api/projects/:id", async (req: Request, res: Response) => {
+  app.delete("/api/projects/:id", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const deleted = await storage.deleteProject(req.params.id, orgId);
     if (!deleted) {
@@ -1248,7 +1340,7 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // Tasks routes with org scoping (super_admin sees all)
-  app.get("/api/tasks", async (req: Request, res: Response) => {
+  app.get("/api/tasks", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const { orgId, isSuperAdmin } = await getOrgFilter(req);
     const projectId = req.query.projectId as string | undefined;
     const assignedTo = req.query.assignedTo as string | undefined;
@@ -1262,7 +1354,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(tasks);
   });
 
-  app.get("/api/tasks/:id", async (req: Request, res: Response) => {
+  app.get("/api/tasks/:id", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const { orgId, isSuperAdmin } = await getOrgFilter(req);
     // Super admin can access any task
     if (isSuperAdmin) {
@@ -1279,7 +1371,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(task);
   });
 
-  app.post("/api/tasks", async (req: Request, res: Response) => {
+  app.post("/api/tasks", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const parsed = insertTaskSchema.parse(req.body);
@@ -1293,7 +1385,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.patch("/api/tasks/:id", async (req: Request, res: Response) => {
+  app.patch("/api/tasks/:id", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const updated = await storage.updateTask(req.params.id, orgId, req.body);
     if (!updated) {
@@ -1302,7 +1394,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(updated);
   });
 
-  app.delete("/api/tasks/:id", async (req: Request, res: Response) => {
+  app.delete("/api/tasks/:id", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const deleted = await storage.deleteTask(req.params.id, orgId);
     if (!deleted) {
@@ -1312,14 +1404,14 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // Annotations routes with org scoping
-  app.get("/api/annotations", async (req: Request, res: Response) => {
+  app.get("/api/annotations", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const taskId = req.query.taskId as string | undefined;
     const annotations = await storage.getAnnotations(orgId, taskId);
     return res.json(annotations);
   });
 
-  app.get("/api/annotations/:id", async (req: Request, res: Response) => {
+  app.get("/api/annotations/:id", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const annotation = await storage.getAnnotation(req.params.id, orgId);
     if (!annotation) {
@@ -1328,7 +1420,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(annotation);
   });
 
-  app.post("/api/annotations", async (req: Request, res: Response) => {
+  app.post("/api/annotations", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const parsed = insertAnnotationSchema.parse(req.body);
@@ -1342,7 +1434,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.patch("/api/annotations/:id", async (req: Request, res: Response) => {
+  app.patch("/api/annotations/:id", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const updated = await storage.updateAnnotation(req.params.id, orgId, req.body);
     if (!updated) {
@@ -1352,7 +1444,7 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // Audit logs routes with org scoping
-  app.get("/api/audit-logs", async (req: Request, res: Response) => {
+  app.get("/api/audit-logs", requirePermission("admin_panel:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const entityType = req.query.entityType as string | undefined;
     const entityId = req.query.entityId as string | undefined;
@@ -1361,13 +1453,13 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // Monitored URLs routes with org scoping
-  app.get("/api/monitored-urls", async (req: Request, res: Response) => {
+  app.get("/api/monitored-urls", requirePermission("extraction_engine:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const urls = await storage.getMonitoredUrls(orgId);
     return res.json(urls);
   });
 
-  app.get("/api/monitored-urls/:id", async (req: Request, res: Response) => {
+  app.get("/api/monitored-urls/:id", requirePermission("extraction_engine:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const url = await storage.getMonitoredUrl(req.params.id, orgId);
     if (!url) {
@@ -1376,7 +1468,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(url);
   });
 
-  app.post("/api/monitored-urls", async (req: Request, res: Response) => {
+  app.post("/api/monitored-urls", requirePermission("extraction_engine:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const parsed = insertMonitoredUrlSchema.parse(req.body);
@@ -1390,7 +1482,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.patch("/api/monitored-urls/:id", async (req: Request, res: Response) => {
+  app.patch("/api/monitored-urls/:id", requirePermission("extraction_engine:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const updated = await storage.updateMonitoredUrl(req.params.id, orgId, req.body);
     if (!updated) {
@@ -1399,7 +1491,7 @@ await supabaseAdmin!.auth.getUser(token);
     return res.json(updated);
   });
 
-  app.delete("/api/monitored-urls/:id", async (req: Request, res: Response) => {
+  app.delete("/api/monitored-urls/:id", requirePermission("extraction_engine:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgId(req);
     const deleted = await storage.deleteMonitoredUrl(req.params.id, orgId);
     if (!deleted) {
@@ -1409,7 +1501,7 @@ await supabaseAdmin!.auth.getUser(token);
   });
 
   // AI Annotation Suggestions with org scoping
-  app.get("/api/suggestions/:taskId", async (req: Request, res: Response) => {
+  app.get("/api/suggestions/:taskId", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const task = await storage.getTask(req.params.taskId, orgId);
@@ -1479,7 +1571,7 @@ await supabaseAdmin!.auth.getUser(token);
     }
   });
 
-  app.get("/api/patterns", async (req: Request, res: Response) => {
+  app.get("/api/patterns", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const allAnnotations = await storage.getAnnotations(orgId);
@@ -1524,16 +1616,12 @@ await supabaseAdmin!.auth.getUser(token);
   // CRM Routes - New Entity Tables
   // ==========================================
   
-app.get("/api/crm/counts", async (req: Request, res: Response) => {
+app.get("/api/crm/counts", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
   try {
     const { db } = await import("./db");
     const { sql } = await import("drizzle-orm");
 
-    const orgId = req.headers["x-org-id"];
-
-    if (!orgId) {
-      return res.status(400).json({ message: "org_id missing" });
-    }
+    const orgId = resolveOrgScope(req);
 
     const counts = await db.execute(sql`
       SELECT 'entities_gp' as entity, count(*)::int FROM entities_gp WHERE org_id = ${orgId}
@@ -1544,6 +1632,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
       UNION ALL SELECT 'entities_contacts', count(*)::int FROM entities_contacts WHERE org_id = ${orgId}
       UNION ALL SELECT 'entities_portfolio_company', count(*)::int FROM entities_portfolio_company WHERE org_id = ${orgId}
 
+      -- Market snapshots are shared reference data with no org_id
       UNION ALL SELECT 'public_company_snapshot',
         CASE WHEN to_regclass('public_company_snapshot') IS NOT NULL
         THEN (SELECT count(*)::int FROM public_company_snapshot)
@@ -1576,7 +1665,13 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     `);
 
     return res.json(counts.rows);
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.message === "UNAUTHORIZED") {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (error?.message === "FORBIDDEN_ORG") {
+      return res.status(403).json({ message: "Cannot access another organization" });
+    }
     console.error("Error fetching CRM counts:", error);
     return res.status(500).json({ message: "Internal server error" });
   }
@@ -1584,7 +1679,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
 
 
   // GP Routes
-  app.get("/api/crm/gps", async (req: Request, res: Response) => {
+  app.get("/api/crm/gps", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const { orgId, isSuperAdmin } = await getOrgFilter(req);
       const { db } = await import("./db");
@@ -1603,7 +1698,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/gps", async (req: Request, res: Response) => {
+  app.post("/api/crm/gps", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -1662,7 +1757,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/gps/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/gps/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -1739,7 +1834,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // LP Routes
-  app.get("/api/crm/lps", async (req: Request, res: Response) => {
+  app.get("/api/crm/lps", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const { orgId, isSuperAdmin } = await getOrgFilter(req);
       const { db } = await import("./db");
@@ -1757,7 +1852,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/lps", async (req: Request, res: Response) => {
+  app.post("/api/crm/lps", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -1814,7 +1909,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/lps/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/lps/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -1887,7 +1982,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
   
   
-  app.get("/api/crm/lps/:id", async (req: Request, res: Response) => {
+  app.get("/api/crm/lps/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
   try {
     const { orgId, isSuperAdmin } = await getOrgFilter(req);
     const { db } = await import("./db");
@@ -1917,7 +2012,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
 
 
   // Portfolio Company Routes
-  app.get("/api/crm/portfolio-companies", async (req: Request, res: Response) => {
+  app.get("/api/crm/portfolio-companies", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const { orgId, isSuperAdmin } = await getOrgFilter(req);
       const { db } = await import("./db");
@@ -1935,7 +2030,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/portfolio-companies", async (req: Request, res: Response) => {
+  app.post("/api/crm/portfolio-companies", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -1985,7 +2080,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/portfolio-companies/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/portfolio-companies/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2057,7 +2152,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Service Provider Routes
-  app.get("/api/crm/service-providers", async (req: Request, res: Response) => {
+  app.get("/api/crm/service-providers", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const { orgId, isSuperAdmin } = await getOrgFilter(req);
       const { db } = await import("./db");
@@ -2075,7 +2170,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/service-providers", async (req: Request, res: Response) => {
+  app.post("/api/crm/service-providers", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2119,7 +2214,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/service-providers/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/service-providers/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2178,7 +2273,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Contact Routes (CRM version)
-  app.get("/api/crm/contacts", async (req: Request, res: Response) => {
+  app.get("/api/crm/contacts", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const { orgId, isSuperAdmin } = await getOrgFilter(req);
       const { db } = await import("./db");
@@ -2231,7 +2326,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/contacts/:id/link", async (req: Request, res: Response) => {
+  app.patch("/api/crm/contacts/:id/link", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2263,7 +2358,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/contacts", async (req: Request, res: Response) => {
+  app.post("/api/crm/contacts", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2306,7 +2401,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/contacts/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/contacts/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2360,7 +2455,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Deal Routes (CRM version)
-  app.get("/api/crm/deals", async (req: Request, res: Response) => {
+  app.get("/api/crm/deals", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const { orgId, isSuperAdmin } = await getOrgFilter(req);
       const { db } = await import("./db");
@@ -2378,7 +2473,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/deals", async (req: Request, res: Response) => {
+  app.post("/api/crm/deals", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2428,7 +2523,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/deals/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/deals/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2497,7 +2592,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Entity URLs Routes
-  app.get("/api/crm/entity-urls", async (req: Request, res: Response) => {
+  app.get("/api/crm/entity-urls", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2527,7 +2622,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/entity-urls", async (req: Request, res: Response) => {
+  app.post("/api/crm/entity-urls", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2550,7 +2645,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/entity-urls/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/entity-urls/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2582,7 +2677,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/crm/entity-urls/:id", async (req: Request, res: Response) => {
+  app.delete("/api/crm/entity-urls/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2609,7 +2704,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Relationships Routes
-  app.get("/api/crm/relationships", async (req: Request, res: Response) => {
+  app.get("/api/crm/relationships", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2625,7 +2720,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/relationships", async (req: Request, res: Response) => {
+  app.post("/api/crm/relationships", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const { db } = await import("./db");
@@ -2648,14 +2743,17 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  // Public Company Snapshots (shared across all orgs for now - public data)
-  app.get("/api/crm/public-companies", async (_req: Request, res: Response) => {
+  // Public Company Snapshots (shared across all orgs - public data, no org_id)
+  app.get("/api/crm/public-companies", requirePermission("data_nest:read"), async (_req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
       const result = await db.execute(sql`SELECT * FROM public_company_snapshot ORDER BY created_at DESC`);
       return res.json(result.rows);
     } catch (error: any) {
+      if (error?.message === "UNAUTHORIZED") {
+        return res.status(401).json({ message: "Authentication required" });
+      }
       console.error("Error fetching public companies:", error);
       return res.status(500).json({ message: "Internal server error" });
     }
@@ -2666,7 +2764,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   // ==========================================
 
   // Initialize sector tables if they don't exist
-  app.post("/api/crm/init-sector-tables", async (_req: Request, res: Response) => {
+  app.post("/api/crm/init-sector-tables", requirePermission("data_nest:manage"), async (_req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2772,7 +2870,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Agritech Routes
-  app.get("/api/crm/agritech", async (_req: Request, res: Response) => {
+  app.get("/api/crm/agritech", requirePermission("data_nest:read"), async (_req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2793,7 +2891,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/agritech", async (req: Request, res: Response) => {
+  app.post("/api/crm/agritech", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2813,7 +2911,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/agritech/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/agritech/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2846,7 +2944,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Blockchain Routes
-  app.get("/api/crm/blockchain", async (_req: Request, res: Response) => {
+  app.get("/api/crm/blockchain", requirePermission("data_nest:read"), async (_req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2867,7 +2965,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/blockchain", async (req: Request, res: Response) => {
+  app.post("/api/crm/blockchain", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2887,7 +2985,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/blockchain/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/blockchain/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2921,7 +3019,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Healthcare Routes
-  app.get("/api/crm/healthcare", async (_req: Request, res: Response) => {
+  app.get("/api/crm/healthcare", requirePermission("data_nest:read"), async (_req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2942,7 +3040,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/healthcare", async (req: Request, res: Response) => {
+  app.post("/api/crm/healthcare", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2962,7 +3060,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.patch("/api/crm/healthcare/:id", async (req: Request, res: Response) => {
+  app.patch("/api/crm/healthcare/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -2996,7 +3094,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Public Market Routes (standalone entity)
-  app.get("/api/crm/public-market", async (_req: Request, res: Response) => {
+  app.get("/api/crm/public-market", requirePermission("data_nest:read"), async (_req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3014,7 +3112,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/public-market", async (req: Request, res: Response) => {
+  app.post("/api/crm/public-market", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3035,7 +3133,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Public Market Entity Links
-  app.get("/api/crm/public-market/:id/links", async (req: Request, res: Response) => {
+  app.get("/api/crm/public-market/:id/links", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3049,7 +3147,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/crm/public-market/:id/links", async (req: Request, res: Response) => {
+  app.post("/api/crm/public-market/:id/links", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3070,7 +3168,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Dashboard stats
-  app.get("/api/stats", async (req: Request, res: Response) => {
+  app.get("/api/stats", requirePermission("dashboard:read"), async (req: Request, res: Response) => {
     try {
       const orgId = await getUserOrgId(req);
       const [firms, contacts, funds, deals, tasks, projects, urls] = await Promise.all([
@@ -3120,7 +3218,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   // ============================================
 
   // Initialize location reference tables
-  app.post("/api/locations/init", async (_req: Request, res: Response) => {
+  app.post("/api/locations/init", requirePermission("location_data:manage"), async (_req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3175,7 +3273,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get all countries
-  app.get("/api/locations/countries", async (_req: Request, res: Response) => {
+  app.get("/api/locations/countries", requireAuth, async (_req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3194,7 +3292,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get states by country
-  app.get("/api/locations/states/:countryId", async (req: Request, res: Response) => {
+  app.get("/api/locations/states/:countryId", requireAuth, async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3214,7 +3312,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get cities by state
-  app.get("/api/locations/cities/:stateId", async (req: Request, res: Response) => {
+  app.get("/api/locations/cities/:stateId", requireAuth, async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3234,7 +3332,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // CRUD routes for countries (Manager only)
-  app.post("/api/locations/countries", async (req: Request, res: Response) => {
+  app.post("/api/locations/countries", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3252,7 +3350,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/locations/countries/:id", async (req: Request, res: Response) => {
+  app.put("/api/locations/countries/:id", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3278,7 +3376,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/locations/countries/:id", async (req: Request, res: Response) => {
+  app.delete("/api/locations/countries/:id", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3293,7 +3391,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // CRUD routes for states (Manager only)
-  app.post("/api/locations/states", async (req: Request, res: Response) => {
+  app.post("/api/locations/states", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3311,7 +3409,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/locations/states/:id", async (req: Request, res: Response) => {
+  app.put("/api/locations/states/:id", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3334,7 +3432,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/locations/states/:id", async (req: Request, res: Response) => {
+  app.delete("/api/locations/states/:id", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3349,7 +3447,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // CRUD routes for cities (Manager only)
-  app.post("/api/locations/cities", async (req: Request, res: Response) => {
+  app.post("/api/locations/cities", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3367,7 +3465,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/locations/cities/:id", async (req: Request, res: Response) => {
+  app.put("/api/locations/cities/:id", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3389,7 +3487,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/locations/cities/:id", async (req: Request, res: Response) => {
+  app.delete("/api/locations/cities/:id", requirePermission("location_data:manage"), async (req: Request, res: Response) => {
     try {
       const { db } = await import("./db");
       const { sql } = await import("drizzle-orm");
@@ -3404,7 +3502,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // ============== GP Firms (Entity) ==============
-  app.get("/api/entities/gps", async (req: Request, res: Response) => {
+  app.get("/api/entities/gps", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
 
@@ -3419,7 +3517,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
 
 
 
-  app.get("/api/entities/gp/:id", async (req: Request, res: Response) => {
+  app.get("/api/entities/gp/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) return res.status(401).json({ message: "Authentication required" });
     
@@ -3435,7 +3533,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/entities/gp", async (req: Request, res: Response) => {
+  app.post("/api/entities/gp", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3450,7 +3548,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/entities/gp/:id", async (req: Request, res: Response) => {
+  app.put("/api/entities/gp/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3465,7 +3563,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/entities/gp/:id", async (req: Request, res: Response) => {
+  app.delete("/api/entities/gp/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3483,7 +3581,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   // ============== LP Firms ==============
 
   // ============== Funds (Entity) ==============
-  app.get("/api/entities/funds", async (req: Request, res: Response) => {
+  app.get("/api/entities/funds", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3495,7 +3593,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.get("/api/entities/funds/:id", async (req: Request, res: Response) => {
+  app.get("/api/entities/funds/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const fundId = req.params.id;
     const userInfo = await getUserWithRole(req);
     console.log(`[FUND-DEBUG] fundId=${fundId}, userId=${userInfo?.userId}, role=${userInfo?.role}, orgId=${userInfo?.orgId}, isSuperAdmin=${userInfo?.isSuperAdmin}`);
@@ -3518,7 +3616,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/entities/funds", async (req: Request, res: Response) => {
+  app.post("/api/entities/funds", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3533,7 +3631,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/entities/funds/:id", async (req: Request, res: Response) => {
+  app.put("/api/entities/funds/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3548,7 +3646,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/entities/funds/:id", async (req: Request, res: Response) => {
+  app.delete("/api/entities/funds/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3562,7 +3660,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // ============== Portfolio Companies ==============
-  app.get("/api/entities/portfolio-companies", async (req: Request, res: Response) => {
+  app.get("/api/entities/portfolio-companies", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3574,7 +3672,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.get("/api/entities/portfolio-companies/:id", async (req: Request, res: Response) => {
+  app.get("/api/entities/portfolio-companies/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) return res.status(401).json({ message: "Authentication required" });
     
@@ -3590,7 +3688,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/entities/portfolio-companies", async (req: Request, res: Response) => {
+  app.post("/api/entities/portfolio-companies", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3605,7 +3703,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/entities/portfolio-companies/:id", async (req: Request, res: Response) => {
+  app.put("/api/entities/portfolio-companies/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3620,7 +3718,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/entities/portfolio-companies/:id", async (req: Request, res: Response) => {
+  app.delete("/api/entities/portfolio-companies/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3634,7 +3732,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // ============== Service Providers ==============
-  app.get("/api/entities/service-providers", async (req: Request, res: Response) => {
+  app.get("/api/entities/service-providers", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3646,7 +3744,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.get("/api/entities/service-providers/:id", async (req: Request, res: Response) => {
+  app.get("/api/entities/service-providers/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) return res.status(401).json({ message: "Authentication required" });
     
@@ -3662,7 +3760,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/entities/service-providers", async (req: Request, res: Response) => {
+  app.post("/api/entities/service-providers", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3677,7 +3775,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/entities/service-providers/:id", async (req: Request, res: Response) => {
+  app.put("/api/entities/service-providers/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3692,7 +3790,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/entities/service-providers/:id", async (req: Request, res: Response) => {
+  app.delete("/api/entities/service-providers/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3706,7 +3804,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // ============== Contacts (Entity) ==============
-  app.get("/api/entities/contacts", async (req: Request, res: Response) => {
+  app.get("/api/entities/contacts", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3735,7 +3833,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.get("/api/entities/contacts/:id", async (req: Request, res: Response) => {
+  app.get("/api/entities/contacts/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) return res.status(401).json({ message: "Authentication required" });
     
@@ -3751,7 +3849,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/entities/contacts", async (req: Request, res: Response) => {
+  app.post("/api/entities/contacts", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3766,7 +3864,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/entities/contacts/:id", async (req: Request, res: Response) => {
+  app.put("/api/entities/contacts/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3781,7 +3879,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/entities/contacts/:id", async (req: Request, res: Response) => {
+  app.delete("/api/entities/contacts/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3795,7 +3893,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // ============== Deals (Entity) ==============
-  app.get("/api/entities/deals", async (req: Request, res: Response) => {
+  app.get("/api/entities/deals", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3807,7 +3905,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.get("/api/entities/deals/:id", async (req: Request, res: Response) => {
+  app.get("/api/entities/deals/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) return res.status(401).json({ message: "Authentication required" });
     
@@ -3823,7 +3921,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.post("/api/entities/deals", async (req: Request, res: Response) => {
+  app.post("/api/entities/deals", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3838,7 +3936,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.put("/api/entities/deals/:id", async (req: Request, res: Response) => {
+  app.put("/api/entities/deals/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3853,7 +3951,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.delete("/api/entities/deals/:id", async (req: Request, res: Response) => {
+  app.delete("/api/entities/deals/:id", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     try {
@@ -3867,7 +3965,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // NestAnnotate API endpoints
-  app.get("/api/nest-annotate/projects", async (req: Request, res: Response) => {
+  app.get("/api/nest-annotate/projects", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
@@ -3947,7 +4045,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.get("/api/nest-annotate/summary", async (req: Request, res: Response) => {
+  app.get("/api/nest-annotate/summary", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -4003,7 +4101,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.get("/api/nest-annotate/news-count", async (req: Request, res: Response) => {
+  app.get("/api/nest-annotate/news-count", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -4045,7 +4143,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  app.get("/api/nest-annotate/news-items", async (req: Request, res: Response) => {
+  app.get("/api/nest-annotate/news-items", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -4122,13 +4220,11 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   // ============================================================
 
   // Create new NestAnnotate project (manager/admin only)
-  app.post("/api/nest-annotate/projects", async (req: Request, res: Response) => {
+  app.post("/api/nest-annotate/projects", requirePermission("nest_annotate:manage"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
     
-    if (!await checkManagerRole(req, res)) return;
-    
     try {
       const { pool } = await import("./db");
       const { z } = await import("zod");
@@ -4161,7 +4257,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get single NestAnnotate project with tasks
-  app.get("/api/nest-annotate/projects/:id", async (req: Request, res: Response) => {
+  app.get("/api/nest-annotate/projects/:id", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
@@ -4216,19 +4312,14 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Upload news to a project (manager/admin only)
-  app.post("/api/nest-annotate/projects/:id/upload-news", async (req: Request, res: Response) => {
+  app.post("/api/nest-annotate/projects/:id/upload-news", requirePermission("nest_annotate:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, userId, role } = userInfo;
+    const { orgId, isSuperAdmin, userId } = userInfo;
     const projectId = req.params.id;
     
-    // Super admin or manager/admin can upload
-    if (!isSuperAdmin && role !== "admin" && role !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can upload news" });
-    }
-    
     try {
       const { pool } = await import("./db");
       const { z } = await import("zod");
@@ -4267,13 +4358,20 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
       const results = { created: 0, skipped: 0, tasks: 0 };
       
       for (const article of parsed.articles) {
+        // Declared language, else detected from the text
+        const language = detectNewsLanguage({
+          language: article.language,
+          cleanedText: article.cleanedText,
+          rawText: article.rawText,
+        });
+
         // Insert into news table
         const newsResult = await pool.query(
-          `INSERT INTO news (headline, url, source_name, publish_date, raw_text, cleaned_text, org_id, created_by)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          `INSERT INTO news (headline, url, source_name, publish_date, raw_text, cleaned_text, language, org_id, created_by)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
            RETURNING id`,
           [article.headline, article.url || null, article.sourceName || null, article.publishDate || null, 
-           article.rawText, article.cleanedText || null, orgId, userId]
+           article.rawText, article.cleanedText || null, language, orgId, userId]
         );
         
         const newsId = newsResult.rows[0].id;
@@ -4319,7 +4417,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get NestAnnotate project members
-  app.get("/api/nest-annotate/projects/:id/members", async (req: Request, res: Response) => {
+  app.get("/api/nest-annotate/projects/:id/members", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
@@ -4368,17 +4466,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Add NestAnnotate project member
-  app.post("/api/nest-annotate/projects/:id/members", async (req: Request, res: Response) => {
+  app.post("/api/nest-annotate/projects/:id/members", requirePermission("nest_annotate:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, role: userRole } = userInfo;
-    
-    // Only super admin or manager/admin can add members
-    if (!isSuperAdmin && userRole !== "admin" && userRole !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can add members" });
-    }
+    const { orgId, isSuperAdmin } = userInfo;
     
     const projectId = req.params.id;
     const { userId, role } = req.body;
@@ -4443,17 +4536,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Remove NestAnnotate project member
-  app.delete("/api/nest-annotate/projects/:id/members/:memberId", async (req: Request, res: Response) => {
+  app.delete("/api/nest-annotate/projects/:id/members/:memberId", requirePermission("nest_annotate:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, role: userRole } = userInfo;
-    
-    // Only super admin or manager/admin can remove members
-    if (!isSuperAdmin && userRole !== "admin" && userRole !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can remove members" });
-    }
+    const { orgId, isSuperAdmin } = userInfo;
     
     const { id: projectId, memberId } = req.params;
     
@@ -4483,17 +4571,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Assign task to user (manager/admin only)
-  app.patch("/api/nest-annotate/tasks/:taskId/assign", async (req: Request, res: Response) => {
+  app.patch("/api/nest-annotate/tasks/:taskId/assign", requirePermission("nest_annotate:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, role } = userInfo;
-    
-    // Super admin or manager/admin can assign
-    if (!isSuperAdmin && role !== "admin" && role !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can assign tasks" });
-    }
+    const { orgId, isSuperAdmin } = userInfo;
     
     const taskId = req.params.taskId;
     const { userId: assigneeId } = req.body;
@@ -4526,7 +4609,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Claim task (contributor picks unassigned task)
-  app.patch("/api/nest-annotate/tasks/:taskId/claim", async (req: Request, res: Response) => {
+  app.patch("/api/nest-annotate/tasks/:taskId/claim", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -4560,7 +4643,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Submit task (contributor submits after tagging)
-  app.patch("/api/nest-annotate/tasks/:taskId/submit", async (req: Request, res: Response) => {
+  app.patch("/api/nest-annotate/tasks/:taskId/submit", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -4594,17 +4677,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Complete task (manager/admin approves)
-  app.patch("/api/nest-annotate/tasks/:taskId/complete", async (req: Request, res: Response) => {
+  app.patch("/api/nest-annotate/tasks/:taskId/complete", requirePermission("nest_annotate:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, role } = userInfo;
-    
-    // Super admin or manager/admin can complete tasks
-    if (!isSuperAdmin && role !== "admin" && role !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can complete tasks" });
-    }
+    const { orgId, isSuperAdmin } = userInfo;
     
     const taskId = req.params.taskId;
     
@@ -4614,19 +4692,29 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
       // Super admin can complete tasks across all orgs
       const result = isSuperAdmin
         ? await pool.query(
-            `UPDATE annotation_tasks SET status = 'completed' WHERE id = $1 RETURNING id`,
+            `UPDATE annotation_tasks t SET status = 'completed'
+             FROM label_projects p
+             WHERE t.id = $1 AND p.id = t.project_id
+             RETURNING t.id, p.org_id, t.metadata->>'news_id' AS news_id`,
             [taskId]
           )
         : await pool.query(
-            `UPDATE annotation_tasks SET status = 'completed'
-             WHERE id = $1 AND project_id IN (SELECT id FROM label_projects WHERE org_id = $2)
-             RETURNING id`,
+            `UPDATE annotation_tasks t SET status = 'completed'
+             FROM label_projects p
+             WHERE t.id = $1 AND p.id = t.project_id AND p.org_id = $2
+             RETURNING t.id, p.org_id, t.metadata->>'news_id' AS news_id`,
             [taskId, orgId]
           );
       
       if (result.rows.length === 0) {
         return res.status(404).json({ message: "Task not found" });
       }
+
+      // Copies the tags to syndicated copies when the article is a story cluster's canonical one
+      const task = result.rows[0];
+      if (task.news_id) {
+        await enqueueClusterPropagation(pool, { orgId: task.org_id, newsId: task.news_id });
+      }
       
       return res.json({ message: "Task completed" });
     } catch (error) {
@@ -4636,7 +4724,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get available users for assignment (within same org, or all for super admin)
-  app.get("/api/nest-annotate/available-users", async (req: Request, res: Response) => {
+  app.get("/api/nest-annotate/available-users", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
@@ -4665,7 +4753,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   // ============================================================
 
   // Get shell profiles (pending ones for manager review)
-  app.get("/api/nest-annotate/shell-profiles", async (req: Request, res: Response) => {
+  app.get("/api/nest-annotate/shell-profiles", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
@@ -4703,7 +4791,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Create a shell profile (when tagging a new entity)
-  app.post("/api/nest-annotate/shell-profiles", async (req: Request, res: Response) => {
+  app.post("/api/nest-annotate/shell-profiles", requirePermission("nest_annotate:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -4735,17 +4823,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Approve a shell profile (manager action)
-  app.patch("/api/nest-annotate/shell-profiles/:id/approve", async (req: Request, res: Response) => {
+  app.patch("/api/nest-annotate/shell-profiles/:id/approve", requirePermission("nest_annotate:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, role, userId } = userInfo;
-    
-    // Super admin or manager/admin can approve
-    if (!isSuperAdmin && role !== "admin" && role !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can approve shell profiles" });
-    }
+    const { orgId, isSuperAdmin, userId } = userInfo;
     
     const profileId = req.params.id;
     const { approvedEntityId } = req.body;
@@ -4782,17 +4865,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Reject a shell profile (manager action)
-  app.patch("/api/nest-annotate/shell-profiles/:id/reject", async (req: Request, res: Response) => {
+  app.patch("/api/nest-annotate/shell-profiles/:id/reject", requirePermission("nest_annotate:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, role, userId } = userInfo;
-    
-    // Super admin or manager/admin can reject
-    if (!isSuperAdmin && role !== "admin" && role !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can reject shell profiles" });
-    }
+    const { orgId, isSuperAdmin, userId } = userInfo;
     
     const profileId = req.params.id;
     
@@ -4834,7 +4912,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   const LOCK_TIMEOUT_MINUTES = 30;
 
   // Check if a lock exists for an entity
-  app.get("/api/locks/:entityType/:entityId", async (req: Request, res: Response) => {
+  app.get("/api/locks/:entityType/:entityId", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     
@@ -4878,7 +4956,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Acquire a lock for editing
-  app.post("/api/locks/:entityType/:entityId/acquire", async (req: Request, res: Response) => {
+  app.post("/api/locks/:entityType/:entityId/acquire", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -4973,7 +5051,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Release a lock
-  app.delete("/api/locks/:entityType/:entityId", async (req: Request, res: Response) => {
+  app.delete("/api/locks/:entityType/:entityId", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -5012,7 +5090,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Heartbeat to keep lock alive
-  app.post("/api/locks/:entityType/:entityId/heartbeat", async (req: Request, res: Response) => {
+  app.post("/api/locks/:entityType/:entityId/heartbeat", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -5057,7 +5135,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
 
   // Beacon endpoint for releasing locks on tab close (sendBeacon API)
   // Handle both text/plain (sendBeacon default) and application/json (Blob with type)
-  app.post("/api/locks/release-beacon", async (req: Request, res: Response) => {
+  app.post("/api/locks/release-beacon", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -5116,7 +5194,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   // =====================================================
 
   // Get available entities by type for entity picker
-  app.get("/api/datanest/entities/:entityType", async (req: Request, res: Response) => {
+  app.get("/api/datanest/entities/:entityType", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     
@@ -5171,7 +5249,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Create a new entity
-  app.post("/api/datanest/entities/:entityType", async (req: Request, res: Response) => {
+  app.post("/api/datanest/entities/:entityType", requirePermission("data_nest:write"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -5296,7 +5374,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   // =====================================================
 
   // Get all projects (with role-based visibility)
-  app.get("/api/datanest/projects", async (req: Request, res: Response) => {
+  app.get("/api/datanest/projects", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
@@ -5371,7 +5449,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
 
   // Get single project (NO items - items loaded separately via /items endpoint)
   // ARCHITECTURAL RULE: Project detail must NOT depend on entities_project_items
-  app.get("/api/datanest/projects/:id", async (req: Request, res: Response) => {
+  app.get("/api/datanest/projects/:id", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const projectId = req.params.id;
     const userId = getUserIdFromRequest(req);
     
@@ -5450,34 +5528,13 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
     }
   });
 
-  // Helper to check if user has manager/admin role
-  async function checkManagerRole(req: Request, res: Response): Promise<boolean> {
-    const userId = getUserIdFromRequest(req);
-    if (!userId) {
-      res.status(401).json({ message: "Authentication required" });
-      return false;
-    }
-    const { db } = await import("./db");
-    const { users } = await import("@shared/schema");
-    const { eq } = await import("drizzle-orm");
-    
-    const user = await db.select({ role: users.role }).from(users).where(eq(users.id, userId));
-    if (user.length === 0 || !["super_admin", "admin", "manager"].includes(user[0].role)) {
-      res.status(403).json({ message: "Insufficient permissions - manager role required" });
-      return false;
-    }
-    return true;
-  }
-
   // Create new project (manager/admin only)
-  app.post("/api/datanest/projects", async (req: Request, res: Response) => {
+  app.post("/api/datanest/projects", requirePermission("data_nest:manage"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
     
     // Server-side RBAC check
-    if (!await checkManagerRole(req, res)) return;
-    
     try {
       const { pool, getProjectTableName, getProjectColumns } = await import("./db");
       const projectTable = getProjectTableName();
@@ -5513,14 +5570,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Update project (manager/admin only, whitelisted fields)
-  app.put("/api/datanest/projects/:id", async (req: Request, res: Response) => {
+  app.put("/api/datanest/projects/:id", requirePermission("data_nest:manage"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const projectId = req.params.id;
     
     // Server-side RBAC check
-    if (!await checkManagerRole(req, res)) return;
-    
     try {
       const { pool, getProjectTableName, getProjectColumns } = await import("./db");
       const projectTable = getProjectTableName();
@@ -5566,7 +5621,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
 
   // Get status breakdown stats for all projects (loads separately from project listing)
   // Returns counts by status for each project ID
-  app.get("/api/datanest/projects-stats", async (req: Request, res: Response) => {
+  app.get("/api/datanest/projects-stats", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
@@ -5643,7 +5698,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get project items (tasks)
-  app.get("/api/datanest/projects/:id/items", async (req: Request, res: Response) => {
+  app.get("/api/datanest/projects/:id/items", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -5694,14 +5749,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Add project item (manager/admin only)
-  app.post("/api/datanest/projects/:id/items", async (req: Request, res: Response) => {
+  app.post("/api/datanest/projects/:id/items", requirePermission("data_nest:manage"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const projectId = req.params.id;
     
     // Server-side RBAC check
-    if (!await checkManagerRole(req, res)) return;
-    
     try {
       const { pool, getTableName, getProjectItemColumns } = await import("./db");
       const itemsTable = getTableName("project_items");
@@ -5757,13 +5810,11 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Bulk add project items (CSV upload) - manager/admin only
-  app.post("/api/datanest/projects/:id/items/bulk", async (req: Request, res: Response) => {
+  app.post("/api/datanest/projects/:id/items/bulk", requirePermission("data_nest:manage"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     
     // Server-side RBAC check
-    if (!await checkManagerRole(req, res)) return;
-    
     const projectId = req.params.id;
     const items = req.body.items as Array<{
       entity_type: string;
@@ -5839,14 +5890,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Update project item (manager/admin only, whitelisted fields)
-  app.put("/api/datanest/projects/:projectId/items/:itemId", async (req: Request, res: Response) => {
+  app.put("/api/datanest/projects/:projectId/items/:itemId", requirePermission("data_nest:manage"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const { itemId } = req.params;
     
     // Server-side RBAC check
-    if (!await checkManagerRole(req, res)) return;
-    
     try {
       const { pool, getTableName, getProjectItemColumns, isSupabase } = await import("./db");
       const itemsTable = getTableName("project_items");
@@ -5914,13 +5963,11 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Bulk assign items (manager/admin only)
-  app.post("/api/datanest/projects/:id/items/assign", async (req: Request, res: Response) => {
+  app.post("/api/datanest/projects/:id/items/assign", requirePermission("data_nest:manage"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     
-    // Server-side RBAC check
-    if (!await checkManagerRole(req, res)) return;
-    
+    const projectId = req.params.id;
     const { itemIds, assignedTo } = req.body;
     
     if (!Array.isArray(itemIds) || itemIds.length === 0 || !assignedTo) {
@@ -5938,17 +5985,18 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
         // Local dev - has org_id and updated_at
         result = await pool.query(
           `UPDATE ${itemsTable} SET assigned_to = $1, updated_at = NOW()
-           WHERE id = ANY($2) AND org_id = $3
+           WHERE id = ANY($2) AND project_id = $3 AND org_id = $4
            RETURNING id`,
-          [assignedTo, itemIds, orgId]
+          [assignedTo, itemIds, projectId, orgId]
         );
       } else {
-        // Supabase - no org_id, uses last_updated_on
+        // Supabase - no org_id, uses last_updated_on; org is checked through the project
         result = await pool.query(
           `UPDATE ${itemsTable} SET assigned_to = $1, last_updated_on = NOW()
-           WHERE id = ANY($2)
+           WHERE id = ANY($2) AND project_id = $3
+             AND project_id IN (SELECT id FROM ${getTableName("project")} WHERE org_id = $4)
            RETURNING id`,
-          [assignedTo, itemIds]
+          [assignedTo, itemIds, projectId, orgId]
         );
       }
       
@@ -5960,17 +6008,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Add project member (manager/admin only)
-  app.post("/api/datanest/projects/:id/members", async (req: Request, res: Response) => {
+  app.post("/api/datanest/projects/:id/members", requirePermission("data_nest:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, role: userRole } = userInfo;
-    
-    // Server-side RBAC check - super admin or manager/admin
-    if (!isSuperAdmin && userRole !== "admin" && userRole !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can add members" });
-    }
+    const { orgId, isSuperAdmin } = userInfo;
     
     const projectId = req.params.id;
     const { userId, role } = req.body;
@@ -6027,17 +6070,12 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Remove project member (manager/admin only)
-  app.delete("/api/datanest/projects/:id/members/:memberId", async (req: Request, res: Response) => {
+  app.delete("/api/datanest/projects/:id/members/:memberId", requirePermission("data_nest:manage"), async (req: Request, res: Response) => {
     const userInfo = await getUserWithRole(req);
     if (!userInfo) {
       return res.status(401).json({ message: "Authentication required" });
     }
-    const { orgId, isSuperAdmin, role: userRole } = userInfo;
-    
-    // Server-side RBAC check - super admin or manager/admin
-    if (!isSuperAdmin && userRole !== "admin" && userRole !== "manager") {
-      return res.status(403).json({ message: "Only managers and admins can remove members" });
-    }
+    const { orgId, isSuperAdmin } = userInfo;
     
     const { id: projectId, memberId } = req.params;
     
@@ -6077,7 +6115,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get My Work (all tasks assigned to current user)
-  app.get("/api/datanest/my-work", async (req: Request, res: Response) => {
+  app.get("/api/datanest/my-work", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     const userId = getUserIdFromRequest(req);
@@ -6125,7 +6163,7 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
   });
 
   // Get entity counts for dashboard cards
-  app.get("/api/datanest/entity-counts", async (req: Request, res: Response) => {
+  app.get("/api/datanest/entity-counts", requirePermission("data_nest:read"), async (req: Request, res: Response) => {
     const orgId = await getUserOrgIdSafe(req, res);
     if (!orgId) return;
     
@@ -6164,57 +6202,21 @@ app.get("/api/crm/counts", async (req: Request, res: Response) => {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
-app.get("/api/news", async (req: Request, res: Response) => {
-  const limit = Math.min(Number(req.query.limit) || 20, 100);
-  const offset = Number(req.query.offset) || 0;
-  const source = req.query.source as string | undefined;
-
-  try {
-    let query = `
-      select id, headline, source_name, publish_date
-      from news
-    `;
-    const params: any[] = [];
-
-    if (source) {
-      params.push(source);
-      query += ` where source_name = $${params.length}`;
-    }
-
-    params.push(limit, offset);
-    query += `
-      order by publish_date desc nulls last
-      limit $${params.length - 1}
-      offset $${params.length}
-    `;
-
-    const { rows } = await app.locals.db.query(query, params);
-
-    res.json({
-      items: rows,
-      limit,
-      offset,
-      count: rows.length,
-    });
-  } catch (error) {
-    console.error("NEWS LIST ERROR 👉", error);
-    res.status(500).json({
-      error: "failed to fetch news",
-      detail: String(error),
-    });
-  }
-});
+// v1 routers (/api/dashboard, /api/news) resolve their org from the session
+registerV1Routes(app);
 
-app.get("/api/news/:id", async (req: Request, res: Response) => {
+app.get("/api/news/:id", requirePermission("nest_annotate:read"), async (req: Request, res: Response) => {
   const { id } = req.params;
 
   try {
+    const orgId = resolveOrgScope(req);
     const { rows } = await app.locals.db.query(
       `select id, headline, source_name, publish_date
        from news
        where id = $1
+         and org_id = $2
        limit 1`,
-      [id]
+      [id, orgId]
     );
 
     if (!rows.length) {
@@ -1,8 +1,11 @@
 import { Router } from "express";
-import { reviewAiOutput } from "../services/aiReview";
+import { requirePermission } from "../middleware/authorize";
+import { getAiOutput, listAiOutputs, reviewAiOutput } from "../services/aiReview";
 
 const router = Router();
 
-router.post("/:id/review", reviewAiOutput);
+router.get("/", requirePermission("nest_annotate:read"), listAiOutputs);
+router.get("/:id", requirePermission("nest_annotate:read"), getAiOutput);
+router.post("/:id/review", requirePermission("nest_annotate:write"), reviewAiOutput);
 
 export default router;
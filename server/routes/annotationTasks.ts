@@ -0,0 +1,118 @@
+import { Router } from "express";
+import {
+  annotationTypes,
+  createMediaTasksSchema,
+  saveTaskAnnotationSchema,
+  type AnnotationType,
+} from "@shared/schema";
+import { requirePermission } from "../middleware/authorize";
+import {
+  createMediaTasks,
+  getTaskAnnotation,
+  parseAnnotationData,
+  saveTaskAnnotation,
+} from "../services/taskAnnotations";
+
+const router = Router();
+
+/* add media tasks (image, video or audio URLs, or texts to translate) to a label project */
+router.post("/", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = createMediaTasksSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_media_tasks", details: parsed.error.errors });
+    }
+    const { project_id, items, source_language, target_language, assignees } = parsed.data;
+
+    const result = await createMediaTasks(db, {
+      orgId,
+      projectId: project_id,
+      items,
+      sourceLanguage: source_language,
+      targetLanguage: target_language,
+      assignees,
+    });
+
+    res.status(201).json(result);
+  } catch (err: any) {
+    if (err?.message === "project_not_found") {
+      return res.status(404).json({ error: err.message });
+    }
+    if (err?.message === "news_project") {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: "media_tasks_create_failed" });
+  }
+});
+
+/* the task with its annotation of ?type= (null until first saved) */
+router.get("/:id/annotation", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const type = req.query.type as string | undefined;
+
+    if (!type || !annotationTypes.includes(type as AnnotationType)) {
+      return res.status(400).json({ error: "invalid_type" });
+    }
+
+    const result = await getTaskAnnotation(db, { orgId, taskId: req.params.id, type: type as AnnotationType });
+    if (!result) {
+      return res.status(404).json({ error: "annotation_task_not_found" });
+    }
+
+    res.json(result);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "task_annotation_fetch_failed" });
+  }
+});
+
+/* autosave target; 409 when another session saved since base_updated_at */
+router.put("/:id/annotation", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = saveTaskAnnotationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_task_annotation", details: parsed.error.errors });
+    }
+    const { type, confidence_score, base_updated_at } = parsed.data;
+
+    const data = parseAnnotationData(type, parsed.data.data);
+    if (!data.success) {
+      return res.status(400).json({ error: "invalid_annotation_data", details: data.error.errors });
+    }
+
+    const annotation = await saveTaskAnnotation(db, {
+      orgId,
+      taskId: req.params.id,
+      userId: req.user?.userId,
+      type,
+      data: data.data,
+      confidenceScore: confidence_score,
+      baseUpdatedAt: base_updated_at,
+    });
+
+    res.json(annotation);
+  } catch (err: any) {
+    if (err?.message === "annotation_task_not_found") {
+      return res.status(404).json({ error: err.message });
+    }
+    if (err?.message === "unsupported_annotation_type") {
+      return res.status(400).json({ error: err.message });
+    }
+    if (err?.message === "annotation_conflict") {
+      return res.status(409).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: "task_annotation_save_failed" });
+  }
+});
+
+export default router;
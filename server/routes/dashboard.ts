@@ -1,14 +1,27 @@
 import { Router } from "express";
+import { requirePermission } from "../middleware/authorize";
+import { releaseOrgTransaction } from "../middleware/tenancy";
 import {
   getDashboardMetrics,
   getSystemHealth,
   getBacklogMetrics,
+  getPipelineFailures,
+  getPipelineRuns,
+  retryPipelineFailures,
 } from "../services/dashboard";
 
 const router = Router();
 
-router.get("/metrics", getDashboardMetrics);
-router.get("/health", getSystemHealth);
-router.get("/backlog", getBacklogMetrics);
+router.get("/metrics", requirePermission("dashboard:read"), getDashboardMetrics);
+router.get("/health", requirePermission("dashboard:read"), getSystemHealth);
+router.get("/backlog", requirePermission("dashboard:read"), getBacklogMetrics);
+router.get("/pipeline-failures", requirePermission("dashboard:read"), getPipelineFailures);
+router.post(
+  "/pipeline-failures/retry",
+  requirePermission("nest_annotate:manage"),
+  releaseOrgTransaction,
+  retryPipelineFailures
+);
+router.get("/pipeline-runs", requirePermission("dashboard:read"), getPipelineRuns);
 
 export default router;
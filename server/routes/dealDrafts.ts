@@ -0,0 +1,103 @@
+import { Router } from "express";
+import { dealDraftApprovalSchema, dealDraftStatuses, type DealDraftStatus } from "@shared/schema";
+import { requirePermission } from "../middleware/authorize";
+import { approveDealDraft, getDealDraft, listDealDrafts, rejectDealDraft } from "../services/dealDrafts";
+
+const router = Router();
+
+/* drafts oldest first; pending unless another status is asked for */
+router.get("/", requirePermission("data_nest:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const status = (req.query.status as string) || "pending";
+    const limit = Math.min(Number(req.query.limit) || 25, 100);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    if (status !== "all" && !dealDraftStatuses.includes(status as DealDraftStatus)) {
+      return res.status(400).json({ error: "invalid_status" });
+    }
+
+    res.json(await listDealDrafts(db, { orgId, status: status === "all" ? undefined : status, limit, offset }));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "deal_drafts_list_failed" });
+  }
+});
+
+router.get("/:id", requirePermission("data_nest:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const draft = await getDealDraft(db, orgId, req.params.id);
+    if (!draft) {
+      return res.status(404).json({ error: "deal_draft_not_found" });
+    }
+
+    res.json(draft);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "deal_draft_fetch_failed" });
+  }
+});
+
+/* publish to entities_deal, as a new deal or merged into an existing one */
+router.post("/:id/approve", requirePermission("data_nest:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = dealDraftApprovalSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_approval", details: parsed.error.errors });
+    }
+
+    const draft = await approveDealDraft(db, {
+      orgId,
+      id: req.params.id,
+      input: parsed.data,
+      userId: req.user?.userId,
+    });
+    res.json(draft);
+  } catch (err: any) {
+    if (err?.message === "deal_draft_not_found") {
+      return res.status(404).json({ error: "deal_draft_not_found" });
+    }
+    if (err?.message === "deal_draft_already_reviewed") {
+      return res.status(409).json({ error: "deal_draft_already_reviewed" });
+    }
+    if (err?.message === "deal_not_found" || err?.message === "entity_not_found") {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: "deal_draft_approve_failed" });
+  }
+});
+
+router.post("/:id/reject", requirePermission("data_nest:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { notes } = req.body ?? {};
+
+    const draft = await rejectDealDraft(db, {
+      orgId,
+      id: req.params.id,
+      notes: typeof notes === "string" ? notes : null,
+      userId: req.user?.userId,
+    });
+    res.json(draft);
+  } catch (err: any) {
+    if (err?.message === "deal_draft_not_found") {
+      return res.status(404).json({ error: "deal_draft_not_found" });
+    }
+    if (err?.message === "deal_draft_already_reviewed") {
+      return res.status(409).json({ error: "deal_draft_already_reviewed" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "deal_draft_reject_failed" });
+  }
+});
+
+export default router;
@@ -0,0 +1,228 @@
+import { Router } from "express";
+import { insertEntityLinkSchema, linkableEntityTypes, type LinkableEntityType } from "@shared/schema";
+import { requirePermission } from "../middleware/authorize";
+import {
+  deleteEntityLink,
+  getEntityName,
+  listEntityLinks,
+  setEntityLinkStatus,
+  upsertEntityLink,
+} from "../services/entityLinks";
+import { resolveEntityCandidates } from "../services/entityResolution";
+import {
+  confirmEntityLink,
+  listReviewQueue,
+  reassignEntityLink,
+  rejectLinkAsShellProfile,
+} from "../services/entityLinkReview";
+
+const router = Router();
+
+/* links for a source record; rejected links only when asked for by status */
+router.get("/", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { source_type, source_id, status } = req.query;
+
+    const links = await listEntityLinks(db, {
+      orgId,
+      sourceType: (source_type as string) || undefined,
+      sourceId: (source_id as string) || undefined,
+      status: (status as string) || undefined,
+    });
+
+    res.json(links);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "entity_links_list_failed" });
+  }
+});
+
+/* REVIEW links oldest first, with the article text around each mention */
+router.get("/review-queue", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { entity_type } = req.query;
+    const limit = Math.min(Number(req.query.limit) || 25, 100);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    const queue = await listReviewQueue(db, {
+      orgId,
+      entityType: (entity_type as string) || undefined,
+      limit,
+      offset,
+    });
+
+    res.json(queue);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "entity_link_review_queue_failed" });
+  }
+});
+
+/* ranked DataNest matches for a name, as the AI linker would see them */
+router.get("/candidates", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { entity_type, name, country, asset_class } = req.query;
+
+    if (!linkableEntityTypes.includes(entity_type as LinkableEntityType)) {
+      return res.status(400).json({ error: "invalid_entity_type" });
+    }
+    if (typeof name !== "string" || !name.trim()) {
+      return res.status(400).json({ error: "name_required" });
+    }
+
+    const candidates = await resolveEntityCandidates(db, {
+      orgId,
+      entityType: entity_type as LinkableEntityType,
+      mention: name.trim(),
+      context: {
+        country: (country as string) || null,
+        assetClasses: asset_class ? String(asset_class).split(",") : undefined,
+      },
+    });
+
+    res.json(candidates);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "entity_candidates_failed" });
+  }
+});
+
+/* manual tagging */
+router.post("/", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = insertEntityLinkSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_entity_link", details: parsed.error.errors });
+    }
+    const { source_type, source_id, entity_type, entity_id } = parsed.data;
+
+    // The entity must belong to the caller's org
+    const entityName = await getEntityName(db, orgId, entity_type, entity_id);
+    if (entityName === null) {
+      return res.status(404).json({ error: "entity_not_found" });
+    }
+
+    const link = await upsertEntityLink(db, {
+      orgId,
+      sourceType: source_type,
+      sourceId: source_id,
+      entityType: entity_type,
+      entityId: entity_id,
+      linkSource: "manual",
+      matchType: "manual",
+      confidence: 100,
+      status: "LINKED",
+      userId: req.user?.userId,
+    });
+
+    res.status(201).json(link);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "entity_link_create_failed" });
+  }
+});
+
+/* confirm or reject a link (e.g. a fuzzy AI match in REVIEW) */
+router.patch("/:id", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { status } = req.body;
+
+    if (status !== "LINKED" && status !== "REJECTED") {
+      return res.status(400).json({ error: "invalid_status" });
+    }
+
+    // Confirming also records the mention as an alias of the entity
+    const link =
+      status === "LINKED"
+        ? await confirmEntityLink(db, { orgId, id: req.params.id, userId: req.user?.userId })
+        : await setEntityLinkStatus(db, { orgId, id: req.params.id, status, userId: req.user?.userId });
+    if (!link) {
+      return res.status(404).json({ error: "entity_link_not_found" });
+    }
+    res.json(link);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "entity_link_update_failed" });
+  }
+});
+
+/* point the mention at a different entity */
+router.post("/:id/reassign", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { entity_id } = req.body;
+
+    if (typeof entity_id !== "string" || !entity_id) {
+      return res.status(400).json({ error: "entity_id_required" });
+    }
+
+    const link = await reassignEntityLink(db, { orgId, id: req.params.id, entityId: entity_id, userId: req.user?.userId });
+    if (!link) {
+      return res.status(404).json({ error: "entity_link_not_found" });
+    }
+    res.json(link);
+  } catch (err: any) {
+    if (err?.message === "entity_not_found") {
+      return res.status(404).json({ error: "entity_not_found" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "entity_link_reassign_failed" });
+  }
+});
+
+/* none of the candidates is right: reject and queue a shell profile */
+router.post("/:id/shell-profile", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { entity_name, text_span } = req.body;
+
+    const result = await rejectLinkAsShellProfile(db, {
+      orgId,
+      id: req.params.id,
+      entityName: typeof entity_name === "string" ? entity_name : undefined,
+      textSpan: typeof text_span === "string" ? text_span : undefined,
+      userId: req.user?.userId,
+    });
+    if (!result) {
+      return res.status(404).json({ error: "entity_link_not_found" });
+    }
+    res.status(201).json({ link: result.link, shell_profile: result.shellProfile });
+  } catch (err: any) {
+    if (err?.message === "entity_name_required") {
+      return res.status(400).json({ error: "entity_name_required" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "shell_profile_create_failed" });
+  }
+});
+
+router.delete("/:id", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const deleted = await deleteEntityLink(db, orgId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "entity_link_not_found" });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "entity_link_delete_failed" });
+  }
+});
+
+export default router;
@@ -1,26 +1,37 @@
-console.log("🔧 Dashboard routes registered");
-
-import type { Server } from "http";
 import type { Express } from "express";
+import { orgScope } from "../middleware/tenancy";
 
 // 🔹 New modular routes
+import aiOutputRoutes from "./aiOutputs";
+import annotationTaskRoutes from "./annotationTasks";
 import dashboardRoutes from "./dashboard";
+import dealDraftRoutes from "./dealDrafts";
+import entityLinkRoutes from "./entityLinks";
+import labelSchemaRoutes from "./labelSchemas";
 import newsRoutes from "./news";
-import aiOutputRoutes from "./aiOutputs";
+import newsBackfillRoutes from "./newsBackfills";
+import newsFeedRoutes from "./newsFeeds";
+import promptRoutes from "./prompts";
+import storyClusterRoutes from "./storyClusters";
 
-export async function registerRoutes(
-  _server: Server,
-  app: Express
-) {
+/**
+ * Mounts the v1 routers. Called from the legacy registerRoutes after the
+ * authenticate middleware, so every v1 handler runs with req.user and the
+ * resolved req.orgId.
+ */
+export function registerV1Routes(app: Express) {
   // ================================
   // ✅ NEW ANNONEST v1 ROUTES
   // ================================
-  app.use("/api/dashboard", dashboardRoutes);
-  app.use("/api/news", newsRoutes);
-  app.use("/api/ai-outputs", aiOutputRoutes);
-
-  // ================================
-  // ⚠️ LEGACY / EXISTING ROUTES
-  // (leave untouched if you add later)
-  // ================================
+  app.use("/api/dashboard", orgScope, dashboardRoutes);
+  app.use("/api/news", orgScope, newsRoutes);
+  app.use("/api/news-feeds", orgScope, newsFeedRoutes);
+  app.use("/api/news-backfills", orgScope, newsBackfillRoutes);
+  app.use("/api/prompts", orgScope, promptRoutes);
+  app.use("/api/ai-outputs", orgScope, aiOutputRoutes);
+  app.use("/api/entity-links", orgScope, entityLinkRoutes);
+  app.use("/api/story-clusters", orgScope, storyClusterRoutes);
+  app.use("/api/deal-drafts", orgScope, dealDraftRoutes);
+  app.use("/api/annotation-tasks", orgScope, annotationTaskRoutes);
+  app.use("/api/label-projects", orgScope, labelSchemaRoutes);
 }
@@ -0,0 +1,80 @@
+import { Router } from "express";
+import { saveLabelSchemaSchema } from "@shared/schema";
+import { requirePermission } from "../middleware/authorize";
+import {
+  getProjectLabelSchema,
+  listLabelSchemaVersions,
+  saveLabelSchema,
+} from "../services/labelSchemas";
+
+const router = Router();
+
+/* the project's current label schema (its type's default until first saved) */
+router.get("/:id/label-schema", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const labelSchema = await getProjectLabelSchema(db, { orgId, projectId: req.params.id });
+    if (!labelSchema) {
+      return res.status(404).json({ error: "project_not_found" });
+    }
+
+    res.json(labelSchema);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "label_schema_fetch_failed" });
+  }
+});
+
+/* saved versions, newest first */
+router.get("/:id/label-schema/versions", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    res.json(await listLabelSchemaVersions(db, { orgId, projectId: req.params.id }));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "label_schema_versions_fetch_failed" });
+  }
+});
+
+/* save a new version and migrate the project's annotations to it; 409 when base_version is stale */
+router.put("/:id/label-schema", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = saveLabelSchemaSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_label_schema", details: parsed.error.errors });
+    }
+    const { schema, base_version, remap } = parsed.data;
+
+    const result = await saveLabelSchema(db, {
+      orgId,
+      projectId: req.params.id,
+      userId: req.user?.userId,
+      schema,
+      baseVersion: base_version,
+      remap,
+    });
+
+    res.json(result);
+  } catch (err: any) {
+    if (err?.message === "project_not_found") {
+      return res.status(404).json({ error: err.message });
+    }
+    if (err?.message === "invalid_label_remap") {
+      return res.status(400).json({ error: err.message });
+    }
+    if (err?.message === "label_schema_conflict") {
+      return res.status(409).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: "label_schema_save_failed" });
+  }
+});
+
+export default router;
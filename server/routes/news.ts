@@ -1,62 +1,111 @@
 import { Router } from "express";
+import { requirePermission } from "../middleware/authorize";
+import { releaseOrgTransaction } from "../middleware/tenancy";
 import {
   listNews,
   generateAiForNews,
   ingestNews,
 } from "../services/news";
-import { processNewsJob } from "../jobs/processNewsJob";
+import { cleanNewsText } from "../services/newsCleaning";
+import { getNewsTranslation, translateNews } from "../services/translation";
+import { enqueueNewsProcessing } from "../jobs/newsScheduler";
 
 const router = Router();
 
-router.get("/", listNews);
-router.post("/ingest", ingestNews);
+router.get("/", requirePermission("nest_annotate:read"), listNews);
+router.post("/ingest", requirePermission("nest_annotate:write"), ingestNews);
 
 /* admin retry for failed news */
-router.post("/:id/retry", async (req, res) => {
+router.post("/:id/retry", requirePermission("nest_annotate:manage"), async (req, res) => {
   try {
     const db = req.app.locals.db;
-    const orgId = req.headers["x-org-id"] as string;
-    const userId = req.headers["x-user-id"] as string;
+    const orgId = req.orgId as string;
+    const userId = req.user?.userId;
     const newsId = req.params.id;
 
-    processNewsJob({
-      db,
-      orgId,
-      newsId,
-      userId,
-    }).catch((err) => {
-      console.error("Retry job failed:", err);
-    });
+    const job = await enqueueNewsProcessing(db, { orgId, newsId, userId });
 
-    res.json({ status: "retry_queued" });
+    res.json({ status: "retry_queued", job_id: job?.id ?? null, deduplicated: !job });
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "news_retry_failed" });
   }
 });
 
+/* re-extract cleaned_text from raw_text; annotation offsets are carried over */
+router.post("/:id/clean", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const result = await cleanNewsText(db, { orgId, newsId: req.params.id, force: true });
+
+    res.json(result);
+  } catch (err: any) {
+    if (err?.message === "news_not_found") {
+      return res.status(404).json({ error: "news_not_found" });
+    }
+    if (err?.message === "news_text_missing" || err?.message === "cleaned_text_empty") {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: "news_clean_failed" });
+  }
+});
+
+/* original and English text side by side; annotation offsets refer to the original */
+router.get("/:id/text", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const text = await getNewsTranslation(db, orgId, req.params.id);
+    if (!text) {
+      return res.status(404).json({ error: "news_not_found" });
+    }
+
+    res.json(text);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "news_text_fetch_failed" });
+  }
+});
+
+/* (re)translate a non-English article into English */
+router.post("/:id/translate", requirePermission("nest_annotate:write"), releaseOrgTransaction, async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const result = await translateNews(db, { orgId, newsId: req.params.id, force: req.body?.force === true });
+
+    res.json(result);
+  } catch (err: any) {
+    if (err?.message === "news_not_found") {
+      return res.status(404).json({ error: "news_not_found" });
+    }
+    if (err?.message === "news_text_missing") {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: "news_translate_failed" });
+  }
+});
 
 /* legacy / manual trigger (keep for now) */
-router.post("/:id/generate-ai", generateAiForNews);
+router.post("/:id/generate-ai", requirePermission("nest_annotate:write"), releaseOrgTransaction, generateAiForNews);
 
-/* canonical pipeline trigger — BACKGROUND */
-router.post("/:id/process", async (req, res) => {
+/* canonical pipeline trigger — enqueued on the job queue */
+router.post("/:id/process", requirePermission("nest_annotate:write"), async (req, res) => {
   try {
     const db = req.app.locals.db;
-    const orgId = req.headers["x-org-id"] as string;
-    const userId = req.headers["x-user-id"] as string;
+    const orgId = req.orgId as string;
+    const userId = req.user?.userId;
     const newsId = req.params.id;
 
-    processNewsJob({
-      db,
-      orgId,
-      newsId,
-      userId,
-    }).catch((err) => {
-      console.error("Background news job failed:", err);
-    });
+    const job = await enqueueNewsProcessing(db, { orgId, newsId, userId });
 
-    res.json({ status: "queued" });
+    res.json({ status: "queued", job_id: job?.id ?? null, deduplicated: !job });
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "news_process_failed" });
@@ -0,0 +1,147 @@
+import { Router } from "express";
+import {
+  createNewsBackfillSchema,
+  newsBackfillFiltersSchema,
+  newsBackfillItemStatuses,
+  type NewsBackfillItemStatus,
+} from "@shared/schema";
+import { requirePermission } from "../middleware/authorize";
+import { isNewsProject } from "../services/newsFeeds";
+import {
+  cancelNewsBackfill,
+  createNewsBackfill,
+  getNewsBackfill,
+  listNewsBackfillItems,
+  listNewsBackfills,
+  previewNewsBackfill,
+} from "../services/newsBackfills";
+
+const router = Router();
+
+router.get("/", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    res.json(await listNewsBackfills(db, orgId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "news_backfills_list_failed" });
+  }
+});
+
+/* count the articles the filters select, without creating anything */
+router.post("/preview", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = newsBackfillFiltersSchema.safeParse(req.body?.filters ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_filters", details: parsed.error.errors });
+    }
+
+    res.json(await previewNewsBackfill(db, orgId, parsed.data));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "news_backfill_preview_failed" });
+  }
+});
+
+router.post("/", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = createNewsBackfillSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_news_backfill", details: parsed.error.errors });
+    }
+    const { filters, dry_run, rate_per_minute } = parsed.data;
+
+    if (filters.project_id && !(await isNewsProject(db, orgId, filters.project_id))) {
+      return res.status(400).json({ error: "invalid_project" });
+    }
+
+    const backfill = await createNewsBackfill(db, {
+      orgId,
+      userId: req.user?.userId,
+      filters,
+      dryRun: dry_run,
+      ratePerMinute: rate_per_minute,
+    });
+
+    res.status(201).json(backfill);
+  } catch (err: any) {
+    if (err?.message === "no_matching_news" || err?.message === "too_many_news") {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: "news_backfill_create_failed" });
+  }
+});
+
+router.get("/:id", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const backfill = await getNewsBackfill(db, orgId, req.params.id);
+    if (!backfill) {
+      return res.status(404).json({ error: "news_backfill_not_found" });
+    }
+
+    res.json(backfill);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "news_backfill_fetch_failed" });
+  }
+});
+
+/* per-article results; dry-run items carry the diff */
+router.get("/:id/items", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const status = req.query.status as string | undefined;
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    if (status && !newsBackfillItemStatuses.includes(status as NewsBackfillItemStatus)) {
+      return res.status(400).json({ error: "invalid_status" });
+    }
+
+    res.json(
+      await listNewsBackfillItems(db, {
+        orgId,
+        backfillId: req.params.id,
+        status: status as NewsBackfillItemStatus | undefined,
+        limit,
+        offset,
+      })
+    );
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "news_backfill_items_failed" });
+  }
+});
+
+router.post("/:id/cancel", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    res.json(await cancelNewsBackfill(db, orgId, req.params.id));
+  } catch (err: any) {
+    if (err?.message === "news_backfill_not_found") {
+      return res.status(404).json({ error: err.message });
+    }
+    if (err?.message === "news_backfill_not_running") {
+      return res.status(409).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: "news_backfill_cancel_failed" });
+  }
+});
+
+export default router;
@@ -0,0 +1,161 @@
+import { Router } from "express";
+import { insertNewsFeedSchema, updateNewsFeedSchema } from "@shared/schema";
+import { enqueueFeedPoll } from "../jobs/feedScheduler";
+import { requirePermission } from "../middleware/authorize";
+import { releaseOrgTransaction } from "../middleware/tenancy";
+import {
+  createNewsFeed,
+  deleteNewsFeed,
+  fetchFeedEntries,
+  getNewsFeed,
+  isNewsProject,
+  listNewsFeeds,
+  updateNewsFeed,
+} from "../services/newsFeeds";
+
+const router = Router();
+
+router.get("/", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    res.json(await listNewsFeeds(db, orgId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "news_feeds_list_failed" });
+  }
+});
+
+router.post("/", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = insertNewsFeedSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_news_feed", details: parsed.error.errors });
+    }
+    const feed = parsed.data;
+
+    if (feed.target_project_id && !(await isNewsProject(db, orgId, feed.target_project_id))) {
+      return res.status(400).json({ error: "invalid_target_project" });
+    }
+
+    const created = await createNewsFeed(db, {
+      orgId,
+      userId: req.user?.userId,
+      sourceName: feed.source_name,
+      feedType: feed.feed_type,
+      url: feed.url,
+      pollIntervalMinutes: feed.poll_interval_minutes,
+      targetProjectId: feed.target_project_id,
+      isActive: feed.is_active,
+    });
+
+    res.status(201).json(created);
+  } catch (err: any) {
+    if (err?.code === "23505") {
+      return res.status(409).json({ error: "news_feed_exists" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "news_feed_create_failed" });
+  }
+});
+
+/* fetch and parse without saving, to check a URL before adding it */
+router.post("/preview", requirePermission("nest_annotate:manage"), releaseOrgTransaction, async (req, res) => {
+  try {
+    const parsed = insertNewsFeedSchema.pick({ url: true, feed_type: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_news_feed", details: parsed.error.errors });
+    }
+
+    const entries = await fetchFeedEntries({ url: parsed.data.url, feedType: parsed.data.feed_type });
+    res.json({ count: entries.length, entries: entries.slice(0, 10) });
+  } catch (err: any) {
+    if (err?.message?.startsWith("fetch_blocked")) {
+      return res.status(400).json({ error: "news_feed_url_blocked" });
+    }
+    if (err?.message?.startsWith("fetch_too_large")) {
+      return res.status(400).json({ error: "news_feed_too_large" });
+    }
+    console.error(err);
+    res.status(502).json({ error: "news_feed_fetch_failed" });
+  }
+});
+
+router.patch("/:id", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const parsed = updateNewsFeedSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "invalid_news_feed", details: parsed.error.errors });
+    }
+    const changes = parsed.data;
+
+    if (changes.target_project_id && !(await isNewsProject(db, orgId, changes.target_project_id))) {
+      return res.status(400).json({ error: "invalid_target_project" });
+    }
+
+    const feed = await updateNewsFeed(db, orgId, req.params.id, {
+      sourceName: changes.source_name,
+      feedType: changes.feed_type,
+      url: changes.url,
+      pollIntervalMinutes: changes.poll_interval_minutes,
+      targetProjectId: changes.target_project_id,
+      isActive: changes.is_active,
+    });
+    if (!feed) {
+      return res.status(404).json({ error: "news_feed_not_found" });
+    }
+    res.json(feed);
+  } catch (err: any) {
+    if (err?.code === "23505") {
+      return res.status(409).json({ error: "news_feed_exists" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "news_feed_update_failed" });
+  }
+});
+
+router.delete("/:id", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const deleted = await deleteNewsFeed(db, orgId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "news_feed_not_found" });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "news_feed_delete_failed" });
+  }
+});
+
+/* poll now instead of waiting for the interval */
+router.post("/:id/poll", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const feed = await getNewsFeed(db, orgId, req.params.id);
+    if (!feed) {
+      return res.status(404).json({ error: "news_feed_not_found" });
+    }
+
+    // Polled by the job worker, outside this request's transaction
+    const job = await enqueueFeedPoll(db, { orgId, feedId: feed.id, manual: true });
+
+    res.status(202).json({ status: "queued", job_id: job?.id ?? null, deduplicated: !job });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "news_feed_poll_failed" });
+  }
+});
+
+export default router;
@@ -0,0 +1,168 @@
+import { Router } from "express";
+import { promptTemplateKeys, promptTemplateVariables, type PromptTemplateKey } from "@shared/schema";
+import { requirePermission } from "../middleware/authorize";
+import {
+  activatePromptTemplate,
+  createPromptTemplateVersion,
+  deactivatePromptTemplates,
+  findUnknownVariables,
+  getBuiltinPromptTemplate,
+  getPromptTemplate,
+  listPromptTemplates,
+  loadNewsPromptVariables,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+} from "../services/promptTemplates";
+
+const router = Router();
+
+const isPromptTemplateKey = (value: unknown): value is PromptTemplateKey =>
+  typeof value === "string" && (promptTemplateKeys as readonly string[]).includes(value);
+
+/* list the org's versions, plus the built-ins they override */
+router.get("/", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const key = isPromptTemplateKey(req.query.key) ? req.query.key : undefined;
+
+    const templates = await listPromptTemplates(db, orgId, key);
+
+    res.json({
+      templates,
+      builtin: promptTemplateKeys.map(getBuiltinPromptTemplate),
+      variables: promptTemplateVariables,
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "prompt_templates_list_failed" });
+  }
+});
+
+/* save a new version (optionally making it active) */
+router.post("/", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { key, template, description, activate } = req.body;
+
+    if (!isPromptTemplateKey(key) || typeof template !== "string" || !template.trim()) {
+      return res.status(400).json({ error: "missing_required_fields" });
+    }
+
+    const unknown = findUnknownVariables(template);
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: "unknown_template_variables", variables: unknown });
+    }
+
+    const created = await createPromptTemplateVersion(db, {
+      orgId,
+      key,
+      template,
+      description,
+      activate: activate === true,
+      userId: req.user?.userId,
+    });
+
+    res.status(201).json(created);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "prompt_template_create_failed" });
+  }
+});
+
+/* render a template against a stored news item without calling the model */
+router.post("/preview", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { news_id, template_id, template, key = "news_extraction" } = req.body;
+
+    if (!news_id || !isPromptTemplateKey(key)) {
+      return res.status(400).json({ error: "missing_required_fields" });
+    }
+
+    // An unsaved draft wins over a stored version, which wins over the active one
+    let source: { text: string; label: string };
+    if (typeof template === "string") {
+      source = { text: template, label: "draft" };
+    } else if (template_id) {
+      const stored = await getPromptTemplate(db, orgId, template_id);
+      if (!stored) {
+        return res.status(404).json({ error: "prompt_template_not_found" });
+      }
+      source = { text: stored.template, label: `${stored.key}:v${stored.version}` };
+    } else {
+      const active = await resolvePromptTemplate(db, orgId, key);
+      source = { text: active.template, label: active.label };
+    }
+
+    const variables = await loadNewsPromptVariables(db, orgId, news_id);
+
+    res.json({
+      prompt_version: source.label,
+      prompt: renderPromptTemplate(source.text, variables),
+      variables,
+      unknown_variables: findUnknownVariables(source.text),
+    });
+  } catch (err: any) {
+    if (err?.message === "news_not_found") {
+      return res.status(404).json({ error: "news_not_found" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "prompt_template_preview_failed" });
+  }
+});
+
+/* go back to the built-in template for a key */
+router.post("/reset", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { key } = req.body;
+
+    if (!isPromptTemplateKey(key)) {
+      return res.status(400).json({ error: "missing_required_fields" });
+    }
+
+    await deactivatePromptTemplates(db, orgId, key);
+    res.json(getBuiltinPromptTemplate(key));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "prompt_template_reset_failed" });
+  }
+});
+
+router.get("/:id", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const template = await getPromptTemplate(db, orgId, req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: "prompt_template_not_found" });
+    }
+    res.json(template);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "prompt_template_get_failed" });
+  }
+});
+
+router.post("/:id/activate", requirePermission("nest_annotate:manage"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const template = await activatePromptTemplate(db, orgId, req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: "prompt_template_not_found" });
+    }
+    res.json(template);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "prompt_template_activate_failed" });
+  }
+});
+
+export default router;
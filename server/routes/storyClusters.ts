@@ -0,0 +1,143 @@
+import { Router } from "express";
+import { requirePermission } from "../middleware/authorize";
+import {
+  detachFromCluster,
+  getNewsStoryCluster,
+  getStoryCluster,
+  listStoryClusters,
+  propagateClusterAnnotations,
+  propagateFromNews,
+  setClusterCanonical,
+} from "../services/storyClusters";
+
+const router = Router();
+
+/* clusters with at least one duplicate, most recently grown first */
+router.get("/", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const limit = Math.min(Number(req.query.limit) || 25, 100);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    res.json(await listStoryClusters(db, { orgId, limit, offset }));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "story_clusters_list_failed" });
+  }
+});
+
+/* the cluster an article belongs to, or null */
+router.get("/by-news/:newsId", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    res.json(await getNewsStoryCluster(db, orgId, req.params.newsId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "story_cluster_fetch_failed" });
+  }
+});
+
+/* copy the article's tags to its siblings if it is a canonical article; called when its task is completed */
+router.post("/propagate", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { news_id } = req.body ?? {};
+
+    if (typeof news_id !== "string" || !news_id) {
+      return res.status(400).json({ error: "news_id_required" });
+    }
+
+    const result = await propagateFromNews(db, { orgId, newsId: news_id });
+    res.json({ propagated: !!result, ...result });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "story_cluster_propagate_failed" });
+  }
+});
+
+router.get("/:id", requirePermission("nest_annotate:read"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    const cluster = await getStoryCluster(db, orgId, req.params.id);
+    if (!cluster) {
+      return res.status(404).json({ error: "story_cluster_not_found" });
+    }
+
+    res.json(cluster);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "story_cluster_fetch_failed" });
+  }
+});
+
+router.post("/:id/propagate", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+
+    res.json(await propagateClusterAnnotations(db, { orgId, clusterId: req.params.id }));
+  } catch (err: any) {
+    if (err?.message === "story_cluster_not_found") {
+      return res.status(404).json({ error: "story_cluster_not_found" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "story_cluster_propagate_failed" });
+  }
+});
+
+/* make another article of the cluster the one annotators work on */
+router.post("/:id/canonical", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { news_id } = req.body ?? {};
+
+    if (typeof news_id !== "string" || !news_id) {
+      return res.status(400).json({ error: "news_id_required" });
+    }
+
+    res.json(await setClusterCanonical(db, { orgId, clusterId: req.params.id, newsId: news_id }));
+  } catch (err: any) {
+    if (err?.message === "story_cluster_not_found") {
+      return res.status(404).json({ error: "story_cluster_not_found" });
+    }
+    if (err?.message === "news_not_in_cluster") {
+      return res.status(400).json({ error: "news_not_in_cluster" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "story_cluster_update_failed" });
+  }
+});
+
+/* remove a wrongly clustered article; its tasks go back to the annotation queue */
+router.post("/:id/detach", requirePermission("nest_annotate:write"), async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const orgId = req.orgId as string;
+    const { news_id } = req.body ?? {};
+
+    if (typeof news_id !== "string" || !news_id) {
+      return res.status(400).json({ error: "news_id_required" });
+    }
+
+    const cluster = await detachFromCluster(db, { orgId, clusterId: req.params.id, newsId: news_id });
+    res.json({ cluster });
+  } catch (err: any) {
+    if (err?.message === "story_cluster_not_found") {
+      return res.status(404).json({ error: "story_cluster_not_found" });
+    }
+    if (err?.message === "news_not_in_cluster") {
+      return res.status(400).json({ error: "news_not_in_cluster" });
+    }
+    console.error(err);
+    res.status(500).json({ error: "story_cluster_update_failed" });
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const llm = vi.hoisted(() => ({ text: "" }));
+
+vi.mock("./llmProviders", () => ({
+  resolveLlmProvider: vi.fn(async () => ({ name: "fixture" })),
+  completeWithRetry: vi.fn(async () => ({ text: llm.text, provider: "fixture", model: "fixture-1" })),
+  recordLlmUsage: vi.fn(async () => {}),
+}));
+vi.mock("./promptTemplates", () => ({
+  resolvePromptTemplate: vi.fn(async () => ({ id: "template-1", label: "v3", template: "{{headline}}" })),
+  loadNewsPromptVariables: vi.fn(async () => ({ headline: "Fund closes" })),
+  renderPromptTemplate: vi.fn(() => "Fund closes"),
+}));
+
+const { generateAi } = await import("./aiGeneration");
+
+const createFakeDb = () => {
+  const inserts: Array<{ sql: string; params: any[] }> = [];
+  const query = async (sql: string, params: any[] = []) => {
+    if (/^\s*insert into ai_outputs\b/i.test(sql)) {
+      inserts.push({ sql, params });
+      return { rows: [{ id: "ai-output-1" }] };
+    }
+    throw new Error(`unexpected query: ${sql}`);
+  };
+  return { db: { query }, inserts };
+};
+
+describe("generateAi", () => {
+  beforeEach(() => {
+    delete process.env.AI_MODE;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("stores a repaired output as AI_DONE", async () => {
+    llm.text =
+      "```json\n" +
+      JSON.stringify({
+        deal_detected: "true",
+        deal_type: "fundraise",
+        entities: { general_partners: ["Blackstone"] },
+        amounts: { value: "1200", currency: "$" },
+        geography: { country: "India", city: null },
+        dates: { announcement_date: "2026-03-01" },
+        confidence_score: 90,
+        reasoning: "Fund close",
+      }) +
+      "\n```";
+    const { db, inserts } = createFakeDb();
+
+    await expect(generateAi({ db, orgId: "org-a", newsId: "news-1" })).resolves.toBe("ai-output-1");
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].sql).toContain("'AI_DONE'");
+    expect(inserts[0].params[2]).toMatchObject({ deal_detected: true, amounts: { value: 1200, currency: "USD" } });
+  });
+
+  it("stores an invalid output with its raw text and fails with ai_failed_validation", async () => {
+    llm.text = 'Sure! {"deal_detected": "maybe", "confidence_score": 140}';
+    const { db, inserts } = createFakeDb();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(generateAi({ db, orgId: "org-a", newsId: "news-1", userId: "user-1" })).rejects.toThrow(
+      "ai_failed_validation"
+    );
+    expect(inserts).toHaveLength(1);
+    const [orgId, newsId, outputJson, rawOutput, validationErrors, templateId, promptVersion, provider, model, userId] =
+      inserts[0].params;
+    expect(inserts[0].sql).toContain("'FAILED_VALIDATION'");
+    expect({ orgId, newsId, rawOutput, templateId, promptVersion, provider, model, userId }).toEqual({
+      orgId: "org-a",
+      newsId: "news-1",
+      rawOutput: llm.text,
+      templateId: "template-1",
+      promptVersion: "v3",
+      provider: "fixture",
+      model: "fixture-1",
+      userId: "user-1",
+    });
+    expect(outputJson).toMatchObject({ deal_detected: "maybe", confidence_score: 140 });
+    expect(JSON.parse(validationErrors)).toEqual(
+      expect.arrayContaining([expect.stringMatching(/^deal_detected: /), expect.stringMatching(/^confidence_score: /)])
+    );
+  });
+});
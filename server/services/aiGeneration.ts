@@ -1,61 +1,49 @@
-import { linkEntitiesFromAi } from "./linkEntitiesFromAi";
-
-const AI_MODE = process.env.AI_MODE || "manual";
-
-if (!process.env.GOOGLE_AI_API_KEY) {
-  console.warn("⚠️ GOOGLE_AI_API_KEY not set — AI generation disabled");
-}
-
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { completeWithRetry, recordLlmUsage, resolveLlmProvider } from "./llmProviders";
+import { parseNewsAiOutput } from "./newsAiOutputRepair";
+import { timeStage, type PipelineRunRecorder } from "./pipelineRuns";
+import { loadNewsPromptVariables, renderPromptTemplate, resolvePromptTemplate } from "./promptTemplates";
 
 /* ===============================
    TYPES
 ================================ */
 
-export type NewsAIOutput = {
-  deal_detected: boolean;
-
-  deal_type: "fundraise" | "investment" | "acquisition" | "exit" | null;
-
-  entities: {
-    general_partners: string[];
-    funds: string[];
-    portfolio_companies: string[];
-    limited_partners: string[];
-    service_providers: string[];
-  };
-
-  amounts: {
-    value: number | null;
-    currency: string | null;
-  };
-
-  geography: {
-    country: string | null;
-    city: string | null;
-  };
-
-  dates: {
-    announcement_date: string | null;
-  };
-
-  confidence_score: number; // 0–100
-  reasoning: string;
-};
+export type { NewsAIOutput } from "@shared/schema";
 
 type GenerateAiInput = {
   db: any;
   orgId: string;
   newsId: string;
   userId?: string;
+  // Times the fetch, ai and validate stages when called from the pipeline
+  run?: PipelineRunRecorder;
 };
 
 /* ===============================
-   AI CLIENT
+   HELPERS
 ================================ */
 
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY as string);
-const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
+// The org's active news_extraction template rendered against the article
+const renderNewsPrompt = async (db: any, orgId: string, newsId: string) => {
+  const promptTemplate = await resolvePromptTemplate(db, orgId, "news_extraction");
+  const variables = await loadNewsPromptVariables(db, orgId, newsId);
+  return { promptTemplate, prompt: renderPromptTemplate(promptTemplate.template, variables) };
+};
+
+const callNewsLlm = async (
+  db: any,
+  { orgId, newsId, prompt, purpose }: { orgId: string; newsId: string; prompt: string; purpose: string }
+) => {
+  const provider = await resolveLlmProvider(db, orgId);
+  const result = await completeWithRetry(provider, { prompt, json: true });
+  await recordLlmUsage(db, { orgId, purpose, sourceId: newsId, result });
+  return result;
+};
+
+const assertAiEnabled = () => {
+  if (process.env.AI_MODE === "off") {
+    throw new Error("AI generation is disabled (AI_MODE=off)");
+  }
+};
 
 /* ===============================
    MAIN FUNCTION
@@ -66,120 +54,128 @@ export const generateAi = async ({
   orgId,
   newsId,
   userId,
+  run,
 }: GenerateAiInput) => {
-	
-	  if (AI_MODE === "off") {
-    throw new Error("AI generation is disabled (AI_MODE=off)");
-  }
+  assertAiEnabled();
+
   /* -------------------------------
-     1️⃣ Fetch news content
+     1️⃣ Resolve the org's prompt template
+     and render it against the news item
   -------------------------------- */
-  const newsResult = await db.query(
-    `
-    select
-      headline,
-      raw_text
-    from news
-    where id = $1
-      and org_id = $2
-    limit 1
-    `,
-    [newsId, orgId]
-  );
-
-  if (newsResult.rows.length === 0) {
-    throw new Error("news_not_found");
-  }
-
-  const { headline, raw_text } = newsResult.rows[0];
+  const { promptTemplate, prompt } = await timeStage(run, "fetch", () => renderNewsPrompt(db, orgId, newsId));
 
   /* -------------------------------
-     2️⃣ Build canonical prompt
+     2️⃣ Call the org's LLM provider
   -------------------------------- */
-  const prompt = `
-You are a private markets research analyst.
-
-Analyze the following news article and extract ONLY factual information.
-Do NOT guess. Do NOT hallucinate.
-
-Return output strictly in valid JSON matching this schema:
-
-{
-  "deal_detected": boolean,
-  "deal_type": "fundraise" | "investment" | "acquisition" | "exit" | null,
-  "entities": {
-    "general_partners": string[],
-    "funds": string[],
-    "portfolio_companies": string[],
-    "limited_partners": string[],
-    "service_providers": string[]
-  },
-  "amounts": {
-    "value": number | null,
-    "currency": string | null
-  },
-  "geography": {
-    "country": string | null,
-    "city": string | null
-  },
-  "dates": {
-    "announcement_date": string | null
-  },
-  "confidence_score": number,
-  "reasoning": string
-}
-
-Rules:
-- If no deal is present, set deal_detected=false and keep fields null/empty
-- Use ISO date format (YYYY-MM-DD)
-- confidence_score must be between 0 and 100
-- reasoning must be max 2 sentences
-
-NEWS HEADLINE:
-${headline}
-
-NEWS BODY:
-${raw_text || ""}
-`;
+  const result = await timeStage(run, "ai", () =>
+    callNewsLlm(db, { orgId, newsId, prompt, purpose: "news_ai" })
+  );
+  run?.recordLlm(result);
+  const responseText = result.text;
 
   /* -------------------------------
-     3️⃣ Call Gemini
+     3️⃣ Validate (with repair pass)
   -------------------------------- */
-  const result = await model.generateContent(prompt);
-  const responseText = result.response.text();
-
-  let aiJson: NewsAIOutput;
-
-  try {
-    aiJson = JSON.parse(responseText);
-  } catch (err) {
-    console.error("AI raw output:", responseText);
-    throw new Error("ai_invalid_json");
-  }
+  const output = await timeStage(run, "validate", async () => {
+    const parsed = parseNewsAiOutput(responseText);
+
+    if (!parsed.ok) {
+      // Keep the raw text so reviewers can see what the model returned
+      await db.query(
+        `
+        insert into ai_outputs (
+          org_id,
+          source_type,
+          source_id,
+          output_json,
+          raw_output,
+          validation_errors,
+          prompt_template_id,
+          prompt_version,
+          llm_provider,
+          llm_model,
+          status,
+          created_by
+        )
+        values ($1, 'news', $2, $3, $4, $5, $6, $7, $8, $9, 'FAILED_VALIDATION', $10)
+        `,
+        [
+          orgId,
+          newsId,
+          parsed.parsed,
+          responseText,
+          JSON.stringify(parsed.errors),
+          promptTemplate.id,
+          promptTemplate.label,
+          result.provider,
+          result.model,
+          userId || null,
+        ]
+      );
+      console.error("AI output failed validation:", parsed.errors);
+      throw new Error("ai_failed_validation");
+    }
+
+    return parsed.output;
+  });
 
   /* -------------------------------
      4️⃣ Persist AI output
   -------------------------------- */
-const insert = await db.query(
-  `
-  insert into ai_outputs (
-    org_id,
-    source_type,
-    source_id,
-    output_json,
-    status,
-    created_by
-  )
-  values ($1, 'news', $2, $3, 'AI_DONE', $4)
-  returning id
-  `,
-  [orgId, newsId, aiJson, userId || null]
-);
-
-const aiOutputId = insert.rows[0].id;
-
-// 🔥 Phase 14: auto-link entities from AI into the data graph
-await linkEntitiesFromAi(db, aiOutputId);
-
-return aiOutputId;
+  return timeStage(run, "persist", async () => {
+    const insert = await db.query(
+      `
+      insert into ai_outputs (
+        org_id,
+        source_type,
+        source_id,
+        output_json,
+        raw_output,
+        prompt_template_id,
+        prompt_version,
+        llm_provider,
+        llm_model,
+        status,
+        created_by
+      )
+      values ($1, 'news', $2, $3, $4, $5, $6, $7, $8, 'AI_DONE', $9)
+      returning id
+      `,
+      [
+        orgId,
+        newsId,
+        output,
+        responseText,
+        promptTemplate.id,
+        promptTemplate.label,
+        result.provider,
+        result.model,
+        userId || null,
+      ]
+    );
+
+    const aiOutputId: string = insert.rows[0].id;
+    return aiOutputId;
+  });
+};
+
+/* ===============================
+   PREVIEW (dry run)
+================================ */
+
+// Runs the current template and provider over an article without writing
+// anything, LLM usage included. Used by dry-run backfills.
+export const previewAiOutput = async ({ db, orgId, newsId }: { db: any; orgId: string; newsId: string }) => {
+  assertAiEnabled();
+
+  const { promptTemplate, prompt } = await renderNewsPrompt(db, orgId, newsId);
+  const provider = await resolveLlmProvider(db, orgId);
+  const result = await completeWithRetry(provider, { prompt, json: true });
+
+  return {
+    parsed: parseNewsAiOutput(result.text),
+    promptVersion: promptTemplate.label,
+    llmProvider: result.provider,
+    llmModel: result.model,
+  };
 };
@@ -0,0 +1,434 @@
+import { Request, Response } from "express";
+import {
+  aiOutputReviewSchema,
+  aiReviewFields,
+  newsAiOutputSchema,
+  type AiFieldReviewAction,
+  type AiReviewField,
+  type NewsAIOutput,
+  type TaggedEntity,
+} from "@shared/schema";
+import { draftDeal } from "./dealDrafts";
+import { AI_BUCKET_ENTITY_TYPES, upsertEntityLink } from "./entityLinks";
+import { decideEntityLink, resolveEntityCandidates } from "./entityResolution";
+
+/**
+ * Review loop for ai_outputs.
+ *
+ * A reviewer accepts or rejects an output as a whole and, when accepting,
+ * may edit or reject individual fields. The AI value and the human value of
+ * every reviewable field are kept in ai_output_field_reviews. Accepted
+ * outputs are written back to the article's annotation tasks
+ * (metadata.event_type, metadata.tagged_entities) and to entity_links, and
+ * the article's deal draft is refreshed from the reviewed values for analyst
+ * approval (server/services/dealDrafts.ts).
+ */
+
+type FieldDiff = {
+  field: AiReviewField;
+  action: AiFieldReviewAction;
+  aiValue: unknown;
+  humanValue: unknown;
+  changed: boolean;
+};
+
+// Event type tags of the default news label schema
+const EVENT_TYPE_BY_DEAL_TYPE: Record<NonNullable<NewsAIOutput["deal_type"]>, string> = {
+  fundraise: "fundraise",
+  investment: "investment",
+  acquisition: "mna",
+  exit: "exit",
+};
+
+/* -------------------------------
+   Field helpers
+-------------------------------- */
+const getField = (output: any, field: AiReviewField): unknown =>
+  field.split(".").reduce((value, key) => (value == null ? undefined : value[key]), output);
+
+const setField = (output: any, field: AiReviewField, value: unknown) => {
+  const keys = field.split(".");
+  const last = keys.pop() as string;
+  const parent = keys.reduce((node, key) => (node[key] ??= {}), output);
+  parent[last] = value;
+};
+
+const clearedValue = (field: AiReviewField): unknown => {
+  if (field === "deal_detected") return false;
+  if (field.startsWith("entities.")) return [];
+  return null;
+};
+
+export const buildReviewedOutput = (
+  aiOutput: unknown,
+  fields: Partial<Record<AiReviewField, { action: AiFieldReviewAction; value?: unknown }>>
+) => {
+  const base = aiOutput && typeof aiOutput === "object" ? aiOutput : {};
+  const reviewed: any = JSON.parse(JSON.stringify(base));
+  const diffs: FieldDiff[] = [];
+
+  for (const field of aiReviewFields) {
+    const decision = fields[field] ?? { action: "accept" as const };
+    const aiValue = getField(base, field) ?? null;
+    let humanValue: unknown = aiValue;
+
+    if (decision.action === "edit") {
+      humanValue = decision.value ?? null;
+    } else if (decision.action === "reject") {
+      humanValue = clearedValue(field);
+    }
+
+    setField(reviewed, field, humanValue);
+    diffs.push({
+      field,
+      action: decision.action,
+      aiValue,
+      humanValue,
+      changed: JSON.stringify(aiValue) !== JSON.stringify(humanValue),
+    });
+  }
+
+  return { reviewed, diffs };
+};
+
+/* -------------------------------
+   Write-back helpers
+-------------------------------- */
+// Clear matches become tags and confirmed links; ambiguous ones are left in REVIEW with their candidates
+const resolveTaggedEntities = async (
+  db: any,
+  { orgId, sourceId, aiOutputId, output, userId }: {
+    orgId: string;
+    sourceId: string;
+    aiOutputId: string;
+    output: NewsAIOutput;
+    userId: string | null;
+  }
+) => {
+  const tagged: TaggedEntity[] = [];
+  const unresolved: { bucket: string; name: string }[] = [];
+  const context = { country: output.geography.country };
+
+  for (const [bucket, entityType] of Object.entries(AI_BUCKET_ENTITY_TYPES)) {
+    for (const name of output.entities[bucket as keyof NewsAIOutput["entities"]]) {
+      const candidates = await resolveEntityCandidates(db, { orgId, entityType, mention: name, context });
+      const decision = decideEntityLink(candidates);
+      if (!decision) {
+        unresolved.push({ bucket, name });
+        continue;
+      }
+
+      await upsertEntityLink(db, {
+        orgId,
+        sourceType: "news",
+        sourceId,
+        entityType,
+        entityId: decision.candidate.entity_id,
+        linkSource: "ai",
+        matchType: decision.matchType,
+        confidence: Math.round(decision.candidate.score * 100),
+        status: decision.status,
+        mention: name,
+        aiOutputId,
+        candidates: decision.status === "REVIEW" ? decision.candidates : null,
+        userId,
+      });
+
+      if (decision.status === "LINKED") {
+        tagged.push({ entity_id: decision.candidate.entity_id, entity_name: decision.candidate.name, entity_type: entityType });
+      } else {
+        unresolved.push({ bucket, name });
+      }
+    }
+  }
+
+  return { tagged, unresolved };
+};
+
+// Merges the reviewed tags into every annotation task for the article (or just taskId)
+const writeTaskMetadata = async (
+  db: any,
+  { orgId, newsId, taskId, eventType, tagged }: {
+    orgId: string;
+    newsId: string;
+    taskId?: string;
+    eventType: string | null;
+    tagged: TaggedEntity[];
+  }
+) => {
+  const tasks = await db.query(
+    `
+    select t.id, t.metadata
+    from annotation_tasks t
+    join label_projects p on p.id = t.project_id
+    where p.org_id = $1
+      and t.metadata->>'news_id' = $2
+      and ($3::text is null or t.id::text = $3)
+    `,
+    [orgId, newsId, taskId ?? null]
+  );
+
+  for (const task of tasks.rows) {
+    const metadata = task.metadata || {};
+    const eventTypes: string[] = metadata.event_type || [];
+    const existing: TaggedEntity[] = metadata.tagged_entities || [];
+
+    const updated = {
+      ...metadata,
+      event_type: eventType && !eventTypes.includes(eventType) ? [...eventTypes, eventType] : eventTypes,
+      tagged_entities: [
+        ...existing,
+        ...tagged.filter((t) => !existing.some((e) => e.entity_id === t.entity_id)),
+      ],
+    };
+
+    await db.query(
+      `
+      update annotation_tasks
+      set metadata = $2
+      where id = $1
+      `,
+      [task.id, updated]
+    );
+  }
+
+  return tasks.rows.map((t: any) => t.id as string);
+};
+
+/* -------------------------------
+   Handlers
+-------------------------------- */
+export const listAiOutputs = async (req: Request, res: Response) => {
+  try {
+    const orgId = req.orgId as string;
+    const db = req.app.locals.db;
+    const { source_type, source_id, status, review_status } = req.query;
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+
+    const result = await db.query(
+      `
+      select
+        id,
+        source_type,
+        source_id,
+        status,
+        review_status,
+        output_json,
+        reviewed_output,
+        validation_errors,
+        prompt_version,
+        llm_provider,
+        llm_model,
+        deal_id,
+        created_at,
+        reviewed_by,
+        reviewed_at
+      from ai_outputs
+      where org_id = $1
+        and ($2::text is null or source_type = $2)
+        and ($3::text is null or source_id::text = $3)
+        and ($4::text is null or status = $4)
+        and ($5::text is null or review_status = $5)
+      order by created_at desc
+      limit $6
+      `,
+      [
+        orgId,
+        (source_type as string) || null,
+        (source_id as string) || null,
+        (status as string) || null,
+        (review_status as string) || null,
+        limit,
+      ]
+    );
+
+    res.json(result.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "ai_outputs_list_failed" });
+  }
+};
+
+export const getAiOutput = async (req: Request, res: Response) => {
+  try {
+    const orgId = req.orgId as string;
+    const db = req.app.locals.db;
+
+    const result = await db.query(
+      `
+      select *
+      from ai_outputs
+      where id = $1
+        and org_id = $2
+      limit 1
+      `,
+      [req.params.id, orgId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "ai_output_not_found" });
+    }
+
+    const reviews = await db.query(
+      `
+      select field, action, ai_value, human_value, changed, reviewed_by, reviewed_at
+      from ai_output_field_reviews
+      where ai_output_id = $1
+        and org_id = $2
+      order by reviewed_at desc, field asc
+      `,
+      [req.params.id, orgId]
+    );
+
+    res.json({ ...result.rows[0], field_reviews: reviews.rows });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "ai_output_get_failed" });
+  }
+};
+
+export const reviewAiOutput = async (req: Request, res: Response) => {
+  try {
+    const orgId = req.orgId as string;
+    const userId = req.user?.userId ?? null;
+    const db = req.app.locals.db;
+
+    const parsedBody = aiOutputReviewSchema.safeParse(req.body);
+    if (!parsedBody.success) {
+      return res.status(400).json({ error: "invalid_review", details: parsedBody.error.errors });
+    }
+    const { decision, fields, task_id, notes } = parsedBody.data;
+
+    const result = await db.query(
+      `
+      select id, source_type, source_id, output_json, deal_id
+      from ai_outputs
+      where id = $1
+        and org_id = $2
+      limit 1
+      `,
+      [req.params.id, orgId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "ai_output_not_found" });
+    }
+    const aiOutput = result.rows[0];
+
+    /* ---------- Whole-output rejection ---------- */
+    if (decision === "reject") {
+      await db.query(
+        `
+        update ai_outputs
+        set review_status = 'rejected',
+            review_notes = $3,
+            reviewed_by = $4,
+            reviewed_at = now()
+        where id = $1
+          and org_id = $2
+        `,
+        [aiOutput.id, orgId, notes ?? null, userId]
+      );
+      return res.json({ id: aiOutput.id, review_status: "rejected" });
+    }
+
+    /* ---------- Apply field decisions ---------- */
+    const { reviewed, diffs } = buildReviewedOutput(aiOutput.output_json, fields);
+    const validated = newsAiOutputSchema.safeParse(reviewed);
+    if (!validated.success) {
+      return res.status(400).json({
+        error: "reviewed_output_invalid",
+        details: validated.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+      });
+    }
+    const output = validated.data;
+
+    for (const diff of diffs) {
+      await db.query(
+        `
+        insert into ai_output_field_reviews (
+          org_id,
+          ai_output_id,
+          field,
+          action,
+          ai_value,
+          human_value,
+          changed,
+          reviewed_by
+        )
+        values ($1, $2, $3, $4, $5, $6, $7, $8)
+        `,
+        [
+          orgId,
+          aiOutput.id,
+          diff.field,
+          diff.action,
+          JSON.stringify(diff.aiValue),
+          JSON.stringify(diff.humanValue),
+          diff.changed,
+          userId,
+        ]
+      );
+    }
+
+    /* ---------- Write back ---------- */
+    let taskIds: string[] = [];
+    let unresolved: { bucket: string; name: string }[] = [];
+    let dealDraftId: string | null = null;
+
+    if (aiOutput.source_type === "news") {
+      const entities = await resolveTaggedEntities(db, {
+        orgId,
+        sourceId: aiOutput.source_id,
+        aiOutputId: aiOutput.id,
+        output,
+        userId,
+      });
+      unresolved = entities.unresolved;
+
+      taskIds = await writeTaskMetadata(db, {
+        orgId,
+        newsId: aiOutput.source_id,
+        taskId: task_id,
+        eventType: output.deal_type ? EVENT_TYPE_BY_DEAL_TYPE[output.deal_type] : null,
+        tagged: entities.tagged,
+      });
+
+      const draft = await draftDeal(db, {
+        orgId,
+        newsId: aiOutput.source_id,
+        aiOutputId: aiOutput.id,
+        output,
+      });
+      dealDraftId = draft?.id ?? null;
+    }
+
+    await db.query(
+      `
+      update ai_outputs
+      set review_status = 'accepted',
+          reviewed_output = $3,
+          review_notes = $4,
+          reviewed_by = $5,
+          reviewed_at = now()
+      where id = $1
+        and org_id = $2
+      `,
+      [aiOutput.id, orgId, output, notes ?? null, userId]
+    );
+
+    res.json({
+      id: aiOutput.id,
+      review_status: "accepted",
+      reviewed_output: output,
+      changed_fields: diffs.filter((d) => d.changed).map((d) => d.field),
+      updated_task_ids: taskIds,
+      unresolved_entities: unresolved,
+      deal_id: aiOutput.deal_id ?? null,
+      deal_draft_id: dealDraftId,
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "ai_output_review_failed" });
+  }
+};
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  return { ...actual, storage: new actual.MemStorage() };
+});
+
+const { storage } = await import("../storage");
+const { createApiKey, resolveApiKey } = await import("./apiKeys");
+
+const createAdmin = (orgId: string) =>
+  storage.createUser({
+    orgId,
+    username: `admin-${Math.random().toString(36).slice(2)}`,
+    password: "x",
+    email: "admin@example.com",
+    role: "admin",
+    displayName: "Admin",
+  });
+
+describe("resolveApiKey", () => {
+  let orgId: string;
+
+  beforeEach(async () => {
+    orgId = (await storage.createOrganization({ name: "Acme" })).id;
+  });
+
+  it("acts as the key's creator with the key's scopes", async () => {
+    const admin = await createAdmin(orgId);
+    const { key } = await createApiKey({
+      orgId,
+      name: "ingest",
+      scopes: ["nest_annotate:read"],
+      rateLimitPerMinute: 60,
+      createdBy: admin.id,
+    });
+
+    const { principal } = await resolveApiKey(key);
+    expect(principal).toMatchObject({ userId: admin.id, orgId, role: "api_key", scopes: ["nest_annotate:read"] });
+  });
+
+  it("rejects keys whose creator was deactivated", async () => {
+    const admin = await createAdmin(orgId);
+    const { key } = await createApiKey({ orgId, name: "ingest", scopes: [], rateLimitPerMinute: 60, createdBy: admin.id });
+    await storage.updateUser(admin.id, { isActive: false });
+
+    await expect(resolveApiKey(key)).rejects.toThrow("TOKEN_INVALID");
+  });
+
+  it("rejects keys whose creator moved to another org", async () => {
+    const admin = await createAdmin(orgId);
+    const { key } = await createApiKey({ orgId, name: "ingest", scopes: [], rateLimitPerMinute: 60, createdBy: admin.id });
+    const otherOrg = await storage.createOrganization({ name: "Other" });
+    await storage.updateUser(admin.id, { orgId: otherOrg.id });
+
+    await expect(resolveApiKey(key)).rejects.toThrow("TOKEN_INVALID");
+  });
+});
@@ -0,0 +1,146 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "../storage";
+import type { ApiKey, Permission } from "@shared/schema";
+import type { AuthenticatedUser } from "./session";
+
+/**
+ * Org-scoped API keys for machine clients (ingestion scripts etc.).
+ *
+ * Keys look like "ank_<random>" and are sent as `Authorization: Bearer <key>`.
+ * Only the SHA-256 hash is stored. Requests act on behalf of the key's org
+ * with exactly the key's scopes, attributed to the admin who created it, and
+ * only while that admin is an active member of the org.
+ */
+
+const API_KEY_PREFIX = "ank_";
+const DISPLAY_PREFIX_LENGTH = 12;
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+
+export interface CreatedApiKey {
+  apiKey: PublicApiKey;
+  // The plaintext key; only ever returned once, at creation or rotation
+  key: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/* -------------------------------
+   Key material
+-------------------------------- */
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function generateKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashKey(key) };
+}
+
+export function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const { keyHash: _hash, ...rest } = apiKey;
+  return rest;
+}
+
+/* -------------------------------
+   Lifecycle
+-------------------------------- */
+export async function createApiKey(input: {
+  orgId: string;
+  name: string;
+  scopes: Permission[];
+  rateLimitPerMinute: number;
+  createdBy: string;
+}): Promise<CreatedApiKey> {
+  const { key, keyPrefix, keyHash } = generateKey();
+  const apiKey = await storage.createApiKey({ ...input, keyPrefix, keyHash });
+  return { apiKey: toPublicApiKey(apiKey), key };
+}
+
+// Issues new key material for the same key id; the previous key stops working immediately
+export async function rotateApiKey(id: string, orgId: string): Promise<CreatedApiKey | null> {
+  const existing = await storage.getApiKey(id, orgId);
+  if (!existing || existing.revokedAt) return null;
+
+  const { key, keyPrefix, keyHash } = generateKey();
+  const updated = await storage.updateApiKey(id, orgId, { keyPrefix, keyHash, rotatedAt: new Date() });
+  if (!updated) return null;
+  return { apiKey: toPublicApiKey(updated), key };
+}
+
+export async function revokeApiKey(id: string, orgId: string): Promise<PublicApiKey | null> {
+  const existing = await storage.getApiKey(id, orgId);
+  if (!existing) return null;
+  if (existing.revokedAt) return toPublicApiKey(existing);
+
+  const updated = await storage.updateApiKey(id, orgId, { revokedAt: new Date() });
+  return updated ? toPublicApiKey(updated) : null;
+}
+
+/* -------------------------------
+   Request authentication
+-------------------------------- */
+export async function resolveApiKey(token: string): Promise<{ principal: AuthenticatedUser; apiKey: ApiKey }> {
+  const apiKey = await storage.getApiKeyByHash(hashKey(token));
+  if (!apiKey || apiKey.revokedAt || !apiKey.createdBy) {
+    throw new Error("TOKEN_INVALID");
+  }
+
+  // The key acts as its creator, so it stops working once they are deactivated or leave the org
+  const creator = await storage.getUser(apiKey.createdBy);
+  if (!creator || !creator.isActive || creator.orgId !== apiKey.orgId) {
+    throw new Error("TOKEN_INVALID");
+  }
+
+  // Throttle last-used writes so busy keys don't turn every request into an UPDATE
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+    storage.updateApiKey(apiKey.id, apiKey.orgId, { lastUsedAt: now }).catch((err) => {
+      console.error("[api-keys] Failed to record last use:", err);
+    });
+  }
+
+  return {
+    apiKey,
+    principal: {
+      userId: apiKey.createdBy,
+      orgId: apiKey.orgId,
+      role: "api_key",
+      isSuperAdmin: false,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+    },
+  };
+}
+
+// Fixed one-minute window per key. Kept in process memory, so the limit applies per server instance.
+const rateWindows = new Map<string, { windowStart: number; count: number }>();
+
+export function consumeRateLimit(apiKey: ApiKey): RateLimitResult {
+  const now = Date.now();
+  let window = rateWindows.get(apiKey.id);
+  if (!window || now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    window = { windowStart: now, count: 0 };
+    rateWindows.set(apiKey.id, window);
+  }
+  window.count++;
+
+  const limit = apiKey.rateLimitPerMinute;
+  return {
+    allowed: window.count <= limit,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: window.windowStart + RATE_LIMIT_WINDOW_MS,
+  };
+}
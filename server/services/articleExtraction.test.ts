@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { cleanedToRawOffset, decodeEntities, extractArticle, rawToCleanedOffset } from "./articleExtraction";
+import { remapAnnotationSpan } from "./newsCleaning";
+
+// Every word of the cleaned text maps to raw text that reads the same, and back to itself
+const expectWordsRoundTrip = (raw: string) => {
+  const { text, offsetMap } = extractArticle(raw);
+  const words = Array.from(text.matchAll(/\S+/g));
+  expect(words.length).toBeGreaterThan(0);
+
+  for (const word of words) {
+    const start = word.index!;
+    const end = start + word[0].length;
+    const rawStart = cleanedToRawOffset(offsetMap, start, "start");
+    const rawEnd = cleanedToRawOffset(offsetMap, end, "end");
+    expect(decodeEntities(raw.slice(rawStart, rawEnd))).toBe(word[0]);
+    expect(rawToCleanedOffset(offsetMap, rawStart, "start")).toBe(start);
+    expect(rawToCleanedOffset(offsetMap, rawEnd, "end")).toBe(end);
+  }
+  return { text, offsetMap };
+};
+
+describe("offset map", () => {
+  it("round-trips plain text with collapsed whitespace", () => {
+    const raw = "Warburg   Pincus\tinvests\n in   Avanse.\n\n\n\nThe   round  closed on Monday.";
+    const { text } = expectWordsRoundTrip(raw);
+    expect(text).toBe("Warburg Pincus invests in Avanse.\n\nThe round closed on Monday.");
+  });
+
+  it("round-trips HTML with entities, tags and line breaks", () => {
+    const raw =
+      "<html><body><nav>Home | Markets</nav><article>" +
+      "<p>KKR &amp; Co.   agreed to buy <b>Vini&nbsp;Cosmetics</b> for &#8377;4,500 crore.</p>" +
+      "<p>The deal&mdash;its largest in India&mdash;closes in June.<br>Shares rose 3%.</p>" +
+      "</article></body></html>";
+    const { text } = expectWordsRoundTrip(raw);
+    expect(text).toContain("KKR & Co. agreed to buy Vini Cosmetics for ₹4,500 crore.");
+  });
+
+  it("round-trips multi-byte characters", () => {
+    const raw =
+      "<p>Société Générale backs Zürich-based fintech 🚀 Neon in a €50m round.</p>" +
+      "<p>日本のファンドが出資 — 株価は 😀 上昇した。</p>";
+    const { text, offsetMap } = expectWordsRoundTrip(raw);
+
+    // Surrogate pairs keep their UTF-16 length on both sides
+    const start = text.indexOf("🚀");
+    const rawStart = cleanedToRawOffset(offsetMap, start, "start");
+    expect(raw.slice(rawStart, cleanedToRawOffset(offsetMap, start + 2, "end"))).toBe("🚀");
+  });
+
+  it("snaps offsets inside a decoded entity or collapsed whitespace to its edges", () => {
+    const raw = "<p>Tata &amp; Sons   raised funds.</p>";
+    const { text, offsetMap } = extractArticle(raw);
+    const amp = raw.indexOf("&amp;");
+    const gap = raw.indexOf("   ");
+
+    expect(rawToCleanedOffset(offsetMap, amp + 2, "start")).toBe(text.indexOf("&"));
+    expect(rawToCleanedOffset(offsetMap, amp + 2, "end")).toBe(text.indexOf("&") + 1);
+    expect(rawToCleanedOffset(offsetMap, gap + 1, "start")).toBe(text.indexOf(" raised"));
+    expect(rawToCleanedOffset(offsetMap, gap + 1, "end")).toBe(text.indexOf(" raised") + 1);
+  });
+
+  it("maps markup between paragraphs to the paragraph break and markup around the text to its ends", () => {
+    const raw = "<p>First paragraph here.</p><p>Second one.</p>";
+    const { text, offsetMap } = extractArticle(raw);
+    const between = raw.indexOf("</p><p>") + 2;
+
+    expect(rawToCleanedOffset(offsetMap, between, "start")).toBe(text.indexOf("\n\n"));
+    expect(rawToCleanedOffset(offsetMap, between, "end")).toBe(text.indexOf("Second"));
+    expect(rawToCleanedOffset(offsetMap, 0, "start")).toBe(0);
+    expect(rawToCleanedOffset(offsetMap, raw.length, "end")).toBe(text.length);
+  });
+});
+
+describe("remapAnnotationSpan", () => {
+  it("carries a span on raw text into the cleaned text", () => {
+    const raw = "<p>Intro.</p><p>Investor: <b>Temasek&nbsp;Holdings</b> led the round.</p>";
+    const { text, offsetMap } = extractArticle(raw);
+    const start = raw.indexOf("Temasek");
+    const end = raw.indexOf("</b>");
+
+    const span = remapAnnotationSpan(
+      { oldText: raw, oldMap: null, newText: text, newMap: offsetMap },
+      { start, end, textSpan: raw.slice(start, end) },
+      true
+    );
+    expect(span && text.slice(span.start, span.end)).toBe("Temasek Holdings");
+  });
+
+  it("carries a span from an older cleaned text to a new one", () => {
+    const oldRaw = "Fund   closes.\n\n\nMotilal   Oswal   raised ₹2,000 crore.";
+    const oldClean = extractArticle(oldRaw);
+    const newClean = extractArticle(`<p>Fund closes.</p><p>${oldRaw.split("\n\n\n")[1]}</p>`);
+    const start = oldClean.text.indexOf("Motilal");
+    const end = oldClean.text.indexOf(" raised");
+
+    const span = remapAnnotationSpan(
+      { oldText: oldClean.text, oldMap: oldClean.offsetMap, newText: newClean.text, newMap: newClean.offsetMap },
+      { start, end, textSpan: "Motilal Oswal" },
+      false
+    );
+    expect(span && newClean.text.slice(span.start, span.end)).toBe("Motilal Oswal");
+  });
+});
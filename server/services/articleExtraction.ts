@@ -0,0 +1,790 @@
+import type { NewsOffsetMap, NewsOffsetSegment } from "@shared/schema";
+
+/**
+ * Readability-style article extraction for news.cleaned_text.
+ *
+ * extractArticle takes a news row's raw_text (a full HTML page, an HTML
+ * fragment from a feed, or plain text) and returns the article body without
+ * navigation, ads, share bars and other boilerplate, one paragraph per block
+ * separated by blank lines. It also picks up the byline, publish date and
+ * language when the page declares them or they can be inferred.
+ *
+ * Every character of the cleaned text is traced back to the raw_text range it
+ * came from. raw_text never changes, so that offset map lets annotation
+ * offsets move from raw_text, or from an older cleaned_text, to a new one
+ * (see server/services/newsCleaning.ts).
+ */
+
+// Bump when the extraction rules change, so stored maps can be told apart
+export const EXTRACTOR_VERSION = 1;
+
+export interface ExtractedArticle {
+  text: string;
+  paragraphs: string[];
+  title: string | null;
+  byline: string | null;
+  // YYYY-MM-DD, like news.publish_date
+  publishDate: string | null;
+  // ISO 639-1 code
+  language: string | null;
+  offsetMap: NewsOffsetMap;
+}
+
+/* ===============================
+   ENTITIES
+================================ */
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+  pound: "£",
+};
+
+const decodeEntity = (match: string, code: string) => {
+  if (code[0] === "#") {
+    const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : match;
+  }
+  return ENTITIES[code.toLowerCase()] ?? match;
+};
+
+export const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, decodeEntity);
+
+/* ===============================
+   HTML TREE
+================================ */
+
+interface HtmlElement {
+  tag: string;
+  attrs: string;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+  start: number;
+  // Content of raw-text elements (script, style, title)
+  content?: string;
+}
+
+interface HtmlText {
+  text: string;
+  start: number;
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+const isElement = (node: HtmlNode): node is HtmlElement => "tag" in node;
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+const RAW_TEXT_TAGS = new Set(["script", "style", "title", "textarea", "noscript", "template"]);
+// Opening one of these closes an open <p>
+const P_CLOSERS = new Set([
+  "p", "div", "ul", "ol", "dl", "table", "pre", "blockquote", "section", "article", "aside", "header", "footer",
+  "nav", "figure", "form", "h1", "h2", "h3", "h4", "h5", "h6", "hr",
+]);
+
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<![^>]*>|<\?[^>]*>|<\/?[a-zA-Z][^>]*>|[^<]+|</g;
+
+const parseHtml = (html: string): HtmlElement => {
+  const root: HtmlElement = { tag: "#root", attrs: "", children: [], parent: null, start: 0 };
+  let current = root;
+  let skipUntil = 0;
+
+  const close = (tag: string) => {
+    for (let el: HtmlElement | null = current; el && el !== root; el = el.parent) {
+      if (el.tag === tag) {
+        current = el.parent ?? root;
+        return;
+      }
+    }
+  };
+
+  for (const match of Array.from(html.matchAll(TOKEN))) {
+    const token = match[0];
+    const start = match.index!;
+    if (start < skipUntil) continue;
+
+    if (token[0] !== "<" || token === "<") {
+      current.children.push({ text: token, start });
+      continue;
+    }
+    if (token.startsWith("<!") || token.startsWith("<?")) continue;
+
+    const tagMatch = token.match(/^<(\/?)([a-zA-Z][\w:-]*)([\s\S]*?)\/?>$/);
+    if (!tagMatch) continue;
+    const [, slash, name, attrs] = tagMatch;
+    const tag = name.toLowerCase();
+
+    if (slash) {
+      close(tag);
+      continue;
+    }
+
+    if (current.tag === "p" && P_CLOSERS.has(tag)) close("p");
+    if (tag === "li" && current.tag === "li") close("li");
+
+    const element: HtmlElement = { tag, attrs, children: [], parent: current, start };
+    current.children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const contentStart = start + token.length;
+      const end = html.toLowerCase().indexOf(`</${tag}`, contentStart);
+      const contentEnd = end === -1 ? html.length : end;
+      element.content = html.slice(contentStart, contentEnd);
+      skipUntil = contentEnd;
+      continue;
+    }
+    if (!VOID_TAGS.has(tag) && !token.endsWith("/>")) current = element;
+  }
+
+  return root;
+};
+
+const getAttr = (el: HtmlElement, name: string): string | null => {
+  const match = el.attrs.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]).trim() : null;
+};
+
+const walk = (el: HtmlElement, visit: (el: HtmlElement) => void) => {
+  visit(el);
+  for (const child of el.children) {
+    if (isElement(child)) walk(child, visit);
+  }
+};
+
+const findAll = (root: HtmlElement, test: (el: HtmlElement) => boolean) => {
+  const found: HtmlElement[] = [];
+  walk(root, (el) => {
+    if (test(el)) found.push(el);
+  });
+  return found;
+};
+
+/* ===============================
+   BOILERPLATE RULES
+================================ */
+
+// Never article text
+const DROP_TAGS = new Set([
+  "script", "style", "noscript", "template", "iframe", "svg", "canvas", "nav", "header", "footer", "aside", "form",
+  "button", "select", "textarea", "figure", "figcaption", "menu", "dialog", "head", "title", "object", "video",
+  "audio",
+]);
+
+const UNLIKELY =
+  /-ad-|\bads?\b|banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|sharing|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|tags?\b|toolbar|widget/i;
+const MAYBE = /and|article|body|column|content|main|post|shadow|story|text/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|story|text|blog/i;
+const NEGATIVE =
+  /-ad-|hidden|^hid$|\bhid\b|banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|taboola|tool|widget/i;
+const BYLINE = /byline|author|dateline|writtenby|p-author/i;
+
+// Whole paragraphs that are page furniture rather than article text
+const BOILERPLATE_PARAGRAPH =
+  /^(advertisement|advertising|sponsored( content)?|share( this( article| story)?)?( on [a-z]+)?|print|email|comments?|(read|see) (more|also)\b.*|related( articles| stories)?:?.*|more from .*|click here\b.*|follow us\b.*|(sign up|subscribe)\b.*|(©|\(c\)|copyright)\s.*|all rights reserved\.?|image:.*|photo:.*|skip to (main )?content)$/i;
+const MAX_BOILERPLATE_LENGTH = 160;
+
+const matchString = (el: HtmlElement) => `${getAttr(el, "class") ?? ""} ${getAttr(el, "id") ?? ""}`;
+
+const isUnlikely = (el: HtmlElement) => {
+  if (el.tag === "body" || el.tag === "article" || el.tag === "main" || el.tag === "html") return false;
+  const match = matchString(el);
+  return UNLIKELY.test(match) && !MAYBE.test(match);
+};
+
+const isHidden = (el: HtmlElement) =>
+  /(^|\s)hidden(\s|=|$)/i.test(el.attrs) ||
+  /display\s*:\s*none|visibility\s*:\s*hidden/i.test(getAttr(el, "style") ?? "") ||
+  getAttr(el, "aria-hidden") === "true";
+
+const classWeight = (el: HtmlElement) => {
+  let weight = 0;
+  for (const value of [getAttr(el, "class"), getAttr(el, "id")]) {
+    if (!value) continue;
+    if (NEGATIVE.test(value)) weight -= 25;
+    if (POSITIVE.test(value)) weight += 25;
+  }
+  return weight;
+};
+
+const isByline = (el: HtmlElement) =>
+  getAttr(el, "rel") === "author" ||
+  getAttr(el, "itemprop")?.includes("author") === true ||
+  BYLINE.test(matchString(el));
+
+const isSkipped = (el: HtmlElement) => DROP_TAGS.has(el.tag) || isUnlikely(el) || isHidden(el);
+
+/* ===============================
+   SCORING
+================================ */
+
+const innerText = (el: HtmlElement, cache: Map<HtmlElement, string>): string => {
+  const cached = cache.get(el);
+  if (cached !== undefined) return cached;
+  const text = el.children
+    .map((child) => (isElement(child) ? (isSkipped(child) ? "" : innerText(child, cache)) : child.text))
+    .join(" ");
+  const normalized = decodeEntities(text).replace(/\s+/g, " ").trim();
+  cache.set(el, normalized);
+  return normalized;
+};
+
+const linkDensity = (el: HtmlElement, cache: Map<HtmlElement, string>) => {
+  const length = innerText(el, cache).length;
+  if (length === 0) return 0;
+  const linkLength = findAll(el, (child) => child.tag === "a" && child !== el)
+    .map((a) => innerText(a, cache).length)
+    .reduce((sum, n) => sum + n, 0);
+  return Math.min(1, linkLength / length);
+};
+
+const TAG_BASE_SCORE: Record<string, number> = {
+  div: 5,
+  article: 10,
+  main: 5,
+  section: 3,
+  pre: 3,
+  td: 3,
+  blockquote: 3,
+  address: -3,
+  ol: -3,
+  ul: -3,
+  dl: -3,
+  dd: -3,
+  dt: -3,
+  li: -3,
+  h1: -5,
+  h2: -5,
+  h3: -5,
+  h4: -5,
+  h5: -5,
+  h6: -5,
+  th: -5,
+};
+
+const SCORED_TAGS = new Set(["p", "pre", "td", "blockquote"]);
+const BLOCK_CHILD_TAGS = new Set(["div", "p", "ul", "ol", "dl", "table", "pre", "blockquote", "section", "article", "h1", "h2", "h3", "h4", "h5", "h6"]);
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// Divs that hold text directly are scored like paragraphs
+const isParagraphLike = (el: HtmlElement) =>
+  SCORED_TAGS.has(el.tag) ||
+  (el.tag === "div" && !el.children.some((child) => isElement(child) && BLOCK_CHILD_TAGS.has(child.tag)));
+
+const scoreCandidates = (root: HtmlElement, cache: Map<HtmlElement, string>) => {
+  const scores = new Map<HtmlElement, number>();
+  const initialize = (el: HtmlElement) => {
+    if (!scores.has(el)) scores.set(el, (TAG_BASE_SCORE[el.tag] ?? 0) + classWeight(el));
+  };
+
+  const visit = (el: HtmlElement) => {
+    if (isSkipped(el)) return;
+    if (isParagraphLike(el)) {
+      const text = innerText(el, cache);
+      if (text.length >= MIN_PARAGRAPH_LENGTH) {
+        const score = 1 + (text.match(/[,，、]/g)?.length ?? 0) + Math.min(3, Math.floor(text.length / 100));
+        let ancestor = el.parent;
+        for (let level = 0; ancestor && ancestor !== root && level < 3; level++, ancestor = ancestor.parent) {
+          initialize(ancestor);
+          scores.set(ancestor, scores.get(ancestor)! + score / (level === 0 ? 1 : level * 2));
+        }
+      }
+    }
+    for (const child of el.children) {
+      if (isElement(child)) visit(child);
+    }
+  };
+  visit(root);
+
+  for (const [el, score] of Array.from(scores)) {
+    scores.set(el, score * (1 - linkDensity(el, cache)));
+  }
+  return scores;
+};
+
+// The best-scoring container plus siblings that look like part of the same article
+const selectContent = (root: HtmlElement, cache: Map<HtmlElement, string>): HtmlElement[] => {
+  const scores = scoreCandidates(root, cache);
+  let top: HtmlElement | null = null;
+  for (const [el, score] of Array.from(scores)) {
+    if (!top || score > scores.get(top)!) top = el;
+  }
+  if (!top) {
+    return [findAll(root, (el) => el.tag === "body")[0] ?? root];
+  }
+
+  const parent = top.parent;
+  if (!parent || parent === root) return [top];
+
+  const threshold = Math.max(10, scores.get(top)! * 0.2);
+  return parent.children.filter((sibling): sibling is HtmlElement => {
+    if (!isElement(sibling)) return false;
+    if (sibling === top) return true;
+    if (isSkipped(sibling)) return false;
+    if ((scores.get(sibling) ?? -Infinity) >= threshold) return true;
+    if (sibling.tag !== "p") return false;
+    const text = innerText(sibling, cache);
+    const density = linkDensity(sibling, cache);
+    return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+  });
+};
+
+/* ===============================
+   TEXT BUILDER
+================================ */
+
+interface Piece {
+  text: string;
+  rawStart: number;
+  rawLength: number;
+}
+
+// Collects paragraphs as pieces of text tied to raw ranges, collapsing whitespace as it goes
+const createTextBuilder = (decode: boolean) => {
+  const paragraphs: Piece[][] = [];
+  let current: Piece[] = [];
+  let pending: { text: string; rawStart: number } | null = null;
+
+  const push = (text: string, rawStart: number, rawLength: number) => {
+    if (pending) {
+      current.push({ text: pending.text, rawStart: pending.rawStart, rawLength: rawStart - pending.rawStart });
+      pending = null;
+    }
+    current.push({ text, rawStart, rawLength });
+  };
+
+  const append = (raw: string, rawStart: number) => {
+    for (const match of Array.from(raw.matchAll(/\s+|&(#x[0-9a-f]+|#\d+|[a-z]+);|[^\s&]+|&/gi))) {
+      const token = match[0];
+      const start = rawStart + match.index!;
+      if (/^\s/.test(token)) {
+        if (current.length > 0 && !pending) pending = { text: " ", rawStart: start };
+      } else if (decode && match[1]) {
+        const decoded = decodeEntity(token, match[1]);
+        if (/^\s+$/.test(decoded)) {
+          if (current.length > 0 && !pending) pending = { text: " ", rawStart: start };
+        } else {
+          push(decoded, start, token.length);
+        }
+      } else {
+        push(token, start, token.length);
+      }
+    }
+  };
+
+  // A second <br> in a row ends the paragraph
+  const lineBreak = (rawStart: number) => {
+    if (current.length === 0) return;
+    if (pending?.text === "\n") endParagraph();
+    else if (!pending) pending = { text: "\n", rawStart };
+    else pending.text = "\n";
+  };
+
+  const endParagraph = () => {
+    if (current.length > 0) paragraphs.push(current);
+    current = [];
+    pending = null;
+  };
+
+  const finish = () => {
+    endParagraph();
+    return paragraphs;
+  };
+
+  return { append, lineBreak, endParagraph, finish };
+};
+
+const paragraphText = (pieces: Piece[]) => pieces.map((p) => p.text).join("");
+
+const isBoilerplate = (text: string) => text.length <= MAX_BOILERPLATE_LENGTH && BOILERPLATE_PARAGRAPH.test(text);
+
+// Joins paragraphs with blank lines and builds the offset map
+const assemble = (paragraphs: Piece[][]) => {
+  const kept = paragraphs.filter((pieces) => !isBoilerplate(paragraphText(pieces)));
+  const segments: NewsOffsetSegment[] = [];
+  let cleanedOffset = 0;
+
+  const addSegment = (piece: Piece) => {
+    const last = segments[segments.length - 1];
+    const linear = piece.text.length === piece.rawLength;
+    if (
+      last &&
+      linear &&
+      last[1] === last[3] &&
+      last[0] + last[1] === cleanedOffset &&
+      last[2] + last[3] === piece.rawStart
+    ) {
+      last[1] += piece.text.length;
+      last[3] += piece.rawLength;
+    } else {
+      segments.push([cleanedOffset, piece.text.length, piece.rawStart, piece.rawLength]);
+    }
+    cleanedOffset += piece.text.length;
+  };
+
+  kept.forEach((pieces, index) => {
+    if (index > 0) {
+      const previous = kept[index - 1][kept[index - 1].length - 1];
+      const rawStart = previous.rawStart + previous.rawLength;
+      addSegment({ text: "\n\n", rawStart, rawLength: pieces[0].rawStart - rawStart });
+    }
+    pieces.forEach(addSegment);
+  });
+
+  return {
+    text: kept.map(paragraphText).join("\n\n"),
+    paragraphs: kept.map(paragraphText),
+    offsetMap: { version: EXTRACTOR_VERSION, segments },
+  };
+};
+
+/* ===============================
+   BODY
+================================ */
+
+// Elements that end a paragraph
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "main", "li", "ul", "ol", "dl", "dt", "dd", "table", "tr", "td", "th", "pre",
+  "blockquote", "h1", "h2", "h3", "h4", "h5", "h6", "hr", "address", "body",
+]);
+const LIST_TAGS = new Set(["ul", "ol", "dl", "table"]);
+
+const extractHtmlBody = (content: HtmlElement[], cache: Map<HtmlElement, string>, title: string | null) => {
+  const builder = createTextBuilder(true);
+  const normalizedTitle = title ? normalizeForCompare(title) : null;
+
+  const emit = (el: HtmlElement) => {
+    if (isSkipped(el) || isByline(el)) return;
+    // Link lists inside the article (related stories, tag clouds)
+    if ((LIST_TAGS.has(el.tag) || el.tag === "div") && linkDensity(el, cache) > 0.5) return;
+    // The headline is stored separately as news.headline
+    if (el.tag === "h1" && (!normalizedTitle || normalizedTitle.includes(normalizeForCompare(innerText(el, cache))))) {
+      return;
+    }
+
+    const block = BLOCK_TAGS.has(el.tag);
+    if (block) builder.endParagraph();
+    for (const child of el.children) {
+      if (isElement(child)) {
+        if (child.tag === "br") builder.lineBreak(child.start);
+        else emit(child);
+      } else {
+        builder.append(child.text, child.start);
+      }
+    }
+    if (block) builder.endParagraph();
+  };
+
+  for (const el of content) {
+    emit(el);
+    builder.endParagraph();
+  }
+  return assemble(builder.finish());
+};
+
+const extractPlainText = (raw: string) => {
+  const builder = createTextBuilder(false);
+  // Blank lines separate paragraphs; text without any keeps one paragraph per line
+  const separator = /\n[ \t\u00a0]*\n/.test(raw) ? /\n[ \t\u00a0]*\n\s*/g : /\n\s*/g;
+  let start = 0;
+  for (const match of [...Array.from(raw.matchAll(separator)), null]) {
+    const end = match ? match.index! : raw.length;
+    builder.append(raw.slice(start, end), start);
+    builder.endParagraph();
+    if (match) start = match.index! + match[0].length;
+  }
+  return assemble(builder.finish());
+};
+
+/* ===============================
+   METADATA
+================================ */
+
+const normalizeForCompare = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+const metaContent = (root: HtmlElement, names: string[]): string | null => {
+  const wanted = new Set(names.map((n) => n.toLowerCase()));
+  for (const meta of findAll(root, (el) => el.tag === "meta")) {
+    const key = (getAttr(meta, "property") ?? getAttr(meta, "name") ?? getAttr(meta, "itemprop") ?? "").toLowerCase();
+    const content = getAttr(meta, "content");
+    if (wanted.has(key) && content) return content;
+  }
+  return null;
+};
+
+const jsonLdObjects = (root: HtmlElement): any[] => {
+  const objects: any[] = [];
+  for (const script of findAll(root, (el) => el.tag === "script" && getAttr(el, "type") === "application/ld+json")) {
+    try {
+      const parsed = JSON.parse(script.content ?? "");
+      const queue = Array.isArray(parsed) ? [...parsed] : [parsed];
+      while (queue.length > 0) {
+        const item = queue.shift();
+        if (!item || typeof item !== "object") continue;
+        objects.push(item);
+        if (Array.isArray(item["@graph"])) queue.push(...item["@graph"]);
+      }
+    } catch {
+      // Malformed JSON-LD is common; the other sources still apply
+    }
+  }
+  return objects;
+};
+
+const ARTICLE_TYPES = /article|posting|report/i;
+
+const jsonLdArticle = (root: HtmlElement) =>
+  jsonLdObjects(root).find((item) => [item["@type"]].flat().some((t) => typeof t === "string" && ARTICLE_TYPES.test(t)));
+
+const cleanByline = (value: string | null): string | null => {
+  if (!value) return null;
+  const byline = value
+    .replace(/\s+/g, " ")
+    .replace(/^(written\s+)?by[:\s]+/i, "")
+    .replace(/\s*[|•·].*$/, "")
+    .trim();
+  if (!byline || byline.length > 100 || /^https?:/i.test(byline)) return null;
+  return byline;
+};
+
+const findByline = (root: HtmlElement, content: HtmlElement[], cache: Map<HtmlElement, string>) => {
+  const article = jsonLdArticle(root);
+  const authors = [article?.author].flat().filter(Boolean);
+  const fromJsonLd = authors
+    .map((a: any) => (typeof a === "string" ? a : a?.name))
+    .filter((name: unknown): name is string => typeof name === "string" && name.trim().length > 0);
+  if (fromJsonLd.length > 0) return cleanByline(fromJsonLd.join(", "));
+
+  const fromMeta = cleanByline(metaContent(root, ["author", "article:author", "parsely-author", "sailthru.author", "dc.creator"]));
+  if (fromMeta) return fromMeta;
+
+  // Byline elements near the article body first, then anywhere on the page
+  const scopes = [...content.map((el) => el.parent ?? el), root];
+  for (const scope of scopes) {
+    const element = findAll(scope, (el) => el.tag !== "meta" && el.tag !== "link" && isByline(el))
+      .map((el) => cleanByline(innerText(el, cache)))
+      .find((text) => !!text);
+    if (element) return element;
+  }
+  return null;
+};
+
+export const toIsoDate = (value: string | null): string | null => {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+const findPublishDate = (root: HtmlElement) => {
+  const article = jsonLdArticle(root);
+  const candidates = [
+    typeof article?.datePublished === "string" ? article.datePublished : null,
+    metaContent(root, [
+      "article:published_time",
+      "og:article:published_time",
+      "datePublished",
+      "pubdate",
+      "publishdate",
+      "publish-date",
+      "date",
+      "dc.date.issued",
+      "dc.date",
+      "sailthru.date",
+      "parsely-pub-date",
+    ]),
+    ...findAll(root, (el) => el.tag === "time").map((el) => getAttr(el, "datetime")),
+  ];
+  for (const candidate of candidates) {
+    const date = toIsoDate(candidate);
+    if (date) return date;
+  }
+  return null;
+};
+
+/* ===============================
+   LANGUAGE
+================================ */
+
+// Short, frequent function words per language, matched as whole words
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "in", "is", "that", "for", "with", "on", "has", "said", "its", "was", "by"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "mit", "den", "von", "zu", "ein", "eine", "auf", "sich", "dem"],
+  fr: ["le", "la", "les", "et", "des", "est", "une", "dans", "pour", "qui", "que", "sur", "du", "au", "avec"],
+  es: ["el", "la", "los", "las", "y", "de", "que", "en", "una", "por", "con", "para", "del", "se", "es"],
+  pt: ["o", "os", "as", "e", "de", "que", "em", "um", "uma", "para", "com", "do", "da", "no", "na"],
+  it: ["il", "lo", "gli", "e", "di", "che", "in", "un", "una", "per", "con", "del", "della", "non", "sono"],
+  nl: ["de", "het", "een", "en", "van", "is", "dat", "op", "te", "voor", "met", "zijn", "niet", "ook", "wordt"],
+  sv: ["och", "att", "det", "som", "en", "av", "är", "för", "med", "har", "den", "till", "inte", "på", "om"],
+};
+
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[\u3040-\u30ff]/g, "ja"],
+  [/[\uac00-\ud7af]/g, "ko"],
+  [/[\u4e00-\u9fff]/g, "zh"],
+  [/[\u0400-\u04ff]/g, "ru"],
+  [/[\u0600-\u06ff]/g, "ar"],
+  [/[\u0900-\u097f]/g, "hi"],
+  [/[\u0e00-\u0e7f]/g, "th"],
+  [/[\u0590-\u05ff]/g, "he"],
+  [/[\u0370-\u03ff]/g, "el"],
+];
+
+const MIN_DETECTION_WORDS = 20;
+// Whitespace, digits and punctuation (ASCII and general)
+const NON_LETTERS = /[\s\d!-\/:-@[-`{-~\u00a1-\u00bf\u2000-\u206f\u3000-\u303f\uff01-\uff20]+/g;
+
+// Best guess from the text itself; null when the text is too short or ambiguous
+export const detectLanguage = (text: string): string | null => {
+  const sample = text.slice(0, 5000);
+  const letters = sample.replace(NON_LETTERS, "").length;
+  if (letters === 0) return null;
+
+  for (const [pattern, language] of SCRIPT_LANGUAGES) {
+    const count = sample.match(pattern)?.length ?? 0;
+    // Kana mixed with kanji is Japanese even when kanji dominate
+    if (count / letters > (language === "ja" ? 0.05 : 0.3)) return language;
+  }
+
+  const words = sample.toLowerCase().split(NON_LETTERS).filter(Boolean);
+  if (words.length < MIN_DETECTION_WORDS) return null;
+
+  const counts = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => {
+      const set = new Set(stopwords);
+      return { language, hits: words.filter((w) => set.has(w)).length };
+    })
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = counts;
+  if (best.hits / words.length < 0.08 || best.hits < second.hits * 1.3) return null;
+  return best.language;
+};
+
+// The page's declared language, reduced to its primary subtag
+const declaredLanguage = (root: HtmlElement): string | null => {
+  const html = findAll(root, (el) => el.tag === "html")[0];
+  const value =
+    (html && getAttr(html, "lang")) ??
+    metaContent(root, ["og:locale", "content-language", "language", "dc.language"]) ??
+    findAll(root, (el) => el.tag === "meta" && getAttr(el, "http-equiv")?.toLowerCase() === "content-language")
+      .map((el) => getAttr(el, "content"))
+      .find((v) => !!v) ??
+    null;
+  const primary = value?.split(/[-_,;\s]/)[0].toLowerCase();
+  return primary && /^[a-z]{2,3}$/.test(primary) ? primary : null;
+};
+
+/* ===============================
+   EXTRACT
+================================ */
+
+const looksLikeHtml = (raw: string) => /<(p|div|br|article|body|html|span|a|h[1-6]|li|section)\b[^>]*>/i.test(raw);
+
+export const extractArticle = (raw: string): ExtractedArticle => {
+  if (!looksLikeHtml(raw)) {
+    const body = extractPlainText(raw);
+    // A "By ..." line near the top, after the headline if the text repeats it
+    const bylineLine = body.paragraphs.slice(0, 3).find((p) => /^by\s/i.test(p) && p.length <= 100);
+    const byline = cleanByline(bylineLine ?? null);
+    return {
+      ...body,
+      title: null,
+      byline,
+      publishDate: null,
+      language: detectLanguage(body.text),
+    };
+  }
+
+  const root = parseHtml(raw);
+  const cache = new Map<HtmlElement, string>();
+  const titleElement = findAll(root, (el) => el.tag === "title")[0];
+  const title =
+    metaContent(root, ["og:title", "twitter:title"]) ??
+    (titleElement?.content ? decodeEntities(titleElement.content).replace(/\s+/g, " ").trim() || null : null);
+
+  const content = selectContent(root, cache);
+  const body = extractHtmlBody(content, cache, title);
+
+  return {
+    ...body,
+    title,
+    byline: findByline(root, content, cache),
+    publishDate: findPublishDate(root),
+    language: declaredLanguage(root) ?? detectLanguage(body.text),
+  };
+};
+
+/* ===============================
+   OFFSET MAPPING
+================================ */
+
+type Axis = "raw" | "cleaned";
+export type OffsetEdge = "start" | "end";
+
+const axisIndex = (axis: Axis) => (axis === "cleaned" ? 0 : 2);
+
+/**
+ * Maps an offset from one side of the map to the other. Start offsets that
+ * fall in skipped raw text move forward to the next kept character, end
+ * offsets move back to the previous one; offsets inside a segment whose two
+ * sides differ in length (a decoded entity, collapsed whitespace, a
+ * paragraph break) snap to the segment's edges.
+ */
+const mapOffset = (map: NewsOffsetMap, offset: number, edge: OffsetEdge, from: Axis): number => {
+  const segments = map.segments;
+  const s = axisIndex(from);
+  const t = axisIndex(from === "raw" ? "cleaned" : "raw");
+  if (segments.length === 0) return 0;
+
+  if (edge === "start") {
+    // First segment that ends after the offset
+    let lo = 0;
+    let hi = segments.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (segments[mid][s] + segments[mid][s + 1] > offset) hi = mid;
+      else lo = mid + 1;
+    }
+    if (lo === segments.length) {
+      const last = segments[segments.length - 1];
+      return last[t] + last[t + 1];
+    }
+    const seg = segments[lo];
+    if (offset <= seg[s]) return seg[t];
+    return seg[s + 1] === seg[t + 1] ? seg[t] + (offset - seg[s]) : seg[t];
+  }
+
+  // Last segment that starts before the offset
+  let lo = -1;
+  let hi = segments.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (segments[mid][s] < offset) lo = mid;
+    else hi = mid - 1;
+  }
+  if (lo === -1) return segments[0][t];
+  const seg = segments[lo];
+  if (offset >= seg[s] + seg[s + 1]) return seg[t] + seg[t + 1];
+  return seg[s + 1] === seg[t + 1] ? seg[t] + (offset - seg[s]) : seg[t] + seg[t + 1];
+};
+
+export const cleanedToRawOffset = (map: NewsOffsetMap, offset: number, edge: OffsetEdge) =>
+  mapOffset(map, offset, edge, "cleaned");
+
+export const rawToCleanedOffset = (map: NewsOffsetMap, offset: number, edge: OffsetEdge) =>
+  mapOffset(map, offset, edge, "raw");
@@ -1,11 +1,22 @@
 import { Request, Response } from "express";
+import { pipelineStages } from "@shared/schema";
+import { enqueueNewsProcessing } from "../jobs/newsScheduler";
+import {
+  findFailedNewsIds,
+  listPipelineFailureGroups,
+  listPipelineRuns,
+} from "./pipelineRuns";
+
+const LATENCY_WINDOW_DAYS = 7;
+
+const roundMs = (value: unknown) => (value == null ? null : Math.round(Number(value)));
 
 export const getDashboardMetrics = async (
   req: Request,
   res: Response
 ) => {
   try {
-    const orgId = req.headers["x-org-id"] as string;
+    const orgId = req.orgId as string;
     const db = req.app.locals.db;
 
     /* -------------------------------
@@ -45,7 +56,10 @@ export const getDashboardMetrics = async (
       `
       select
         count(*) filter (where status = 'LINKED')::int as linked,
-        count(*) filter (where status = 'REVIEW')::int as review_required
+        count(*) filter (where status = 'REVIEW')::int as review_required,
+        count(distinct source_id) filter (
+          where status = 'LINKED' and link_source = 'ai'
+        )::int as auto_linked_news
       from entity_links
       where org_id = $1
         and source_type = 'news'
@@ -96,8 +110,11 @@ export const getDashboardMetrics = async (
       },
       rates: {
         ai_coverage_pct: total > 0 ? Math.round((aiProcessed / total) * 100) : 0,
+        // Share of AI-processed articles with at least one AI link that needed no review
         auto_link_rate:
-          aiProcessed > 0 ? Math.round((linked / aiProcessed) * 100) : 0,
+          aiProcessed > 0
+            ? Math.round((linkingStats.rows[0].auto_linked_news / aiProcessed) * 100)
+            : 0,
       },
       freshness: {
         news_last_24h: freshness.rows[0].news_last_24h,
@@ -111,8 +128,9 @@ export const getDashboardMetrics = async (
     res.status(500).json({ error: "dashboard_metrics_failed" });
   }
 };
-export const getSystemHealth = async (req: any, res: any) => {
+export const getSystemHealth = async (req: Request, res: Response) => {
   try {
+    const orgId = req.orgId as string;
     const db = req.app.locals.db;
 
     /* -------------------------------
@@ -127,8 +145,10 @@ export const getSystemHealth = async (req: any, res: any) => {
       `
       select max(updated_at) as last_processed
       from news
-      where processing_status = 'COMPLETED'
-      `
+      where org_id = $1
+        and processing_status = 'COMPLETED'
+      `,
+      [orgId]
     );
 
     /* -------------------------------
@@ -138,9 +158,11 @@ export const getSystemHealth = async (req: any, res: any) => {
       `
       select count(*)::int as failed
       from news
-      where processing_status = 'FAILED'
+      where org_id = $1
+        and processing_status = 'FAILED'
         and updated_at >= now() - interval '24 hours'
-      `
+      `,
+      [orgId]
     );
 
     res.json({
@@ -159,32 +181,75 @@ export const getSystemHealth = async (req: any, res: any) => {
     });
   }
 };
-export const getBacklogMetrics = async (req: any, res: any) => {
+export const getBacklogMetrics = async (req: Request, res: Response) => {
   try {
+    const orgId = req.orgId as string;
     const db = req.app.locals.db;
 
     // Backlog counts
-    const backlog = await db.query(`
+    const backlog = await db.query(
+      `
       select
         count(*) filter (where processing_status = 'NEW')::int as new_count,
         count(*) filter (where processing_status = 'PROCESSING')::int as processing_count,
         count(*) filter (where processing_status = 'FAILED')::int as failed_count,
         count(*) filter (where processing_status = 'COMPLETED')::int as completed_count
       from news
-    `);
+      where org_id = $1
+      `,
+      [orgId]
+    );
 
-    // Latency for completed items
-    const latency = await db.query(`
+    // Latency from completed pipeline runs, overall and per stage
+    const latency = await db.query(
+      `
       select
-        percentile_cont(0.5) within group (order by (updated_at - created_at)) as p50_latency,
-        percentile_cont(0.9) within group (order by (updated_at - created_at)) as p90_latency
-      from news
-      where processing_status = 'COMPLETED'
-    `);
+        count(*)::int as runs,
+        percentile_cont(0.5) within group (order by duration_ms) as p50_ms,
+        percentile_cont(0.9) within group (order by duration_ms) as p90_ms
+      from pipeline_runs
+      where org_id = $1
+        and status = 'completed'
+        and started_at >= now() - ($2::int * interval '1 day')
+      `,
+      [orgId, LATENCY_WINDOW_DAYS]
+    );
+
+    // A stage can be timed more than once per run, so sum per run first
+    const stageLatency = await db.query(
+      `
+      select
+        t.stage,
+        percentile_cont(0.5) within group (order by t.duration_ms) as p50_ms,
+        percentile_cont(0.9) within group (order by t.duration_ms) as p90_ms
+      from (
+        select r.id, s->>'stage' as stage, sum((s->>'duration_ms')::int) as duration_ms
+        from pipeline_runs r
+        cross join lateral jsonb_array_elements(r.stages) s
+        where r.org_id = $1
+          and r.status = 'completed'
+          and r.started_at >= now() - ($2::int * interval '1 day')
+        group by r.id, s->>'stage'
+      ) t
+      group by t.stage
+      `,
+      [orgId, LATENCY_WINDOW_DAYS]
+    );
+    const byStage = new Map<string, any>(stageLatency.rows.map((r: any) => [r.stage, r]));
 
     res.json({
       backlog: backlog.rows[0],
-      latency: latency.rows[0],
+      latency: {
+        window_days: LATENCY_WINDOW_DAYS,
+        runs: latency.rows[0].runs,
+        p50_ms: roundMs(latency.rows[0].p50_ms),
+        p90_ms: roundMs(latency.rows[0].p90_ms),
+        by_stage: pipelineStages.map((stage) => ({
+          stage,
+          p50_ms: roundMs(byStage.get(stage)?.p50_ms),
+          p90_ms: roundMs(byStage.get(stage)?.p90_ms),
+        })),
+      },
       generated_at: new Date().toISOString(),
     });
   } catch (err) {
@@ -192,4 +257,72 @@ export const getBacklogMetrics = async (req: any, res: any) => {
     res.status(500).json({ error: "backlog_metrics_failed" });
   }
 };
+export const getPipelineFailures = async (req: Request, res: Response) => {
+  try {
+    const orgId = req.orgId as string;
+    const db = req.app.locals.db;
+    const sinceHours = Math.min(Math.max(Number(req.query.since_hours) || 24, 1), 24 * 30);
+
+    const groups = await listPipelineFailureGroups(db, { orgId, sinceHours, perGroup: 50 });
+
+    res.json({
+      since_hours: sinceHours,
+      total: groups.reduce((sum, g) => sum + g.count, 0),
+      groups,
+    });
+  } catch (err) {
+    console.error("PIPELINE FAILURES ERROR", err);
+    res.status(500).json({ error: "pipeline_failures_failed" });
+  }
+};
+export const retryPipelineFailures = async (req: Request, res: Response) => {
+  try {
+    const orgId = req.orgId as string;
+    const db = req.app.locals.db;
+    const { error_class, news_ids } = req.body ?? {};
+
+    if (error_class !== undefined && typeof error_class !== "string") {
+      return res.status(400).json({ error: "invalid_error_class" });
+    }
+    if (
+      news_ids !== undefined &&
+      (!Array.isArray(news_ids) || news_ids.some((id: unknown) => typeof id !== "string"))
+    ) {
+      return res.status(400).json({ error: "invalid_news_ids" });
+    }
+    if (!error_class && !news_ids?.length) {
+      return res.status(400).json({ error: "error_class_or_news_ids_required" });
+    }
 
+    const newsIds = await findFailedNewsIds(db, {
+      orgId,
+      errorClass: error_class,
+      newsIds: news_ids,
+    });
+
+    // Articles that already have a pending job are deduplicated by the queue
+    let enqueued = 0;
+    for (const newsId of newsIds) {
+      const job = await enqueueNewsProcessing(db, { orgId, newsId, userId: req.user?.userId });
+      if (job) enqueued++;
+    }
+
+    res.json({ status: "retry_queued", matched: newsIds.length, enqueued, news_ids: newsIds });
+  } catch (err) {
+    console.error("PIPELINE RETRY ERROR", err);
+    res.status(500).json({ error: "pipeline_retry_failed" });
+  }
+};
+export const getPipelineRuns = async (req: Request, res: Response) => {
+  try {
+    const orgId = req.orgId as string;
+    const db = req.app.locals.db;
+    const newsId = typeof req.query.news_id === "string" ? req.query.news_id : undefined;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+    res.json({ runs: await listPipelineRuns(db, { orgId, newsId, limit }) });
+  } catch (err) {
+    console.error("PIPELINE RUNS ERROR", err);
+    res.status(500).json({ error: "pipeline_runs_failed" });
+  }
+};
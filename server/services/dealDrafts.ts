@@ -0,0 +1,786 @@
+import type {
+  DealDraft,
+  DealDraftApprovalInput,
+  DealMatchCandidate,
+  LinkableEntityType,
+  NewsAIOutput,
+} from "@shared/schema";
+import { runInTransaction } from "../db";
+import { getEntityName } from "./entityLinks";
+
+/**
+ * Deal drafts proposed from AI news extraction.
+ *
+ * Once an article's entities are linked, a deal the model detected is drafted
+ * from the output (type, amount, country, announcement date) and the LINKED
+ * GP, fund and portfolio company. The draft is scored against existing
+ * entities_deal rows so analysts can see when the deal is already in
+ * DataNest. Nothing reaches entities_deal until an analyst approves the
+ * draft, either as a new deal or merged into the one it duplicates.
+ */
+
+// Score at which an existing deal is flagged as probably the same transaction
+const DUPLICATE_MATCH = 0.6;
+// Lowest score still shown to the analyst
+const CANDIDATE_MATCH = 0.3;
+const MAX_CANDIDATES = 5;
+
+export type DraftParty = { id: string | null; name: string | null };
+
+export type DraftFields = {
+  dealName: string;
+  dealType: NewsAIOutput["deal_type"];
+  gp: DraftParty;
+  fund: DraftParty;
+  portfolioCompany: DraftParty;
+  dealSize: number | null;
+  dealCurrency: string | null;
+  dealCountry: string | null;
+  announcementDate: string | null;
+};
+
+const toDealDraft = (row: any): DealDraft => ({
+  id: row.id,
+  orgId: row.org_id,
+  newsId: row.news_id,
+  aiOutputId: row.ai_output_id,
+  status: row.status,
+  dealName: row.deal_name,
+  dealType: row.deal_type,
+  gpId: row.gp_id,
+  gpName: row.gp_name,
+  fundId: row.fund_id,
+  fundName: row.fund_name,
+  portfolioCompanyId: row.portfolio_company_id,
+  portfolioCompanyName: row.portfolio_company_name,
+  dealSize: row.deal_size,
+  dealCurrency: row.deal_currency,
+  dealCountry: row.deal_country,
+  announcementDate: row.announcement_date,
+  sourceUrl: row.source_url,
+  confidenceScore: row.confidence_score,
+  matchCandidates: row.match_candidates ?? [],
+  matchedDealId: row.matched_deal_id,
+  dealId: row.deal_id,
+  reviewNotes: row.review_notes,
+  reviewedBy: row.reviewed_by,
+  reviewedAt: row.reviewed_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const draftFieldsOf = (draft: DealDraft): DraftFields => ({
+  dealName: draft.dealName,
+  dealType: draft.dealType ?? null,
+  gp: { id: draft.gpId, name: draft.gpName },
+  fund: { id: draft.fundId, name: draft.fundName },
+  portfolioCompany: { id: draft.portfolioCompanyId, name: draft.portfolioCompanyName },
+  dealSize: draft.dealSize === null ? null : Number(draft.dealSize),
+  dealCurrency: draft.dealCurrency,
+  dealCountry: draft.dealCountry,
+  announcementDate: draft.announcementDate,
+});
+
+/* ===============================
+   MATCHING
+================================ */
+
+const sameName = (a: string | null, b: string | null) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const sameParty = (party: DraftParty, id: string | null, name: string | null) =>
+  (!!party.id && !!id && String(party.id) === String(id)) || sameName(party.name, name);
+
+const daysApart = (a: string, b: string) => {
+  const diff = Date.parse(a) - Date.parse(b);
+  return Number.isNaN(diff) ? null : Math.abs(diff) / 86_400_000;
+};
+
+// How likely an entities_deal row is the drafted transaction, with the reasons
+export const scoreDealMatch = (fields: DraftFields, deal: any): { score: number; signals: string[] } => {
+  const signals: string[] = [];
+  let score = 0;
+
+  if (sameParty(fields.portfolioCompany, deal.portfolio_company_id, deal.portfolio_company_name_snapshot)) {
+    score += 0.4;
+    signals.push("portfolio_company");
+  }
+  if (sameParty(fields.gp, deal.gp_id, deal.gp_name_snapshot)) {
+    score += 0.2;
+    signals.push("gp");
+  }
+  if (sameParty(fields.fund, deal.fund_id, deal.fund_name_snapshot)) {
+    score += 0.2;
+    signals.push("fund");
+  }
+
+  if (fields.dealType && deal.deal_type) {
+    if (fields.dealType === deal.deal_type) {
+      score += 0.1;
+      signals.push("type_match");
+    } else {
+      score -= 0.2;
+      signals.push("type_mismatch");
+    }
+  }
+
+  const days = fields.announcementDate && deal.announcement_date
+    ? daysApart(fields.announcementDate, deal.announcement_date)
+    : null;
+  if (days !== null) {
+    if (days <= 30) {
+      score += 0.2;
+      signals.push("date_close");
+    } else if (days <= 180) {
+      score += 0.1;
+      signals.push("date_near");
+    } else if (days > 365) {
+      score -= 0.3;
+      signals.push("date_far");
+    }
+  }
+
+  const size = deal.deal_size === null || deal.deal_size === undefined ? null : Number(deal.deal_size);
+  const sameCurrency = !fields.dealCurrency || !deal.deal_currency || fields.dealCurrency === deal.deal_currency;
+  if (fields.dealSize && size && sameCurrency) {
+    const ratio = Math.min(fields.dealSize, size) / Math.max(fields.dealSize, size);
+    if (ratio >= 0.9) {
+      score += 0.15;
+      signals.push("size_close");
+    } else if (ratio < 0.5) {
+      score -= 0.1;
+      signals.push("size_mismatch");
+    }
+  }
+
+  return { score: Math.max(0, Math.min(1, Number(score.toFixed(2)))), signals };
+};
+
+// Existing deals sharing a party with the draft, best match first
+export const findDealMatches = async (
+  db: any,
+  orgId: string,
+  fields: DraftFields
+): Promise<DealMatchCandidate[]> => {
+  const parties = [fields.portfolioCompany, fields.gp, fields.fund];
+  if (parties.every((p) => !p.id && !p.name)) return [];
+
+  const result = await db.query(
+    `
+    select
+      id,
+      deal_name,
+      deal_type,
+      announcement_date,
+      deal_size,
+      deal_currency,
+      gp_id,
+      gp_name_snapshot,
+      fund_id,
+      fund_name_snapshot,
+      portfolio_company_id,
+      portfolio_company_name_snapshot
+    from entities_deal
+    where org_id::text = $1
+      and (
+        portfolio_company_id::text = $2
+        or gp_id::text = $3
+        or fund_id::text = $4
+        or lower(portfolio_company_name_snapshot) = lower($5::text)
+        or lower(gp_name_snapshot) = lower($6::text)
+        or lower(fund_name_snapshot) = lower($7::text)
+      )
+    order by created_at desc
+    limit 100
+    `,
+    [
+      orgId,
+      fields.portfolioCompany.id,
+      fields.gp.id,
+      fields.fund.id,
+      fields.portfolioCompany.name,
+      fields.gp.name,
+      fields.fund.name,
+    ]
+  );
+
+  return result.rows
+    .map((deal: any) => ({ deal_id: String(deal.id), deal_name: deal.deal_name, ...scoreDealMatch(fields, deal) }))
+    .filter((c: DealMatchCandidate) => c.score >= CANDIDATE_MATCH)
+    .sort((a: DealMatchCandidate, b: DealMatchCandidate) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+};
+
+const bestMatchId = (candidates: DealMatchCandidate[]) =>
+  candidates.length > 0 && candidates[0].score >= DUPLICATE_MATCH ? candidates[0].deal_id : null;
+
+/* ===============================
+   DRAFTING
+================================ */
+
+// The LINKED entity for the first name the model gave in a bucket, else the first LINKED one
+const draftParty = async (
+  db: any,
+  orgId: string,
+  links: any[],
+  entityType: LinkableEntityType,
+  names: string[]
+): Promise<DraftParty> => {
+  const ofType = links.filter((l) => l.entity_type === entityType);
+  const link = ofType.find((l) => sameName(l.mention, names[0] ?? null)) ?? ofType[0];
+  if (!link) return { id: null, name: names[0] ?? null };
+
+  const name = await getEntityName(db, orgId, entityType, String(link.entity_id));
+  return { id: String(link.entity_id), name: name ?? link.mention ?? names[0] ?? null };
+};
+
+/**
+ * Drafts (or refreshes the pending draft of) the deal an article's AI output
+ * describes. Run after entity linking so the GP, fund and portfolio company
+ * are DataNest ids where the linker was confident. A pending draft left by an
+ * earlier output is updated in place, and dropped when the new output no
+ * longer detects a deal; reviewed drafts are kept as they are.
+ */
+export const draftDeal = async (
+  db: any,
+  { orgId, newsId, aiOutputId, output }: { orgId: string; newsId: string; aiOutputId: string; output: NewsAIOutput }
+): Promise<DealDraft | null> => {
+  if (!output.deal_detected || !output.deal_type) {
+    await db.query(
+      `
+      delete from deal_drafts
+      where org_id = $1
+        and news_id = $2
+        and status = 'pending'
+      `,
+      [orgId, newsId]
+    );
+    return null;
+  }
+
+  const reviewed = await db.query(
+    `
+    select *
+    from deal_drafts
+    where org_id = $1
+      and ai_output_id = $2
+      and status <> 'pending'
+    limit 1
+    `,
+    [orgId, aiOutputId]
+  );
+  if (reviewed.rows[0]) return toDealDraft(reviewed.rows[0]);
+
+  const newsResult = await db.query(
+    `
+    select headline, url
+    from news
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [newsId, orgId]
+  );
+  const news = newsResult.rows[0];
+  if (!news) {
+    throw new Error("news_not_found");
+  }
+
+  const linksResult = await db.query(
+    `
+    select entity_type, entity_id, mention
+    from entity_links
+    where org_id::text = $1
+      and source_type = 'news'
+      and source_id::text = $2
+      and status = 'LINKED'
+      and entity_type in ('gp', 'fund', 'portfolio_company')
+    order by created_at asc
+    `,
+    [orgId, newsId]
+  );
+  const links = linksResult.rows;
+
+  const gp = await draftParty(db, orgId, links, "gp", output.entities.general_partners);
+  const fund = await draftParty(db, orgId, links, "fund", output.entities.funds);
+  const portfolioCompany = await draftParty(db, orgId, links, "portfolio_company", output.entities.portfolio_companies);
+
+  const fields: DraftFields = {
+    dealName:
+      [gp.name ?? fund.name, portfolioCompany.name].filter(Boolean).join(" / ") ||
+      news.headline ||
+      `${output.deal_type} deal`,
+    dealType: output.deal_type,
+    gp,
+    fund,
+    portfolioCompany,
+    dealSize: output.amounts.value,
+    dealCurrency: output.amounts.currency,
+    dealCountry: output.geography.country,
+    announcementDate: output.dates.announcement_date,
+  };
+
+  const candidates = await findDealMatches(db, orgId, fields);
+  const values = [
+    orgId,
+    newsId,
+    aiOutputId,
+    fields.dealName,
+    fields.dealType,
+    gp.id,
+    gp.name,
+    fund.id,
+    fund.name,
+    portfolioCompany.id,
+    portfolioCompany.name,
+    fields.dealSize,
+    fields.dealCurrency,
+    fields.dealCountry,
+    fields.announcementDate,
+    news.url ?? null,
+    Math.round(output.confidence_score),
+    JSON.stringify(candidates),
+    bestMatchId(candidates),
+  ];
+
+  const updated = await db.query(
+    `
+    update deal_drafts
+    set ai_output_id = $3,
+        deal_name = $4,
+        deal_type = $5,
+        gp_id = $6,
+        gp_name = $7,
+        fund_id = $8,
+        fund_name = $9,
+        portfolio_company_id = $10,
+        portfolio_company_name = $11,
+        deal_size = $12,
+        deal_currency = $13,
+        deal_country = $14,
+        announcement_date = $15,
+        source_url = $16,
+        confidence_score = $17,
+        match_candidates = $18,
+        matched_deal_id = $19,
+        updated_at = now()
+    where org_id = $1
+      and news_id = $2
+      and status = 'pending'
+    returning *
+    `,
+    values
+  );
+  if (updated.rows[0]) return toDealDraft(updated.rows[0]);
+
+  const inserted = await db.query(
+    `
+    insert into deal_drafts (
+      org_id,
+      news_id,
+      ai_output_id,
+      deal_name,
+      deal_type,
+      gp_id,
+      gp_name,
+      fund_id,
+      fund_name,
+      portfolio_company_id,
+      portfolio_company_name,
+      deal_size,
+      deal_currency,
+      deal_country,
+      announcement_date,
+      source_url,
+      confidence_score,
+      match_candidates,
+      matched_deal_id
+    )
+    values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+    returning *
+    `,
+    values
+  );
+  return toDealDraft(inserted.rows[0]);
+};
+
+// Pipeline entry point: drafts from a linked ai_outputs row
+export const draftDealFromAiOutput = async ({ db, aiOutputId }: { db: any; aiOutputId: string }) => {
+  const result = await db.query(
+    `
+    select org_id, source_type, source_id, output_json
+    from ai_outputs
+    where id = $1
+    limit 1
+    `,
+    [aiOutputId]
+  );
+  const aiOutput = result.rows[0];
+  if (!aiOutput) {
+    throw new Error("ai_output_not_found");
+  }
+  if (aiOutput.source_type !== "news") return null;
+
+  return draftDeal(db, {
+    orgId: aiOutput.org_id,
+    newsId: aiOutput.source_id,
+    aiOutputId,
+    output: aiOutput.output_json,
+  });
+};
+
+/* ===============================
+   QUEUE
+================================ */
+
+export interface DealDraftListItem extends DealDraft {
+  headline: string | null;
+  url: string | null;
+  publishDate: string | null;
+}
+
+export const listDealDrafts = async (
+  db: any,
+  { orgId, status, limit, offset }: { orgId: string; status?: string; limit: number; offset: number }
+): Promise<{ items: DealDraftListItem[]; total: number }> => {
+  const result = await db.query(
+    `
+    select
+      d.*,
+      n.headline,
+      n.url,
+      n.publish_date,
+      count(*) over () as total
+    from deal_drafts d
+    left join news n on n.id = d.news_id
+    where d.org_id = $1
+      and ($2::text is null or d.status = $2)
+    order by d.created_at asc
+    limit $3 offset $4
+    `,
+    [orgId, status ?? null, limit, offset]
+  );
+
+  return {
+    items: result.rows.map((row: any) => ({
+      ...toDealDraft(row),
+      headline: row.headline ?? null,
+      url: row.url ?? null,
+      publishDate: row.publish_date ?? null,
+    })),
+    total: result.rows.length > 0 ? Number(result.rows[0].total) : 0,
+  };
+};
+
+export const getDealDraft = async (db: any, orgId: string, id: string): Promise<DealDraft | null> => {
+  const result = await db.query(
+    `
+    select *
+    from deal_drafts
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [id, orgId]
+  );
+  return result.rows[0] ? toDealDraft(result.rows[0]) : null;
+};
+
+// Locks the draft until the transaction ends, so concurrent reviews of it run one at a time
+const lockPendingDraft = async (db: any, orgId: string, id: string) => {
+  const result = await db.query(
+    `
+    select *
+    from deal_drafts
+    where id = $1
+      and org_id = $2
+    for update
+    `,
+    [id, orgId]
+  );
+  const draft: DealDraft | null = result.rows[0] ? toDealDraft(result.rows[0]) : null;
+  if (!draft) {
+    throw new Error("deal_draft_not_found");
+  }
+  if (draft.status !== "pending") {
+    throw new Error("deal_draft_already_reviewed");
+  }
+  return draft;
+};
+
+// Edited party ids must exist in DataNest; their names become the snapshots
+const editedParty = async (
+  db: any,
+  orgId: string,
+  entityType: LinkableEntityType,
+  current: DraftParty,
+  id: string | null | undefined
+): Promise<DraftParty> => {
+  if (id === undefined || id === current.id) return current;
+  if (id === null) return { id: null, name: null };
+
+  const name = await getEntityName(db, orgId, entityType, id);
+  if (name === null) {
+    throw new Error("entity_not_found");
+  }
+  return { id, name };
+};
+
+// Appends the article to a comma-separated source_urls value
+const withSourceUrl = (sourceUrls: string | null, url: string | null) => {
+  if (!url) return sourceUrls;
+  const urls = (sourceUrls ?? "").split(",").map((u) => u.trim()).filter(Boolean);
+  return urls.includes(url) ? urls.join(",") : [...urls, url].join(",");
+};
+
+const createDeal = async (db: any, orgId: string, fields: DraftFields, draft: DealDraft): Promise<string> => {
+  const inserted = await db.query(
+    `
+    insert into entities_deal (
+      org_id,
+      deal_name,
+      deal_type,
+      announcement_date,
+      deal_size,
+      deal_currency,
+      deal_country,
+      gp_id,
+      gp_name_snapshot,
+      fund_id,
+      fund_name_snapshot,
+      portfolio_company_id,
+      portfolio_company_name_snapshot,
+      data_confidence_score,
+      source_urls,
+      verification_method
+    )
+    values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, 'ai_draft')
+    returning id
+    `,
+    [
+      orgId,
+      fields.dealName,
+      fields.dealType,
+      fields.announcementDate,
+      fields.dealSize,
+      fields.dealCurrency,
+      fields.dealCountry,
+      fields.gp.id,
+      fields.gp.name,
+      fields.fund.id,
+      fields.fund.name,
+      fields.portfolioCompany.id,
+      fields.portfolioCompany.name,
+      draft.confidenceScore,
+      draft.sourceUrl,
+    ]
+  );
+  return String(inserted.rows[0].id);
+};
+
+// Fills the existing deal's empty fields from the draft and adds the article as a source
+const mergeIntoDeal = async (db: any, orgId: string, dealId: string, fields: DraftFields, draft: DealDraft) => {
+  const existing = await db.query(
+    `
+    select id, source_urls
+    from entities_deal
+    where id::text = $1
+      and org_id::text = $2
+    limit 1
+    `,
+    [dealId, orgId]
+  );
+  if (!existing.rows[0]) {
+    throw new Error("deal_not_found");
+  }
+
+  await db.query(
+    `
+    update entities_deal
+    set deal_type = coalesce(deal_type, $3),
+        announcement_date = coalesce(announcement_date, $4),
+        deal_size = coalesce(deal_size, $5),
+        deal_currency = coalesce(deal_currency, $6),
+        deal_country = coalesce(deal_country, $7),
+        gp_id = coalesce(gp_id, $8),
+        gp_name_snapshot = coalesce(gp_name_snapshot, $9),
+        fund_id = coalesce(fund_id, $10),
+        fund_name_snapshot = coalesce(fund_name_snapshot, $11),
+        portfolio_company_id = coalesce(portfolio_company_id, $12),
+        portfolio_company_name_snapshot = coalesce(portfolio_company_name_snapshot, $13),
+        source_urls = $14,
+        updated_at = now()
+    where id::text = $1
+      and org_id::text = $2
+    `,
+    [
+      dealId,
+      orgId,
+      fields.dealType,
+      fields.announcementDate,
+      fields.dealSize,
+      fields.dealCurrency,
+      fields.dealCountry,
+      fields.gp.id,
+      fields.gp.name,
+      fields.fund.id,
+      fields.fund.name,
+      fields.portfolioCompany.id,
+      fields.portfolioCompany.name,
+      withSourceUrl(existing.rows[0].source_urls, draft.sourceUrl),
+    ]
+  );
+  return dealId;
+};
+
+// Other pending drafts may describe the deal that just went live
+const rematchPendingDrafts = async (db: any, orgId: string, exceptDraftId: string) => {
+  const pending = await db.query(
+    `
+    select *
+    from deal_drafts
+    where org_id = $1
+      and status = 'pending'
+      and id <> $2
+    `,
+    [orgId, exceptDraftId]
+  );
+
+  for (const row of pending.rows) {
+    const candidates = await findDealMatches(db, orgId, draftFieldsOf(toDealDraft(row)));
+    await db.query(
+      `
+      update deal_drafts
+      set match_candidates = $2,
+          matched_deal_id = $3,
+          updated_at = now()
+      where id = $1
+      `,
+      [row.id, JSON.stringify(candidates), bestMatchId(candidates)]
+    );
+  }
+};
+
+/**
+ * Publishes a pending draft to entities_deal. With merge_into_deal_id the
+ * existing deal keeps its values and only gains what it was missing plus the
+ * article as a source; otherwise a new deal is created. The values that went
+ * live are kept on the draft. The draft stays locked until the review
+ * commits, so a concurrent review fails with deal_draft_already_reviewed.
+ */
+export const approveDealDraft = async (
+  db: any,
+  { orgId, id, input, userId }: { orgId: string; id: string; input: DealDraftApprovalInput; userId?: string | null }
+): Promise<DealDraft> => {
+  return runInTransaction(db, async (tx) => {
+    const draft = await lockPendingDraft(tx, orgId, id);
+    const drafted = draftFieldsOf(draft);
+    const edits = input.fields;
+
+    const fields: DraftFields = {
+      dealName: edits.deal_name ?? drafted.dealName,
+      dealType: edits.deal_type !== undefined ? edits.deal_type : drafted.dealType,
+      gp: await editedParty(tx, orgId, "gp", drafted.gp, edits.gp_id),
+      fund: await editedParty(tx, orgId, "fund", drafted.fund, edits.fund_id),
+      portfolioCompany: await editedParty(tx, orgId, "portfolio_company", drafted.portfolioCompany, edits.portfolio_company_id),
+      dealSize: edits.deal_size !== undefined ? edits.deal_size : drafted.dealSize,
+      dealCurrency: edits.deal_currency !== undefined ? edits.deal_currency : drafted.dealCurrency,
+      dealCountry: edits.deal_country !== undefined ? edits.deal_country : drafted.dealCountry,
+      announcementDate: edits.announcement_date !== undefined ? edits.announcement_date : drafted.announcementDate,
+    };
+
+    const merged = !!input.merge_into_deal_id;
+    const dealId = merged
+      ? await mergeIntoDeal(tx, orgId, input.merge_into_deal_id!, fields, draft)
+      : await createDeal(tx, orgId, fields, draft);
+
+    const result = await tx.query(
+      `
+      update deal_drafts
+      set status = $3,
+          deal_id = $4,
+          deal_name = $5,
+          deal_type = $6,
+          gp_id = $7,
+          gp_name = $8,
+          fund_id = $9,
+          fund_name = $10,
+          portfolio_company_id = $11,
+          portfolio_company_name = $12,
+          deal_size = $13,
+          deal_currency = $14,
+          deal_country = $15,
+          announcement_date = $16,
+          review_notes = $17,
+          reviewed_by = $18,
+          reviewed_at = now(),
+          updated_at = now()
+      where id = $1
+        and org_id = $2
+      returning *
+      `,
+      [
+        id,
+        orgId,
+        merged ? "merged" : "approved",
+        dealId,
+        fields.dealName,
+        fields.dealType,
+        fields.gp.id,
+        fields.gp.name,
+        fields.fund.id,
+        fields.fund.name,
+        fields.portfolioCompany.id,
+        fields.portfolioCompany.name,
+        fields.dealSize,
+        fields.dealCurrency,
+        fields.dealCountry,
+        fields.announcementDate,
+        input.notes ?? null,
+        userId ?? null,
+      ]
+    );
+
+    if (draft.aiOutputId) {
+      await tx.query(
+        `
+        update ai_outputs
+        set deal_id = $2
+        where id = $1
+        `,
+        [draft.aiOutputId, dealId]
+      );
+    }
+
+    if (!merged) {
+      await rematchPendingDrafts(tx, orgId, id);
+    }
+
+    return toDealDraft(result.rows[0]);
+  });
+};
+
+export const rejectDealDraft = async (
+  db: any,
+  { orgId, id, notes, userId }: { orgId: string; id: string; notes?: string | null; userId?: string | null }
+): Promise<DealDraft> => {
+  return runInTransaction(db, async (tx) => {
+    await lockPendingDraft(tx, orgId, id);
+
+    const result = await tx.query(
+      `
+      update deal_drafts
+      set status = 'rejected',
+          review_notes = $3,
+          reviewed_by = $4,
+          reviewed_at = now(),
+          updated_at = now()
+      where id = $1
+        and org_id = $2
+      returning *
+      `,
+      [id, orgId, notes ?? null, userId ?? null]
+    );
+    return toDealDraft(result.rows[0]);
+  });
+};
@@ -0,0 +1,252 @@
+import type { EntityCandidate, EntityLink, LinkableEntityType } from "@shared/schema";
+import { getEntityName, setEntityLinkStatus, upsertEntityLink } from "./entityLinks";
+import { addEntityAlias } from "./entityResolution";
+
+/**
+ * Review queue for entity_links in REVIEW.
+ *
+ * Reviewers confirm the suggested entity, reassign the link to another entity
+ * or reject it (optionally raising a shell profile for an entity DataNest does
+ * not have yet). Confirm and reassign record the mention as a "review" alias
+ * of the chosen entity, so the resolver links the same mention next time.
+ */
+
+export interface MentionSnippet {
+  before: string;
+  mention: string;
+  after: string;
+  found: boolean;
+}
+
+export interface ReviewQueueItem {
+  id: string;
+  sourceType: string;
+  sourceId: string;
+  entityType: LinkableEntityType;
+  entityId: string;
+  entityName: string | null;
+  mention: string | null;
+  confidenceScore: number | null;
+  candidates: EntityCandidate[];
+  aiOutputId: string | null;
+  createdAt: string;
+  headline: string | null;
+  url: string | null;
+  publishDate: string | null;
+  snippet: MentionSnippet | null;
+}
+
+const SNIPPET_RADIUS = 160;
+
+// Text around the first occurrence of the mention, cut at word boundaries
+export const buildMentionSnippet = (text: string | null, mention: string | null): MentionSnippet | null => {
+  if (!text) return null;
+  const index = mention ? text.toLowerCase().indexOf(mention.toLowerCase()) : -1;
+
+  if (index === -1) {
+    const head = text.slice(0, SNIPPET_RADIUS * 2);
+    return { before: head, mention: "", after: head.length < text.length ? "…" : "", found: false };
+  }
+
+  const end = index + mention!.length;
+  let start = Math.max(0, index - SNIPPET_RADIUS);
+  let stop = Math.min(text.length, end + SNIPPET_RADIUS);
+  const wordStart = text.indexOf(" ", start);
+  if (start > 0 && wordStart !== -1 && wordStart < index) start = wordStart + 1;
+  const wordStop = text.lastIndexOf(" ", stop);
+  if (stop < text.length && wordStop > end) stop = wordStop;
+
+  return {
+    before: (start > 0 ? "…" : "") + text.slice(start, index),
+    mention: text.slice(index, end),
+    after: text.slice(end, stop) + (stop < text.length ? "…" : ""),
+    found: true,
+  };
+};
+
+export const listReviewQueue = async (
+  db: any,
+  { orgId, entityType, limit, offset }: { orgId: string; entityType?: string; limit: number; offset: number }
+): Promise<{ items: ReviewQueueItem[]; total: number }> => {
+  const result = await db.query(
+    `
+    select
+      l.*,
+      n.headline,
+      n.url,
+      n.publish_date,
+      coalesce(n.cleaned_text, n.raw_text) as article_text,
+      count(*) over () as total
+    from entity_links l
+    left join news n
+      on l.source_type = 'news'
+     and n.id::text = l.source_id::text
+    where l.org_id::text = $1
+      and l.status = 'REVIEW'
+      and ($2::text is null or l.entity_type = $2)
+    order by l.created_at asc
+    limit $3 offset $4
+    `,
+    [orgId, entityType ?? null, limit, offset]
+  );
+
+  const items = await Promise.all(
+    result.rows.map(async (row: any): Promise<ReviewQueueItem> => {
+      const candidates: EntityCandidate[] = row.candidates ?? [];
+      // Links from before the resolver stored candidates only know their entity id
+      const entityName =
+        candidates.find((c) => c.entity_id === String(row.entity_id))?.name ??
+        (await getEntityName(db, orgId, row.entity_type, row.entity_id));
+
+      return {
+        id: row.id,
+        sourceType: row.source_type,
+        sourceId: row.source_id,
+        entityType: row.entity_type,
+        entityId: row.entity_id,
+        entityName,
+        mention: row.mention,
+        confidenceScore: row.confidence_score,
+        candidates,
+        aiOutputId: row.ai_output_id,
+        createdAt: row.created_at,
+        headline: row.headline ?? null,
+        url: row.url ?? null,
+        publishDate: row.publish_date ?? null,
+        snippet: buildMentionSnippet(row.article_text ?? null, row.mention),
+      };
+    })
+  );
+
+  return { items, total: result.rows.length > 0 ? Number(result.rows[0].total) : 0 };
+};
+
+const getEntityLink = async (db: any, orgId: string, id: string) => {
+  const result = await db.query(
+    `
+    select *
+    from entity_links
+    where id = $1
+      and org_id::text = $2
+    limit 1
+    `,
+    [id, orgId]
+  );
+  return result.rows[0] ?? null;
+};
+
+const rememberMention = async (
+  db: any,
+  { orgId, entityType, entityId, mention, userId }: {
+    orgId: string;
+    entityType: LinkableEntityType;
+    entityId: string;
+    mention: string | null;
+    userId?: string | null;
+  }
+) => {
+  if (!mention) return;
+  await addEntityAlias(db, { orgId, entityType, entityId, alias: mention, source: "review", userId });
+};
+
+export const confirmEntityLink = async (
+  db: any,
+  { orgId, id, userId }: { orgId: string; id: string; userId?: string | null }
+): Promise<EntityLink | null> => {
+  const link = await setEntityLinkStatus(db, { orgId, id, status: "LINKED", userId });
+  if (!link) return null;
+
+  await rememberMention(db, {
+    orgId,
+    entityType: link.entityType,
+    entityId: link.entityId,
+    mention: link.mention,
+    userId,
+  });
+  return link;
+};
+
+// Moves the mention to another entity; the new link is a confirmed manual link
+export const reassignEntityLink = async (
+  db: any,
+  { orgId, id, entityId, userId }: { orgId: string; id: string; entityId: string; userId?: string | null }
+): Promise<EntityLink | null> => {
+  const current = await getEntityLink(db, orgId, id);
+  if (!current) return null;
+
+  if (String(current.entity_id) === entityId) {
+    return confirmEntityLink(db, { orgId, id, userId });
+  }
+
+  const entityName = await getEntityName(db, orgId, current.entity_type, entityId);
+  if (entityName === null) {
+    throw new Error("entity_not_found");
+  }
+
+  const link = await upsertEntityLink(db, {
+    orgId,
+    sourceType: current.source_type,
+    sourceId: current.source_id,
+    entityType: current.entity_type,
+    entityId,
+    linkSource: "manual",
+    matchType: "manual",
+    confidence: 100,
+    status: "LINKED",
+    mention: current.mention,
+    aiOutputId: current.ai_output_id,
+    userId,
+  });
+  const reviewed = await setEntityLinkStatus(db, { orgId, id: link.id, status: "LINKED", userId });
+
+  // The suggestion was wrong; keep it as REJECTED so the AI linker does not re-suggest it
+  await setEntityLinkStatus(db, { orgId, id, status: "REJECTED", userId });
+
+  await rememberMention(db, {
+    orgId,
+    entityType: current.entity_type,
+    entityId,
+    mention: current.mention,
+    userId,
+  });
+  return reviewed ?? link;
+};
+
+// Rejects the link and queues a shell profile for the entity DataNest is missing
+export const rejectLinkAsShellProfile = async (
+  db: any,
+  { orgId, id, entityName, textSpan, userId }: {
+    orgId: string;
+    id: string;
+    entityName?: string;
+    textSpan?: string;
+    userId?: string | null;
+  }
+) => {
+  const current = await getEntityLink(db, orgId, id);
+  if (!current) return null;
+
+  const name = (entityName || current.mention || "").trim();
+  if (!name) {
+    throw new Error("entity_name_required");
+  }
+
+  const result = await db.query(
+    `
+    insert into shell_profiles (org_id, entity_type, entity_name, source_news_id, text_span, created_by)
+    values ($1, $2, $3, $4, $5, $6)
+    returning *
+    `,
+    [
+      orgId,
+      current.entity_type,
+      name,
+      current.source_type === "news" ? current.source_id : null,
+      textSpan || current.mention || null,
+      userId ?? null,
+    ]
+  );
+
+  const link = await setEntityLinkStatus(db, { orgId, id, status: "REJECTED", userId });
+  return { link, shellProfile: result.rows[0] };
+};
@@ -0,0 +1,315 @@
+import type {
+  EntityCandidate,
+  EntityLink,
+  EntityLinkMatchType,
+  EntityLinkSource,
+  EntityLinkStatus,
+  LinkableEntityType,
+  NewsAIOutput,
+} from "@shared/schema";
+import {
+  ENTITY_TABLES,
+  decideEntityLink,
+  resolveEntityCandidates,
+  type EntityLinkDecision,
+  type ResolutionContext,
+} from "./entityResolution";
+
+/**
+ * The one linking model: entity_links rows tie a source record (source_type,
+ * source_id) to a DataNest entity (entity_type, entity_id). The AI linker,
+ * manual tagging and rules all go through upsertEntityLink, so a link carries
+ * where it came from, how it matched and whether it still needs review.
+ */
+
+export interface UpsertEntityLinkInput {
+  orgId: string;
+  sourceType: string;
+  sourceId: string;
+  entityType: LinkableEntityType;
+  entityId: string;
+  linkSource: EntityLinkSource;
+  matchType: EntityLinkMatchType;
+  confidence: number | null;
+  status: EntityLinkStatus;
+  mention?: string | null;
+  aiOutputId?: string | null;
+  candidates?: EntityCandidate[] | null;
+  userId?: string | null;
+}
+
+// NewsAIOutput entity buckets and the entity type each one resolves to
+export const AI_BUCKET_ENTITY_TYPES: Record<keyof NewsAIOutput["entities"], LinkableEntityType> = {
+  general_partners: "gp",
+  funds: "fund",
+  portfolio_companies: "portfolio_company",
+  limited_partners: "lp",
+  service_providers: "service_provider",
+};
+
+const toEntityLink = (row: any): EntityLink => ({
+  id: row.id,
+  orgId: row.org_id,
+  sourceType: row.source_type,
+  sourceId: row.source_id,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  linkSource: row.link_source,
+  confidenceScore: row.confidence_score,
+  matchType: row.match_type,
+  status: row.status,
+  mention: row.mention,
+  aiOutputId: row.ai_output_id,
+  candidates: row.candidates,
+  createdBy: row.created_by,
+  reviewedBy: row.reviewed_by,
+  reviewedAt: row.reviewed_at,
+  createdAt: row.created_at,
+});
+
+/* --------------------------------
+   Entity lookups
+--------------------------------- */
+export const getEntityName = async (
+  db: any,
+  orgId: string,
+  entityType: LinkableEntityType,
+  entityId: string
+): Promise<string | null> => {
+  const config = ENTITY_TABLES[entityType];
+  const result = await db.query(
+    `
+    select ${config.name} as name
+    from ${config.table}
+    where id::text = $1
+      and org_id::text = $2
+    limit 1
+    `,
+    [entityId, orgId]
+  );
+  return result.rows[0]?.name ?? null;
+};
+
+/* --------------------------------
+   Links
+--------------------------------- */
+// A manual link always wins; AI and rule links never revive a rejected link or demote a linked one
+export const upsertEntityLink = async (db: any, input: UpsertEntityLinkInput): Promise<EntityLink> => {
+  const result = await db.query(
+    `
+    insert into entity_links (
+      org_id,
+      source_type,
+      source_id,
+      entity_type,
+      entity_id,
+      link_source,
+      match_type,
+      confidence_score,
+      status,
+      mention,
+      ai_output_id,
+      candidates,
+      created_by
+    )
+    values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    on conflict (org_id, source_type, source_id, entity_type, entity_id) do update
+    set link_source = case
+          when entity_links.link_source = 'manual' then entity_links.link_source
+          else excluded.link_source
+        end,
+        match_type = case
+          when entity_links.link_source = 'manual' then entity_links.match_type
+          else excluded.match_type
+        end,
+        confidence_score = greatest(entity_links.confidence_score, excluded.confidence_score),
+        status = case
+          when excluded.link_source = 'manual' then 'LINKED'
+          when entity_links.status in ('LINKED', 'REJECTED') then entity_links.status
+          else excluded.status
+        end,
+        mention = coalesce(entity_links.mention, excluded.mention),
+        ai_output_id = coalesce(excluded.ai_output_id, entity_links.ai_output_id),
+        candidates = coalesce(excluded.candidates, entity_links.candidates)
+    returning *
+    `,
+    [
+      input.orgId,
+      input.sourceType,
+      input.sourceId,
+      input.entityType,
+      input.entityId,
+      input.linkSource,
+      input.matchType,
+      input.confidence,
+      input.status,
+      input.mention ?? null,
+      input.aiOutputId ?? null,
+      input.candidates ? JSON.stringify(input.candidates) : null,
+      input.userId ?? null,
+    ]
+  );
+  return toEntityLink(result.rows[0]);
+};
+
+export const listEntityLinks = async (
+  db: any,
+  { orgId, sourceType, sourceId, status }: { orgId: string; sourceType?: string; sourceId?: string; status?: string }
+): Promise<EntityLink[]> => {
+  const result = await db.query(
+    `
+    select *
+    from entity_links
+    where org_id::text = $1
+      and ($2::text is null or source_type = $2)
+      and ($3::text is null or source_id::text = $3)
+      and (case when $4::text is null then status <> 'REJECTED' else status = $4 end)
+    order by created_at asc
+    `,
+    [orgId, sourceType ?? null, sourceId ?? null, status ?? null]
+  );
+  return result.rows.map(toEntityLink);
+};
+
+export const setEntityLinkStatus = async (
+  db: any,
+  { orgId, id, status, userId }: { orgId: string; id: string; status: EntityLinkStatus; userId?: string | null }
+): Promise<EntityLink | null> => {
+  const result = await db.query(
+    `
+    update entity_links
+    set status = $3,
+        reviewed_by = $4,
+        reviewed_at = now()
+    where id = $1
+      and org_id::text = $2
+    returning *
+    `,
+    [id, orgId, status, userId ?? null]
+  );
+  return result.rows[0] ? toEntityLink(result.rows[0]) : null;
+};
+
+export const deleteEntityLink = async (db: any, orgId: string, id: string): Promise<boolean> => {
+  const result = await db.query(
+    `
+    delete from entity_links
+    where id = $1
+      and org_id::text = $2
+    returning id
+    `,
+    [id, orgId]
+  );
+  return result.rows.length > 0;
+};
+
+/* --------------------------------
+   AI linker
+--------------------------------- */
+// Country from the output; asset classes from the article's annotation tasks
+const loadResolutionContext = async (
+  db: any,
+  { orgId, sourceType, sourceId, output }: { orgId: string; sourceType: string; sourceId: string; output: any }
+): Promise<ResolutionContext> => {
+  const context: ResolutionContext = { country: output?.geography?.country ?? null };
+  if (sourceType !== "news") return context;
+
+  const result = await db.query(
+    `
+    select distinct jsonb_array_elements_text(t.metadata->'asset_class') as asset_class
+    from annotation_tasks t
+    join label_projects p on p.id = t.project_id
+    where p.org_id::text = $1
+      and t.metadata->>'news_id' = $2
+      and jsonb_typeof(t.metadata->'asset_class') = 'array'
+    `,
+    [orgId, sourceId]
+  );
+  context.assetClasses = result.rows.map((r: any) => r.asset_class);
+  return context;
+};
+
+export interface EntityLinkProposal {
+  entityType: LinkableEntityType;
+  mention: string;
+  decision: EntityLinkDecision | null;
+}
+
+// Resolves every entity name in an AI output without writing anything
+export const proposeEntityLinks = async (
+  db: any,
+  { orgId, sourceType, sourceId, output }: { orgId: string; sourceType: string; sourceId: string; output: any }
+): Promise<EntityLinkProposal[]> => {
+  const context = await loadResolutionContext(db, { orgId, sourceType, sourceId, output });
+  const proposals: EntityLinkProposal[] = [];
+
+  for (const [bucket, entityType] of Object.entries(AI_BUCKET_ENTITY_TYPES)) {
+    const names: string[] = output?.entities?.[bucket] || [];
+
+    for (const rawName of names) {
+      const name = String(rawName || "").trim();
+      if (!name) continue;
+
+      const candidates = await resolveEntityCandidates(db, { orgId, entityType, mention: name, context });
+      proposals.push({ entityType, mention: name, decision: decideEntityLink(candidates) });
+    }
+  }
+
+  return proposals;
+};
+
+// Links the entity names in an AI_DONE output to existing DataNest entities.
+// Clear matches are LINKED; ambiguous ones go to REVIEW with the ranked candidates.
+export const linkEntitiesFromAiOutput = async ({ db, aiOutputId }: { db: any; aiOutputId: string }) => {
+  const aiResult = await db.query(
+    `
+    select id, org_id, source_type, source_id, output_json
+    from ai_outputs
+    where id = $1
+      and status = 'AI_DONE'
+    limit 1
+    `,
+    [aiOutputId]
+  );
+
+  if (aiResult.rows.length === 0) {
+    throw new Error("ai_output_not_found");
+  }
+
+  const { org_id: orgId, source_type: sourceType, source_id: sourceId, output_json: output } = aiResult.rows[0];
+  const counts = { linked: 0, review: 0, unmatched: 0 };
+
+  for (const { entityType, mention, decision } of await proposeEntityLinks(db, { orgId, sourceType, sourceId, output })) {
+    if (!decision) {
+      counts.unmatched++;
+      continue;
+    }
+
+    await upsertEntityLink(db, {
+      orgId,
+      sourceType,
+      sourceId,
+      entityType,
+      entityId: decision.candidate.entity_id,
+      linkSource: "ai",
+      matchType: decision.matchType,
+      confidence: Math.round(decision.candidate.score * 100),
+      status: decision.status,
+      mention,
+      aiOutputId,
+      candidates: decision.status === "REVIEW" ? decision.candidates : null,
+    });
+    counts[decision.status === "LINKED" ? "linked" : "review"]++;
+  }
+
+  await db.query(
+    `
+    update ai_outputs
+    set status = 'LINKED'
+    where id = $1
+    `,
+    [aiOutputId]
+  );
+
+  return counts;
+};
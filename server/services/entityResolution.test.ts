@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  decideEntityLink,
+  normalizeEntityName,
+  resolveEntityCandidates,
+  scoreNameMatch,
+} from "./entityResolution";
+
+const gpRow = (id: string, name: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  name,
+  aliases: [null, null],
+  alias_lists: [],
+  extra_aliases: [],
+  confirmed_aliases: [],
+  country: null,
+  asset_class: null,
+  ...extra,
+});
+
+// Stands in for the prefilter query: every row is a candidate, scoring happens in the service
+const fakeDb = (rows: ReturnType<typeof gpRow>[]) => ({ query: async () => ({ rows }) });
+
+const resolve = (rows: ReturnType<typeof gpRow>[], mention: string, context = {}) =>
+  resolveEntityCandidates(fakeDb(rows), { orgId: "org-a", entityType: "gp", mention, context });
+
+describe("normalizeEntityName", () => {
+  it("drops case, punctuation, accents and legal suffixes", () => {
+    expect(normalizeEntityName("The Blackstone Group L.P.")).toBe("blackstone group");
+    expect(normalizeEntityName("KKR & Co. Inc.")).toBe("kkr");
+    expect(normalizeEntityName("Acme Pvt Ltd")).toBe("acme");
+    expect(normalizeEntityName("Société Générale")).toBe("societe generale");
+  });
+});
+
+describe("scoreNameMatch", () => {
+  it("scores names that normalise the same as exact", () => {
+    expect(scoreNameMatch("Blackstone Group", "The Blackstone Group L.P.")).toBe(1);
+    expect(scoreNameMatch("ChrysCapital", "Chrys Capital")).toBe(0.98);
+  });
+
+  it("scores spelling variants and generic words as fuzzy matches below 1", () => {
+    const typo = scoreNameMatch("Blackstome Group", "Blackstone Group");
+    expect(typo).toBeGreaterThanOrEqual(0.9);
+    expect(typo).toBeLessThan(1);
+    expect(scoreNameMatch("Blackstone", "Blackstone Group")).toBeGreaterThan(0.8);
+  });
+
+  it("keeps a firm apart from its funds and from unrelated names", () => {
+    expect(scoreNameMatch("Blackstone", "Blackstone Credit Fund IV")).toBeLessThan(0.8);
+    expect(scoreNameMatch("Blackstone", "Warburg Pincus")).toBeLessThan(0.6);
+  });
+
+  it("scores names that normalise to nothing as 0", () => {
+    expect(scoreNameMatch("...", "Blackstone")).toBe(0);
+  });
+});
+
+describe("resolveEntityCandidates", () => {
+  it("ranks an exact name first and links it", async () => {
+    const candidates = await resolve(
+      [gpRow("gp-2", "Blackstone Credit Fund IV"), gpRow("gp-1", "The Blackstone Group L.P.")],
+      "Blackstone Group"
+    );
+    expect(candidates[0]).toMatchObject({ entity_id: "gp-1", score: 1, signals: ["exact"] });
+    expect(decideEntityLink(candidates)).toMatchObject({ status: "LINKED", matchType: "exact" });
+  });
+
+  it("matches on an alias when it scores better than the name", async () => {
+    const [candidate] = await resolve(
+      [gpRow("gp-1", "Kohlberg Kravis Roberts & Co. L.P.", { extra_aliases: ["KKR"] })],
+      "KKR"
+    );
+    expect(candidate).toMatchObject({ entity_id: "gp-1", score: 1, matched_on: "KKR" });
+    expect(candidate.signals).toEqual(["exact", "alias"]);
+  });
+
+  it("sends a fuzzy match to review", async () => {
+    const candidates = await resolve([gpRow("gp-1", "Motilal Oswal Private Equity")], "Motilal Oswal PE");
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].score).toBeGreaterThanOrEqual(0.6);
+    expect(candidates[0].score).toBeLessThan(0.92);
+    expect(decideEntityLink(candidates)).toMatchObject({ status: "REVIEW", matchType: "fuzzy" });
+  });
+
+  it("drops candidates below the minimum score", async () => {
+    const candidates = await resolve([gpRow("gp-1", "Warburg Pincus"), gpRow("gp-2", "Bain Capital")], "Blackstone");
+    expect(candidates).toEqual([]);
+    expect(decideEntityLink(candidates)).toBeNull();
+  });
+
+  it("sends two close candidates to review", async () => {
+    const candidates = await resolve(
+      [gpRow("gp-1", "Blackstone Group"), gpRow("gp-2", "Blackstone Group Inc.")],
+      "Blackstone"
+    );
+    expect(candidates).toHaveLength(2);
+    expect(decideEntityLink(candidates)).toMatchObject({ status: "REVIEW" });
+  });
+
+  it("nudges the score by country and asset class", async () => {
+    const rows = [
+      gpRow("gp-in", "Everstone Capital", { country: "India", asset_class: "Private Equity, Real Estate" }),
+      gpRow("gp-us", "Everstone Capital Partners", { country: "USA", asset_class: "Venture" }),
+    ];
+    const candidates = await resolve(rows, "Everstone Capital", { country: "india", assetClasses: ["private_equity"] });
+    expect(candidates.map((c) => c.entity_id)).toEqual(["gp-in", "gp-us"]);
+    expect(candidates[0].signals).toEqual(["exact", "country_match", "asset_class_match"]);
+    expect(candidates[1].signals).toEqual(["country_mismatch", "asset_class_mismatch"]);
+  });
+
+  it("ranks a confirmed alias above a higher-scoring name", async () => {
+    const candidates = await resolve(
+      [
+        gpRow("gp-1", "Temasek Holdings"),
+        gpRow("gp-2", "Temasek Capital Management", { confirmed_aliases: ["temasek"] }),
+      ],
+      "Temasek"
+    );
+    expect(candidates[0].entity_id).toBe("gp-2");
+    expect(candidates[0].signals).toContain("confirmed_alias");
+    expect(decideEntityLink(candidates)).toMatchObject({ status: "LINKED", candidate: { entity_id: "gp-2" } });
+  });
+});
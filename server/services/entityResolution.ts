@@ -0,0 +1,486 @@
+import type {
+  EntityAlias,
+  EntityAliasSource,
+  EntityCandidate,
+  LinkableEntityType,
+} from "@shared/schema";
+
+/**
+ * Entity resolution for mentions found in source text.
+ *
+ * A mention is compared against every name an entity is known by: the display
+ * name, the short/legal/former name columns of its table and entity_aliases.
+ * Names are normalised first (case, punctuation, legal suffixes such as LLP,
+ * Ltd, Pvt or GmbH) and scored with Jaro-Winkler plus token overlap, so
+ * "Blackstone" scores well against "The Blackstone Group L.P." but poorly
+ * against "Blackstone Credit Fund IV". Headquarters country and asset class
+ * nudge the score when the caller knows them. Callers get ranked candidates
+ * and decideEntityLink turns them into LINKED, REVIEW or no link.
+ */
+
+export interface ResolutionContext {
+  country?: string | null;
+  // newsAssetClasses values, e.g. "private_equity"
+  assetClasses?: string[];
+}
+
+export interface EntityTableConfig {
+  table: string;
+  // SQL expression for the display name
+  name: string;
+  // Single-name alias columns
+  aliases: string[];
+  // Columns holding a JSON or delimited list of names
+  aliasLists: string[];
+  country: string | null;
+  assetClass: string | null;
+}
+
+// DataNest tables per entity type and the columns the resolver reads
+export const ENTITY_TABLES: Record<LinkableEntityType, EntityTableConfig> = {
+  gp: {
+    table: "entities_gp",
+    name: "gp_name",
+    aliases: ["gp_short_name", "gp_legal_name"],
+    aliasLists: [],
+    country: "headquarters_country",
+    assetClass: "primary_asset_classes",
+  },
+  lp: {
+    table: "entities_lp",
+    name: "lp_name",
+    aliases: ["lp_short_name", "lp_legal_name"],
+    aliasLists: [],
+    country: "headquarters_country",
+    assetClass: "asset_class_preferences",
+  },
+  fund: {
+    table: "entities_fund",
+    name: "fund_name",
+    aliases: ["fund_legal_name"],
+    aliasLists: ["former_names"],
+    country: "domicile_country",
+    assetClass: "fund_type",
+  },
+  portfolio_company: {
+    table: "entities_portfolio_company",
+    name: "company_name",
+    aliases: ["short_name", "legal_name"],
+    aliasLists: [],
+    country: "headquarters_country",
+    assetClass: null,
+  },
+  service_provider: {
+    table: "entities_service_provider",
+    name: "service_provider_name",
+    aliases: ["service_provider_short_name", "service_provider_legal_name"],
+    aliasLists: [],
+    country: "headquarters_country",
+    assetClass: "asset_class_coverage",
+  },
+  contact: {
+    table: "entities_contacts",
+    name: "coalesce(full_name, first_name || ' ' || last_name)",
+    aliases: [],
+    aliasLists: [],
+    country: null,
+    assetClass: null,
+  },
+};
+
+// Top candidate at or above this score, and clear of the runner-up, links without review
+const AUTO_LINK_SCORE = 0.92;
+const AMBIGUITY_MARGIN = 0.05;
+// Candidates below this score are not worth showing a reviewer
+const MIN_CANDIDATE_SCORE = 0.6;
+const CANDIDATE_LIMIT = 5;
+// Rows fetched per mention before scoring
+const PREFILTER_LIMIT = 200;
+
+const COUNTRY_BOOST = 0.03;
+const ASSET_CLASS_BOOST = 0.03;
+const CONTEXT_PENALTY = 0.02;
+
+/* ===============================
+   NORMALISATION
+================================ */
+
+const LEGAL_SUFFIXES = new Set([
+  "llp", "llc", "lp", "ltd", "limited", "pvt", "private", "plc", "inc", "incorporated",
+  "corp", "corporation", "co", "company", "gmbh", "ag", "kg", "kgaa", "sa", "sarl", "sas",
+  "bv", "nv", "ab", "spa", "srl", "pte", "pty", "kk", "oy", "se",
+]);
+
+// Words too common in fund and firm names to narrow the candidate search
+const GENERIC_TOKENS = new Set([
+  "and", "capital", "partners", "partner", "fund", "funds", "group", "holdings", "holding",
+  "management", "investments", "investment", "advisors", "advisers", "asset", "equity",
+  "ventures", "global", "international", "private",
+]);
+
+export const normalizeEntityName = (name: string): string => {
+  const tokens = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.'\u2019]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+
+  if (tokens.length > 1 && tokens[0] === "the") tokens.shift();
+  // "KKR & Co. Inc." -> "kkr", "Acme Pvt Ltd" -> "acme"
+  while (tokens.length > 1 && (LEGAL_SUFFIXES.has(tokens[tokens.length - 1]) || tokens[tokens.length - 1] === "and")) {
+    tokens.pop();
+  }
+  return tokens.join(" ");
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  us: "united states",
+  usa: "united states",
+  "united states of america": "united states",
+  uk: "united kingdom",
+  gb: "united kingdom",
+  "great britain": "united kingdom",
+  uae: "united arab emirates",
+};
+
+const normalizeCountry = (country: string) => {
+  const value = country.toLowerCase().replace(/[.]/g, "").trim();
+  return COUNTRY_ALIASES[value] ?? value;
+};
+
+// Words that show up in free-text asset class columns for each newsAssetClasses value
+const ASSET_CLASS_KEYWORDS: Record<string, string[]> = {
+  private_equity: ["private equity", "pe", "buyout", "growth"],
+  venture_capital: ["venture", "vc"],
+  private_debt: ["debt", "credit", "lending", "mezzanine"],
+  infrastructure: ["infrastructure", "infra"],
+  real_assets: ["real estate", "real assets", "property"],
+  hedge_funds: ["hedge"],
+  public_markets: ["public", "listed"],
+  esg: ["esg", "impact"],
+};
+
+/* ===============================
+   SCORING
+================================ */
+
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = true;
+      bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+const distinctiveTokens = (name: string) => {
+  const tokens = name.split(" ");
+  const distinctive = tokens.filter((t) => !GENERIC_TOKENS.has(t));
+  return distinctive.length > 0 ? distinctive : tokens;
+};
+
+// Dice overlap of the two token sets, counting near-identical tokens as equal
+const tokenOverlap = (a: string[], b: string[]) => {
+  const unmatched = [...b];
+  let shared = 0;
+  for (const token of a) {
+    const index = unmatched.findIndex((other) => jaroWinkler(token, other) >= 0.92);
+    if (index === -1) continue;
+    unmatched.splice(index, 1);
+    shared++;
+  }
+  return (2 * shared) / (a.length + b.length);
+};
+
+// 1 for names that normalise to the same string; otherwise below 1
+export const scoreNameMatch = (mention: string, name: string): number => {
+  const a = normalizeEntityName(mention);
+  const b = normalizeEntityName(name);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  // "ChrysCapital" vs "Chrys Capital"
+  if (a.replace(/ /g, "") === b.replace(/ /g, "")) return 0.98;
+
+  // Jaro-Winkler rewards a shared prefix, so "blackstone" vs "blackstone credit
+  // fund iv" needs the token overlap to pull it down. Generic words such as
+  // "group" are left out of the overlap so "blackstone group" still scores high.
+  const score = 0.6 * jaroWinkler(a, b) + 0.4 * tokenOverlap(distinctiveTokens(a), distinctiveTokens(b));
+  return Math.min(score, 0.99);
+};
+
+const parseNameList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string" || !value.trim()) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Not JSON; fall through to a delimited list
+  }
+  return value.split(/[;|\n]/).map((s) => s.trim()).filter(Boolean);
+};
+
+interface CandidateRow {
+  id: string;
+  name: string;
+  aliases: (string | null)[];
+  alias_lists: (string | null)[];
+  extra_aliases: string[];
+  // Normalised aliases a person added or confirmed (not imported)
+  confirmed_aliases: string[];
+  country: string | null;
+  asset_class: string | null;
+}
+
+const scoreCandidateRow = (mention: string, row: CandidateRow, context: ResolutionContext): EntityCandidate => {
+  const aliases = [
+    ...row.aliases.filter((a): a is string => !!a),
+    ...row.alias_lists.flatMap(parseNameList),
+    ...row.extra_aliases,
+  ];
+
+  let best = { name: row.name, score: scoreNameMatch(mention, row.name), alias: false };
+  for (const alias of aliases) {
+    const score = scoreNameMatch(mention, alias);
+    if (score > best.score) best = { name: alias, score, alias: true };
+  }
+
+  const signals: string[] = [];
+  if (best.score === 1) signals.push("exact");
+  if (best.alias) signals.push("alias");
+  if (row.confirmed_aliases.includes(normalizeEntityName(mention))) signals.push("confirmed_alias");
+
+  let score = best.score;
+
+  if (context.country && row.country) {
+    if (normalizeCountry(context.country) === normalizeCountry(row.country)) {
+      score += COUNTRY_BOOST;
+      signals.push("country_match");
+    } else {
+      score -= CONTEXT_PENALTY;
+      signals.push("country_mismatch");
+    }
+  }
+
+  if (context.assetClasses?.length && row.asset_class) {
+    const text = ` ${row.asset_class.toLowerCase().replace(/[^a-z]+/g, " ")} `;
+    const matched = context.assetClasses.some((assetClass) =>
+      (ASSET_CLASS_KEYWORDS[assetClass] ?? [assetClass.replace(/_/g, " ")]).some((kw) => text.includes(` ${kw} `))
+    );
+    if (matched) {
+      score += ASSET_CLASS_BOOST;
+      signals.push("asset_class_match");
+    } else {
+      score -= CONTEXT_PENALTY;
+      signals.push("asset_class_mismatch");
+    }
+  }
+
+  return {
+    entity_id: row.id,
+    name: row.name,
+    score: Math.round(Math.max(0, Math.min(1, score)) * 1000) / 1000,
+    matched_on: best.name,
+    signals,
+  };
+};
+
+/* ===============================
+   RESOLUTION
+================================ */
+
+// Distinctive tokens of the mention as ILIKE patterns for the candidate prefilter
+const prefilterPatterns = (normalized: string): string[] => {
+  const tokens = normalized.split(" ").filter((t) => t.length >= 3);
+  const distinctive = tokens.filter((t) => !GENERIC_TOKENS.has(t));
+  const chosen = distinctive.length > 0 ? distinctive : tokens.length > 0 ? tokens : [normalized];
+  return chosen.map((t) => `%${t}%`);
+};
+
+const isConfirmed = (candidate: EntityCandidate) => (candidate.signals.includes("confirmed_alias") ? 1 : 0);
+
+// Confirmed aliases rank first so a mention a reviewer already resolved links the same way
+export const resolveEntityCandidates = async (
+  db: any,
+  {
+    orgId,
+    entityType,
+    mention,
+    context = {},
+    limit = CANDIDATE_LIMIT,
+  }: {
+    orgId: string;
+    entityType: LinkableEntityType;
+    mention: string;
+    context?: ResolutionContext;
+    limit?: number;
+  }
+): Promise<EntityCandidate[]> => {
+  const normalized = normalizeEntityName(mention);
+  if (!normalized) return [];
+
+  const config = ENTITY_TABLES[entityType];
+  const nameColumns = [config.name, ...config.aliases, ...config.aliasLists];
+  const patterns = prefilterPatterns(normalized);
+
+  const result = await db.query(
+    `
+    select
+      t.id::text as id,
+      ${config.name} as name,
+      array[${config.aliases.join(", ")}]::text[] as aliases,
+      array[${config.aliasLists.join(", ")}]::text[] as alias_lists,
+      array(
+        select a.alias
+        from entity_aliases a
+        where a.org_id::text = $1
+          and a.entity_type = $3
+          and a.entity_id::text = t.id::text
+      ) as extra_aliases,
+      array(
+        select a.normalized_alias
+        from entity_aliases a
+        where a.org_id::text = $1
+          and a.entity_type = $3
+          and a.entity_id::text = t.id::text
+          and a.source <> 'import'
+      ) as confirmed_aliases,
+      ${config.country ?? "null"}::text as country,
+      ${config.assetClass ?? "null"}::text as asset_class
+    from ${config.table} t
+    where t.org_id::text = $1
+      and (
+        ${nameColumns.map((col) => `coalesce(${col}, '') ilike any($2::text[])`).join("\n        or ")}
+        or exists (
+          select 1
+          from entity_aliases a
+          where a.org_id::text = $1
+            and a.entity_type = $3
+            and a.entity_id::text = t.id::text
+            and a.normalized_alias like any($2::text[])
+        )
+      )
+    limit ${PREFILTER_LIMIT}
+    `,
+    [orgId, patterns, entityType]
+  );
+
+  return result.rows
+    .map((row: CandidateRow) => scoreCandidateRow(mention, row, context))
+    .filter((c: EntityCandidate) => c.score >= MIN_CANDIDATE_SCORE)
+    .sort((a: EntityCandidate, b: EntityCandidate) => isConfirmed(b) - isConfirmed(a) || b.score - a.score)
+    .slice(0, limit);
+};
+
+export interface EntityLinkDecision {
+  status: "LINKED" | "REVIEW";
+  matchType: "exact" | "fuzzy";
+  candidate: EntityCandidate;
+  // Every candidate shown to the reviewer, best first
+  candidates: EntityCandidate[];
+}
+
+// A clear winner links; close scores or a weak best match go to review; no candidates means no link.
+// A confirmed alias links unless another candidate was confirmed for the same mention.
+export const decideEntityLink = (candidates: EntityCandidate[]): EntityLinkDecision | null => {
+  const [top, runnerUp] = candidates;
+  if (!top) return null;
+
+  const confirmed = isConfirmed(top) === 1 && (!runnerUp || isConfirmed(runnerUp) === 0);
+  const clear = !runnerUp || top.score - runnerUp.score >= AMBIGUITY_MARGIN;
+  return {
+    status: confirmed || (top.score >= AUTO_LINK_SCORE && clear) ? "LINKED" : "REVIEW",
+    matchType: top.signals.includes("exact") ? "exact" : "fuzzy",
+    candidate: top,
+    candidates,
+  };
+};
+
+/* ===============================
+   ALIASES
+================================ */
+
+const toEntityAlias = (row: any): EntityAlias => ({
+  id: row.id,
+  orgId: row.org_id,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  alias: row.alias,
+  normalizedAlias: row.normalized_alias,
+  source: row.source,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+});
+
+// Returns null when the alias normalises to nothing or the entity is not in the org
+export const addEntityAlias = async (
+  db: any,
+  {
+    orgId,
+    entityType,
+    entityId,
+    alias,
+    source,
+    userId,
+  }: {
+    orgId: string;
+    entityType: LinkableEntityType;
+    entityId: string;
+    alias: string;
+    source: EntityAliasSource;
+    userId?: string | null;
+  }
+): Promise<EntityAlias | null> => {
+  const normalizedAlias = normalizeEntityName(alias);
+  if (!normalizedAlias) return null;
+
+  const config = ENTITY_TABLES[entityType];
+  const result = await db.query(
+    `
+    insert into entity_aliases (org_id, entity_type, entity_id, alias, normalized_alias, source, created_by)
+    select $1, $2, $3, $4, $5, $6, $7
+    from ${config.table} t
+    where t.id::text = $3
+      and t.org_id::text = $1
+    on conflict (org_id, entity_type, entity_id, normalized_alias) do update
+    set alias = excluded.alias
+    returning *
+    `,
+    [orgId, entityType, entityId, alias.trim(), normalizedAlias, source, userId ?? null]
+  );
+  return result.rows[0] ? toEntityAlias(result.rows[0]) : null;
+};
@@ -0,0 +1,398 @@
+import {
+  defaultLabelSchema,
+  labelIssuesOf,
+  migrateLabeledItem,
+  tagIssuesOf,
+  type AnnotationType,
+  type ImageAnnotationData,
+  type LabeledItem,
+  type LabelSchema,
+  type VideoAnnotationData,
+} from "@shared/schema";
+import { runInTransaction } from "../db";
+
+/**
+ * Label schemas of label projects.
+ *
+ * A project's classes, sub-labels, attributes, colours and hotkeys live in
+ * label_projects.label_schema, numbered by label_schema_version, and every
+ * saved version is kept in label_schema_versions. A project that was never
+ * edited uses the default for its type as version 0.
+ *
+ * Saving a version migrates what existing tasks hold: annotations of removed
+ * classes move to the class the manager remapped them to, and attribute
+ * values the class no longer defines are dropped. Tasks whose labels still do
+ * not fit are flagged in metadata.label_issues, which every later save of the
+ * task's annotation recomputes.
+ */
+
+export interface ProjectLabelSchema {
+  project_id: string;
+  label_type: string;
+  project_category: string;
+  version: number;
+  schema: LabelSchema;
+  is_default: boolean;
+}
+
+export interface LabelSchemaMigration {
+  checked: number;
+  migrated: number;
+  flagged: number;
+}
+
+// Annotation types whose items are classes of the schema
+const labeledItemMappers: Partial<
+  Record<AnnotationType, (data: any, fn: <T extends LabeledItem>(item: T) => T) => unknown>
+> = {
+  image: (data: ImageAnnotationData, fn) => ({ ...data, shapes: data.shapes.map(fn) }),
+  video: (data: VideoAnnotationData, fn) => ({
+    ...data,
+    segments: data.segments.map(fn),
+    tracks: data.tracks.map(fn),
+  }),
+};
+
+export const labeledItemsOf = (type: AnnotationType, data: unknown): LabeledItem[] | null => {
+  const mapper = labeledItemMappers[type];
+  if (!mapper) return null;
+  const items: LabeledItem[] = [];
+  mapper(data, (item) => {
+    items.push(item);
+    return item;
+  });
+  return items;
+};
+
+const sameIssues = (a: unknown, b: string[]) =>
+  JSON.stringify(Array.isArray(a) ? a : []) === JSON.stringify(b);
+
+const setTaskLabelIssues = async (db: any, taskId: string, version: number, issues: string[]) => {
+  await db.query(
+    `
+    update annotation_tasks
+    set metadata = (coalesce(metadata, '{}'::jsonb) - 'label_issues')
+      || jsonb_build_object('label_schema_version', $2::int)
+      || case when jsonb_array_length($3::jsonb) > 0 then jsonb_build_object('label_issues', $3::jsonb) else '{}'::jsonb end
+    where id = $1
+    `,
+    [taskId, version, JSON.stringify(issues)]
+  );
+};
+
+/* ===============================
+   SCHEMAS
+================================ */
+
+export const getProjectLabelSchema = async (
+  db: any,
+  { orgId, projectId }: { orgId: string; projectId: string }
+): Promise<ProjectLabelSchema | null> => {
+  const result = await db.query(
+    `
+    select id, label_type, project_category, label_schema, label_schema_version
+    from label_projects
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [projectId, orgId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return {
+    project_id: row.id,
+    label_type: row.label_type,
+    project_category: row.project_category,
+    version: row.label_schema_version ?? 0,
+    schema: row.label_schema ?? defaultLabelSchema(row.label_type, row.project_category),
+    is_default: !row.label_schema,
+  };
+};
+
+export const listLabelSchemaVersions = async (
+  db: any,
+  { orgId, projectId }: { orgId: string; projectId: string }
+) => {
+  const result = await db.query(
+    `
+    select
+      v.version,
+      v.remap,
+      jsonb_array_length(v.schema->'classes') as class_count,
+      v.created_by,
+      u.display_name as created_by_name,
+      v.created_at
+    from label_schema_versions v
+    left join users u on u.id = v.created_by
+    where v.project_id = $1
+      and v.org_id = $2
+    order by v.version desc
+    `,
+    [projectId, orgId]
+  );
+  return result.rows;
+};
+
+/**
+ * Stores schema as the project's next version and migrates the project's
+ * tasks to it, all in one transaction. baseVersion is the version the editor loaded; when another
+ * manager saved since, label_schema_conflict is thrown and nothing changes.
+ * remap maps ids of removed classes to classes of the new schema.
+ */
+export const saveLabelSchema = async (
+  db: any,
+  {
+    orgId,
+    projectId,
+    userId,
+    schema,
+    baseVersion,
+    remap,
+  }: {
+    orgId: string;
+    projectId: string;
+    userId?: string;
+    schema: LabelSchema;
+    baseVersion: number;
+    remap: Record<string, string>;
+  }
+): Promise<ProjectLabelSchema & { migration: LabelSchemaMigration }> => {
+  const current = await getProjectLabelSchema(db, { orgId, projectId });
+  if (!current) {
+    throw new Error("project_not_found");
+  }
+  if (current.version !== baseVersion) {
+    throw new Error("label_schema_conflict");
+  }
+
+  const oldIds = new Set(current.schema.classes.map((labelClass) => labelClass.id));
+  const newIds = new Set(schema.classes.map((labelClass) => labelClass.id));
+  const validRemap = Object.entries(remap).every(
+    ([from, to]) => oldIds.has(from) && !newIds.has(from) && newIds.has(to)
+  );
+  if (!validRemap) {
+    throw new Error("invalid_label_remap");
+  }
+
+  const version = baseVersion + 1;
+  return runInTransaction(db, async (tx) => {
+    const updated = await tx.query(
+      `
+      update label_projects
+      set label_schema = $3,
+          label_schema_version = $4
+      where id = $1
+        and org_id = $2
+        and label_schema_version = $5
+      returning id
+      `,
+      [projectId, orgId, JSON.stringify(schema), version, baseVersion]
+    );
+    if (updated.rows.length === 0) {
+      throw new Error("label_schema_conflict");
+    }
+
+    await tx.query(
+      `
+      insert into label_schema_versions (org_id, project_id, version, schema, remap, created_by)
+      values ($1, $2, $3, $4, $5, $6)
+      `,
+      [orgId, projectId, version, JSON.stringify(schema), JSON.stringify(remap), userId ?? null]
+    );
+
+    const migration =
+      current.project_category === "news"
+        ? await migrateNewsTags(tx, { orgId, projectId, oldSchema: current.schema, schema, remap, version })
+        : await migrateTaskAnnotations(tx, { orgId, projectId, schema, remap, version });
+
+    return { ...current, version, schema, is_default: false, migration };
+  });
+};
+
+/* ===============================
+   MIGRATION
+================================ */
+
+const migrateTaskAnnotations = async (
+  db: any,
+  {
+    orgId,
+    projectId,
+    schema,
+    remap,
+    version,
+  }: { orgId: string; projectId: string; schema: LabelSchema; remap: Record<string, string>; version: number }
+): Promise<LabelSchemaMigration> => {
+  const result = await db.query(
+    `
+    select a.id, a.type, a.data, t.id as task_id
+    from annotations a
+    join annotation_tasks t on t.id = a.annotation_task_id
+    where t.project_id = $1
+      and a.org_id = $2
+      and a.type = any($3)
+    `,
+    [projectId, orgId, Object.keys(labeledItemMappers)]
+  );
+
+  const issuesByTask = new Map<string, string[]>();
+  let migrated = 0;
+  for (const row of result.rows) {
+    const type = row.type as AnnotationType;
+    const data = labeledItemMappers[type]!(row.data, (item) => migrateLabeledItem(schema, item, remap));
+    const items = labeledItemsOf(type, data) ?? [];
+
+    if (JSON.stringify(data) !== JSON.stringify(row.data)) {
+      // Bumping updated_at makes open pages reload instead of saving over the migration
+      await db.query(
+        `
+        update annotations
+        set data = $2,
+            labels = $3,
+            updated_at = now()
+        where id = $1
+        `,
+        [row.id, JSON.stringify(data), JSON.stringify(Array.from(new Set(items.map((item) => item.label))))]
+      );
+      migrated++;
+    }
+
+    const issues = [...(issuesByTask.get(row.task_id) ?? []), ...labelIssuesOf(schema, items)];
+    issuesByTask.set(row.task_id, issues);
+  }
+
+  let flagged = 0;
+  for (const [taskId, issues] of Array.from(issuesByTask.entries())) {
+    await setTaskLabelIssues(db, taskId, version, Array.from(new Set(issues)));
+    if (issues.length > 0) flagged++;
+  }
+
+  // Tasks left without labeled annotations have nothing to flag any more
+  await db.query(
+    `
+    update annotation_tasks t
+    set metadata = (t.metadata - 'label_issues') || jsonb_build_object('label_schema_version', $3::int)
+    from label_projects p
+    where t.project_id = $1
+      and p.id = t.project_id
+      and p.org_id = $2
+      and t.metadata ? 'label_issues'
+      and not (t.id = any($4::varchar[]))
+    `,
+    [projectId, orgId, version, Array.from(issuesByTask.keys())]
+  );
+
+  return { checked: result.rows.length, migrated, flagged };
+};
+
+// News tags are arrays in the task metadata under each top-level class id
+const migrateNewsTags = async (
+  db: any,
+  {
+    orgId,
+    projectId,
+    oldSchema,
+    schema,
+    remap,
+    version,
+  }: {
+    orgId: string;
+    projectId: string;
+    oldSchema: LabelSchema;
+    schema: LabelSchema;
+    remap: Record<string, string>;
+    version: number;
+  }
+): Promise<LabelSchemaMigration> => {
+  const result = await db.query(
+    `
+    select t.id, t.metadata
+    from annotation_tasks t
+    join label_projects p on p.id = t.project_id
+    where t.project_id = $1
+      and p.org_id = $2
+      and t.metadata is not null
+    `,
+    [projectId, orgId]
+  );
+
+  const newGroups = new Set(schema.classes.filter((c) => !c.parent_id).map((c) => c.id));
+  const oldGroups = oldSchema.classes.filter((c) => !c.parent_id);
+  let migrated = 0;
+  let flagged = 0;
+  for (const row of result.rows) {
+    const metadata = { ...row.metadata };
+    const removedGroups: string[] = [];
+    for (const group of oldGroups) {
+      const values = metadata[group.id];
+      if (!Array.isArray(values) || values.length === 0) continue;
+      const target = remap[group.id] ?? group.id;
+      if (!newGroups.has(target)) {
+        removedGroups.push(`Tag group "${group.name}" was removed`);
+        continue;
+      }
+      const existing = target === group.id ? [] : metadata[target] ?? [];
+      metadata[target] = Array.from(new Set([...existing, ...values.map((value: string) => remap[value] ?? value)]));
+      if (target !== group.id) delete metadata[group.id];
+    }
+
+    const issues = [...removedGroups, ...tagIssuesOf(schema, metadata)];
+    const changed = JSON.stringify(metadata) !== JSON.stringify(row.metadata);
+    if (changed) {
+      await db.query(
+        `
+        update annotation_tasks t
+        set metadata = $2
+        from label_projects p
+        where t.id = $1
+          and p.id = t.project_id
+          and p.org_id = $3
+        `,
+        [row.id, JSON.stringify(metadata), orgId]
+      );
+      migrated++;
+    }
+    if (changed || !sameIssues(metadata.label_issues, issues)) {
+      await setTaskLabelIssues(db, row.id, version, issues);
+    }
+    if (issues.length > 0) flagged++;
+  }
+
+  return { checked: result.rows.length, migrated, flagged };
+};
+
+/* ===============================
+   TASK CHECKS
+================================ */
+
+/**
+ * Re-checks a task's labels against its project's schema after its
+ * annotation was saved, updating the task's flag when the result changed.
+ */
+export const flagTaskLabels = async (
+  db: any,
+  {
+    orgId,
+    task,
+    type,
+    data,
+  }: {
+    orgId: string;
+    task: { id: string; project_id: string; metadata: Record<string, unknown> };
+    type: AnnotationType;
+    data: unknown;
+  }
+) => {
+  const items = labeledItemsOf(type, data);
+  if (!items) return;
+  const project = await getProjectLabelSchema(db, { orgId, projectId: task.project_id });
+  if (!project) return;
+
+  const issues = labelIssuesOf(project.schema, items);
+  if (task.metadata.label_schema_version === project.version && sameIssues(task.metadata.label_issues, issues)) {
+    return;
+  }
+  await setTaskLabelIssues(db, task.id, project.version, issues);
+};
@@ -0,0 +1,325 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { llmProviderNames, type LlmProviderName, type NewsAIOutput } from "@shared/schema";
+
+/**
+ * LLM provider layer for AI generation.
+ *
+ * Providers are chosen per call by resolveLlmProvider: AI_MODE may force one
+ * provider for the whole deployment (e.g. AI_MODE=fixture for offline dev),
+ * otherwise the org's ai_provider setting applies, falling back to
+ * AI_PROVIDER. completeWithRetry adds a per-attempt timeout and retries
+ * transient failures; every call reports its token usage.
+ */
+
+/* ===============================
+   TYPES
+================================ */
+
+export interface LlmRequest {
+  prompt: string;
+  // Ask the model for a JSON object response
+  json?: boolean;
+}
+
+export interface LlmUsageCount {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResult {
+  text: string;
+  provider: LlmProviderName;
+  model: string;
+  usage: LlmUsageCount;
+  latencyMs: number;
+  attempts: number;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  complete(request: LlmRequest, signal: AbortSignal): Promise<{ text: string; usage: LlmUsageCount }>;
+}
+
+export interface CompleteOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 60_000;
+const DEFAULT_MAX_RETRIES = Number(process.env.LLM_MAX_RETRIES ?? 2);
+const RETRY_BASE_DELAY_MS = 1_000;
+
+export class LlmError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+// Rough count for providers that do not report usage (~4 characters per token)
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/* ===============================
+   GEMINI
+================================ */
+
+const createGeminiProvider = (): LlmProvider => {
+  const apiKey = process.env.GOOGLE_AI_API_KEY;
+  const modelName = process.env.GEMINI_MODEL || "gemini-1.5-pro";
+
+  return {
+    name: "gemini",
+    model: modelName,
+    async complete(request, signal) {
+      if (!apiKey) {
+        throw new LlmError("GOOGLE_AI_API_KEY is not set", false);
+      }
+      const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model: modelName,
+        generationConfig: request.json ? { responseMimeType: "application/json" } : undefined,
+      });
+      try {
+        const result = await model.generateContent(request.prompt, { signal });
+        const text = result.response.text();
+        const usage = result.response.usageMetadata;
+        return {
+          text,
+          usage: {
+            inputTokens: usage?.promptTokenCount ?? estimateTokens(request.prompt),
+            outputTokens: usage?.candidatesTokenCount ?? estimateTokens(text),
+          },
+        };
+      } catch (err: any) {
+        const status: number | undefined = err?.status;
+        throw new LlmError(`gemini: ${err?.message || err}`, status === undefined || status === 429 || status >= 500);
+      }
+    },
+  };
+};
+
+/* ===============================
+   OPENAI-COMPATIBLE
+================================ */
+
+const createOpenAiProvider = (): LlmProvider => {
+  const apiKey = process.env.OPENAI_API_KEY;
+  const baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+  const modelName = process.env.OPENAI_MODEL || "gpt-4o-mini";
+
+  return {
+    name: "openai",
+    model: modelName,
+    async complete(request, signal) {
+      if (!apiKey) {
+        throw new LlmError("OPENAI_API_KEY is not set", false);
+      }
+      const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: modelName,
+          messages: [{ role: "user", content: request.prompt }],
+          ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        }),
+        signal,
+      });
+
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new LlmError(`openai: HTTP ${res.status} ${body.slice(0, 200)}`, res.status === 429 || res.status >= 500);
+      }
+
+      const data = await res.json();
+      const text: string = data?.choices?.[0]?.message?.content ?? "";
+      return {
+        text,
+        usage: {
+          inputTokens: data?.usage?.prompt_tokens ?? estimateTokens(request.prompt),
+          outputTokens: data?.usage?.completion_tokens ?? estimateTokens(text),
+        },
+      };
+    },
+  };
+};
+
+/* ===============================
+   FIXTURE (offline, deterministic)
+================================ */
+
+const DEAL_KEYWORDS: Array<[RegExp, "fundraise" | "investment" | "acquisition" | "exit"]> = [
+  [/\b(closes?|raises?|raised)\b.*\bfund\b|\bfundrais/i, "fundraise"],
+  [/\b(acquires?|acquired|acquisition|buys?)\b/i, "acquisition"],
+  [/\b(ipo|exit|exits|sells? stake)\b/i, "exit"],
+  [/\b(invests?|invested|investment|leads?|series [a-z])\b/i, "investment"],
+];
+
+// Pulls the article headline back out of the prompt so the canned answer depends only on the input
+const headlineFromPrompt = (prompt: string) =>
+  prompt.match(/NEWS HEADLINE:\s*\n(.*)/)?.[1]?.trim() ?? "";
+
+export const buildFixtureNewsOutput = (headline: string): NewsAIOutput => {
+  const dealType = DEAL_KEYWORDS.find(([pattern]) => pattern.test(headline))?.[1] ?? null;
+  const amount = headline.match(/\$\s?(\d+(?:\.\d+)?)\s?(m|mn|million|b|bn|billion)\b/i);
+  const value = amount
+    ? Number(amount[1]) * (/^b/i.test(amount[2]) ? 1_000_000_000 : 1_000_000)
+    : null;
+  // Capitalised leading words stand in for the acting firm
+  const actor = headline.match(/^((?:[A-Z][\w&.-]*\s?){1,4})/)?.[1]?.trim() ?? null;
+
+  return {
+    deal_detected: dealType !== null,
+    deal_type: dealType,
+    entities: {
+      general_partners: dealType && actor ? [actor] : [],
+      funds: [],
+      portfolio_companies: [],
+      limited_partners: [],
+      service_providers: [],
+    },
+    amounts: {
+      value,
+      currency: amount ? "USD" : null,
+    },
+    geography: {
+      country: null,
+      city: null,
+    },
+    dates: {
+      announcement_date: null,
+    },
+    confidence_score: dealType ? 60 : 90,
+    reasoning: dealType
+      ? `Fixture provider matched a ${dealType} keyword in the headline.`
+      : "Fixture provider found no deal keywords in the headline.",
+  };
+};
+
+const createFixtureProvider = (): LlmProvider => ({
+  name: "fixture",
+  model: "fixture-v1",
+  async complete(request) {
+    const text = JSON.stringify(buildFixtureNewsOutput(headlineFromPrompt(request.prompt)));
+    return {
+      text,
+      usage: { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(text) },
+    };
+  },
+});
+
+/* ===============================
+   SELECTION
+================================ */
+
+const providerFactories: Record<LlmProviderName, () => LlmProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiProvider,
+  fixture: createFixtureProvider,
+};
+
+const isProviderName = (value: unknown): value is LlmProviderName =>
+  typeof value === "string" && (llmProviderNames as readonly string[]).includes(value);
+
+export const getLlmProvider = (name: LlmProviderName): LlmProvider => providerFactories[name]();
+
+export const resolveLlmProvider = async (db: any, orgId: string): Promise<LlmProvider> => {
+  const mode = process.env.AI_MODE;
+  if (isProviderName(mode)) {
+    return getLlmProvider(mode);
+  }
+
+  const result = await db.query(
+    `
+    select ai_provider
+    from organizations
+    where id = $1
+    limit 1
+    `,
+    [orgId]
+  );
+  const orgProvider = result.rows[0]?.ai_provider;
+  if (isProviderName(orgProvider)) {
+    return getLlmProvider(orgProvider);
+  }
+
+  const fallback = process.env.AI_PROVIDER;
+  return getLlmProvider(isProviderName(fallback) ? fallback : "gemini");
+};
+
+/* ===============================
+   CALLING
+================================ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const completeWithRetry = async (
+  provider: LlmProvider,
+  request: LlmRequest,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES }: CompleteOptions = {}
+): Promise<LlmResult> => {
+  const started = Date.now();
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const { text, usage } = await provider.complete(request, controller.signal);
+      return {
+        text,
+        usage,
+        provider: provider.name,
+        model: provider.model,
+        latencyMs: Date.now() - started,
+        attempts: attempt,
+      };
+    } catch (err) {
+      lastError = controller.signal.aborted
+        ? new LlmError(`${provider.name}: timed out after ${timeoutMs}ms`, true)
+        : err;
+      const retryable = lastError instanceof LlmError ? lastError.retryable : true;
+      if (!retryable || attempt > maxRetries) break;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+};
+
+export const recordLlmUsage = async (
+  db: any,
+  { orgId, purpose, sourceId, result }: { orgId: string; purpose: string; sourceId?: string; result: LlmResult }
+) => {
+  await db.query(
+    `
+    insert into llm_usage (
+      org_id,
+      provider,
+      model,
+      purpose,
+      source_id,
+      input_tokens,
+      output_tokens,
+      latency_ms,
+      attempts
+    )
+    values ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `,
+    [
+      orgId,
+      result.provider,
+      result.model,
+      purpose,
+      sourceId ?? null,
+      result.usage.inputTokens,
+      result.usage.outputTokens,
+      result.latencyMs,
+      result.attempts,
+    ]
+  );
+};
@@ -1,9 +1,11 @@
 import { Request, Response } from "express";
 import { generateAi } from "./aiGeneration";
+import { linkEntitiesFromAiOutput } from "./entityLinks";
+import { detectNewsLanguage } from "./newsCleaning";
 
 export const listNews = async (req: Request, res: Response) => {
   try {
-    const orgId = req.headers["x-org-id"] as string;
+    const orgId = req.orgId as string;
     const db = req.app.locals.db;
 
     const result = await db.query(
@@ -18,6 +20,7 @@ export const listNews = async (req: Request, res: Response) => {
       left join ai_outputs ao
         on ao.source_id = n.id
         and ao.source_type = 'news'
+        and ao.org_id = n.org_id
       where n.org_id = $1
       order by n.created_at desc
       limit 50
@@ -35,8 +38,8 @@ export const listNews = async (req: Request, res: Response) => {
 export const generateAiForNews = async (req: Request, res: Response) => {
   try {
     const newsId = req.params.id;
-    const orgId = req.headers["x-org-id"] as string;
-    const userId = req.headers["x-user-id"] as string;
+    const orgId = req.orgId as string;
+    const userId = req.user?.userId;
     const db = req.app.locals.db;
 
     const aiOutputId = await generateAi({
@@ -45,6 +48,7 @@ export const generateAiForNews = async (req: Request, res: Response) => {
       newsId,
       userId,
     });
+    await linkEntitiesFromAiOutput({ db, aiOutputId });
 
     res.json({ ai_output_id: aiOutputId });
   } catch (err) {
@@ -55,8 +59,8 @@ export const generateAiForNews = async (req: Request, res: Response) => {
 
 export const ingestNews = async (req: Request, res: Response) => {
   try {
-    const orgId = req.headers["x-org-id"] as string;
-    const userId = req.headers["x-user-id"] as string;
+    const orgId = req.orgId as string;
+    const userId = req.user?.userId;
     const db = req.app.locals.db;
 
     const {
@@ -65,6 +69,7 @@ export const ingestNews = async (req: Request, res: Response) => {
       publish_date,
       url,
       raw_text,
+      language,
     } = req.body;
 
     if (!headline || !source_name || !publish_date || !url) {
@@ -100,10 +105,11 @@ export const ingestNews = async (req: Request, res: Response) => {
         publish_date,
         url,
         raw_text,
+        language,
         created_by,
         status
       )
-      values ($1, $2, $3, $4, $5, $6, $7, 'NEW')
+      values ($1, $2, $3, $4, $5, $6, $7, $8, 'NEW')
       returning id
       `,
       [
@@ -113,6 +119,7 @@ export const ingestNews = async (req: Request, res: Response) => {
         publish_date,
         url,
         raw_text || null,
+        detectNewsLanguage({ language, rawText: raw_text }),
         userId,
       ]
     );
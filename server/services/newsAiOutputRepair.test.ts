@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCurrency, parseNewsAiOutput } from "./newsAiOutputRepair";
+
+const validOutput = {
+  deal_detected: true,
+  deal_type: "investment",
+  entities: {
+    general_partners: ["Sequoia Capital India"],
+    funds: [],
+    portfolio_companies: ["Zetwerk"],
+    limited_partners: [],
+    service_providers: [],
+  },
+  amounts: { value: 120, currency: "USD" },
+  geography: { country: "India", city: "Bengaluru" },
+  dates: { announcement_date: "2026-03-03" },
+  confidence_score: 88,
+  reasoning: "Series E led by Sequoia.",
+};
+
+const withFields = (overrides: Record<string, any>) => JSON.stringify({ ...validOutput, ...overrides });
+
+describe("parseNewsAiOutput", () => {
+  it("accepts valid JSON without repairs", () => {
+    expect(parseNewsAiOutput(JSON.stringify(validOutput))).toEqual({ ok: true, output: validOutput, repairs: [] });
+  });
+
+  it("strips markdown code fences", () => {
+    const result = parseNewsAiOutput("```json\n" + JSON.stringify(validOutput, null, 2) + "\n```");
+    expect(result).toMatchObject({ ok: true, output: validOutput, repairs: ["markdown_fence"] });
+  });
+
+  it("drops text around the JSON object, braces in strings included", () => {
+    const output = { ...validOutput, reasoning: "Uses {curly} braces." };
+    const result = parseNewsAiOutput(`Here is the result:\n${JSON.stringify(output)}\nLet me know if { anything } else.`);
+    expect(result).toMatchObject({ ok: true, output, repairs: ["surrounding_text"] });
+  });
+
+  it("coerces numbers and booleans given as strings", () => {
+    const result = parseNewsAiOutput(
+      withFields({
+        deal_detected: "yes",
+        amounts: { value: "1,250.5", currency: "USD" },
+        confidence_score: "75%",
+      })
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.output).toMatchObject({ deal_detected: true, amounts: { value: 1250.5 }, confidence_score: 75 });
+    expect(result.repairs).toEqual(["deal_detected", "amounts.value", "confidence_score"]);
+  });
+
+  it("maps currency symbols and names to ISO codes", () => {
+    expect(["$", "US$", "€", "euros", "£", "Rs", "₹", "S$", "usd"].map(normalizeCurrency)).toEqual([
+      "USD",
+      "USD",
+      "EUR",
+      "EUR",
+      "GBP",
+      "INR",
+      "INR",
+      "SGD",
+      "USD",
+    ]);
+    const result = parseNewsAiOutput(withFields({ amounts: { value: 50, currency: "Rupees" } }));
+    expect(result).toMatchObject({ ok: true, output: { amounts: { currency: "INR" } }, repairs: ["amounts.currency"] });
+  });
+
+  it("fills placeholders and missing lists with null and []", () => {
+    const result = parseNewsAiOutput(
+      withFields({
+        deal_type: "N/A",
+        entities: { general_partners: "Accel" },
+        geography: { country: "unknown" },
+        dates: { announcement_date: "2026-03-03T09:30:00Z" },
+      })
+    );
+    expect(result).toMatchObject({
+      ok: true,
+      output: {
+        deal_type: null,
+        entities: { general_partners: ["Accel"], funds: [], portfolio_companies: [] },
+        geography: { country: null, city: null },
+        dates: { announcement_date: "2026-03-03" },
+      },
+    });
+  });
+
+  it("reports what it cannot repair", () => {
+    const result = parseNewsAiOutput(
+      withFields({ deal_type: "merger", amounts: { value: "a lot", currency: "Bitcoin" }, dates: { announcement_date: "2026-02-30" } })
+    );
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      expect.stringMatching(/^deal_type: /),
+      expect.stringMatching(/^amounts\.value: /),
+      expect.stringMatching(/^amounts\.currency: Expected an ISO 4217 currency code/),
+      expect.stringMatching(/^dates\.announcement_date: /),
+    ]);
+    expect(result.parsed).toMatchObject({ deal_type: "merger", amounts: { value: "a lot", currency: "Bitcoin" } });
+  });
+
+  it("fails on text without a JSON object", () => {
+    expect(parseNewsAiOutput("I could not find a deal in this article.")).toEqual({
+      ok: false,
+      errors: ["Response does not contain a JSON object"],
+      parsed: null,
+      repairs: [],
+    });
+    expect(parseNewsAiOutput("[1, 2]")).toMatchObject({ ok: false, errors: ["Top-level JSON value must be an object"] });
+  });
+});
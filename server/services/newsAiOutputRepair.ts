@@ -0,0 +1,223 @@
+import { newsAiOutputSchema, type NewsAIOutput } from "@shared/schema";
+
+/**
+ * Turns raw LLM text into a validated NewsAIOutput.
+ *
+ * Models routinely wrap JSON in markdown fences, add a sentence after it, or
+ * return numbers and booleans as strings. The repair pass fixes those
+ * mechanical problems before newsAiOutputSchema is applied; anything it
+ * cannot fix is reported as a validation error rather than guessed at.
+ */
+
+export type NewsAiOutputParseResult =
+  | { ok: true; output: NewsAIOutput; repairs: string[] }
+  | { ok: false; errors: string[]; parsed: unknown; repairs: string[] };
+
+const ENTITY_BUCKETS = [
+  "general_partners",
+  "funds",
+  "portfolio_companies",
+  "limited_partners",
+  "service_providers",
+] as const;
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  $: "USD",
+  US$: "USD",
+  USD$: "USD",
+  DOLLAR: "USD",
+  DOLLARS: "USD",
+  "US DOLLAR": "USD",
+  "US DOLLARS": "USD",
+  "€": "EUR",
+  EURO: "EUR",
+  EUROS: "EUR",
+  "£": "GBP",
+  POUND: "GBP",
+  POUNDS: "GBP",
+  STERLING: "GBP",
+  "¥": "JPY",
+  YEN: "JPY",
+  "₹": "INR",
+  RUPEE: "INR",
+  RUPEES: "INR",
+  RS: "INR",
+  "S$": "SGD",
+  "A$": "AUD",
+  "C$": "CAD",
+};
+
+/* -------------------------------
+   Text-level repairs
+-------------------------------- */
+const stripFences = (text: string) => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  return fenced ? fenced[1] : text;
+};
+
+// The first balanced {...} block, ignoring braces inside strings
+const extractJsonObject = (text: string): string | null => {
+  const start = text.indexOf("{");
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{") depth++;
+    else if (ch === "}") {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+/* -------------------------------
+   Value-level repairs
+-------------------------------- */
+const toNumber = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  const cleaned = value.replace(/[,%\s]/g, "");
+  if (cleaned === "") return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : value;
+};
+
+const toBoolean = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  const lower = value.trim().toLowerCase();
+  if (lower === "true" || lower === "yes") return true;
+  if (lower === "false" || lower === "no") return false;
+  return value;
+};
+
+const toNullable = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (typeof value === "string" && ["", "null", "none", "n/a", "unknown"].includes(value.trim().toLowerCase())) {
+    return null;
+  }
+  return value;
+};
+
+export const normalizeCurrency = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  const upper = value.trim().toUpperCase();
+  if (/^[A-Z]{3}$/.test(upper)) return upper;
+  return CURRENCY_ALIASES[upper] ?? CURRENCY_ALIASES[value.trim()] ?? value;
+};
+
+const toEntityList = (value: unknown): unknown => {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "string") return value.trim() ? [value] : [];
+  if (Array.isArray(value)) return value.filter((v) => typeof v === "string" && v.trim() !== "");
+  return value;
+};
+
+const asRecord = (value: unknown): Record<string, any> =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, any>) : {};
+
+const repairFields = (input: Record<string, any>, repairs: string[]) => {
+  const track = (field: string, before: unknown, after: unknown) => {
+    if (JSON.stringify(before) !== JSON.stringify(after)) repairs.push(field);
+    return after;
+  };
+
+  const entities = asRecord(input.entities);
+  const amounts = asRecord(input.amounts);
+  const geography = asRecord(input.geography);
+  const dates = asRecord(input.dates);
+
+  const dealType = toNullable(input.deal_type);
+  const announcementDate = toNullable(dates.announcement_date);
+
+  return {
+    deal_detected: track("deal_detected", input.deal_detected, toBoolean(input.deal_detected)),
+    deal_type: track(
+      "deal_type",
+      input.deal_type,
+      typeof dealType === "string" ? dealType.trim().toLowerCase() : dealType
+    ),
+    entities: Object.fromEntries(
+      ENTITY_BUCKETS.map((bucket) => [
+        bucket,
+        track(`entities.${bucket}`, entities[bucket], toEntityList(entities[bucket])),
+      ])
+    ),
+    amounts: {
+      value: track("amounts.value", amounts.value, toNumber(toNullable(amounts.value))),
+      currency: track("amounts.currency", amounts.currency, normalizeCurrency(toNullable(amounts.currency))),
+    },
+    geography: {
+      country: track("geography.country", geography.country, toNullable(geography.country)),
+      city: track("geography.city", geography.city, toNullable(geography.city)),
+    },
+    dates: {
+      // Full ISO timestamps are trimmed to the date; other formats are left for the schema to reject
+      announcement_date: track(
+        "dates.announcement_date",
+        dates.announcement_date,
+        typeof announcementDate === "string" && /^\d{4}-\d{2}-\d{2}T/.test(announcementDate)
+          ? announcementDate.slice(0, 10)
+          : announcementDate
+      ),
+    },
+    confidence_score: track("confidence_score", input.confidence_score, toNumber(input.confidence_score)),
+    reasoning: input.reasoning,
+  };
+};
+
+/* -------------------------------
+   Entry point
+-------------------------------- */
+export const parseNewsAiOutput = (rawText: string): NewsAiOutputParseResult => {
+  const repairs: string[] = [];
+
+  let text = rawText.trim();
+  const unfenced = stripFences(text).trim();
+  if (unfenced !== text) {
+    repairs.push("markdown_fence");
+    text = unfenced;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const extracted = extractJsonObject(text);
+    if (!extracted) {
+      return { ok: false, errors: ["Response does not contain a JSON object"], parsed: null, repairs };
+    }
+    try {
+      parsed = JSON.parse(extracted);
+      repairs.push("surrounding_text");
+    } catch (err) {
+      return { ok: false, errors: [`Invalid JSON: ${(err as Error).message}`], parsed: null, repairs };
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { ok: false, errors: ["Top-level JSON value must be an object"], parsed, repairs };
+  }
+
+  const repaired = repairFields(parsed as Record<string, any>, repairs);
+  const result = newsAiOutputSchema.safeParse(repaired);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.errors.map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`),
+      parsed: repaired,
+      repairs,
+    };
+  }
+
+  return { ok: true, output: result.data, repairs };
+};
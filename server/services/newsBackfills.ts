@@ -0,0 +1,511 @@
+import type {
+  EntityLinkStatus,
+  LinkableEntityType,
+  NewsBackfill,
+  NewsBackfillDiff,
+  NewsBackfillFieldChange,
+  NewsBackfillFilters,
+  NewsBackfillItem,
+  NewsBackfillItemStatus,
+} from "@shared/schema";
+import { previewAiOutput } from "./aiGeneration";
+import { proposeEntityLinks } from "./entityLinks";
+
+/**
+ * Backfills rerun the news pipeline over articles that were already processed,
+ * e.g. after a prompt or linker change.
+ *
+ * Creating a backfill snapshots the matching article ids as pending items.
+ * The backfill scheduler (server/jobs/newsBackfill.ts) releases up to
+ * rate_per_minute items per backfill each minute as news.backfill jobs, and
+ * marks the backfill completed once no item is pending or queued. Dry-run
+ * items call the LLM and the resolver but only store the resulting diff;
+ * their LLM usage is not recorded.
+ */
+
+export const MAX_BACKFILL_ARTICLES = 5000;
+const SAMPLE_SIZE = 10;
+const MAX_ERROR_LENGTH = 2000;
+
+export interface NewsBackfillProgress extends NewsBackfill {
+  counts: Record<NewsBackfillItemStatus, number>;
+}
+
+export interface NewsBackfillItemView extends NewsBackfillItem {
+  headline: string | null;
+}
+
+const toNewsBackfill = (row: any): NewsBackfillProgress => ({
+  id: row.id,
+  orgId: row.org_id,
+  status: row.status,
+  dryRun: row.dry_run,
+  filters: row.filters ?? {},
+  ratePerMinute: row.rate_per_minute,
+  total: row.total,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  finishedAt: row.finished_at,
+  counts: {
+    pending: row.pending_count ?? 0,
+    queued: row.queued_count ?? 0,
+    completed: row.completed_count ?? 0,
+    failed: row.failed_count ?? 0,
+  },
+});
+
+const toNewsBackfillItem = (row: any): NewsBackfillItemView => ({
+  id: row.id,
+  orgId: row.org_id,
+  backfillId: row.backfill_id,
+  newsId: row.news_id,
+  status: row.status,
+  diff: row.diff,
+  error: row.error,
+  updatedAt: row.updated_at,
+  headline: row.headline ?? null,
+});
+
+/* ===============================
+   SELECTION
+================================ */
+
+// Matching news as `select n.id, n.headline ...`; params $1..$8, callers append their own
+const matchingNewsQuery = (orgId: string, filters: NewsBackfillFilters) => ({
+  text: `
+    select n.id, n.headline, n.source_name, n.publish_date, ao.status as ai_status, ao.llm_model, ao.prompt_version
+    from news n
+    left join lateral (
+      select a.status, a.llm_model, a.prompt_version
+      from ai_outputs a
+      where a.org_id = n.org_id
+        and a.source_type = 'news'
+        and a.source_id::text = n.id::text
+      order by a.created_at desc
+      limit 1
+    ) ao on true
+    where n.org_id = $1
+      and ($2::date is null or coalesce(
+        case when n.publish_date ~ '^\\d{4}-\\d{2}-\\d{2}' then left(n.publish_date, 10)::date end,
+        n.created_at::date
+      ) >= $2::date)
+      and ($3::date is null or coalesce(
+        case when n.publish_date ~ '^\\d{4}-\\d{2}-\\d{2}' then left(n.publish_date, 10)::date end,
+        n.created_at::date
+      ) <= $3::date)
+      and ($4::text is null or lower(n.source_name) = lower($4))
+      and ($5::text is null or exists (
+        select 1
+        from annotation_tasks t
+        where t.project_id::text = $5
+          and t.metadata->>'news_id' = n.id::text
+      ))
+      and ($6::text is null
+        or ($6 = 'none' and ao.status is null)
+        or ao.status = $6)
+      and ($7::text is null or ao.llm_model = $7)
+      and ($8::text is null or ao.prompt_version = $8)
+  `,
+  params: [
+    orgId,
+    filters.from ?? null,
+    filters.to ?? null,
+    filters.source_name ?? null,
+    filters.project_id ?? null,
+    filters.ai_status ?? null,
+    filters.llm_model ?? null,
+    filters.prompt_version ?? null,
+  ],
+});
+
+// How many articles a backfill with these filters would cover, with a few examples
+export const previewNewsBackfill = async (db: any, orgId: string, filters: NewsBackfillFilters) => {
+  const query = matchingNewsQuery(orgId, filters);
+  const [count, sample] = await Promise.all([
+    db.query(`select count(*)::int as total from (${query.text}) m`, query.params),
+    db.query(`select * from (${query.text}) m order by m.publish_date desc nulls last limit ${SAMPLE_SIZE}`, query.params),
+  ]);
+
+  return {
+    total: count.rows[0].total as number,
+    max: MAX_BACKFILL_ARTICLES,
+    sample: sample.rows.map((r: any) => ({
+      news_id: r.id,
+      headline: r.headline,
+      source_name: r.source_name,
+      publish_date: r.publish_date,
+      ai_status: r.ai_status ?? "none",
+      llm_model: r.llm_model,
+      prompt_version: r.prompt_version,
+    })),
+  };
+};
+
+/* ===============================
+   BACKFILLS
+================================ */
+
+const BACKFILL_SELECT = `
+  select b.*,
+    count(*) filter (where i.status = 'pending')::int as pending_count,
+    count(*) filter (where i.status = 'queued')::int as queued_count,
+    count(*) filter (where i.status = 'completed')::int as completed_count,
+    count(*) filter (where i.status = 'failed')::int as failed_count
+  from news_backfills b
+  left join news_backfill_items i on i.backfill_id = b.id
+`;
+
+export const createNewsBackfill = async (
+  db: any,
+  {
+    orgId,
+    userId,
+    filters,
+    dryRun,
+    ratePerMinute,
+  }: { orgId: string; userId?: string; filters: NewsBackfillFilters; dryRun: boolean; ratePerMinute: number }
+): Promise<NewsBackfillProgress> => {
+  const { total } = await previewNewsBackfill(db, orgId, filters);
+  if (total === 0) throw new Error("no_matching_news");
+  if (total > MAX_BACKFILL_ARTICLES) throw new Error("too_many_news");
+
+  const inserted = await db.query(
+    `
+    insert into news_backfills (org_id, dry_run, filters, rate_per_minute, created_by)
+    values ($1, $2, $3, $4, $5)
+    returning id
+    `,
+    [orgId, dryRun, JSON.stringify(filters), ratePerMinute, userId ?? null]
+  );
+  const backfillId: string = inserted.rows[0].id;
+
+  // Snapshot the selection so articles ingested later are not swept in
+  const query = matchingNewsQuery(orgId, filters);
+  const items = await db.query(
+    `
+    insert into news_backfill_items (org_id, backfill_id, news_id)
+    select $1, $9, m.id
+    from (${query.text}) m
+    on conflict (backfill_id, news_id) do nothing
+    `,
+    [...query.params, backfillId]
+  );
+  await db.query(`update news_backfills set total = $2 where id = $1`, [backfillId, items.rowCount ?? 0]);
+
+  return (await getNewsBackfill(db, orgId, backfillId))!;
+};
+
+export const listNewsBackfills = async (db: any, orgId: string, limit = 50): Promise<NewsBackfillProgress[]> => {
+  const result = await db.query(
+    `
+    ${BACKFILL_SELECT}
+    where b.org_id = $1
+    group by b.id
+    order by b.created_at desc
+    limit $2
+    `,
+    [orgId, limit]
+  );
+  return result.rows.map(toNewsBackfill);
+};
+
+export const getNewsBackfill = async (db: any, orgId: string, id: string): Promise<NewsBackfillProgress | null> => {
+  const result = await db.query(
+    `
+    ${BACKFILL_SELECT}
+    where b.org_id = $1
+      and b.id = $2
+    group by b.id
+    `,
+    [orgId, id]
+  );
+  return result.rows[0] ? toNewsBackfill(result.rows[0]) : null;
+};
+
+export const listNewsBackfillItems = async (
+  db: any,
+  { orgId, backfillId, status, limit, offset }: {
+    orgId: string;
+    backfillId: string;
+    status?: NewsBackfillItemStatus;
+    limit: number;
+    offset: number;
+  }
+): Promise<NewsBackfillItemView[]> => {
+  const result = await db.query(
+    `
+    select i.*, n.headline
+    from news_backfill_items i
+    left join news n on n.id::text = i.news_id::text
+    where i.org_id = $1
+      and i.backfill_id = $2
+      and ($3::text is null or i.status = $3)
+    order by i.updated_at desc, i.id
+    limit $4 offset $5
+    `,
+    [orgId, backfillId, status ?? null, limit, offset]
+  );
+  return result.rows.map(toNewsBackfillItem);
+};
+
+// Pending items are no longer released; items already queued still run
+export const cancelNewsBackfill = async (db: any, orgId: string, id: string): Promise<NewsBackfillProgress> => {
+  const backfill = await getNewsBackfill(db, orgId, id);
+  if (!backfill) throw new Error("news_backfill_not_found");
+  if (backfill.status !== "running") throw new Error("news_backfill_not_running");
+
+  await db.query(
+    `
+    update news_backfills
+    set status = 'cancelled',
+        finished_at = now()
+    where id = $1
+    `,
+    [id]
+  );
+  return (await getNewsBackfill(db, orgId, id))!;
+};
+
+/* ===============================
+   SCHEDULING
+================================ */
+
+// Moves up to rate_per_minute pending items of every running backfill to queued
+export const releaseBackfillItems = async (
+  db: any
+): Promise<Array<{ orgId: string; backfillId: string; newsId: string; dryRun: boolean; userId: string | null }>> => {
+  const result = await db.query(
+    `
+    with due as (
+      select i.id
+      from (
+        select i.id, i.backfill_id,
+          row_number() over (partition by i.backfill_id order by i.id) as position
+        from news_backfill_items i
+        join news_backfills b on b.id = i.backfill_id
+        where b.status = 'running'
+          and i.status = 'pending'
+      ) i
+      join news_backfills b on b.id = i.backfill_id
+      where i.position <= b.rate_per_minute
+    )
+    update news_backfill_items i
+    set status = 'queued',
+        updated_at = now()
+    from due, news_backfills b
+    where i.id = due.id
+      and b.id = i.backfill_id
+    returning i.org_id, i.backfill_id, i.news_id, b.dry_run, b.created_by
+    `
+  );
+  return result.rows.map((r: any) => ({
+    orgId: r.org_id,
+    backfillId: r.backfill_id,
+    newsId: r.news_id,
+    dryRun: r.dry_run,
+    userId: r.created_by,
+  }));
+};
+
+// Items whose job was dead-lettered without reaching the handler (e.g. a lost lease) count as failed
+export const completeFinishedBackfills = async (db: any) => {
+  await db.query(
+    `
+    update news_backfill_items i
+    set status = 'failed',
+        error = coalesce(i.error, j.last_error),
+        updated_at = now()
+    from jobs j
+    where i.status = 'queued'
+      and j.type = 'news.backfill'
+      and j.dedupe_key = i.backfill_id::text || ':' || i.news_id::text
+      and j.status = 'dead'
+    `
+  );
+  await db.query(
+    `
+    update news_backfills b
+    set status = 'completed',
+        finished_at = now()
+    where b.status = 'running'
+      and not exists (
+        select 1
+        from news_backfill_items i
+        where i.backfill_id = b.id
+          and i.status in ('pending', 'queued')
+      )
+    `
+  );
+};
+
+export const setBackfillItemResult = async (
+  db: any,
+  { backfillId, newsId, status, diff, error }: {
+    backfillId: string;
+    newsId: string;
+    status: NewsBackfillItemStatus;
+    diff?: NewsBackfillDiff;
+    error?: unknown;
+  }
+) => {
+  await db.query(
+    `
+    update news_backfill_items
+    set status = $3,
+        diff = $4,
+        error = $5,
+        updated_at = now()
+    where backfill_id = $1
+      and news_id::text = $2
+    `,
+    [
+      backfillId,
+      newsId,
+      status,
+      diff ? JSON.stringify(diff) : null,
+      error === undefined ? null : String((error as any)?.message ?? error).slice(0, MAX_ERROR_LENGTH),
+    ]
+  );
+};
+
+/* ===============================
+   DRY RUN
+================================ */
+
+// Arrays of names compare as sets
+const normalizeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeValue);
+    return items.every((v) => typeof v !== "object" || v === null)
+      ? items.slice().sort((a, b) => String(a).localeCompare(String(b)))
+      : items;
+  }
+  return value === undefined ? null : value;
+};
+
+const flattenOutput = (value: unknown, path: string, out: Map<string, unknown>) => {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenOutput(child, path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  if (path) out.set(path, normalizeValue(value));
+};
+
+// Leaf-level differences between two outputs, e.g. { path: "deal.amount", old: 50, new: 55 }
+export const diffAiOutputs = (previous: unknown, next: unknown): NewsBackfillFieldChange[] => {
+  const before = new Map<string, unknown>();
+  const after = new Map<string, unknown>();
+  flattenOutput(previous, "", before);
+  flattenOutput(next, "", after);
+
+  const paths = Array.from(new Set(Array.from(before.keys()).concat(Array.from(after.keys())))).sort();
+  const changes: NewsBackfillFieldChange[] = [];
+  for (const path of paths) {
+    const oldValue = before.has(path) ? before.get(path) : null;
+    const newValue = after.has(path) ? after.get(path) : null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ path, old: oldValue, new: newValue });
+    }
+  }
+  return changes;
+};
+
+// What a rerun would change for one article: the AI output against the latest
+// stored one, and entity links under upsertEntityLink's rules
+export const computeReprocessingDiff = async (
+  db: any,
+  { orgId, newsId }: { orgId: string; newsId: string }
+): Promise<NewsBackfillDiff> => {
+  const previousResult = await db.query(
+    `
+    select id, output_json, llm_model, prompt_version
+    from ai_outputs
+    where org_id = $1
+      and source_type = 'news'
+      and source_id::text = $2
+      and status <> 'FAILED_VALIDATION'
+    order by created_at desc
+    limit 1
+    `,
+    [orgId, newsId]
+  );
+  const previous = previousResult.rows[0] ?? null;
+  const preview = await previewAiOutput({ db, orgId, newsId });
+
+  const diff: NewsBackfillDiff = {
+    old_ai_output_id: previous?.id ?? null,
+    old_llm_model: previous?.llm_model ?? null,
+    old_prompt_version: previous?.prompt_version ?? null,
+    new_llm_model: preview.llmModel,
+    new_prompt_version: preview.promptVersion ?? null,
+    validation_errors: null,
+    output_changes: [],
+    link_changes: [],
+  };
+
+  if (!preview.parsed.ok) {
+    diff.validation_errors = preview.parsed.errors;
+    return diff;
+  }
+  diff.output_changes = diffAiOutputs(previous?.output_json ?? {}, preview.parsed.output);
+
+  const existingResult = await db.query(
+    `
+    select entity_type, entity_id, link_source, status, mention
+    from entity_links
+    where org_id = $1
+      and source_type = 'news'
+      and source_id::text = $2
+    `,
+    [orgId, newsId]
+  );
+  const existing = new Map<string, any>(
+    existingResult.rows.map((r: any) => [`${r.entity_type}:${r.entity_id}`, r])
+  );
+
+  const proposals = await proposeEntityLinks(db, {
+    orgId,
+    sourceType: "news",
+    sourceId: newsId,
+    output: preview.parsed.output,
+  });
+
+  const proposed = new Set<string>();
+  for (const { entityType, mention, decision } of proposals) {
+    if (!decision) continue;
+    const key = `${entityType}:${decision.candidate.entity_id}`;
+    if (proposed.has(key)) continue;
+    proposed.add(key);
+
+    const current = existing.get(key);
+    // Manual, LINKED and REJECTED links keep their status on upsert
+    const kept = current && (current.link_source === "manual" || current.status !== "REVIEW");
+    const newStatus: EntityLinkStatus = kept ? current.status : decision.status;
+    if (current?.status === newStatus) continue;
+
+    diff.link_changes.push({
+      entity_type: entityType,
+      entity_id: decision.candidate.entity_id,
+      name: decision.candidate.name,
+      mention,
+      old_status: current?.status ?? null,
+      new_status: newStatus,
+    });
+  }
+
+  for (const [key, current] of Array.from(existing.entries())) {
+    if (proposed.has(key) || current.link_source === "manual" || current.status === "REJECTED") continue;
+    diff.link_changes.push({
+      entity_type: current.entity_type as LinkableEntityType,
+      entity_id: current.entity_id,
+      name: null,
+      mention: current.mention,
+      old_status: current.status,
+      new_status: null,
+    });
+  }
+
+  return diff;
+};
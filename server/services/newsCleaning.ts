@@ -0,0 +1,248 @@
+import type { NewsOffsetMap } from "@shared/schema";
+import {
+  cleanedToRawOffset,
+  decodeEntities,
+  detectLanguage,
+  extractArticle,
+  rawToCleanedOffset,
+} from "./articleExtraction";
+
+/**
+ * Computes news.cleaned_text and keeps text_annotations pointing at the same
+ * words.
+ *
+ * Annotators tag whichever text the page shows: cleaned_text when present,
+ * else raw_text. When an article is (re)cleaned, each annotation's offsets are
+ * carried to raw_text through the old offset map (or taken as raw offsets when
+ * there was no cleaned_text), then into the new cleaned_text through the new
+ * map. If the mapped span no longer reads as the annotation's text_span, the
+ * nearest occurrence of that text is used instead; annotations that cannot be
+ * placed are left untouched and counted as unmapped.
+ */
+
+export interface NewsCleaningResult {
+  newsId: string;
+  cleaned: boolean;
+  length: number;
+  byline: string | null;
+  language: string | null;
+  publishDate: string | null;
+  annotations: {
+    total: number;
+    remapped: number;
+    unchanged: number;
+    unmapped: number;
+  };
+}
+
+export interface AnnotationSpan {
+  start: number;
+  end: number;
+}
+
+// Spans tagged on raw HTML still carry entities such as &amp;
+const normalizeSpan = (text: string) => decodeEntities(text).replace(/\s+/g, " ").trim();
+
+const spanMatches = (text: string, span: AnnotationSpan, textSpan: string) =>
+  span.end > span.start && normalizeSpan(text.slice(span.start, span.end)) === normalizeSpan(textSpan);
+
+// Occurrence of textSpan closest to near, allowing whitespace to differ
+export const findNearestSpan = (text: string, textSpan: string, near: number): AnnotationSpan | null => {
+  const words = normalizeSpan(textSpan)
+    .split(" ")
+    .filter(Boolean)
+    .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (words.length === 0) return null;
+
+  let best: AnnotationSpan | null = null;
+  for (const match of Array.from(text.matchAll(new RegExp(words.join("\\s+"), "g")))) {
+    const span = { start: match.index!, end: match.index! + match[0].length };
+    if (!best || Math.abs(span.start - near) < Math.abs(best.start - near)) best = span;
+  }
+  return best;
+};
+
+// Where an annotation on the old text lands in the new one; null when it cannot be placed
+export const remapAnnotationSpan = (
+  {
+    oldText,
+    oldMap,
+    newText,
+    newMap,
+  }: { oldText: string; oldMap: NewsOffsetMap | null; newText: string; newMap: NewsOffsetMap },
+  annotation: { start: number; end: number; textSpan: string },
+  oldIsRaw: boolean
+): AnnotationSpan | null => {
+  let mapped: AnnotationSpan | null = null;
+
+  if (oldIsRaw || oldMap) {
+    const rawStart = oldIsRaw ? annotation.start : cleanedToRawOffset(oldMap!, annotation.start, "start");
+    const rawEnd = oldIsRaw ? annotation.end : cleanedToRawOffset(oldMap!, annotation.end, "end");
+    mapped = {
+      start: rawToCleanedOffset(newMap, rawStart, "start"),
+      end: rawToCleanedOffset(newMap, rawEnd, "end"),
+    };
+    if (spanMatches(newText, mapped, annotation.textSpan)) return mapped;
+  }
+
+  // Without a usable map, look near the same relative position
+  const near =
+    mapped?.start ??
+    (oldText.length > 0 ? Math.round((annotation.start / oldText.length) * newText.length) : 0);
+  return findNearestSpan(newText, annotation.textSpan, near);
+};
+
+// Primary subtag of a language tag ("pt-BR" -> "pt"); null when it is not one
+export const normalizeLanguageTag = (value: string | null | undefined): string | null => {
+  const primary = value?.trim().split(/[-_]/)[0].toLowerCase();
+  return primary && /^[a-z]{2,3}$/.test(primary) ? primary : null;
+};
+
+// A declared language wins; otherwise a guess from the text (or the page's own lang attribute)
+export const detectNewsLanguage = ({
+  language,
+  cleanedText,
+  rawText,
+}: {
+  language?: string | null;
+  cleanedText?: string | null;
+  rawText?: string | null;
+}): string | null => {
+  const declared = normalizeLanguageTag(language);
+  if (declared) return declared;
+  if (cleanedText) return detectLanguage(cleanedText);
+  if (rawText && rawText.trim()) return extractArticle(rawText).language;
+  return null;
+};
+
+/**
+ * Extracts cleaned_text from raw_text and stores it with the offset map and
+ * byline; language and publish_date are filled in only when missing. Unless
+ * force is set, articles that already have cleaned_text are left alone, so
+ * the processing pipeline never moves offsets under annotators. A stored
+ * translation is dropped when the text changes.
+ */
+export const cleanNewsText = async (
+  db: any,
+  { orgId, newsId, force = false }: { orgId: string; newsId: string; force?: boolean }
+): Promise<NewsCleaningResult> => {
+  const newsResult = await db.query(
+    `
+    select id, raw_text, cleaned_text, cleaned_offset_map, publish_date
+    from news
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [newsId, orgId]
+  );
+  const news = newsResult.rows[0];
+  if (!news) {
+    throw new Error("news_not_found");
+  }
+
+  const noAnnotations = { total: 0, remapped: 0, unchanged: 0, unmapped: 0 };
+  if (news.cleaned_text && !force) {
+    return {
+      newsId,
+      cleaned: false,
+      length: news.cleaned_text.length,
+      byline: null,
+      language: null,
+      publishDate: news.publish_date ?? null,
+      annotations: noAnnotations,
+    };
+  }
+
+  if (!news.raw_text || !news.raw_text.trim()) {
+    throw new Error("news_text_missing");
+  }
+
+  const article = extractArticle(news.raw_text);
+  if (!article.text) {
+    throw new Error("cleaned_text_empty");
+  }
+
+  const oldIsRaw = !news.cleaned_text;
+  const oldText: string = news.cleaned_text ?? news.raw_text;
+  const oldMap: NewsOffsetMap | null = news.cleaned_offset_map ?? null;
+  const counts = { ...noAnnotations };
+
+  if (oldText !== article.text) {
+    const annotations = await db.query(
+      `
+      select id, start_offset, end_offset, text_span
+      from text_annotations
+      where news_id = $1
+      `,
+      [newsId]
+    );
+    counts.total = annotations.rows.length;
+
+    for (const row of annotations.rows) {
+      const span = remapAnnotationSpan(
+        { oldText, oldMap, newText: article.text, newMap: article.offsetMap },
+        { start: row.start_offset, end: row.end_offset, textSpan: row.text_span },
+        oldIsRaw
+      );
+      if (!span) {
+        counts.unmapped++;
+        continue;
+      }
+      if (span.start === row.start_offset && span.end === row.end_offset) {
+        counts.unchanged++;
+        continue;
+      }
+
+      await db.query(
+        `
+        update text_annotations
+        set start_offset = $2,
+            end_offset = $3,
+            text_span = $4
+        where id = $1
+        `,
+        [row.id, span.start, span.end, article.text.slice(span.start, span.end)]
+      );
+      counts.remapped++;
+    }
+  }
+
+  await db.query(
+    `
+    update news
+    set cleaned_text = $3,
+        cleaned_offset_map = $4,
+        cleaned_at = now(),
+        byline = $5,
+        language = coalesce(language, $6),
+        publish_date = coalesce(publish_date, $7),
+        translated_headline = case when cleaned_text is distinct from $3 then null else translated_headline end,
+        translated_text = case when cleaned_text is distinct from $3 then null else translated_text end,
+        translation_segments = case when cleaned_text is distinct from $3 then null else translation_segments end,
+        translated_by = case when cleaned_text is distinct from $3 then null else translated_by end,
+        translated_at = case when cleaned_text is distinct from $3 then null else translated_at end
+    where id = $1
+      and org_id = $2
+    `,
+    [
+      newsId,
+      orgId,
+      article.text,
+      JSON.stringify(article.offsetMap),
+      article.byline,
+      article.language,
+      article.publishDate,
+    ]
+  );
+
+  return {
+    newsId,
+    cleaned: true,
+    length: article.text.length,
+    byline: article.byline,
+    language: article.language,
+    publishDate: news.publish_date ?? article.publishDate,
+    annotations: counts,
+  };
+};
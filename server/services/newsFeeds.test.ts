@@ -0,0 +1,212 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { NewsFeed, NewsFeedType } from "@shared/schema";
+
+vi.mock("./storyClusters", () => ({ assignStoryCluster: vi.fn(async () => null) }));
+
+// The fixture server builds its URLs from this port when the module loads
+process.env.FEED_FIXTURE_PORT ??= "4311";
+const { createFeedFixtureServer } = await import("../../scripts/feed-fixture-server");
+const { fetchFeedEntries, parseFeed, pollNewsFeed } = await import("./newsFeeds");
+
+const fixtureBase = `http://localhost:${process.env.FEED_FIXTURE_PORT}`;
+
+// Just enough of news, annotation_tasks and news_feeds for pollNewsFeed
+const createFakeDb = () => {
+  const news: Array<{ orgId: string; url: string; canonicalUrl: string; hash: string; headline: string }> = [];
+  const tasks: Array<{ projectId: string; metadata: any }> = [];
+  const polls: Array<{ feedId: string; status: string; error: string | null; created: number }> = [];
+
+  const query = async (sql: string, params: any[] = []) => {
+    if (/^\s*select id\s+from news\b/i.test(sql)) {
+      const [orgId, urls, hash] = params;
+      const found = news.find(
+        (n) => n.orgId === orgId && (urls.includes(n.canonicalUrl) || urls.includes(n.url) || (hash && n.hash === hash))
+      );
+      return { rows: found ? [{ id: "existing" }] : [] };
+    }
+    if (/^\s*insert into news\b/i.test(sql)) {
+      news.push({ orgId: params[0], headline: params[1], url: params[4], canonicalUrl: params[10], hash: params[11] });
+      return { rows: [{ id: `news-${news.length}` }] };
+    }
+    if (/^\s*insert into annotation_tasks\b/i.test(sql)) {
+      tasks.push({ projectId: params[0], metadata: JSON.parse(params[1]) });
+      return { rows: [] };
+    }
+    if (/^\s*update news_feeds\b/i.test(sql)) {
+      polls.push({ feedId: params[0], status: params[1], error: params[2], created: params[3] });
+      return { rows: [] };
+    }
+    throw new Error(`unexpected query: ${sql}`);
+  };
+
+  return { db: { query }, news, tasks, polls };
+};
+
+const feedOf = (feedType: NewsFeedType, path: string, orgId = "org-a"): NewsFeed => ({
+  id: `feed-${feedType}`,
+  orgId,
+  sourceName: "Fixture News",
+  feedType,
+  url: `${fixtureBase}${path}`,
+  pollIntervalMinutes: 60,
+  targetProjectId: "project-1",
+  isActive: true,
+  lastPolledAt: null,
+  lastPollStatus: null,
+  lastPollError: null,
+  lastPollCreated: null,
+  createdBy: "user-1",
+  createdAt: null,
+  updatedAt: null,
+});
+
+describe("news feeds", () => {
+  let fixtureServer: http.Server;
+
+  beforeAll(async () => {
+    fixtureServer = createFeedFixtureServer();
+    await new Promise<void>((resolve) => fixtureServer.listen(Number(process.env.FEED_FIXTURE_PORT), resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => fixtureServer.close(resolve));
+  });
+
+  beforeEach(() => {
+    process.env.NEWS_FEED_ALLOWED_HOSTS = "localhost";
+  });
+
+  afterEach(() => {
+    delete process.env.NEWS_FEED_ALLOWED_HOSTS;
+  });
+
+  describe("parsing", () => {
+    it("reads RSS items with their full bodies", async () => {
+      const entries = await fetchFeedEntries(feedOf("rss", "/rss.xml"));
+      expect(entries).toHaveLength(3);
+      expect(entries[0]).toMatchObject({
+        url: `${fixtureBase}/articles/blackstone-india-fund?utm_source=rss&utm_medium=feed`,
+        title: "Blackstone closes $1.2bn India real estate fund",
+      });
+      expect(entries[0].content).toContain("<p>Blackstone Group L.P. has closed");
+    });
+
+    it("reads Atom entries by their alternate link", async () => {
+      const entries = await fetchFeedEntries(feedOf("atom", "/atom.xml"));
+      expect(entries.map((e) => e.url)).toEqual([
+        `${fixtureBase}/articles/blackstone-india-fund`,
+        `${fixtureBase}/articles/sequoia-leads-series-b`,
+        `${fixtureBase}/articles/kkr-exits-healthco`,
+      ]);
+      expect(entries[1].publishDate).toBe("2026-03-03T11:00:00Z");
+    });
+
+    it("follows a sitemap index to its news sitemap", async () => {
+      const entries = await fetchFeedEntries(feedOf("sitemap", "/sitemap-index.xml"));
+      expect(entries).toHaveLength(4);
+      expect(entries[3].url).toBe(`${fixtureBase}/syndicated/blackstone-india-fund`);
+      expect(entries[0].content).toBeNull();
+    });
+
+    it("goes by the document root when the configured type is wrong", () => {
+      const atom = `<feed><entry><title>T</title><link href="https://example.com/a"/></entry></feed>`;
+      expect(parseFeed(atom, "rss")).toEqual([
+        { url: "https://example.com/a", title: "T", publishDate: null, content: null },
+      ]);
+    });
+  });
+
+  describe("polling", () => {
+    it("creates articles and tasks, then skips them as duplicates", async () => {
+      const { db, news, tasks, polls } = createFakeDb();
+
+      const first = await pollNewsFeed(db, feedOf("rss", "/rss.xml"));
+      expect(first).toEqual({ entries: 3, created: 3, duplicates: 0, failed: 0, tasks: 3 });
+      // Tracking parameters dropped, scheme normalised
+      expect(news.map((n) => n.canonicalUrl)).toEqual(
+        ["blackstone-india-fund", "sequoia-leads-series-b", "kkr-exits-healthco"].map(
+          (slug) => `https://localhost:${process.env.FEED_FIXTURE_PORT}/articles/${slug}`
+        )
+      );
+      expect(tasks[0]).toMatchObject({ projectId: "project-1", metadata: { headline: news[0].headline, news_id: "news-1" } });
+
+      // Same stories by URL, plus a syndicated copy under another path caught by its text
+      const second = await pollNewsFeed(db, feedOf("sitemap", "/sitemap.xml"));
+      expect(second).toEqual({ entries: 4, created: 0, duplicates: 4, failed: 0, tasks: 0 });
+      expect(polls.map((p) => p.status)).toEqual(["ok", "ok"]);
+    });
+
+    it("fetches the article page when the feed only links to it", async () => {
+      const { db, news } = createFakeDb();
+
+      const result = await pollNewsFeed(db, feedOf("atom", "/atom.xml", "org-b"));
+      expect(result.created).toBe(3);
+      expect(news.every((n) => n.orgId === "org-b")).toBe(true);
+    });
+
+    it("records a feed that cannot be fetched", async () => {
+      const { db, polls } = createFakeDb();
+
+      await expect(pollNewsFeed(db, feedOf("rss", "/missing.xml"))).rejects.toThrow(/fetch_failed: 404/);
+      expect(polls).toEqual([expect.objectContaining({ status: "error", created: 0 })]);
+    });
+  });
+
+  describe("fetch limits", () => {
+    let server: http.Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === "/to-private") {
+          res.writeHead(302, { Location: `http://127.0.0.1:${port}/rss.xml` });
+          return res.end();
+        }
+        if (req.url === "/huge") {
+          // No content-length, so only the running byte count can stop it
+          res.writeHead(200, { "Content-Type": "application/xml" });
+          const chunk = "<item>".padEnd(64 * 1024, " ");
+          for (let i = 0; i < 100; i++) res.write(chunk);
+          return res.end();
+        }
+        res.writeHead(200, { "Content-Type": "application/xml" });
+        res.end("<rss><channel></channel></rss>");
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("refuses loopback and private addresses", async () => {
+      delete process.env.NEWS_FEED_ALLOWED_HOSTS;
+      await expect(fetchFeedEntries(feedOf("rss", "/rss.xml"))).rejects.toThrow(/fetch_blocked/);
+      for (const url of [
+        `http://127.0.0.1:${port}/`,
+        `http://[::1]:${port}/`,
+        "http://10.0.0.8/feed.xml",
+        "http://169.254.169.254/latest/meta-data/",
+        "http://192.168.1.1/",
+        "file:///etc/passwd",
+      ]) {
+        await expect(fetchFeedEntries({ url, feedType: "rss" })).rejects.toThrow(/fetch_blocked/);
+      }
+    });
+
+    it("checks redirect targets again", async () => {
+      await expect(fetchFeedEntries({ url: `http://localhost:${port}/to-private`, feedType: "rss" })).rejects.toThrow(
+        /fetch_blocked: 127\.0\.0\.1/
+      );
+    });
+
+    it("stops reading bodies over the size limit", async () => {
+      await expect(fetchFeedEntries({ url: `http://localhost:${port}/huge`, feedType: "rss" })).rejects.toThrow(
+        /fetch_too_large/
+      );
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import type { PipelineRun, PipelineStage, PipelineStageTiming } from "@shared/schema";
+import { LlmError, type LlmResult } from "./llmProviders";
+
+/**
+ * Run records for the news pipeline.
+ *
+ * processNewsJob opens a pipeline_runs row per attempt and times each stage
+ * (fetch, ai, validate, link, draft) through the recorder. The row is written
+ * twice: when the run starts and when it completes or fails, so a crashed
+ * worker leaves a "running" row that the scheduler later closes as abandoned.
+ * Failures keep the stage they happened in and an error class for grouping.
+ */
+
+export interface PipelineRunRecorder {
+  id: string;
+  stage<T>(stage: PipelineStage, fn: () => Promise<T>): Promise<T>;
+  recordLlm(result: LlmResult): void;
+  complete(): Promise<void>;
+  fail(err: unknown): Promise<void>;
+}
+
+const MAX_ERROR_LENGTH = 2000;
+
+const toPipelineRun = (row: any): PipelineRun => ({
+  id: row.id,
+  orgId: row.org_id,
+  newsId: row.news_id,
+  jobId: row.job_id,
+  attempt: row.attempt,
+  status: row.status,
+  stages: row.stages ?? [],
+  failedStage: row.failed_stage,
+  errorClass: row.error_class,
+  errorMessage: row.error_message,
+  llmProvider: row.llm_provider,
+  llmModel: row.llm_model,
+  inputTokens: row.input_tokens,
+  outputTokens: row.output_tokens,
+  durationMs: row.duration_ms,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+});
+
+// Coarse cause of a failure: LLM errors by kind, the snake_case codes services throw, else the error name
+export const classifyPipelineError = (err: unknown): string => {
+  if (err instanceof LlmError) {
+    return err.message.includes("timed out") ? "llm_timeout" : "llm_error";
+  }
+  const error = err as { message?: unknown; code?: unknown; name?: unknown } | null;
+  const message = typeof error?.message === "string" ? error.message : String(err);
+
+  if (message === "ai_failed_validation") return "validation_failed";
+  if (message.startsWith("AI generation is disabled")) return "ai_disabled";
+  if (/^[a-z]+(_[a-z]+)+$/.test(message)) return message;
+  // Postgres errors carry a five-character SQLSTATE
+  if (typeof error?.code === "string" && /^[0-9A-Z]{5}$/.test(error.code)) return "db_error";
+  if (typeof error?.name === "string" && error.name !== "Error") return error.name;
+  return "unknown_error";
+};
+
+/* ===============================
+   RECORDING
+================================ */
+
+export const startPipelineRun = async (
+  db: any,
+  { orgId, newsId, jobId, attempt }: { orgId: string; newsId: string; jobId?: string; attempt?: number }
+): Promise<PipelineRunRecorder> => {
+  const inserted = await db.query(
+    `
+    insert into pipeline_runs (org_id, news_id, job_id, attempt)
+    values ($1, $2, $3, $4)
+    returning id
+    `,
+    [orgId, newsId, jobId ?? null, attempt ?? 1]
+  );
+  const id: string = inserted.rows[0].id;
+
+  const started = Date.now();
+  const stages: PipelineStageTiming[] = [];
+  let failedStage: PipelineStage | null = null;
+  let llm: LlmResult | null = null;
+
+  const finish = async (status: "completed" | "failed", err?: unknown) => {
+    const message = err === undefined ? null : String((err as any)?.message ?? err).slice(0, MAX_ERROR_LENGTH);
+    await db.query(
+      `
+      update pipeline_runs
+      set status = $2,
+          stages = $3,
+          failed_stage = $4,
+          error_class = $5,
+          error_message = $6,
+          llm_provider = $7,
+          llm_model = $8,
+          input_tokens = $9,
+          output_tokens = $10,
+          duration_ms = $11,
+          finished_at = now()
+      where id = $1
+      `,
+      [
+        id,
+        status,
+        JSON.stringify(stages),
+        // A failed optional stage (e.g. draft) does not fail the run
+        status === "failed" ? failedStage : null,
+        err === undefined ? null : classifyPipelineError(err),
+        message,
+        llm?.provider ?? null,
+        llm?.model ?? null,
+        llm?.usage.inputTokens ?? null,
+        llm?.usage.outputTokens ?? null,
+        Date.now() - started,
+      ]
+    );
+  };
+
+  return {
+    id,
+    stage: async (stage, fn) => {
+      const stageStarted = Date.now();
+      const timing: PipelineStageTiming = {
+        stage,
+        status: "completed",
+        duration_ms: 0,
+        started_at: new Date(stageStarted).toISOString(),
+      };
+      stages.push(timing);
+      try {
+        return await fn();
+      } catch (err) {
+        timing.status = "failed";
+        failedStage ??= stage;
+        throw err;
+      } finally {
+        timing.duration_ms = Date.now() - stageStarted;
+      }
+    },
+    recordLlm: (result) => {
+      llm = result;
+    },
+    complete: () => finish("completed"),
+    fail: (err) => finish("failed", err),
+  };
+};
+
+// Times fn as a stage of run, or just runs it outside the pipeline
+export const timeStage = <T>(run: PipelineRunRecorder | undefined, stage: PipelineStage, fn: () => Promise<T>) =>
+  run ? run.stage(stage, fn) : fn();
+
+// Runs left "running" by a worker that died are closed as abandoned
+export const closeAbandonedRuns = async (db: any, olderThanMinutes = 60): Promise<number> => {
+  const result = await db.query(
+    `
+    update pipeline_runs
+    set status = 'failed',
+        error_class = 'abandoned',
+        error_message = 'worker stopped before the run finished',
+        finished_at = now()
+    where status = 'running'
+      and started_at < now() - ($1::int * interval '1 minute')
+    returning id
+    `,
+    [olderThanMinutes]
+  );
+  return result.rows.length;
+};
+
+/* ===============================
+   QUERIES
+================================ */
+
+export const listPipelineRuns = async (
+  db: any,
+  { orgId, newsId, limit }: { orgId: string; newsId?: string; limit: number }
+): Promise<PipelineRun[]> => {
+  const result = await db.query(
+    `
+    select *
+    from pipeline_runs
+    where org_id = $1
+      and ($2::text is null or news_id::text = $2)
+    order by started_at desc
+    limit $3
+    `,
+    [orgId, newsId ?? null, limit]
+  );
+  return result.rows.map(toPipelineRun);
+};
+
+export interface PipelineFailure extends PipelineRun {
+  headline: string | null;
+}
+
+export interface PipelineFailureGroup {
+  errorClass: string;
+  count: number;
+  lastFailedAt: string;
+  stages: Partial<Record<PipelineStage, number>>;
+  failures: PipelineFailure[];
+}
+
+// Articles whose latest run failed within the window, grouped by error class (largest group first)
+export const listPipelineFailureGroups = async (
+  db: any,
+  { orgId, sinceHours, perGroup }: { orgId: string; sinceHours: number; perGroup: number }
+): Promise<PipelineFailureGroup[]> => {
+  const result = await db.query(
+    `
+    select f.*, n.headline
+    from (
+      select distinct on (r.news_id) r.*
+      from pipeline_runs r
+      where r.org_id = $1
+        and r.started_at >= now() - ($2::int * interval '1 hour')
+        and r.status <> 'running'
+      order by r.news_id, r.started_at desc
+    ) f
+    left join news n on n.id::text = f.news_id::text
+    where f.status = 'failed'
+    order by f.finished_at desc
+    `,
+    [orgId, sinceHours]
+  );
+
+  const groups = new Map<string, PipelineFailureGroup>();
+  for (const row of result.rows) {
+    const errorClass: string = row.error_class ?? "unknown_error";
+    let group = groups.get(errorClass);
+    if (!group) {
+      group = { errorClass, count: 0, lastFailedAt: row.finished_at, stages: {}, failures: [] };
+      groups.set(errorClass, group);
+    }
+    group.count++;
+    if (row.failed_stage) {
+      const stage = row.failed_stage as PipelineStage;
+      group.stages[stage] = (group.stages[stage] ?? 0) + 1;
+    }
+    if (group.failures.length < perGroup) {
+      group.failures.push({ ...toPipelineRun(row), headline: row.headline ?? null });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+};
+
+// Articles to re-enqueue: the latest run failed, optionally limited to an error class or ids
+export const findFailedNewsIds = async (
+  db: any,
+  { orgId, errorClass, newsIds }: { orgId: string; errorClass?: string; newsIds?: string[] }
+): Promise<string[]> => {
+  const result = await db.query(
+    `
+    select f.news_id
+    from (
+      select distinct on (r.news_id) r.news_id, r.status, r.error_class
+      from pipeline_runs r
+      where r.org_id = $1
+        and r.status <> 'running'
+      order by r.news_id, r.started_at desc
+    ) f
+    where f.status = 'failed'
+      and ($2::text is null or coalesce(f.error_class, 'unknown_error') = $2)
+      and ($3::text[] is null or f.news_id::text = any($3))
+    `,
+    [orgId, errorClass ?? null, newsIds ?? null]
+  );
+  return result.rows.map((r: any) => String(r.news_id));
+};
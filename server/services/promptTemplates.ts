@@ -0,0 +1,308 @@
+import {
+  promptTemplateVariables,
+  type PromptTemplate,
+  type PromptTemplateKey,
+  type PromptTemplateVariable,
+} from "@shared/schema";
+
+/**
+ * Prompt template store.
+ *
+ * Templates are plain text with {{variable}} placeholders. Every save creates
+ * a new version for the org; the org's active version is used for generation
+ * and, when none is active, the built-in template below applies. The label
+ * returned by resolvePromptTemplate (e.g. "news_extraction:v3") is stored on
+ * each ai_outputs row so outputs can be traced back to their prompt.
+ */
+
+export interface ResolvedPromptTemplate {
+  id: string | null;
+  key: PromptTemplateKey;
+  version: number | null;
+  label: string;
+  template: string;
+}
+
+export type PromptVariables = Record<PromptTemplateVariable, string>;
+
+/* ===============================
+   BUILT-IN TEMPLATES
+================================ */
+
+const BUILTIN_VERSION_LABEL = "builtin";
+
+const BUILTIN_TEMPLATES: Record<PromptTemplateKey, string> = {
+  news_extraction: `
+You are a private markets research analyst.
+
+Analyze the following news article and extract ONLY factual information.
+Do NOT guess. Do NOT hallucinate.
+
+Return output strictly in valid JSON matching this schema:
+
+{
+  "deal_detected": boolean,
+  "deal_type": "fundraise" | "investment" | "acquisition" | "exit" | null,
+  "entities": {
+    "general_partners": string[],
+    "funds": string[],
+    "portfolio_companies": string[],
+    "limited_partners": string[],
+    "service_providers": string[]
+  },
+  "amounts": {
+    "value": number | null,
+    "currency": string | null
+  },
+  "geography": {
+    "country": string | null,
+    "city": string | null
+  },
+  "dates": {
+    "announcement_date": string | null
+  },
+  "confidence_score": number,
+  "reasoning": string
+}
+
+Rules:
+- If no deal is present, set deal_detected=false and keep fields null/empty
+- Use ISO date format (YYYY-MM-DD)
+- confidence_score must be between 0 and 100
+- reasoning must be max 2 sentences
+- Articles not written in English are given in English translation; write entity names as they appear in the text
+
+ARTICLE LANGUAGE: {{language}}
+
+NEWS HEADLINE:
+{{headline}}
+
+NEWS BODY:
+{{raw_text}}
+`,
+};
+
+/* ===============================
+   RENDERING
+================================ */
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+const isTemplateVariable = (name: string): name is PromptTemplateVariable =>
+  (promptTemplateVariables as readonly string[]).includes(name);
+
+// Placeholders that are not known variables; these would render as empty text
+export const findUnknownVariables = (template: string): string[] => {
+  const unknown = new Set<string>();
+  for (const match of Array.from(template.matchAll(PLACEHOLDER))) {
+    if (!isTemplateVariable(match[1])) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+};
+
+export const renderPromptTemplate = (template: string, variables: PromptVariables) =>
+  template.replace(PLACEHOLDER, (_, name: string) => (isTemplateVariable(name) ? variables[name] : ""));
+
+export const loadNewsPromptVariables = async (
+  db: any,
+  orgId: string,
+  newsId: string
+): Promise<PromptVariables> => {
+  const result = await db.query(
+    `
+    select
+      n.headline,
+      coalesce(n.cleaned_text, n.raw_text) as article_text,
+      n.language,
+      n.translated_headline,
+      n.translated_text,
+      n.source_name,
+      n.publish_date,
+      o.name as org_name,
+      o.sector_taxonomy
+    from news n
+    join organizations o on o.id = n.org_id
+    where n.id = $1
+      and n.org_id = $2
+    limit 1
+    `,
+    [newsId, orgId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error("news_not_found");
+  }
+
+  const row = result.rows[0];
+  const sectors: string[] = row.sector_taxonomy ?? [];
+  return {
+    // Non-English articles are prompted with their English translation when there is one
+    headline: row.translated_headline ?? row.headline ?? "",
+    // {{raw_text}} predates cleaned_text; it gets the cleaned article when there is one
+    raw_text: row.translated_text ?? row.article_text ?? "",
+    original_text: row.article_text ?? "",
+    language: row.language ?? "unknown",
+    source_name: row.source_name ?? "",
+    publish_date: row.publish_date ?? "",
+    org_name: row.org_name ?? "",
+    sector_taxonomy: sectors.length > 0 ? sectors.join(", ") : "(none configured)",
+  };
+};
+
+/* ===============================
+   STORE
+================================ */
+
+const toPromptTemplate = (row: any): PromptTemplate => ({
+  id: row.id,
+  orgId: row.org_id,
+  key: row.key,
+  version: row.version,
+  template: row.template,
+  description: row.description,
+  isActive: row.is_active,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+});
+
+const versionLabel = (key: PromptTemplateKey, version: number | null) =>
+  `${key}:${version === null ? BUILTIN_VERSION_LABEL : `v${version}`}`;
+
+export const getBuiltinPromptTemplate = (key: PromptTemplateKey): ResolvedPromptTemplate => ({
+  id: null,
+  key,
+  version: null,
+  label: versionLabel(key, null),
+  template: BUILTIN_TEMPLATES[key],
+});
+
+export const resolvePromptTemplate = async (
+  db: any,
+  orgId: string,
+  key: PromptTemplateKey
+): Promise<ResolvedPromptTemplate> => {
+  const result = await db.query(
+    `
+    select *
+    from prompt_templates
+    where org_id = $1
+      and key = $2
+      and is_active
+    limit 1
+    `,
+    [orgId, key]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return getBuiltinPromptTemplate(key);
+  }
+  return {
+    id: row.id,
+    key,
+    version: row.version,
+    label: versionLabel(key, row.version),
+    template: row.template,
+  };
+};
+
+export const getPromptTemplate = async (db: any, orgId: string, id: string): Promise<PromptTemplate | null> => {
+  const result = await db.query(
+    `
+    select *
+    from prompt_templates
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [id, orgId]
+  );
+  return result.rows[0] ? toPromptTemplate(result.rows[0]) : null;
+};
+
+export const listPromptTemplates = async (
+  db: any,
+  orgId: string,
+  key?: PromptTemplateKey
+): Promise<PromptTemplate[]> => {
+  const result = await db.query(
+    `
+    select *
+    from prompt_templates
+    where org_id = $1
+      and ($2::text is null or key = $2)
+    order by key asc, version desc
+    `,
+    [orgId, key ?? null]
+  );
+  return result.rows.map(toPromptTemplate);
+};
+
+// Returns to the built-in template for this key
+export const deactivatePromptTemplates = async (db: any, orgId: string, key: PromptTemplateKey) => {
+  await db.query(
+    `
+    update prompt_templates
+    set is_active = false
+    where org_id = $1
+      and key = $2
+    `,
+    [orgId, key]
+  );
+};
+
+// Only one version per (org, key) may be active
+export const activatePromptTemplate = async (db: any, orgId: string, id: string): Promise<PromptTemplate | null> => {
+  const target = await getPromptTemplate(db, orgId, id);
+  if (!target) return null;
+
+  // Two statements so the one-active-version index never sees two active rows
+  await deactivatePromptTemplates(db, orgId, target.key);
+  await db.query(
+    `
+    update prompt_templates
+    set is_active = true
+    where id = $1
+      and org_id = $2
+    `,
+    [id, orgId]
+  );
+  return { ...target, isActive: true };
+};
+
+export const createPromptTemplateVersion = async (
+  db: any,
+  {
+    orgId,
+    key,
+    template,
+    description,
+    activate,
+    userId,
+  }: {
+    orgId: string;
+    key: PromptTemplateKey;
+    template: string;
+    description?: string;
+    activate?: boolean;
+    userId?: string;
+  }
+): Promise<PromptTemplate> => {
+  const result = await db.query(
+    `
+    insert into prompt_templates (org_id, key, version, template, description, created_by)
+    select $1, $2, coalesce(max(version), 0) + 1, $3, $4, $5
+    from prompt_templates
+    where org_id = $1
+      and key = $2
+    returning *
+    `,
+    [orgId, key, template, description ?? null, userId ?? null]
+  );
+
+  const created = toPromptTemplate(result.rows[0]);
+  if (activate) {
+    return (await activatePromptTemplate(db, orgId, created.id)) ?? created;
+  }
+  return created;
+};
@@ -0,0 +1,207 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import type { Permission, User } from "@shared/schema";
+
+/**
+ * Signed session tokens.
+ *
+ * Access tokens are short-lived HS256 JWTs carrying the user id and the id of
+ * the backing user_sessions row. Refresh tokens are opaque random strings; only
+ * their hash is stored, and each refresh rotates it. Revoking the session row
+ * (logout, deactivation) invalidates both.
+ */
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+function resolveSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET environment variable is required");
+  }
+  console.warn("[session] SESSION_SECRET not set; using a per-process secret (tokens reset on restart)");
+  return randomBytes(32).toString("hex");
+}
+
+const SESSION_SECRET = resolveSecret();
+
+export interface AuthenticatedUser {
+  userId: string;
+  orgId: string;
+  role: string;
+  isSuperAdmin: boolean;
+  // Set for interactive logins
+  sessionId?: string;
+  // Set for API key requests; scopes replace role-based permissions
+  apiKeyId?: string;
+  scopes?: Permission[];
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+interface AccessTokenClaims {
+  sub: string;
+  sid: string;
+  iat: number;
+  exp: number;
+}
+
+/* -------------------------------
+   Token encoding helpers
+-------------------------------- */
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", SESSION_SECRET).update(data).digest("base64url");
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function signAccessToken(userId: string, sessionId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const claims: AccessTokenClaims = {
+    sub: userId,
+    sid: sessionId,
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+  };
+  const payload = base64url(JSON.stringify(claims));
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+function verifyAccessToken(token: string): AccessTokenClaims {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new Error("TOKEN_INVALID");
+  }
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error("TOKEN_INVALID");
+  }
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("TOKEN_INVALID");
+  }
+  if (!claims.sub || !claims.sid || typeof claims.exp !== "number") {
+    throw new Error("TOKEN_INVALID");
+  }
+  if (claims.exp <= Math.floor(Date.now() / 1000)) {
+    throw new Error("TOKEN_EXPIRED");
+  }
+  return claims;
+}
+
+// Refresh tokens are "<sessionId>.<secret>" so the row can be found without scanning hashes
+function buildRefreshToken(sessionId: string): { token: string; hash: string } {
+  const token = `${sessionId}.${randomBytes(32).toString("base64url")}`;
+  return { token, hash: hashToken(token) };
+}
+
+/* -------------------------------
+   Public API
+-------------------------------- */
+export async function issueSession(user: User, userAgent?: string | null): Promise<SessionTokens> {
+  const session = await storage.createSession({
+    userId: user.id,
+    orgId: user.orgId,
+    // Placeholder until the id is known; replaced immediately below
+    refreshTokenHash: "",
+    userAgent: userAgent ?? null,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  const refresh = buildRefreshToken(session.id);
+  await storage.updateSession(session.id, { refreshTokenHash: refresh.hash });
+
+  return {
+    accessToken: signAccessToken(user.id, session.id),
+    refreshToken: refresh.token,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+export async function refreshSession(refreshToken: string): Promise<SessionTokens> {
+  const sessionId = refreshToken.split(".")[0];
+  const session = sessionId ? await storage.getSession(sessionId) : undefined;
+  if (!session) {
+    throw new Error("TOKEN_INVALID");
+  }
+  if (session.revokedAt) {
+    throw new Error("SESSION_REVOKED");
+  }
+  if (session.expiresAt <= new Date()) {
+    throw new Error("TOKEN_EXPIRED");
+  }
+
+  // A valid-looking token with a stale hash means an old refresh token was replayed
+  if (hashToken(refreshToken) !== session.refreshTokenHash) {
+    await storage.revokeSession(session.id, "refresh_token_reuse");
+    throw new Error("SESSION_REVOKED");
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (!user || !user.isActive) {
+    await storage.revokeSession(session.id, "user_inactive");
+    throw new Error("SESSION_REVOKED");
+  }
+
+  const refresh = buildRefreshToken(session.id);
+  await storage.updateSession(session.id, {
+    refreshTokenHash: refresh.hash,
+    lastUsedAt: new Date(),
+  });
+
+  return {
+    accessToken: signAccessToken(user.id, session.id),
+    refreshToken: refresh.token,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+export async function resolveAccessToken(accessToken: string): Promise<AuthenticatedUser> {
+  const claims = verifyAccessToken(accessToken);
+
+  const session = await storage.getSession(claims.sid);
+  if (!session || session.userId !== claims.sub) {
+    throw new Error("TOKEN_INVALID");
+  }
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    throw new Error("SESSION_REVOKED");
+  }
+
+  const user = await storage.getUser(claims.sub);
+  if (!user || !user.isActive) {
+    throw new Error("SESSION_REVOKED");
+  }
+
+  return {
+    userId: user.id,
+    orgId: user.orgId,
+    role: user.role,
+    isSuperAdmin: user.role === "super_admin",
+    sessionId: session.id,
+  };
+}
+
+export async function revokeSession(sessionId: string, reason = "logout"): Promise<void> {
+  await storage.revokeSession(sessionId, reason);
+}
+
+export async function revokeUserSessions(userId: string, reason: string): Promise<void> {
+  await storage.revokeUserSessions(userId, reason);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { computeMinHash, estimateJaccard, headlineSimilarity, isNearDuplicate } from "./storyClusters";
+
+const ARTICLE = `Blackstone has agreed to acquire a majority stake in Horizon Logistics, a Pune-based
+warehousing operator, for about $450 million, according to people familiar with the matter. The deal
+values the company at roughly $700 million including debt. Horizon runs 40 warehouses across western
+India and serves e-commerce and pharmaceutical clients. The founders will retain a minority stake and
+continue to run the business. Kotak Investment Banking advised Horizon on the transaction, which is
+expected to close in the third quarter subject to regulatory approvals.`;
+
+// The same wire story picked up with a new intro and a trimmed last sentence
+const SYNDICATED = `MUMBAI (Reuters) - Blackstone has agreed to acquire a majority stake in Horizon Logistics, a Pune-based
+warehousing operator, for about $450 million, according to people familiar with the matter. The deal
+values the company at roughly $700 million including debt. Horizon runs 40 warehouses across western
+India and serves e-commerce and pharmaceutical clients. The founders will retain a minority stake and
+continue to run the business. Kotak Investment Banking advised Horizon on the transaction.`;
+
+const UNRELATED = `Sequoia-backed fintech Jupiter has raised $86 million in a Series C round led by Tiger Global,
+the company said on Tuesday. The Bengaluru startup offers a mobile banking app built on partner bank
+accounts and plans to use the money to launch credit products and hire engineers. Existing investors
+Matrix Partners and Nubank also took part in the round, which values Jupiter at about $711 million.`;
+
+const similarity = (a: string, b: string) => estimateJaccard(computeMinHash(a)!, computeMinHash(b)!);
+
+describe("computeMinHash", () => {
+  it("gives the same text the same signature", () => {
+    const signature = computeMinHash(ARTICLE);
+    expect(signature).toHaveLength(64);
+    expect(computeMinHash(ARTICLE)).toEqual(signature);
+  });
+
+  it("ignores case, accents and punctuation", () => {
+    expect(similarity(ARTICLE, ARTICLE.toUpperCase().replace(/,/g, ""))).toBe(1);
+    expect(similarity("Société Générale " + ARTICLE, "Societe Generale " + ARTICLE)).toBe(1);
+  });
+
+  it("skips text too short to fingerprint", () => {
+    expect(computeMinHash("Read more")).toBeNull();
+    expect(computeMinHash("")).toBeNull();
+  });
+});
+
+describe("isNearDuplicate", () => {
+  it("matches a syndicated copy with small edits", () => {
+    const jaccard = similarity(ARTICLE, SYNDICATED);
+    expect(jaccard).toBeGreaterThanOrEqual(0.6);
+    expect(isNearDuplicate(jaccard, 0)).toBe(true);
+  });
+
+  it("does not match a distinct story", () => {
+    const jaccard = similarity(ARTICLE, UNRELATED);
+    expect(jaccard).toBeLessThan(0.3);
+    expect(
+      isNearDuplicate(jaccard, headlineSimilarity("Blackstone to buy Horizon Logistics", "Jupiter raises $86 million"))
+    ).toBe(false);
+  });
+
+  it("needs a similar headline for moderate overlap", () => {
+    const headline = headlineSimilarity(
+      "Blackstone to buy majority of Horizon Logistics for $450 million",
+      "Blackstone buys Horizon Logistics stake in $450 million deal"
+    );
+    expect(headline).toBeGreaterThanOrEqual(0.5);
+    expect(isNearDuplicate(0.4, headline)).toBe(true);
+    expect(isNearDuplicate(0.4, 0.2)).toBe(false);
+    expect(isNearDuplicate(0.2, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,777 @@
+import type { LinkableEntityType, NewsItemMetadata } from "@shared/schema";
+import { upsertEntityLink } from "./entityLinks";
+import { findNearestSpan } from "./newsCleaning";
+
+/**
+ * Near-duplicate detection and story clusters.
+ *
+ * Each article gets a MinHash signature over word shingles of its cleaned
+ * text. Signatures are split into LSH bands stored in news.minhash_bands, so
+ * candidate duplicates come from one indexed array-overlap query. A candidate
+ * is a duplicate when the estimated Jaccard similarity is high, or moderate
+ * with a similar headline (press releases picked up with a new intro).
+ *
+ * Duplicates share a story_clusters row with one canonical article. Pending
+ * annotation tasks of the siblings are put on hold ("duplicate"), and the
+ * canonical article's task tags, text annotations and confirmed entity links
+ * are copied to the siblings when it is annotated.
+ */
+
+export interface StoryClusterAssignment {
+  clusterId: string | null;
+  canonicalNewsId: string | null;
+  similarity: number | null;
+  // False when the article is the canonical one or has no duplicates
+  isSibling: boolean;
+}
+
+export interface StoryClusterArticle {
+  id: string;
+  headline: string | null;
+  sourceName: string | null;
+  url: string | null;
+  publishDate: string | null;
+  similarity: number | null;
+  isCanonical: boolean;
+  taskStatus: string | null;
+}
+
+export interface StoryClusterDetail {
+  id: string;
+  canonicalNewsId: string;
+  createdAt: string;
+  updatedAt: string;
+  articles: StoryClusterArticle[];
+}
+
+export interface ClusterPropagationResult {
+  siblings: number;
+  annotations: number;
+  unplaced: number;
+  tasks: number;
+  entityLinks: number;
+}
+
+const SHINGLE_WORDS = 4;
+const SHINGLE_CHARS = 5;
+const NUM_HASHES = 64;
+// Stubs such as paywall teasers are too short to fingerprint reliably
+const MIN_SHINGLES = 10;
+// 32 bands of 2 rows: articles with ~30% overlap still share a band
+const BAND_ROWS = 2;
+const DUPLICATE_JACCARD = 0.6;
+const HEADLINE_ASSISTED_JACCARD = 0.3;
+const HEADLINE_MATCH = 0.5;
+const MAX_CANDIDATES = 50;
+
+// Task metadata copied from the canonical article to its siblings
+const PROPAGATED_TAGS: (keyof NewsItemMetadata)[] = [
+  "relevance_status",
+  "relevance_notes",
+  "firm_type",
+  "event_type",
+  "asset_class",
+  "action_type",
+  "tagged_entities",
+  "created_entities",
+];
+
+/* ===============================
+   SIGNATURES
+================================ */
+
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// MurmurHash3 finalizer; with a per-function seed it gives independent hash functions
+const fmix32 = (value: number) => {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b9)));
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[\s.,;:!?"'()[\]{}<>\/\\|@#$%^&*_+=~`\u2013\u2014\u2018\u2019\u201c\u201d\u2026-]+/)
+    .filter(Boolean);
+
+// Word shingles, or character shingles for scripts written without spaces
+const shingles = (text: string): Set<string> => {
+  const words = tokenize(text);
+  const compact = words.join("");
+  const result = new Set<string>();
+
+  if (words.length >= SHINGLE_WORDS * 2 && compact.length / words.length < 20) {
+    for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+      result.add(words.slice(i, i + SHINGLE_WORDS).join(" "));
+    }
+  } else {
+    for (let i = 0; i + SHINGLE_CHARS <= compact.length; i++) {
+      result.add(compact.slice(i, i + SHINGLE_CHARS));
+    }
+  }
+  return result;
+};
+
+export const computeMinHash = (text: string): number[] | null => {
+  const hashes = Array.from(shingles(text), fnv1a);
+  if (hashes.length < MIN_SHINGLES) return null;
+  return SEEDS.map((seed) => {
+    let min = 0xffffffff;
+    for (const hash of hashes) {
+      const value = fmix32(hash ^ seed);
+      if (value < min) min = value;
+    }
+    return min;
+  });
+};
+
+export const minHashBands = (signature: number[]): string[] => {
+  const bands: string[] = [];
+  for (let band = 0; band * BAND_ROWS < signature.length; band++) {
+    const rows = signature.slice(band * BAND_ROWS, (band + 1) * BAND_ROWS);
+    bands.push(`${band}:${rows.map((r) => r.toString(16)).join(".")}`);
+  }
+  return bands;
+};
+
+export const estimateJaccard = (a: number[], b: number[]) => {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let same = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / length;
+};
+
+const HEADLINE_STOPWORDS = new Set(["the", "and", "for", "with", "from", "into", "its", "has", "after", "over"]);
+
+// Dice overlap of headline words, ignoring short and filler words
+export const headlineSimilarity = (a: string | null, b: string | null) => {
+  const words = (text: string | null) =>
+    new Set(tokenize(text ?? "").filter((w) => w.length > 2 && !HEADLINE_STOPWORDS.has(w)));
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = Array.from(left).filter((w) => right.has(w)).length;
+  return (2 * shared) / (left.size + right.size);
+};
+
+export const isNearDuplicate = (jaccard: number, headlineScore: number) =>
+  jaccard >= DUPLICATE_JACCARD || (jaccard >= HEADLINE_ASSISTED_JACCARD && headlineScore >= HEADLINE_MATCH);
+
+/* ===============================
+   CLUSTERING
+================================ */
+
+const createCluster = async (db: any, orgId: string, canonicalNewsId: string): Promise<string> => {
+  const result = await db.query(
+    `
+    insert into story_clusters (org_id, canonical_news_id)
+    values ($1, $2)
+    returning id
+    `,
+    [orgId, canonicalNewsId]
+  );
+  const clusterId = result.rows[0].id;
+
+  await db.query(
+    `
+    update news
+    set cluster_id = $2,
+        cluster_similarity = 100
+    where id = $1
+    `,
+    [canonicalNewsId, clusterId]
+  );
+  return clusterId;
+};
+
+// Takes the sibling's unstarted tasks off the annotators' queue
+const holdSiblingTasks = async (
+  db: any,
+  { orgId, newsId, clusterId, canonicalNewsId }: { orgId: string; newsId: string; clusterId: string; canonicalNewsId: string }
+) => {
+  await db.query(
+    `
+    update annotation_tasks t
+    set status = 'duplicate',
+        metadata = coalesce(t.metadata, '{}'::jsonb) || jsonb_build_object(
+          'cluster_id', $2::text,
+          'duplicate_of_news_id', $3::text
+        )
+    from label_projects p
+    where p.id = t.project_id
+      and p.org_id = $4
+      and t.metadata->>'news_id' = $1
+      and t.status = 'pending'
+    `,
+    [newsId, clusterId, canonicalNewsId, orgId]
+  );
+};
+
+const releaseTasks = async (db: any, orgId: string, newsId: string) => {
+  const tags = PROPAGATED_TAGS.map((tag) => `'${tag}'`).join(", ");
+  await db.query(
+    `
+    update annotation_tasks t
+    set status = case
+          when t.status = 'duplicate' or t.metadata ? 'propagated_from_news_id' then 'pending'
+          else t.status
+        end,
+        metadata = case
+          when t.metadata ? 'propagated_from_news_id'
+            then t.metadata - array[${tags}, 'propagated_from_news_id', 'cluster_id', 'duplicate_of_news_id']
+          else t.metadata - array['cluster_id', 'duplicate_of_news_id']
+        end
+    from label_projects p
+    where p.id = t.project_id
+      and p.org_id = $2
+      and t.metadata->>'news_id' = $1
+      and (t.status = 'duplicate' or t.metadata ? 'cluster_id')
+    `,
+    [newsId, orgId]
+  );
+};
+
+/**
+ * Fingerprints an article and adds it to the cluster of its closest near
+ * duplicate, creating the cluster when that article had none. Articles are
+ * fingerprinted once; later calls return the stored assignment.
+ */
+export const assignStoryCluster = async (
+  db: any,
+  { orgId, newsId }: { orgId: string; newsId: string }
+): Promise<StoryClusterAssignment> => {
+  const newsResult = await db.query(
+    `
+    select
+      n.id,
+      n.headline,
+      coalesce(n.cleaned_text, n.raw_text) as article_text,
+      n.minhash,
+      n.cluster_id,
+      n.cluster_similarity,
+      c.canonical_news_id
+    from news n
+    left join story_clusters c on c.id = n.cluster_id
+    where n.id = $1
+      and n.org_id = $2
+    limit 1
+    `,
+    [newsId, orgId]
+  );
+  const news = newsResult.rows[0];
+  if (!news) {
+    throw new Error("news_not_found");
+  }
+
+  const current: StoryClusterAssignment = {
+    clusterId: news.cluster_id ?? null,
+    canonicalNewsId: news.canonical_news_id ?? null,
+    similarity: news.cluster_similarity ?? null,
+    isSibling: !!news.cluster_id && news.canonical_news_id !== newsId,
+  };
+  if (news.minhash) return current;
+
+  const signature = computeMinHash(`${news.headline ?? ""}\n${news.article_text ?? ""}`);
+  if (!signature) return current;
+  const bands = minHashBands(signature);
+
+  await db.query(
+    `
+    update news
+    set minhash = $2,
+        minhash_bands = $3
+    where id = $1
+    `,
+    [newsId, JSON.stringify(signature), bands]
+  );
+
+  const candidates = await db.query(
+    `
+    select id, headline, minhash, cluster_id
+    from news
+    where org_id = $1
+      and id <> $2
+      and minhash_bands && $3::text[]
+    order by created_at asc
+    limit ${MAX_CANDIDATES}
+    `,
+    [orgId, newsId, bands]
+  );
+
+  let best: { id: string; clusterId: string | null; jaccard: number } | null = null;
+  for (const row of candidates.rows) {
+    if (!row.minhash) continue;
+    const jaccard = estimateJaccard(signature, row.minhash);
+    if (!isNearDuplicate(jaccard, headlineSimilarity(news.headline, row.headline))) continue;
+    if (!best || jaccard > best.jaccard) best = { id: row.id, clusterId: row.cluster_id, jaccard };
+  }
+  if (!best) return current;
+
+  const clusterId = best.clusterId ?? (await createCluster(db, orgId, best.id));
+  const similarity = Math.round(best.jaccard * 100);
+
+  await db.query(
+    `
+    update news
+    set cluster_id = $2,
+        cluster_similarity = $3
+    where id = $1
+    `,
+    [newsId, clusterId, similarity]
+  );
+  await db.query(`update story_clusters set updated_at = now() where id = $1`, [clusterId]);
+
+  const cluster = await db.query(`select canonical_news_id from story_clusters where id = $1`, [clusterId]);
+  const canonicalNewsId = cluster.rows[0].canonical_news_id;
+  await holdSiblingTasks(db, { orgId, newsId, clusterId, canonicalNewsId });
+  await propagateClusterAnnotations(db, { orgId, clusterId });
+
+  return { clusterId, canonicalNewsId, similarity, isSibling: true };
+};
+
+/* ===============================
+   PROPAGATION
+================================ */
+
+const getCluster = async (db: any, orgId: string, clusterId: string) => {
+  const result = await db.query(
+    `
+    select *
+    from story_clusters
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [clusterId, orgId]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Copies the canonical article's work to every sibling: task tags (and the
+ * completed status) onto sibling tasks that are on hold or were filled this
+ * way before, text annotations re-anchored on the sibling's text, and LINKED
+ * entity links. Re-running replaces what earlier runs copied.
+ */
+export const propagateClusterAnnotations = async (
+  db: any,
+  { orgId, clusterId }: { orgId: string; clusterId: string }
+): Promise<ClusterPropagationResult> => {
+  const cluster = await getCluster(db, orgId, clusterId);
+  if (!cluster) {
+    throw new Error("story_cluster_not_found");
+  }
+  const canonicalNewsId: string = cluster.canonical_news_id;
+  const result: ClusterPropagationResult = { siblings: 0, annotations: 0, unplaced: 0, tasks: 0, entityLinks: 0 };
+
+  const [canonical, siblings, taskResult, annotations, links] = await Promise.all([
+    db.query(`select coalesce(cleaned_text, raw_text) as article_text from news where id = $1 and org_id = $2`, [
+      canonicalNewsId,
+      orgId,
+    ]),
+    db.query(
+      `
+      select id, coalesce(cleaned_text, raw_text) as article_text
+      from news
+      where cluster_id = $1
+        and org_id = $2
+        and id <> $3
+      `,
+      [clusterId, orgId, canonicalNewsId]
+    ),
+    // The finished task if there is one, else the most recent
+    db.query(
+      `
+      select t.status, t.metadata
+      from annotation_tasks t
+      join label_projects p on p.id = t.project_id
+      where p.org_id = $2
+        and t.metadata->>'news_id' = $1
+      order by (t.status = 'completed') desc, t.created_at desc
+      limit 1
+      `,
+      [canonicalNewsId, orgId]
+    ),
+    db.query(
+      `
+      select *
+      from text_annotations
+      where news_id = $1
+        and org_id = $2
+        and propagated_from is null
+      order by start_offset asc
+      `,
+      [canonicalNewsId, orgId]
+    ),
+    db.query(
+      `
+      select *
+      from entity_links
+      where org_id::text = $1
+        and source_type = 'news'
+        and source_id::text = $2
+        and status = 'LINKED'
+      `,
+      [orgId, canonicalNewsId]
+    ),
+  ]);
+
+  const canonicalText: string = canonical.rows[0]?.article_text ?? "";
+  const canonicalTask = taskResult.rows[0] ?? null;
+  const tags: Record<string, unknown> = { propagated_from_news_id: canonicalNewsId };
+  for (const tag of PROPAGATED_TAGS) {
+    if (canonicalTask?.metadata?.[tag] !== undefined) tags[tag] = canonicalTask.metadata[tag];
+  }
+
+  for (const sibling of siblings.rows) {
+    result.siblings++;
+    const siblingText: string = sibling.article_text ?? "";
+
+    await db.query(
+      `delete from text_annotations where news_id = $1 and org_id = $2 and propagated_from is not null`,
+      [sibling.id, orgId]
+    );
+    for (const annotation of annotations.rows) {
+      const near =
+        canonicalText.length > 0
+          ? Math.round((annotation.start_offset / canonicalText.length) * siblingText.length)
+          : 0;
+      const span = findNearestSpan(siblingText, annotation.text_span, near);
+      if (!span) {
+        result.unplaced++;
+        continue;
+      }
+      await db.query(
+        `
+        insert into text_annotations (
+          news_id, entity_type, start_offset, end_offset, text_span, confidence, org_id, created_by, propagated_from
+        )
+        values ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        `,
+        [
+          sibling.id,
+          annotation.entity_type,
+          span.start,
+          span.end,
+          siblingText.slice(span.start, span.end),
+          annotation.confidence,
+          orgId,
+          annotation.created_by,
+          annotation.id,
+        ]
+      );
+      result.annotations++;
+    }
+
+    if (canonicalTask) {
+      const updated = await db.query(
+        `
+        update annotation_tasks t
+        set metadata = coalesce(t.metadata, '{}'::jsonb) || $2::jsonb,
+            status = case when $3 = 'completed' then 'completed' else t.status end
+        from label_projects p
+        where p.id = t.project_id
+          and p.org_id = $4
+          and t.metadata->>'news_id' = $1
+          and (t.status = 'duplicate' or t.metadata ? 'propagated_from_news_id')
+        `,
+        [sibling.id, JSON.stringify(tags), canonicalTask.status, orgId]
+      );
+      result.tasks += updated.rowCount ?? 0;
+    }
+
+    for (const link of links.rows) {
+      await upsertEntityLink(db, {
+        orgId,
+        sourceType: "news",
+        sourceId: sibling.id,
+        entityType: link.entity_type as LinkableEntityType,
+        entityId: String(link.entity_id),
+        linkSource: "rule",
+        matchType: "rule",
+        confidence: link.confidence_score ?? 100,
+        status: "LINKED",
+        mention: link.mention,
+      });
+      result.entityLinks++;
+    }
+  }
+
+  // The scheduler sweep looks for completed canonical articles that were not propagated yet
+  await db.query(
+    `
+    update story_clusters
+    set propagated_at = case when $2 = 'completed' then now() else null end
+    where id = $1
+    `,
+    [clusterId, canonicalTask?.status ?? null]
+  );
+
+  return result;
+};
+
+// Propagates from the cluster the article is canonical for; no-op for other articles
+export const propagateFromNews = async (
+  db: any,
+  { orgId, newsId }: { orgId: string; newsId: string }
+): Promise<ClusterPropagationResult | null> => {
+  const result = await db.query(
+    `
+    select id
+    from story_clusters
+    where org_id = $1
+      and canonical_news_id = $2
+    limit 1
+    `,
+    [orgId, newsId]
+  );
+  if (result.rows.length === 0) return null;
+  return propagateClusterAnnotations(db, { orgId, clusterId: result.rows[0].id });
+};
+
+/**
+ * Clusters across all orgs whose canonical article has a completed task that
+ * was not copied yet, e.g. because the task was completed from the client
+ * without going through the API.
+ */
+export const listClustersDueForPropagation = async (db: any, limit = 50) => {
+  const result = await db.query(
+    `
+    select c.org_id, c.canonical_news_id
+    from story_clusters c
+    where c.propagated_at is null
+      and exists (
+        select 1
+        from annotation_tasks t
+        join label_projects p on p.id = t.project_id
+        where p.org_id = c.org_id
+          and t.metadata->>'news_id' = c.canonical_news_id::text
+          and t.status = 'completed'
+      )
+    order by c.updated_at asc
+    limit $1
+    `,
+    [limit]
+  );
+  return result.rows.map((row: any) => ({ orgId: row.org_id as string, newsId: row.canonical_news_id as string }));
+};
+
+/* ===============================
+   QUERIES & EDITS
+================================ */
+
+export const listStoryClusters = async (
+  db: any,
+  { orgId, limit, offset }: { orgId: string; limit: number; offset: number }
+) => {
+  const result = await db.query(
+    `
+    select
+      c.id,
+      c.canonical_news_id,
+      c.created_at,
+      c.updated_at,
+      cn.headline,
+      count(n.id)::int as article_count,
+      array_agg(distinct n.source_name) filter (where n.source_name is not null) as sources,
+      count(*) over () as total
+    from story_clusters c
+    join news cn on cn.id = c.canonical_news_id
+    join news n on n.cluster_id = c.id
+    where c.org_id = $1
+    group by c.id, cn.headline
+    having count(n.id) > 1
+    order by c.updated_at desc
+    limit $2 offset $3
+    `,
+    [orgId, limit, offset]
+  );
+
+  return {
+    items: result.rows.map((row: any) => ({
+      id: row.id,
+      canonicalNewsId: row.canonical_news_id,
+      headline: row.headline,
+      articleCount: row.article_count,
+      sources: row.sources ?? [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    })),
+    total: result.rows.length > 0 ? Number(result.rows[0].total) : 0,
+  };
+};
+
+export const getStoryCluster = async (db: any, orgId: string, clusterId: string): Promise<StoryClusterDetail | null> => {
+  const cluster = await getCluster(db, orgId, clusterId);
+  if (!cluster) return null;
+
+  const articles = await db.query(
+    `
+    select
+      n.id,
+      n.headline,
+      n.source_name,
+      n.url,
+      n.publish_date,
+      n.cluster_similarity,
+      (
+        select t.status
+        from annotation_tasks t
+        where t.metadata->>'news_id' = n.id::text
+        order by t.created_at desc
+        limit 1
+      ) as task_status
+    from news n
+    where n.cluster_id = $1
+      and n.org_id = $2
+    order by (n.id = $3) desc, n.created_at asc
+    `,
+    [clusterId, orgId, cluster.canonical_news_id]
+  );
+
+  return {
+    id: cluster.id,
+    canonicalNewsId: cluster.canonical_news_id,
+    createdAt: cluster.created_at,
+    updatedAt: cluster.updated_at,
+    articles: articles.rows.map((row: any) => ({
+      id: row.id,
+      headline: row.headline,
+      sourceName: row.source_name,
+      url: row.url,
+      publishDate: row.publish_date,
+      similarity: row.cluster_similarity,
+      isCanonical: row.id === cluster.canonical_news_id,
+      taskStatus: row.task_status ?? null,
+    })),
+  };
+};
+
+export const getNewsStoryCluster = async (db: any, orgId: string, newsId: string) => {
+  const result = await db.query(
+    `
+    select cluster_id
+    from news
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [newsId, orgId]
+  );
+  const clusterId = result.rows[0]?.cluster_id;
+  return clusterId ? getStoryCluster(db, orgId, clusterId) : null;
+};
+
+const requireMember = async (db: any, orgId: string, clusterId: string, newsId: string) => {
+  const cluster = await getCluster(db, orgId, clusterId);
+  if (!cluster) {
+    throw new Error("story_cluster_not_found");
+  }
+  const member = await db.query(`select id from news where id = $1 and cluster_id = $2`, [newsId, clusterId]);
+  if (member.rows.length === 0) {
+    throw new Error("news_not_in_cluster");
+  }
+  return cluster;
+};
+
+// The new canonical article's held tasks go back to the queue; the old one's pending tasks are held
+export const setClusterCanonical = async (
+  db: any,
+  { orgId, clusterId, newsId }: { orgId: string; clusterId: string; newsId: string }
+) => {
+  const cluster = await requireMember(db, orgId, clusterId, newsId);
+  const previous: string = cluster.canonical_news_id;
+  if (previous === newsId) return getStoryCluster(db, orgId, clusterId);
+
+  await db.query(
+    `
+    update story_clusters
+    set canonical_news_id = $2,
+        propagated_at = null,
+        updated_at = now()
+    where id = $1
+    `,
+    [clusterId, newsId]
+  );
+  await releaseTasks(db, orgId, newsId);
+  await holdSiblingTasks(db, { orgId, newsId: previous, clusterId, canonicalNewsId: newsId });
+  return getStoryCluster(db, orgId, clusterId);
+};
+
+/**
+ * Takes a wrongly clustered article out: its held tasks return to the queue
+ * without the copied tags, and copied text annotations are removed. Detaching
+ * the canonical article promotes the oldest remaining one.
+ */
+export const detachFromCluster = async (
+  db: any,
+  { orgId, clusterId, newsId }: { orgId: string; clusterId: string; newsId: string }
+) => {
+  const cluster = await requireMember(db, orgId, clusterId, newsId);
+
+  await db.query(
+    `
+    update news
+    set cluster_id = null,
+        cluster_similarity = null
+    where id = $1
+    `,
+    [newsId]
+  );
+  await db.query(
+    `delete from text_annotations where news_id = $1 and org_id = $2 and propagated_from is not null`,
+    [newsId, orgId]
+  );
+  await releaseTasks(db, orgId, newsId);
+
+  if (cluster.canonical_news_id === newsId) {
+    const next = await db.query(
+      `
+      select id
+      from news
+      where cluster_id = $1
+      order by created_at asc
+      limit 1
+      `,
+      [clusterId]
+    );
+    if (next.rows.length === 0) {
+      await db.query(`delete from story_clusters where id = $1`, [clusterId]);
+      return null;
+    }
+    await db.query(
+      `
+      update story_clusters
+      set canonical_news_id = $2,
+          propagated_at = null,
+          updated_at = now()
+      where id = $1
+      `,
+      [clusterId, next.rows[0].id]
+    );
+    await releaseTasks(db, orgId, next.rows[0].id);
+  } else {
+    await db.query(`update story_clusters set updated_at = now() where id = $1`, [clusterId]);
+  }
+
+  return getStoryCluster(db, orgId, clusterId);
+};
@@ -0,0 +1,275 @@
+import type { ZodTypeAny } from "zod";
+import {
+  imageAnnotationDataSchema,
+  transcriptionAnnotationDataSchema,
+  translationAnnotationDataSchema,
+  videoAnnotationDataSchema,
+  type AnnotationType,
+  type CreateMediaTasksInput,
+  type ImageAnnotationData,
+  type MediaTaskMetadata,
+  type TranscriptionAnnotationData,
+  type VideoAnnotationData,
+} from "@shared/schema";
+import { flagTaskLabels } from "./labelSchemas";
+
+/**
+ * Structured annotations on label project tasks.
+ *
+ * Image, video, audio and translation tasks keep their work in the
+ * annotations table, one row per task and annotation type, with the
+ * type-specific payload in data. Labeling pages save the whole payload on
+ * every change (autosave); the updated_at they last loaded is sent back, and
+ * a save is refused when another session stored a newer version in between.
+ * Labels are checked against the project's label schema on every save
+ * (./labelSchemas).
+ */
+
+export interface AnnotationTaskInfo {
+  id: string;
+  project_id: string;
+  project_name: string;
+  label_type: string;
+  status: string;
+  assigned_to: string | null;
+  metadata: MediaTaskMetadata & Record<string, unknown>;
+}
+
+export interface TaskAnnotation {
+  id: string;
+  type: AnnotationType;
+  data: unknown;
+  labels: string[];
+  confidence_score: number | null;
+  created_by: string | null;
+  // Text form of the timestamp, compared verbatim on the next save
+  updated_at: string;
+}
+
+// Payload validation per annotation type; types without an entry are not stored yet
+const annotationDataSchemas: Partial<Record<AnnotationType, ZodTypeAny>> = {
+  image: imageAnnotationDataSchema,
+  video: videoAnnotationDataSchema,
+  transcription: transcriptionAnnotationDataSchema,
+  translation: translationAnnotationDataSchema,
+};
+
+const labelsOf: Partial<Record<AnnotationType, (data: any) => string[]>> = {
+  image: (data: ImageAnnotationData) => data.shapes.map((shape) => shape.label),
+  video: (data: VideoAnnotationData) => [
+    ...data.segments.map((segment) => segment.label),
+    ...data.tracks.map((track) => track.label),
+  ],
+  transcription: (data: TranscriptionAnnotationData) => data.speakers,
+};
+
+const toTaskAnnotation = (row: any): TaskAnnotation => ({
+  id: row.id,
+  type: row.type,
+  data: row.data,
+  labels: row.labels ?? [],
+  confidence_score: row.confidence_score,
+  created_by: row.created_by,
+  updated_at: row.updated_at,
+});
+
+export const parseAnnotationData = (type: AnnotationType, data: unknown) => {
+  const schema = annotationDataSchemas[type];
+  if (!schema) {
+    throw new Error("unsupported_annotation_type");
+  }
+  return schema.safeParse(data);
+};
+
+/* ===============================
+   TASKS
+================================ */
+
+export const getAnnotationTask = async (
+  db: any,
+  orgId: string,
+  taskId: string
+): Promise<AnnotationTaskInfo | null> => {
+  const result = await db.query(
+    `
+    select
+      t.id,
+      t.project_id,
+      p.name as project_name,
+      p.label_type,
+      t.status,
+      t.assigned_to,
+      t.metadata
+    from annotation_tasks t
+    join label_projects p on p.id = t.project_id
+    where t.id = $1
+      and p.org_id = $2
+    limit 1
+    `,
+    [taskId, orgId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  return { ...row, metadata: row.metadata ?? {} };
+};
+
+/**
+ * Creates tasks for media URLs (or texts to translate) in a non-news label
+ * project: one task per item and assignee, or one unassigned task per item
+ * (the same rule as the news upload).
+ */
+export const createMediaTasks = async (
+  db: any,
+  { orgId, projectId, items, sourceLanguage, targetLanguage, assignees }: {
+    orgId: string;
+    projectId: string;
+    items: CreateMediaTasksInput["items"];
+    sourceLanguage?: string;
+    targetLanguage?: string;
+    assignees: string[];
+  }
+) => {
+  const projectResult = await db.query(
+    `
+    select id, project_category
+    from label_projects
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [projectId, orgId]
+  );
+  const project = projectResult.rows[0];
+  if (!project) {
+    throw new Error("project_not_found");
+  }
+  if (project.project_category === "news") {
+    throw new Error("news_project");
+  }
+
+  const taskAssignees = assignees.length > 0 ? assignees : [null];
+  let created = 0;
+  for (const item of items) {
+    const metadata: MediaTaskMetadata = item.source_text
+      ? {
+          title: item.title || undefined,
+          source_text: item.source_text,
+          source_language: sourceLanguage,
+          target_language: targetLanguage,
+        }
+      : { title: item.title || undefined, input_url: item.input_url };
+    for (const assigneeId of taskAssignees) {
+      await db.query(
+        `
+        insert into annotation_tasks (project_id, status, metadata, assigned_to)
+        values ($1, 'pending', $2, $3)
+        `,
+        [projectId, JSON.stringify(metadata), assigneeId]
+      );
+      created++;
+    }
+  }
+
+  return { items: items.length, tasks: created };
+};
+
+/* ===============================
+   ANNOTATIONS
+================================ */
+
+export const getTaskAnnotation = async (
+  db: any,
+  { orgId, taskId, type }: { orgId: string; taskId: string; type: AnnotationType }
+) => {
+  const task = await getAnnotationTask(db, orgId, taskId);
+  if (!task) return null;
+
+  const result = await db.query(
+    `
+    select id, type, data, labels, confidence_score, created_by, updated_at::text as updated_at
+    from annotations
+    where annotation_task_id = $1
+      and type = $2
+      and org_id = $3
+    limit 1
+    `,
+    [taskId, type, orgId]
+  );
+
+  return { task, annotation: result.rows[0] ? toTaskAnnotation(result.rows[0]) : null };
+};
+
+/**
+ * Stores the task's annotation of the given type, replacing the previous
+ * payload. When baseUpdatedAt is given the save only applies if the stored
+ * row is still that version (null: there is no row yet); otherwise
+ * annotation_conflict is thrown and nothing changes. data must already be
+ * validated.
+ */
+export const saveTaskAnnotation = async (
+  db: any,
+  {
+    orgId,
+    taskId,
+    userId,
+    type,
+    data,
+    confidenceScore,
+    baseUpdatedAt,
+  }: {
+    orgId: string;
+    taskId: string;
+    userId?: string;
+    type: AnnotationType;
+    data: unknown;
+    confidenceScore?: number | null;
+    baseUpdatedAt?: string | null;
+  }
+): Promise<TaskAnnotation> => {
+  const task = await getAnnotationTask(db, orgId, taskId);
+  if (!task) {
+    throw new Error("annotation_task_not_found");
+  }
+
+  const labels = Array.from(new Set(labelsOf[type]?.(data) ?? []));
+  const result = await db.query(
+    `
+    insert into annotations (
+      org_id,
+      annotation_task_id,
+      type,
+      data,
+      labels,
+      confidence_score,
+      created_by,
+      updated_at
+    )
+    values ($1, $2, $3, $4, $5, $6, $7, now())
+    on conflict (annotation_task_id, type) do update
+    set data = excluded.data,
+        labels = excluded.labels,
+        confidence_score = coalesce(excluded.confidence_score, annotations.confidence_score),
+        updated_at = now()
+    where not $9::boolean
+       or annotations.updated_at = $8::timestamp
+    returning id, type, data, labels, confidence_score, created_by, updated_at::text as updated_at
+    `,
+    [
+      orgId,
+      taskId,
+      type,
+      JSON.stringify(data),
+      JSON.stringify(labels),
+      confidenceScore ?? null,
+      userId ?? null,
+      baseUpdatedAt ?? null,
+      baseUpdatedAt !== undefined,
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error("annotation_conflict");
+  }
+  await flagTaskLabels(db, { orgId, task, type, data });
+  return toTaskAnnotation(result.rows[0]);
+};
@@ -0,0 +1,317 @@
+import {
+  translatorNames,
+  type NewsTranslationSegment,
+  type TranslatorName,
+} from "@shared/schema";
+import { completeWithRetry, recordLlmUsage, resolveLlmProvider } from "./llmProviders";
+import { detectNewsLanguage } from "./newsCleaning";
+
+/**
+ * Machine translation of non-English news into English.
+ *
+ * The article is split into paragraphs and each paragraph is translated on
+ * its own, so the two versions can be shown side by side and every
+ * translated paragraph points back at its range in the original text.
+ * Annotators keep working on the original: text_annotations offsets always
+ * refer to cleaned_text (else raw_text), never to the translation.
+ *
+ * Translators are chosen by TRANSLATOR (llm | stub). The llm translator uses
+ * the org's LLM provider; the stub marks each paragraph instead of
+ * translating it and is the default under AI_MODE=fixture, for offline dev
+ * and tests.
+ */
+
+export const TARGET_LANGUAGE = "en";
+
+export interface TranslationRequest {
+  db: any;
+  orgId: string;
+  newsId: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Paragraphs in order; the result has one entry per input entry
+  segments: string[];
+}
+
+export interface Translator {
+  name: TranslatorName;
+  translate(request: TranslationRequest): Promise<{ segments: string[]; model: string }>;
+}
+
+export interface NewsTranslationResult {
+  newsId: string;
+  translated: boolean;
+  // Why nothing was translated: already English, unknown language or already done
+  skipped?: "target_language" | "language_unknown" | "already_translated";
+  language: string | null;
+  translatedBy: string | null;
+}
+
+// Keeps each LLM call well inside the model's output limit
+const MAX_BATCH_CHARS = 6000;
+
+/* ===============================
+   SEGMENTS
+================================ */
+
+export interface TextParagraph {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Paragraphs separated by blank lines (cleaned_text layout), else by single newlines
+export const splitParagraphs = (text: string): TextParagraph[] => {
+  const separator = /\n\s*\n/.test(text) ? /\n\s*\n/g : /\n/g;
+  const paragraphs: TextParagraph[] = [];
+  let cursor = 0;
+
+  const push = (start: number, end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) paragraphs.push({ start: start + leading, end: start + leading + trimmed.length, text: trimmed });
+  };
+
+  for (const match of Array.from(text.matchAll(separator))) {
+    push(cursor, match.index!);
+    cursor = match.index! + match[0].length;
+  }
+  push(cursor, text.length);
+  return paragraphs;
+};
+
+// Joins translated paragraphs with blank lines and records where each one landed
+export const assembleTranslation = (
+  paragraphs: TextParagraph[],
+  translated: string[]
+): { text: string; segments: NewsTranslationSegment[] } => {
+  let text = "";
+  const segments: NewsTranslationSegment[] = [];
+  paragraphs.forEach((paragraph, i) => {
+    if (text) text += "\n\n";
+    const target = translated[i].trim();
+    segments.push([paragraph.start, paragraph.end, text.length, text.length + target.length]);
+    text += target;
+  });
+  return { text, segments };
+};
+
+/* ===============================
+   TRANSLATORS
+================================ */
+
+const createLlmTranslator = (): Translator => ({
+  name: "llm",
+  async translate({ db, orgId, newsId, sourceLanguage, targetLanguage, segments }) {
+    if (process.env.AI_MODE === "off") {
+      throw new Error("AI generation is disabled (AI_MODE=off)");
+    }
+    const provider = await resolveLlmProvider(db, orgId);
+    const output: string[] = [];
+
+    // Batches of whole paragraphs, each answered as a JSON array of the same length
+    let batch: string[] = [];
+    let batchChars = 0;
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const prompt = `
+Translate each string in the JSON array below from ${sourceLanguage} to ${targetLanguage}.
+Keep names of people, companies, funds and places as they are usually written in ${targetLanguage}.
+Keep numbers, amounts and dates exactly. Do not add or drop sentences.
+
+Return valid JSON of the form {"segments": string[]} with exactly ${batch.length} entries, in the same order.
+
+${JSON.stringify(batch)}
+`;
+      const result = await completeWithRetry(provider, { prompt, json: true });
+      await recordLlmUsage(db, { orgId, purpose: "news_translation", sourceId: newsId, result });
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(result.text.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+      } catch {
+        throw new Error("translation_invalid_response");
+      }
+      const translated = (parsed as { segments?: unknown })?.segments;
+      if (!Array.isArray(translated) || translated.length !== batch.length) {
+        throw new Error("translation_segment_mismatch");
+      }
+      output.push(...translated.map((t) => String(t ?? "")));
+      batch = [];
+      batchChars = 0;
+    };
+
+    for (const segment of segments) {
+      if (batch.length > 0 && batchChars + segment.length > MAX_BATCH_CHARS) await flush();
+      batch.push(segment);
+      batchChars += segment.length;
+    }
+    await flush();
+
+    return { segments: output, model: provider.model };
+  },
+});
+
+// Deterministic stand-in: tags each paragraph with the language pair
+const createStubTranslator = (): Translator => ({
+  name: "stub",
+  async translate({ sourceLanguage, targetLanguage, segments }) {
+    return {
+      segments: segments.map((segment) => `[${sourceLanguage}→${targetLanguage}] ${segment}`),
+      model: "stub-v1",
+    };
+  },
+});
+
+const translatorFactories: Record<TranslatorName, () => Translator> = {
+  llm: createLlmTranslator,
+  stub: createStubTranslator,
+};
+
+const isTranslatorName = (value: unknown): value is TranslatorName =>
+  typeof value === "string" && (translatorNames as readonly string[]).includes(value);
+
+export const resolveTranslator = (): Translator => {
+  const configured = process.env.TRANSLATOR;
+  if (isTranslatorName(configured)) return translatorFactories[configured]();
+  return translatorFactories[process.env.AI_MODE === "fixture" ? "stub" : "llm"]();
+};
+
+/* ===============================
+   NEWS
+================================ */
+
+/**
+ * Translates a non-English article (headline and text) into English and
+ * stores it next to the original. The language is detected first when it is
+ * not known yet. Unless force is set, an existing translation is kept;
+ * cleanNewsText clears it whenever the original text changes.
+ */
+export const translateNews = async (
+  db: any,
+  { orgId, newsId, force = false }: { orgId: string; newsId: string; force?: boolean }
+): Promise<NewsTranslationResult> => {
+  const newsResult = await db.query(
+    `
+    select id, headline, raw_text, cleaned_text, language, translated_text, translated_by
+    from news
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [newsId, orgId]
+  );
+  const news = newsResult.rows[0];
+  if (!news) {
+    throw new Error("news_not_found");
+  }
+
+  const original: string = news.cleaned_text ?? news.raw_text ?? "";
+  let language: string | null = news.language;
+  if (!language) {
+    language = detectNewsLanguage({ cleanedText: news.cleaned_text, rawText: news.raw_text });
+    if (language) {
+      await db.query(`update news set language = $3 where id = $1 and org_id = $2`, [newsId, orgId, language]);
+    }
+  }
+
+  const skip = (skipped: NewsTranslationResult["skipped"]): NewsTranslationResult => ({
+    newsId,
+    translated: false,
+    skipped,
+    language,
+    translatedBy: news.translated_by ?? null,
+  });
+  if (!language) return skip("language_unknown");
+  if (language === TARGET_LANGUAGE) return skip("target_language");
+  if (news.translated_text && !force) return skip("already_translated");
+
+  const paragraphs = splitParagraphs(original);
+  if (paragraphs.length === 0) {
+    throw new Error("news_text_missing");
+  }
+
+  const translator = resolveTranslator();
+  const headline: string = news.headline ?? "";
+  const result = await translator.translate({
+    db,
+    orgId,
+    newsId,
+    sourceLanguage: language,
+    targetLanguage: TARGET_LANGUAGE,
+    // The headline rides along as the first segment
+    segments: [headline, ...paragraphs.map((p) => p.text)],
+  });
+  const [translatedHeadline, ...translatedParagraphs] = result.segments;
+  const { text, segments } = assembleTranslation(paragraphs, translatedParagraphs);
+  const translatedBy = `${translator.name}:${result.model}`;
+
+  await db.query(
+    `
+    update news
+    set translated_headline = $3,
+        translated_text = $4,
+        translation_segments = $5,
+        translated_by = $6,
+        translated_at = now()
+    where id = $1
+      and org_id = $2
+    `,
+    [newsId, orgId, headline ? translatedHeadline.trim() : null, text, JSON.stringify(segments), translatedBy]
+  );
+
+  return { newsId, translated: true, language, translatedBy };
+};
+
+// Both versions of the article, with the annotations tagged on the original
+export const getNewsTranslation = async (db: any, orgId: string, newsId: string) => {
+  const newsResult = await db.query(
+    `
+    select
+      id,
+      headline,
+      coalesce(cleaned_text, raw_text) as original_text,
+      language,
+      translated_headline,
+      translated_text,
+      translation_segments,
+      translated_by,
+      translated_at
+    from news
+    where id = $1
+      and org_id = $2
+    limit 1
+    `,
+    [newsId, orgId]
+  );
+  const news = newsResult.rows[0];
+  if (!news) return null;
+
+  const annotations = await db.query(
+    `
+    select id, entity_type, start_offset, end_offset, text_span
+    from text_annotations
+    where news_id = $1
+    order by start_offset asc
+    `,
+    [newsId]
+  );
+
+  return {
+    news_id: news.id,
+    language: news.language,
+    target_language: TARGET_LANGUAGE,
+    original: { headline: news.headline, text: news.original_text ?? "" },
+    translation: news.translated_text
+      ? {
+          headline: news.translated_headline,
+          text: news.translated_text,
+          segments: (news.translation_segments ?? []) as NewsTranslationSegment[],
+          translated_by: news.translated_by,
+          translated_at: news.translated_at,
+        }
+      : null,
+    annotations: annotations.rows,
+  };
+};
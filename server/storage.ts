@@ -1,6 +1,8 @@
 import {
   type Organization, type InsertOrganization,
   type User, type InsertUser,
+  type UserSession, type InsertUserSession,
+  type ApiKey, type InsertApiKey,
   type Firm, type InsertFirm,
   type Contact, type InsertContact,
   type Fund, type InsertFund,
@@ -19,6 +21,8 @@ import {
   type EntityDeal, type InsertEntityDeal,
   organizations,
   users,
+  userSessions,
+  apiKeys,
   firms,
   contacts,
   funds,
@@ -32,7 +36,7 @@ import {
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 
 export interface IStorage {
   getOrganizations(): Promise<Organization[]>;
@@ -56,6 +60,18 @@ export interface IStorage {
   rejectUser(id: string, approvedById: string): Promise<User | undefined>;
   deleteUser(id: string): Promise<boolean>;
 
+  createSession(session: InsertUserSession): Promise<UserSession>;
+  getSession(id: string): Promise<UserSession | undefined>;
+  updateSession(id: string, session: Partial<InsertUserSession>): Promise<UserSession | undefined>;
+  revokeSession(id: string, reason: string): Promise<void>;
+  revokeUserSessions(userId: string, reason: string): Promise<void>;
+
+  getApiKeys(orgId: string): Promise<ApiKey[]>;
+  getApiKey(id: string, orgId: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  updateApiKey(id: string, orgId: string, apiKey: Partial<InsertApiKey>): Promise<ApiKey | undefined>;
+
   getFirms(orgId: string): Promise<Firm[]>;
   getFirm(id: string, orgId: string): Promise<Firm | undefined>;
   createFirm(firm: InsertFirm & { orgId: string }): Promise<Firm>;
@@ -164,6 +180,8 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private organizations: Map<string, Organization>;
   private users: Map<string, User>;
+  private sessions: Map<string, UserSession>;
+  private apiKeys: Map<string, ApiKey>;
   private firms: Map<string, Firm>;
   private contacts: Map<string, Contact>;
   private funds: Map<string, Fund>;
@@ -177,6 +195,8 @@ export class MemStorage implements IStorage {
   constructor() {
     this.organizations = new Map();
     this.users = new Map();
+    this.sessions = new Map();
+    this.apiKeys = new Map();
     this.firms = new Map();
     this.contacts = new Map();
     this.funds = new Map();
@@ -521,6 +541,87 @@ export class MemStorage implements IStorage {
     return this.users.delete(id);
   }
 
+  async createSession(insertSession: InsertUserSession): Promise<UserSession> {
+    const id = insertSession.id || randomUUID();
+    const session: UserSession = {
+      userAgent: null,
+      revokedAt: null,
+      revokedReason: null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+      ...insertSession,
+      id,
+    };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  async getSession(id: string): Promise<UserSession | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async updateSession(id: string, updates: Partial<InsertUserSession>): Promise<UserSession | undefined> {
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+    const updated = { ...session, ...updates };
+    this.sessions.set(id, updated);
+    return updated;
+  }
+
+  async revokeSession(id: string, reason: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session && !session.revokedAt) {
+      this.sessions.set(id, { ...session, revokedAt: new Date(), revokedReason: reason });
+    }
+  }
+
+  async revokeUserSessions(userId: string, reason: string): Promise<void> {
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.userId === userId && !session.revokedAt) {
+        this.sessions.set(session.id, { ...session, revokedAt: new Date(), revokedReason: reason });
+      }
+    }
+  }
+
+  async getApiKeys(orgId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values()).filter(k => k.orgId === orgId);
+  }
+
+  async getApiKey(id: string, orgId: string): Promise<ApiKey | undefined> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey || apiKey.orgId !== orgId) return undefined;
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(k => k.keyHash === keyHash);
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const id = insertApiKey.id || randomUUID();
+    const apiKey: ApiKey = {
+      scopes: [],
+      rateLimitPerMinute: 60,
+      createdBy: null,
+      createdAt: new Date(),
+      rotatedAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+      ...insertApiKey,
+      id,
+    };
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+
+  async updateApiKey(id: string, orgId: string, updates: Partial<InsertApiKey>): Promise<ApiKey | undefined> {
+    const apiKey = await this.getApiKey(id, orgId);
+    if (!apiKey) return undefined;
+    const updated = { ...apiKey, ...updates };
+    this.apiKeys.set(id, updated);
+    return updated;
+  }
+
   async getFirms(orgId: string): Promise<Firm[]> {
     return Array.from(this.firms.values()).filter(f => f.orgId === orgId);
   }
@@ -830,6 +931,7 @@ export class MemStorage implements IStorage {
     const annotation: Annotation = { 
       id,
       taskId: null,
+      annotationTaskId: null,
       data: null,
       labels: [],
       entities: null,
@@ -838,6 +940,7 @@ export class MemStorage implements IStorage {
       reviewedBy: null,
       reviewStatus: null,
       reviewNotes: null,
+      updatedAt: new Date(),
       ...insertAnnotation,
     };
     this.annotations.set(id, annotation);
@@ -1140,6 +1243,65 @@ export class DatabaseStorage extends MemStorage {
     return result.length > 0;
   }
 
+  async createSession(insertSession: InsertUserSession): Promise<UserSession> {
+    const result = await db.insert(userSessions).values(insertSession).returning();
+    return result[0];
+  }
+
+  async getSession(id: string): Promise<UserSession | undefined> {
+    const result = await db.select().from(userSessions).where(eq(userSessions.id, id));
+    return result[0];
+  }
+
+  async updateSession(id: string, updates: Partial<InsertUserSession>): Promise<UserSession | undefined> {
+    const result = await db.update(userSessions)
+      .set(updates)
+      .where(eq(userSessions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async revokeSession(id: string, reason: string): Promise<void> {
+    await db.update(userSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(userSessions.id, id), isNull(userSessions.revokedAt)));
+  }
+
+  async revokeUserSessions(userId: string, reason: string): Promise<void> {
+    await db.update(userSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(userSessions.userId, userId), isNull(userSessions.revokedAt)));
+  }
+
+  async getApiKeys(orgId: string): Promise<ApiKey[]> {
+    return await db.select().from(apiKeys).where(eq(apiKeys.orgId, orgId));
+  }
+
+  async getApiKey(id: string, orgId: string): Promise<ApiKey | undefined> {
+    const result = await db.select().from(apiKeys).where(
+      and(eq(apiKeys.id, id), eq(apiKeys.orgId, orgId))
+    );
+    return result[0];
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const result = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return result[0];
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const result = await db.insert(apiKeys).values(insertApiKey).returning();
+    return result[0];
+  }
+
+  async updateApiKey(id: string, orgId: string, updates: Partial<InsertApiKey>): Promise<ApiKey | undefined> {
+    const result = await db.update(apiKeys)
+      .set(updates)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.orgId, orgId)))
+      .returning();
+    return result[0];
+  }
+
   async getFirms(orgId: string): Promise<Firm[]> {
     return await db.select().from(firms).where(eq(firms.orgId, orgId));
   }
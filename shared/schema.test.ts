@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { dealDraftFieldsSchema } from "./schema";
+
+describe("ISO dates", () => {
+  const check = (announcement_date: string) => dealDraftFieldsSchema.safeParse({ announcement_date }).success;
+
+  it("accepts real calendar days", () => {
+    expect(check("2024-02-29")).toBe(true);
+    expect(check("2023-12-31")).toBe(true);
+  });
+
+  it("rejects days that do not exist", () => {
+    expect(check("2024-02-30")).toBe(false);
+    expect(check("2023-02-29")).toBe(false);
+    expect(check("2023-04-31")).toBe(false);
+    expect(check("2023-13-01")).toBe(false);
+    expect(check("2023-00-10")).toBe(false);
+  });
+
+  it("rejects other formats", () => {
+    expect(check("2023-1-5")).toBe(false);
+    expect(check("2023-01-05T10:00:00Z")).toBe(false);
+  });
+});
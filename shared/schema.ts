@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, jsonb, index, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, jsonb, index, uniqueIndex, numeric } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -33,6 +33,10 @@ export type OrgType = typeof orgTypes[number];
 export const orgStatuses = ["active", "inactive", "pending"] as const;
 export type OrgStatus = typeof orgStatuses[number];
 
+// LLM backends for AI generation (server/services/llmProviders.ts). "fixture" returns canned output offline.
+export const llmProviderNames = ["gemini", "openai", "fixture"] as const;
+export type LlmProviderName = typeof llmProviderNames[number];
+
 export const sourceTypes = [
   "Website",
   "Regulatory Filing",
@@ -59,6 +63,10 @@ export const organizations = pgTable("organizations", {
   name: text("name").notNull(),
   orgType: text("org_type").$type<OrgType>().default("client"),
   status: text("status").$type<OrgStatus>().default("active"),
+  // Null uses the deployment default (AI_PROVIDER)
+  aiProvider: text("ai_provider").$type<LlmProviderName>(),
+  // Sectors the org tracks, exposed to prompt templates as {{sector_taxonomy}}
+  sectorTaxonomy: text("sector_taxonomy").array(),
   createdAt: timestamp("created_at").defaultNow(),
   createdBy: varchar("created_by"),
 });
@@ -89,6 +97,48 @@ export const users = pgTable("users", {
   index("users_org_id_idx").on(table.orgId),
 ]);
 
+// Server-issued login sessions. Each row backs one refresh token; access tokens carry the
+// session id so revoking the row (logout, deactivation) invalidates both.
+export const userSessions = pgTable("user_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull(),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: text("revoked_reason"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("user_sessions_user_id_idx").on(table.userId),
+]);
+
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = typeof userSessions.$inferInsert;
+
+// Org-level API keys for machine clients. Only the SHA-256 of the key is stored; keyPrefix is
+// the non-secret head shown in the admin UI so keys can be told apart.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<Permission[]>().notNull().default([]),
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  rotatedAt: timestamp("rotated_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => [
+  index("api_keys_org_id_idx").on(table.orgId),
+]);
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+
 export const projectCategories = ["general", "news", "research", "training"] as const;
 export type ProjectCategory = typeof projectCategories[number];
 
@@ -99,35 +149,39 @@ export const labelProjects = pgTable("label_projects", {
   projectCategory: text("project_category").notNull().$type<ProjectCategory>().default("general"),
   orgId: varchar("org_id").references(() => organizations.id).notNull(),
   workContext: text("work_context").notNull().$type<WorkContext>().default("internal"),
+  // Current label schema; null (version 0) until a manager first edits the defaults
+  labelSchema: jsonb("label_schema").$type<LabelSchema>(),
+  labelSchemaVersion: integer("label_schema_version").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("label_projects_org_id_idx").on(table.orgId),
 ]);
 
-export const annotationTaskStatuses = ["pending", "in_progress", "review", "completed"] as const;
+// Every saved version of a project's label schema, with the class remapping
+// that was applied to existing annotations when it was saved
+export const labelSchemaVersions = pgTable("label_schema_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  projectId: varchar("project_id").references(() => labelProjects.id).notNull(),
+  version: integer("version").notNull(),
+  schema: jsonb("schema").$type<LabelSchema>().notNull(),
+  remap: jsonb("remap").$type<Record<string, string>>().notNull().default({}),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("label_schema_versions_project_version_idx").on(table.projectId, table.version),
+]);
+
+export type LabelSchemaVersion = typeof labelSchemaVersions.$inferSelect;
+
+// "duplicate" tasks belong to a syndicated copy of a story and take their tags
+// from the cluster's canonical article (server/services/storyClusters.ts)
+export const annotationTaskStatuses = ["pending", "in_progress", "review", "completed", "duplicate"] as const;
 export type AnnotationTaskStatus = typeof annotationTaskStatuses[number];
 
 export const relevanceStatuses = ["relevant", "not_relevant"] as const;
 export type RelevanceStatus = typeof relevanceStatuses[number];
 
-export const newsFirmTypes = [
-  "gp_pe", "gp_vc", "lp", "fund", "portfolio_company", 
-  "service_provider", "bank_trustee", "regulator", "startup", "corporate"
-] as const;
-export type NewsFirmType = typeof newsFirmTypes[number];
-
-export const newsEventTypes = [
-  "fundraise", "investment", "exit", "mna", "leadership_change",
-  "regulatory_update", "product_launch", "partnership", "financial_results", "litigation"
-] as const;
-export type NewsEventType = typeof newsEventTypes[number];
-
-export const newsAssetClasses = [
-  "private_equity", "venture_capital", "private_debt", "infrastructure",
-  "real_assets", "hedge_funds", "public_markets", "esg"
-] as const;
-export type NewsAssetClass = typeof newsAssetClasses[number];
-
 export const newsActionTypes = [
   "add_new_profile", "update_existing_profile", "no_new_information"
 ] as const;
@@ -149,12 +203,20 @@ export interface NewsItemMetadata {
   news_id?: string;  // FK to news table for entity linking
   relevance_status?: RelevanceStatus;
   relevance_notes?: string;
-  firm_type?: NewsFirmType[];
-  event_type?: NewsEventType[];
-  asset_class?: NewsAssetClass[];
+  // Tags per top-level class of the project's label schema (see defaultLabelSchema)
+  firm_type?: string[];
+  event_type?: string[];
+  asset_class?: string[];
   action_type?: NewsActionType[];
   tagged_entities?: TaggedEntity[];
   created_entities?: TaggedEntity[];
+  // Set on tasks of near-duplicate articles
+  cluster_id?: string;
+  duplicate_of_news_id?: string;
+  propagated_from_news_id?: string;
+  // Set when a label schema change left tags outside the schema
+  label_schema_version?: number;
+  label_issues?: string[];
 }
 
 export const annotationTasks = pgTable("annotation_tasks", {
@@ -287,6 +349,8 @@ export const annotations = pgTable("annotations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orgId: varchar("org_id").references(() => organizations.id).notNull(),
   taskId: varchar("task_id").references(() => tasks.id),
+  // Label project task the annotation belongs to; one row per task and type
+  annotationTaskId: varchar("annotation_task_id").references(() => annotationTasks.id),
   type: text("type").notNull().$type<AnnotationType>(),
   data: jsonb("data"),
   labels: jsonb("labels").$type<string[]>().default([]),
@@ -296,8 +360,10 @@ export const annotations = pgTable("annotations", {
   reviewedBy: varchar("reviewed_by").references(() => users.id),
   reviewStatus: text("review_status"),
   reviewNotes: text("review_notes"),
+  updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("annotations_org_id_idx").on(table.orgId),
+  uniqueIndex("annotations_annotation_task_type_idx").on(table.annotationTaskId, table.type),
 ]);
 
 export const auditLogs = pgTable("audit_logs", {
@@ -805,6 +871,26 @@ export const insertEntityUrlSchema = createInsertSchema(entityUrls).omit({ id: t
 export type InsertEntityUrl = z.infer<typeof insertEntityUrlSchema>;
 export type EntityUrl = typeof entityUrls.$inferSelect;
 
+// Where each run of news.cleaned_text came from in news.raw_text. Segments are
+// [cleanedStart, cleanedLength, rawStart, rawLength]; they tile cleaned_text in
+// order, and raw ranges only increase (skipped boilerplate leaves gaps).
+// Segments of equal length map offsets one to one.
+export type NewsOffsetSegment = [number, number, number, number];
+
+export interface NewsOffsetMap {
+  version: number;
+  segments: NewsOffsetSegment[];
+}
+
+// Machine translation of an article (server/services/translation.ts). The
+// article text is translated paragraph by paragraph; each segment pairs a
+// paragraph of the original text (cleaned_text, else raw_text) with its
+// translation, as [sourceStart, sourceEnd, targetStart, targetEnd].
+export type NewsTranslationSegment = [number, number, number, number];
+
+export const translatorNames = ["llm", "stub"] as const;
+export type TranslatorName = typeof translatorNames[number];
+
 // News table for article content
 export const news = pgTable("news", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -815,38 +901,403 @@ export const news = pgTable("news", {
   url: text("url"),
   rawText: text("raw_text"),
   cleanedText: text("cleaned_text"),
+  // Set by the article extractor (server/services/articleExtraction.ts)
+  cleanedOffsetMap: jsonb("cleaned_offset_map").$type<NewsOffsetMap>(),
+  cleanedAt: timestamp("cleaned_at"),
+  byline: text("byline"),
+  // ISO 639-1 code, declared on upload or detected from the text
+  language: text("language"),
+  // English version of non-English articles; annotations stay on the original
+  translatedHeadline: text("translated_headline"),
+  translatedText: text("translated_text"),
+  translationSegments: jsonb("translation_segments").$type<NewsTranslationSegment[]>(),
+  // "<translator>:<model>", e.g. llm:gemini-1.5-pro
+  translatedBy: text("translated_by"),
+  translatedAt: timestamp("translated_at"),
+  // Dedupe keys for feed ingestion (server/services/newsFeeds.ts)
+  canonicalUrl: text("canonical_url"),
+  contentHash: text("content_hash"),
+  feedId: varchar("feed_id"),
+  // Near-duplicate detection (server/services/storyClusters.ts)
+  minhash: jsonb("minhash").$type<number[]>(),
+  minhashBands: text("minhash_bands").array(),
+  clusterId: varchar("cluster_id"),
+  // Estimated text overlap with the article it was clustered with, 0-100
+  clusterSimilarity: integer("cluster_similarity"),
   createdAt: timestamp("created_at").defaultNow(),
   createdBy: varchar("created_by"),
 }, (table) => [
   index("news_org_id_idx").on(table.orgId),
+  index("news_org_canonical_url_idx").on(table.orgId, table.canonicalUrl),
+  index("news_org_content_hash_idx").on(table.orgId, table.contentHash),
+  index("news_minhash_bands_idx").using("gin", table.minhashBands),
+  index("news_cluster_id_idx").on(table.clusterId),
 ]);
 
 export const insertNewsSchema = createInsertSchema(news).omit({ id: true, createdAt: true });
 export type InsertNews = z.infer<typeof insertNewsSchema>;
 export type News = typeof news.$inferSelect;
 
-// Entity linking types for news
-export const newsEntityTypes = ["firm", "fund", "person", "deal", "company"] as const;
-export type NewsEntityType = typeof newsEntityTypes[number];
+// Syndicated copies of the same story. Annotators work the canonical article;
+// its tags, text annotations and entity links are copied to the siblings.
+export const storyClusters = pgTable("story_clusters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  canonicalNewsId: varchar("canonical_news_id").references(() => news.id).notNull(),
+  // When the completed canonical task was last copied to the siblings
+  propagatedAt: timestamp("propagated_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("story_clusters_org_id_idx").on(table.orgId),
+]);
+
+export type StoryCluster = typeof storyClusters.$inferSelect;
+
+// Feed sources polled for news (server/services/newsFeeds.ts). New articles
+// become news rows and, when a target project is set, annotation tasks.
+export const newsFeedTypes = ["rss", "atom", "sitemap"] as const;
+export type NewsFeedType = typeof newsFeedTypes[number];
 
-// Entity linking table for news
-export const newsEntityLinks = pgTable("news_entity_links", {
+export const newsFeedPollStatuses = ["ok", "error"] as const;
+export type NewsFeedPollStatus = typeof newsFeedPollStatuses[number];
+
+export const newsFeeds = pgTable("news_feeds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  newsId: varchar("news_id").references(() => news.id).notNull(),
-  entityType: text("entity_type").notNull().$type<NewsEntityType>(),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  // Stored as news.source_name on ingested articles
+  sourceName: text("source_name").notNull(),
+  feedType: text("feed_type").$type<NewsFeedType>().notNull(),
+  url: text("url").notNull(),
+  pollIntervalMinutes: integer("poll_interval_minutes").notNull().default(60),
+  targetProjectId: varchar("target_project_id").references(() => labelProjects.id),
+  isActive: boolean("is_active").notNull().default(true),
+  lastPolledAt: timestamp("last_polled_at"),
+  lastPollStatus: text("last_poll_status").$type<NewsFeedPollStatus>(),
+  lastPollError: text("last_poll_error"),
+  lastPollCreated: integer("last_poll_created"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("news_feeds_org_url_idx").on(table.orgId, table.url),
+]);
+
+export const insertNewsFeedSchema = z.object({
+  source_name: z.string().trim().min(1),
+  feed_type: z.enum(newsFeedTypes),
+  url: z.string().url().refine((u) => /^https?:\/\//i.test(u), "url must be http(s)"),
+  poll_interval_minutes: z.number().int().min(5).max(7 * 24 * 60).default(60),
+  target_project_id: z.string().min(1).nullable().optional(),
+  is_active: z.boolean().default(true),
+});
+export const updateNewsFeedSchema = insertNewsFeedSchema.partial();
+export type InsertNewsFeed = z.infer<typeof insertNewsFeedSchema>;
+export type NewsFeed = typeof newsFeeds.$inferSelect;
+
+// Background job queue (server/jobs/queue.ts). Workers claim due jobs with
+// FOR UPDATE SKIP LOCKED and hold them under a lease until lockedUntil.
+export const jobTypes = ["news.process", "feed.poll", "news.backfill", "story_cluster.propagate"] as const;
+export type JobType = typeof jobTypes[number];
+
+export const jobStatuses = ["queued", "running", "completed", "dead"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  type: text("type").$type<JobType>().notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  // At most one queued or running job per (type, dedupeKey)
+  dedupeKey: text("dedupe_key"),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedBy: text("locked_by"),
+  lockedUntil: timestamp("locked_until"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("jobs_status_run_at_idx").on(table.status, table.runAt),
+  index("jobs_org_id_status_idx").on(table.orgId, table.status),
+]);
+
+export type Job = typeof jobs.$inferSelect;
+
+// One row per LLM call, for per-org token accounting
+export const llmUsage = pgTable("llm_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  provider: text("provider").$type<LlmProviderName>().notNull(),
+  model: text("model").notNull(),
+  purpose: text("purpose").notNull(),
+  sourceId: varchar("source_id"),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  latencyMs: integer("latency_ms"),
+  attempts: integer("attempts").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("llm_usage_org_id_created_at_idx").on(table.orgId, table.createdAt),
+]);
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+
+// One row per run of the news pipeline (server/services/pipelineRuns.ts),
+// with the time spent in each stage and, for failed runs, where and why.
+export const pipelineStages = ["fetch", "ai", "validate", "persist", "link", "draft"] as const;
+export type PipelineStage = typeof pipelineStages[number];
+
+export const pipelineRunStatuses = ["running", "completed", "failed"] as const;
+export type PipelineRunStatus = typeof pipelineRunStatuses[number];
+
+export interface PipelineStageTiming {
+  stage: PipelineStage;
+  status: "completed" | "failed";
+  duration_ms: number;
+  started_at: string;
+}
+
+export const pipelineRuns = pgTable("pipeline_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  newsId: varchar("news_id").notNull(),
+  jobId: varchar("job_id"),
+  // jobs.attempts when the run started; 1 for manual runs
+  attempt: integer("attempt").notNull().default(1),
+  status: text("status").$type<PipelineRunStatus>().notNull().default("running"),
+  stages: jsonb("stages").$type<PipelineStageTiming[]>().notNull().default([]),
+  failedStage: text("failed_stage").$type<PipelineStage>(),
+  // Coarse cause used to group failures, e.g. llm_timeout, validation_failed
+  errorClass: text("error_class"),
+  errorMessage: text("error_message"),
+  llmProvider: text("llm_provider"),
+  llmModel: text("llm_model"),
+  inputTokens: integer("input_tokens"),
+  outputTokens: integer("output_tokens"),
+  durationMs: integer("duration_ms"),
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("pipeline_runs_org_started_idx").on(table.orgId, table.startedAt),
+  index("pipeline_runs_news_id_idx").on(table.newsId),
+]);
+
+export type PipelineRun = typeof pipelineRuns.$inferSelect;
+
+// Bulk reprocessing of existing news (server/services/newsBackfills.ts). The
+// matching articles are snapshotted as items when the backfill is created and
+// released to the job queue at ratePerMinute. A dry run stores, per item, the
+// difference between the current AI output and links and what a rerun would
+// produce, and writes nothing else.
+export const newsBackfillStatuses = ["running", "completed", "cancelled"] as const;
+export type NewsBackfillStatus = typeof newsBackfillStatuses[number];
+
+export const newsBackfillItemStatuses = ["pending", "queued", "completed", "failed"] as const;
+export type NewsBackfillItemStatus = typeof newsBackfillItemStatuses[number];
+
+export const newsBackfillFiltersSchema = z.object({
+  // Publish date (ingest date when it is missing), inclusive, YYYY-MM-DD
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  source_name: z.string().min(1).optional(),
+  project_id: z.string().min(1).optional(),
+  // Status of the latest ai_outputs row, or "none" for articles never processed
+  ai_status: z.enum(["none", "AI_DONE", "LINKED", "FAILED_VALIDATION"]).optional(),
+  llm_model: z.string().min(1).optional(),
+  prompt_version: z.string().min(1).optional(),
+});
+export type NewsBackfillFilters = z.infer<typeof newsBackfillFiltersSchema>;
+
+export const createNewsBackfillSchema = z.object({
+  filters: newsBackfillFiltersSchema.default({}),
+  dry_run: z.boolean().default(false),
+  rate_per_minute: z.number().int().min(1).max(120).default(10),
+});
+
+export interface NewsBackfillFieldChange {
+  path: string;
+  old: unknown;
+  new: unknown;
+}
+
+export interface NewsBackfillLinkChange {
+  entity_type: LinkableEntityType;
+  entity_id: string;
+  name: string | null;
+  mention: string | null;
+  old_status: EntityLinkStatus | null;
+  new_status: EntityLinkStatus | null;
+}
+
+export interface NewsBackfillDiff {
+  old_ai_output_id: string | null;
+  old_llm_model: string | null;
+  old_prompt_version: string | null;
+  new_llm_model: string;
+  new_prompt_version: string | null;
+  // Validation errors when the new output would fail validation
+  validation_errors: string[] | null;
+  output_changes: NewsBackfillFieldChange[];
+  // AI and rule links only; manual links are never touched by a rerun.
+  // Links the new output no longer yields have new_status null; a real rerun
+  // leaves them in place.
+  link_changes: NewsBackfillLinkChange[];
+}
+
+export const newsBackfills = pgTable("news_backfills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  status: text("status").$type<NewsBackfillStatus>().notNull().default("running"),
+  dryRun: boolean("dry_run").notNull().default(false),
+  filters: jsonb("filters").$type<NewsBackfillFilters>().notNull().default({}),
+  ratePerMinute: integer("rate_per_minute").notNull().default(10),
+  total: integer("total").notNull().default(0),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("news_backfills_org_id_idx").on(table.orgId),
+]);
+
+export type NewsBackfill = typeof newsBackfills.$inferSelect;
+
+export const newsBackfillItems = pgTable("news_backfill_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  backfillId: varchar("backfill_id").references(() => newsBackfills.id).notNull(),
+  newsId: varchar("news_id").notNull(),
+  status: text("status").$type<NewsBackfillItemStatus>().notNull().default("pending"),
+  diff: jsonb("diff").$type<NewsBackfillDiff>(),
+  error: text("error"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("news_backfill_items_backfill_news_idx").on(table.backfillId, table.newsId),
+  index("news_backfill_items_backfill_status_idx").on(table.backfillId, table.status),
+]);
+
+export type NewsBackfillItem = typeof newsBackfillItems.$inferSelect;
+
+// Versioned prompt templates (server/services/promptTemplates.ts). Each save
+// adds a version; at most one version per (org, key) is active, and orgs
+// without an active version use the built-in template.
+export const promptTemplateKeys = ["news_extraction"] as const;
+export type PromptTemplateKey = typeof promptTemplateKeys[number];
+
+export const promptTemplateVariables = [
+  "headline",
+  "raw_text",
+  "source_name",
+  "publish_date",
+  "org_name",
+  "sector_taxonomy",
+  "language",
+  "original_text",
+] as const;
+export type PromptTemplateVariable = typeof promptTemplateVariables[number];
+
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  key: text("key").$type<PromptTemplateKey>().notNull(),
+  version: integer("version").notNull(),
+  template: text("template").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(false),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("prompt_templates_org_key_version_idx").on(table.orgId, table.key, table.version),
+]);
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+
+// Polymorphic links from a source record (a news article today) to a
+// DataNest entity. AI linking, manual tagging and rules all write here through
+// server/services/entityLinks.ts.
+export const linkableEntityTypes = ["gp", "lp", "fund", "portfolio_company", "service_provider", "contact"] as const;
+export type LinkableEntityType = typeof linkableEntityTypes[number];
+
+export const entityLinkSources = ["ai", "manual", "rule"] as const;
+export type EntityLinkSource = typeof entityLinkSources[number];
+
+export const entityLinkMatchTypes = ["exact", "fuzzy", "manual", "rule"] as const;
+export type EntityLinkMatchType = typeof entityLinkMatchTypes[number];
+
+// REVIEW links are shown to reviewers but not counted as linked
+export const entityLinkStatuses = ["LINKED", "REVIEW", "REJECTED"] as const;
+export type EntityLinkStatus = typeof entityLinkStatuses[number];
+
+// Ranked match for a mention, kept on REVIEW links so reviewers can pick another
+export interface EntityCandidate {
+  entity_id: string;
+  name: string;
+  score: number;           // 0..1 after context signals
+  matched_on: string;      // the name or alias that scored best
+  signals: string[];       // e.g. "alias", "country_match", "asset_class_mismatch"
+}
+
+export const entityLinks = pgTable("entity_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  sourceType: text("source_type").notNull(),
+  sourceId: varchar("source_id").notNull(),
+  entityType: text("entity_type").$type<LinkableEntityType>().notNull(),
   entityId: varchar("entity_id").notNull(),
-  orgId: varchar("org_id"),
+  linkSource: text("link_source").$type<EntityLinkSource>().notNull(),
+  confidenceScore: integer("confidence_score"),
+  matchType: text("match_type").$type<EntityLinkMatchType>().notNull(),
+  status: text("status").$type<EntityLinkStatus>().notNull().default("LINKED"),
+  // The name as it appeared in the source, for AI and rule links
+  mention: text("mention"),
+  aiOutputId: varchar("ai_output_id"),
+  // Top-ranked candidates from the resolver when the match was ambiguous
+  candidates: jsonb("candidates").$type<EntityCandidate[]>(),
   createdBy: varchar("created_by"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
-  index("news_entity_links_news_id_idx").on(table.newsId),
-  index("news_entity_links_entity_idx").on(table.entityType, table.entityId),
-  index("news_entity_links_org_id_idx").on(table.orgId),
+  uniqueIndex("entity_links_source_entity_idx").on(table.orgId, table.sourceType, table.sourceId, table.entityType, table.entityId),
+  index("entity_links_entity_idx").on(table.entityType, table.entityId),
+  index("entity_links_org_status_idx").on(table.orgId, table.status),
 ]);
 
-export const insertNewsEntityLinkSchema = createInsertSchema(newsEntityLinks).omit({ id: true, createdAt: true });
-export type InsertNewsEntityLink = z.infer<typeof insertNewsEntityLinkSchema>;
-export type NewsEntityLink = typeof newsEntityLinks.$inferSelect;
+export const insertEntityLinkSchema = z.object({
+  source_type: z.string().min(1).default("news"),
+  source_id: z.string().min(1),
+  entity_type: z.enum(linkableEntityTypes),
+  entity_id: z.string().min(1),
+});
+export type InsertEntityLink = z.infer<typeof insertEntityLinkSchema>;
+export type EntityLink = typeof entityLinks.$inferSelect;
+
+// Extra names an entity is known by, on top of the short/legal/former name
+// columns of the entity tables. Reviewer decisions are recorded here so the
+// resolver matches the same mention next time.
+export const entityAliasSources = ["manual", "review", "import"] as const;
+export type EntityAliasSource = typeof entityAliasSources[number];
+
+export const entityAliases = pgTable("entity_aliases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  entityType: text("entity_type").$type<LinkableEntityType>().notNull(),
+  entityId: varchar("entity_id").notNull(),
+  alias: text("alias").notNull(),
+  // Output of normalizeEntityName, used for lookups
+  normalizedAlias: text("normalized_alias").notNull(),
+  source: text("source").$type<EntityAliasSource>().notNull().default("manual"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("entity_aliases_entity_alias_idx").on(table.orgId, table.entityType, table.entityId, table.normalizedAlias),
+  index("entity_aliases_lookup_idx").on(table.orgId, table.entityType, table.normalizedAlias),
+]);
+
+export type EntityAlias = typeof entityAliases.$inferSelect;
 
 // Text annotation storage for news
 export const textAnnotations = pgTable("text_annotations", {
@@ -858,6 +1309,8 @@ export const textAnnotations = pgTable("text_annotations", {
   textSpan: text("text_span").notNull(),
   confidence: integer("confidence"),
   orgId: varchar("org_id"),
+  // Annotation on the cluster's canonical article this one was copied from
+  propagatedFrom: varchar("propagated_from"),
   createdBy: varchar("created_by"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
@@ -982,6 +1435,37 @@ export function canManageUsers(role: UserRole): boolean {
   return ["super_admin", "admin", "manager"].includes(role);
 }
 
+// Route permissions are "<module>:<action>". A role holds a permission when the module is in
+// moduleAccessByRole for that role and its rank meets the action's minimum.
+export const permissionActions = ["read", "write", "manage"] as const;
+export type PermissionAction = typeof permissionActions[number];
+export type Permission = `${string}:${PermissionAction}`;
+
+export const minRoleRankForAction: Record<PermissionAction, number> = {
+  read: roleHierarchy.guest,
+  write: roleHierarchy.annotator,
+  manage: roleHierarchy.manager,
+};
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  if (role === "super_admin") return true;
+  const [moduleId, action] = permission.split(":") as [string, PermissionAction];
+  const modules = moduleAccessByRole[role] || [];
+  return modules.includes(moduleId) && roleHierarchy[role] >= minRoleRankForAction[action];
+}
+
+export type RoutePolicy =
+  | { type: "public" }
+  | { type: "authenticated" }
+  | { type: "permission"; permission: Permission };
+
+export interface PermissionMatrixEntry {
+  method: string;
+  path: string;
+  policy: RoutePolicy;
+  roles: Record<UserRole, boolean>;
+}
+
 export interface SuggestedEntity {
   type: string;
   examples: string[];
@@ -1098,3 +1582,620 @@ export const signupSchema = z.object({
 });
 
 export type SignupInput = z.infer<typeof signupSchema>;
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z
+    .array(z.string().regex(/^[a-z_]+:(read|write|manage)$/, "Scopes look like module:action"))
+    .min(1, "Select at least one scope"),
+  rateLimitPerMinute: z.number().int().min(1).max(6000).default(60),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+
+// Structured output the LLM must return for a news article (server/services/aiGeneration.ts)
+export const dealTypes = ["fundraise", "investment", "acquisition", "exit"] as const;
+export type DealType = typeof dealTypes[number];
+
+export const aiOutputStatuses = ["AI_DONE", "LINKED", "FAILED_VALIDATION"] as const;
+export type AiOutputStatus = typeof aiOutputStatuses[number];
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected an ISO date (YYYY-MM-DD)")
+  // Date.parse rolls 2023-02-29 over to March, so only a round trip proves the day exists
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, "Not a real calendar date");
+
+const entityNamesSchema = z.array(z.string().trim().min(1));
+
+export const newsAiOutputSchema = z.object({
+  deal_detected: z.boolean(),
+  deal_type: z.enum(dealTypes).nullable(),
+  entities: z.object({
+    general_partners: entityNamesSchema,
+    funds: entityNamesSchema,
+    portfolio_companies: entityNamesSchema,
+    limited_partners: entityNamesSchema,
+    service_providers: entityNamesSchema,
+  }),
+  amounts: z.object({
+    value: z.number().nonnegative().nullable(),
+    currency: z.string().regex(/^[A-Z]{3}$/, "Expected an ISO 4217 currency code").nullable(),
+  }),
+  geography: z.object({
+    country: z.string().nullable(),
+    city: z.string().nullable(),
+  }),
+  dates: z.object({
+    announcement_date: isoDateSchema.nullable(),
+  }),
+  confidence_score: z.number().min(0).max(100),
+  reasoning: z.string(),
+});
+
+export type NewsAIOutput = z.infer<typeof newsAiOutputSchema>;
+
+// Human review of an ai_outputs row (server/services/aiReview.ts). Each
+// reviewable field is accepted as-is, edited, or rejected (cleared), and every
+// decision is kept as an AI value / human value pair.
+export const aiOutputReviewStatuses = ["pending", "accepted", "rejected"] as const;
+export type AiOutputReviewStatus = typeof aiOutputReviewStatuses[number];
+
+export const aiReviewFields = [
+  "deal_detected",
+  "deal_type",
+  "amounts.value",
+  "amounts.currency",
+  "geography.country",
+  "geography.city",
+  "dates.announcement_date",
+  "entities.general_partners",
+  "entities.funds",
+  "entities.portfolio_companies",
+  "entities.limited_partners",
+  "entities.service_providers",
+] as const;
+export type AiReviewField = typeof aiReviewFields[number];
+
+export const aiFieldReviewActions = ["accept", "edit", "reject"] as const;
+export type AiFieldReviewAction = typeof aiFieldReviewActions[number];
+
+export const aiFieldDecisionSchema = z.object({
+  action: z.enum(aiFieldReviewActions),
+  // Required for "edit"; checked against newsAiOutputSchema once applied
+  value: z.unknown().optional(),
+});
+
+export const aiOutputReviewSchema = z.object({
+  decision: z.enum(["accept", "reject"]),
+  // Fields left out are accepted as the AI returned them
+  fields: z.record(z.enum(aiReviewFields), aiFieldDecisionSchema).default({}),
+  // Restrict the metadata write-back to one annotation task (default: every task for the article)
+  task_id: z.string().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export type AiOutputReviewInput = z.infer<typeof aiOutputReviewSchema>;
+
+export const aiOutputFieldReviews = pgTable("ai_output_field_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  aiOutputId: varchar("ai_output_id").notNull(),
+  field: text("field").$type<AiReviewField>().notNull(),
+  action: text("action").$type<AiFieldReviewAction>().notNull(),
+  aiValue: jsonb("ai_value"),
+  humanValue: jsonb("human_value"),
+  changed: boolean("changed").notNull().default(false),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at").defaultNow(),
+}, (table) => [
+  index("ai_output_field_reviews_output_idx").on(table.aiOutputId),
+  index("ai_output_field_reviews_org_field_idx").on(table.orgId, table.field),
+]);
+
+export type AiOutputFieldReview = typeof aiOutputFieldReviews.$inferSelect;
+
+// Deal records proposed from AI news extraction (server/services/dealDrafts.ts).
+// A draft only reaches entities_deal when an analyst approves it, as a new
+// deal or merged into the existing deal it duplicates.
+export const dealDraftStatuses = ["pending", "approved", "merged", "rejected"] as const;
+export type DealDraftStatus = typeof dealDraftStatuses[number];
+
+// Existing entities_deal row that may describe the same transaction
+export interface DealMatchCandidate {
+  deal_id: string;
+  deal_name: string;
+  score: number;           // 0..1
+  signals: string[];       // e.g. "portfolio_company", "gp", "date_close", "size_close"
+}
+
+export const dealDrafts = pgTable("deal_drafts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").references(() => organizations.id).notNull(),
+  newsId: varchar("news_id").references(() => news.id).notNull(),
+  aiOutputId: varchar("ai_output_id"),
+  status: text("status").$type<DealDraftStatus>().notNull().default("pending"),
+  dealName: text("deal_name").notNull(),
+  dealType: text("deal_type").$type<DealType>(),
+  gpId: varchar("gp_id"),
+  gpName: text("gp_name"),
+  fundId: varchar("fund_id"),
+  fundName: text("fund_name"),
+  portfolioCompanyId: varchar("portfolio_company_id"),
+  portfolioCompanyName: text("portfolio_company_name"),
+  dealSize: numeric("deal_size"),
+  dealCurrency: text("deal_currency"),
+  dealCountry: text("deal_country"),
+  announcementDate: text("announcement_date"),
+  sourceUrl: text("source_url"),
+  confidenceScore: integer("confidence_score"),
+  // Best-scoring existing deals, highest first
+  matchCandidates: jsonb("match_candidates").$type<DealMatchCandidate[]>(),
+  // Set when the top candidate is likely the same deal; approval then merges by default
+  matchedDealId: varchar("matched_deal_id"),
+  // entities_deal row created or merged into on approval
+  dealId: varchar("deal_id"),
+  reviewNotes: text("review_notes"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("deal_drafts_org_status_idx").on(table.orgId, table.status),
+  index("deal_drafts_news_id_idx").on(table.newsId),
+]);
+
+export type DealDraft = typeof dealDrafts.$inferSelect;
+
+// Analyst decision on a draft; edited fields override the drafted values
+export const dealDraftFieldsSchema = z.object({
+  deal_name: z.string().trim().min(1),
+  deal_type: z.enum(dealTypes).nullable(),
+  gp_id: z.string().nullable(),
+  fund_id: z.string().nullable(),
+  portfolio_company_id: z.string().nullable(),
+  deal_size: z.number().nonnegative().nullable(),
+  deal_currency: z.string().regex(/^[A-Z]{3}$/, "Expected an ISO 4217 currency code").nullable(),
+  deal_country: z.string().nullable(),
+  announcement_date: isoDateSchema.nullable(),
+}).partial();
+
+export const dealDraftApprovalSchema = z.object({
+  fields: dealDraftFieldsSchema.default({}),
+  // Merge into this existing deal instead of creating a new one
+  merge_into_deal_id: z.string().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export type DealDraftApprovalInput = z.infer<typeof dealDraftApprovalSchema>;
+
+// ============================================
+// Label schemas (per-project classes, sub-labels and attributes)
+// ============================================
+
+export const labelAttributeTypes = ["enum", "text", "number", "boolean"] as const;
+export type LabelAttributeType = typeof labelAttributeTypes[number];
+
+// Ids are what annotations store, so they stay fixed when a class is renamed
+const labelIdSchema = z.string().trim().min(1).max(64).regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and _");
+
+export const labelAttributeSchema = z.object({
+  id: labelIdSchema,
+  name: z.string().trim().min(1).max(100),
+  type: z.enum(labelAttributeTypes),
+  // enum only
+  options: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  required: z.boolean().optional(),
+}).refine((attribute) => attribute.type !== "enum" || (attribute.options?.length ?? 0) > 0, {
+  message: "Enum attributes need at least one option",
+  path: ["options"],
+});
+
+export type LabelAttribute = z.infer<typeof labelAttributeSchema>;
+
+// A class with a parent_id is a sub-label of it and also takes the parent's attributes
+export const labelClassSchema = z.object({
+  id: labelIdSchema,
+  name: z.string().trim().min(1).max(100),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a #rrggbb colour"),
+  hotkey: z.string().regex(/^[0-9]$/, "Hotkeys are the digits 0-9").nullable().optional(),
+  parent_id: labelIdSchema.nullable().optional(),
+  attributes: z.array(labelAttributeSchema).max(50).default([]),
+});
+
+export type LabelClass = z.infer<typeof labelClassSchema>;
+
+export const labelSchemaSchema = z.object({
+  classes: z.array(labelClassSchema).max(500),
+}).superRefine((schema, ctx) => {
+  const ids = new Set<string>();
+  const hotkeys = new Set<string>();
+  schema.classes.forEach((labelClass, i) => {
+    if (ids.has(labelClass.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["classes", i, "id"], message: `Duplicate class id ${labelClass.id}` });
+    }
+    ids.add(labelClass.id);
+    if (labelClass.hotkey) {
+      if (hotkeys.has(labelClass.hotkey)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["classes", i, "hotkey"], message: `Hotkey ${labelClass.hotkey} is used twice` });
+      }
+      hotkeys.add(labelClass.hotkey);
+    }
+    const attributeIds = labelClass.attributes.map((attribute) => attribute.id);
+    if (new Set(attributeIds).size !== attributeIds.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["classes", i, "attributes"], message: "Duplicate attribute id" });
+    }
+  });
+  const parentOf = new Map(schema.classes.map((labelClass) => [labelClass.id, labelClass.parent_id ?? null]));
+  schema.classes.forEach((labelClass, i) => {
+    if (labelClass.parent_id && !ids.has(labelClass.parent_id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["classes", i, "parent_id"], message: `Unknown parent ${labelClass.parent_id}` });
+      return;
+    }
+    // Walking up from any class must reach a top-level class
+    const seen = new Set<string>([labelClass.id]);
+    for (let parent = parentOf.get(labelClass.id); parent; parent = parentOf.get(parent)) {
+      if (seen.has(parent)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["classes", i, "parent_id"], message: "Sub-labels cannot form a cycle" });
+        return;
+      }
+      seen.add(parent);
+    }
+  });
+});
+
+export type LabelSchema = z.infer<typeof labelSchemaSchema>;
+
+export const saveLabelSchemaSchema = z.object({
+  schema: labelSchemaSchema,
+  // The version the editor started from; a newer one means someone else saved in between
+  base_version: z.number().int().nonnegative(),
+  // Removed class id -> class id that existing annotations move to
+  remap: z.record(labelIdSchema, labelIdSchema).default({}),
+});
+
+export type SaveLabelSchemaInput = z.infer<typeof saveLabelSchemaSchema>;
+
+export const labelAttributeValuesSchema = z.record(z.union([z.string().max(2000), z.number(), z.boolean()]));
+export type LabelAttributeValues = z.infer<typeof labelAttributeValuesSchema>;
+
+// Anything an annotation assigns a class to: image shapes, video segments and tracks
+export interface LabeledItem {
+  label: string;
+  attributes?: LabelAttributeValues;
+}
+
+const schemaClass = (classId: string, name: string, color: string, parentId?: string, hotkey?: string): LabelClass => ({
+  id: classId,
+  name,
+  color,
+  hotkey: hotkey ?? null,
+  parent_id: parentId ?? null,
+  attributes: [],
+});
+
+// News projects use each top-level class as a tag group and its sub-labels as the tags
+const newsTagGroups: Array<[string, string, Array<[string, string]>]> = [
+  ["firm_type", "Firm Type", [
+    ["gp_pe", "GP (PE)"], ["gp_vc", "GP (VC)"], ["lp", "LP"], ["fund", "Fund"],
+    ["portfolio_company", "Portfolio Company"], ["service_provider", "Service Provider"],
+    ["bank_trustee", "Bank/Trustee"], ["regulator", "Regulator"], ["startup", "Startup"], ["corporate", "Corporate"],
+  ]],
+  ["event_type", "Event Type", [
+    ["fundraise", "Fundraise"], ["investment", "Investment"], ["exit", "Exit"], ["mna", "M&A"],
+    ["leadership_change", "Leadership Change"], ["regulatory_update", "Regulatory Update"],
+    ["product_launch", "Product Launch"], ["partnership", "Partnership"],
+    ["financial_results", "Financial Results"], ["litigation", "Litigation"],
+  ]],
+  ["asset_class", "Asset Class", [
+    ["private_equity", "Private Equity"], ["venture_capital", "Venture Capital"], ["private_debt", "Private Debt"],
+    ["infrastructure", "Infrastructure"], ["real_assets", "Real Assets"], ["hedge_funds", "Hedge Funds"],
+    ["public_markets", "Public Markets"], ["esg", "ESG"],
+  ]],
+];
+const newsTagColors = ["#8b5cf6", "#3b82f6", "#10b981"];
+
+/**
+ * The schema a project uses until a manager saves its own (version 0).
+ */
+export function defaultLabelSchema(labelType: string, projectCategory: string): LabelSchema {
+  if (projectCategory === "news") {
+    return {
+      classes: newsTagGroups.flatMap(([groupId, groupName, tags], i) => [
+        schemaClass(groupId, groupName, newsTagColors[i]),
+        ...tags.map(([tagId, tagName]) => schemaClass(tagId, tagName, newsTagColors[i], groupId)),
+      ]),
+    };
+  }
+  if (labelType === "image") {
+    return {
+      classes: [
+        schemaClass("product", "Product", "#3b82f6", undefined, "1"),
+        schemaClass("logo", "Logo", "#a855f7", undefined, "2"),
+        schemaClass("text", "Text", "#10b981", undefined, "3"),
+        schemaClass("face", "Face", "#f59e0b", undefined, "4"),
+        schemaClass("background", "Background", "#6b7280", undefined, "5"),
+      ],
+    };
+  }
+  if (labelType === "video") {
+    return {
+      classes: [
+        schemaClass("introduction", "Introduction", "#3b82f6", undefined, "1"),
+        schemaClass("presentation", "Presentation", "#a855f7", undefined, "2"),
+        schemaClass("demo", "Product Demo", "#10b981", undefined, "3"),
+        schemaClass("qa", "Q&A", "#f59e0b", undefined, "4"),
+        schemaClass("person", "Person", "#ec4899", undefined, "5"),
+        schemaClass("logo", "Logo", "#06b6d4", undefined, "6"),
+      ],
+    };
+  }
+  return { classes: [] };
+}
+
+/**
+ * A class's attributes: its ancestors' first, then its own.
+ */
+export function attributesOfClass(schema: LabelSchema, classId: string): LabelAttribute[] {
+  const byId = new Map(schema.classes.map((labelClass) => [labelClass.id, labelClass]));
+  const chain: LabelClass[] = [];
+  for (let current = byId.get(classId); current && !chain.includes(current); current = current.parent_id ? byId.get(current.parent_id) : undefined) {
+    chain.unshift(current);
+  }
+  return chain.flatMap((labelClass) => labelClass.attributes);
+}
+
+/**
+ * Ways the items fail the schema: unknown classes, missing required
+ * attributes, and values of the wrong type or outside an enum's options.
+ */
+export function labelIssuesOf(schema: LabelSchema, items: LabeledItem[]): string[] {
+  const issues = new Set<string>();
+  items.forEach((item) => {
+    const labelClass = schema.classes.find((c) => c.id === item.label);
+    if (!labelClass) {
+      issues.add(`Label "${item.label}" is not in the schema`);
+      return;
+    }
+    attributesOfClass(schema, item.label).forEach((attribute) => {
+      const value = item.attributes?.[attribute.id];
+      if (value === undefined || value === "") {
+        if (attribute.required) issues.add(`${labelClass.name}: ${attribute.name} is required`);
+        return;
+      }
+      const valid =
+        attribute.type === "enum"
+          ? typeof value === "string" && (attribute.options ?? []).includes(value)
+          : attribute.type === "number"
+            ? typeof value === "number"
+            : attribute.type === "boolean"
+              ? typeof value === "boolean"
+              : typeof value === "string";
+      if (!valid) issues.add(`${labelClass.name}: "${String(value)}" is not a valid ${attribute.name}`);
+    });
+  });
+  return Array.from(issues);
+}
+
+/**
+ * Ids of every sub-label below a class, depth first.
+ */
+export function descendantsOf(schema: LabelSchema, classId: string): string[] {
+  return schema.classes
+    .filter((labelClass) => labelClass.parent_id === classId)
+    .flatMap((labelClass) => [labelClass.id, ...descendantsOf(schema, labelClass.id)]);
+}
+
+/**
+ * Tag values outside their group, for news tags keyed by top-level class id.
+ */
+export function tagIssuesOf(schema: LabelSchema, tags: Record<string, unknown>): string[] {
+  return schema.classes
+    .filter((group) => !group.parent_id)
+    .flatMap((group) => {
+      const values = tags[group.id];
+      if (!Array.isArray(values)) return [];
+      const allowed = descendantsOf(schema, group.id);
+      return values
+        .filter((value) => !allowed.includes(value))
+        .map((value) => `${group.name}: "${value}" is not in the schema`);
+    });
+}
+
+/**
+ * Moves an item to its remapped class and drops attribute values the class
+ * no longer defines. Items of unknown classes are left alone to be flagged.
+ */
+export function migrateLabeledItem<T extends LabeledItem>(schema: LabelSchema, item: T, remap: Record<string, string>): T {
+  const label = remap[item.label] ?? item.label;
+  const moved = label === item.label ? item : { ...item, label };
+  if (!item.attributes || !schema.classes.some((c) => c.id === label)) return moved;
+  const defined = new Set(attributesOfClass(schema, label).map((attribute) => attribute.id));
+  const kept = Object.entries(item.attributes).filter(([id]) => defined.has(id));
+  return kept.length === Object.keys(item.attributes).length ? moved : { ...moved, attributes: Object.fromEntries(kept) };
+}
+
+// ============================================
+// Task annotations (image, video, audio and translation labeling)
+// ============================================
+
+// Label project tasks that are not news articles point at the media to label,
+// or carry the text to translate
+export interface MediaTaskMetadata {
+  title?: string;
+  input_url?: string;
+  source_text?: string;
+  source_language?: string;
+  target_language?: string;
+  // Set when a label schema change left labels the task's annotation no longer fits
+  label_schema_version?: number;
+  label_issues?: string[];
+}
+
+const languageTagSchema = z.string().trim().min(2).max(35);
+
+export const createMediaTasksSchema = z.object({
+  project_id: z.string().min(1),
+  items: z.array(z.object({
+    input_url: z.string().url().optional(),
+    source_text: z.string().trim().min(1).max(200000).optional(),
+    title: z.string().trim().max(500).optional(),
+  }).refine((item) => !!item.input_url !== !!item.source_text, {
+    message: "Each item needs either input_url or source_text",
+  })).min(1).max(1000),
+  // Translation tasks
+  source_language: languageTagSchema.optional(),
+  target_language: languageTagSchema.optional(),
+  assignees: z.array(z.string()).default([]),
+});
+
+export type CreateMediaTasksInput = z.infer<typeof createMediaTasksSchema>;
+
+// Image coordinates are natural image pixels, origin top-left
+export const imageShapeTypes = ["rectangle", "polygon"] as const;
+export type ImageShapeType = typeof imageShapeTypes[number];
+
+const imageShapeBase = {
+  id: z.string().min(1),
+  label: z.string().min(1),
+  attributes: labelAttributeValuesSchema.optional(),
+};
+
+export const imageShapeSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...imageShapeBase,
+    type: z.literal("rectangle"),
+    x: z.number(),
+    y: z.number(),
+    width: z.number().nonnegative(),
+    height: z.number().nonnegative(),
+  }),
+  z.object({
+    ...imageShapeBase,
+    type: z.literal("polygon"),
+    points: z.array(z.tuple([z.number(), z.number()])).min(3),
+  }),
+]);
+
+export type ImageShape = z.infer<typeof imageShapeSchema>;
+
+export const imageAnnotationDataSchema = z.object({
+  image: z.object({
+    url: z.string(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }).nullable(),
+  shapes: z.array(imageShapeSchema).max(5000),
+});
+
+export type ImageAnnotationData = z.infer<typeof imageAnnotationDataSchema>;
+
+// Video positions are frame numbers at the stored frame_rate; boxes are in
+// natural video pixels. A segment covers [start_frame, end_frame).
+export const videoSegmentSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  attributes: labelAttributeValuesSchema.optional(),
+  start_frame: z.number().int().nonnegative(),
+  end_frame: z.number().int().positive(),
+}).refine((segment) => segment.end_frame > segment.start_frame, {
+  message: "end_frame must be after start_frame",
+});
+
+export type VideoSegment = z.infer<typeof videoSegmentSchema>;
+
+export const videoKeyframeSchema = z.object({
+  frame: z.number().int().nonnegative(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+});
+
+export type VideoKeyframe = z.infer<typeof videoKeyframeSchema>;
+
+// An object followed through the video; its box is interpolated between
+// keyframes and only shown from the first keyframe to the last
+export const videoTrackSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  attributes: labelAttributeValuesSchema.optional(),
+  keyframes: z.array(videoKeyframeSchema).min(1).max(10000),
+});
+
+export type VideoTrack = z.infer<typeof videoTrackSchema>;
+
+export const videoAnnotationDataSchema = z.object({
+  video: z.object({
+    url: z.string(),
+    frame_rate: z.number().positive().max(1000),
+    duration: z.number().nonnegative(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }).nullable(),
+  segments: z.array(videoSegmentSchema).max(5000),
+  tracks: z.array(videoTrackSchema).max(1000),
+});
+
+export type VideoAnnotationData = z.infer<typeof videoAnnotationDataSchema>;
+
+// Transcript times are seconds from the start of the media; speaker is one
+// of the transcript's speakers, or empty while unassigned
+export const transcriptSegmentSchema = z.object({
+  id: z.string().min(1),
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative(),
+  speaker: z.string().max(200),
+  text: z.string().max(20000),
+}).refine((segment) => segment.end >= segment.start, {
+  message: "end must not be before start",
+});
+
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+
+export const transcriptionAnnotationDataSchema = z.object({
+  media: z.object({
+    url: z.string(),
+    kind: z.enum(["audio", "video"]),
+    duration: z.number().nonnegative(),
+  }).nullable(),
+  speakers: z.array(z.string().min(1).max(200)).max(100),
+  segments: z.array(transcriptSegmentSchema).max(20000),
+});
+
+export type TranscriptionAnnotationData = z.infer<typeof transcriptionAnnotationDataSchema>;
+
+// Segment states as in XLIFF 2.0
+export const translationSegmentStates = ["initial", "translated", "reviewed", "final"] as const;
+export type TranslationSegmentState = typeof translationSegmentStates[number];
+
+export const translationSegmentSchema = z.object({
+  id: z.string().min(1),
+  source: z.string().max(20000),
+  target: z.string().max(20000),
+  state: z.enum(translationSegmentStates),
+  note: z.string().max(2000).optional(),
+});
+
+export type TranslationSegment = z.infer<typeof translationSegmentSchema>;
+
+export const translationAnnotationDataSchema = z.object({
+  source_language: languageTagSchema,
+  target_language: languageTagSchema,
+  segments: z.array(translationSegmentSchema).max(10000),
+});
+
+export type TranslationAnnotationData = z.infer<typeof translationAnnotationDataSchema>;
+
+export const saveTaskAnnotationSchema = z.object({
+  type: z.enum(annotationTypes),
+  data: z.unknown(),
+  confidence_score: z.number().int().min(0).max(100).nullable().optional(),
+  // updated_at the client last loaded; a newer row means someone else saved in between
+  base_updated_at: z.string().nullable().optional(),
+});
+
+export type SaveTaskAnnotationInput = z.infer<typeof saveTaskAnnotationSchema>;
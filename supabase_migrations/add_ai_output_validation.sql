@@ -0,0 +1,8 @@
+-- Migration: Keep raw model output and validation errors on ai_outputs
+-- Run this in your Supabase SQL Editor
+
+-- raw_output is the untouched model response; validation_errors is set
+-- when the response failed the NewsAIOutput schema (status FAILED_VALIDATION)
+ALTER TABLE public.ai_outputs
+ADD COLUMN IF NOT EXISTS raw_output TEXT,
+ADD COLUMN IF NOT EXISTS validation_errors JSONB;
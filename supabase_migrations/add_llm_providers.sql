@@ -0,0 +1,27 @@
+-- Migration: Per-org LLM provider selection and token accounting
+-- Run this in your Supabase SQL Editor
+
+-- NULL uses the deployment default (AI_PROVIDER)
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS ai_provider TEXT;
+
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  source_id UUID,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS llm_usage_org_id_created_at_idx ON public.llm_usage(org_id, created_at);
+
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
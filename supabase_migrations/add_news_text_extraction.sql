@@ -0,0 +1,10 @@
+-- Migration: Article extraction results on news
+-- Run this in your Supabase SQL Editor
+
+-- cleaned_offset_map ties each run of cleaned_text to its raw_text range, so
+-- text_annotations offsets can be carried over when an article is re-cleaned
+ALTER TABLE public.news
+ADD COLUMN IF NOT EXISTS cleaned_offset_map JSONB,
+ADD COLUMN IF NOT EXISTS cleaned_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS byline TEXT,
+ADD COLUMN IF NOT EXISTS language TEXT;
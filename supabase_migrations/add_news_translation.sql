@@ -0,0 +1,13 @@
+-- Migration: English translations of non-English news
+-- Run this in your Supabase SQL Editor
+
+-- translation_segments pairs each paragraph of the original text
+-- (cleaned_text, else raw_text) with its range in translated_text:
+-- [source_start, source_end, target_start, target_end]. text_annotations
+-- offsets keep referring to the original.
+ALTER TABLE public.news
+ADD COLUMN IF NOT EXISTS translated_headline TEXT,
+ADD COLUMN IF NOT EXISTS translated_text TEXT,
+ADD COLUMN IF NOT EXISTS translation_segments JSONB,
+ADD COLUMN IF NOT EXISTS translated_by TEXT,
+ADD COLUMN IF NOT EXISTS translated_at TIMESTAMP;
@@ -0,0 +1,11 @@
+-- Migration: Task annotations for image, video, audio and translation labeling
+-- Run this in your Supabase SQL Editor
+
+-- One annotation per (annotation task, type). updated_at is the version
+-- autosaving clients send back; a save based on an older version is refused.
+ALTER TABLE public.annotations
+ADD COLUMN IF NOT EXISTS annotation_task_id VARCHAR REFERENCES public.annotation_tasks(id),
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS annotations_annotation_task_type_idx
+ON public.annotations(annotation_task_id, type);
@@ -0,0 +1,38 @@
+-- Migration: Field-level review of AI outputs
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE public.ai_outputs
+ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'pending',
+ADD COLUMN IF NOT EXISTS reviewed_output JSONB,
+ADD COLUMN IF NOT EXISTS review_notes TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_by UUID,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP,
+-- entities_deal row written when the output was accepted
+ADD COLUMN IF NOT EXISTS deal_id UUID;
+
+CREATE INDEX IF NOT EXISTS ai_outputs_org_review_status_idx
+  ON public.ai_outputs(org_id, review_status);
+
+-- One row per reviewed field per review: what the AI said and what the reviewer kept
+CREATE TABLE IF NOT EXISTS public.ai_output_field_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ai_output_id UUID NOT NULL REFERENCES public.ai_outputs(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('accept', 'edit', 'reject')),
+  ai_value JSONB,
+  human_value JSONB,
+  changed BOOLEAN NOT NULL DEFAULT FALSE,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ai_output_field_reviews_output_idx
+  ON public.ai_output_field_reviews(ai_output_id);
+CREATE INDEX IF NOT EXISTS ai_output_field_reviews_org_field_idx
+  ON public.ai_output_field_reviews(org_id, field);
+
+ALTER TABLE public.ai_output_field_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
@@ -0,0 +1,22 @@
+-- Migration: Org-scoped API keys for machine clients
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  rotated_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_org_id_idx ON public.api_keys(org_id);
+
+-- Keys are only ever read by the backend service role
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,44 @@
+-- Migration: Deal drafts proposed from AI news extraction
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.deal_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  news_id UUID NOT NULL REFERENCES public.news(id) ON DELETE CASCADE,
+  ai_output_id UUID REFERENCES public.ai_outputs(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'merged', 'rejected')),
+  deal_name TEXT NOT NULL,
+  deal_type TEXT,
+  gp_id UUID,
+  gp_name TEXT,
+  fund_id UUID,
+  fund_name TEXT,
+  portfolio_company_id UUID,
+  portfolio_company_name TEXT,
+  deal_size NUMERIC,
+  deal_currency TEXT,
+  deal_country TEXT,
+  announcement_date TEXT,
+  source_url TEXT,
+  confidence_score INTEGER,
+  -- Existing entities_deal rows scored against the draft, best first
+  match_candidates JSONB,
+  matched_deal_id UUID,
+  -- entities_deal row created or merged into on approval
+  deal_id UUID,
+  review_notes TEXT,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS deal_drafts_org_status_idx
+  ON public.deal_drafts(org_id, status);
+CREATE INDEX IF NOT EXISTS deal_drafts_news_id_idx
+  ON public.deal_drafts(news_id);
+
+ALTER TABLE public.deal_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
@@ -0,0 +1,31 @@
+-- Migration: Entity aliases and ranked candidates for entity resolution
+-- Run this in your Supabase SQL Editor
+--
+-- entity_aliases holds extra names an entity is known by (reviewer decisions,
+-- imports) on top of the short/legal/former name columns. entity_links.candidates
+-- keeps the resolver's top candidates for links that need review.
+
+CREATE TABLE IF NOT EXISTS public.entity_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  alias TEXT NOT NULL,
+  normalized_alias TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  created_by UUID,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS entity_aliases_entity_alias_idx
+  ON public.entity_aliases(org_id, entity_type, entity_id, normalized_alias);
+CREATE INDEX IF NOT EXISTS entity_aliases_lookup_idx
+  ON public.entity_aliases(org_id, entity_type, normalized_alias);
+
+ALTER TABLE public.entity_links
+ADD COLUMN IF NOT EXISTS candidates JSONB;
+
+ALTER TABLE public.entity_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
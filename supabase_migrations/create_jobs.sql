@@ -0,0 +1,32 @@
+-- Migration: Postgres-backed background job queue
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key TEXT,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_until TIMESTAMP,
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS jobs_status_run_at_idx ON public.jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS jobs_org_id_status_idx ON public.jobs(org_id, status);
+
+-- Enqueueing the same work twice is a no-op while the first job is pending
+CREATE UNIQUE INDEX IF NOT EXISTS jobs_active_dedupe_idx ON public.jobs(type, dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('queued', 'running');
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
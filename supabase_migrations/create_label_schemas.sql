@@ -0,0 +1,28 @@
+-- Migration: Versioned label schemas per label project
+-- Run this in your Supabase SQL Editor
+
+-- Current schema ({ classes: [...] }); NULL with version 0 means the
+-- project still uses the default for its label type
+ALTER TABLE public.label_projects
+ADD COLUMN IF NOT EXISTS label_schema JSONB,
+ADD COLUMN IF NOT EXISTS label_schema_version INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.label_schema_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.label_projects(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  schema JSONB NOT NULL,
+  -- Removed class id -> class id existing annotations were moved to
+  remap JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS label_schema_versions_project_version_idx
+  ON public.label_schema_versions(project_id, version);
+
+ALTER TABLE public.label_schema_versions ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
@@ -0,0 +1,42 @@
+-- Migration: Bulk reprocessing (backfill) of existing news
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.news_backfills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  -- { from, to, source_name, project_id, ai_status, llm_model, prompt_version }
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  rate_per_minute INTEGER NOT NULL DEFAULT 10,
+  total INTEGER NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_at TIMESTAMP DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS news_backfills_org_id_idx
+  ON public.news_backfills(org_id);
+
+CREATE TABLE IF NOT EXISTS public.news_backfill_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  backfill_id UUID NOT NULL REFERENCES public.news_backfills(id) ON DELETE CASCADE,
+  news_id UUID NOT NULL REFERENCES public.news(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'queued', 'completed', 'failed')),
+  -- Dry runs only: old versus new AI output and entity links
+  diff JSONB,
+  error TEXT,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS news_backfill_items_backfill_news_idx
+  ON public.news_backfill_items(backfill_id, news_id);
+CREATE INDEX IF NOT EXISTS news_backfill_items_backfill_status_idx
+  ON public.news_backfill_items(backfill_id, status);
+
+ALTER TABLE public.news_backfills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.news_backfill_items ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id tables (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
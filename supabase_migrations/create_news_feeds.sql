@@ -0,0 +1,39 @@
+-- Migration: RSS/Atom/sitemap feed sources and news dedupe keys
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.news_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  source_name TEXT NOT NULL,
+  feed_type TEXT NOT NULL,
+  url TEXT NOT NULL,
+  poll_interval_minutes INTEGER NOT NULL DEFAULT 60,
+  target_project_id UUID REFERENCES public.label_projects(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_polled_at TIMESTAMP,
+  last_poll_status TEXT,
+  last_poll_error TEXT,
+  last_poll_created INTEGER,
+  created_by UUID,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS news_feeds_org_url_idx
+  ON public.news_feeds(org_id, url);
+
+-- Canonical URL and cleaned-text hash for deduplicating feed articles
+ALTER TABLE public.news
+ADD COLUMN IF NOT EXISTS canonical_url TEXT,
+ADD COLUMN IF NOT EXISTS content_hash TEXT,
+ADD COLUMN IF NOT EXISTS feed_id UUID REFERENCES public.news_feeds(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS news_org_canonical_url_idx
+  ON public.news(org_id, canonical_url);
+CREATE INDEX IF NOT EXISTS news_org_content_hash_idx
+  ON public.news(org_id, content_hash);
+
+ALTER TABLE public.news_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
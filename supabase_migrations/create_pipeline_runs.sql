@@ -0,0 +1,34 @@
+-- Migration: Pipeline run records for news processing
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.pipeline_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  news_id UUID NOT NULL REFERENCES public.news(id) ON DELETE CASCADE,
+  job_id UUID,
+  -- jobs.attempts when the run started; 1 for manual runs
+  attempt INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  -- [{ stage, status, duration_ms, started_at }] in execution order
+  stages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  failed_stage TEXT,
+  error_class TEXT,
+  error_message TEXT,
+  llm_provider TEXT,
+  llm_model TEXT,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  duration_ms INTEGER,
+  started_at TIMESTAMP DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS pipeline_runs_org_started_idx
+  ON public.pipeline_runs(org_id, started_at);
+CREATE INDEX IF NOT EXISTS pipeline_runs_news_id_idx
+  ON public.pipeline_runs(news_id);
+
+ALTER TABLE public.pipeline_runs ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
@@ -0,0 +1,38 @@
+-- Migration: Versioned per-org prompt templates
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  template TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS prompt_templates_org_key_version_idx
+  ON public.prompt_templates(org_id, key, version);
+
+-- At most one active version per org and key
+CREATE UNIQUE INDEX IF NOT EXISTS prompt_templates_active_idx
+  ON public.prompt_templates(org_id, key)
+  WHERE is_active;
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
+
+-- Sectors exposed to templates as {{sector_taxonomy}}
+ALTER TABLE public.organizations
+ADD COLUMN IF NOT EXISTS sector_taxonomy TEXT[];
+
+-- Which prompt and model produced each output
+ALTER TABLE public.ai_outputs
+ADD COLUMN IF NOT EXISTS prompt_template_id UUID REFERENCES public.prompt_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS prompt_version TEXT,
+ADD COLUMN IF NOT EXISTS llm_provider TEXT,
+ADD COLUMN IF NOT EXISTS llm_model TEXT;
@@ -0,0 +1,41 @@
+-- Migration: Story clusters for near-duplicate and syndicated articles
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.story_clusters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  canonical_news_id UUID NOT NULL REFERENCES public.news(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Set when the canonical article's completed task was copied to the siblings;
+-- clusters with a completed canonical task and no propagated_at are picked up
+-- by the story cluster scheduler (server/jobs/storyClusterPropagation.ts)
+ALTER TABLE public.story_clusters
+ADD COLUMN IF NOT EXISTS propagated_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS story_clusters_org_id_idx
+  ON public.story_clusters(org_id);
+
+-- MinHash signature and LSH band keys of cleaned_text; articles sharing a
+-- band key are compared as near-duplicate candidates
+ALTER TABLE public.news
+ADD COLUMN IF NOT EXISTS minhash JSONB,
+ADD COLUMN IF NOT EXISTS minhash_bands TEXT[],
+ADD COLUMN IF NOT EXISTS cluster_id UUID REFERENCES public.story_clusters(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS cluster_similarity INTEGER;
+
+CREATE INDEX IF NOT EXISTS news_minhash_bands_idx
+  ON public.news USING GIN (minhash_bands);
+CREATE INDEX IF NOT EXISTS news_cluster_id_idx
+  ON public.news(cluster_id);
+
+-- Annotations copied from the canonical article go away with the original
+ALTER TABLE public.text_annotations
+ADD COLUMN IF NOT EXISTS propagated_from UUID REFERENCES public.text_annotations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.story_clusters ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();
@@ -0,0 +1,20 @@
+-- Migration: Server-issued login sessions
+-- Run this in your Supabase SQL Editor before deploying signed session tokens
+
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id),
+  refresh_token_hash TEXT NOT NULL,
+  user_agent TEXT,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  revoked_reason TEXT,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS user_sessions_user_id_idx ON public.user_sessions(user_id);
+
+-- Sessions are only ever read by the backend service role
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,138 @@
+-- Migration: Row-level security for every org-scoped table
+-- Run this in your Supabase SQL Editor
+--
+-- The backend runs each authenticated request in a transaction that sets
+-- app.current_org and switches to one of the roles below:
+--   annonest_app          regular users; rows are limited to app.current_org
+--   annonest_super_admin  super_admin; BYPASSRLS
+-- Unauthenticated work (login, token refresh, schedulers) keeps using the
+-- connection's own role, which owns the tables and is not subject to RLS.
+--
+-- Re-run `SELECT public.app_apply_org_policies();` after adding a table with
+-- an org_id column.
+
+-- 1. Roles
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'annonest_app') THEN
+    CREATE ROLE annonest_app NOLOGIN;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'annonest_super_admin') THEN
+    CREATE ROLE annonest_super_admin NOLOGIN BYPASSRLS;
+  END IF;
+END $$;
+
+-- The backend connection must be able to SET ROLE to both
+GRANT annonest_app, annonest_super_admin TO CURRENT_USER;
+
+GRANT USAGE, CREATE ON SCHEMA public TO annonest_app, annonest_super_admin;
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO annonest_app, annonest_super_admin;
+GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO annonest_app, annonest_super_admin;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+  GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO annonest_app, annonest_super_admin;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+  GRANT USAGE, SELECT ON SEQUENCES TO annonest_app, annonest_super_admin;
+
+-- 2. Org context helpers
+CREATE OR REPLACE FUNCTION public.app_current_org() RETURNS TEXT
+  LANGUAGE sql STABLE
+AS $$
+  SELECT NULLIF(current_setting('app.current_org', true), '')
+$$;
+
+-- Org of the Supabase-authenticated caller, for supabase-js queries from the
+-- browser. SECURITY DEFINER so the lookup is not itself filtered by RLS on users.
+CREATE OR REPLACE FUNCTION public.app_supabase_user_org() RETURNS TEXT
+  LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF to_regprocedure('auth.uid()') IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN (SELECT org_id::text FROM public.users WHERE supabase_id = auth.uid()::varchar LIMIT 1);
+END;
+$$;
+
+-- 3. Policy generation
+CREATE OR REPLACE FUNCTION public.app_apply_org_policies() RETURNS void
+  LANGUAGE plpgsql
+AS $$
+DECLARE
+  t RECORD;
+  has_supabase_role BOOLEAN := EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated');
+BEGIN
+  FOR t IN
+    SELECT c.table_name
+    FROM information_schema.columns c
+    JOIN information_schema.tables tb
+      ON tb.table_schema = c.table_schema AND tb.table_name = c.table_name
+    WHERE c.table_schema = 'public'
+      AND c.column_name = 'org_id'
+      AND tb.table_type = 'BASE TABLE'
+  LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t.table_name);
+
+    EXECUTE format('DROP POLICY IF EXISTS org_isolation ON public.%I', t.table_name);
+    EXECUTE format(
+      'CREATE POLICY org_isolation ON public.%I FOR ALL TO annonest_app
+         USING (org_id::text = public.app_current_org())
+         WITH CHECK (org_id::text = public.app_current_org())',
+      t.table_name
+    );
+
+    -- Keep direct supabase-js access from the browser working for the caller's own org
+    IF has_supabase_role THEN
+      EXECUTE format('DROP POLICY IF EXISTS org_isolation_supabase ON public.%I', t.table_name);
+      EXECUTE format(
+        'CREATE POLICY org_isolation_supabase ON public.%I FOR ALL TO authenticated
+           USING (org_id::text = public.app_supabase_user_org())
+           WITH CHECK (org_id::text = public.app_supabase_user_org())',
+        t.table_name
+      );
+    END IF;
+  END LOOP;
+
+  -- The Supabase entities_project_items table has no org_id; scope it through its project
+  IF to_regclass('public.entities_project_items') IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'entities_project_items' AND column_name = 'org_id'
+  ) THEN
+    ALTER TABLE public.entities_project_items ENABLE ROW LEVEL SECURITY;
+    DROP POLICY IF EXISTS org_isolation ON public.entities_project_items;
+    CREATE POLICY org_isolation ON public.entities_project_items FOR ALL TO annonest_app
+      USING (EXISTS (
+        SELECT 1 FROM public.entities_project p
+        WHERE p.id::text = entities_project_items.project_id::text
+          AND p.org_id::text = public.app_current_org()
+      ))
+      WITH CHECK (EXISTS (
+        SELECT 1 FROM public.entities_project p
+        WHERE p.id::text = entities_project_items.project_id::text
+          AND p.org_id::text = public.app_current_org()
+      ));
+  END IF;
+END;
+$$;
+
+SELECT public.app_apply_org_policies();
+
+-- 4. Self-check: fail the migration if any org-scoped table was left without a policy
+DO $$
+DECLARE
+  missing TEXT;
+BEGIN
+  SELECT string_agg(c.table_name, ', ') INTO missing
+  FROM information_schema.columns c
+  JOIN information_schema.tables tb
+    ON tb.table_schema = c.table_schema AND tb.table_name = c.table_name
+  WHERE c.table_schema = 'public'
+    AND c.column_name = 'org_id'
+    AND tb.table_type = 'BASE TABLE'
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_policies p
+      WHERE p.schemaname = 'public' AND p.tablename = c.table_name AND p.policyname = 'org_isolation'
+    );
+  IF missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Org-scoped tables without an org_isolation policy: %', missing;
+  END IF;
+END $$;
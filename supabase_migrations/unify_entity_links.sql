@@ -0,0 +1,84 @@
+-- Migration: One polymorphic entity_links table for AI, manual and rule links
+-- Run this in your Supabase SQL Editor
+--
+-- Replaces news_entity_links (manual tagging) and the AI linker's
+-- entity_links with a single table. Existing rows from both are kept.
+
+CREATE TABLE IF NOT EXISTS public.entity_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL,
+  source_id UUID NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  confidence_score INTEGER,
+  match_type TEXT NOT NULL DEFAULT 'exact',
+  status TEXT NOT NULL DEFAULT 'LINKED'
+);
+
+-- Columns the AI-only table did not have
+ALTER TABLE public.entity_links
+ADD COLUMN IF NOT EXISTS link_source TEXT NOT NULL DEFAULT 'ai',
+ADD COLUMN IF NOT EXISTS mention TEXT,
+ADD COLUMN IF NOT EXISTS ai_output_id UUID REFERENCES public.ai_outputs(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS created_by UUID,
+ADD COLUMN IF NOT EXISTS reviewed_by UUID,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS created_at TIMESTAMP DEFAULT NOW();
+
+-- Entity type names used by the old AI linker
+UPDATE public.entity_links SET entity_type = 'portfolio_company' WHERE entity_type = 'company';
+UPDATE public.entity_links SET entity_type = 'service_provider' WHERE entity_type = 'sp';
+
+-- Keep one row per (source, entity) before adding the unique index
+DELETE FROM public.entity_links a
+USING public.entity_links b
+WHERE a.ctid > b.ctid
+  AND a.org_id = b.org_id
+  AND a.source_type = b.source_type
+  AND a.source_id = b.source_id
+  AND a.entity_type = b.entity_type
+  AND a.entity_id = b.entity_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS entity_links_source_entity_idx
+  ON public.entity_links(org_id, source_type, source_id, entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS entity_links_entity_idx
+  ON public.entity_links(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS entity_links_org_status_idx
+  ON public.entity_links(org_id, status);
+
+-- Manual tags from news_entity_links
+DO $$
+BEGIN
+  IF to_regclass('public.news_entity_links') IS NOT NULL THEN
+    INSERT INTO public.entity_links (
+      org_id, source_type, source_id, entity_type, entity_id,
+      link_source, match_type, confidence_score, status, created_by, created_at
+    )
+    SELECT
+      COALESCE(l.org_id, n.org_id),
+      'news',
+      l.news_id,
+      CASE WHEN l.entity_type = 'company' THEN 'portfolio_company' ELSE l.entity_type END,
+      l.entity_id,
+      'manual',
+      'manual',
+      100,
+      'LINKED',
+      l.created_by,
+      l.created_at
+    FROM public.news_entity_links l
+    JOIN public.news n ON n.id = l.news_id
+    ON CONFLICT (org_id, source_type, source_id, entity_type, entity_id) DO UPDATE
+    SET link_source = 'manual',
+        match_type = 'manual',
+        status = 'LINKED';
+
+    DROP TABLE public.news_entity_links;
+  END IF;
+END $$;
+
+ALTER TABLE public.entity_links ENABLE ROW LEVEL SECURITY;
+
+-- Pick up the new org_id table (see enable_org_rls.sql)
+SELECT public.app_apply_org_policies();